@@ -1,102 +1,91 @@
 import React, { useState, useRef, useEffect, useCallback, useLayoutEffect } from 'react';
-import { AppScreen, HealthAnalysis, ChatMessage } from './types';
-import { analyzeHealth, chatWithHealthAssistant } from './services/geminiService';
+import { AppScreen, HealthAnalysis, ChatMessage, ScreeningRecord, AcousticFeatures, AudioPreprocessingStats, ModelUsage, UserProfile, VoiceTaskId } from './types';
+import { analyzeHealth, chatWithHealthAssistant, transcribeAudioMessage, fetchQuota } from './services/analysisService';
+import { QuotaStatus } from './services/quotaService';
+import { VoiceTaskSegment } from './services/analysisProvider';
+import { SAMPLE_ANALYSIS_RESULT } from './services/fixtureProvider';
+import { AnalysisError, classifyError } from './services/analysisErrors';
+import { getDomainByLabel, getScoredDomains } from './services/domainRegistry';
+import { saveScreening, listScreenings, getScreening, deleteScreening, importScreening, addScreeningUsage } from './services/historyService';
+import { recordUsage } from './services/usageService';
+import { Route, TRANSIENT_SCREENS, guardRoute, parseRoute, routeToPath } from './services/routing';
+import { extractAcousticFeatures, decodeAudioBlob } from './services/acousticService';
+import { preprocessAudio } from './services/audioPreprocessing';
+import { AudioQualityReport, validateAudioBlob, explainQualityCheck } from './services/audioQuality';
+import { LiveCoach, RecordingCondition, createLiveCoach } from './services/liveCoaching';
+import { ImageQualityReport, assessImageQuality, faceGuidance } from './services/imageQuality';
 import { generatePDF } from './services/pdfService';
+import { blobToBase64, downloadFile } from './services/fileService';
+import { exportFhirBundle } from './services/fhirService';
+import { exportScreeningJson, parseScreeningExport, screeningsToCsv } from './services/screeningExport';
+import { formatInlineMarkdown } from './services/markdown';
+import { loadProfile, saveProfile } from './services/profileService';
+import { cohortForProfile } from './services/referenceNorms';
+import { VOICE_PROTOCOL, getVoiceTask, validateTaskRecording, taskLabel, taskInstruction } from './services/voiceProtocol';
+import { MessageKey, t, setUiLanguage, isRtlLanguage, formatNumber, formatDateTime, disclaimerText, domainName, confidenceName, urgencyName } from './services/i18n';
 import Waveform from './components/Waveform';
 import ResultCard from './components/ResultCard';
+import BiomarkerPanel from './components/BiomarkerPanel';
+import AnalysisErrorPanel from './components/AnalysisErrorPanel';
+import ProfileModal from './components/ProfileModal';
+import BatchValidation from './components/BatchValidation';
+import RichMessage from './components/RichMessage';
+import RecordingQualityPanel from './components/RecordingQualityPanel';
+import UsagePanel from './components/UsagePanel';
+import AccountTokenForm from './components/AccountTokenForm';
 
 // --- COST CONTROL CONSTANTS ---
-const MAX_CHAT_TURNS = 5;
+// Analysis and chat quotas are enforced by the proxy server (see services/quotaService.ts).
 const MAX_INPUT_CHARS = 200;
-const DAILY_ANALYSIS_LIMIT = 5;
-const STORAGE_KEY_USAGE = 'vitalvoice_daily_usage_log';
-
-// --- Sample Data for Demo ---
-const SAMPLE_ANALYSIS_RESULT: HealthAnalysis = {
-  overall_wellness_score: 82,
-  confidence_level: 'high',
-  summary: "The analysis indicates a robust vocal profile with strong respiratory support and clear articulation. Neurological markers are stable with no signs of tremors or dysarthria. Mental health indicators suggest a positive and engaged emotional state.",
-  disclaimer: "This is a demonstration result based on clinical sample data. Not a medical diagnosis.",
-  domain_scores: {
-    neurological: { score: 88, concern_level: 'low', indicators: ['Stable pitch', 'No micro-tremors', 'Regular rate'], explanation: 'High vocal stability suggests excellent neuromotor control.' },
-    mental_health: { score: 78, concern_level: 'low', indicators: ['High energy', 'Varied intonation'], explanation: 'Speech patterns indicate positive emotional engagement and low stress.' },
-    respiratory: { score: 92, concern_level: 'low', indicators: ['Sustained phonation', 'Clear breath'], explanation: 'Excellent respiratory capacity detected with no audible gasping.' },
-    cardiovascular: { score: 81, concern_level: 'low', indicators: ['Regular rhythm'], explanation: 'No arrhythmic patterns observed in speech breathing cycles.' },
-    metabolic: { score: 72, concern_level: 'moderate', indicators: ['Slight fatigue markers'], explanation: 'Minor signs of vocal fatigue detected, possibly hydration-related.' },
-    hydration: { score: 85, concern_level: 'low', indicators: ['Clear tone', 'Low jitter'], explanation: 'Vocal folds appear well-hydrated based on acoustic clarity.' },
-  },
-  key_observations: [
-    { finding: "High vocal stability (Jitter < 0.5%)", significance: "Indicates healthy neuromotor function", confidence: "high" },
-    { finding: "Consistent speech rate (140 wpm)", significance: "Normal cognitive processing speed", confidence: "high" },
-    { finding: "Harmonic-to-Noise Ratio > 20dB", significance: "Clear, efficient phonation", confidence: "high" }
-  ],
-  recommendations: [
-    { action: "Maintain current hydration", urgency: "routine", reason: "Supports optimal vocal fold mucosal wave" },
-    { action: "Monitor fatigue levels", urgency: "soon", reason: "Slight metabolic strain detected in lower registers" }
-  ],
-  trends: {
-    improving: ["Respiratory support", "Pitch range"],
-    stable: ["Neurological markers", "Cardiovascular health"],
-    needs_attention: []
-  }
-};
 
-// --- Helper: Audio Validation ---
-const validateAudioBlob = async (audioBlob: Blob): Promise<{ isValid: boolean; error?: string }> => {
-  if (audioBlob.size === 0) return { isValid: false, error: "Recording failed (empty file)." };
+type AnalysisSource = 'recording' | 'upload';
+
+interface AnalysisInput {
+  audioBase64: string;
+  audioMimeType: string;
+  imageBase64?: string;
+  imageMimeType?: string;
+  features: AcousticFeatures | null;
+  segments?: VoiceTaskSegment[];
+  preprocessing: AudioPreprocessingStats[];
+}
+
+// A validated recording of one protocol task.
+interface TaskRecording {
+  blob: Blob;
+  features: AcousticFeatures | null;
+}
+
+// --- Live Coaching ---
+const COACHING_MESSAGES: Record<RecordingCondition, MessageKey> = {
+  idle: 'recording.listening',
+  listening: 'recording.listening',
+  good: 'recording.goodVolume',
+  too_loud: 'coach.tooLoud',
+  noisy: 'coach.noisy',
+  too_far: 'coach.tooFar',
+  silence: 'coach.silence',
+};
+// Conditions that turn the microphone red.
+const COACHING_PROBLEMS: RecordingCondition[] = ['too_loud', 'noisy', 'too_far', 'silence'];
 
-  // Create offline context for analysis
-  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-  
+// --- Helper: Upload Audio ---
+// Preprocessed copy of a recording for upload. If the browser cannot decode
+// it, the original is sent as before and no stats are recorded.
+const prepareUploadAudio = async (blob: Blob, originalMimeType: string, task?: VoiceTaskId) => {
   try {
-    const arrayBuffer = await audioBlob.arrayBuffer();
-    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-    
-    // 1. Duration Check (Allowing 3s for usability, prompt said 5s but strict 5s often blocks valid short phrases in testing)
-    const duration = audioBuffer.duration;
-    if (duration < 3.0) { 
-        return { isValid: false, error: "Recording too short. Minimum 3 seconds required for accurate analysis." };
-    }
-
-    const channelData = audioBuffer.getChannelData(0);
-    let sumSquares = 0;
-    let speechSamples = 0;
-    const silenceThreshold = 0.01; // Amplitude threshold
-
-    for (let i = 0; i < channelData.length; i++) {
-      const sample = channelData[i];
-      sumSquares += sample * sample;
-      if (Math.abs(sample) > silenceThreshold) {
-        speechSamples++;
-      }
-    }
-
-    const rms = Math.sqrt(sumSquares / channelData.length);
-    const speechPercentage = (speechSamples / channelData.length) * 100;
-
-    console.log(`Audio Analysis: Duration=${duration.toFixed(2)}s, RMS=${rms.toFixed(4)}, Speech%=${speechPercentage.toFixed(1)}%`);
-
-    // 2. Volume/Energy Check
-    if (rms < 0.02) {
-       return { isValid: false, error: "Recording too quiet. Please speak louder or move closer to the microphone." };
-    }
-    
-    // 3. Speech Content Check
-    if (speechPercentage < 10) {
-       return { isValid: false, error: "No speech detected. Please speak clearly." };
-    }
-
-    return { isValid: true };
-
+    const processed = await preprocessAudio(blob);
+    return {
+      base64: await blobToBase64(processed.blob),
+      mimeType: processed.mimeType,
+      stats: task ? { ...processed.stats, task } : processed.stats
+    };
   } catch (e) {
-    console.error("Audio validation error:", e);
-    return { isValid: false, error: "Could not validate audio file." };
-  } finally {
-    audioContext.close();
+    console.error("Audio preprocessing failed, sending the original recording:", e);
+    return { base64: await blobToBase64(blob), mimeType: originalMimeType, stats: null };
   }
 };
 
-
 // --- Components ---
 
 // Simple Markdown Renderer
@@ -108,43 +97,47 @@ const MarkdownRenderer: React.FC<{ content: string }> = ({ content }) => {
       if (line.trim().startsWith('- ') || line.trim().startsWith('* ')) {
         const itemContent = line.trim().substring(2);
         return (
-          <div key={lineIndex} className="flex items-start gap-2 mb-1 ml-2">
+          <div key={lineIndex} className="flex items-start gap-2 mb-1 ms-2">
              <span className="text-[#A8C7FA] mt-1.5">•</span>
-             <p className="flex-1 text-[#E3E3E3] leading-relaxed" dangerouslySetInnerHTML={{ __html: formatInlineStyles(itemContent) }} />
+             <p className="flex-1 text-[#E3E3E3] leading-relaxed" dangerouslySetInnerHTML={{ __html: formatInlineMarkdown(itemContent) }} />
           </div>
         );
       }
       if (line.trim() === '') return <div key={lineIndex} className="h-2"></div>;
-      return <p key={lineIndex} className="mb-2 leading-relaxed" dangerouslySetInnerHTML={{ __html: formatInlineStyles(line) }} />;
+      return <p key={lineIndex} className="mb-2 leading-relaxed" dangerouslySetInnerHTML={{ __html: formatInlineMarkdown(line) }} />;
     });
   };
 
-  const formatInlineStyles = (text: string) => {
-    return text
-      .replace(/\*\*(.*?)\*\*/g, '<strong class="text-white font-semibold">$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em class="text-gray-300">$1</em>')
-      .replace(/`([^`]+)`/g, '<code class="bg-[#2E2F30] px-1 rounded text-sm font-mono text-[#E8DEF8]">$1</code>');
-  };
-
   return <div className="markdown-content">{processText(content)}</div>;
 };
 
 // Limit Reached Modal
-const LimitModal: React.FC<{ onClose: () => void }> = ({ onClose }) => (
+const LimitModal: React.FC<{ quota: QuotaStatus | null; onQuotaChange: (quota: QuotaStatus | null) => void; onClose: () => void }> = ({ quota, onQuotaChange, onClose }) => (
     <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/90 backdrop-blur-sm p-4 animate-fade-in-up">
         <div className="bg-[#1E1F20] w-full max-w-md rounded-[24px] border border-red-900/50 shadow-2xl flex flex-col p-6 text-center">
             <div className="w-16 h-16 rounded-full bg-red-500/10 flex items-center justify-center mx-auto mb-4">
                 <span className="material-symbol text-3xl text-red-500">block</span>
             </div>
-            <h2 className="text-xl font-bold text-white mb-2">Daily Quota Reached</h2>
+            <h2 className="text-xl font-bold text-white mb-2">{t('limit.title')}</h2>
             <p className="text-gray-400 text-sm mb-6 leading-relaxed">
-                To ensure service availability and manage research costs, we limit usage to <strong>{DAILY_ANALYSIS_LIMIT} screenings per day</strong> per device.
+                {quota ? <RichMessage text={t('limit.body')} values={{ quota: <strong>{t('limit.quota', { limit: quota.analyses.limit })}</strong> }} /> : t('error.quota')}
             </p>
+            {quota?.analyses.resetsAt && (
+                <p className="text-gray-300 text-sm mb-6 flex items-center justify-center gap-2">
+                    <span className="material-symbol text-[18px]">schedule</span>
+                    {t('limit.resetsAt', { time: formatDateTime(quota.analyses.resetsAt) })}
+                </p>
+            )}
+            {quota && (
+                <div className="mb-6">
+                    <AccountTokenForm quota={quota} onQuotaChange={onQuotaChange} />
+                </div>
+            )}
             <div className="bg-[#28292A] p-4 rounded-xl border border-[#444746] mb-6 text-xs text-gray-500">
-                You can still view the interactive demo using Sample Data, which does not count towards your quota.
+                {t('limit.sampleNote')}
             </div>
             <button onClick={onClose} className="w-full py-3 rounded-full bg-[#E3E3E3] text-black font-bold hover:bg-white transition-colors">
-                Understood
+                {t('limit.ok')}
             </button>
         </div>
     </div>
@@ -157,7 +150,7 @@ const TechModal: React.FC<{ onClose: () => void }> = ({ onClose }) => (
             <div className="p-6 border-b border-[#444746] flex justify-between items-center">
                 <h2 className="text-2xl font-normal text-white flex items-center gap-2">
                     <span className="material-symbol text-[#A8C7FA]">code</span>
-                    Technical Architecture
+                    {t('tech.title')}
                 </h2>
                 <button onClick={onClose} className="text-gray-400 hover:text-white">
                     <span className="material-symbol">close</span>
@@ -165,46 +158,46 @@ const TechModal: React.FC<{ onClose: () => void }> = ({ onClose }) => (
             </div>
             <div className="p-6 overflow-y-auto space-y-6">
                 <div>
-                    <h3 className="text-[#A8C7FA] font-bold uppercase text-xs tracking-wider mb-2">AI Models Used</h3>
+                    <h3 className="text-[#A8C7FA] font-bold uppercase text-xs tracking-wider mb-2">{t('tech.models')}</h3>
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                         <div className="bg-[#131314] p-4 rounded-xl border border-[#444746]">
                             <div className="font-bold text-white mb-1">Gemini 2.5 Flash</div>
-                            <div className="text-sm text-gray-400">Low-latency multimodal analysis of audio (PCM) and video frames.</div>
+                            <div className="text-sm text-gray-400">{t('tech.flashDescription')}</div>
                         </div>
                         <div className="bg-[#131314] p-4 rounded-xl border border-[#444746]">
                             <div className="font-bold text-white mb-1">Gemini 3 Pro (Preview)</div>
-                            <div className="text-sm text-gray-400">Complex reasoning for clinical correlation and trend analysis.</div>
+                            <div className="text-sm text-gray-400">{t('tech.proDescription')}</div>
                         </div>
                     </div>
                 </div>
 
                 <div>
-                    <h3 className="text-[#A8C7FA] font-bold uppercase text-xs tracking-wider mb-2">Data Pipeline</h3>
+                    <h3 className="text-[#A8C7FA] font-bold uppercase text-xs tracking-wider mb-2">{t('tech.pipeline')}</h3>
                     <div className="flex flex-col gap-2">
                          <div className="flex items-center gap-3 text-sm text-gray-300">
                             <span className="material-symbol text-emerald-400">mic</span>
-                            <span>Raw Audio (WebM/PCM) Capture</span>
+                            <span>{t('tech.pipelineCapture')}</span>
                          </div>
-                         <div className="h-4 border-l border-dashed border-gray-600 ml-3"></div>
+                         <div className="h-4 border-s border-dashed border-gray-600 ms-3"></div>
                          <div className="flex items-center gap-3 text-sm text-gray-300">
                              <span className="material-symbol text-purple-400">transform</span>
-                             <span>Client-side Base64 Encoding</span>
+                             <span>{t('tech.pipelineEncoding')}</span>
                          </div>
-                         <div className="h-4 border-l border-dashed border-gray-600 ml-3"></div>
+                         <div className="h-4 border-s border-dashed border-gray-600 ms-3"></div>
                          <div className="flex items-center gap-3 text-sm text-gray-300">
                              <span className="material-symbol text-blue-400">cloud</span>
-                             <span>Gemini API Multimodal Request</span>
+                             <span>{t('tech.pipelineRequest')}</span>
                          </div>
-                         <div className="h-4 border-l border-dashed border-gray-600 ml-3"></div>
+                         <div className="h-4 border-s border-dashed border-gray-600 ms-3"></div>
                          <div className="flex items-center gap-3 text-sm text-gray-300">
                              <span className="material-symbol text-orange-400">data_object</span>
-                             <span>Structured JSON Response</span>
+                             <span>{t('tech.pipelineResponse')}</span>
                          </div>
                     </div>
                 </div>
 
                 <div>
-                    <h3 className="text-[#A8C7FA] font-bold uppercase text-xs tracking-wider mb-2">Sample API Request</h3>
+                    <h3 className="text-[#A8C7FA] font-bold uppercase text-xs tracking-wider mb-2">{t('tech.sampleRequest')}</h3>
                     <pre className="bg-[#131314] p-4 rounded-xl border border-[#444746] text-xs text-gray-300 font-mono overflow-x-auto">
 {`const response = await ai.models.generateContent({
   model: "gemini-2.5-flash",
@@ -220,57 +213,79 @@ const TechModal: React.FC<{ onClose: () => void }> = ({ onClose }) => (
                 </div>
             </div>
             <div className="p-6 border-t border-[#444746] bg-[#262728] rounded-b-[24px]">
-                 <p className="text-xs text-center text-gray-500">Based on research papers regarding acoustic analysis of vocal biomarkers in neurology.</p>
+                 <p className="text-xs text-center text-gray-500">{t('tech.footer')}</p>
             </div>
         </div>
     </div>
 );
 
+// `passage` is the opening of "The North Wind and the Sun", the usual reading text in phonetics and voice assessment.
 const SUPPORTED_LANGUAGES = [
-  { code: 'en-US', name: 'English (US)', flag: '🇺🇸', prompt: "Tell me about a memorable meal you've had recently. Describe the flavors, the place, and who you were with." },
-  { code: 'en-GB', name: 'English (UK)', flag: '🇬🇧', prompt: "Tell me about a memorable meal you've had recently. Describe the flavors, the place, and who you were with." },
-  { code: 'es-ES', name: 'Español', flag: '🇪🇸', prompt: "Cuéntame sobre una comida memorable que hayas tenido recientemente. Describe los sabores, el lugar y con quién estabas." },
-  { code: 'fr-FR', name: 'Français', flag: '🇫🇷', prompt: "Parlez-moi d'un repas mémorable que vous avez pris récemment. Décrivez les saveurs, le lieu et avec qui vous étiez." },
-  { code: 'de-DE', name: 'Deutsch', flag: '🇩🇪', prompt: "Erzählen Sie mir von einer unvergesslichen Mahlzeit, die Sie kürzlich hatten. Beschreiben Sie die Aromen, den Ort und mit wem Sie dort waren." },
-  { code: 'pt-BR', name: 'Português (BR)', flag: '🇧🇷', prompt: "Conte-me sobre uma refeição memorável que você teve recentemente. Descreva os sabores, o lugar e com quem você estava." },
-  { code: 'zh-CN', name: '中文 (Simplified)', flag: '🇨🇳', prompt: "告诉我你最近吃过的一次难忘的饭局。描述一下味道、地点以及你和谁在一起。" },
-  { code: 'ja-JP', name: '日本語', flag: '🇯🇵', prompt: "最近食べた思い出に残る食事について教えてください。味や場所、誰と一緒にいたかなどを説明してください。" },
-  { code: 'ko-KR', name: '한국어', flag: '🇰🇷', prompt: "최근에 있었던 기억에 남는 식사에 대해 이야기해 주세요. 맛, 장소, 그리고 누구와 함께 있었는지 묘사해 주세요." },
-  { code: 'hi-IN', name: 'हिन्दी', flag: '🇮🇳', prompt: "मुझे हाल ही में किए गए एक यादगार भोजन के बारे में बताएं। स्वाद, जगह और आप किसके साथ थे, इसका वर्णन करें।" },
-  { code: 'bn-IN', name: 'বাংলা', flag: '🇧🇩', prompt: "আপনার সাম্প্রতিক কোনো স্মরণীয় খাবারের অভিজ্ঞতা সম্পর্কে বলুন। স্বাদ, জায়গা এবং আপনি কার সাথে ছিলেন তা বর্ণনা করুন।" },
-  { code: 'ar-SA', name: 'العربية', flag: '🇸🇦', prompt: "أخبرني عن وجبة لا تُنسى تناولتها مؤخرًا. صف النكهات والمكان ومن كان معك." },
-  { code: 'ru-RU', name: 'Русский', flag: '🇷🇺', prompt: "Расскажите мне о запоминающейся еде, которая у вас была недавно. Опишите вкусы, место и то, с кем вы были." },
-  { code: 'it-IT', name: 'Italiano', flag: '🇮🇹', prompt: "Parlami di un pasto memorabile che hai fatto di recente. Descrivi i sapori, il luogo e con chi eri." },
-  { code: 'id-ID', name: 'Bahasa Indonesia', flag: '🇮🇩', prompt: "Ceritakan tentang makanan yang paling berkesan yang baru saja Anda nikmati. Jelaskan rasanya, tempatnya, dan dengan siapa Anda pergi." },
-  { code: 'tr-TR', name: 'Türkçe', flag: '🇹🇷', prompt: "Bana yakın zamanda yediğiniz unutulmaz bir yemekten bahsedin. Lezzetleri, mekanı ve kiminle olduğunuzu anlatın." },
-  { code: 'vi-VN', name: 'Tiếng Việt', flag: '🇻🇳', prompt: "Hãy kể cho tôi nghe về một bữa ăn đáng nhớ mà bạn đã có gần đây. Mô tả hương vị, địa điểm và bạn đã đi cùng ai." },
-  { code: 'th-TH', name: 'ไทย', flag: '🇹🇭', prompt: "เล่าให้ฉันฟังเกี่ยวกับมื้ออาหารที่น่าจดจำที่คุณทานเมื่อเร็วๆ นี้ อธิบายรสชาติ สถานที่ และคุณไปกับใคร" },
-  { code: 'pl-PL', name: 'Polski', flag: '🇵🇱', prompt: "Opowiedz mi o niezapomnianym posiłku, który ostatnio jadłeś. Opisz smaki, miejsce i to, z kim byłeś." },
-  { code: 'nl-NL', name: 'Nederlands', flag: '🇳🇱', prompt: "Vertel me over een gedenkwaardige maaltijd die je onlangs hebt gehad. Beschrijf de smaken, de plaats en met wie je was." },
-  { code: 'sv-SE', name: 'Svenska', flag: '🇸🇪', prompt: "Berätta om en minnesvärd måltid du ätit nyligen. Beskriv smakerna, platsen och vem du var med." },
-  { code: 'el-GR', name: 'Ελληνικά', flag: '🇬🇷', prompt: "Πείτε μου για ένα αξέχαστο γεύμα που είχατε πρόσφατα. Περιγράψτε τις γεύσεις, το μέρος και με ποιον ήσασταν." },
-  { code: 'he-IL', name: 'עברית', flag: '🇮🇱', prompt: "ספר לי על ארוחה בלתי נשכחת שהייתה לך לאחרונה. תאר את הטעמים, המקום ועם מי היית." },
-  { code: 'fil-PH', name: 'Filipino', flag: '🇵🇭', prompt: "Kuwentuhan mo ako tungkol sa isang hindi malilimutang pagkain na kinain mo kamakailan. Ilarawan ang mga lasa, lugar, at kung sino ang kasama mo." },
+  { code: 'en-US', name: 'English (US)', flag: '🇺🇸', prompt: "Tell me about a memorable meal you've had recently. Describe the flavors, the place, and who you were with.", passage: "The North Wind and the Sun were disputing which was the stronger, when a traveler came along wrapped in a warm cloak." },
+  { code: 'en-GB', name: 'English (UK)', flag: '🇬🇧', prompt: "Tell me about a memorable meal you've had recently. Describe the flavors, the place, and who you were with.", passage: "The North Wind and the Sun were disputing which was the stronger, when a traveller came along wrapped in a warm cloak." },
+  { code: 'es-ES', name: 'Español', flag: '🇪🇸', prompt: "Cuéntame sobre una comida memorable que hayas tenido recientemente. Describe los sabores, el lugar y con quién estabas.", passage: "El viento norte y el sol discutían sobre cuál de ellos era el más fuerte, cuando pasó un viajero envuelto en una cálida capa." },
+  { code: 'fr-FR', name: 'Français', flag: '🇫🇷', prompt: "Parlez-moi d'un repas mémorable que vous avez pris récemment. Décrivez les saveurs, le lieu et avec qui vous étiez.", passage: "La bise et le soleil se disputaient, chacun assurant qu'il était le plus fort, quand ils ont vu un voyageur qui s'avançait, enveloppé dans son manteau." },
+  { code: 'de-DE', name: 'Deutsch', flag: '🇩🇪', prompt: "Erzählen Sie mir von einer unvergesslichen Mahlzeit, die Sie kürzlich hatten. Beschreiben Sie die Aromen, den Ort und mit wem Sie dort waren.", passage: "Einst stritten sich Nordwind und Sonne, wer von ihnen beiden wohl der Stärkere wäre, als ein Wanderer, der in einen warmen Mantel gehüllt war, des Weges daherkam." },
+  { code: 'pt-BR', name: 'Português (BR)', flag: '🇧🇷', prompt: "Conte-me sobre uma refeição memorável que você teve recentemente. Descreva os sabores, o lugar e com quem você estava.", passage: "O vento norte e o sol discutiam qual dos dois era o mais forte, quando passou um viajante envolto em uma capa quente." },
+  { code: 'zh-CN', name: '中文 (Simplified)', flag: '🇨🇳', prompt: "告诉我你最近吃过的一次难忘的饭局。描述一下味道、地点以及你和谁在一起。", passage: "有一回，北风跟太阳在那儿争论谁的本事大。这时候路上来了个走道儿的，他身上穿着件厚大衣。" },
+  { code: 'ja-JP', name: '日本語', flag: '🇯🇵', prompt: "最近食べた思い出に残る食事について教えてください。味や場所、誰と一緒にいたかなどを説明してください。", passage: "北風と太陽が、どちらが強いかで言い争っていると、暖かい外套を着た旅人がやって来ました。" },
+  { code: 'ko-KR', name: '한국어', flag: '🇰🇷', prompt: "최근에 있었던 기억에 남는 식사에 대해 이야기해 주세요. 맛, 장소, 그리고 누구와 함께 있었는지 묘사해 주세요.", passage: "북풍과 태양이 서로 누가 더 힘이 센지 다투고 있을 때, 따뜻한 외투를 입은 나그네가 지나가고 있었습니다." },
+  { code: 'hi-IN', name: 'हिन्दी', flag: '🇮🇳', prompt: "मुझे हाल ही में किए गए एक यादगार भोजन के बारे में बताएं। स्वाद, जगह और आप किसके साथ थे, इसका वर्णन करें।", passage: "उत्तरी हवा और सूरज इस बात पर बहस कर रहे थे कि उनमें से कौन अधिक ताकतवर है, तभी गर्म लबादा ओढ़े एक यात्री वहाँ से गुज़रा।" },
+  { code: 'bn-IN', name: 'বাংলা', flag: '🇧🇩', prompt: "আপনার সাম্প্রতিক কোনো স্মরণীয় খাবারের অভিজ্ঞতা সম্পর্কে বলুন। স্বাদ, জায়গা এবং আপনি কার সাথে ছিলেন তা বর্ণনা করুন।", passage: "উত্তুরে হাওয়া আর সূর্য তর্ক করছিল কে বেশি শক্তিশালী, এমন সময় গরম চাদর জড়িয়ে এক পথিক সেই পথ দিয়ে যাচ্ছিল।" },
+  { code: 'ar-SA', name: 'العربية', flag: '🇸🇦', prompt: "أخبرني عن وجبة لا تُنسى تناولتها مؤخرًا. صف النكهات والمكان ومن كان معك.", passage: "كانت ريح الشمال والشمس تتجادلان أيهما أقوى، عندما مرّ مسافر ملتف بعباءة دافئة." },
+  { code: 'ru-RU', name: 'Русский', flag: '🇷🇺', prompt: "Расскажите мне о запоминающейся еде, которая у вас была недавно. Опишите вкусы, место и то, с кем вы были.", passage: "Северный ветер и Солнце спорили, кто из них сильнее, когда мимо проходил путник, закутанный в тёплый плащ." },
+  { code: 'it-IT', name: 'Italiano', flag: '🇮🇹', prompt: "Parlami di un pasto memorabile che hai fatto di recente. Descrivi i sapori, il luogo e con chi eri.", passage: "Il vento di tramontana e il sole si contendevano il primato della forza, quando videro un viaggiatore che veniva innanzi, avvolto nel mantello." },
+  { code: 'id-ID', name: 'Bahasa Indonesia', flag: '🇮🇩', prompt: "Ceritakan tentang makanan yang paling berkesan yang baru saja Anda nikmati. Jelaskan rasanya, tempatnya, dan dengan siapa Anda pergi.", passage: "Angin utara dan matahari sedang berdebat tentang siapa yang lebih kuat, ketika seorang pengembara lewat dengan mengenakan mantel tebal." },
+  { code: 'tr-TR', name: 'Türkçe', flag: '🇹🇷', prompt: "Bana yakın zamanda yediğiniz unutulmaz bir yemekten bahsedin. Lezzetleri, mekanı ve kiminle olduğunuzu anlatın.", passage: "Poyraz ile güneş hangisinin daha güçlü olduğu konusunda tartışırken, sıcak bir palto giymiş bir yolcu çıkagelmiş." },
+  { code: 'vi-VN', name: 'Tiếng Việt', flag: '🇻🇳', prompt: "Hãy kể cho tôi nghe về một bữa ăn đáng nhớ mà bạn đã có gần đây. Mô tả hương vị, địa điểm và bạn đã đi cùng ai.", passage: "Gió bấc và mặt trời đang tranh cãi xem ai mạnh hơn thì có một người khách bộ hành khoác chiếc áo choàng ấm đi ngang qua." },
+  { code: 'th-TH', name: 'ไทย', flag: '🇹🇭', prompt: "เล่าให้ฉันฟังเกี่ยวกับมื้ออาหารที่น่าจดจำที่คุณทานเมื่อเร็วๆ นี้ อธิบายรสชาติ สถานที่ และคุณไปกับใคร", passage: "ลมเหนือกับดวงอาทิตย์กำลังเถียงกันว่าใครมีพลังมากกว่ากัน ขณะนั้นมีนักเดินทางคนหนึ่งสวมเสื้อคลุมตัวหนาเดินผ่านมา" },
+  { code: 'pl-PL', name: 'Polski', flag: '🇵🇱', prompt: "Opowiedz mi o niezapomnianym posiłku, który ostatnio jadłeś. Opisz smaki, miejsce i to, z kim byłeś.", passage: "Wiatr północny i słońce sprzeczali się, które z nich jest silniejsze, gdy nadszedł wędrowiec otulony ciepłym płaszczem." },
+  { code: 'nl-NL', name: 'Nederlands', flag: '🇳🇱', prompt: "Vertel me over een gedenkwaardige maaltijd die je onlangs hebt gehad. Beschrijf de smaken, de plaats en met wie je was.", passage: "De noordenwind en de zon waren erover aan het redetwisten wie de sterkste was van hen beiden, toen er een reiziger aankwam die in een warme mantel gehuld was." },
+  { code: 'sv-SE', name: 'Svenska', flag: '🇸🇪', prompt: "Berätta om en minnesvärd måltid du ätit nyligen. Beskriv smakerna, platsen och vem du var med.", passage: "Nordanvinden och solen tvistade en gång om vem av dem som var starkast, när en vandrare kom förbi, insvept i en varm kappa." },
+  { code: 'el-GR', name: 'Ελληνικά', flag: '🇬🇷', prompt: "Πείτε μου για ένα αξέχαστο γεύμα που είχατε πρόσφατα. Περιγράψτε τις γεύσεις, το μέρος και με ποιον ήσασταν.", passage: "Ο βοριάς κι ο ήλιος μάλωναν για το ποιος απ' τους δυο είναι ο δυνατότερος, όταν έτυχε να περάσει από μπροστά τους ένας ταξιδιώτης που φορούσε κάπα." },
+  { code: 'he-IL', name: 'עברית', flag: '🇮🇱', prompt: "ספר לי על ארוחה בלתי נשכחת שהייתה לך לאחרונה. תאר את הטעמים, המקום ועם מי היית.", passage: "רוח הצפון והשמש התווכחו ביניהם מי מהם חזק יותר, כאשר עבר בדרך הלך עטוף במעיל חם." },
+  { code: 'fil-PH', name: 'Filipino', flag: '🇵🇭', prompt: "Kuwentuhan mo ako tungkol sa isang hindi malilimutang pagkain na kinain mo kamakailan. Ilarawan ang mga lasa, lugar, at kung sino ang kasama mo.", passage: "Nagtatalo ang Hanging Amihan at ang Araw kung sino sa kanila ang mas malakas, nang may dumaang isang manlalakbay na nakabalot sa makapal na balabal." },
 ];
 
 const App: React.FC = () => {
   const [screen, setScreen] = useState<AppScreen>(AppScreen.INTRO);
+  // False until the URL the app was opened at has been resolved (a saved screening may need loading).
+  const [routeReady, setRouteReady] = useState(false);
   const [selectedLanguage, setSelectedLanguage] = useState(SUPPORTED_LANGUAGES[0]);
+  // The UI follows the screening language; set during render so every t() below sees it.
+  setUiLanguage(selectedLanguage.code);
   
   // New Modals State
   const [showTechModal, setShowTechModal] = useState(false);
   const [showLimitModal, setShowLimitModal] = useState(false);
+  // Null when the backend does not enforce quotas (direct and fixture providers).
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [showProfileModal, setShowProfileModal] = useState(false);
+  // Model calls behind the results on screen, for the usage panel.
+  const [screeningUsage, setScreeningUsage] = useState<ModelUsage[]>([]);
+  const [showUsagePanel, setShowUsagePanel] = useState(false);
+
+  // Profile State: the saved profile, and the one the displayed result was interpreted with
+  const [userProfile, setUserProfile] = useState<UserProfile | null>(() => loadProfile());
+  const [resultProfile, setResultProfile] = useState<UserProfile | null>(null);
+  // Face image and main recording behind the displayed result, for the PDF and
+  // JSON export; not kept in history.
+  const [resultImage, setResultImage] = useState<{ base64: string; mimeType: string } | null>(null);
+  const [resultAudio, setResultAudio] = useState<{ base64: string; mimeType: string } | null>(null);
 
   // Recording State
-  const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
+  const [protocolStep, setProtocolStep] = useState(0);
+  const [taskRecordings, setTaskRecordings] = useState<Partial<Record<VoiceTaskId, TaskRecording>>>({});
   const [isRecording, setIsRecording] = useState(false);
   const [timer, setTimer] = useState(30);
   const [recordingError, setRecordingError] = useState<string | null>(null);
+  // Checks behind the last rejected recording, shown under the error.
+  const [qualityReport, setQualityReport] = useState<AudioQualityReport | null>(null);
   
   // Real-time Audio Feedback State
   const [audioLevel, setAudioLevel] = useState(0);
-  const [recordingQuality, setRecordingQuality] = useState<'good' | 'low' | 'silent' | 'idle'>('idle');
-  const [recordingMessage, setRecordingMessage] = useState("Listening...");
+  const [recordingQuality, setRecordingQuality] = useState<RecordingCondition>('idle');
+  const [usableSpeechSeconds, setUsableSpeechSeconds] = useState(0);
   
   // Upload State
   const [uploadedAudioFile, setUploadedAudioFile] = useState<File | null>(null);
@@ -279,8 +294,20 @@ const App: React.FC = () => {
 
   // Analysis State
   const [imageBase64, setImageBase64] = useState<string | null>(null);
+  const [faceReport, setFaceReport] = useState<ImageQualityReport | null>(null);
+  const [faceCaptureError, setFaceCaptureError] = useState<string | null>(null);
   const [analysisResult, setAnalysisResult] = useState<HealthAnalysis | null>(null);
+  const [acousticFeatures, setAcousticFeatures] = useState<AcousticFeatures | null>(null);
   const [analysisStep, setAnalysisStep] = useState(0);
+  const [analysisSource, setAnalysisSource] = useState<AnalysisSource>('recording');
+  const [analysisError, setAnalysisError] = useState<AnalysisError | null>(null);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+
+  // History State
+  const [screeningHistory, setScreeningHistory] = useState<ScreeningRecord[]>([]);
+  const [activeScreeningId, setActiveScreeningId] = useState<string | null>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exportIncludesMedia, setExportIncludesMedia] = useState(false);
   
   // Chat State
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
@@ -298,36 +325,43 @@ const App: React.FC = () => {
   const chatEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Audio Analysis Refs
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  const coachRef = useRef<LiveCoach | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  // The screen the URL was last synced to, and whether the next sync replaces its entry.
+  const routedScreenRef = useRef<AppScreen | null>(null);
+  const replaceRouteRef = useRef(false);
+  const openRouteRef = useRef<(route: Route) => Promise<void>>(async () => {});
 
   // --- Cost Control Logic ---
-  const checkUsageLimit = (): boolean => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY_USAGE);
-      const log: number[] = raw ? JSON.parse(raw) : [];
-      const now = Date.now();
-      const oneDayAgo = now - 24 * 60 * 60 * 1000;
-      const validLog = log.filter(ts => ts > oneDayAgo);
-      localStorage.setItem(STORAGE_KEY_USAGE, JSON.stringify(validLog));
-      return validLog.length < DAILY_ANALYSIS_LIMIT;
-    } catch (e) {
-      console.error("Storage error", e);
-      return true; 
-    }
+  // The server has the final say; this only saves recording a screening that would be refused.
+  const refreshQuota = async () => setQuota(await fetchQuota());
+
+  useEffect(() => {
+    refreshQuota();
+  }, []);
+
+  const checkUsageLimit = (): boolean => !quota || quota.analyses.remaining > 0;
+
+  // Turns left in the current results conversation: the session limit, capped by what is left today.
+  const chatTurnsRemaining = (): number => {
+    if (!quota) return Infinity;
+    const userMessageCount = chatHistory.filter(m => m.role === 'user').length;
+    return Math.max(0, Math.min(quota.chatTurnsPerSession - userMessageCount, quota.chatTurns.remaining));
   };
 
-  const recordUsage = () => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY_USAGE);
-      const log: number[] = raw ? JSON.parse(raw) : [];
-      log.push(Date.now());
-      localStorage.setItem(STORAGE_KEY_USAGE, JSON.stringify(log));
-    } catch (e) {
-      console.error("Storage error", e);
+  // Chat turns and transcriptions come after the screening is saved, so they are appended to its record.
+  const trackFollowUpUsage = (usage: ModelUsage) => {
+    recordUsage(usage);
+    setScreeningUsage(prev => [...prev, usage]);
+    if (activeScreeningId) {
+      addScreeningUsage(activeScreeningId, [usage]).catch(e => console.error("History storage error", e));
     }
   };
 
@@ -342,50 +376,222 @@ const App: React.FC = () => {
       setTimeout(() => {
           clearInterval(stepInterval);
           setAnalysisResult(SAMPLE_ANALYSIS_RESULT);
+          setAcousticFeatures(null);
+          setResultProfile(null);
+          setResultImage(null);
+          setResultAudio(null);
+          setActiveScreeningId(null);
+          setScreeningUsage([]);
           setScreen(AppScreen.RESULTS);
       }, 3500);
   };
 
-  const exportPDF = () => {
-      if (analysisResult) {
-        generatePDF(analysisResult);
+  // --- History Logic ---
+  const persistScreening = async (result: HealthAnalysis, features: AcousticFeatures | null, preprocessing: AudioPreprocessingStats[], usage: ModelUsage[]): Promise<HealthAnalysis> => {
+    try {
+      const record = await saveScreening(result, selectedLanguage.name, features || undefined, userProfile || undefined, preprocessing.length > 0 ? preprocessing : undefined, usage.length > 0 ? usage : undefined);
+      setActiveScreeningId(record.id);
+      return record.analysis;
+    } catch (e) {
+      console.error("History storage error", e);
+      setActiveScreeningId(null);
+      return result;
+    }
+  };
+
+  const openHistory = async () => {
+    try {
+      setScreeningHistory(await listScreenings());
+    } catch (e) {
+      console.error("History storage error", e);
+      setScreeningHistory([]);
+    }
+    setScreen(AppScreen.HISTORY);
+  };
+
+  const openScreening = (record: ScreeningRecord, target: AppScreen = AppScreen.RESULTS) => {
+    setAnalysisResult(record.analysis);
+    setAcousticFeatures(record.acousticFeatures || null);
+    setResultProfile(record.profile || null);
+    setResultImage(null);
+    setResultAudio(null);
+    setActiveScreeningId(record.id);
+    setScreeningUsage(record.usage ?? []);
+    setChatHistory([]);
+    setScreen(target);
+  };
+
+  const importScreeningFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseScreeningExport(await file.text());
+      try {
+        const stored = await importScreening(imported.record);
+        setActiveScreeningId(stored.id);
+      } catch (storageError) {
+        console.error("History storage error", storageError);
+        setActiveScreeningId(null);
       }
+      chatAbortRef.current?.abort();
+      setAnalysisResult(imported.record.analysis);
+      setAcousticFeatures(imported.record.acousticFeatures || null);
+      setResultProfile(imported.record.profile || null);
+      setResultImage(imported.image);
+      setResultAudio(imported.audio);
+      setScreeningUsage(imported.record.usage ?? []);
+      setChatHistory(imported.chat);
+      setScreen(AppScreen.RESULTS);
+    } catch (error) {
+      console.error("Screening import failed", error);
+      alert(t('history.importFailed'));
+    }
   };
 
-  const updateVolume = () => {
-    if (!analyserRef.current) return;
-    
-    const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-    analyserRef.current.getByteFrequencyData(dataArray);
-    
-    // Calculate average volume
-    const sum = dataArray.reduce((a, b) => a + b, 0);
-    const avg = sum / dataArray.length; // 0 to 255
-    const normalized = Math.min(1, avg / 60); // Sensitivity adjustment
-
-    setAudioLevel(normalized);
-
-    // Determine quality for UI feedback
-    if (avg > 30) {
-        setRecordingQuality('good');
-        setRecordingMessage("Perfect volume");
-    } else if (avg > 10) {
-        setRecordingQuality('low');
-        setRecordingMessage("Speak louder...");
-    } else {
-        setRecordingQuality('silent');
-        setRecordingMessage("Listening...");
+  const exportHistoryCsv = () => {
+    if (screeningHistory.length === 0) return;
+    downloadFile(`vitalvoice-screenings-${new Date().toISOString().slice(0, 10)}.csv`, screeningsToCsv(screeningHistory), 'text/csv');
+  };
+
+  const removeScreening = async (id: string) => {
+    try {
+      await deleteScreening(id);
+      setScreeningHistory(prev => prev.filter(r => r.id !== id));
+      if (activeScreeningId === id) setActiveScreeningId(null);
+    } catch (e) {
+      console.error("History storage error", e);
     }
+  };
+
+  const exportPDF = async () => {
+      if (!analysisResult) return;
+
+      // Trend charts cover this screening and the ones saved before it.
+      let history: ScreeningRecord[] = [];
+      // Saved screenings record the language by name; the report is set in the language it was analysed in.
+      let language = selectedLanguage.code;
+      if (activeScreeningId) {
+        try {
+          const all = await listScreenings();
+          const current = all.find(r => r.id === activeScreeningId);
+          history = current ? all.filter(r => r.createdAt <= current.createdAt) : [];
+          language = SUPPORTED_LANGUAGES.find(l => l.name === current?.language)?.code || language;
+        } catch (e) {
+          console.error("History storage error", e);
+        }
+      }
+
+      await generatePDF(analysisResult, { cohort: cohortForProfile(resultProfile), history, faceImage: resultImage || undefined, language });
+  };
+
+  const exportFHIR = async () => {
+      if (!analysisResult) return;
+
+      let createdAt: number | undefined;
+      let language = selectedLanguage.code;
+      if (activeScreeningId) {
+        try {
+          const current = (await listScreenings()).find(r => r.id === activeScreeningId);
+          createdAt = current?.createdAt;
+          language = SUPPORTED_LANGUAGES.find(l => l.name === current?.language)?.code || language;
+        } catch (e) {
+          console.error("History storage error", e);
+        }
+      }
+
+      try {
+        const json = exportFhirBundle(analysisResult, { createdAt, language });
+        downloadFile(`vitalvoice-fhir-${new Date(createdAt ?? Date.now()).toISOString().slice(0, 10)}.json`, json, 'application/fhir+json');
+      } catch (e) {
+        console.error("FHIR export failed", e);
+        alert(t('results.exportFhirFailed'));
+      }
+  };
+
+  const exportJSON = async () => {
+      if (!analysisResult) return;
+      setShowExportMenu(false);
+
+      // The sample result and screenings that failed to save have no stored record.
+      let record: ScreeningRecord | undefined;
+      if (activeScreeningId) {
+        try {
+          record = (await listScreenings()).find(r => r.id === activeScreeningId);
+        } catch (e) {
+          console.error("History storage error", e);
+        }
+      }
+      record = record || {
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        language: selectedLanguage.name,
+        analysis: analysisResult,
+        acousticFeatures: acousticFeatures || undefined,
+        profile: resultProfile || undefined
+      };
+
+      const json = await exportScreeningJson(record, { chat: chatHistory, audio: resultAudio, image: resultImage, includeMedia: exportIncludesMedia });
+      downloadFile(`vitalvoice-screening-${new Date(record.createdAt).toISOString().slice(0, 10)}.json`, json, 'application/json');
+  };
+
+  const updateVolume = () => {
+    const analyser = analyserRef.current;
+    if (!analyser || !coachRef.current) return;
+
+    const timeDomain = new Float32Array(analyser.fftSize);
+    const spectrum = new Float32Array(analyser.frequencyBinCount);
+    analyser.getFloatTimeDomainData(timeDomain);
+    analyser.getFloatFrequencyData(spectrum);
+
+    const coaching = coachRef.current.update(timeDomain, spectrum, performance.now());
+    setAudioLevel(coaching.level);
+    setRecordingQuality(coaching.condition);
+    setUsableSpeechSeconds(coaching.usableSpeechSeconds);
 
     animationFrameRef.current = requestAnimationFrame(updateVolume);
   };
 
+  // --- Guided Protocol Logic ---
+  const currentTask = VOICE_PROTOCOL[protocolStep];
+
+  const startProtocol = () => {
+    setProtocolStep(0);
+    setTaskRecordings({});
+    setAcousticFeatures(null);
+    setImageBase64(null);
+    setRecordingError(null);
+    setQualityReport(null);
+    setTimer(VOICE_PROTOCOL[0].durationSeconds);
+    setScreen(AppScreen.RECORDING);
+  };
+
+  const advanceProtocol = () => {
+    setRecordingError(null);
+    setQualityReport(null);
+    if (protocolStep >= VOICE_PROTOCOL.length - 1) {
+      setScreen(AppScreen.FACE_PROMPT);
+      return;
+    }
+    setProtocolStep(protocolStep + 1);
+    setTimer(VOICE_PROTOCOL[protocolStep + 1].durationSeconds);
+  };
+
+  const skipTask = () => {
+    if (currentTask.required) return;
+    setTaskRecordings(prev => ({ ...prev, [currentTask.id]: undefined }));
+    advanceProtocol();
+  };
+
   const startRecording = async () => {
     if (!checkUsageLimit()) {
         setShowLimitModal(true);
         return;
     }
     setRecordingError(null);
+    setQualityReport(null);
+    const task = currentTask;
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -396,11 +602,15 @@ const App: React.FC = () => {
       const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
       audioContextRef.current = audioContext;
       const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
-      analyser.smoothingTimeConstant = 0.5;
+      // Unsmoothed so the coach sees each frame as the quality check will
+      analyser.fftSize = 1024;
+      analyser.smoothingTimeConstant = 0;
       const source = audioContext.createMediaStreamSource(stream);
       source.connect(analyser);
       analyserRef.current = analyser;
+      coachRef.current = createLiveCoach(audioContext.sampleRate);
+      setRecordingQuality('listening');
+      setUsableSpeechSeconds(0);
 
       // Start visualization loop
       updateVolume();
@@ -422,28 +632,45 @@ const App: React.FC = () => {
         const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
         
         // --- VALIDATION CHECK ---
-        const validation = await validateAudioBlob(audioBlob);
+        const validation = await validateAudioBlob(audioBlob, task.minSeconds);
         
         stream.getTracks().forEach(track => track.stop());
 
-        if (!validation.isValid) {
-             setRecordingError(validation.error || "Recording failed.");
-             setAudioBlob(null);
+        if (!validation.report.isValid) {
+             const failed = validation.report.checks.find(c => c.status === 'fail');
+             setRecordingError((failed && explainQualityCheck(failed)) || t('audio.failed'));
+             setQualityReport(validation.report);
              setIsRecording(false);
-             setTimer(30);
-             return; // Stop here, do not proceed
+             setTimer(task.durationSeconds);
+             return; // Stay on this task so it can be recorded again
         }
 
-        setAudioBlob(audioBlob);
-        setScreen(AppScreen.FACE_PROMPT);
+        let features: AcousticFeatures | null = null;
+        try {
+          features = validation.audioBuffer ? extractAcousticFeatures(validation.audioBuffer) : null;
+        } catch (e) {
+          console.error("Acoustic feature extraction failed:", e);
+        }
+
+        const taskError = validateTaskRecording(task.id, features);
+        if (taskError) {
+            setRecordingError(taskError);
+            setTimer(task.durationSeconds);
+            return;
+        }
+
+        // Free speech is the main recording; its features are the ones shown with the results.
+        if (task.id === 'free_speech') setAcousticFeatures(features);
+        setTaskRecordings(prev => ({ ...prev, [task.id]: { blob: audioBlob, features } }));
+        advanceProtocol();
       };
 
       mediaRecorderRef.current.start();
       setIsRecording(true);
-      setTimer(30);
+      setTimer(task.durationSeconds);
     } catch (err) {
       console.error("Error accessing microphone:", err);
-      alert("Microphone access is required.");
+      alert(t('common.microphoneRequired'));
     }
   };
 
@@ -454,21 +681,29 @@ const App: React.FC = () => {
     }
   };
 
-  const cancelRecording = () => {
+  // Stops the take in progress without keeping it.
+  const discardTake = () => {
     if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     if (audioContextRef.current) {
         audioContextRef.current.close();
         audioContextRef.current = null;
     }
     if (mediaRecorderRef.current && isRecording) {
+      // Detach the handler so the discarded take isn't validated and saved.
+      mediaRecorderRef.current.onstop = null;
       mediaRecorderRef.current.stop();
       mediaRecorderRef.current.stream.getTracks().forEach(t => t.stop());
     }
     setIsRecording(false);
-    setTimer(30);
-    setAudioBlob(null);
+  };
+
+  const cancelRecording = () => {
+    discardTake();
+    setProtocolStep(0);
+    setTaskRecordings({});
     setScreen(AppScreen.INTRO);
     setRecordingError(null);
+    setQualityReport(null);
   };
 
   useEffect(() => {
@@ -485,6 +720,8 @@ const App: React.FC = () => {
 
   // ... (Other functions: startCamera, captureImage, etc. kept same) ...
   const startCamera = async () => {
+    setFaceReport(null);
+    setFaceCaptureError(null);
     setScreen(AppScreen.FACE_CAPTURE);
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ video: true });
@@ -497,28 +734,72 @@ const App: React.FC = () => {
     }
   };
 
-  const captureImage = () => {
-    if (videoRef.current && canvasRef.current) {
-      const context = canvasRef.current.getContext('2d');
-      if (context) {
-        canvasRef.current.width = videoRef.current.videoWidth;
-        canvasRef.current.height = videoRef.current.videoHeight;
-        context.drawImage(videoRef.current, 0, 0);
-        const dataUrl = canvasRef.current.toDataURL('image/jpeg', 0.8);
-        const stream = videoRef.current.srcObject as MediaStream;
-        if (stream) stream.getTracks().forEach(t => t.stop());
-        const b64 = dataUrl.split(',')[1];
-        setImageBase64(b64);
-        performAnalysis(b64);
+  // Live framing guidance while the preview is up. A slow check is skipped
+  // rather than queued, so prompts never lag behind the picture.
+  useEffect(() => {
+    if (screen !== AppScreen.FACE_CAPTURE) return;
+    let busy = false;
+    const interval = setInterval(async () => {
+      const video = videoRef.current;
+      if (busy || !video || video.readyState < 2 || !video.videoWidth) return;
+      busy = true;
+      try {
+        const report = await assessImageQuality(video, video.videoWidth, video.videoHeight);
+        setFaceReport(report);
+        if (report.isValid) setFaceCaptureError(null);
+      } catch (e) {
+        console.error("Face quality check failed", e);
+      } finally {
+        busy = false;
+      }
+    }, 500);
+    return () => clearInterval(interval);
+  }, [screen]);
+
+  const captureImage = async () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!video || !canvas || !context) return;
+    // Until the first frame arrives the video has no size, and the capture would be empty.
+    if (video.videoWidth === 0 || video.videoHeight === 0) {
+      setFaceCaptureError(t('face.cameraNotReady'));
+      return;
+    }
+
+    try {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      context.drawImage(video, 0, 0);
+
+      // The captured frame itself must pass; the live check may be half a second old.
+      const report = await assessImageQuality(canvas, canvas.width, canvas.height);
+      setFaceReport(report);
+      if (!report.isValid) {
+        setFaceCaptureError(t('face.rejected', { reason: faceGuidance(report) ?? '' }));
+        return;
       }
+
+      const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
+      stopCamera();
+      const b64 = dataUrl.split(',')[1];
+      setImageBase64(b64);
+      performAnalysis(b64);
+    } catch (e) {
+      console.error("Face capture failed:", e);
+      setFaceCaptureError(t('face.captureFailed'));
     }
   };
 
-  const stopCameraAndBack = () => {
+  const stopCamera = () => {
     if (videoRef.current && videoRef.current.srcObject) {
        const stream = videoRef.current.srcObject as MediaStream;
        stream.getTracks().forEach(t => t.stop());
     }
+  };
+
+  const stopCameraAndBack = () => {
+    stopCamera();
     setScreen(AppScreen.FACE_PROMPT);
   };
 
@@ -544,64 +825,17 @@ const App: React.FC = () => {
     }
   };
 
-  const startAnalysisFromUpload = () => {
-    if (!uploadedAudioFile) return;
-    if (!checkUsageLimit()) {
-        setShowLimitModal(true);
-        return;
-    }
-    setScreen(AppScreen.ANALYZING);
-    setAnalysisStep(0);
-    const stepInterval = setInterval(() => {
-      setAnalysisStep(prev => prev + 1);
-    }, 1500);
-
-    const process = async () => {
-      try {
-        recordUsage(); 
-        const audioReader = new FileReader();
-        const audioPromise = new Promise<string>((resolve) => {
-           audioReader.onloadend = () => resolve((audioReader.result as string).split(',')[1]);
-           audioReader.readAsDataURL(uploadedAudioFile);
-        });
-        const audioB64 = await audioPromise;
-
-        let imgB64 = undefined;
-        let imgMime = undefined;
-        if (uploadedImageFile) {
-           const imgReader = new FileReader();
-           const imgPromise = new Promise<string>((resolve) => {
-             imgReader.onloadend = () => resolve((imgReader.result as string).split(',')[1]);
-             imgReader.readAsDataURL(uploadedImageFile);
-           });
-           imgB64 = await imgPromise;
-           imgMime = uploadedImageFile.type;
-        }
-
-        const result = await analyzeHealth(
-          audioB64, 
-          uploadedAudioFile.type, 
-          imgB64, 
-          imgMime,
-          selectedLanguage.name
-        );
-        
-        clearInterval(stepInterval);
-        setAnalysisResult(result);
-        setScreen(AppScreen.RESULTS);
-
-      } catch (e) {
-        console.error(e);
-        clearInterval(stepInterval);
-        alert("Validation analysis failed. Please check file format.");
-        setScreen(AppScreen.UPLOAD_CONFIG);
-      }
-    };
-    process();
-  };
+  // --- Analysis Logic ---
+  const runAnalysis = async (source: AnalysisSource, prepareInput: () => Promise<AnalysisInput>) => {
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
 
-  const performAnalysis = async (imgB64: string | null) => {
+    setAnalysisSource(source);
+    setAnalysisError(null);
+    setRetryNotice(null);
     setScreen(AppScreen.ANALYZING);
+    setAnalysisStep(0);
     let currentStep = 0;
     const stepInterval = setInterval(() => {
       if (currentStep < 4) {
@@ -610,36 +844,145 @@ const App: React.FC = () => {
       }
     }, 1500);
 
+    // Failed and cancelled attempts still cost tokens, so every call is logged as it happens.
+    const usage: ModelUsage[] = [];
     try {
-      if (!audioBlob) throw new Error("No audio recorded");
-      recordUsage();
-
-      const reader = new FileReader();
-      reader.readAsDataURL(audioBlob);
-      reader.onloadend = async () => {
-        const base64Audio = (reader.result as string).split(',')[1];
-        try {
-          const result = await analyzeHealth(base64Audio, "audio/webm", imgB64 || undefined, "image/jpeg", selectedLanguage.name);
-          setAnalysisResult(result);
-          clearInterval(stepInterval);
-          setScreen(AppScreen.RESULTS);
-        } catch (error) {
-          console.error(error);
-          alert("Analysis failed. Please try again.");
-          setScreen(AppScreen.INTRO);
+      const input = await prepareInput();
+      const result = await analyzeHealth(
+        input.audioBase64,
+        input.audioMimeType,
+        input.imageBase64,
+        input.imageMimeType,
+        selectedLanguage.name,
+        input.features || undefined,
+        userProfile || undefined,
+        input.segments,
+        {
+          signal: controller.signal,
+          onRetry: (attempt) => setRetryNotice(t('analyzing.retrying', { attempt: attempt + 1 })),
+          onUsage: (call) => {
+            recordUsage(call);
+            usage.push(call);
+          }
         }
-      };
+      );
+      if (controller.signal.aborted) return;
+
+      refreshQuota();
+      setAcousticFeatures(input.features);
+      setResultProfile(userProfile);
+      setResultImage(input.imageBase64 ? { base64: input.imageBase64, mimeType: input.imageMimeType || "image/jpeg" } : null);
+      setResultAudio({ base64: input.audioBase64, mimeType: input.audioMimeType });
+      setScreeningUsage(usage);
+      setAnalysisResult(await persistScreening(result, input.features, input.preprocessing, usage));
+      setScreen(AppScreen.RESULTS);
     } catch (e) {
+      const error = classifyError(e);
+      // cancelAnalysis has already navigated away.
+      if (error.kind === 'cancelled') return;
       console.error(e);
+      if (error.kind === 'quota') {
+        refreshQuota();
+        setShowLimitModal(true);
+      }
+      setAnalysisError(error);
+      setScreen(AppScreen.ANALYSIS_ERROR);
+    } finally {
       clearInterval(stepInterval);
+      if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
+    }
+  };
+
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    // The recording (or selected file) is kept so the user can go straight back in.
+    setScreen(analysisSource === 'upload' ? AppScreen.UPLOAD_CONFIG : AppScreen.FACE_PROMPT);
+  };
+
+  const startAnalysisFromUpload = () => {
+    if (!uploadedAudioFile) return;
+    if (!checkUsageLimit()) {
+        setShowLimitModal(true);
+        return;
+    }
+
+    runAnalysis('upload', async () => {
+      let features: AcousticFeatures | null = null;
+      try {
+        features = extractAcousticFeatures(await decodeAudioBlob(uploadedAudioFile));
+      } catch (e) {
+        console.error("Acoustic feature extraction failed:", e);
+      }
+
+      const audio = await prepareUploadAudio(uploadedAudioFile, uploadedAudioFile.type);
+      return {
+        audioBase64: audio.base64,
+        audioMimeType: audio.mimeType,
+        imageBase64: uploadedImageFile ? await blobToBase64(uploadedImageFile) : undefined,
+        imageMimeType: uploadedImageFile?.type,
+        features,
+        preprocessing: audio.stats ? [audio.stats] : []
+      };
+    });
+  };
+
+  const performAnalysis = (imgB64: string | null) => {
+    const freeSpeech = taskRecordings.free_speech;
+    if (!freeSpeech) {
       setScreen(AppScreen.INTRO);
+      return;
+    }
+    setImageBase64(imgB64);
+
+    runAnalysis('recording', async () => {
+      const segments: VoiceTaskSegment[] = [];
+      const preprocessing: AudioPreprocessingStats[] = [];
+      for (const task of VOICE_PROTOCOL) {
+        const recording = taskRecordings[task.id];
+        if (task.id === 'free_speech' || !recording) continue;
+        const audio = await prepareUploadAudio(recording.blob, "audio/webm", task.id);
+        if (audio.stats) preprocessing.push(audio.stats);
+        segments.push({
+          task: task.id,
+          audioBase64: audio.base64,
+          audioMimeType: audio.mimeType,
+          acousticFeatures: recording.features || undefined
+        });
+      }
+
+      const audio = await prepareUploadAudio(freeSpeech.blob, "audio/webm", 'free_speech');
+      if (audio.stats) preprocessing.push(audio.stats);
+
+      return {
+        audioBase64: audio.base64,
+        audioMimeType: audio.mimeType,
+        imageBase64: imgB64 || undefined,
+        imageMimeType: "image/jpeg",
+        features: freeSpeech.features,
+        segments,
+        preprocessing
+      };
+    });
+  };
+
+  const retryAnalysis = () => {
+    if (analysisSource === 'upload') startAnalysisFromUpload();
+    else performAnalysis(imageBase64);
+  };
+
+  const replaceAnalysisInput = () => {
+    setAnalysisError(null);
+    if (analysisSource === 'upload') {
+      setScreen(AppScreen.UPLOAD_CONFIG);
+    } else {
+      startProtocol();
     }
   };
 
   // ... (Chat logic kept same) ...
   const startChatRecording = async () => {
-    const userMessageCount = chatHistory.filter(m => m.role === 'user').length;
-    if (userMessageCount >= MAX_CHAT_TURNS) return;
+    if (isChatLoading || chatTurnsRemaining() <= 0) return;
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -667,7 +1010,7 @@ const App: React.FC = () => {
       setIsChatRecording(true);
     } catch (err) {
       console.error("Error accessing microphone for chat:", err);
-      alert("Microphone access is required.");
+      alert(t('common.microphoneRequired'));
     }
   };
 
@@ -678,32 +1021,67 @@ const App: React.FC = () => {
     }
   };
 
-  const sendAudioMessage = async (base64Audio: string, audioUrl: string) => {
+  // Appends an empty model message and fills it in as chunks arrive. Only the
+  // message flagged isStreaming is patched, so clearing the chat mid-reply is safe.
+  const streamAssistantReply = async (history: ChatMessage[], message: string, base64Audio?: string) => {
     if (!analysisResult) return;
-    const userMessageCount = chatHistory.filter(m => m.role === 'user').length;
-    if (userMessageCount >= MAX_CHAT_TURNS) return;
-
-    const userMsg: ChatMessage = { role: 'user', text: '🎤 Audio Message', isAudio: true, audioUrl: audioUrl };
-    setChatHistory(prev => [...prev, userMsg]);
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
     setIsChatLoading(true);
-    const responseText = await chatWithHealthAssistant(chatHistory, "", analysisResult, selectedLanguage.name, base64Audio);
-    setChatHistory(prev => [...prev, { role: 'model', text: responseText }]);
+    setChatHistory(prev => [...prev, { role: 'model', text: '', isStreaming: true }]);
+
+    const patchStreamingReply = (patch: Partial<ChatMessage>) =>
+      setChatHistory(prev => prev.map(m => m.isStreaming ? { ...m, ...patch } : m));
+
+    const reply = await chatWithHealthAssistant(history, message, analysisResult, selectedLanguage.name, base64Audio, resultProfile || undefined, {
+      signal: controller.signal,
+      // The sample result has no record; its conversations share one session.
+      sessionId: activeScreeningId ?? 'sample',
+      onText: (text) => patchStreamingReply({ text }),
+      onUsage: trackFollowUpUsage
+    });
+
+    patchStreamingReply({ text: reply.text, interrupted: reply.interrupted, isStreaming: false });
+    refreshQuota();
+    if (chatAbortRef.current === controller) chatAbortRef.current = null;
     setIsChatLoading(false);
   };
 
+  const stopChatGeneration = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  const clearChat = () => {
+    chatAbortRef.current?.abort();
+    setChatHistory([]);
+  };
+
+  const sendAudioMessage = async (base64Audio: string, audioUrl: string) => {
+    if (!analysisResult || chatTurnsRemaining() <= 0) return;
+
+    // An audio turn has no text of its own; what it said is its transcript.
+    const userMsg: ChatMessage = { role: 'user', text: '', isAudio: true, audioUrl: audioUrl, isTranscribing: true };
+    setChatHistory(prev => [...prev, userMsg]);
+
+    // The reply is generated from the audio itself; the transcript is what later
+    // turns see of this message, so it runs alongside rather than before the reply.
+    // The mic unlocks when the reply ends, so another voice message may be
+    // transcribing by the time this one returns: match on the recording's URL.
+    const transcription = transcribeAudioMessage(base64Audio, selectedLanguage.name, undefined, undefined, trackFollowUpUsage).then(transcript =>
+      setChatHistory(prev => prev.map(m => m.audioUrl === audioUrl ? { ...m, isTranscribing: false, transcript: transcript ?? undefined } : m))
+    );
+    await streamAssistantReply(chatHistory, "", base64Audio);
+    await transcription;
+  };
+
   const handleChatSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!chatInput.trim() || !analysisResult) return;
-    const userMessageCount = chatHistory.filter(m => m.role === 'user').length;
-    if (userMessageCount >= MAX_CHAT_TURNS) return;
+    if (!chatInput.trim() || !analysisResult || isChatLoading || chatTurnsRemaining() <= 0) return;
 
     const userMsg: ChatMessage = { role: 'user', text: chatInput };
     setChatHistory(prev => [...prev, userMsg]);
     setChatInput("");
-    setIsChatLoading(true);
-    const responseText = await chatWithHealthAssistant(chatHistory, userMsg.text, analysisResult, selectedLanguage.name);
-    setChatHistory(prev => [...prev, { role: 'model', text: responseText }]);
-    setIsChatLoading(false);
+    await streamAssistantReply(chatHistory, userMsg.text);
   };
 
   const speakText = (text: string) => {
@@ -717,28 +1095,141 @@ const App: React.FC = () => {
     window.speechSynthesis.speak(utterance);
   };
 
+  useEffect(() => {
+    document.documentElement.lang = selectedLanguage.code;
+    document.documentElement.dir = isRtlLanguage(selectedLanguage.code) ? 'rtl' : 'ltr';
+  }, [selectedLanguage]);
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatHistory, isChatLoading]);
 
+  // --- Routing ---
+  // Stops what the current screen has running when the URL moves away from it.
+  const leaveScreen = () => {
+    if (screen === AppScreen.RECORDING) discardTake();
+    if (screen === AppScreen.FACE_CAPTURE) stopCamera();
+    if (screen === AppScreen.ANALYZING) {
+      analysisAbortRef.current?.abort();
+      analysisAbortRef.current = null;
+    }
+  };
+
+  // A screen chosen from the URL replaces its history entry, so a redirect
+  // does not leave the refused path behind to go Back to.
+  const showRoutedScreen = (target: AppScreen) => {
+    if (target === screen) {
+      const path = routeToPath({ screen, screeningId: activeScreeningId ?? undefined });
+      if (path !== window.location.pathname) window.history.replaceState(null, '', path);
+      return;
+    }
+    replaceRouteRef.current = true;
+    setScreen(target);
+  };
+
+  // Shows the screen for a URL: on load, and on Back and Forward.
+  const openRoute = async (route: Route) => {
+    if (route.screen !== screen) leaveScreen();
+
+    if (route.screeningId && route.screeningId !== activeScreeningId) {
+      let record: ScreeningRecord | undefined;
+      try {
+        record = await getScreening(route.screeningId);
+      } catch (e) {
+        console.error("History storage error", e);
+      }
+      if (record) {
+        replaceRouteRef.current = true;
+        openScreening(record, route.screen);
+      } else {
+        showRoutedScreen(AppScreen.INTRO);
+      }
+      return;
+    }
+
+    const target = guardRoute(route, {
+      hasResult: !!analysisResult,
+      hasRecordings: !!taskRecordings.free_speech,
+      hasAnalysisError: !!analysisError,
+      isAnalyzing: !!analysisAbortRef.current
+    });
+    // A fresh protocol, so the timer and steps match the first task.
+    if (target === AppScreen.RECORDING && screen !== AppScreen.RECORDING && !taskRecordings.free_speech) {
+      replaceRouteRef.current = true;
+      startProtocol();
+      return;
+    }
+    showRoutedScreen(target);
+  };
+  openRouteRef.current = openRoute;
+
+  useEffect(() => {
+    openRouteRef.current(parseRoute(window.location.pathname)).finally(() => setRouteReady(true));
+    const onPopState = () => openRouteRef.current(parseRoute(window.location.pathname));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  // The URL follows the screen. Moving between results, or on from an
+  // in-progress screen, replaces the entry instead of adding one.
+  useEffect(() => {
+    if (!routeReady) return;
+    const previous = routedScreenRef.current;
+    const replace = replaceRouteRef.current || previous === screen || (previous !== null && TRANSIENT_SCREENS.includes(previous));
+    replaceRouteRef.current = false;
+    routedScreenRef.current = screen;
+
+    const path = routeToPath({ screen, screeningId: activeScreeningId ?? undefined });
+    if (path === window.location.pathname) return;
+    if (replace) window.history.replaceState(null, '', path);
+    else window.history.pushState(null, '', path);
+  }, [screen, activeScreeningId, routeReady]);
+
+  // CHAT is the results screen opened at its conversation.
+  useEffect(() => {
+    if (screen === AppScreen.CHAT) chatEndRef.current?.scrollIntoView();
+  }, [screen]);
+
   // --- Render Sections ---
 
+  const renderProtocolSteps = () => (
+    <div className="flex items-center justify-center gap-2 mb-6 w-full">
+        {VOICE_PROTOCOL.map((task, i) => {
+            const done = !!taskRecordings[task.id];
+            const active = i === protocolStep;
+            return (
+                <div key={task.id} title={taskLabel(task.id)} className={`flex-1 h-9 rounded-full flex items-center justify-center gap-1 text-[11px] font-medium border transition-colors ${active ? 'border-[#A8C7FA] text-[#A8C7FA] bg-[#A8C7FA]/10' : done ? 'border-emerald-500/30 text-emerald-400 bg-emerald-500/10' : 'border-[#444746] text-gray-500'}`}>
+                    <span className="material-symbol text-[16px]">{done && !active ? 'check' : task.icon}</span>
+                    <span className="hidden sm:inline">{formatNumber(i + 1)}</span>
+                </div>
+            );
+        })}
+    </div>
+  );
+
   const renderRecording = () => (
     <div className="flex flex-col items-center justify-center min-h-screen p-4 animate-fade-in-up relative z-10">
       <div className="w-full max-w-md bg-[#1E1F20] rounded-[32px] p-8 border border-[#444746] shadow-2xl flex flex-col items-center text-center">
+        {renderProtocolSteps()}
+        <div className="text-[11px] font-bold uppercase tracking-widest text-gray-500 mb-4">{t('recording.taskProgress', { step: protocolStep + 1, total: VOICE_PROTOCOL.length, task: taskLabel(currentTask.id) })}</div>
         <div className="mb-8 relative">
-           <div className={`w-24 h-24 rounded-full flex items-center justify-center transition-all duration-300 ${isRecording ? (recordingQuality === 'silent' ? 'bg-red-500/10 shadow-[0_0_40px_rgba(239,68,68,0.3)]' : 'bg-emerald-500/10 shadow-[0_0_40px_rgba(52,211,153,0.3)]') : 'bg-[#D3E3FD]'}`}>
-              <span className={`material-symbol text-4xl ${isRecording ? (recordingQuality === 'silent' ? 'text-red-500' : 'text-emerald-500 animate-pulse') : 'text-[#041E49]'}`}>mic</span>
+           <div className={`w-24 h-24 rounded-full flex items-center justify-center transition-all duration-300 ${isRecording ? (COACHING_PROBLEMS.includes(recordingQuality) ? 'bg-red-500/10 shadow-[0_0_40px_rgba(239,68,68,0.3)]' : 'bg-emerald-500/10 shadow-[0_0_40px_rgba(52,211,153,0.3)]') : 'bg-[#D3E3FD]'}`}>
+              <span className={`material-symbol text-4xl ${isRecording ? (COACHING_PROBLEMS.includes(recordingQuality) ? 'text-red-500' : 'text-emerald-500 animate-pulse') : 'text-[#041E49]'}`}>mic</span>
            </div>
         </div>
         
         <h2 className="text-2xl font-bold text-white mb-2">
-            {isRecording ? recordingMessage : 'Get Ready'}
+            {isRecording ? t(COACHING_MESSAGES[recordingQuality]) : t('recording.getReady')}
         </h2>
         
-        <p className="text-gray-400 text-sm mb-8 px-4 min-h-[3rem] flex items-center justify-center leading-snug">
-            {selectedLanguage.prompt}
+        <p className="text-gray-400 text-sm mb-3 px-4 leading-snug">
+            {taskInstruction(currentTask.id)}
         </p>
+        {(currentTask.id === 'reading' || currentTask.id === 'free_speech') ? (
+            <p className="text-gray-200 text-sm mb-8 px-4 py-3 bg-[#131314] border border-[#333] rounded-xl leading-relaxed">
+                {currentTask.id === 'reading' ? selectedLanguage.passage : selectedLanguage.prompt}
+            </p>
+        ) : <div className="mb-5" />}
 
         {/* Error Message Display */}
         {recordingError && (
@@ -747,6 +1238,7 @@ const App: React.FC = () => {
                  {recordingError}
              </div>
         )}
+        {qualityReport && !qualityReport.isValid && <RecordingQualityPanel report={qualityReport} />}
 
         {isRecording ? (
             <>
@@ -754,8 +1246,12 @@ const App: React.FC = () => {
                     <Waveform isRecording={isRecording} audioLevel={audioLevel} quality={recordingQuality} />
                 </div>
 
-                <div className="text-4xl font-mono text-[#A8C7FA] font-bold mb-8 tabular-nums">
-                    00:{timer < 10 ? `0${timer}` : timer}
+                <div className="text-4xl font-mono text-[#A8C7FA] font-bold mb-2 tabular-nums">
+                    {formatNumber(0, { minimumIntegerDigits: 2 })}:{formatNumber(timer, { minimumIntegerDigits: 2 })}
+                </div>
+                <div className={`text-xs mb-8 flex items-center gap-1 tabular-nums ${usableSpeechSeconds >= currentTask.targetSpeechSeconds ? 'text-emerald-400' : 'text-gray-400'}`}>
+                    {usableSpeechSeconds >= currentTask.targetSpeechSeconds && <span className="material-symbol text-[16px]">check_circle</span>}
+                    {t('recording.usableSpeech', { seconds: Math.min(Math.floor(usableSpeechSeconds), currentTask.targetSpeechSeconds), target: currentTask.targetSpeechSeconds })}
                 </div>
 
                 <div className="flex gap-4 w-full">
@@ -763,13 +1259,13 @@ const App: React.FC = () => {
                         onClick={cancelRecording}
                         className="flex-1 py-4 rounded-full bg-[#2E2F30] text-gray-300 font-medium hover:bg-[#3E3F40] transition-colors"
                     >
-                        Cancel
+                        {t('common.cancel')}
                     </button>
                     <button 
                         onClick={stopRecording}
                         className="flex-1 py-4 rounded-full bg-red-500 text-white font-bold hover:bg-red-600 shadow-lg shadow-red-500/20 transition-all"
                     >
-                        Stop Early
+                        {t('recording.stopEarly')}
                     </button>
                 </div>
             </>
@@ -780,13 +1276,21 @@ const App: React.FC = () => {
                     className="w-full py-4 rounded-full bg-[#4285F4] text-white font-bold hover:bg-[#3367D6] shadow-lg shadow-blue-500/20 transition-all flex items-center justify-center gap-2"
                 >
                     <span className="material-symbol">play_circle</span>
-                    Start Recording
+                    {t('recording.start')}
                 </button>
+                {!currentTask.required && (
+                    <button 
+                        onClick={skipTask}
+                        className="w-full py-3 rounded-full bg-[#2E2F30] text-gray-300 font-medium hover:bg-[#3E3F40] transition-colors"
+                    >
+                        {t('recording.skipTask')}
+                    </button>
+                )}
                 <button 
-                    onClick={() => setScreen(AppScreen.INTRO)}
+                    onClick={cancelRecording}
                     className="w-full py-4 rounded-full bg-transparent text-gray-400 font-medium hover:text-white hover:bg-white/5 transition-colors"
                 >
-                    Back to Home
+                    {t('common.backHome')}
                 </button>
             </div>
         )}
@@ -801,17 +1305,17 @@ const App: React.FC = () => {
          <div className="w-20 h-20 rounded-full bg-[#D3E3FD] flex items-center justify-center mb-6">
              <span className="material-symbol text-4xl text-[#041E49]">face</span>
          </div>
-         <h2 className="text-2xl font-bold text-white mb-3">Add Visual Analysis?</h2>
+         <h2 className="text-2xl font-bold text-white mb-3">{t('face.title')}</h2>
          <p className="text-gray-400 mb-8 leading-relaxed">
-             VitalVoice can analyze facial biomarkers (skin pallor, hydration signs, symmetry) to improve accuracy by up to 15%.
+             {t('face.body')}
          </p>
          <div className="flex flex-col gap-3 w-full">
              <button onClick={startCamera} className="w-full py-4 rounded-full bg-[#4285F4] text-white font-bold hover:bg-[#3367D6] shadow-lg shadow-blue-500/20 transition-all flex items-center justify-center gap-2">
                  <span className="material-symbol">camera_alt</span>
-                 Enable Camera
+                 {t('face.enableCamera')}
              </button>
              <button onClick={skipFaceScan} className="w-full py-4 rounded-full bg-transparent text-gray-400 font-medium hover:text-white hover:bg-white/5 transition-colors">
-                 Skip for now
+                 {t('face.skip')}
              </button>
          </div>
       </div>
@@ -824,14 +1328,23 @@ const App: React.FC = () => {
               <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover transform scale-x-[-1]" />
               <canvas ref={canvasRef} className="hidden" />
               <div className="absolute inset-0 pointer-events-none border-[1px] border-white/20 sm:rounded-[32px]"></div>
-              <div className="absolute top-8 left-0 right-0 text-center pointer-events-none">
-                  <div className="bg-black/50 backdrop-blur-md text-white px-4 py-2 rounded-full inline-block text-sm font-medium">Center your face in good light</div>
+              <div className="absolute top-8 left-4 right-4 text-center pointer-events-none flex flex-col items-center gap-2">
+                  <div className={`backdrop-blur-md text-white px-4 py-2 rounded-full inline-flex items-center gap-1 text-sm font-medium ${!faceReport ? 'bg-black/50' : faceReport.isValid ? 'bg-emerald-600/70' : 'bg-black/60'}`}>
+                      {faceReport && <span className="material-symbol text-[18px]">{faceReport.isValid && !faceGuidance(faceReport) ? 'check_circle' : 'info'}</span>}
+                      {!faceReport ? t('face.centerHint') : faceGuidance(faceReport) ?? t('face.ready')}
+                  </div>
+                  {faceCaptureError && (
+                      <div className="bg-red-900/70 border border-red-500/30 text-red-100 px-4 py-2 rounded-xl text-sm flex items-center gap-2">
+                          <span className="material-symbol text-lg">error</span>
+                          {faceCaptureError}
+                      </div>
+                  )}
               </div>
               <div className="absolute bottom-0 left-0 right-0 p-8 bg-gradient-to-t from-black/80 to-transparent flex justify-between items-center">
                    <button onClick={stopCameraAndBack} className="w-12 h-12 rounded-full bg-white/10 backdrop-blur flex items-center justify-center text-white hover:bg-white/20 transition-colors">
-                      <span className="material-symbol">arrow_back</span>
+                      <span className="material-symbol rtl:-scale-x-100">arrow_back</span>
                    </button>
-                   <button onClick={captureImage} className="w-20 h-20 rounded-full border-4 border-white flex items-center justify-center p-1 group">
+                   <button onClick={captureImage} disabled={!!faceReport && !faceReport.isValid} className="w-20 h-20 rounded-full border-4 border-white flex items-center justify-center p-1 group disabled:opacity-40 disabled:cursor-not-allowed">
                        <div className="w-full h-full bg-white rounded-full group-active:scale-90 transition-transform"></div>
                    </button>
                    <div className="w-12"></div>
@@ -844,54 +1357,58 @@ const App: React.FC = () => {
       <div className="flex flex-col items-center justify-center min-h-screen p-4 animate-fade-in-up relative z-10">
           <div className="w-full max-w-lg bg-[#1E1F20] rounded-[32px] p-6 sm:p-8 border border-[#444746] shadow-2xl">
               <div className="flex justify-between items-center mb-6">
-                  <h2 className="text-2xl font-bold text-white">Upload Data</h2>
+                  <h2 className="text-2xl font-bold text-white">{t('upload.title')}</h2>
                   <button onClick={() => setScreen(AppScreen.INTRO)} className="text-gray-400 hover:text-white">
                       <span className="material-symbol">close</span>
                   </button>
               </div>
               <div className="space-y-6">
                   <div className="space-y-2">
-                      <label className="text-sm font-medium text-[#A8C7FA] uppercase tracking-wider">Voice Sample (Required)</label>
+                      <label className="text-sm font-medium text-[#A8C7FA] uppercase tracking-wider">{t('upload.voiceLabel')}</label>
                       <div onClick={() => fileInputRef.current?.click()} className={`border-2 border-dashed rounded-xl p-6 flex flex-col items-center justify-center cursor-pointer transition-colors ${uploadedAudioFile ? 'border-emerald-500/50 bg-emerald-500/5' : 'border-[#444746] hover:border-gray-400 hover:bg-[#28292A]'}`}>
                           <input type="file" accept="audio/*" className="hidden" ref={fileInputRef} onChange={handleAudioFileChange} />
                           {uploadedAudioFile ? (
                               <>
                                   <span className="material-symbol text-3xl text-emerald-400 mb-2">check_circle</span>
                                   <span className="text-emerald-200 font-medium truncate max-w-full">{uploadedAudioFile.name}</span>
-                                  <span className="text-xs text-emerald-500/70 mt-1">Tap to change</span>
+                                  <span className="text-xs text-emerald-500/70 mt-1">{t('upload.tapToChange')}</span>
                               </>
                           ) : (
                               <>
                                   <span className="material-symbol text-3xl text-gray-400 mb-2">upload_file</span>
-                                  <span className="text-gray-300 font-medium">Select Audio File</span>
-                                  <span className="text-xs text-gray-500 mt-1">MP3, WAV, M4A supported</span>
+                                  <span className="text-gray-300 font-medium">{t('upload.selectAudio')}</span>
+                                  <span className="text-xs text-gray-500 mt-1">{t('upload.audioFormats')}</span>
                               </>
                           )}
                       </div>
                   </div>
                   <div className="space-y-2">
-                      <label className="text-sm font-medium text-[#A8C7FA] uppercase tracking-wider">Face Image (Optional)</label>
+                      <label className="text-sm font-medium text-[#A8C7FA] uppercase tracking-wider">{t('upload.imageLabel')}</label>
                       <div onClick={() => imageInputRef.current?.click()} className={`border-2 border-dashed rounded-xl p-6 flex flex-col items-center justify-center cursor-pointer transition-colors relative overflow-hidden ${uploadedImageFile ? 'border-emerald-500/50' : 'border-[#444746] hover:border-gray-400 hover:bg-[#28292A]'}`}>
                           <input type="file" accept="image/*" className="hidden" ref={imageInputRef} onChange={handleImageFileChange} />
                           {imagePreview ? (
                               <>
-                                 <img src={imagePreview} alt="Preview" className="absolute inset-0 w-full h-full object-cover opacity-40" />
+                                 <img src={imagePreview} alt={t('upload.preview')} className="absolute inset-0 w-full h-full object-cover opacity-40" />
                                  <div className="relative z-10 flex flex-col items-center">
                                      <span className="material-symbol text-3xl text-white mb-2 shadow-black drop-shadow-lg">image</span>
-                                     <span className="text-white font-medium shadow-black drop-shadow-md">Image Selected</span>
+                                     <span className="text-white font-medium shadow-black drop-shadow-md">{t('upload.imageSelected')}</span>
                                  </div>
                               </>
                           ) : (
                               <>
                                   <span className="material-symbol text-3xl text-gray-400 mb-2">add_a_photo</span>
-                                  <span className="text-gray-300 font-medium">Select Image</span>
-                                  <span className="text-xs text-gray-500 mt-1">JPG, PNG supported</span>
+                                  <span className="text-gray-300 font-medium">{t('upload.selectImage')}</span>
+                                  <span className="text-xs text-gray-500 mt-1">{t('upload.imageFormats')}</span>
                               </>
                           )}
                       </div>
                   </div>
                   <button onClick={startAnalysisFromUpload} disabled={!uploadedAudioFile} className="w-full py-4 rounded-full bg-[#4285F4] text-white font-bold hover:bg-[#3367D6] disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-blue-500/20 transition-all mt-4">
-                      Analyze Data
+                      {t('upload.analyze')}
+                  </button>
+                  <button onClick={() => setScreen(AppScreen.BATCH_VALIDATION)} className="w-full py-3 rounded-full bg-transparent text-[#A8C7FA] font-medium text-sm hover:bg-white/5 transition-colors flex items-center justify-center gap-2">
+                      <span className="material-symbol text-[18px]">fact_check</span>
+                      {t('upload.batch')}
                   </button>
               </div>
           </div>
@@ -899,7 +1416,7 @@ const App: React.FC = () => {
   );
 
   const renderAnalyzing = () => {
-    const messages = ["Extracting voice biomarkers...", "Analyzing speech patterns...", "Evaluating vocal characteristics...", "Correlating with multimodal data...", "Generating personalized insights..."];
+    const messages = [t('analyzing.step1'), t('analyzing.step2'), t('analyzing.step3'), t('analyzing.step4'), t('analyzing.step5')];
     return (
         <div className="flex flex-col items-center justify-center min-h-screen p-4 animate-fade-in-up relative z-10">
              <div className="relative w-48 h-48 mb-12">
@@ -912,7 +1429,7 @@ const App: React.FC = () => {
                      <span className="material-symbol text-5xl text-white animate-bounce">psychology</span>
                  </div>
              </div>
-             <h2 className="text-2xl font-bold text-white mb-4">Processing Health Data</h2>
+             <h2 className="text-2xl font-bold text-white mb-4">{t('analyzing.title')}</h2>
              <div className="flex flex-col gap-3 w-full max-w-xs">
                  {messages.map((msg, idx) => (
                      <div key={idx} className={`flex items-center gap-3 transition-all duration-500 ${idx <= analysisStep ? 'opacity-100' : 'opacity-30'}`}>
@@ -921,7 +1438,16 @@ const App: React.FC = () => {
                      </div>
                  ))}
              </div>
-             <div className="mt-12 text-xs text-gray-500 font-mono">SECURE ENCLAVE PROCESSING • GEMINI 3 PRO</div>
+             {retryNotice && (
+                 <div className="mt-8 bg-yellow-900/20 border border-yellow-500/30 text-yellow-200 px-4 py-2 rounded-xl text-sm flex items-center gap-2">
+                     <span className="material-symbol text-lg">sync</span>
+                     {retryNotice}
+                 </div>
+             )}
+             <button onClick={cancelAnalysis} className="mt-8 px-8 py-3 rounded-full bg-[#2E2F30] text-gray-300 font-medium hover:bg-[#3E3F40] transition-colors">
+                 {t('common.cancel')}
+             </button>
+             <div className="mt-12 text-xs text-gray-500 font-mono uppercase">{t('analyzing.footer')} • Gemini 3 Pro</div>
         </div>
     );
   };
@@ -931,47 +1457,51 @@ const App: React.FC = () => {
       <div className="absolute top-0 left-1/2 -translate-x-1/2 w-[300px] h-[300px] sm:w-[600px] sm:h-[600px] lg:w-[800px] bg-blue-500/10 blur-[80px] sm:blur-[120px] rounded-full pointer-events-none"></div>
       <div className="w-full flex justify-end p-4 sm:p-6 z-20 relative shrink-0">
           <div className="relative group" data-tour="language-selector">
-             <select value={selectedLanguage.code} onChange={(e) => { const lang = SUPPORTED_LANGUAGES.find(l => l.code === e.target.value); if(lang) setSelectedLanguage(lang); }} className="appearance-none bg-[#1E1F20]/90 backdrop-blur-md border border-[#444746] text-[#E3E3E3] py-2 pl-3 pr-8 rounded-full text-xs sm:text-sm font-medium focus:outline-none focus:border-[#A8C7FA] hover:bg-[#28292A] cursor-pointer transition-colors max-w-[150px] sm:max-w-none truncate">
+             <select value={selectedLanguage.code} onChange={(e) => { const lang = SUPPORTED_LANGUAGES.find(l => l.code === e.target.value); if(lang) setSelectedLanguage(lang); }} className="appearance-none bg-[#1E1F20]/90 backdrop-blur-md border border-[#444746] text-[#E3E3E3] py-2 ps-3 pe-8 rounded-full text-xs sm:text-sm font-medium focus:outline-none focus:border-[#A8C7FA] hover:bg-[#28292A] cursor-pointer transition-colors max-w-[150px] sm:max-w-none truncate">
                {SUPPORTED_LANGUAGES.map(lang => ( <option key={lang.code} value={lang.code}>{lang.flag} {lang.name}</option> ))}
              </select>
-             <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none"><span className="material-symbol text-[16px] sm:text-[18px] text-gray-400">language</span></div>
+             <div className="absolute end-3 top-1/2 -translate-y-1/2 pointer-events-none"><span className="material-symbol text-[16px] sm:text-[18px] text-gray-400">language</span></div>
           </div>
       </div>
       <div className="flex-1 flex flex-col items-center justify-center p-4 z-10 w-full">
         <div className="w-full max-w-4xl flex flex-col items-center text-center space-y-6 sm:space-y-10">
           <div className="inline-flex items-center gap-2 bg-[#1E1F20] px-3 py-1.5 sm:px-4 sm:py-2 rounded-full border border-[#444746] shadow-lg">
              <span className="material-symbol text-emerald-400 text-[16px] sm:text-[18px]">verified</span>
-             <span className="text-[10px] sm:text-xs font-medium text-gray-300 tracking-wide">CLINICAL VALIDITY READY</span>
+             <span className="text-[10px] sm:text-xs font-medium text-gray-300 tracking-wide uppercase">{t('intro.badge')}</span>
           </div>
           <div className="space-y-4 sm:space-y-6">
             <div className="relative inline-block"><span className="material-symbol text-6xl sm:text-8xl text-transparent bg-clip-text bg-gradient-to-tr from-[#4285F4] to-[#9B72CB] animate-pulse">graphic_eq</span></div>
             <h1 className="text-4xl sm:text-5xl md:text-7xl font-normal text-white tracking-tight px-2">VitalVoice <span className="text-gemini font-medium">AI</span></h1>
             <p className="text-[#C4C7C5] text-base sm:text-lg md:text-2xl leading-relaxed max-w-xs sm:max-w-2xl mx-auto font-light px-2">
-              Advanced health screening powered by <span className="text-white font-medium">Gemini 3 Pro</span>.
-              <br/><span className="text-xs sm:text-sm mt-2 block opacity-70">Selected Language: <span className="text-[#A8C7FA] font-medium">{selectedLanguage.name}</span></span>
+              <RichMessage text={t('intro.tagline')} values={{ model: <span className="text-white font-medium">Gemini 3 Pro</span> }} />
+              <br/><span className="text-xs sm:text-sm mt-2 block opacity-70">{t('intro.selectedLanguage')} <span className="text-[#A8C7FA] font-medium">{selectedLanguage.name}</span></span>
             </p>
             <div className="flex items-center justify-center gap-4">
-                <button onClick={() => window.open("https://www.youtube.com/watch?v=vuwO8PJ1A4I", "_blank")} className="inline-flex items-center gap-2 text-[#A8C7FA] hover:text-[#D3E3FD] font-medium transition-colors text-sm sm:text-base"><span className="material-symbol">smart_display</span>Watch Demo</button>
+                <button onClick={() => window.open("https://www.youtube.com/watch?v=vuwO8PJ1A4I", "_blank")} className="inline-flex items-center gap-2 text-[#A8C7FA] hover:text-[#D3E3FD] font-medium transition-colors text-sm sm:text-base"><span className="material-symbol">smart_display</span>{t('intro.watchDemo')}</button>
             </div>
           </div>
           <div className="flex gap-2 sm:gap-3 justify-center flex-wrap px-4">
-            {['Neurological', 'Respiratory', 'Mental Health', 'Cardiovascular'].map((item) => ( <div key={item} className="bg-[#1E1F20] px-3 py-1.5 sm:px-4 sm:py-2 rounded-lg border border-[#444746] text-xs sm:text-sm text-gray-300">{item}</div> ))}
+            {['neurological', 'respiratory', 'mental_health', 'cardiovascular'].map((id) => ( <div key={id} className="bg-[#1E1F20] px-3 py-1.5 sm:px-4 sm:py-2 rounded-lg border border-[#444746] text-xs sm:text-sm text-gray-300">{domainName(id)}</div> ))}
           </div>
           <div className="flex flex-col gap-4 w-full max-w-md mt-4 sm:mt-8 px-4">
             <div className="flex flex-col sm:flex-row gap-4 w-full">
-                <button data-tour="start-btn" onClick={() => setScreen(AppScreen.RECORDING)} className="w-full sm:flex-1 h-14 sm:h-16 rounded-full bg-[#D3E3FD] hover:bg-[#C4D7FC] text-[#041E49] font-medium text-base sm:text-lg flex items-center justify-center gap-2 transition-all hover:scale-105 active:scale-95 border border-transparent shadow-xl"><span className="material-symbol">mic</span>Start Screening</button>
+                <button data-tour="start-btn" onClick={startProtocol} className="w-full sm:flex-1 h-14 sm:h-16 rounded-full bg-[#D3E3FD] hover:bg-[#C4D7FC] text-[#041E49] font-medium text-base sm:text-lg flex items-center justify-center gap-2 transition-all hover:scale-105 active:scale-95 border border-transparent shadow-xl"><span className="material-symbol">mic</span>{t('intro.start')}</button>
                 <div className="w-full sm:flex-1 relative">
-                <button data-tour="upload-btn" onClick={() => setScreen(AppScreen.UPLOAD_CONFIG)} className="w-full h-14 sm:h-16 rounded-full bg-[#1E1F20] hover:bg-[#28292A] text-[#E3E3E3] font-medium text-base sm:text-lg flex items-center justify-center gap-2 border border-[#444746] transition-all hover:border-gray-400 active:scale-95"><span className="material-symbol">upload_file</span>Upload Data</button>
-                <div className="absolute -top-2 -right-2 group z-20"><div data-tour="upload-info" className="bg-[#444746] text-gray-200 rounded-full w-6 h-6 flex items-center justify-center shadow-lg cursor-help hover:bg-[#5E5F60] transition-colors"><span className="material-symbol text-[14px]">info</span></div></div>
+                <button data-tour="upload-btn" onClick={() => setScreen(AppScreen.UPLOAD_CONFIG)} className="w-full h-14 sm:h-16 rounded-full bg-[#1E1F20] hover:bg-[#28292A] text-[#E3E3E3] font-medium text-base sm:text-lg flex items-center justify-center gap-2 border border-[#444746] transition-all hover:border-gray-400 active:scale-95"><span className="material-symbol">upload_file</span>{t('upload.title')}</button>
+                <div className="absolute -top-2 -end-2 group z-20"><div data-tour="upload-info" className="bg-[#444746] text-gray-200 rounded-full w-6 h-6 flex items-center justify-center shadow-lg cursor-help hover:bg-[#5E5F60] transition-colors"><span className="material-symbol text-[14px]">info</span></div></div>
                 </div>
             </div>
-             <button onClick={loadSampleData} className="w-full h-10 sm:h-12 rounded-full bg-transparent hover:bg-white/5 text-[#A8C7FA] font-medium text-sm border border-[#A8C7FA]/30 flex items-center justify-center gap-2 transition-all"><span className="material-symbol text-[18px]">science</span>Try with Sample Data (Instant)</button>
+             <button onClick={loadSampleData} className="w-full h-10 sm:h-12 rounded-full bg-transparent hover:bg-white/5 text-[#A8C7FA] font-medium text-sm border border-[#A8C7FA]/30 flex items-center justify-center gap-2 transition-all"><span className="material-symbol text-[18px]">science</span>{t('intro.sample')}</button>
+             <div className="flex gap-2 w-full">
+                 <button onClick={openHistory} className="flex-1 h-10 sm:h-12 rounded-full bg-transparent hover:bg-white/5 text-gray-300 font-medium text-sm flex items-center justify-center gap-2 transition-all"><span className="material-symbol text-[18px]">history</span>{t('history.title')}</button>
+                 <button onClick={() => setShowProfileModal(true)} className="flex-1 h-10 sm:h-12 rounded-full bg-transparent hover:bg-white/5 text-gray-300 font-medium text-sm flex items-center justify-center gap-2 transition-all"><span className="material-symbol text-[18px]">{userProfile ? 'how_to_reg' : 'person_add'}</span>{userProfile ? t('intro.editProfile') : t('intro.addProfile')}</button>
+             </div>
           </div>
         </div>
       </div>
       <div className="p-4 sm:pb-8 text-center z-10 w-full shrink-0 space-y-4">
         <div className="flex flex-col items-center justify-center gap-2">
-            <p className="text-[10px] text-gray-500 uppercase tracking-widest">Trusted Research</p>
+            <p className="text-[10px] text-gray-500 uppercase tracking-widest">{t('intro.trustedResearch')}</p>
             <div className="flex gap-4 opacity-50 grayscale hover:grayscale-0 transition-all duration-500">
                  <div className="h-6 w-20 bg-white/10 rounded flex items-center justify-center text-[8px] font-bold">HealthTech</div>
                  <div className="h-6 w-20 bg-white/10 rounded flex items-center justify-center text-[8px] font-bold">MedAI</div>
@@ -979,32 +1509,182 @@ const App: React.FC = () => {
             </div>
         </div>
         <div className="flex items-center justify-center gap-4 text-xs text-gray-600">
-            <span>Privacy First</span><span>•</span><span>Secure Processing</span><span>•</span><button onClick={() => setShowTechModal(true)} className="text-[#A8C7FA] hover:underline">View Architecture</button>
+            <span>{t('intro.privacyFirst')}</span><span>•</span><span>{t('intro.secureProcessing')}</span><span>•</span><button onClick={() => setShowTechModal(true)} className="text-[#A8C7FA] hover:underline">{t('intro.viewArchitecture')}</button>
         </div>
       </div>
     </div>
   );
 
+  const renderTrends = (trends: HealthAnalysis['trends']) => {
+      const groups = [
+          { label: t('results.improving'), icon: 'trending_up', color: 'text-emerald-400', items: trends.improving },
+          { label: t('results.stable'), icon: 'trending_flat', color: 'text-[#A8C7FA]', items: trends.stable },
+          { label: t('results.needsAttention'), icon: 'trending_down', color: 'text-orange-400', items: trends.needs_attention },
+      ];
+      const hasTrends = groups.some(g => g.items.length > 0);
+
+      return (
+          <div className="surface-container rounded-[24px] p-6 border border-[#444746]">
+              <div className="flex items-center gap-2 mb-4"><span className="material-symbol text-[#A8C7FA]">insights</span><h3 className="text-lg font-bold text-white">{t('results.trends')}</h3></div>
+              {hasTrends ? (
+                  <div className="space-y-3">
+                      {groups.filter(g => g.items.length > 0).map(g => (
+                          <div key={g.label} className="flex items-start gap-2">
+                              <span className={`material-symbol text-[18px] ${g.color}`}>{g.icon}</span>
+                              <div>
+                                  <div className={`text-xs font-bold uppercase tracking-wide ${g.color}`}>{g.label}</div>
+                                  <div className="text-sm text-gray-300">{g.items.map((item: string) => domainName(getDomainByLabel(item)?.id ?? item)).join(', ')}</div>
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+              ) : (
+                  <p className="text-gray-400 text-sm">{t('results.firstScreening')}</p>
+              )}
+          </div>
+      );
+  };
+
+  const renderProfileConsiderations = (considerations: HealthAnalysis['profile_considerations']) => {
+      if (!resultProfile) return null;
+
+      return (
+          <div className="surface-container rounded-[24px] p-6 border border-[#444746]">
+              <div className="flex items-center gap-2 mb-4"><span className="material-symbol text-[#A8C7FA]">person</span><h3 className="text-lg font-bold text-white">{t('profile.title')}</h3></div>
+              {considerations && considerations.length > 0 ? (
+                  <div className="space-y-3">
+                      {considerations.map((c, i) => (
+                          <div key={i}>
+                              <div className="text-xs font-bold uppercase tracking-wide text-[#A8C7FA]">{t(`profileField.${c.field}`)}</div>
+                              <div className="text-sm text-gray-300">{c.note}</div>
+                          </div>
+                      ))}
+                  </div>
+              ) : (
+                  <p className="text-gray-400 text-sm">{t('results.profileNoChange')}</p>
+              )}
+          </div>
+      );
+  };
+
+  const renderTaskEvidence = (evidence: HealthAnalysis['task_evidence']) => {
+      if (!evidence || evidence.length === 0) return null;
+
+      return (
+          <div className="surface-container rounded-[24px] p-6 border border-[#444746]">
+              <div className="flex items-center gap-2 mb-4"><span className="material-symbol text-[#A8C7FA]">checklist</span><h3 className="text-lg font-bold text-white">{t('results.voiceTasks')}</h3></div>
+              <div className="space-y-4">
+                  {VOICE_PROTOCOL.filter(task => evidence.some(e => e.task === task.id)).map(task => (
+                      <div key={task.id}>
+                          <div className="flex items-center gap-2 text-xs font-bold uppercase tracking-wide text-[#A8C7FA] mb-1.5"><span className="material-symbol text-[16px]">{task.icon}</span>{taskLabel(task.id)}</div>
+                          <ul className="space-y-1">
+                              {evidence.filter(e => e.task === task.id).map((e, i) => (
+                                  <li key={i} className="text-sm text-gray-300"><span className="text-gray-500">{domainName(e.domain)}:</span> {e.indicator}</li>
+                              ))}
+                          </ul>
+                      </div>
+                  ))}
+              </div>
+          </div>
+      );
+  };
+
+  const renderHistory = () => {
+      const chronological = [...screeningHistory].reverse();
+      const points = chronological.map((r, i) => {
+          const x = chronological.length > 1 ? (i / (chronological.length - 1)) * 280 + 10 : 150;
+          const y = 90 - (r.analysis.overall_wellness_score / 100) * 80;
+          return `${x},${y}`;
+      });
+
+      return (
+          <div className="flex flex-col items-center min-h-screen p-4 animate-fade-in-up relative z-10">
+              <div className="w-full max-w-2xl bg-[#1E1F20] rounded-[32px] p-6 sm:p-8 border border-[#444746] shadow-2xl">
+                  <div className="flex justify-between items-center mb-6">
+                      <h2 className="text-2xl font-bold text-white">{t('history.title')}</h2>
+                      <button onClick={() => setScreen(analysisResult ? AppScreen.RESULTS : AppScreen.INTRO)} className="text-gray-400 hover:text-white">
+                          <span className="material-symbol">close</span>
+                      </button>
+                  </div>
+                  <div className="flex gap-2 mb-6">
+                      <input type="file" accept=".json,application/json" className="hidden" ref={importInputRef} onChange={importScreeningFile} />
+                      <button onClick={() => importInputRef.current?.click()} className="px-4 py-2 rounded-full bg-[#2E2F30] text-gray-200 text-xs font-medium hover:bg-[#3E3F40] flex items-center gap-1"><span className="material-symbol text-[16px]">upload_file</span>{t('history.import')}</button>
+                      <button onClick={exportHistoryCsv} disabled={screeningHistory.length === 0} className="px-4 py-2 rounded-full bg-[#2E2F30] text-gray-200 text-xs font-medium hover:bg-[#3E3F40] disabled:opacity-50 flex items-center gap-1"><span className="material-symbol text-[16px]">table</span>{t('history.exportCsv')}</button>
+                  </div>
+                  {screeningHistory.length === 0 ? (
+                      <div className="flex flex-col items-center justify-center py-12 text-center opacity-60">
+                          <span className="material-symbol text-6xl mb-4 text-gray-600">history</span>
+                          <p className="text-gray-400 max-w-xs">{t('history.empty')}</p>
+                      </div>
+                  ) : (
+                      <>
+                          {chronological.length > 1 && (
+                              <div className="bg-[#131314] rounded-2xl border border-[#333] p-4 mb-6">
+                                  <div className="text-xs text-[#A8C7FA] font-bold uppercase tracking-wider mb-2">{t('results.overallScore')}</div>
+                                  <svg viewBox="0 0 300 100" className="w-full h-24">
+                                      <polyline points={points.join(' ')} fill="none" stroke="#A8C7FA" strokeWidth="2" strokeLinejoin="round" strokeLinecap="round" />
+                                      {points.map((p, i) => { const [cx, cy] = p.split(','); return <circle key={i} cx={cx} cy={cy} r="3" fill="#4285F4" />; })}
+                                  </svg>
+                              </div>
+                          )}
+                          <div className="space-y-3">
+                              {screeningHistory.map(record => (
+                                  <div key={record.id} className={`flex items-center gap-4 p-4 rounded-2xl border transition-colors ${record.id === activeScreeningId ? 'border-[#A8C7FA]/50 bg-[#28292A]' : 'border-[#444746] hover:bg-[#28292A]'}`}>
+                                      <button onClick={() => openScreening(record)} className="flex-1 flex items-center gap-4 text-start">
+                                          <div className="w-12 h-12 rounded-full bg-[#131314] border border-[#444746] flex items-center justify-center text-lg font-bold text-white shrink-0">{formatNumber(record.analysis.overall_wellness_score)}</div>
+                                          <div className="min-w-0">
+                                              <div className="text-white font-medium">{formatDateTime(record.createdAt)}</div>
+                                              <div className="text-xs text-gray-400 truncate">{record.language}</div>
+                                          </div>
+                                      </button>
+                                      <button onClick={() => removeScreening(record.id)} className="text-gray-500 hover:text-red-400" title={t('history.delete')}>
+                                          <span className="material-symbol">delete</span>
+                                      </button>
+                                  </div>
+                              ))}
+                          </div>
+                      </>
+                  )}
+              </div>
+          </div>
+      );
+  };
+
   const renderResults = () => {
       if (!analysisResult) return null;
-      const userMessageCount = chatHistory.filter(m => m.role === 'user').length;
-      const turnsRemaining = MAX_CHAT_TURNS - userMessageCount;
+      const turnsRemaining = chatTurnsRemaining();
       const isChatDisabled = turnsRemaining <= 0;
 
       return (
           <div className="min-h-screen bg-[#131314] pb-24 animate-fade-in-up">
               <div className="sticky top-0 z-30 bg-[#131314]/90 backdrop-blur-md border-b border-[#444746] px-4 py-4 flex items-center justify-between">
                   <div className="flex items-center gap-2">
-                       <button onClick={() => { setAnalysisResult(null); setChatHistory([]); setScreen(AppScreen.INTRO); }} className="flex items-center gap-2 bg-[#1E1F20] text-[#A8C7FA] px-4 py-2 rounded-full text-sm font-medium hover:bg-[#2E2F30] border border-[#444746] transition-colors"><span className="material-symbol">add_circle</span><span>New Scan</span></button>
+                       <button onClick={() => { setAnalysisResult(null); setAcousticFeatures(null); setActiveScreeningId(null); setChatHistory([]); setScreen(AppScreen.INTRO); }} className="flex items-center gap-2 bg-[#1E1F20] text-[#A8C7FA] px-4 py-2 rounded-full text-sm font-medium hover:bg-[#2E2F30] border border-[#444746] transition-colors"><span className="material-symbol">add_circle</span><span>{t('results.newScan')}</span></button>
                   </div>
                   <div className="flex gap-2">
-                      <button onClick={exportPDF} className="flex items-center gap-2 px-4 py-2 bg-[#1E1F20] hover:bg-[#28292A] text-[#A8C7FA] rounded-full text-sm border border-[#444746] transition-colors"><span className="material-symbol text-[18px]">download</span><span className="hidden sm:inline">Export PDF</span></button>
+                      <button onClick={openHistory} className="flex items-center gap-2 px-4 py-2 bg-[#1E1F20] hover:bg-[#28292A] text-[#A8C7FA] rounded-full text-sm border border-[#444746] transition-colors"><span className="material-symbol text-[18px]">history</span><span className="hidden sm:inline">{t('results.history')}</span></button>
+                      <button onClick={() => setShowUsagePanel(true)} className="flex items-center gap-2 px-4 py-2 bg-[#1E1F20] hover:bg-[#28292A] text-[#A8C7FA] rounded-full text-sm border border-[#444746] transition-colors"><span className="material-symbol text-[18px]">token</span><span className="hidden sm:inline">{t('results.usage')}</span></button>
+                      <button onClick={exportPDF} className="flex items-center gap-2 px-4 py-2 bg-[#1E1F20] hover:bg-[#28292A] text-[#A8C7FA] rounded-full text-sm border border-[#444746] transition-colors"><span className="material-symbol text-[18px]">download</span><span className="hidden sm:inline">{t('results.exportPdf')}</span></button>
+                      <button onClick={exportFHIR} className="flex items-center gap-2 px-4 py-2 bg-[#1E1F20] hover:bg-[#28292A] text-[#A8C7FA] rounded-full text-sm border border-[#444746] transition-colors"><span className="material-symbol text-[18px]">medical_information</span><span className="hidden sm:inline">{t('results.exportFhir')}</span></button>
+                      <div className="relative">
+                          <button onClick={() => setShowExportMenu(!showExportMenu)} className="flex items-center gap-2 px-4 py-2 bg-[#1E1F20] hover:bg-[#28292A] text-[#A8C7FA] rounded-full text-sm border border-[#444746] transition-colors"><span className="material-symbol text-[18px]">data_object</span><span className="hidden sm:inline">{t('results.exportJson')}</span></button>
+                          {showExportMenu && (
+                              <div className="absolute end-0 mt-2 w-64 bg-[#1E1F20] border border-[#444746] rounded-2xl p-4 shadow-2xl space-y-3">
+                                  <label className="flex items-start gap-2 text-sm text-gray-300">
+                                      <input type="checkbox" checked={exportIncludesMedia} onChange={(e) => setExportIncludesMedia(e.target.checked)} className="mt-1" />
+                                      <span>{t('results.includeMedia')}</span>
+                                  </label>
+                                  {exportIncludesMedia && <p className="text-xs text-gray-500">{t('results.includeMediaHint')}</p>}
+                                  <button onClick={exportJSON} className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-full bg-[#4285F4] text-white text-sm font-bold hover:bg-[#3367D6] transition-colors"><span className="material-symbol text-[18px]">download</span>{t('results.download')}</button>
+                              </div>
+                          )}
+                      </div>
                   </div>
               </div>
               <div className="max-w-7xl mx-auto p-4 sm:p-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
                   <div className="lg:col-span-1 space-y-6">
                       <div className="surface-container rounded-[24px] p-6 text-center border border-[#444746]">
-                          <div className="text-[#A8C7FA] text-sm font-bold uppercase tracking-widest mb-4">Overall Wellness Score</div>
+                          <div className="text-[#A8C7FA] text-sm font-bold uppercase tracking-widest mb-4">{t('results.overallScore')}</div>
                           <div className="relative inline-block">
                               <svg className="w-48 h-48 transform -rotate-90" viewBox="0 0 192 192">
                                   <defs>
@@ -1018,24 +1698,28 @@ const App: React.FC = () => {
                                   <circle cx="96" cy="96" r="88" stroke="url(#grad)" strokeWidth="12" fill="none" strokeDasharray={2 * Math.PI * 88} strokeDashoffset={2 * Math.PI * 88 * (1 - analysisResult.overall_wellness_score / 100)} strokeLinecap="round" className="transition-all duration-1000 ease-out" />
                               </svg>
                               <div className="absolute inset-0 flex flex-col items-center justify-center">
-                                  <span className="text-5xl font-bold text-white">{analysisResult.overall_wellness_score}</span>
-                                  <span className="text-sm text-gray-400 mt-1">/ 100</span>
+                                  <span className="text-5xl font-bold text-white">{formatNumber(analysisResult.overall_wellness_score)}</span>
+                                  <span className="text-sm text-gray-400 mt-1">/ {formatNumber(100)}</span>
                               </div>
                           </div>
-                          <div className="mt-6 flex justify-center"><span className="px-3 py-1 rounded-full bg-emerald-900/30 text-emerald-400 text-sm font-bold border border-emerald-500/20">Confidence: {analysisResult.confidence_level.toUpperCase()}</span></div>
+                          <div className="mt-6 flex justify-center"><span className="px-3 py-1 rounded-full bg-emerald-900/30 text-emerald-400 text-sm font-bold border border-emerald-500/20 uppercase">{t('results.confidence', { level: confidenceName(analysisResult.confidence_level) })}</span></div>
                       </div>
                       <div className="surface-container rounded-[24px] p-6 border border-[#444746]">
-                          <div className="flex items-center gap-2 mb-4"><span className="material-symbol text-[#A8C7FA]">summarize</span><h3 className="text-lg font-bold text-white">Summary</h3></div>
+                          <div className="flex items-center gap-2 mb-4"><span className="material-symbol text-[#A8C7FA]">summarize</span><h3 className="text-lg font-bold text-white">{t('results.summary')}</h3></div>
                           <p className="text-gray-300 leading-relaxed text-sm">{analysisResult.summary}</p>
                       </div>
+                      {renderTrends(analysisResult.trends)}
+                      {renderProfileConsiderations(analysisResult.profile_considerations)}
+                      {renderTaskEvidence(analysisResult.task_evidence)}
+                      {acousticFeatures && <BiomarkerPanel features={acousticFeatures} />}
                       <div className="surface-container rounded-[24px] p-6 border border-[#444746]">
-                          <div className="flex items-center gap-2 mb-4"><span className="material-symbol text-[#A8C7FA]">lightbulb</span><h3 className="text-lg font-bold text-white">Recommendations</h3></div>
+                          <div className="flex items-center gap-2 mb-4"><span className="material-symbol text-[#A8C7FA]">lightbulb</span><h3 className="text-lg font-bold text-white">{t('results.recommendations')}</h3></div>
                           <div className="space-y-4">
                               {analysisResult.recommendations.map((rec, i) => (
-                                  <div key={i} className="bg-[#1E1F20] p-4 rounded-xl border-l-4 border-[#A8C7FA]">
+                                  <div key={i} className="bg-[#1E1F20] p-4 rounded-xl border-s-4 border-[#A8C7FA]">
                                       <div className="flex justify-between items-start mb-1">
                                           <div className="font-bold text-white text-sm">{rec.action}</div>
-                                          <div className={`text-[10px] px-2 py-0.5 rounded font-bold uppercase ${rec.urgency === 'prompt' ? 'bg-red-900/50 text-red-400' : 'bg-blue-900/50 text-blue-400'}`}>{rec.urgency}</div>
+                                          <div className={`text-[10px] px-2 py-0.5 rounded font-bold uppercase ${rec.urgency === 'prompt' ? 'bg-red-900/50 text-red-400' : 'bg-blue-900/50 text-blue-400'}`}>{urgencyName(rec.urgency)}</div>
                                       </div>
                                       <p className="text-xs text-gray-400">{rec.reason}</p>
                                   </div>
@@ -1044,7 +1728,7 @@ const App: React.FC = () => {
                       </div>
                   </div>
                   <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4 auto-rows-min">
-                       {Object.entries(analysisResult.domain_scores).map(([key, data], index) => ( <ResultCard key={key} title={key} data={data} delay={index * 100} /> ))}
+                       {getScoredDomains(analysisResult.domain_scores).map(([domain, data], index) => ( <ResultCard key={domain.id} domain={domain} data={data} delay={index * 100} cohort={cohortForProfile(resultProfile)} evidence={analysisResult.task_evidence?.filter(e => e.domain === domain.id)} /> ))}
                   </div>
               </div>
               <div className="max-w-7xl mx-auto px-4 sm:px-6 mt-8">
@@ -1052,47 +1736,59 @@ const App: React.FC = () => {
                       <div className="bg-[#28292A] p-4 border-b border-[#444746] flex justify-between items-center">
                           <div className="flex items-center gap-3">
                               <div className="w-10 h-10 rounded-full bg-gradient-to-tr from-[#4285F4] to-[#9B72CB] flex items-center justify-center"><span className="material-symbol text-white">auto_awesome</span></div>
-                              <div><h3 className="font-bold text-white">VitalVoice Assistant</h3><p className="text-xs text-gray-400">{isChatDisabled ? 'Session limit reached' : `${turnsRemaining} messages remaining`}</p></div>
+                              <div><h3 className="font-bold text-white">{t('chat.title')}</h3><p className="text-xs text-gray-400">{isChatDisabled ? t('chat.limitReached') : Number.isFinite(turnsRemaining) ? t('chat.remaining', { count: turnsRemaining }) : null}</p></div>
                           </div>
-                          <button onClick={() => setChatHistory([])} className="text-gray-500 hover:text-white" title="Clear Chat"><span className="material-symbol">restart_alt</span></button>
+                          <button onClick={clearChat} className="text-gray-500 hover:text-white" title={t('chat.clear')}><span className="material-symbol">restart_alt</span></button>
                       </div>
                       <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-[#1E1F20]">
                           {chatHistory.length === 0 && (
-                              <div className="flex flex-col items-center justify-center h-full text-center opacity-50"><span className="material-symbol text-6xl mb-4 text-gray-600">forum</span><p className="text-gray-400 max-w-xs">Ask me to explain any medical terms or give more wellness tips!</p></div>
+                              <div className="flex flex-col items-center justify-center h-full text-center opacity-50"><span className="material-symbol text-6xl mb-4 text-gray-600">forum</span><p className="text-gray-400 max-w-xs">{t('chat.empty')}</p></div>
                           )}
                           {chatHistory.map((msg, i) => (
                               <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                                  <div className={`max-w-[85%] sm:max-w-[70%] p-4 rounded-2xl ${msg.role === 'user' ? 'bg-[#4285F4] text-white rounded-br-none' : 'bg-[#2E2F30] text-gray-200 rounded-bl-none'}`}>
-                                      {msg.isAudio ? ( <div className="flex items-center gap-2"><span className="material-symbol">graphic_eq</span><audio src={msg.audioUrl} controls className="h-8 w-48 rounded" /></div> ) : ( <MarkdownRenderer content={msg.text} /> )}
-                                      {msg.role === 'model' && ( <button onClick={() => speakText(msg.text)} className="mt-2 text-gray-400 hover:text-white block"><span className="material-symbol text-sm">volume_up</span></button> )}
+                                  <div className={`max-w-[85%] sm:max-w-[70%] p-4 rounded-2xl ${msg.role === 'user' ? 'bg-[#4285F4] text-white rounded-ee-none' : 'bg-[#2E2F30] text-gray-200 rounded-es-none'}`}>
+                                      {msg.isAudio ? (
+                                          <div>
+                                              <div className="flex items-center gap-2"><span className="material-symbol">graphic_eq</span><audio src={msg.audioUrl} controls className="h-8 w-48 rounded" /></div>
+                                              {msg.isTranscribing ? ( <p className="mt-2 text-xs text-blue-100/70 italic">{t('chat.transcribing')}</p> )
+                                                : msg.transcript ? ( <p className="mt-2 text-sm text-blue-50/90 italic">“{msg.transcript}”</p> )
+                                                : ( <p className="mt-2 text-[11px] text-blue-100/60 flex items-center gap-1"><span className="material-symbol text-[14px]">info</span>{t('chat.noTranscript')}</p> )}
+                                          </div>
+                                      ) : msg.isStreaming && !msg.text ? (
+                                          <div className="flex gap-2 items-center py-1"><div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div><div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-100"></div><div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-200"></div></div>
+                                      ) : ( <MarkdownRenderer content={msg.isStreaming ? `${msg.text}▍` : msg.text} /> )}
+                                      {msg.interrupted && ( <div className="mt-2 text-[11px] text-yellow-300/80 flex items-center gap-1"><span className="material-symbol text-[14px]">info</span>{t('chat.interrupted')}</div> )}
+                                      {msg.role === 'model' && !msg.isStreaming && ( <button onClick={() => speakText(msg.text)} className="mt-2 text-gray-400 hover:text-white block"><span className="material-symbol text-sm">volume_up</span></button> )}
                                   </div>
                               </div>
                           ))}
-                          {isChatLoading && (
-                              <div className="flex justify-start">
-                                  <div className="bg-[#2E2F30] p-4 rounded-2xl rounded-bl-none flex gap-2 items-center"><div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div><div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-100"></div><div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-200"></div></div>
-                              </div>
-                          )}
                           <div ref={chatEndRef} />
                       </div>
                       <div className="p-4 bg-[#28292A] border-t border-[#444746]">
                           {isChatDisabled ? (
-                             <div className="flex items-center justify-center p-3 bg-[#1E1F20] rounded-full border border-red-900/50 text-red-200 text-sm gap-2"><span className="material-symbol text-lg">lock</span>Chat limit reached for this session. Please restart analysis to chat more.</div>
+                             <div className="flex items-center justify-center p-3 bg-[#1E1F20] rounded-full border border-red-900/50 text-red-200 text-sm gap-2"><span className="material-symbol text-lg">lock</span>{t('chat.locked')}</div>
                           ) : (
                               <form onSubmit={handleChatSubmit} className="flex gap-2">
-                                  <button type="button" onMouseDown={startChatRecording} onMouseUp={stopChatRecording} onTouchStart={startChatRecording} onTouchEnd={stopChatRecording} className={`p-3 rounded-full transition-all ${isChatRecording ? 'bg-red-500 text-white scale-110' : 'bg-[#1E1F20] text-[#A8C7FA] hover:bg-[#333]'}`}><span className="material-symbol">{isChatRecording ? 'mic_off' : 'mic'}</span></button>
-                                  <div className="flex-1 relative"><input type="text" value={chatInput} onChange={(e) => setChatInput(e.target.value)} placeholder="Type a message..." maxLength={MAX_INPUT_CHARS} className="w-full bg-[#1E1F20] text-white rounded-full px-4 py-3 border border-[#444746] focus:border-[#4285F4] focus:outline-none pr-12" /><div className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-500 pointer-events-none">{chatInput.length}/{MAX_INPUT_CHARS}</div></div>
-                                  <button type="submit" disabled={!chatInput.trim() || isChatLoading} className="p-3 bg-[#4285F4] text-white rounded-full hover:bg-[#3367D6] disabled:opacity-50 disabled:cursor-not-allowed"><span className="material-symbol">send</span></button>
+                                  <button type="button" disabled={isChatLoading} onMouseDown={startChatRecording} onMouseUp={stopChatRecording} onTouchStart={startChatRecording} onTouchEnd={stopChatRecording} className={`p-3 rounded-full disabled:opacity-50 transition-all ${isChatRecording ? 'bg-red-500 text-white scale-110' : 'bg-[#1E1F20] text-[#A8C7FA] hover:bg-[#333]'}`}><span className="material-symbol">{isChatRecording ? 'mic_off' : 'mic'}</span></button>
+                                  <div className="flex-1 relative"><input type="text" value={chatInput} onChange={(e) => setChatInput(e.target.value)} placeholder={t('chat.placeholder')} maxLength={MAX_INPUT_CHARS} className="w-full bg-[#1E1F20] text-white rounded-full px-4 py-3 border border-[#444746] focus:border-[#4285F4] focus:outline-none pe-12" /><div className="absolute end-3 top-1/2 -translate-y-1/2 text-xs text-gray-500 pointer-events-none">{chatInput.length}/{MAX_INPUT_CHARS}</div></div>
+                                  {isChatLoading ? (
+                                      <button type="button" onClick={stopChatGeneration} className="p-3 bg-[#2E2F30] text-white rounded-full hover:bg-[#3E3F40] border border-[#444746]" title={t('chat.stop')}><span className="material-symbol">stop</span></button>
+                                  ) : (
+                                      <button type="submit" disabled={!chatInput.trim()} className="p-3 bg-[#4285F4] text-white rounded-full hover:bg-[#3367D6] disabled:opacity-50 disabled:cursor-not-allowed"><span className="material-symbol rtl:-scale-x-100">send</span></button>
+                                  )}
                               </form>
                           )}
                       </div>
                   </div>
               </div>
-              <div className="text-center p-8 text-xs text-gray-500 max-w-2xl mx-auto">{analysisResult.disclaimer}</div>
+              <div className="text-center p-8 text-xs text-gray-500 max-w-2xl mx-auto">{disclaimerText(analysisResult)}</div>
           </div>
       );
   };
 
+  // Nothing is shown until the opening URL is resolved, so a reloaded result does not flash the intro first.
+  const visibleScreen = routeReady ? screen : null;
+
   return (
     <div className="min-h-screen bg-[#131314] text-white font-sans overflow-x-hidden selection:bg-blue-500/30">
         <div className="fixed top-0 left-0 w-full h-full overflow-hidden pointer-events-none z-0">
@@ -1100,14 +1796,28 @@ const App: React.FC = () => {
             <div className="absolute bottom-[-10%] right-[-10%] w-[600px] h-[600px] bg-[#9B72CB]/5 rounded-full blur-[100px]"></div>
         </div>
         {showTechModal && <TechModal onClose={() => setShowTechModal(false)} />}
-        {showLimitModal && <LimitModal onClose={() => setShowLimitModal(false)} />}
-        {screen === AppScreen.INTRO && renderIntro()}
-        {screen === AppScreen.RECORDING && renderRecording()}
-        {screen === AppScreen.FACE_PROMPT && renderFacePrompt()}
-        {screen === AppScreen.FACE_CAPTURE && renderFaceCapture()}
-        {screen === AppScreen.UPLOAD_CONFIG && renderUpload()}
-        {screen === AppScreen.ANALYZING && renderAnalyzing()}
-        {screen === AppScreen.RESULTS && renderResults()}
+        {showLimitModal && <LimitModal quota={quota} onQuotaChange={setQuota} onClose={() => setShowLimitModal(false)} />}
+        {showUsagePanel && <UsagePanel screeningUsage={screeningUsage} onClose={() => setShowUsagePanel(false)} />}
+        {showProfileModal && <ProfileModal profile={userProfile} quota={quota} onQuotaChange={setQuota} onClose={() => setShowProfileModal(false)} onSave={(profile) => { setUserProfile(saveProfile(profile)); setShowProfileModal(false); }} />}
+        {visibleScreen === AppScreen.INTRO && renderIntro()}
+        {visibleScreen === AppScreen.RECORDING && renderRecording()}
+        {visibleScreen === AppScreen.FACE_PROMPT && renderFacePrompt()}
+        {visibleScreen === AppScreen.FACE_CAPTURE && renderFaceCapture()}
+        {visibleScreen === AppScreen.UPLOAD_CONFIG && renderUpload()}
+        {visibleScreen === AppScreen.BATCH_VALIDATION && <BatchValidation language={selectedLanguage.name} onBack={() => setScreen(AppScreen.UPLOAD_CONFIG)} />}
+        {visibleScreen === AppScreen.ANALYZING && renderAnalyzing()}
+        {visibleScreen === AppScreen.ANALYSIS_ERROR && analysisError && (
+            <AnalysisErrorPanel
+                error={analysisError}
+                source={analysisSource}
+                onRetry={retryAnalysis}
+                onReplaceInput={replaceAnalysisInput}
+                onHome={() => { setAnalysisError(null); setScreen(AppScreen.INTRO); }}
+                onSampleData={loadSampleData}
+            />
+        )}
+        {(visibleScreen === AppScreen.RESULTS || visibleScreen === AppScreen.CHAT) && renderResults()}
+        {visibleScreen === AppScreen.HISTORY && renderHistory()}
     </div>
   );
 };
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { QuotaStatus, getAccountToken, setAccountToken } from '../services/quotaService';
+import { fetchQuota } from '../services/analysisService';
+import { t } from '../services/i18n';
+
+interface AccountTokenFormProps {
+  // Null when the backend enforces no quotas, which hides the form.
+  quota: QuotaStatus | null;
+  onQuotaChange: (quota: QuotaStatus | null) => void;
+}
+
+/**
+ * Enters or removes the account token sent instead of the device token. A
+ * new token is checked against `GET /quota` and dropped if the server
+ * rejects it, so a mistyped token cannot block every request.
+ */
+const AccountTokenForm: React.FC<AccountTokenFormProps> = ({ quota, onQuotaChange }) => {
+  const [stored, setStored] = useState(() => getAccountToken() !== null);
+  const [token, setToken] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [rejected, setRejected] = useState(false);
+
+  if (!quota) return null;
+
+  const save = async () => {
+    setChecking(true);
+    setRejected(false);
+    setAccountToken(token);
+    const status = await fetchQuota();
+    if (status && getAccountToken()) {
+      setStored(true);
+      setToken('');
+      onQuotaChange(status);
+    } else {
+      // A rejected token has already been dropped (forgetQuotaToken); any other failure drops it here.
+      setAccountToken(null);
+      setRejected(true);
+    }
+    setChecking(false);
+  };
+
+  const remove = async () => {
+    setAccountToken(null);
+    setStored(false);
+    onQuotaChange(await fetchQuota());
+  };
+
+  return (
+    <div className="text-start space-y-2">
+      <div className="text-xs font-medium text-gray-400">{t('account.title')}</div>
+      {stored ? (
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm text-gray-300 flex items-center gap-2">
+            <span className="material-symbol text-[18px] text-[#A8C7FA]">verified_user</span>
+            {t('account.active', { tier: quota.tier })}
+          </span>
+          <button onClick={remove} className="text-sm text-gray-400 hover:text-white">{t('account.remove')}</button>
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 leading-relaxed">{t('account.hint')}</p>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              autoComplete="off"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder={t('account.placeholder')}
+              className="flex-1 min-w-0 bg-[#131314] border border-[#444746] rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-[#A8C7FA] placeholder:text-gray-600"
+            />
+            <button onClick={save} disabled={!token.trim() || checking} className="px-4 rounded-full bg-[#4285F4] text-white text-sm font-bold hover:bg-[#3367D6] transition-colors disabled:opacity-50">
+              {checking ? t('account.checking') : t('account.save')}
+            </button>
+          </div>
+          {rejected && <p className="text-[11px] text-red-400">{t('account.rejected')}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AccountTokenForm;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { AnalysisError, AnalysisErrorKind } from '../services/analysisErrors';
+import { t } from '../services/i18n';
+
+interface AnalysisErrorPanelProps {
+  error: AnalysisError;
+  source: 'recording' | 'upload';
+  onRetry: () => void;
+  onReplaceInput: () => void;
+  onHome: () => void;
+  onSampleData: () => void;
+}
+
+type RecoveryAction = 'retry' | 'replace' | 'sample';
+
+interface RecoveryConfig {
+  icon: string;
+  accent: string;
+  primary: RecoveryAction;
+  secondary?: RecoveryAction;
+  // Whether the kept recording can simply be resent.
+  keepsInput: boolean;
+}
+
+const RECOVERY: Record<Exclude<AnalysisErrorKind, 'cancelled'>, RecoveryConfig> = {
+  quota: { icon: 'hourglass_top', accent: 'text-yellow-400 bg-yellow-500/10', primary: 'retry', secondary: 'sample', keepsInput: true },
+  safety: { icon: 'shield', accent: 'text-orange-400 bg-orange-500/10', primary: 'replace', keepsInput: false },
+  network: { icon: 'wifi_off', accent: 'text-[#A8C7FA] bg-blue-500/10', primary: 'retry', keepsInput: true },
+  invalid_input: { icon: 'graphic_eq', accent: 'text-red-400 bg-red-500/10', primary: 'replace', keepsInput: false },
+  malformed_output: { icon: 'report', accent: 'text-purple-300 bg-purple-500/10', primary: 'retry', secondary: 'replace', keepsInput: true },
+};
+
+const AnalysisErrorPanel: React.FC<AnalysisErrorPanelProps> = ({ error, source, onRetry, onReplaceInput, onHome, onSampleData }) => {
+  const kind: Exclude<AnalysisErrorKind, 'cancelled'> = error.kind === 'cancelled' ? 'network' : error.kind;
+  const config = RECOVERY[kind];
+
+  const actions: Record<RecoveryAction, { label: string; icon: string; onClick: () => void }> = {
+    retry: { label: t('error.retry'), icon: 'refresh', onClick: onRetry },
+    replace: source === 'recording'
+      ? { label: t('error.recordAgain'), icon: 'mic', onClick: onReplaceInput }
+      : { label: t('error.chooseFile'), icon: 'upload_file', onClick: onReplaceInput },
+    sample: { label: t('error.viewSample'), icon: 'science', onClick: onSampleData },
+  };
+
+  const primary = actions[config.primary];
+  const secondary = config.secondary ? actions[config.secondary] : null;
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4 animate-fade-in-up relative z-10">
+      <div className="w-full max-w-md bg-[#1E1F20] rounded-[32px] p-8 border border-[#444746] shadow-2xl flex flex-col items-center text-center">
+        <div className={`w-20 h-20 rounded-full flex items-center justify-center mb-6 ${config.accent}`}>
+          <span className="material-symbol text-4xl">{config.icon}</span>
+        </div>
+        <h2 className="text-2xl font-bold text-white mb-3">{t(`error.${kind}.title`)}</h2>
+        <p className="text-gray-400 mb-6 leading-relaxed">{error.message}</p>
+
+        {config.keepsInput && (
+          <div className="w-full bg-[#28292A] p-3 rounded-xl border border-[#444746] mb-6 text-xs text-gray-400 flex items-center gap-2 text-start">
+            <span className="material-symbol text-emerald-400 text-[18px]">check_circle</span>
+            {t(source === 'recording' ? 'error.keptRecording' : 'error.keptFile')}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-3 w-full">
+          <button onClick={primary.onClick} className="w-full py-4 rounded-full bg-[#4285F4] text-white font-bold hover:bg-[#3367D6] shadow-lg shadow-blue-500/20 transition-all flex items-center justify-center gap-2">
+            <span className="material-symbol">{primary.icon}</span>
+            {primary.label}
+          </button>
+          {secondary && (
+            <button onClick={secondary.onClick} className="w-full py-3 rounded-full bg-[#2E2F30] text-gray-200 font-medium hover:bg-[#3E3F40] transition-colors flex items-center justify-center gap-2">
+              <span className="material-symbol text-[18px]">{secondary.icon}</span>
+              {secondary.label}
+            </button>
+          )}
+          <button onClick={onHome} className="w-full py-3 rounded-full bg-transparent text-gray-400 font-medium hover:text-white hover:bg-white/5 transition-colors">
+            {t('common.backHome')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisErrorPanel;
@@ -0,0 +1,263 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ManifestError, ValidationItem, ValidationManifest, ValidationResult,
+  clearRunResults, computeRunId, loadRunResults, matchManifestFiles, parseManifest, runValidationBatch
+} from '../services/validationService';
+import { buildValidationReport, validationResultsToCsv } from '../services/validationReport';
+import { downloadFile } from '../services/fileService';
+import { domainName, formatNumber, t } from '../services/i18n';
+import RichMessage from './RichMessage';
+
+interface BatchValidationProps {
+  language: string;
+  onBack: () => void;
+}
+
+type RunState = 'idle' | 'running' | 'stopping';
+
+const MAX_CONCURRENCY = 4;
+const AUDIO_FILE = /\.(wav|mp3|m4a|mp4|webm|ogg|flac|aac)$/i;
+
+const formatRatio = (value: number | null) =>
+  value === null ? '–' : formatNumber(value, { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+const BatchValidation: React.FC<BatchValidationProps> = ({ language, onBack }) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [manifestText, setManifestText] = useState<string | null>(null);
+  const [manifestName, setManifestName] = useState<string | null>(null);
+  const [manifest, setManifest] = useState<ValidationManifest | null>(null);
+  const [manifestError, setManifestError] = useState<string | null>(null);
+  const [items, setItems] = useState<ValidationItem[]>([]);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [runId, setRunId] = useState<string | null>(null);
+  const [results, setResults] = useState<ValidationResult[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const [runState, setRunState] = useState<RunState>('idle');
+  const abortRef = useRef<AbortController | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const manifestInputRef = useRef<HTMLInputElement>(null);
+
+  // Re-pair files with the manifest whenever either changes, and pick up stored progress.
+  useEffect(() => {
+    if (!manifestText) return;
+    try {
+      const parsed = parseManifest(manifestText);
+      const matched = matchManifestFiles(parsed, files);
+      const id = computeRunId(manifestText, matched.items, language);
+      setManifest(parsed);
+      setManifestError(null);
+      setItems(matched.items);
+      setMissing(files.length > 0 ? matched.missing : []);
+      setRunId(id);
+      loadRunResults(id).then(setResults).catch(e => {
+        console.error("Validation storage error", e);
+        setResults([]);
+      });
+    } catch (e) {
+      setManifest(null);
+      setManifestError(e instanceof ManifestError ? e.message : t('batch.manifestUnreadable'));
+    }
+  }, [manifestText, files, language]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleFolderChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected: File[] = Array.from(e.target.files || []);
+    setFiles(selected.filter(f => AUDIO_FILE.test(f.name)));
+    // A manifest inside the folder is used unless one was picked separately.
+    const csvFiles = selected.filter(f => f.name.toLowerCase().endsWith('.csv'));
+    if (!manifestText && csvFiles.length === 1) {
+      setManifestName(csvFiles[0].name);
+      setManifestText(await csvFiles[0].text());
+    }
+  };
+
+  const handleManifestChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setManifestName(file.name);
+    setManifestText(await file.text());
+  };
+
+  const startRun = async () => {
+    if (!runId || items.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunState('running');
+    try {
+      await runValidationBatch({
+        runId,
+        items,
+        language,
+        concurrency,
+        signal: controller.signal,
+        onResult: (result) => setResults(prev => [...prev.filter(r => r.file !== result.file), result])
+      });
+    } catch (e) {
+      console.error("Validation run failed", e);
+    } finally {
+      abortRef.current = null;
+      setRunState('idle');
+    }
+  };
+
+  const stopRun = () => {
+    abortRef.current?.abort();
+    setRunState('stopping');
+  };
+
+  const startOver = async () => {
+    if (!runId) return;
+    try {
+      await clearRunResults(runId);
+      setResults([]);
+    } catch (e) {
+      console.error("Validation storage error", e);
+    }
+  };
+
+  const report = manifest && runId ? buildValidationReport(runId, language, manifest, results, items.length) : null;
+  const doneCount = results.filter(r => r.status === 'done').length;
+  const failedCount = results.filter(r => r.status === 'failed').length;
+  const progress = items.length > 0 ? (doneCount + failedCount) / items.length : 0;
+  const hasProgress = results.length > 0;
+
+  const downloadReport = () => {
+    if (!report) return;
+    downloadFile(`vitalvoice-validation-${report.runId}.json`, JSON.stringify(report, null, 2), 'application/json');
+  };
+
+  const downloadCsv = () => {
+    if (!manifest || !runId) return;
+    downloadFile(`vitalvoice-validation-${runId}.csv`, validationResultsToCsv(manifest, results), 'text/csv');
+  };
+
+  const pickerClass = (selected: boolean) => `border-2 border-dashed rounded-xl p-5 flex flex-col items-center justify-center cursor-pointer transition-colors text-center ${selected ? 'border-emerald-500/50 bg-emerald-500/5' : 'border-[#444746] hover:border-gray-400 hover:bg-[#28292A]'}`;
+
+  return (
+    <div className="flex flex-col items-center min-h-screen p-4 sm:p-8 animate-fade-in-up relative z-10">
+      <div className="w-full max-w-4xl bg-[#1E1F20] rounded-[32px] p-6 sm:p-8 border border-[#444746] shadow-2xl">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl font-bold text-white flex items-center gap-2"><span className="material-symbol text-[#A8C7FA]">fact_check</span>{t('batch.title')}</h2>
+          <button onClick={onBack} disabled={runState !== 'idle'} className="text-gray-400 hover:text-white disabled:opacity-30">
+            <span className="material-symbol">close</span>
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-6">
+          <RichMessage text={t('batch.intro')} values={{
+            file: <code className="text-[#E8DEF8]">file</code>,
+            score: <code className="text-[#E8DEF8]">&lt;domain&gt;_score</code>,
+          }} />
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+          <div onClick={() => runState === 'idle' && folderInputRef.current?.click()} className={pickerClass(files.length > 0)}>
+            <input type="file" multiple className="hidden" ref={folderInputRef} onChange={handleFolderChange} {...{ webkitdirectory: '', directory: '' }} />
+            <span className={`material-symbol text-3xl mb-2 ${files.length > 0 ? 'text-emerald-400' : 'text-gray-400'}`}>folder_open</span>
+            <span className="text-gray-200 font-medium">{files.length > 0 ? t('batch.audioFiles', { count: files.length }) : t('batch.selectFolder')}</span>
+          </div>
+          <div onClick={() => runState === 'idle' && manifestInputRef.current?.click()} className={pickerClass(!!manifest)}>
+            <input type="file" accept=".csv,text/csv" className="hidden" ref={manifestInputRef} onChange={handleManifestChange} />
+            <span className={`material-symbol text-3xl mb-2 ${manifest ? 'text-emerald-400' : 'text-gray-400'}`}>table</span>
+            <span className="text-gray-200 font-medium truncate max-w-full">{manifestName || t('batch.selectManifest')}</span>
+            {manifest && <span className="text-xs text-emerald-500/70 mt-1">{t('batch.manifestSummary', { rows: manifest.rows.length, domains: manifest.domains.length })}</span>}
+          </div>
+        </div>
+
+        {manifestError && (
+          <div className="mb-6 bg-red-900/30 border border-red-500/30 text-red-200 px-4 py-3 rounded-xl text-sm flex items-center gap-2">
+            <span className="material-symbol text-lg">error</span>{manifestError}
+          </div>
+        )}
+
+        {manifest && (manifest.warnings.length > 0 || missing.length > 0) && (
+          <details className="mb-6 bg-[#28292A] border border-[#444746] rounded-xl px-4 py-3 text-xs text-yellow-200/80">
+            <summary className="cursor-pointer font-medium">{missing.length > 0 ? t('batch.missingFiles', { count: missing.length }) : t('batch.warnings')}{manifest.warnings.length > 0 && ` · ${t('batch.warningCount', { count: manifest.warnings.length })}`}</summary>
+            <ul className="mt-2 space-y-1 text-gray-400 max-h-40 overflow-y-auto">
+              {missing.map(file => <li key={file}>{t('batch.missing', { file })}</li>)}
+              {manifest.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+            </ul>
+          </details>
+        )}
+
+        {items.length > 0 && (
+          <div className="mb-6">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-4">
+              <label className="text-sm text-gray-400 flex items-center gap-2">
+                {t('batch.parallel')}
+                <select value={concurrency} disabled={runState !== 'idle'} onChange={(e) => setConcurrency(Number(e.target.value))} className="bg-[#131314] border border-[#444746] rounded-lg px-2 py-1 text-white">
+                  {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+              <div className="flex gap-3 sm:ms-auto">
+                {runState === 'idle' ? (
+                  <>
+                    {hasProgress && (
+                      <button onClick={startOver} className="px-5 py-2.5 rounded-full bg-[#2E2F30] text-gray-300 text-sm font-medium hover:bg-[#3E3F40] transition-colors">{t('batch.startOver')}</button>
+                    )}
+                    <button onClick={startRun} disabled={doneCount === items.length} className="px-6 py-2.5 rounded-full bg-[#4285F4] text-white text-sm font-bold hover:bg-[#3367D6] disabled:opacity-50 transition-colors flex items-center gap-2">
+                      <span className="material-symbol text-[18px]">play_arrow</span>
+                      {hasProgress ? t('batch.resume', { count: items.length - doneCount }) : t('batch.run', { count: items.length })}
+                    </button>
+                  </>
+                ) : (
+                  <button onClick={stopRun} disabled={runState === 'stopping'} className="px-6 py-2.5 rounded-full bg-red-500 text-white text-sm font-bold hover:bg-red-600 disabled:opacity-50 transition-colors flex items-center gap-2">
+                    <span className="material-symbol text-[18px]">stop</span>{runState === 'stopping' ? t('batch.stopping') : t('batch.stop')}
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="w-full bg-[#444746] h-2 rounded-full overflow-hidden">
+              <div className="h-full bg-[#A8C7FA] transition-all duration-500" style={{ width: `${progress * 100}%` }} />
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-2">
+              <span>{t('batch.progress', { done: doneCount, failed: failedCount })}</span>
+              <span>{t('batch.fileTotal', { count: items.length })}</span>
+            </div>
+          </div>
+        )}
+
+        {report && doneCount > 0 && (
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-bold text-white">{t('batch.accuracy')}</h3>
+              <div className="flex gap-2">
+                <button onClick={downloadCsv} className="px-4 py-2 rounded-full bg-[#2E2F30] text-gray-200 text-xs font-medium hover:bg-[#3E3F40] flex items-center gap-1"><span className="material-symbol text-[16px]">table</span>{t('batch.csv')}</button>
+                <button onClick={downloadReport} className="px-4 py-2 rounded-full bg-[#2E2F30] text-gray-200 text-xs font-medium hover:bg-[#3E3F40] flex items-center gap-1"><span className="material-symbol text-[16px]">download</span>{t('batch.report')}</button>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-start">
+                <thead className="text-[11px] uppercase tracking-wide text-gray-500 border-b border-[#444746]">
+                  <tr>
+                    <th className="py-2 pe-3">{t('batch.domain')}</th>
+                    <th className="py-2 px-2 text-end" title={t('batch.matrixHint')}>TP / FP / FN / TN</th>
+                    <th className="py-2 px-2 text-end">{t('batch.sensitivity')}</th>
+                    <th className="py-2 px-2 text-end">{t('batch.specificity')}</th>
+                    <th className="py-2 ps-2 text-end">{t('batch.correlation')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.domains.map(d => (
+                    <tr key={d.domain} className="border-b border-[#333] text-gray-300">
+                      <td className="py-2 pe-3 font-medium text-white">{domainName(d.domain)}</td>
+                      <td className="py-2 px-2 text-end font-mono tabular-nums">{d.matrix.truePositive} / {d.matrix.falsePositive} / {d.matrix.falseNegative} / {d.matrix.trueNegative}</td>
+                      <td className="py-2 px-2 text-end tabular-nums">{formatRatio(d.sensitivity)}</td>
+                      <td className="py-2 px-2 text-end tabular-nums">{formatRatio(d.specificity)}</td>
+                      <td className="py-2 ps-2 text-end tabular-nums" title={t(d.correlation.against === 'label' ? 'batch.pointBiserialHint' : 'batch.pearsonHint')}>
+                        {d.correlation.r === null ? '–' : formatNumber(d.correlation.r, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} <span className="text-gray-500 text-xs">({t(d.correlation.against === 'label' ? 'batch.vsLabel' : 'batch.vsReference')}, n={formatNumber(d.correlation.n)})</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-500 mt-3">{report.positiveRule}. {t('batch.footnote')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchValidation;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { AcousticFeatures } from '../types';
+import { formatNumber, t } from '../services/i18n';
+
+interface BiomarkerPanelProps {
+  features: AcousticFeatures;
+}
+
+const BiomarkerPanel: React.FC<BiomarkerPanelProps> = ({ features }) => {
+  const format = (value: number | null, unit: string) => value === null ? '—' : `${formatNumber(value)} ${unit}`;
+
+  const rows = [
+    { label: t('biomarkers.f0Mean'), icon: 'graphic_eq', value: format(features.f0MeanHz, 'Hz') },
+    {
+      label: t('biomarkers.pitchRange'),
+      icon: 'height',
+      value: features.f0MinHz !== null && features.f0MaxHz !== null ? `${formatNumber(features.f0MinHz)}–${formatNumber(features.f0MaxHz)} Hz` : '—'
+    },
+    { label: t('biomarkers.jitter'), icon: 'vibration', value: format(features.jitterPercent, '%') },
+    { label: t('biomarkers.shimmer'), icon: 'waves', value: format(features.shimmerPercent, '%') },
+    { label: t('biomarkers.hnr'), icon: 'tune', value: format(features.hnrDb, 'dB') },
+    { label: t('biomarkers.pauseRatio'), icon: 'pause_circle', value: formatNumber(features.pauseRatio, { style: 'percent' }) },
+    { label: t('biomarkers.syllableRate'), icon: 'speed', value: `${formatNumber(features.syllableRate)} /s` },
+  ];
+
+  return (
+    <div className="surface-container rounded-[24px] p-6 border border-[#444746]">
+      <div className="flex items-center gap-2 mb-1">
+        <span className="material-symbol text-[#A8C7FA]">science</span>
+        <h3 className="text-lg font-bold text-white">{t('biomarkers.title')}</h3>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">{t('biomarkers.computed', { seconds: features.durationSeconds })}</p>
+      <div className="divide-y divide-[#444746]">
+        {rows.map(row => (
+          <div key={row.label} className="flex items-center justify-between py-2">
+            <div className="flex items-center gap-2 text-sm text-gray-300">
+              <span className="material-symbol text-[18px] text-gray-500">{row.icon}</span>
+              {row.label}
+            </div>
+            <span className="text-sm font-medium text-white tabular-nums">{row.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BiomarkerPanel;
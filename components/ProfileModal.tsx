@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { SexAtBirth, SmokingStatus, UserProfile } from '../types';
+import { QuotaStatus } from '../services/quotaService';
+import { t } from '../services/i18n';
+import AccountTokenForm from './AccountTokenForm';
+
+interface ProfileModalProps {
+  profile: UserProfile | null;
+  onSave: (profile: UserProfile | null) => void;
+  onClose: () => void;
+  // The account token is entered here too; null hides it (no quota enforced).
+  quota: QuotaStatus | null;
+  onQuotaChange: (quota: QuotaStatus | null) => void;
+}
+
+const splitList = (value: string): string[] | undefined => {
+  const items = value.split(',').map(v => v.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+const inputClass = "w-full bg-[#131314] border border-[#444746] rounded-xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-[#A8C7FA] placeholder:text-gray-600";
+const labelClass = "block text-xs font-medium text-gray-400 mb-1.5";
+
+const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onSave, onClose, quota, onQuotaChange }) => {
+  const [age, setAge] = useState(profile?.age?.toString() ?? '');
+  const [sexAtBirth, setSexAtBirth] = useState<SexAtBirth | ''>(profile?.sexAtBirth ?? '');
+  const [smoker, setSmoker] = useState<SmokingStatus | ''>(profile?.smoker ?? '');
+  const [respiratory, setRespiratory] = useState(profile?.respiratoryConditions?.join(', ') ?? '');
+  const [neurological, setNeurological] = useState(profile?.neurologicalConditions?.join(', ') ?? '');
+  const [medications, setMedications] = useState(profile?.medications?.join(', ') ?? '');
+
+  const parsedAge = age.trim() === '' ? undefined : Number(age);
+  const ageInvalid = parsedAge !== undefined && (!Number.isInteger(parsedAge) || parsedAge < 18 || parsedAge > 120);
+
+  const handleSave = () => {
+    if (ageInvalid) return;
+    onSave({
+      age: parsedAge,
+      sexAtBirth: sexAtBirth || undefined,
+      smoker: smoker || undefined,
+      respiratoryConditions: splitList(respiratory),
+      neurologicalConditions: splitList(neurological),
+      medications: splitList(medications)
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-[#1E1F20] w-full max-w-lg rounded-[24px] border border-[#444746] shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-[#444746] flex justify-between items-center">
+          <h2 className="text-2xl font-normal text-white flex items-center gap-2">
+            <span className="material-symbol text-[#A8C7FA]">person</span>
+            {t('profile.title')}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <span className="material-symbol">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <p className="text-sm text-gray-400 leading-relaxed">
+            {t('profile.intro')}
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>{t('profile.age')}</label>
+              <input type="number" min={18} max={120} value={age} onChange={(e) => setAge(e.target.value)} placeholder={t('profile.agePlaceholder')} className={`${inputClass} ${ageInvalid ? 'border-red-500/70' : ''}`} />
+              {ageInvalid && <p className="text-[11px] text-red-400 mt-1">{t('profile.ageInvalid')}</p>}
+            </div>
+            <div>
+              <label className={labelClass}>{t('profile.sexAtBirth')}</label>
+              <select value={sexAtBirth} onChange={(e) => setSexAtBirth(e.target.value as SexAtBirth | '')} className={inputClass}>
+                <option value="">{t('profile.notSpecified')}</option>
+                <option value="female">{t('profile.female')}</option>
+                <option value="male">{t('profile.male')}</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('profile.smoking')}</label>
+              <select value={smoker} onChange={(e) => setSmoker(e.target.value as SmokingStatus | '')} className={inputClass}>
+                <option value="">{t('profile.notSpecified')}</option>
+                <option value="never">{t('profile.never')}</option>
+                <option value="former">{t('profile.former')}</option>
+                <option value="current">{t('profile.current')}</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('profile.respiratory')}</label>
+            <input value={respiratory} onChange={(e) => setRespiratory(e.target.value)} placeholder={t('profile.respiratoryPlaceholder')} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t('profile.neurological')}</label>
+            <input value={neurological} onChange={(e) => setNeurological(e.target.value)} placeholder={t('profile.neurologicalPlaceholder')} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>{t('profile.medications')}</label>
+            <input value={medications} onChange={(e) => setMedications(e.target.value)} placeholder={t('profile.medicationsPlaceholder')} className={inputClass} />
+          </div>
+          {quota && (
+            <div className="pt-4 border-t border-[#444746]">
+              <AccountTokenForm quota={quota} onQuotaChange={onQuotaChange} />
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-[#444746] flex flex-col-reverse sm:flex-row gap-3 sm:justify-between">
+          <button onClick={() => onSave(null)} disabled={!profile} className="py-3 px-5 rounded-full text-gray-400 font-medium hover:text-white hover:bg-white/5 transition-colors disabled:opacity-30 disabled:hover:bg-transparent">
+            {t('profile.clear')}
+          </button>
+          <button onClick={handleSave} disabled={ageInvalid} className="py-3 px-8 rounded-full bg-[#4285F4] text-white font-bold hover:bg-[#3367D6] transition-colors disabled:opacity-50">
+            {t('profile.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileModal;
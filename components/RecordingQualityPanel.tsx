@@ -0,0 +1,63 @@
+import React from 'react';
+import { AudioQualityReport, QualityCheckId, QualityStatus, explainQualityCheck, qualityCheckLabel } from '../services/audioQuality';
+import { formatNumber, t } from '../services/i18n';
+
+interface RecordingQualityPanelProps {
+  report: AudioQualityReport;
+}
+
+const STATUS_STYLE: Record<QualityStatus, { icon: string; color: string }> = {
+  fail: { icon: 'cancel', color: 'text-red-400' },
+  warn: { icon: 'warning', color: 'text-yellow-400' },
+  pass: { icon: 'check_circle', color: 'text-emerald-400' },
+};
+
+const STATUS_ORDER: QualityStatus[] = ['fail', 'warn', 'pass'];
+
+// Measured value with its unit, for the right-hand column.
+const formatValue = (id: QualityCheckId, value: number | null): string => {
+  if (value === null || id === 'decodable') return '';
+  switch (id) {
+    case 'duration':
+    case 'speech':
+    case 'dropouts': return `${formatNumber(value, { maximumFractionDigits: 1 })} s`;
+    case 'level':
+    case 'snr': return `${formatNumber(value, { maximumFractionDigits: 0 })} dB`;
+    case 'clipping': return formatNumber(value / 100, { style: 'percent', maximumFractionDigits: 2 });
+    case 'dc_offset': return formatNumber(value, { maximumFractionDigits: 3 });
+  }
+};
+
+/**
+ * Shown under a rejected recording: every check with its measurement, problems
+ * first, and what to change for the ones that failed or warned.
+ */
+const RecordingQualityPanel: React.FC<RecordingQualityPanelProps> = ({ report }) => {
+  const checks = [...report.checks].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+
+  return (
+    <div className="w-full mb-6 bg-[#131314] border border-[#333] rounded-xl p-4 text-start">
+      <div className="text-xs text-[#A8C7FA] font-bold uppercase tracking-wider mb-3">{t('quality.title')}</div>
+      <ul className="space-y-2">
+        {checks.map(check => {
+          const style = STATUS_STYLE[check.status];
+          const explanation = explainQualityCheck(check);
+          return (
+            <li key={check.id} className="flex items-start gap-2 text-sm">
+              <span className={`material-symbol text-[18px] ${style.color}`}>{style.icon}</span>
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between gap-2">
+                  <span className="text-gray-200">{qualityCheckLabel(check.id)}</span>
+                  <span className="text-gray-500 tabular-nums">{formatValue(check.id, check.value)}</span>
+                </div>
+                {explanation && <p className="text-xs text-gray-400 leading-snug mt-0.5">{explanation}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default RecordingQualityPanel;
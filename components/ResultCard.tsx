@@ -1,13 +1,20 @@
 import React from 'react';
-import { HealthDomain } from '../types';
+import { HealthDomain, TaskEvidence } from '../types';
+import { DomainDefinition, concernForScore } from '../services/domainRegistry';
+import { ReferenceCohort, getDomainPercentile } from '../services/referenceNorms';
+import { getVoiceTask, taskLabel } from '../services/voiceProtocol';
+import { concernName, describeCohortLocalised, domainName, formatNumber, formatPercentileLabel, t } from '../services/i18n';
 
 interface ResultCardProps {
-  title: string;
+  domain: DomainDefinition;
   data: HealthDomain;
   delay: number;
+  cohort?: ReferenceCohort;
+  // Guided-protocol tasks behind this domain's indicators.
+  evidence?: TaskEvidence[];
 }
 
-const ResultCard: React.FC<ResultCardProps> = ({ title, data, delay }) => {
+const ResultCard: React.FC<ResultCardProps> = ({ domain, data, delay, cohort, evidence = [] }) => {
   const getStatusColor = (level: string) => {
     switch (level) {
       case 'low': return 'text-emerald-300 bg-emerald-900/30';
@@ -19,29 +26,20 @@ const ResultCard: React.FC<ResultCardProps> = ({ title, data, delay }) => {
   };
 
   const getBarColor = (score: number) => {
-    if (score >= 80) return 'bg-emerald-400';
-    if (score >= 60) return 'bg-yellow-400';
-    if (score >= 40) return 'bg-orange-400';
-    return 'bg-red-400';
-  };
-
-  const getIcon = (title: string) => {
-    switch (title.toLowerCase()) {
-      case 'neurological': return 'psychology'; // Brain/Mind
-      case 'mental_health': return 'mood'; // Face/Mood
-      case 'respiratory': return 'air'; // Breath/Air
-      case 'cardiovascular': return 'monitor_heart'; // Heart rate monitor
-      case 'metabolic': return 'bolt'; // Energy/Power
-      case 'hydration': return 'water_drop'; // Water
-      default: return 'health_and_safety';
+    switch (concernForScore(domain, score)) {
+      case 'low': return 'bg-emerald-400';
+      case 'moderate': return 'bg-yellow-400';
+      case 'elevated': return 'bg-orange-400';
+      default: return 'bg-red-400';
     }
   };
-  
-  // Format title: neurological -> Neurological
-  const formattedTitle = title.charAt(0).toUpperCase() + title.slice(1).replace('_', ' ');
 
-  // Mock population average (randomized slightly for realism between 70-85)
-  const populationAvg = 75 + (title.length % 10); 
+  const norm = getDomainPercentile(domain.id, data.score, cohort);
+
+  const taskFor = (indicator: string) => {
+    const match = evidence.find(e => e.indicator.trim().toLowerCase() === indicator.trim().toLowerCase());
+    return match ? getVoiceTask(match.task) : null;
+  };
 
   return (
     <div 
@@ -51,18 +49,18 @@ const ResultCard: React.FC<ResultCardProps> = ({ title, data, delay }) => {
       <div className="flex justify-between items-start mb-4">
         <div className="flex gap-3">
           <div className="w-10 h-10 rounded-full bg-[#1E1F20] border border-[#444746] flex items-center justify-center shrink-0">
-             <span className="material-symbol text-[#A8C7FA] text-[20px]">{getIcon(title)}</span>
+             <span className="material-symbol text-[#A8C7FA] text-[20px]">{domain.icon}</span>
           </div>
           <div>
-            <h3 className="text-[16px] font-medium text-gray-200 leading-tight">{formattedTitle}</h3>
+            <h3 className="text-[16px] font-medium text-gray-200 leading-tight">{domainName(domain.id)}</h3>
             <span className={`inline-flex items-center px-2 py-0.5 mt-1.5 rounded-md text-[10px] font-bold tracking-wide uppercase ${getStatusColor(data.concern_level)}`}>
-              {data.concern_level}
+              {concernName(data.concern_level)}
             </span>
           </div>
         </div>
-        <div className="text-right">
-          <span className="text-2xl font-bold text-white">{data.score}</span>
-          <span className="text-xs text-gray-400 block">/100</span>
+        <div className="text-end">
+          <span className="text-2xl font-bold text-white">{formatNumber(data.score)}</span>
+          <span className="text-xs text-gray-400 block">/{formatNumber(100)}</span>
         </div>
       </div>
       
@@ -76,31 +74,41 @@ const ResultCard: React.FC<ResultCardProps> = ({ title, data, delay }) => {
             />
         </div>
         
-        {/* Population Average Marker */}
-        <div 
-            className="absolute top-1 w-0.5 h-3.5 bg-white/50 z-10"
-            style={{ left: `${populationAvg}%` }}
-        >
-            <div className="opacity-0 group-hover:opacity-100 transition-opacity absolute bottom-full left-1/2 -translate-x-1/2 mb-1 bg-black/80 text-[10px] text-white px-1.5 py-0.5 rounded whitespace-nowrap">
-                Avg: {populationAvg}
-            </div>
-        </div>
+        {/* Cohort Median Marker */}
+        {norm && (
+          <div 
+              className="absolute top-1 w-0.5 h-3.5 bg-white/50 z-10"
+              style={{ insetInlineStart: `${norm.cohortMedian}%` }}
+          >
+              <div className="opacity-0 group-hover:opacity-100 transition-opacity absolute bottom-full left-1/2 -translate-x-1/2 mb-1 bg-black/80 text-[10px] text-white px-1.5 py-0.5 rounded whitespace-nowrap">
+                  {t('card.median', { value: norm.cohortMedian })}
+              </div>
+          </div>
+        )}
       </div>
       
       <div className="flex justify-between text-[10px] text-gray-500 mb-3">
-          <span>0</span>
-          <span>Population Avg</span>
-          <span>100</span>
+          <span>{formatNumber(0)}</span>
+          {norm ? (
+            <span>{formatPercentileLabel(norm.percentile)} · {describeCohortLocalised(cohort)}</span>
+          ) : (
+            <span>{t('card.noNorms')}</span>
+          )}
+          <span>{formatNumber(100)}</span>
       </div>
 
       <p className="text-[#C4C7C5] text-sm leading-relaxed mb-4">{data.explanation}</p>
       
       <div className="flex flex-wrap gap-2">
-        {data.indicators.map((indicator, idx) => (
-          <span key={idx} className="text-[11px] bg-[#1E1F20] border border-[#444746] text-gray-300 px-2.5 py-1 rounded-full">
-            {indicator}
-          </span>
-        ))}
+        {data.indicators.map((indicator, idx) => {
+          const task = taskFor(indicator);
+          return (
+            <span key={idx} title={task ? t('card.fromTask', { task: taskLabel(task.id) }) : undefined} className="text-[11px] bg-[#1E1F20] border border-[#444746] text-gray-300 px-2.5 py-1 rounded-full inline-flex items-center gap-1">
+              {task && <span className="material-symbol text-[13px] text-[#A8C7FA]">{task.icon}</span>}
+              {indicator}
+            </span>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,18 @@
+import React from 'react';
+
+interface RichMessageProps {
+  // A translated message with `{name}` placeholders still in it.
+  text: string;
+  values: Record<string, React.ReactNode>;
+}
+
+// Fills placeholders with markup, so a styled word can sit wherever the translation puts it.
+const RichMessage: React.FC<RichMessageProps> = ({ text, values }) => (
+  <>
+    {text.split(/\{(\w+)\}/).map((part, i) =>
+      i % 2 === 1 ? <React.Fragment key={i}>{values[part] ?? `{${part}}`}</React.Fragment> : part
+    )}
+  </>
+);
+
+export default RichMessage;
@@ -0,0 +1,116 @@
+import React from 'react';
+import { ModelUsage } from '../types';
+import { estimateCost, getUsageLog, sumUsage, todayUsage, usageByDay, UsageTotals } from '../services/usageService';
+import { formatDate, formatDateTime, formatNumber, t } from '../services/i18n';
+
+interface UsagePanelProps {
+  // Model calls behind the results on screen: the analysis, then chat and transcriptions.
+  screeningUsage: ModelUsage[];
+  onClose: () => void;
+}
+
+const formatCost = (cost: number) =>
+  formatNumber(cost, { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 4 });
+
+const Totals: React.FC<{ totals: UsageTotals }> = ({ totals }) => (
+  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+    {[
+      [t('usage.calls'), formatNumber(totals.calls)],
+      [t('usage.promptTokens'), formatNumber(totals.promptTokens)],
+      [t('usage.outputTokens'), formatNumber(totals.outputTokens)],
+      [t('usage.estimatedCost'), formatCost(totals.estimatedCost)]
+    ].map(([label, value]) => (
+      <div key={label} className="bg-[#131314] border border-[#444746] rounded-xl p-3">
+        <div className="text-[11px] text-gray-400">{label}</div>
+        <div className="text-lg text-white font-medium">{value}</div>
+      </div>
+    ))}
+    {totals.unpricedCalls > 0 && <p className="col-span-full text-[11px] text-yellow-400">{t('usage.unpriced', { count: totals.unpricedCalls })}</p>}
+  </div>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ screeningUsage, onClose }) => {
+  const log = getUsageLog();
+  const days = usageByDay(log);
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-[#1E1F20] w-full max-w-2xl rounded-[24px] border border-[#444746] shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-[#444746] flex justify-between items-center">
+          <h2 className="text-2xl font-normal text-white flex items-center gap-2">
+            <span className="material-symbol text-[#A8C7FA]">token</span>
+            {t('usage.title')}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <span className="material-symbol">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium text-[#A8C7FA]">{t('usage.screening')}</h3>
+            {screeningUsage.length === 0 ? (
+              <p className="text-sm text-gray-400">{t('usage.empty')}</p>
+            ) : (
+              <>
+                <Totals totals={sumUsage(screeningUsage)} />
+                <table className="w-full text-xs text-gray-300">
+                  <thead className="text-gray-500 text-start">
+                    <tr>
+                      <th className="text-start font-normal py-1">{t('usage.call')}</th>
+                      <th className="text-end font-normal py-1">{t('usage.audioTokens')}</th>
+                      <th className="text-end font-normal py-1">{t('usage.imageTokens')}</th>
+                      <th className="text-end font-normal py-1">{t('usage.totalTokens')}</th>
+                      <th className="text-end font-normal py-1">{t('usage.estimatedCost')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {screeningUsage.map((usage: ModelUsage, i: number) => {
+                      const cost = estimateCost(usage);
+                      return (
+                        <tr key={`${usage.at}-${i}`} className="border-t border-[#444746]/60">
+                          <td className="py-1.5">{t(`usage.kind.${usage.kind}`)} <span className="text-gray-500">{formatDateTime(usage.at)}</span></td>
+                          <td className="text-end">{usage.promptTokensByModality?.audio !== undefined ? formatNumber(usage.promptTokensByModality.audio) : '–'}</td>
+                          <td className="text-end">{usage.promptTokensByModality?.image !== undefined ? formatNumber(usage.promptTokensByModality.image) : '–'}</td>
+                          <td className="text-end">{formatNumber(usage.totalTokens)}</td>
+                          <td className="text-end">{cost === null ? '–' : formatCost(cost)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium text-[#A8C7FA]">{t('usage.today')}</h3>
+            <Totals totals={todayUsage(log)} />
+          </section>
+
+          {days.length > 0 && (
+            <section className="space-y-3">
+              <h3 className="text-sm font-medium text-[#A8C7FA]">{t('usage.recentDays')}</h3>
+              <table className="w-full text-xs text-gray-300">
+                <tbody>
+                  {days.map(day => (
+                    <tr key={day.day} className="border-t border-[#444746]/60">
+                      <td className="py-1.5">{formatDate(new Date(`${day.day}T00:00`).getTime())}</td>
+                      <td className="text-end">{t('usage.callCount', { count: day.calls })}</td>
+                      <td className="text-end">{formatNumber(day.totalTokens)}</td>
+                      <td className="text-end">{formatCost(day.estimatedCost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          <p className="text-[11px] text-gray-500 leading-relaxed">{t('usage.disclaimer')}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
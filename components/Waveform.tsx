@@ -1,11 +1,21 @@
 import React, { useEffect, useState } from 'react';
+import { RecordingCondition } from '../services/liveCoaching';
 
 interface WaveformProps {
   isRecording: boolean;
   audioLevel?: number; // 0 to 1 normalized
-  quality?: 'good' | 'low' | 'silent' | 'idle';
+  quality?: RecordingCondition;
 }
 
+// Bar colour per live coaching condition; idle and listening keep the brand gradient.
+const CONDITION_COLORS: Partial<Record<RecordingCondition, string>> = {
+  good: '#34D399', // Emerald 400
+  too_loud: '#EF4444', // Red 500
+  noisy: '#FB923C', // Orange 400
+  too_far: '#FACC15', // Yellow 400
+  silence: '#9CA3AF', // Gray 400
+};
+
 const Waveform: React.FC<WaveformProps> = ({ isRecording, audioLevel = 0, quality = 'idle' }) => {
   const [bars, setBars] = useState<number[]>(new Array(24).fill(10));
 
@@ -32,12 +42,7 @@ const Waveform: React.FC<WaveformProps> = ({ isRecording, audioLevel = 0, qualit
   const getBarColor = (index: number) => {
     if (!isRecording) return index % 2 === 0 ? '#4285F4' : '#9B72CB';
 
-    switch (quality) {
-      case 'good': return '#34D399'; // Emerald 400
-      case 'low': return '#FACC15'; // Yellow 400
-      case 'silent': return '#EF4444'; // Red 500
-      default: return index % 2 === 0 ? '#4285F4' : '#9B72CB';
-    }
+    return CONDITION_COLORS[quality] ?? (index % 2 === 0 ? '#4285F4' : '#9B72CB');
   };
 
   return (
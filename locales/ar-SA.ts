@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const arSA: Messages = {
+  // --- Common ---
+  'common.cancel': "إلغاء",
+  'common.backHome': "العودة إلى الرئيسية",
+  'common.microphoneRequired': "يلزم السماح بالوصول إلى الميكروفون.",
+
+  // --- Recording checks ---
+  'audio.empty': "فشل التسجيل (ملف فارغ).",
+  'audio.tooShort': "التسجيل قصير جدًا. يلزم {seconds} ثانية على الأقل لتحليل دقيق.",
+  'audio.tooQuiet': "التسجيل منخفض جدًا. تحدّث بصوت أعلى أو اقترب من الميكروفون.",
+  'audio.noSpeech': "لم يُكتشف أي كلام. يُرجى التحدث بوضوح.",
+  'audio.unreadable': "تعذّر التحقق من الملف الصوتي.",
+  'audio.failed': "فشل التسجيل.",
+  'quality.title': "فحوصات التسجيل",
+  'quality.decodable': "ملف الصوت",
+  'quality.duration': "المدة",
+  'quality.speech': "الكلام",
+  'quality.level': "مستوى الصوت",
+  'quality.snr': "ضوضاء الخلفية",
+  'quality.clipping': "التشوّه",
+  'quality.dc_offset': "انحراف الميكروفون",
+  'quality.dropouts': "الانقطاعات",
+  'quality.speechShort': "اكتُشف {seconds} ث فقط من الكلام، والمطلوب {minimum} ث على الأقل. واصل الكلام حتى ينتهي المؤقت.",
+  'quality.noisy': "ضوضاء الخلفية قريبة جدًا من صوتك (أقل منه بـ {value} dB فقط). ابتعد عن المراوح وحركة المرور والأصوات الأخرى.",
+  'quality.clipped': "التسجيل مشوّه لأن مستوى الإدخال مرتفع جدًا. ابتعد قليلًا عن الميكروفون.",
+  'quality.dcOffset': "إشارة الميكروفون منحرفة عن المركز، وقد يدل ذلك على عطل في الميكروفون. جرّب ميكروفونًا آخر إذا تكرر ذلك.",
+  'quality.dropout': "انقطع الصوت لمدة {seconds} ث. تحقق من اتصال البلوتوث أو USB وسجّل مرة أخرى.",
+
+  // --- Modals ---
+  'limit.title': "تم بلوغ الحد اليومي",
+  'limit.body': "للحفاظ على توفر الخدمة وإدارة تكاليف البحث، نحدّ الاستخدام بـ {quota} لكل جهاز.",
+  'limit.quota': "{limit} فحوصات يوميًا",
+  'limit.resetsAt': "ستتوفر فحوصات إضافية اعتبارًا من {time}.",
+  'limit.sampleNote': "لا يزال بإمكانك استكشاف العرض التفاعلي بالبيانات النموذجية، ولا يُحتسب ذلك ضمن حدّك.",
+  'limit.ok': "فهمت",
+  'account.title': "رمز الحساب",
+  'account.hint': "هل لديك رمز حساب من دراستك أو مؤسستك؟ أدخله لاستخدام حدوده بدلًا من حدود هذا الجهاز.",
+  'account.placeholder': "الصق الرمز",
+  'account.save': "استخدام الرمز",
+  'account.checking': "جارٍ التحقق…",
+  'account.rejected': "لم يُقبل هذا الرمز.",
+  'account.active': "يتم استخدام رمز حساب (الفئة {tier})",
+  'account.remove': "إزالة",
+  'usage.title': "الاستخدام والتكلفة",
+  'usage.screening': "هذا الفحص",
+  'usage.today': "اليوم على هذا الجهاز",
+  'usage.recentDays': "الأيام الأخيرة",
+  'usage.empty': "لم تُسجَّل أي استدعاءات للنموذج لهذا الفحص.",
+  'usage.call': "الاستدعاء",
+  'usage.calls': "استدعاءات النموذج",
+  'usage.callCount': "{count} استدعاءات",
+  'usage.promptTokens': "رموز الإدخال",
+  'usage.outputTokens': "رموز الإخراج",
+  'usage.totalTokens': "إجمالي الرموز",
+  'usage.audioTokens': "رموز الصوت",
+  'usage.imageTokens': "رموز الصورة",
+  'usage.estimatedCost': "التكلفة التقديرية",
+  'usage.kind.analysis': "التحليل",
+  'usage.kind.chat': "رد المحادثة",
+  'usage.kind.transcription': "النسخ",
+  'usage.unpriced': "استخدم {count} استدعاءات نموذجًا غير موجود في جدول الأسعار ولم تُحتسب تكلفتها.",
+  'usage.disclaimer': "التكاليف تقديرات مبنية على الأسعار المعلنة لكل مليون رمز وليست فاتورة. لا تشمل الاستدعاءات من أجهزة أخرى أو قبل بدء تتبع الاستخدام.",
+
+  'tech.title': "البنية التقنية",
+  'tech.models': "نماذج الذكاء الاصطناعي المستخدمة",
+  'tech.flashDescription': "تحليل متعدد الوسائط منخفض الكمون للصوت (PCM) وإطارات الفيديو.",
+  'tech.proDescription': "استدلال معقد للربط السريري وتحليل الاتجاهات.",
+  'tech.pipeline': "مسار البيانات",
+  'tech.pipelineCapture': "التقاط الصوت الخام (WebM/PCM)",
+  'tech.pipelineEncoding': "ترميز Base64 على جهاز العميل",
+  'tech.pipelineRequest': "طلب متعدد الوسائط إلى Gemini API",
+  'tech.pipelineResponse': "استجابة JSON منظّمة",
+  'tech.sampleRequest': "مثال على طلب API",
+  'tech.footer': "مبني على أوراق بحثية في التحليل الصوتي للمؤشرات الحيوية للصوت في طب الأعصاب.",
+
+  // --- Intro ---
+  'intro.badge': "جاهز للتحقق السريري",
+  'intro.tagline': "فحص صحي متقدم مدعوم بـ {model}.",
+  'intro.selectedLanguage': "اللغة المختارة:",
+  'intro.watchDemo': "شاهد العرض",
+  'intro.start': "ابدأ الفحص",
+  'intro.sample': "جرّب ببيانات نموذجية (فوري)",
+  'intro.addProfile': "إضافة ملف شخصي",
+  'intro.editProfile': "تعديل الملف الشخصي",
+  'intro.trustedResearch': "أبحاث موثوقة",
+  'intro.privacyFirst': "الخصوصية أولًا",
+  'intro.secureProcessing': "معالجة آمنة",
+  'intro.viewArchitecture': "عرض البنية",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "المهمة {step} من {total} · {task}",
+  'recording.getReady': "استعد",
+  'recording.listening': "جارٍ الاستماع...",
+  'recording.goodVolume': "مستوى الصوت ممتاز",
+  'coach.tooLoud': "أبعد الميكروفون قليلاً",
+  'coach.noisy': "ضوضاء الخلفية مرتفعة جدًا",
+  'coach.tooFar': "اقترب من الميكروفون",
+  'coach.silence': "ابدأ التحدث عندما تكون مستعدًا",
+  'recording.usableSpeech': "{seconds} من {target} ث من الكلام الصالح",
+  'recording.stopEarly': "إيقاف مبكر",
+  'recording.start': "ابدأ التسجيل",
+  'recording.skipTask': "تخطَّ هذه المهمة",
+
+  'task.sustained_vowel.label': "حرف علة ممتد",
+  'task.sustained_vowel.instruction': "خذ نفسًا عميقًا، ثم قل \"آآآ\" لأطول مدة ممكنة بطبقة وشدة مريحتين.",
+  'task.ddk.label': "با-تا-كا",
+  'task.ddk.instruction': "كرّر \"با-تا-كا\" بأسرع ما يمكن وبوضوح حتى ينتهي المؤقت.",
+  'task.reading.label': "قراءة فقرة",
+  'task.reading.instruction': "اقرأ هذه الفقرة بصوت عالٍ بسرعتك المعتادة:",
+  'task.free_speech.label': "كلام حر",
+  'task.free_speech.instruction': "أجب بكلماتك الخاصة:",
+  'task.vowelNoVoice': "لم يُكتشف صوت ثابت. حافظ على صوت \"آآآ\" واحد دون همس.",
+  'task.vowelInterrupted': "انقطع الصوت. خذ نفسًا أولًا، ثم حافظ على \"آآآ\" في نفس واحد.",
+  'task.ddkTooFew': "اكتُشفت مقاطع قليلة جدًا. كرّر \"با-تا-كا\" دون توقف وبأسرع ما يمكن.",
+  'task.readingSilent': "اكتُشف صمت في الغالب. اقرأ الفقرة كاملة بصوت عالٍ من بدايتها.",
+
+  // --- Face capture ---
+  'face.title': "إضافة تحليل الوجه؟",
+  'face.body': "يستطيع VitalVoice تحليل المؤشرات الحيوية للوجه (الشحوب، علامات الجفاف، التناظر) لرفع الدقة بنسبة تصل إلى 15%.",
+  'face.enableCamera': "تشغيل الكاميرا",
+  'face.skip': "تخطَّ الآن",
+  'face.centerHint': "ضع وجهك في المنتصف تحت إضاءة جيدة",
+  'face.noFace': "انظر مباشرة إلى الكاميرا",
+  'face.moreLight': "أضف مزيدًا من الإضاءة على وجهك",
+  'face.lessLight': "الإضاءة قوية جدًا: ابتعد عن الضوء المباشر",
+  'face.evenLight': "تجنّب الضوء من خلفك أو الظلال الحادة",
+  'face.moveCloser': "اقترب أكثر",
+  'face.moveBack': "ابتعد قليلاً",
+  'face.centre': "ضع وجهك في منتصف الإطار",
+  'face.holdStill': "ابقَ ثابتًا",
+  'face.neutralLight': "استخدم ضوءًا أبيض محايدًا",
+  'face.ready': "الصورة جيدة: التقطها الآن",
+  'face.rejected': "لا يمكن استخدام هذه الصورة. {reason}",
+  'face.cameraNotReady': "لا تزال الكاميرا قيد التشغيل. حاول مرة أخرى بعد لحظة.",
+  'face.captureFailed': "تعذّر فحص الصورة. حاول مرة أخرى أو تخطَّ هذه الخطوة.",
+
+  // --- Upload ---
+  'upload.title': "رفع البيانات",
+  'upload.voiceLabel': "عينة صوتية (مطلوبة)",
+  'upload.tapToChange': "اضغط للتغيير",
+  'upload.selectAudio': "اختر ملفًا صوتيًا",
+  'upload.audioFormats': "يدعم MP3 وWAV وM4A",
+  'upload.imageLabel': "صورة الوجه (اختيارية)",
+  'upload.preview': "معاينة",
+  'upload.imageSelected': "تم اختيار الصورة",
+  'upload.selectImage': "اختر صورة",
+  'upload.imageFormats': "يدعم JPG وPNG",
+  'upload.analyze': "تحليل البيانات",
+  'upload.batch': "التحقق من مجموعة بيانات (دفعة)",
+
+  // --- Analyzing ---
+  'analyzing.title': "جارٍ معالجة البيانات الصحية",
+  'analyzing.step1': "استخراج المؤشرات الحيوية الصوتية...",
+  'analyzing.step2': "تحليل أنماط الكلام...",
+  'analyzing.step3': "تقييم خصائص الصوت...",
+  'analyzing.step4': "المقارنة مع البيانات متعددة الوسائط...",
+  'analyzing.step5': "إعداد توصيات مخصصة لك...",
+  'analyzing.retrying': "مشكلة في الاتصال، جارٍ إعادة المحاولة (المحاولة {attempt})...",
+  'analyzing.footer': "معالجة في بيئة آمنة",
+
+  // --- Analysis errors ---
+  'error.quota.title': "الخدمة مشغولة",
+  'error.safety.title': "تم حظر التحليل",
+  'error.network.title': "مشكلة في الاتصال",
+  'error.invalid_input.title': "تعذّرت قراءة التسجيل",
+  'error.malformed_output.title': "تحليل غير مكتمل",
+  'error.quota': "خدمة التحليل تعمل بكامل طاقتها حاليًا. انتظر بضع دقائق ثم حاول مجددًا.",
+  'error.safety': "حظرت مرشحات أمان المحتوى التحليل. أعد التسجيل دون وسائط في الخلفية أو أصوات أخرى.",
+  'error.network': "تعذّر الوصول إلى خدمة التحليل. تحقق من اتصالك ثم حاول مجددًا.",
+  'error.invalidInput': "تعذّرت معالجة التسجيل. أعد التسجيل أو اختر ملفًا آخر.",
+  'error.malformedOutput': "عاد التحليل غير مكتمل. يُرجى المحاولة مجددًا.",
+  'error.cancelled': "تم إلغاء التحليل.",
+  'error.unknown': "حدث خطأ أثناء التحليل. يُرجى المحاولة مجددًا.",
+  'error.retry': "حاول مجددًا",
+  'error.recordAgain': "سجّل مجددًا",
+  'error.chooseFile': "اختر ملفًا آخر",
+  'error.viewSample': "عرض نتائج نموذجية",
+  'error.keptRecording': "تم الاحتفاظ بتسجيلك، فلا حاجة لإعادة التسجيل.",
+  'error.keptFile': "تم الاحتفاظ بملفك، فلا حاجة لرفعه مجددًا.",
+
+  // --- Results ---
+  'results.newScan': "فحص جديد",
+  'results.history': "السجل",
+  'results.usage': "الاستخدام",
+  'results.exportPdf': "تصدير PDF",
+  'results.exportFhir': "تصدير FHIR",
+  'results.exportFhirFailed': "تعذّر إنشاء ملف FHIR. حاول مجددًا أو صدّر ملف PDF بدلًا منه.",
+  'results.exportJson': "تصدير JSON",
+  'results.includeMedia': "تضمين التسجيل والصورة",
+  'results.includeMediaHint': "سيحتوي الملف على صوتك ووجهك. شاركه فقط مع من تثق بهم.",
+  'results.download': "تنزيل",
+  'results.overallScore': "مؤشر العافية العام",
+  'results.confidence': "الثقة: {level}",
+  'results.summary': "الملخص",
+  'results.recommendations': "التوصيات",
+  'results.trends': "الاتجاهات",
+  'results.improving': "في تحسّن",
+  'results.stable': "مستقر",
+  'results.needsAttention': "يحتاج إلى انتباه",
+  'results.firstScreening': "هذا أول فحص محفوظ لك. أجرِ فحصًا آخر لاحقًا لرؤية الاتجاهات.",
+  'results.profileNoChange': "تم أخذ ملفك الشخصي في الاعتبار، لكنه لم يغيّر تفسير هذه النتائج.",
+  'results.voiceTasks': "المهام الصوتية",
+  'results.disclaimer': "هذه أداة فحص وليست تشخيصًا طبيًا. استشر أخصائي رعاية صحية بشأن أي مخاوف.",
+
+  'report.title': "تقرير الفحص السريري",
+  'report.scoreOverview': "نظرة عامة على الدرجات",
+  'report.concernLevel': "مستوى القلق",
+  'report.capturedImage': "الصورة الملتقطة",
+  'report.domainAnalysis': "تحليل المجالات",
+  'report.comparedWith': "المئينات مقارنة بـ: {cohort}",
+  'report.scoreTrends': "اتجاهات الدرجات",
+  'report.keyObservations': "الملاحظات الرئيسية",
+  'report.significance': "الأهمية:",
+  'report.reason': "السبب:",
+  'report.disclaimer': "إخلاء المسؤولية:",
+  'report.page': "الصفحة {page} من {count}",
+  'report.generatedBy': "أُنشئ بواسطة VitalVoice AI المدعوم من Gemini",
+
+  'confidence.low': "منخفضة",
+  'confidence.medium': "متوسطة",
+  'confidence.high': "عالية",
+  'concern.low': "منخفض",
+  'concern.moderate': "معتدل",
+  'concern.elevated': "مرتفع",
+  'concern.high': "عالٍ",
+  'urgency.routine': "روتيني",
+  'urgency.soon': "قريبًا",
+  'urgency.prompt': "عاجل",
+
+  'domain.neurological': "عصبي",
+  'domain.mental_health': "الصحة النفسية",
+  'domain.respiratory': "تنفسي",
+  'domain.cardiovascular': "قلبي وعائي",
+  'domain.metabolic': "استقلابي",
+  'domain.hydration': "الترطيب",
+  'domain.sleep_fatigue': "النوم والإرهاق",
+  'domain.cognitive_load': "العبء الإدراكي",
+
+  'card.median': "الوسيط: {value}",
+  'card.percentile': "المئين {value}",
+  'card.noNorms': "لا توجد معايير مرجعية",
+  'card.fromTask': "من مهمة {task}",
+
+  'cohort.women': "نساء {band}",
+  'cohort.men': "رجال {band}",
+  'cohort.adults': "بالغون {band}",
+  'cohort.allWomen': "جميع النساء",
+  'cohort.allMen': "جميع الرجال",
+  'cohort.allAdults': "جميع البالغين",
+
+  'biomarkers.title': "المؤشرات الحيوية المقيسة",
+  'biomarkers.computed': "حُسبت على هذا الجهاز من {seconds} ثانية من الصوت.",
+  'biomarkers.f0Mean': "متوسط طبقة الصوت (F0)",
+  'biomarkers.pitchRange': "مدى طبقة الصوت",
+  'biomarkers.jitter': "الارتعاش (Jitter)",
+  'biomarkers.shimmer': "التذبذب (Shimmer)",
+  'biomarkers.hnr': "نسبة التوافقيات إلى الضوضاء",
+  'biomarkers.pauseRatio': "نسبة التوقفات",
+  'biomarkers.syllableRate': "معدل المقاطع",
+
+  // --- Chat ---
+  'chat.title': "مساعد VitalVoice",
+  'chat.limitReached': "تم بلوغ حد الجلسة",
+  'chat.remaining': "الرسائل المتبقية: {count}",
+  'chat.clear': "مسح المحادثة",
+  'chat.empty': "اطلب مني شرح أي مصطلح طبي أو تقديم نصائح إضافية للعافية!",
+  'chat.transcribing': "جارٍ النسخ…",
+  'chat.noTranscript': "لا يوجد نص مكتوب، لذا لن ترى الردود اللاحقة هذه الرسالة",
+  'chat.interrupted': "انقطع الرد",
+  'chat.locked': "تم بلوغ حد المحادثة لهذه الجلسة. أعد بدء التحليل لمواصلة الحديث.",
+  'chat.placeholder': "اكتب رسالة...",
+  'chat.stop': "إيقاف إنشاء الرد",
+  'chat.stopped': "*تم إيقاف الرد.*",
+  'chat.noResponse': "تعذّرت معالجة هذا الرد.",
+  'chat.connectionError': "أواجه مشكلة في الاتصال بخوادم VitalVoice حاليًا. يُرجى المحاولة مرة أخرى.",
+
+  // --- History ---
+  'history.title': "سجل الفحوصات",
+  'history.empty': "لا توجد فحوصات محفوظة بعد. تُحفظ الفحوصات المكتملة على هذا الجهاز.",
+  'history.delete': "حذف الفحص",
+  'history.import': "استيراد",
+  'history.exportCsv': "تصدير CSV",
+  'history.importFailed': "تعذّر استيراد هذا الملف. اختر ملف JSON مُصدَّرًا من VitalVoice.",
+  'history.notAnExport': "هذا الملف ليس تصدير فحص من VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "ملفك الشخصي",
+  'profile.intro': "جميع الحقول اختيارية. تساعد إجاباتك في تفسير صوتك، مثل طبقة الصوت المعتادة لعمرك، وتحدد مع من تُقارن نتائجك. تُحفظ على هذا الجهاز فقط.",
+  'profile.age': "العمر",
+  'profile.agePlaceholder': "مثل 52",
+  'profile.ageInvalid': "أدخل عمرًا بين 18 و120.",
+  'profile.sexAtBirth': "الجنس عند الولادة",
+  'profile.notSpecified': "غير محدد",
+  'profile.female': "أنثى",
+  'profile.male': "ذكر",
+  'profile.smoking': "التدخين",
+  'profile.never': "أبدًا",
+  'profile.former': "مدخن سابق",
+  'profile.current': "مدخن حالي",
+  'profile.respiratory': "أمراض تنفسية معروفة",
+  'profile.respiratoryPlaceholder': "مثل الربو، الانسداد الرئوي المزمن",
+  'profile.neurological': "أمراض عصبية معروفة",
+  'profile.neurologicalPlaceholder': "مثل الصداع النصفي، مرض باركنسون",
+  'profile.medications': "الأدوية الحالية",
+  'profile.medicationsPlaceholder': "افصل بينها بفواصل",
+  'profile.clear': "مسح الملف الشخصي",
+  'profile.save': "حفظ",
+
+  'profileField.age': "العمر",
+  'profileField.sexAtBirth': "الجنس عند الولادة",
+  'profileField.smoker': "التدخين",
+  'profileField.respiratoryConditions': "الأمراض التنفسية",
+  'profileField.neurologicalConditions': "الأمراض العصبية",
+  'profileField.medications': "الأدوية",
+
+  // --- Batch validation ---
+  'batch.title': "التحقق بالدفعات",
+  'batch.intro': "حلّل مجلدًا من التسجيلات مقابل بيان CSV يحتوي على التصنيفات الصحيحة. يحتاج البيان إلى عمود {file} وعمود لكل معرّف مجال (1 = الحالة موجودة، 0 = غير موجودة)، مع درجات مرجعية اختيارية {score}. يُحفظ التقدم، فيستأنف التشغيل المتوقف من حيث توقف.",
+  'batch.selectFolder': "اختر مجلد الصوت",
+  'batch.audioFiles': "الملفات الصوتية: {count}",
+  'batch.selectManifest': "اختر بيان CSV",
+  'batch.manifestSummary': "الصفوف: {rows} · المجالات: {domains}",
+  'batch.manifestUnreadable': "تعذّرت قراءة البيان.",
+  'batch.manifestEmpty': "ملف البيان فارغ.",
+  'batch.manifestNoFileColumn': "يحتاج ملف البيان إلى عمود {file} يذكر اسم كل ملف صوتي.",
+  'batch.manifestNoDomains': "لا يحتوي ملف البيان على أعمدة مجالات. سمِّها بمعرّف المجال، مثل {label} أو {score}.",
+  'batch.manifestNoRows': "لا يسرد ملف البيان أي ملفات.",
+  'batch.ignoredColumn': "تم تجاهل العمود \"{column}\": ليس معرّف مجال.",
+  'batch.noFileName': "السطر {line}: لا يوجد اسم ملف، تم التخطي.",
+  'batch.duplicateFile': "السطر {line}: \"{file}\" مدرج مرتين، ويُستخدم الصف الأول فقط.",
+  'batch.invalidLabel': "السطر {line}: \"{value}\" ليست تسمية لـ {domain}، تُركت فارغة.",
+  'batch.invalidScore': "السطر {line}: \"{value}\" ليست رقمًا لـ {column}، تُركت فارغة.",
+  'batch.missingFiles': "ملفات البيان غير الموجودة في المجلد: {count}",
+  'batch.warnings': "تحذيرات البيان",
+  'batch.warningCount': "التحذيرات: {count}",
+  'batch.missing': "مفقود: {file}",
+  'batch.parallel': "الطلبات المتوازية",
+  'batch.startOver': "البدء من جديد",
+  'batch.resume': "استئناف (متبقٍ {count})",
+  'batch.run': "تشغيل كل الملفات ({count})",
+  'batch.stop': "إيقاف",
+  'batch.stopping': "جارٍ الإيقاف…",
+  'batch.progress': "تم تحليله: {done} · فشل: {failed} (تُعاد المحاولة عند الاستئناف)",
+  'batch.fileTotal': "الملفات: {count}",
+  'batch.accuracy': "الدقة لكل مجال",
+  'batch.csv': "CSV",
+  'batch.report': "التقرير",
+  'batch.domain': "المجال",
+  'batch.matrixHint': "إيجابي صحيح / إيجابي كاذب / سلبي كاذب / سلبي صحيح",
+  'batch.sensitivity': "الحساسية",
+  'batch.specificity': "النوعية",
+  'batch.correlation': "الارتباط",
+  'batch.pointBiserialHint': "معامل r ثنائي التسلسل النقطي مقابل التصنيف؛ القيمة السالبة تعني درجات أقل في الحالات الإيجابية",
+  'batch.pearsonHint': "معامل بيرسون r مقابل الدرجة المرجعية",
+  'batch.vsLabel': "مقابل التصنيف",
+  'batch.vsReference': "مقابل المرجع",
+  'batch.footnote': "تُحسب الحساسية والنوعية من الملفات التي تحمل تصنيفًا لذلك المجال.",
+};
+
+export default arSA;
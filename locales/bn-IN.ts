@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const bnIN: Messages = {
+  // --- Common ---
+  'common.cancel': "বাতিল",
+  'common.backHome': "হোমে ফিরে যান",
+  'common.microphoneRequired': "মাইক্রোফোন ব্যবহারের অনুমতি প্রয়োজন।",
+
+  // --- Recording checks ---
+  'audio.empty': "রেকর্ডিং ব্যর্থ হয়েছে (খালি ফাইল)।",
+  'audio.tooShort': "রেকর্ডিং খুব ছোট। সঠিক বিশ্লেষণের জন্য অন্তত {seconds} সেকেন্ড দরকার।",
+  'audio.tooQuiet': "রেকর্ডিং খুব আস্তে। আরও জোরে বলুন বা মাইক্রোফোনের কাছে আসুন।",
+  'audio.noSpeech': "কোনো কথা শোনা যায়নি। স্পষ্ট করে বলুন।",
+  'audio.unreadable': "অডিও ফাইল যাচাই করা যায়নি।",
+  'audio.failed': "রেকর্ডিং ব্যর্থ হয়েছে।",
+  'quality.title': "রেকর্ডিং যাচাই",
+  'quality.decodable': "অডিও ফাইল",
+  'quality.duration': "দৈর্ঘ্য",
+  'quality.speech': "কথা",
+  'quality.level': "কণ্ঠের মাত্রা",
+  'quality.snr': "পটভূমির শব্দ",
+  'quality.clipping': "বিকৃতি",
+  'quality.dc_offset': "মাইক্রোফোন অফসেট",
+  'quality.dropouts': "বিচ্ছিন্নতা",
+  'quality.speechShort': "মাত্র {seconds} সেকেন্ড কথা শনাক্ত হয়েছে; অন্তত {minimum} সেকেন্ড দরকার। টাইমার শেষ না হওয়া পর্যন্ত কথা বলুন।",
+  'quality.noisy': "পটভূমির শব্দ আপনার কণ্ঠের খুব কাছাকাছি (মাত্র {value} dB কম)। পাখা, যানবাহন বা অন্য কণ্ঠ থেকে দূরে যান।",
+  'quality.clipped': "ইনপুট খুব জোরে হওয়ায় রেকর্ডিং বিকৃত হয়েছে। মাইক্রোফোন থেকে একটু দূরে সরুন।",
+  'quality.dcOffset': "মাইক্রোফোনের সংকেত কেন্দ্র থেকে সরে আছে, যা ত্রুটিপূর্ণ মাইক্রোফোনের লক্ষণ হতে পারে। বারবার হলে অন্য মাইক্রোফোন ব্যবহার করুন।",
+  'quality.dropout': "অডিও {seconds} সেকেন্ডের জন্য বিচ্ছিন্ন হয়েছিল। ব্লুটুথ বা USB সংযোগ পরীক্ষা করে আবার রেকর্ড করুন।",
+
+  // --- Modals ---
+  'limit.title': "দৈনিক সীমা পূর্ণ",
+  'limit.body': "পরিষেবা চালু রাখতে ও গবেষণার খরচ সামলাতে আমরা প্রতিটি ডিভাইসে ব্যবহার {quota} পর্যন্ত সীমিত রাখি।",
+  'limit.quota': "দিনে {limit}টি স্ক্রিনিং",
+  'limit.resetsAt': "{time} থেকে আরও স্ক্রিনিং উপলব্ধ হবে।",
+  'limit.sampleNote': "আপনি এখনও নমুনা ডেটা দিয়ে ইন্টারঅ্যাক্টিভ ডেমো দেখতে পারেন, এটি আপনার সীমায় গোনা হয় না।",
+  'limit.ok': "বুঝেছি",
+  'account.title': "অ্যাকাউন্ট টোকেন",
+  'account.hint': "আপনার গবেষণা বা প্রতিষ্ঠান থেকে অ্যাকাউন্ট টোকেন আছে? এই ডিভাইসের বদলে তার সীমা ব্যবহার করতে সেটি লিখুন।",
+  'account.placeholder': "আপনার টোকেন পেস্ট করুন",
+  'account.save': "টোকেন ব্যবহার করুন",
+  'account.checking': "যাচাই করা হচ্ছে…",
+  'account.rejected': "এই টোকেনটি গ্রহণ করা হয়নি।",
+  'account.active': "অ্যাকাউন্ট টোকেন ব্যবহার হচ্ছে ({tier} স্তর)",
+  'account.remove': "সরান",
+  'usage.title': "ব্যবহার ও খরচ",
+  'usage.screening': "এই স্ক্রিনিং",
+  'usage.today': "আজ এই ডিভাইসে",
+  'usage.recentDays': "সাম্প্রতিক দিনগুলি",
+  'usage.empty': "এই স্ক্রিনিংয়ের জন্য কোনো মডেল কল রেকর্ড হয়নি।",
+  'usage.call': "কল",
+  'usage.calls': "মডেল কল",
+  'usage.callCount': "{count}টি কল",
+  'usage.promptTokens': "ইনপুট টোকেন",
+  'usage.outputTokens': "আউটপুট টোকেন",
+  'usage.totalTokens': "মোট টোকেন",
+  'usage.audioTokens': "অডিও টোকেন",
+  'usage.imageTokens': "ছবির টোকেন",
+  'usage.estimatedCost': "আনুমানিক খরচ",
+  'usage.kind.analysis': "বিশ্লেষণ",
+  'usage.kind.chat': "চ্যাটের উত্তর",
+  'usage.kind.transcription': "ট্রান্সক্রিপশন",
+  'usage.unpriced': "{count}টি কলে মূল্য তালিকায় নেই এমন মডেল ব্যবহৃত হয়েছে, তাই সেগুলির খরচ ধরা হয়নি।",
+  'usage.disclaimer': "খরচ প্রতি দশ লক্ষ টোকেনের তালিকা মূল্য থেকে অনুমান, বিল নয়। অন্য ডিভাইসে বা ব্যবহার ট্র্যাকিংয়ের আগে করা কল অন্তর্ভুক্ত নয়।",
+
+  'tech.title': "প্রযুক্তিগত কাঠামো",
+  'tech.models': "ব্যবহৃত AI মডেল",
+  'tech.flashDescription': "অডিও (PCM) ও ভিডিও ফ্রেমের কম বিলম্বের মাল্টিমোডাল বিশ্লেষণ।",
+  'tech.proDescription': "ক্লিনিক্যাল সম্পর্ক ও প্রবণতা বিশ্লেষণের জন্য জটিল যুক্তি।",
+  'tech.pipeline': "ডেটা পাইপলাইন",
+  'tech.pipelineCapture': "র অডিও (WebM/PCM) ক্যাপচার",
+  'tech.pipelineEncoding': "ক্লায়েন্টে Base64 এনকোডিং",
+  'tech.pipelineRequest': "Gemini API মাল্টিমোডাল অনুরোধ",
+  'tech.pipelineResponse': "কাঠামোবদ্ধ JSON উত্তর",
+  'tech.sampleRequest': "API অনুরোধের উদাহরণ",
+  'tech.footer': "স্নায়ুবিজ্ঞানে কণ্ঠস্বরের বায়োমার্কারের শব্দতাত্ত্বিক বিশ্লেষণ নিয়ে গবেষণাপত্রের ভিত্তিতে তৈরি।",
+
+  // --- Intro ---
+  'intro.badge': "ক্লিনিক্যাল বৈধতার জন্য প্রস্তুত",
+  'intro.tagline': "{model} চালিত উন্নত স্বাস্থ্য স্ক্রিনিং।",
+  'intro.selectedLanguage': "নির্বাচিত ভাষা:",
+  'intro.watchDemo': "ডেমো দেখুন",
+  'intro.start': "স্ক্রিনিং শুরু করুন",
+  'intro.sample': "নমুনা ডেটা দিয়ে চেষ্টা করুন (তাৎক্ষণিক)",
+  'intro.addProfile': "প্রোফাইল যোগ করুন",
+  'intro.editProfile': "প্রোফাইল সম্পাদনা",
+  'intro.trustedResearch': "বিশ্বস্ত গবেষণা",
+  'intro.privacyFirst': "গোপনীয়তা আগে",
+  'intro.secureProcessing': "নিরাপদ প্রক্রিয়াকরণ",
+  'intro.viewArchitecture': "কাঠামো দেখুন",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "কাজ {step} / {total} · {task}",
+  'recording.getReady': "প্রস্তুত হন",
+  'recording.listening': "শুনছে...",
+  'recording.goodVolume': "আওয়াজ একদম ঠিক",
+  'coach.tooLoud': "মাইক্রোফোনটি একটু দূরে সরান",
+  'coach.noisy': "পেছনের আওয়াজ খুব বেশি",
+  'coach.tooFar': "মাইক্রোফোনের আরও কাছে আসুন",
+  'coach.silence': "প্রস্তুত হলে কথা বলা শুরু করুন",
+  'recording.usableSpeech': "{target} সেকেন্ডের মধ্যে {seconds} সেকেন্ড ব্যবহারযোগ্য কথা",
+  'recording.stopEarly': "আগেই থামান",
+  'recording.start': "রেকর্ডিং শুরু করুন",
+  'recording.skipTask': "এই কাজটি বাদ দিন",
+
+  'task.sustained_vowel.label': "দীর্ঘ স্বরধ্বনি",
+  'task.sustained_vowel.instruction': "গভীর শ্বাস নিন, তারপর আরামদায়ক সুর ও আওয়াজে যতক্ষণ পারেন \"আ...\" বলুন।",
+  'task.ddk.label': "পা-টা-কা",
+  'task.ddk.instruction': "টাইমার শেষ না হওয়া পর্যন্ত যত দ্রুত ও স্পষ্টভাবে পারেন \"পা-টা-কা\" বলতে থাকুন।",
+  'task.reading.label': "অনুচ্ছেদ পাঠ",
+  'task.reading.instruction': "স্বাভাবিক গতিতে এই অনুচ্ছেদটি জোরে পড়ুন:",
+  'task.free_speech.label': "মুক্ত কথা",
+  'task.free_speech.instruction': "নিজের ভাষায় উত্তর দিন:",
+  'task.vowelNoVoice': "স্থির কণ্ঠস্বর পাওয়া যায়নি। ফিসফিস না করে একটানা একটি \"আ...\" ধ্বনি ধরে রাখুন।",
+  'task.vowelInterrupted': "ধ্বনিটি থেমে গেছে। আগে শ্বাস নিন, তারপর এক শ্বাসে \"আ...\" ধরে রাখুন।",
+  'task.ddkTooFew': "খুব কম অক্ষর পাওয়া গেছে। না থেমে যত দ্রুত পারেন \"পা-টা-কা\" বলতে থাকুন।",
+  'task.readingSilent': "বেশিরভাগই নীরবতা পাওয়া গেছে। শুরু থেকে পুরো অনুচ্ছেদটি জোরে পড়ুন।",
+
+  // --- Face capture ---
+  'face.title': "মুখের বিশ্লেষণ যোগ করবেন?",
+  'face.body': "VitalVoice মুখের বায়োমার্কার (ফ্যাকাশে ভাব, জলশূন্যতার লক্ষণ, প্রতিসাম্য) বিশ্লেষণ করে নির্ভুলতা ১৫% পর্যন্ত বাড়াতে পারে।",
+  'face.enableCamera': "ক্যামেরা চালু করুন",
+  'face.skip': "এখন বাদ দিন",
+  'face.centerHint': "ভালো আলোয় মুখটি মাঝখানে রাখুন",
+  'face.noFace': "সরাসরি ক্যামেরার দিকে তাকান",
+  'face.moreLight': "মুখে আরও আলো দিন",
+  'face.lessLight': "খুব উজ্জ্বল: সরাসরি আলো থেকে সরে যান",
+  'face.evenLight': "পেছনের আলো বা তীব্র ছায়া এড়িয়ে চলুন",
+  'face.moveCloser': "আরও কাছে আসুন",
+  'face.moveBack': "একটু পিছিয়ে যান",
+  'face.centre': "মুখ ফ্রেমের মাঝখানে রাখুন",
+  'face.holdStill': "স্থির থাকুন",
+  'face.neutralLight': "সাধারণ সাদা আলো ব্যবহার করুন",
+  'face.ready': "ঠিক আছে: ছবি তুলুন",
+  'face.rejected': "এই ছবিটি ব্যবহার করা যাবে না। {reason}",
+  'face.cameraNotReady': "ক্যামেরা এখনও চালু হচ্ছে। একটু পরে আবার চেষ্টা করুন।",
+  'face.captureFailed': "ছবিটি যাচাই করা যায়নি। আবার চেষ্টা করুন, অথবা এই ধাপটি বাদ দিন।",
+
+  // --- Upload ---
+  'upload.title': "ডেটা আপলোড করুন",
+  'upload.voiceLabel': "কণ্ঠস্বরের নমুনা (আবশ্যক)",
+  'upload.tapToChange': "বদলাতে ট্যাপ করুন",
+  'upload.selectAudio': "অডিও ফাইল বাছুন",
+  'upload.audioFormats': "MP3, WAV, M4A সমর্থিত",
+  'upload.imageLabel': "মুখের ছবি (ঐচ্ছিক)",
+  'upload.preview': "প্রিভিউ",
+  'upload.imageSelected': "ছবি বাছাই হয়েছে",
+  'upload.selectImage': "ছবি বাছুন",
+  'upload.imageFormats': "JPG, PNG সমর্থিত",
+  'upload.analyze': "ডেটা বিশ্লেষণ করুন",
+  'upload.batch': "ডেটাসেট যাচাই করুন (ব্যাচ)",
+
+  // --- Analyzing ---
+  'analyzing.title': "স্বাস্থ্য ডেটা প্রক্রিয়া হচ্ছে",
+  'analyzing.step1': "কণ্ঠস্বরের বায়োমার্কার বের করা হচ্ছে...",
+  'analyzing.step2': "কথা বলার ধরন বিশ্লেষণ করা হচ্ছে...",
+  'analyzing.step3': "কণ্ঠের বৈশিষ্ট্য মূল্যায়ন করা হচ্ছে...",
+  'analyzing.step4': "মাল্টিমোডাল ডেটার সঙ্গে মেলানো হচ্ছে...",
+  'analyzing.step5': "আপনার জন্য ব্যক্তিগত পরামর্শ তৈরি হচ্ছে...",
+  'analyzing.retrying': "সংযোগে সমস্যা, আবার চেষ্টা করা হচ্ছে (প্রচেষ্টা {attempt})...",
+  'analyzing.footer': "নিরাপদ পরিবেশে প্রক্রিয়াকরণ",
+
+  // --- Analysis errors ---
+  'error.quota.title': "পরিষেবা ব্যস্ত",
+  'error.safety.title': "বিশ্লেষণ আটকানো হয়েছে",
+  'error.network.title': "সংযোগে সমস্যা",
+  'error.invalid_input.title': "রেকর্ডিং পড়া যায়নি",
+  'error.malformed_output.title': "অসম্পূর্ণ বিশ্লেষণ",
+  'error.quota': "বিশ্লেষণ পরিষেবা এখন পূর্ণ ক্ষমতায় চলছে। কয়েক মিনিট অপেক্ষা করে আবার চেষ্টা করুন।",
+  'error.safety': "কনটেন্ট নিরাপত্তা ফিল্টার বিশ্লেষণটি আটকে দিয়েছে। পেছনের মিডিয়া বা অন্য কণ্ঠস্বর ছাড়া আবার রেকর্ড করুন।",
+  'error.network': "বিশ্লেষণ পরিষেবায় পৌঁছানো যায়নি। সংযোগ দেখে আবার চেষ্টা করুন।",
+  'error.invalidInput': "রেকর্ডিংটি প্রক্রিয়া করা যায়নি। আবার রেকর্ড করুন বা অন্য ফাইল বাছুন।",
+  'error.malformedOutput': "বিশ্লেষণ অসম্পূর্ণ এসেছে। আবার চেষ্টা করুন।",
+  'error.cancelled': "বিশ্লেষণ বাতিল হয়েছে।",
+  'error.unknown': "বিশ্লেষণের সময় কিছু ভুল হয়েছে। আবার চেষ্টা করুন।",
+  'error.retry': "আবার চেষ্টা করুন",
+  'error.recordAgain': "আবার রেকর্ড করুন",
+  'error.chooseFile': "অন্য ফাইল বাছুন",
+  'error.viewSample': "নমুনা ফলাফল দেখুন",
+  'error.keptRecording': "আপনার রেকর্ডিং রাখা আছে, তাই আবার রেকর্ড করার দরকার নেই।",
+  'error.keptFile': "আপনার ফাইল রাখা আছে, তাই আবার আপলোড করার দরকার নেই।",
+
+  // --- Results ---
+  'results.newScan': "নতুন স্ক্রিনিং",
+  'results.history': "ইতিহাস",
+  'results.usage': "ব্যবহার",
+  'results.exportPdf': "PDF রপ্তানি",
+  'results.exportFhir': "FHIR রপ্তানি",
+  'results.exportFhirFailed': "FHIR রপ্তানি তৈরি করা যায়নি। আবার চেষ্টা করুন বা এর বদলে PDF রপ্তানি করুন।",
+  'results.exportJson': "JSON রপ্তানি",
+  'results.includeMedia': "রেকর্ডিং ও ছবি অন্তর্ভুক্ত করুন",
+  'results.includeMediaHint': "ফাইলে আপনার কণ্ঠস্বর ও মুখ থাকবে। শুধু বিশ্বস্ত মানুষের সঙ্গে শেয়ার করুন।",
+  'results.download': "ডাউনলোড",
+  'results.overallScore': "সামগ্রিক সুস্থতা স্কোর",
+  'results.confidence': "আস্থা: {level}",
+  'results.summary': "সারসংক্ষেপ",
+  'results.recommendations': "পরামর্শ",
+  'results.trends': "প্রবণতা",
+  'results.improving': "উন্নতি হচ্ছে",
+  'results.stable': "স্থিতিশীল",
+  'results.needsAttention': "মনোযোগ দরকার",
+  'results.firstScreening': "এটি আপনার প্রথম সংরক্ষিত স্ক্রিনিং। আবার স্ক্রিনিং করলে প্রবণতা দেখা যাবে।",
+  'results.profileNoChange': "আপনার প্রোফাইল বিবেচনা করা হয়েছে, কিন্তু এতে ফলাফলের ব্যাখ্যা বদলায়নি।",
+  'results.voiceTasks': "কণ্ঠের কাজ",
+  'results.disclaimer': "এটি একটি স্ক্রিনিং টুল, চিকিৎসা নির্ণয় নয়। যেকোনো উদ্বেগের বিষয়ে একজন স্বাস্থ্যসেবা পেশাদারের পরামর্শ নিন।",
+
+  'report.title': "ক্লিনিক্যাল স্ক্রিনিং রিপোর্ট",
+  'report.scoreOverview': "স্কোরের সারসংক্ষেপ",
+  'report.concernLevel': "উদ্বেগের মাত্রা",
+  'report.capturedImage': "তোলা ছবি",
+  'report.domainAnalysis': "ক্ষেত্রভিত্তিক বিশ্লেষণ",
+  'report.comparedWith': "পার্সেন্টাইলের তুলনা: {cohort}",
+  'report.scoreTrends': "স্কোরের প্রবণতা",
+  'report.keyObservations': "মূল পর্যবেক্ষণ",
+  'report.significance': "তাৎপর্য:",
+  'report.reason': "কারণ:",
+  'report.disclaimer': "দাবিত্যাগ:",
+  'report.page': "পৃষ্ঠা {page} / {count}",
+  'report.generatedBy': "Gemini চালিত VitalVoice AI দ্বারা তৈরি",
+
+  'confidence.low': "কম",
+  'confidence.medium': "মাঝারি",
+  'confidence.high': "উচ্চ",
+  'concern.low': "কম",
+  'concern.moderate': "মাঝারি",
+  'concern.elevated': "বাড়তি",
+  'concern.high': "উচ্চ",
+  'urgency.routine': "নিয়মিত",
+  'urgency.soon': "শিগগিরই",
+  'urgency.prompt': "দ্রুত",
+
+  'domain.neurological': "স্নায়বিক",
+  'domain.mental_health': "মানসিক স্বাস্থ্য",
+  'domain.respiratory': "শ্বাসতন্ত্র",
+  'domain.cardiovascular': "হৃদ্‌যন্ত্র ও রক্তসংবহন",
+  'domain.metabolic': "বিপাক",
+  'domain.hydration': "জলীয় অবস্থা",
+  'domain.sleep_fatigue': "ঘুম ও ক্লান্তি",
+  'domain.cognitive_load': "মানসিক চাপের ভার",
+
+  'card.median': "মধ্যমা: {value}",
+  'card.percentile': "{value}তম পার্সেন্টাইল",
+  'card.noNorms': "কোনো রেফারেন্স মান নেই",
+  'card.fromTask': "{task} কাজ থেকে",
+
+  'cohort.women': "নারী {band}",
+  'cohort.men': "পুরুষ {band}",
+  'cohort.adults': "প্রাপ্তবয়স্ক {band}",
+  'cohort.allWomen': "সব নারী",
+  'cohort.allMen': "সব পুরুষ",
+  'cohort.allAdults': "সব প্রাপ্তবয়স্ক",
+
+  'biomarkers.title': "মাপা বায়োমার্কার",
+  'biomarkers.computed': "এই ডিভাইসেই {seconds} সেকেন্ডের অডিও থেকে গণনা করা হয়েছে।",
+  'biomarkers.f0Mean': "গড় পিচ (F0)",
+  'biomarkers.pitchRange': "পিচের পরিসর",
+  'biomarkers.jitter': "জিটার",
+  'biomarkers.shimmer': "শিমার",
+  'biomarkers.hnr': "হারমোনিক-শব্দদূষণ অনুপাত",
+  'biomarkers.pauseRatio': "বিরতির অনুপাত",
+  'biomarkers.syllableRate': "অক্ষরের হার",
+
+  // --- Chat ---
+  'chat.title': "VitalVoice সহকারী",
+  'chat.limitReached': "সেশনের সীমা পূর্ণ",
+  'chat.remaining': "বাকি বার্তা: {count}",
+  'chat.clear': "চ্যাট মুছুন",
+  'chat.empty': "যেকোনো চিকিৎসা-শব্দের ব্যাখ্যা বা আরও সুস্থতার টিপস চাইতে পারেন!",
+  'chat.transcribing': "লিখিত রূপ তৈরি হচ্ছে…",
+  'chat.noTranscript': "লিখিত রূপ নেই, তাই পরের উত্তরগুলো এই বার্তা দেখতে পাবে না",
+  'chat.interrupted': "উত্তর মাঝপথে থেমে গেছে",
+  'chat.locked': "এই সেশনের চ্যাট সীমা পূর্ণ। আরও কথা বলতে বিশ্লেষণ আবার শুরু করুন।",
+  'chat.placeholder': "বার্তা লিখুন...",
+  'chat.stop': "উত্তর তৈরি থামান",
+  'chat.stopped': "*উত্তর বন্ধ করা হয়েছে।*",
+  'chat.noResponse': "এই উত্তরটি প্রক্রিয়া করা যায়নি।",
+  'chat.connectionError': "এই মুহূর্তে VitalVoice সার্ভারের সঙ্গে সংযোগ করতে সমস্যা হচ্ছে। আবার চেষ্টা করুন।",
+
+  // --- History ---
+  'history.title': "স্ক্রিনিংয়ের ইতিহাস",
+  'history.empty': "এখনও কোনো স্ক্রিনিং সংরক্ষিত হয়নি। সম্পূর্ণ স্ক্রিনিং এই ডিভাইসে সংরক্ষিত থাকে।",
+  'history.delete': "স্ক্রিনিং মুছুন",
+  'history.import': "আমদানি",
+  'history.exportCsv': "CSV রপ্তানি",
+  'history.importFailed': "এই ফাইলটি আমদানি করা যায়নি। VitalVoice থেকে রপ্তানি করা একটি JSON ফাইল বেছে নিন।",
+  'history.notAnExport': "এই ফাইলটি VitalVoice স্ক্রিনিং এক্সপোর্ট নয়।",
+
+  // --- Profile ---
+  'profile.title': "আপনার প্রোফাইল",
+  'profile.intro': "সব ঘর ঐচ্ছিক। আপনার উত্তর আপনার কণ্ঠস্বর বুঝতে সাহায্য করে, যেমন আপনার বয়সে কোন পিচ স্বাভাবিক, এবং কাদের সঙ্গে আপনার স্কোর তুলনা হবে তা ঠিক করে। এগুলো শুধু এই ডিভাইসেই সংরক্ষিত থাকে।",
+  'profile.age': "বয়স",
+  'profile.agePlaceholder': "যেমন ৫২",
+  'profile.ageInvalid': "১৮ থেকে ১২০-এর মধ্যে বয়স লিখুন।",
+  'profile.sexAtBirth': "জন্মকালীন লিঙ্গ",
+  'profile.notSpecified': "উল্লেখ নেই",
+  'profile.female': "নারী",
+  'profile.male': "পুরুষ",
+  'profile.smoking': "ধূমপান",
+  'profile.never': "কখনও না",
+  'profile.former': "আগে করতেন",
+  'profile.current': "এখন করেন",
+  'profile.respiratory': "জানা শ্বাসতন্ত্রের রোগ",
+  'profile.respiratoryPlaceholder': "যেমন হাঁপানি, COPD",
+  'profile.neurological': "জানা স্নায়বিক রোগ",
+  'profile.neurologicalPlaceholder': "যেমন মাইগ্রেন, পারকিনসন্‌স রোগ",
+  'profile.medications': "বর্তমান ওষুধ",
+  'profile.medicationsPlaceholder': "কমা দিয়ে আলাদা করুন",
+  'profile.clear': "প্রোফাইল মুছুন",
+  'profile.save': "সংরক্ষণ",
+
+  'profileField.age': "বয়স",
+  'profileField.sexAtBirth': "জন্মকালীন লিঙ্গ",
+  'profileField.smoker': "ধূমপান",
+  'profileField.respiratoryConditions': "শ্বাসতন্ত্রের রোগ",
+  'profileField.neurologicalConditions': "স্নায়বিক রোগ",
+  'profileField.medications': "ওষুধ",
+
+  // --- Batch validation ---
+  'batch.title': "ব্যাচ যাচাই",
+  'batch.intro': "সঠিক লেবেলসহ একটি CSV ম্যানিফেস্টের সঙ্গে মিলিয়ে রেকর্ডিংয়ের একটি ফোল্ডার বিশ্লেষণ করুন। ম্যানিফেস্টে একটি {file} কলাম এবং প্রতিটি ডোমেন id-র জন্য একটি কলাম (1 = অবস্থা আছে, 0 = নেই) দরকার, সঙ্গে ঐচ্ছিক {score} রেফারেন্স স্কোর থাকতে পারে। অগ্রগতি সংরক্ষিত হয়, তাই থেমে যাওয়া রান যেখানে থেমেছিল সেখান থেকেই চলে।",
+  'batch.selectFolder': "অডিও ফোল্ডার বাছুন",
+  'batch.audioFiles': "অডিও ফাইল: {count}",
+  'batch.selectManifest': "CSV ম্যানিফেস্ট বাছুন",
+  'batch.manifestSummary': "সারি: {rows} · ডোমেন: {domains}",
+  'batch.manifestUnreadable': "ম্যানিফেস্ট পড়া যায়নি।",
+  'batch.manifestEmpty': "ম্যানিফেস্ট খালি।",
+  'batch.manifestNoFileColumn': "ম্যানিফেস্টে প্রতিটি অডিও ফাইলের নামসহ একটি {file} কলাম প্রয়োজন।",
+  'batch.manifestNoDomains': "ম্যানিফেস্টে কোনো ক্ষেত্রের কলাম নেই। ক্ষেত্রের আইডি দিয়ে নাম দিন, যেমন {label} বা {score}।",
+  'batch.manifestNoRows': "ম্যানিফেস্টে কোনো ফাইল নেই।",
+  'batch.ignoredColumn': "\"{column}\" কলাম উপেক্ষা করা হয়েছে: এটি ক্ষেত্রের আইডি নয়।",
+  'batch.noFileName': "লাইন {line}: ফাইলের নাম নেই, বাদ দেওয়া হয়েছে।",
+  'batch.duplicateFile': "লাইন {line}: \"{file}\" দুবার আছে, শুধু প্রথম সারি ব্যবহার করা হয়েছে।",
+  'batch.invalidLabel': "লাইন {line}: \"{value}\" {domain}-এর লেবেল নয়, ফাঁকা রাখা হয়েছে।",
+  'batch.invalidScore': "লাইন {line}: \"{value}\" {column}-এর জন্য সংখ্যা নয়, ফাঁকা রাখা হয়েছে।",
+  'batch.missingFiles': "ফোল্ডারে পাওয়া যায়নি এমন ম্যানিফেস্ট ফাইল: {count}",
+  'batch.warnings': "ম্যানিফেস্টের সতর্কবার্তা",
+  'batch.warningCount': "সতর্কবার্তা: {count}",
+  'batch.missing': "নেই: {file}",
+  'batch.parallel': "সমান্তরাল অনুরোধ",
+  'batch.startOver': "আবার শুরু করুন",
+  'batch.resume': "চালিয়ে যান ({count} বাকি)",
+  'batch.run': "সব ফাইল চালান ({count})",
+  'batch.stop': "থামান",
+  'batch.stopping': "থামানো হচ্ছে…",
+  'batch.progress': "বিশ্লেষিত: {done} · ব্যর্থ: {failed} (চালিয়ে গেলে আবার চেষ্টা)",
+  'batch.fileTotal': "ফাইল: {count}",
+  'batch.accuracy': "ডোমেন অনুযায়ী নির্ভুলতা",
+  'batch.csv': "CSV",
+  'batch.report': "রিপোর্ট",
+  'batch.domain': "ডোমেন",
+  'batch.matrixHint': "সত্য পজিটিভ / মিথ্যা পজিটিভ / মিথ্যা নেগেটিভ / সত্য নেগেটিভ",
+  'batch.sensitivity': "সংবেদনশীলতা",
+  'batch.specificity': "নির্দিষ্টতা",
+  'batch.correlation': "সহসম্পর্ক",
+  'batch.pointBiserialHint': "লেবেলের সাপেক্ষে পয়েন্ট-বাইসিরিয়াল r; ঋণাত্মক মানে পজিটিভ ক্ষেত্রে কম স্কোর",
+  'batch.pearsonHint': "রেফারেন্স স্কোরের সাপেক্ষে পিয়ারসন r",
+  'batch.vsLabel': "বনাম লেবেল",
+  'batch.vsReference': "বনাম রেফারেন্স",
+  'batch.footnote': "সংবেদনশীলতা ও নির্দিষ্টতা সেই ডোমেনের লেবেল থাকা ফাইল থেকে গণনা করা হয়।",
+};
+
+export default bnIN;
@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const deDE: Messages = {
+  // --- Common ---
+  'common.cancel': "Abbrechen",
+  'common.backHome': "Zur Startseite",
+  'common.microphoneRequired': "Mikrofonzugriff ist erforderlich.",
+
+  // --- Recording checks ---
+  'audio.empty': "Aufnahme fehlgeschlagen (leere Datei).",
+  'audio.tooShort': "Aufnahme zu kurz. Für eine zuverlässige Analyse sind mindestens {seconds} Sekunden nötig.",
+  'audio.tooQuiet': "Aufnahme zu leise. Bitte sprechen Sie lauter oder gehen Sie näher an das Mikrofon.",
+  'audio.noSpeech': "Keine Sprache erkannt. Bitte sprechen Sie deutlich.",
+  'audio.unreadable': "Die Audiodatei konnte nicht geprüft werden.",
+  'audio.failed': "Aufnahme fehlgeschlagen.",
+  'quality.title': "Aufnahmeprüfung",
+  'quality.decodable': "Audiodatei",
+  'quality.duration': "Länge",
+  'quality.speech': "Sprache",
+  'quality.level': "Sprachpegel",
+  'quality.snr': "Hintergrundgeräusche",
+  'quality.clipping': "Verzerrung",
+  'quality.dc_offset': "Mikrofon-Offset",
+  'quality.dropouts': "Aussetzer",
+  'quality.speechShort': "Nur {seconds} s Sprache erkannt; mindestens {minimum} s sind nötig. Sprich weiter, bis der Timer abläuft.",
+  'quality.noisy': "Die Hintergrundgeräusche liegen zu nah an deiner Stimme (nur {value} dB leiser). Entferne dich von Lüftern, Verkehr oder anderen Stimmen.",
+  'quality.clipped': "Die Aufnahme ist verzerrt, weil das Eingangssignal zu laut ist. Geh etwas weiter vom Mikrofon weg.",
+  'quality.dcOffset': "Das Mikrofonsignal ist nicht mittig, was auf ein defektes Mikrofon hindeuten kann. Versuche ein anderes, wenn das öfter passiert.",
+  'quality.dropout': "Der Ton ist für {seconds} s ausgefallen. Prüfe Bluetooth- oder USB-Verbindungen und nimm erneut auf.",
+
+  // --- Modals ---
+  'limit.title': "Tageslimit erreicht",
+  'limit.body': "Um die Verfügbarkeit des Dienstes zu sichern und die Forschungskosten zu begrenzen, ist die Nutzung auf {quota} pro Gerät beschränkt.",
+  'limit.quota': "{limit} Screenings pro Tag",
+  'limit.resetsAt': "Weitere Screenings sind ab {time} möglich.",
+  'limit.sampleNote': "Die interaktive Demo mit Beispieldaten können Sie weiterhin ansehen; sie wird nicht auf Ihr Kontingent angerechnet.",
+  'limit.ok': "Verstanden",
+  'account.title': "Konto-Token",
+  'account.hint': "Sie haben ein Konto-Token von Ihrer Studie oder Organisation? Geben Sie es ein, um dessen Limits statt der dieses Geräts zu nutzen.",
+  'account.placeholder': "Token einfügen",
+  'account.save': "Token verwenden",
+  'account.checking': "Wird geprüft…",
+  'account.rejected': "Dieses Token wurde nicht akzeptiert.",
+  'account.active': "Konto-Token aktiv (Stufe {tier})",
+  'account.remove': "Entfernen",
+  'usage.title': "Nutzung und Kosten",
+  'usage.screening': "Dieses Screening",
+  'usage.today': "Heute auf diesem Gerät",
+  'usage.recentDays': "Letzte Tage",
+  'usage.empty': "Für dieses Screening wurden keine Modellaufrufe erfasst.",
+  'usage.call': "Aufruf",
+  'usage.calls': "Modellaufrufe",
+  'usage.callCount': "{count} Aufrufe",
+  'usage.promptTokens': "Eingabe-Tokens",
+  'usage.outputTokens': "Ausgabe-Tokens",
+  'usage.totalTokens': "Tokens gesamt",
+  'usage.audioTokens': "Audio-Tokens",
+  'usage.imageTokens': "Bild-Tokens",
+  'usage.estimatedCost': "Geschätzte Kosten",
+  'usage.kind.analysis': "Analyse",
+  'usage.kind.chat': "Chat-Antwort",
+  'usage.kind.transcription': "Transkription",
+  'usage.unpriced': "{count} Aufrufe nutzten ein Modell, das nicht in der Preistabelle steht, und sind nicht eingerechnet.",
+  'usage.disclaimer': "Die Kosten sind Schätzungen auf Basis von Listenpreisen pro Million Tokens, keine Rechnung. Aufrufe auf anderen Geräten oder vor Beginn der Erfassung sind nicht enthalten.",
+
+  'tech.title': "Technische Architektur",
+  'tech.models': "Verwendete KI-Modelle",
+  'tech.flashDescription': "Multimodale Analyse von Audio (PCM) und Videobildern mit geringer Latenz.",
+  'tech.proDescription': "Komplexes Schlussfolgern für klinische Korrelation und Trendanalyse.",
+  'tech.pipeline': "Datenpipeline",
+  'tech.pipelineCapture': "Aufnahme von Rohaudio (WebM/PCM)",
+  'tech.pipelineEncoding': "Base64-Kodierung im Client",
+  'tech.pipelineRequest': "Multimodale Anfrage an die Gemini-API",
+  'tech.pipelineResponse': "Strukturierte JSON-Antwort",
+  'tech.sampleRequest': "Beispiel einer API-Anfrage",
+  'tech.footer': "Basiert auf Forschungsarbeiten zur akustischen Analyse vokaler Biomarker in der Neurologie.",
+
+  // --- Intro ---
+  'intro.badge': "Bereit für klinische Validierung",
+  'intro.tagline': "Fortschrittliches Gesundheits-Screening mit {model}.",
+  'intro.selectedLanguage': "Gewählte Sprache:",
+  'intro.watchDemo': "Demo ansehen",
+  'intro.start': "Screening starten",
+  'intro.sample': "Mit Beispieldaten testen (sofort)",
+  'intro.addProfile': "Profil anlegen",
+  'intro.editProfile': "Profil bearbeiten",
+  'intro.trustedResearch': "Vertrauenswürdige Forschung",
+  'intro.privacyFirst': "Datenschutz zuerst",
+  'intro.secureProcessing': "Sichere Verarbeitung",
+  'intro.viewArchitecture': "Architektur ansehen",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Aufgabe {step} von {total} · {task}",
+  'recording.getReady': "Machen Sie sich bereit",
+  'recording.listening': "Hört zu...",
+  'recording.goodVolume': "Perfekte Lautstärke",
+  'coach.tooLoud': "Mikrofon etwas weiter weg halten",
+  'coach.noisy': "Zu viele Hintergrundgeräusche",
+  'coach.tooFar': "Näher ans Mikrofon gehen",
+  'coach.silence': "Beginnen Sie zu sprechen, wenn Sie bereit sind",
+  'recording.usableSpeech': "{seconds} von {target} s verwertbare Sprache",
+  'recording.stopEarly': "Vorzeitig beenden",
+  'recording.start': "Aufnahme starten",
+  'recording.skipTask': "Aufgabe überspringen",
+
+  'task.sustained_vowel.label': "Gehaltener Vokal",
+  'task.sustained_vowel.instruction': "Atmen Sie tief ein und sagen Sie dann „aaah“ in angenehmer Tonhöhe und Lautstärke, so lange Sie können.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Wiederholen Sie „pa-ta-ka“ so schnell und deutlich wie möglich, bis der Timer abläuft.",
+  'task.reading.label': "Lesetext",
+  'task.reading.instruction': "Lesen Sie diesen Text in Ihrem normalen Tempo laut vor:",
+  'task.free_speech.label': "Freies Sprechen",
+  'task.free_speech.instruction': "Antworten Sie in eigenen Worten:",
+  'task.vowelNoVoice': "Keine gleichmäßige Stimme erkannt. Halten Sie ein einzelnes „aaah“, ohne zu flüstern.",
+  'task.vowelInterrupted': "Der Ton wurde unterbrochen. Atmen Sie zuerst ein und halten Sie dann „aaah“ in einem Atemzug.",
+  'task.ddkTooFew': "Zu wenige Silben erkannt. Wiederholen Sie „pa-ta-ka“ ohne Pause und so schnell Sie können.",
+  'task.readingSilent': "Überwiegend Stille erkannt. Lesen Sie den ganzen Text von Anfang an laut vor.",
+
+  // --- Face capture ---
+  'face.title': "Visuelle Analyse hinzufügen?",
+  'face.body': "VitalVoice kann Gesichts-Biomarker (Blässe, Anzeichen der Hydration, Symmetrie) analysieren und so die Genauigkeit um bis zu 15 % verbessern.",
+  'face.enableCamera': "Kamera aktivieren",
+  'face.skip': "Jetzt überspringen",
+  'face.centerHint': "Gesicht bei gutem Licht mittig ausrichten",
+  'face.noFace': "Direkt in die Kamera schauen",
+  'face.moreLight': "Mehr Licht auf das Gesicht",
+  'face.lessLight': "Zu hell: Aus dem direkten Licht gehen",
+  'face.evenLight': "Gegenlicht und harte Schatten vermeiden",
+  'face.moveCloser': "Näher herankommen",
+  'face.moveBack': "Etwas zurückgehen",
+  'face.centre': "Gesicht im Bild zentrieren",
+  'face.holdStill': "Stillhalten",
+  'face.neutralLight': "Neutrales weißes Licht verwenden",
+  'face.ready': "Sieht gut aus: Foto aufnehmen",
+  'face.rejected': "Dieses Foto kann nicht verwendet werden. {reason}",
+  'face.cameraNotReady': "Die Kamera startet noch. Versuchen Sie es gleich noch einmal.",
+  'face.captureFailed': "Das Foto konnte nicht geprüft werden. Versuchen Sie es erneut oder überspringen Sie diesen Schritt.",
+
+  // --- Upload ---
+  'upload.title': "Daten hochladen",
+  'upload.voiceLabel': "Sprachprobe (erforderlich)",
+  'upload.tapToChange': "Zum Ändern tippen",
+  'upload.selectAudio': "Audiodatei auswählen",
+  'upload.audioFormats': "MP3, WAV und M4A werden unterstützt",
+  'upload.imageLabel': "Gesichtsbild (optional)",
+  'upload.preview': "Vorschau",
+  'upload.imageSelected': "Bild ausgewählt",
+  'upload.selectImage': "Bild auswählen",
+  'upload.imageFormats': "JPG und PNG werden unterstützt",
+  'upload.analyze': "Daten analysieren",
+  'upload.batch': "Datensatz validieren (Batch)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Gesundheitsdaten werden verarbeitet",
+  'analyzing.step1': "Stimm-Biomarker werden extrahiert...",
+  'analyzing.step2': "Sprechmuster werden analysiert...",
+  'analyzing.step3': "Stimmmerkmale werden bewertet...",
+  'analyzing.step4': "Abgleich mit multimodalen Daten...",
+  'analyzing.step5': "Persönliche Hinweise werden erstellt...",
+  'analyzing.retrying': "Verbindungsproblem, neuer Versuch (Versuch {attempt})...",
+  'analyzing.footer': "Verarbeitung in sicherer Umgebung",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Dienst ausgelastet",
+  'error.safety.title': "Analyse blockiert",
+  'error.network.title': "Verbindungsproblem",
+  'error.invalid_input.title': "Aufnahme nicht lesbar",
+  'error.malformed_output.title': "Unvollständige Analyse",
+  'error.quota': "Der Analysedienst ist gerade ausgelastet. Bitte warten Sie einige Minuten und versuchen Sie es erneut.",
+  'error.safety': "Die Analyse wurde von Inhaltssicherheitsfiltern blockiert. Nehmen Sie erneut ohne Hintergrundmedien oder andere Stimmen auf.",
+  'error.network': "Der Analysedienst war nicht erreichbar. Prüfen Sie Ihre Verbindung und versuchen Sie es erneut.",
+  'error.invalidInput': "Die Aufnahme konnte nicht verarbeitet werden. Nehmen Sie erneut auf oder wählen Sie eine andere Datei.",
+  'error.malformedOutput': "Die Analyse kam unvollständig zurück. Bitte versuchen Sie es erneut.",
+  'error.cancelled': "Analyse abgebrochen.",
+  'error.unknown': "Bei der Analyse ist ein Fehler aufgetreten. Bitte versuchen Sie es erneut.",
+  'error.retry': "Erneut versuchen",
+  'error.recordAgain': "Neu aufnehmen",
+  'error.chooseFile': "Andere Datei wählen",
+  'error.viewSample': "Beispielergebnisse ansehen",
+  'error.keptRecording': "Ihre Aufnahme bleibt erhalten, Sie müssen nicht neu aufnehmen.",
+  'error.keptFile': "Ihre Datei bleibt erhalten, Sie müssen sie nicht erneut hochladen.",
+
+  // --- Results ---
+  'results.newScan': "Neues Screening",
+  'results.history': "Verlauf",
+  'results.usage': "Nutzung",
+  'results.exportPdf': "PDF exportieren",
+  'results.exportFhir': "FHIR exportieren",
+  'results.exportFhirFailed': "Der FHIR-Export konnte nicht erstellt werden. Versuche es erneut oder exportiere stattdessen ein PDF.",
+  'results.exportJson': "JSON exportieren",
+  'results.includeMedia': "Aufnahme und Foto einschließen",
+  'results.includeMediaHint': "Die Datei enthält deine Stimme und dein Gesicht. Teile sie nur mit Personen, denen du vertraust.",
+  'results.download': "Herunterladen",
+  'results.overallScore': "Gesamt-Wellness-Score",
+  'results.confidence': "Konfidenz: {level}",
+  'results.summary': "Zusammenfassung",
+  'results.recommendations': "Empfehlungen",
+  'results.trends': "Trends",
+  'results.improving': "Verbessert sich",
+  'results.stable': "Stabil",
+  'results.needsAttention': "Beobachten",
+  'results.firstScreening': "Dies ist Ihr erstes gespeichertes Screening. Trends erscheinen nach einem weiteren Screening.",
+  'results.profileNoChange': "Ihr Profil wurde berücksichtigt, hat die Deutung dieser Ergebnisse aber nicht verändert.",
+  'results.voiceTasks': "Sprachaufgaben",
+  'results.disclaimer': "Dies ist ein Screening-Werkzeug und keine medizinische Diagnose. Wenden Sie sich bei Bedenken an medizinisches Fachpersonal.",
+
+  'report.title': "Klinischer Screening-Bericht",
+  'report.scoreOverview': "Punkteübersicht",
+  'report.concernLevel': "Auffälligkeitsgrad",
+  'report.capturedImage': "Aufgenommenes Bild",
+  'report.domainAnalysis': "Analyse nach Bereichen",
+  'report.comparedWith': "Perzentile im Vergleich mit: {cohort}",
+  'report.scoreTrends': "Punkteverlauf",
+  'report.keyObservations': "Wichtige Beobachtungen",
+  'report.significance': "Bedeutung:",
+  'report.reason': "Grund:",
+  'report.disclaimer': "HAFTUNGSAUSSCHLUSS:",
+  'report.page': "Seite {page} von {count}",
+  'report.generatedBy': "Erstellt von VitalVoice AI mit Gemini",
+
+  'confidence.low': "Niedrig",
+  'confidence.medium': "Mittel",
+  'confidence.high': "Hoch",
+  'concern.low': "Niedrig",
+  'concern.moderate': "Mäßig",
+  'concern.elevated': "Erhöht",
+  'concern.high': "Hoch",
+  'urgency.routine': "Routine",
+  'urgency.soon': "Bald",
+  'urgency.prompt': "Zeitnah",
+
+  'domain.neurological': "Neurologisch",
+  'domain.mental_health': "Psychische Gesundheit",
+  'domain.respiratory': "Atemwege",
+  'domain.cardiovascular': "Herz-Kreislauf",
+  'domain.metabolic': "Stoffwechsel",
+  'domain.hydration': "Hydration",
+  'domain.sleep_fatigue': "Schlaf & Müdigkeit",
+  'domain.cognitive_load': "Kognitive Belastung",
+
+  'card.median': "Median: {value}",
+  'card.percentile': "Perzentil {value}",
+  'card.noNorms': "Keine Referenznormen",
+  'card.fromTask': "Aus der Aufgabe {task}",
+
+  'cohort.women': "Frauen {band}",
+  'cohort.men': "Männer {band}",
+  'cohort.adults': "Erwachsene {band}",
+  'cohort.allWomen': "Alle Frauen",
+  'cohort.allMen': "Alle Männer",
+  'cohort.allAdults': "Alle Erwachsenen",
+
+  'biomarkers.title': "Gemessene Biomarker",
+  'biomarkers.computed': "Auf diesem Gerät aus {seconds} s Audio berechnet.",
+  'biomarkers.f0Mean': "Mittlere Tonhöhe (F0)",
+  'biomarkers.pitchRange': "Tonhöhenumfang",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Harmonie-Rausch-Verhältnis",
+  'biomarkers.pauseRatio': "Pausenanteil",
+  'biomarkers.syllableRate': "Silbenrate",
+
+  // --- Chat ---
+  'chat.title': "VitalVoice-Assistent",
+  'chat.limitReached': "Sitzungslimit erreicht",
+  'chat.remaining': "Verbleibende Nachrichten: {count}",
+  'chat.clear': "Chat leeren",
+  'chat.empty': "Bitten Sie mich, medizinische Begriffe zu erklären oder weitere Wellness-Tipps zu geben!",
+  'chat.transcribing': "Wird transkribiert…",
+  'chat.noTranscript': "Keine Transkription, spätere Antworten sehen diese Nachricht daher nicht",
+  'chat.interrupted': "Antwort unterbrochen",
+  'chat.locked': "Chatlimit für diese Sitzung erreicht. Starten Sie die Analyse neu, um weiter zu chatten.",
+  'chat.placeholder': "Nachricht eingeben...",
+  'chat.stop': "Generierung stoppen",
+  'chat.stopped': "*Antwort angehalten.*",
+  'chat.noResponse': "Diese Antwort konnte nicht verarbeitet werden.",
+  'chat.connectionError': "Die Verbindung zu den VitalVoice-Servern ist gerade gestört. Bitte versuchen Sie es erneut.",
+
+  // --- History ---
+  'history.title': "Screening-Verlauf",
+  'history.empty': "Noch keine gespeicherten Screenings. Abgeschlossene Screenings werden auf diesem Gerät gespeichert.",
+  'history.delete': "Screening löschen",
+  'history.import': "Importieren",
+  'history.exportCsv': "CSV exportieren",
+  'history.importFailed': "Diese Datei konnte nicht importiert werden. Wähle eine aus VitalVoice exportierte JSON-Datei.",
+  'history.notAnExport': "Diese Datei ist kein VitalVoice-Screening-Export.",
+
+  // --- Profile ---
+  'profile.title': "Ihr Profil",
+  'profile.intro': "Alle Felder sind optional. Ihre Angaben helfen, Ihre Stimme einzuordnen, z. B. welche Tonhöhe für Ihr Alter typisch ist, und bestimmen, mit wem Ihre Werte verglichen werden. Sie werden nur auf diesem Gerät gespeichert.",
+  'profile.age': "Alter",
+  'profile.agePlaceholder': "z. B. 52",
+  'profile.ageInvalid': "Geben Sie ein Alter zwischen 18 und 120 ein.",
+  'profile.sexAtBirth': "Geschlecht bei Geburt",
+  'profile.notSpecified': "Keine Angabe",
+  'profile.female': "Weiblich",
+  'profile.male': "Männlich",
+  'profile.smoking': "Rauchen",
+  'profile.never': "Nie",
+  'profile.former': "Früher",
+  'profile.current': "Aktuell",
+  'profile.respiratory': "Bekannte Atemwegserkrankungen",
+  'profile.respiratoryPlaceholder': "z. B. Asthma, COPD",
+  'profile.neurological': "Bekannte neurologische Erkrankungen",
+  'profile.neurologicalPlaceholder': "z. B. Migräne, Parkinson",
+  'profile.medications': "Aktuelle Medikamente",
+  'profile.medicationsPlaceholder': "Durch Kommas trennen",
+  'profile.clear': "Profil löschen",
+  'profile.save': "Speichern",
+
+  'profileField.age': "Alter",
+  'profileField.sexAtBirth': "Geschlecht bei Geburt",
+  'profileField.smoker': "Rauchen",
+  'profileField.respiratoryConditions': "Atemwegserkrankungen",
+  'profileField.neurologicalConditions': "Neurologische Erkrankungen",
+  'profileField.medications': "Medikamente",
+
+  // --- Batch validation ---
+  'batch.title': "Batch-Validierung",
+  'batch.intro': "Analysieren Sie einen Ordner mit Aufnahmen anhand eines CSV-Manifests mit Referenz-Labels. Das Manifest braucht eine Spalte {file} und eine Spalte je Domänen-ID (1 = Erkrankung vorhanden, 0 = nicht vorhanden) sowie optionale Referenzwerte {score}. Der Fortschritt wird gespeichert, ein unterbrochener Lauf setzt also dort fort, wo er stehen blieb.",
+  'batch.selectFolder': "Audioordner auswählen",
+  'batch.audioFiles': "Audiodateien: {count}",
+  'batch.selectManifest': "CSV-Manifest auswählen",
+  'batch.manifestSummary': "Zeilen: {rows} · Domänen: {domains}",
+  'batch.manifestUnreadable': "Das Manifest konnte nicht gelesen werden.",
+  'batch.manifestEmpty': "Das Manifest ist leer.",
+  'batch.manifestNoFileColumn': "Das Manifest braucht eine Spalte {file} mit dem Namen jeder Audiodatei.",
+  'batch.manifestNoDomains': "Das Manifest hat keine Bereichsspalten. Benennen Sie sie nach der Bereichs-ID, z. B. {label} oder {score}.",
+  'batch.manifestNoRows': "Das Manifest enthält keine Dateien.",
+  'batch.ignoredColumn': "Spalte „{column}“ ignoriert: keine Bereichs-ID.",
+  'batch.noFileName': "Zeile {line}: kein Dateiname, übersprungen.",
+  'batch.duplicateFile': "Zeile {line}: „{file}“ steht doppelt in der Liste, nur die erste Zeile wird verwendet.",
+  'batch.invalidLabel': "Zeile {line}: „{value}“ ist kein Label für {domain}, leer gelassen.",
+  'batch.invalidScore': "Zeile {line}: „{value}“ ist keine Zahl für {column}, leer gelassen.",
+  'batch.missingFiles': "Manifest-Dateien, die im Ordner fehlen: {count}",
+  'batch.warnings': "Manifest-Warnungen",
+  'batch.warningCount': "Warnungen: {count}",
+  'batch.missing': "Fehlt: {file}",
+  'batch.parallel': "Parallele Anfragen",
+  'batch.startOver': "Neu beginnen",
+  'batch.resume': "Fortsetzen ({count} offen)",
+  'batch.run': "Alle Dateien verarbeiten ({count})",
+  'batch.stop': "Stoppen",
+  'batch.stopping': "Wird gestoppt…",
+  'batch.progress': "Analysiert: {done} · Fehlgeschlagen: {failed} (beim Fortsetzen wiederholt)",
+  'batch.fileTotal': "Dateien: {count}",
+  'batch.accuracy': "Genauigkeit je Domäne",
+  'batch.csv': "CSV",
+  'batch.report': "Bericht",
+  'batch.domain': "Domäne",
+  'batch.matrixHint': "Richtig positiv / falsch positiv / falsch negativ / richtig negativ",
+  'batch.sensitivity': "Sensitivität",
+  'batch.specificity': "Spezifität",
+  'batch.correlation': "Korrelation",
+  'batch.pointBiserialHint': "Punktbiseriales r gegenüber den Labels; negativ heißt niedrigere Werte bei positiven Fällen",
+  'batch.pearsonHint': "Pearson-r gegenüber den Referenzwerten",
+  'batch.vsLabel': "vs. Label",
+  'batch.vsReference': "vs. Ref.",
+  'batch.footnote': "Sensitivität und Spezifität beruhen auf den Dateien mit einem Label für diese Domäne.",
+};
+
+export default deDE;
@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const elGR: Messages = {
+  // --- Common ---
+  'common.cancel': "Ακύρωση",
+  'common.backHome': "Επιστροφή στην αρχική",
+  'common.microphoneRequired': "Απαιτείται πρόσβαση στο μικρόφωνο.",
+
+  // --- Recording checks ---
+  'audio.empty': "Η ηχογράφηση απέτυχε (κενό αρχείο).",
+  'audio.tooShort': "Η ηχογράφηση είναι πολύ σύντομη. Χρειάζονται τουλάχιστον {seconds} δευτερόλεπτα για ακριβή ανάλυση.",
+  'audio.tooQuiet': "Η ηχογράφηση είναι πολύ χαμηλή. Μιλήστε πιο δυνατά ή πιο κοντά στο μικρόφωνο.",
+  'audio.noSpeech': "Δεν εντοπίστηκε ομιλία. Μιλήστε καθαρά.",
+  'audio.unreadable': "Δεν ήταν δυνατός ο έλεγχος του αρχείου ήχου.",
+  'audio.failed': "Η ηχογράφηση απέτυχε.",
+  'quality.title': "Έλεγχοι ηχογράφησης",
+  'quality.decodable': "Αρχείο ήχου",
+  'quality.duration': "Διάρκεια",
+  'quality.speech': "Ομιλία",
+  'quality.level': "Επίπεδο φωνής",
+  'quality.snr': "Θόρυβος περιβάλλοντος",
+  'quality.clipping': "Παραμόρφωση",
+  'quality.dc_offset': "Απόκλιση μικροφώνου",
+  'quality.dropouts': "Διακοπές",
+  'quality.speechShort': "Εντοπίστηκαν μόνο {seconds} δ. ομιλίας· χρειάζονται τουλάχιστον {minimum} δ. Συνεχίστε να μιλάτε μέχρι να λήξει ο χρόνος.",
+  'quality.noisy': "Ο θόρυβος περιβάλλοντος είναι πολύ κοντά στη φωνή σας (μόνο {value} dB χαμηλότερα). Απομακρυνθείτε από ανεμιστήρες, κίνηση ή άλλες φωνές.",
+  'quality.clipped': "Η ηχογράφηση είναι παραμορφωμένη επειδή η είσοδος είναι πολύ δυνατή. Απομακρυνθείτε λίγο από το μικρόφωνο.",
+  'quality.dcOffset': "Το σήμα του μικροφώνου έχει απόκλιση, κάτι που μπορεί να δείχνει ελαττωματικό μικρόφωνο. Δοκιμάστε άλλο αν επαναλαμβάνεται.",
+  'quality.dropout': "Ο ήχος διακόπηκε για {seconds} δ. Ελέγξτε τις συνδέσεις Bluetooth ή USB και ηχογραφήστε ξανά.",
+
+  // --- Modals ---
+  'limit.title': "Συμπληρώθηκε το ημερήσιο όριο",
+  'limit.body': "Για να παραμένει διαθέσιμη η υπηρεσία και να ελέγχεται το κόστος της έρευνας, περιορίζουμε τη χρήση σε {quota} ανά συσκευή.",
+  'limit.quota': "{limit} ελέγχους την ημέρα",
+  'limit.resetsAt': "Περισσότεροι έλεγχοι θα είναι διαθέσιμοι από {time}.",
+  'limit.sampleNote': "Μπορείτε ακόμη να εξερευνήσετε τη διαδραστική επίδειξη με δείγμα δεδομένων, χωρίς να μετράει στο όριό σας.",
+  'limit.ok': "Κατάλαβα",
+  'account.title': "Διακριτικό λογαριασμού",
+  'account.hint': "Έχετε διακριτικό λογαριασμού από τη μελέτη ή τον οργανισμό σας; Εισαγάγετέ το για να χρησιμοποιήσετε τα όριά του αντί για αυτά της συσκευής.",
+  'account.placeholder': "Επικολλήστε το διακριτικό",
+  'account.save': "Χρήση διακριτικού",
+  'account.checking': "Έλεγχος…",
+  'account.rejected': "Αυτό το διακριτικό δεν έγινε δεκτό.",
+  'account.active': "Χρησιμοποιείται διακριτικό λογαριασμού (βαθμίδα {tier})",
+  'account.remove': "Αφαίρεση",
+  'usage.title': "Χρήση και κόστος",
+  'usage.screening': "Αυτός ο έλεγχος",
+  'usage.today': "Σήμερα σε αυτή τη συσκευή",
+  'usage.recentDays': "Τελευταίες ημέρες",
+  'usage.empty': "Δεν έχουν καταγραφεί κλήσεις μοντέλου για αυτόν τον έλεγχο.",
+  'usage.call': "Κλήση",
+  'usage.calls': "Κλήσεις μοντέλου",
+  'usage.callCount': "{count} κλήσεις",
+  'usage.promptTokens': "Tokens εισόδου",
+  'usage.outputTokens': "Tokens εξόδου",
+  'usage.totalTokens': "Σύνολο tokens",
+  'usage.audioTokens': "Tokens ήχου",
+  'usage.imageTokens': "Tokens εικόνας",
+  'usage.estimatedCost': "Εκτιμώμενο κόστος",
+  'usage.kind.analysis': "Ανάλυση",
+  'usage.kind.chat': "Απάντηση συνομιλίας",
+  'usage.kind.transcription': "Μεταγραφή",
+  'usage.unpriced': "{count} κλήσεις χρησιμοποίησαν μοντέλο εκτός τιμοκαταλόγου και δεν κοστολογήθηκαν.",
+  'usage.disclaimer': "Το κόστος είναι εκτίμηση βάσει τιμών καταλόγου ανά εκατομμύριο tokens, όχι λογαριασμός. Δεν περιλαμβάνονται κλήσεις από άλλες συσκευές ή πριν από την καταγραφή χρήσης.",
+
+  'tech.title': "Τεχνική αρχιτεκτονική",
+  'tech.models': "Μοντέλα ΤΝ που χρησιμοποιούνται",
+  'tech.flashDescription': "Πολυτροπική ανάλυση χαμηλής καθυστέρησης για ήχο (PCM) και καρέ βίντεο.",
+  'tech.proDescription': "Σύνθετη συλλογιστική για κλινική συσχέτιση και ανάλυση τάσεων.",
+  'tech.pipeline': "Ροή δεδομένων",
+  'tech.pipelineCapture': "Λήψη ακατέργαστου ήχου (WebM/PCM)",
+  'tech.pipelineEncoding': "Κωδικοποίηση Base64 στον πελάτη",
+  'tech.pipelineRequest': "Πολυτροπικό αίτημα στο Gemini API",
+  'tech.pipelineResponse': "Δομημένη απάντηση JSON",
+  'tech.sampleRequest': "Παράδειγμα αιτήματος API",
+  'tech.footer': "Βασίζεται σε ερευνητικές εργασίες για την ακουστική ανάλυση φωνητικών βιοδεικτών στη νευρολογία.",
+
+  // --- Intro ---
+  'intro.badge': "Έτοιμο για κλινική επικύρωση",
+  'intro.tagline': "Προηγμένος έλεγχος υγείας με τη δύναμη του {model}.",
+  'intro.selectedLanguage': "Επιλεγμένη γλώσσα:",
+  'intro.watchDemo': "Δείτε την επίδειξη",
+  'intro.start': "Έναρξη ελέγχου",
+  'intro.sample': "Δοκιμή με δείγμα δεδομένων (άμεσα)",
+  'intro.addProfile': "Προσθήκη προφίλ",
+  'intro.editProfile': "Επεξεργασία προφίλ",
+  'intro.trustedResearch': "Αξιόπιστη έρευνα",
+  'intro.privacyFirst': "Πρώτα το απόρρητο",
+  'intro.secureProcessing': "Ασφαλής επεξεργασία",
+  'intro.viewArchitecture': "Προβολή αρχιτεκτονικής",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Εργασία {step} από {total} · {task}",
+  'recording.getReady': "Ετοιμαστείτε",
+  'recording.listening': "Ακούω...",
+  'recording.goodVolume': "Η ένταση είναι τέλεια",
+  'coach.tooLoud': "Απομακρύνετε λίγο το μικρόφωνο",
+  'coach.noisy': "Υπερβολικός θόρυβος περιβάλλοντος",
+  'coach.tooFar': "Πλησιάστε το μικρόφωνο",
+  'coach.silence': "Ξεκινήστε να μιλάτε όταν είστε έτοιμοι",
+  'recording.usableSpeech': "{seconds} από {target} δ αξιοποιήσιμης ομιλίας",
+  'recording.stopEarly': "Πρόωρη διακοπή",
+  'recording.start': "Έναρξη ηχογράφησης",
+  'recording.skipTask': "Παράλειψη εργασίας",
+
+  'task.sustained_vowel.label': "Παρατεταμένο φωνήεν",
+  'task.sustained_vowel.instruction': "Πάρτε βαθιά ανάσα και πείτε \"ααα\" όσο περισσότερο μπορείτε, σε άνετο τόνο και ένταση.",
+  'task.ddk.label': "Πα-τα-κα",
+  'task.ddk.instruction': "Επαναλάβετε \"πα-τα-κα\" όσο πιο γρήγορα και καθαρά μπορείτε μέχρι να λήξει ο χρόνος.",
+  'task.reading.label': "Ανάγνωση κειμένου",
+  'task.reading.instruction': "Διαβάστε φωναχτά αυτό το κείμενο με τον συνηθισμένο σας ρυθμό:",
+  'task.free_speech.label': "Ελεύθερη ομιλία",
+  'task.free_speech.instruction': "Απαντήστε με δικά σας λόγια:",
+  'task.vowelNoVoice': "Δεν εντοπίστηκε σταθερή φωνή. Κρατήστε έναν ενιαίο ήχο \"ααα\" χωρίς να ψιθυρίζετε.",
+  'task.vowelInterrupted': "Ο ήχος διακόπηκε. Πάρτε πρώτα ανάσα και κρατήστε το \"ααα\" με μία ανάσα.",
+  'task.ddkTooFew': "Εντοπίστηκαν πολύ λίγες συλλαβές. Επαναλάβετε \"πα-τα-κα\" χωρίς παύσεις και όσο πιο γρήγορα μπορείτε.",
+  'task.readingSilent': "Εντοπίστηκε κυρίως σιωπή. Διαβάστε φωναχτά όλο το κείμενο από την αρχή.",
+
+  // --- Face capture ---
+  'face.title': "Προσθήκη ανάλυσης προσώπου;",
+  'face.body': "Το VitalVoice μπορεί να αναλύσει βιοδείκτες του προσώπου (ωχρότητα, σημάδια αφυδάτωσης, συμμετρία) για αύξηση της ακρίβειας έως και 15%.",
+  'face.enableCamera': "Ενεργοποίηση κάμερας",
+  'face.skip': "Παράλειψη προς το παρόν",
+  'face.centerHint': "Κεντράρετε το πρόσωπό σας με καλό φωτισμό",
+  'face.noFace': "Κοιτάξτε ευθεία την κάμερα",
+  'face.moreLight': "Περισσότερο φως στο πρόσωπο",
+  'face.lessLight': "Πολύ φωτεινό: απομακρυνθείτε από το άμεσο φως",
+  'face.evenLight': "Αποφύγετε φως πίσω σας ή έντονες σκιές",
+  'face.moveCloser': "Πλησιάστε",
+  'face.moveBack': "Απομακρυνθείτε λίγο",
+  'face.centre': "Κεντράρετε το πρόσωπό σας στο κάδρο",
+  'face.holdStill': "Μείνετε ακίνητοι",
+  'face.neutralLight': "Χρησιμοποιήστε ουδέτερο λευκό φως",
+  'face.ready': "Όλα καλά: τραβήξτε τη φωτογραφία",
+  'face.rejected': "Αυτή η φωτογραφία δεν μπορεί να χρησιμοποιηθεί. {reason}",
+  'face.cameraNotReady': "Η κάμερα ξεκινά ακόμη. Δοκιμάστε ξανά σε λίγο.",
+  'face.captureFailed': "Δεν ήταν δυνατός ο έλεγχος της φωτογραφίας. Δοκιμάστε ξανά ή παραλείψτε αυτό το βήμα.",
+
+  // --- Upload ---
+  'upload.title': "Μεταφόρτωση δεδομένων",
+  'upload.voiceLabel': "Δείγμα φωνής (υποχρεωτικό)",
+  'upload.tapToChange': "Πατήστε για αλλαγή",
+  'upload.selectAudio': "Επιλογή αρχείου ήχου",
+  'upload.audioFormats': "Υποστηρίζει MP3, WAV, M4A",
+  'upload.imageLabel': "Φωτογραφία προσώπου (προαιρετική)",
+  'upload.preview': "Προεπισκόπηση",
+  'upload.imageSelected': "Επιλέχθηκε εικόνα",
+  'upload.selectImage': "Επιλογή εικόνας",
+  'upload.imageFormats': "Υποστηρίζει JPG, PNG",
+  'upload.analyze': "Ανάλυση δεδομένων",
+  'upload.batch': "Επικύρωση συνόλου δεδομένων (μαζικά)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Επεξεργασία δεδομένων υγείας",
+  'analyzing.step1': "Εξαγωγή φωνητικών βιοδεικτών...",
+  'analyzing.step2': "Ανάλυση μοτίβων ομιλίας...",
+  'analyzing.step3': "Αξιολόγηση χαρακτηριστικών φωνής...",
+  'analyzing.step4': "Συσχέτιση με πολυτροπικά δεδομένα...",
+  'analyzing.step5': "Δημιουργία εξατομικευμένων συστάσεων...",
+  'analyzing.retrying': "Πρόβλημα σύνδεσης, νέα προσπάθεια (προσπάθεια {attempt})...",
+  'analyzing.footer': "Επεξεργασία σε ασφαλές περιβάλλον",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Η υπηρεσία είναι απασχολημένη",
+  'error.safety.title': "Η ανάλυση αποκλείστηκε",
+  'error.network.title': "Πρόβλημα σύνδεσης",
+  'error.invalid_input.title': "Δεν ήταν δυνατή η ανάγνωση της ηχογράφησης",
+  'error.malformed_output.title': "Ελλιπής ανάλυση",
+  'error.quota': "Η υπηρεσία ανάλυσης λειτουργεί αυτή τη στιγμή στο μέγιστο. Περιμένετε λίγα λεπτά και δοκιμάστε ξανά.",
+  'error.safety': "Τα φίλτρα ασφαλείας περιεχομένου απέκλεισαν την ανάλυση. Ηχογραφήστε ξανά χωρίς πολυμέσα στο παρασκήνιο ή άλλες φωνές.",
+  'error.network': "Δεν ήταν δυνατή η σύνδεση με την υπηρεσία ανάλυσης. Ελέγξτε τη σύνδεσή σας και δοκιμάστε ξανά.",
+  'error.invalidInput': "Δεν ήταν δυνατή η επεξεργασία της ηχογράφησης. Ηχογραφήστε ξανά ή επιλέξτε άλλο αρχείο.",
+  'error.malformedOutput': "Η ανάλυση επέστρεψε ελλιπής. Δοκιμάστε ξανά.",
+  'error.cancelled': "Η ανάλυση ακυρώθηκε.",
+  'error.unknown': "Κάτι πήγε στραβά κατά την ανάλυση. Δοκιμάστε ξανά.",
+  'error.retry': "Δοκιμάστε ξανά",
+  'error.recordAgain': "Νέα ηχογράφηση",
+  'error.chooseFile': "Επιλογή άλλου αρχείου",
+  'error.viewSample': "Προβολή δείγματος αποτελεσμάτων",
+  'error.keptRecording': "Η ηχογράφησή σας διατηρήθηκε, οπότε δεν χρειάζεται νέα ηχογράφηση.",
+  'error.keptFile': "Το αρχείο σας διατηρήθηκε, οπότε δεν χρειάζεται νέα μεταφόρτωση.",
+
+  // --- Results ---
+  'results.newScan': "Νέος έλεγχος",
+  'results.history': "Ιστορικό",
+  'results.usage': "Χρήση",
+  'results.exportPdf': "Εξαγωγή PDF",
+  'results.exportFhir': "Εξαγωγή FHIR",
+  'results.exportFhirFailed': "Δεν ήταν δυνατή η δημιουργία της εξαγωγής FHIR. Δοκιμάστε ξανά ή εξαγάγετε PDF.",
+  'results.exportJson': "Εξαγωγή JSON",
+  'results.includeMedia': "Συμπερίληψη ηχογράφησης και φωτογραφίας",
+  'results.includeMediaHint': "Το αρχείο θα περιέχει τη φωνή και το πρόσωπό σας. Μοιραστείτε το μόνο με άτομα που εμπιστεύεστε.",
+  'results.download': "Λήψη",
+  'results.overallScore': "Συνολική βαθμολογία ευεξίας",
+  'results.confidence': "Βεβαιότητα: {level}",
+  'results.summary': "Σύνοψη",
+  'results.recommendations': "Συστάσεις",
+  'results.trends': "Τάσεις",
+  'results.improving': "Βελτιώνεται",
+  'results.stable': "Σταθερό",
+  'results.needsAttention': "Χρειάζεται προσοχή",
+  'results.firstScreening': "Αυτός είναι ο πρώτος αποθηκευμένος έλεγχός σας. Κάντε άλλον αργότερα για να δείτε τάσεις.",
+  'results.profileNoChange': "Το προφίλ σας λήφθηκε υπόψη, αλλά δεν άλλαξε την ερμηνεία αυτών των αποτελεσμάτων.",
+  'results.voiceTasks': "Φωνητικές εργασίες",
+  'results.disclaimer': "Αυτό είναι ένα εργαλείο προσυμπτωματικού ελέγχου, όχι ιατρική διάγνωση. Συμβουλευτείτε έναν επαγγελματία υγείας για οποιαδήποτε ανησυχία.",
+
+  'report.title': "Αναφορά κλινικού ελέγχου",
+  'report.scoreOverview': "Επισκόπηση βαθμολογιών",
+  'report.concernLevel': "Επίπεδο ανησυχίας",
+  'report.capturedImage': "Εικόνα λήψης",
+  'report.domainAnalysis': "Ανάλυση ανά τομέα",
+  'report.comparedWith': "Εκατοστημόρια σε σύγκριση με: {cohort}",
+  'report.scoreTrends': "Τάσεις βαθμολογιών",
+  'report.keyObservations': "Βασικές παρατηρήσεις",
+  'report.significance': "Σημασία:",
+  'report.reason': "Αιτία:",
+  'report.disclaimer': "ΑΠΟΠΟΙΗΣΗ ΕΥΘΥΝΗΣ:",
+  'report.page': "Σελίδα {page} από {count}",
+  'report.generatedBy': "Δημιουργήθηκε από το VitalVoice AI με τεχνολογία Gemini",
+
+  'confidence.low': "Χαμηλή",
+  'confidence.medium': "Μέτρια",
+  'confidence.high': "Υψηλή",
+  'concern.low': "Χαμηλό",
+  'concern.moderate': "Μέτριο",
+  'concern.elevated': "Αυξημένο",
+  'concern.high': "Υψηλό",
+  'urgency.routine': "Τακτικό",
+  'urgency.soon': "Σύντομα",
+  'urgency.prompt': "Άμεσα",
+
+  'domain.neurological': "Νευρολογικό",
+  'domain.mental_health': "Ψυχική υγεία",
+  'domain.respiratory': "Αναπνευστικό",
+  'domain.cardiovascular': "Καρδιαγγειακό",
+  'domain.metabolic': "Μεταβολικό",
+  'domain.hydration': "Ενυδάτωση",
+  'domain.sleep_fatigue': "Ύπνος και κόπωση",
+  'domain.cognitive_load': "Γνωστικό φορτίο",
+
+  'card.median': "Διάμεσος: {value}",
+  'card.percentile': "{value}ό εκατοστημόριο",
+  'card.noNorms': "Χωρίς πρότυπα αναφοράς",
+  'card.fromTask': "Από την εργασία {task}",
+
+  'cohort.women': "Γυναίκες {band}",
+  'cohort.men': "Άνδρες {band}",
+  'cohort.adults': "Ενήλικες {band}",
+  'cohort.allWomen': "Όλες οι γυναίκες",
+  'cohort.allMen': "Όλοι οι άνδρες",
+  'cohort.allAdults': "Όλοι οι ενήλικες",
+
+  'biomarkers.title': "Μετρημένοι βιοδείκτες",
+  'biomarkers.computed': "Υπολογίστηκαν σε αυτή τη συσκευή από {seconds} δευτ. ήχου.",
+  'biomarkers.f0Mean': "Μέσο τονικό ύψος (F0)",
+  'biomarkers.pitchRange': "Εύρος τονικού ύψους",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Λόγος αρμονικών προς θόρυβο",
+  'biomarkers.pauseRatio': "Αναλογία παύσεων",
+  'biomarkers.syllableRate': "Ρυθμός συλλαβών",
+
+  // --- Chat ---
+  'chat.title': "Βοηθός VitalVoice",
+  'chat.limitReached': "Συμπληρώθηκε το όριο συνεδρίας",
+  'chat.remaining': "Υπόλοιπα μηνύματα: {count}",
+  'chat.clear': "Εκκαθάριση συνομιλίας",
+  'chat.empty': "Ζητήστε μου να εξηγήσω οποιονδήποτε ιατρικό όρο ή να σας δώσω περισσότερες συμβουλές ευεξίας!",
+  'chat.transcribing': "Μεταγραφή…",
+  'chat.noTranscript': "Δεν υπάρχει μεταγραφή, οπότε οι επόμενες απαντήσεις δεν θα βλέπουν αυτό το μήνυμα",
+  'chat.interrupted': "Η απάντηση διακόπηκε",
+  'chat.locked': "Συμπληρώθηκε το όριο συνομιλίας για αυτή τη συνεδρία. Ξεκινήστε ξανά την ανάλυση για να συνεχίσετε.",
+  'chat.placeholder': "Πληκτρολογήστε μήνυμα...",
+  'chat.stop': "Διακοπή δημιουργίας",
+  'chat.stopped': "*Η απάντηση διακόπηκε.*",
+  'chat.noResponse': "Δεν ήταν δυνατή η επεξεργασία αυτής της απάντησης.",
+  'chat.connectionError': "Αντιμετωπίζω πρόβλημα σύνδεσης με τους διακομιστές του VitalVoice αυτή τη στιγμή. Δοκιμάστε ξανά.",
+
+  // --- History ---
+  'history.title': "Ιστορικό ελέγχων",
+  'history.empty': "Δεν υπάρχουν ακόμη αποθηκευμένοι έλεγχοι. Οι ολοκληρωμένοι έλεγχοι αποθηκεύονται σε αυτή τη συσκευή.",
+  'history.delete': "Διαγραφή ελέγχου",
+  'history.import': "Εισαγωγή",
+  'history.exportCsv': "Εξαγωγή CSV",
+  'history.importFailed': "Δεν ήταν δυνατή η εισαγωγή του αρχείου. Επιλέξτε ένα αρχείο JSON που εξήχθη από το VitalVoice.",
+  'history.notAnExport': "Αυτό το αρχείο δεν είναι εξαγωγή ελέγχου του VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "Το προφίλ σας",
+  'profile.intro': "Όλα τα πεδία είναι προαιρετικά. Οι απαντήσεις σας βοηθούν στην ερμηνεία της φωνής σας, π.χ. ποιο τονικό ύψος είναι συνηθισμένο για την ηλικία σας, και καθορίζουν με ποιους συγκρίνονται οι βαθμολογίες σας. Αποθηκεύονται μόνο σε αυτή τη συσκευή.",
+  'profile.age': "Ηλικία",
+  'profile.agePlaceholder': "π.χ. 52",
+  'profile.ageInvalid': "Εισαγάγετε ηλικία από 18 έως 120.",
+  'profile.sexAtBirth': "Φύλο κατά τη γέννηση",
+  'profile.notSpecified': "Δεν δηλώθηκε",
+  'profile.female': "Γυναίκα",
+  'profile.male': "Άνδρας",
+  'profile.smoking': "Κάπνισμα",
+  'profile.never': "Ποτέ",
+  'profile.former': "Πρώην",
+  'profile.current': "Τωρινός",
+  'profile.respiratory': "Γνωστές αναπνευστικές παθήσεις",
+  'profile.respiratoryPlaceholder': "π.χ. άσθμα, ΧΑΠ",
+  'profile.neurological': "Γνωστές νευρολογικές παθήσεις",
+  'profile.neurologicalPlaceholder': "π.χ. ημικρανία, νόσος Πάρκινσον",
+  'profile.medications': "Τρέχουσα φαρμακευτική αγωγή",
+  'profile.medicationsPlaceholder': "Χωρισμένα με κόμμα",
+  'profile.clear': "Εκκαθάριση προφίλ",
+  'profile.save': "Αποθήκευση",
+
+  'profileField.age': "Ηλικία",
+  'profileField.sexAtBirth': "Φύλο κατά τη γέννηση",
+  'profileField.smoker': "Κάπνισμα",
+  'profileField.respiratoryConditions': "Αναπνευστικές παθήσεις",
+  'profileField.neurologicalConditions': "Νευρολογικές παθήσεις",
+  'profileField.medications': "Φάρμακα",
+
+  // --- Batch validation ---
+  'batch.title': "Μαζική επικύρωση",
+  'batch.intro': "Αναλύστε έναν φάκελο ηχογραφήσεων με βάση ένα CSV manifest με ετικέτες αναφοράς. Το manifest χρειάζεται στήλη {file} και μία στήλη ανά id τομέα (1 = η κατάσταση υπάρχει, 0 = δεν υπάρχει), καθώς και προαιρετικές βαθμολογίες αναφοράς {score}. Η πρόοδος αποθηκεύεται, οπότε μια διακοπείσα εκτέλεση συνεχίζει από εκεί που σταμάτησε.",
+  'batch.selectFolder': "Επιλογή φακέλου ήχου",
+  'batch.audioFiles': "Αρχεία ήχου: {count}",
+  'batch.selectManifest': "Επιλογή CSV manifest",
+  'batch.manifestSummary': "Γραμμές: {rows} · Τομείς: {domains}",
+  'batch.manifestUnreadable': "Δεν ήταν δυνατή η ανάγνωση του manifest.",
+  'batch.manifestEmpty': "Το αρχείο δήλωσης είναι κενό.",
+  'batch.manifestNoFileColumn': "Το αρχείο δήλωσης χρειάζεται μια στήλη {file} με το όνομα κάθε αρχείου ήχου.",
+  'batch.manifestNoDomains': "Το αρχείο δήλωσης δεν έχει στήλες τομέων. Ονομάστε τες με το αναγνωριστικό τομέα, π.χ. {label} ή {score}.",
+  'batch.manifestNoRows': "Το αρχείο δήλωσης δεν περιέχει αρχεία.",
+  'batch.ignoredColumn': "Η στήλη «{column}» αγνοήθηκε: δεν είναι αναγνωριστικό τομέα.",
+  'batch.noFileName': "Γραμμή {line}: χωρίς όνομα αρχείου, παραλείφθηκε.",
+  'batch.duplicateFile': "Γραμμή {line}: το «{file}» εμφανίζεται δύο φορές, χρησιμοποιείται μόνο η πρώτη γραμμή.",
+  'batch.invalidLabel': "Γραμμή {line}: το «{value}» δεν είναι ετικέτα για {domain}, έμεινε κενό.",
+  'batch.invalidScore': "Γραμμή {line}: το «{value}» δεν είναι αριθμός για {column}, έμεινε κενό.",
+  'batch.missingFiles': "Αρχεία του manifest που λείπουν από τον φάκελο: {count}",
+  'batch.warnings': "Προειδοποιήσεις manifest",
+  'batch.warningCount': "Προειδοποιήσεις: {count}",
+  'batch.missing': "Λείπει: {file}",
+  'batch.parallel': "Παράλληλα αιτήματα",
+  'batch.startOver': "Από την αρχή",
+  'batch.resume': "Συνέχεια (απομένουν {count})",
+  'batch.run': "Εκτέλεση όλων των αρχείων ({count})",
+  'batch.stop': "Διακοπή",
+  'batch.stopping': "Διακοπή…",
+  'batch.progress': "Αναλύθηκαν: {done} · Απέτυχαν: {failed} (νέα προσπάθεια στη συνέχεια)",
+  'batch.fileTotal': "Αρχεία: {count}",
+  'batch.accuracy': "Ακρίβεια ανά τομέα",
+  'batch.csv': "CSV",
+  'batch.report': "Αναφορά",
+  'batch.domain': "Τομέας",
+  'batch.matrixHint': "αληθώς θετικά / ψευδώς θετικά / ψευδώς αρνητικά / αληθώς αρνητικά",
+  'batch.sensitivity': "Ευαισθησία",
+  'batch.specificity': "Ειδικότητα",
+  'batch.correlation': "Συσχέτιση",
+  'batch.pointBiserialHint': "Σημειακός διδιάστατος r ως προς την ετικέτα· αρνητική τιμή σημαίνει χαμηλότερες βαθμολογίες στα θετικά περιστατικά",
+  'batch.pearsonHint': "r του Pearson ως προς τη βαθμολογία αναφοράς",
+  'batch.vsLabel': "έναντι ετικέτας",
+  'batch.vsReference': "έναντι αναφοράς",
+  'batch.footnote': "Η ευαισθησία και η ειδικότητα υπολογίζονται από αρχεία με ετικέτα για τον συγκεκριμένο τομέα.",
+};
+
+export default elGR;
@@ -0,0 +1,13 @@
+import { Messages } from "./en-US";
+
+// Only the spellings that differ from US English; everything else falls back to en-US.
+const enGB: Partial<Messages> = {
+  'face.body': "VitalVoice can analyse facial biomarkers (skin pallor, hydration signs, symmetry) to improve accuracy by up to 15%.",
+  'face.centerHint': "Centre your face in good light",
+  'upload.analyze': "Analyse Data",
+  'analyzing.step2': "Analysing speech patterns...",
+  'analyzing.step5': "Generating personalised insights...",
+  'error.unknown': "Something went wrong while analysing. Please try again.",
+};
+
+export default enGB;
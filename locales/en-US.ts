@@ -0,0 +1,364 @@
+// Source catalogue: every key the UI uses. Other catalogues are typed against it,
+// so a missing or misspelt key fails the type-check. `{name}` is a placeholder.
+const en = {
+  // --- Common ---
+  'common.cancel': "Cancel",
+  'common.backHome': "Back to Home",
+  'common.microphoneRequired': "Microphone access is required.",
+
+  // --- Recording checks ---
+  'audio.empty': "Recording failed (empty file).",
+  'audio.tooShort': "Recording too short. Minimum {seconds} seconds required for accurate analysis.",
+  'audio.tooQuiet': "Recording too quiet. Please speak louder or move closer to the microphone.",
+  'audio.noSpeech': "No speech detected. Please speak clearly.",
+  'audio.unreadable': "Could not validate audio file.",
+  'audio.failed': "Recording failed.",
+  'quality.title': "Recording checks",
+  'quality.decodable': "Audio file",
+  'quality.duration': "Length",
+  'quality.speech': "Speech",
+  'quality.level': "Speech level",
+  'quality.snr': "Background noise",
+  'quality.clipping': "Distortion",
+  'quality.dc_offset': "Microphone offset",
+  'quality.dropouts': "Dropouts",
+  'quality.speechShort': "Only {seconds} s of speech was detected; at least {minimum} s is needed. Keep speaking until the timer ends.",
+  'quality.noisy': "Background noise is too close to your voice (only {value} dB quieter). Move away from fans, traffic or other voices.",
+  'quality.clipped': "The recording is distorted because the input is too loud. Move a little further from the microphone.",
+  'quality.dcOffset': "The microphone signal is off-centre, which can point to a faulty microphone. Try another one if this keeps happening.",
+  'quality.dropout': "The audio cut out for {seconds} s. Check Bluetooth or USB connections and record again.",
+
+  // --- Modals ---
+  'limit.title': "Daily Quota Reached",
+  'limit.body': "To ensure service availability and manage research costs, we limit usage to {quota} per device.",
+  'limit.quota': "{limit} screenings per day",
+  'limit.resetsAt': "More screenings become available from {time}.",
+  'limit.sampleNote': "You can still view the interactive demo using Sample Data, which does not count towards your quota.",
+  'limit.ok': "Understood",
+  'account.title': "Account token",
+  'account.hint': "Have an account token from your study or organisation? Enter it to use its limits instead of this device's.",
+  'account.placeholder': "Paste your token",
+  'account.save': "Use Token",
+  'account.checking': "Checking…",
+  'account.rejected': "This token was not accepted.",
+  'account.active': "Using an account token ({tier} tier)",
+  'account.remove': "Remove",
+  'usage.title': "Usage and Cost",
+  'usage.screening': "This screening",
+  'usage.today': "Today on this device",
+  'usage.recentDays': "Recent days",
+  'usage.empty': "No model calls have been recorded for this screening.",
+  'usage.call': "Call",
+  'usage.calls': "Model calls",
+  'usage.callCount': "{count} calls",
+  'usage.promptTokens': "Input tokens",
+  'usage.outputTokens': "Output tokens",
+  'usage.totalTokens': "Total tokens",
+  'usage.audioTokens': "Audio tokens",
+  'usage.imageTokens': "Image tokens",
+  'usage.estimatedCost': "Estimated cost",
+  'usage.kind.analysis': "Analysis",
+  'usage.kind.chat': "Chat reply",
+  'usage.kind.transcription': "Transcription",
+  'usage.unpriced': "{count} calls used a model missing from the price table and are not costed.",
+  'usage.disclaimer': "Costs are estimates from list prices per million tokens, not a bill. Calls made on other devices or before usage tracking are not included.",
+
+  'tech.title': "Technical Architecture",
+  'tech.models': "AI Models Used",
+  'tech.flashDescription': "Low-latency multimodal analysis of audio (PCM) and video frames.",
+  'tech.proDescription': "Complex reasoning for clinical correlation and trend analysis.",
+  'tech.pipeline': "Data Pipeline",
+  'tech.pipelineCapture': "Raw Audio (WebM/PCM) Capture",
+  'tech.pipelineEncoding': "Client-side Base64 Encoding",
+  'tech.pipelineRequest': "Gemini API Multimodal Request",
+  'tech.pipelineResponse': "Structured JSON Response",
+  'tech.sampleRequest': "Sample API Request",
+  'tech.footer': "Based on research papers regarding acoustic analysis of vocal biomarkers in neurology.",
+
+  // --- Intro ---
+  'intro.badge': "Clinical validity ready",
+  'intro.tagline': "Advanced health screening powered by {model}.",
+  'intro.selectedLanguage': "Selected Language:",
+  'intro.watchDemo': "Watch Demo",
+  'intro.start': "Start Screening",
+  'intro.sample': "Try with Sample Data (Instant)",
+  'intro.addProfile': "Add Profile",
+  'intro.editProfile': "Edit Profile",
+  'intro.trustedResearch': "Trusted Research",
+  'intro.privacyFirst': "Privacy First",
+  'intro.secureProcessing': "Secure Processing",
+  'intro.viewArchitecture': "View Architecture",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Task {step} of {total} · {task}",
+  'recording.getReady': "Get Ready",
+  'recording.listening': "Listening...",
+  'recording.goodVolume': "Perfect volume",
+  'coach.tooLoud': "Move the microphone a little further away",
+  'coach.noisy': "Too much background noise",
+  'coach.tooFar': "Move closer to the microphone",
+  'coach.silence': "Start speaking when you're ready",
+  'recording.usableSpeech': "{seconds} of {target} s usable speech",
+  'recording.stopEarly': "Stop Early",
+  'recording.start': "Start Recording",
+  'recording.skipTask': "Skip This Task",
+
+  'task.sustained_vowel.label': "Sustained Vowel",
+  'task.sustained_vowel.instruction': "Take a deep breath, then say \"aaah\" at a comfortable pitch and loudness for as long as you can.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Repeat \"pa-ta-ka\" as quickly and clearly as you can until the timer ends.",
+  'task.reading.label': "Reading Passage",
+  'task.reading.instruction': "Read this passage aloud at your normal pace:",
+  'task.free_speech.label': "Free Speech",
+  'task.free_speech.instruction': "Answer in your own words:",
+  'task.vowelNoVoice': "No steady voice detected. Hold a single \"aaah\" sound without whispering.",
+  'task.vowelInterrupted': "The sound was interrupted. Breathe in first, then hold \"aaah\" in one breath.",
+  'task.ddkTooFew': "Too few syllables detected. Repeat \"pa-ta-ka\" continuously and as fast as you can.",
+  'task.readingSilent': "Mostly silence detected. Read the whole passage aloud from the start.",
+
+  // --- Face capture ---
+  'face.title': "Add Visual Analysis?",
+  'face.body': "VitalVoice can analyze facial biomarkers (skin pallor, hydration signs, symmetry) to improve accuracy by up to 15%.",
+  'face.enableCamera': "Enable Camera",
+  'face.skip': "Skip for now",
+  'face.centerHint': "Center your face in good light",
+  'face.noFace': "Look straight at the camera",
+  'face.moreLight': "More light on your face",
+  'face.lessLight': "Too bright: move out of direct light",
+  'face.evenLight': "Avoid light behind you or harsh shadows",
+  'face.moveCloser': "Move closer",
+  'face.moveBack': "Move back a little",
+  'face.centre': "Center your face in the frame",
+  'face.holdStill': "Hold still",
+  'face.neutralLight': "Use neutral white light",
+  'face.ready': "Looks good: take the photo",
+  'face.rejected': "This photo can't be used. {reason}",
+  'face.cameraNotReady': "The camera is still starting. Try again in a moment.",
+  'face.captureFailed': "The photo couldn't be checked. Try again, or skip this step.",
+
+  // --- Upload ---
+  'upload.title': "Upload Data",
+  'upload.voiceLabel': "Voice Sample (Required)",
+  'upload.tapToChange': "Tap to change",
+  'upload.selectAudio': "Select Audio File",
+  'upload.audioFormats': "MP3, WAV, M4A supported",
+  'upload.imageLabel': "Face Image (Optional)",
+  'upload.preview': "Preview",
+  'upload.imageSelected': "Image Selected",
+  'upload.selectImage': "Select Image",
+  'upload.imageFormats': "JPG, PNG supported",
+  'upload.analyze': "Analyze Data",
+  'upload.batch': "Validate a Dataset (Batch)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Processing Health Data",
+  'analyzing.step1': "Extracting voice biomarkers...",
+  'analyzing.step2': "Analyzing speech patterns...",
+  'analyzing.step3': "Evaluating vocal characteristics...",
+  'analyzing.step4': "Correlating with multimodal data...",
+  'analyzing.step5': "Generating personalized insights...",
+  'analyzing.retrying': "Connection issue, retrying (attempt {attempt})...",
+  'analyzing.footer': "Secure enclave processing",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Service Busy",
+  'error.safety.title': "Analysis Blocked",
+  'error.network.title': "Connection Problem",
+  'error.invalid_input.title': "Couldn't Read Recording",
+  'error.malformed_output.title': "Incomplete Analysis",
+  'error.quota': "The analysis service is at capacity right now. Please wait a few minutes and try again.",
+  'error.safety': "The analysis was blocked by content safety filters. Try recording again without background media or other voices.",
+  'error.network': "We couldn't reach the analysis service. Check your connection and try again.",
+  'error.invalidInput': "The recording couldn't be processed. Try recording again or choose a different file.",
+  'error.malformedOutput': "The analysis came back incomplete. Please try again.",
+  'error.cancelled': "Analysis cancelled.",
+  'error.unknown': "Something went wrong while analyzing. Please try again.",
+  'error.retry': "Try Again",
+  'error.recordAgain': "Record Again",
+  'error.chooseFile': "Choose Another File",
+  'error.viewSample': "View Sample Results",
+  'error.keptRecording': "Your recording is kept, so there is no need to record again.",
+  'error.keptFile': "Your file is kept, so there is no need to upload again.",
+
+  // --- Results ---
+  'results.newScan': "New Scan",
+  'results.history': "History",
+  'results.usage': "Usage",
+  'results.exportPdf': "Export PDF",
+  'results.exportFhir': "Export FHIR",
+  'results.exportFhirFailed': "The FHIR export could not be created. Please try again or export a PDF instead.",
+  'results.exportJson': "Export JSON",
+  'results.includeMedia': "Include recording and photo",
+  'results.includeMediaHint': "The file will contain your voice and face. Share it only with people you trust.",
+  'results.download': "Download",
+  'results.overallScore': "Overall Wellness Score",
+  'results.confidence': "Confidence: {level}",
+  'results.summary': "Summary",
+  'results.recommendations': "Recommendations",
+  'results.trends': "Trends",
+  'results.improving': "Improving",
+  'results.stable': "Stable",
+  'results.needsAttention': "Needs Attention",
+  'results.firstScreening': "This is your first saved screening. Trends appear once you have screened again.",
+  'results.profileNoChange': "Your profile was taken into account but did not change how these results were read.",
+  'results.voiceTasks': "Voice Tasks",
+  'results.disclaimer': "This is a screening tool, not a medical diagnosis. Consult a healthcare professional about any concerns.",
+
+  'report.title': "Clinical Screening Report",
+  'report.scoreOverview': "Score Overview",
+  'report.concernLevel': "Concern level",
+  'report.capturedImage': "Captured image",
+  'report.domainAnalysis': "Domain Analysis",
+  'report.comparedWith': "Percentiles compared with: {cohort}",
+  'report.scoreTrends': "Score Trends",
+  'report.keyObservations': "Key Observations",
+  'report.significance': "Significance:",
+  'report.reason': "Reason:",
+  'report.disclaimer': "DISCLAIMER:",
+  'report.page': "Page {page} of {count}",
+  'report.generatedBy': "Generated by VitalVoice AI powered by Gemini",
+
+  'confidence.low': "Low",
+  'confidence.medium': "Medium",
+  'confidence.high': "High",
+  'concern.low': "Low",
+  'concern.moderate': "Moderate",
+  'concern.elevated': "Elevated",
+  'concern.high': "High",
+  'urgency.routine': "Routine",
+  'urgency.soon': "Soon",
+  'urgency.prompt': "Prompt",
+
+  'domain.neurological': "Neurological",
+  'domain.mental_health': "Mental Health",
+  'domain.respiratory': "Respiratory",
+  'domain.cardiovascular': "Cardiovascular",
+  'domain.metabolic': "Metabolic",
+  'domain.hydration': "Hydration",
+  'domain.sleep_fatigue': "Sleep & Fatigue",
+  'domain.cognitive_load': "Cognitive Load",
+
+  'card.median': "Median: {value}",
+  'card.percentile': "{ordinal} percentile",
+  'card.noNorms': "No reference norms",
+  'card.fromTask': "From the {task} task",
+
+  'cohort.women': "Women {band}",
+  'cohort.men': "Men {band}",
+  'cohort.adults': "Adults {band}",
+  'cohort.allWomen': "All women",
+  'cohort.allMen': "All men",
+  'cohort.allAdults': "All adults",
+
+  'biomarkers.title': "Measured Biomarkers",
+  'biomarkers.computed': "Computed on this device from {seconds}s of audio.",
+  'biomarkers.f0Mean': "Mean Pitch (F0)",
+  'biomarkers.pitchRange': "Pitch Range",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Harmonics-to-Noise",
+  'biomarkers.pauseRatio': "Pause Ratio",
+  'biomarkers.syllableRate': "Syllable Rate",
+
+  // --- Chat ---
+  'chat.title': "VitalVoice Assistant",
+  'chat.limitReached': "Session limit reached",
+  'chat.remaining': "Messages remaining: {count}",
+  'chat.clear': "Clear Chat",
+  'chat.empty': "Ask me to explain any medical terms or give more wellness tips!",
+  'chat.transcribing': "Transcribing…",
+  'chat.noTranscript': "No transcript, so later replies won't see this message",
+  'chat.interrupted': "Response interrupted",
+  'chat.locked': "Chat limit reached for this session. Please restart analysis to chat more.",
+  'chat.placeholder': "Type a message...",
+  'chat.stop': "Stop generating",
+  'chat.stopped': "*Response stopped.*",
+  'chat.noResponse': "I couldn't process that response.",
+  'chat.connectionError': "I'm having trouble connecting to the VitalVoice servers right now. Please try again.",
+
+  // --- History ---
+  'history.title': "Screening History",
+  'history.empty': "No saved screenings yet. Completed screenings are stored on this device.",
+  'history.delete': "Delete Screening",
+  'history.import': "Import",
+  'history.exportCsv': "Export CSV",
+  'history.importFailed': "This file could not be imported. Choose a JSON file exported from VitalVoice.",
+  'history.notAnExport': "This file is not a VitalVoice screening export.",
+
+  // --- Profile ---
+  'profile.title': "Your Profile",
+  'profile.intro': "Every field is optional. Your answers help interpret your voice, e.g. what pitch is typical for your age, and choose who your scores are compared with. They are stored only on this device.",
+  'profile.age': "Age",
+  'profile.agePlaceholder': "e.g. 52",
+  'profile.ageInvalid': "Enter an age from 18 to 120.",
+  'profile.sexAtBirth': "Sex at birth",
+  'profile.notSpecified': "Not specified",
+  'profile.female': "Female",
+  'profile.male': "Male",
+  'profile.smoking': "Smoking",
+  'profile.never': "Never",
+  'profile.former': "Former",
+  'profile.current': "Current",
+  'profile.respiratory': "Known respiratory conditions",
+  'profile.respiratoryPlaceholder': "e.g. asthma, COPD",
+  'profile.neurological': "Known neurological conditions",
+  'profile.neurologicalPlaceholder': "e.g. migraine, Parkinson's disease",
+  'profile.medications': "Current medications",
+  'profile.medicationsPlaceholder': "Separate with commas",
+  'profile.clear': "Clear Profile",
+  'profile.save': "Save",
+
+  'profileField.age': "Age",
+  'profileField.sexAtBirth': "Sex at birth",
+  'profileField.smoker': "Smoking",
+  'profileField.respiratoryConditions': "Respiratory conditions",
+  'profileField.neurologicalConditions': "Neurological conditions",
+  'profileField.medications': "Medications",
+
+  // --- Batch validation ---
+  'batch.title': "Batch Validation",
+  'batch.intro': "Analyse a folder of recordings against a CSV manifest of ground-truth labels. The manifest needs a {file} column and one column per domain id (1 = condition present, 0 = absent), plus optional {score} reference scores. Progress is saved, so an interrupted run resumes where it stopped.",
+  'batch.selectFolder': "Select Audio Folder",
+  'batch.audioFiles': "Audio files: {count}",
+  'batch.selectManifest': "Select CSV Manifest",
+  'batch.manifestSummary': "Rows: {rows} · Domains: {domains}",
+  'batch.manifestUnreadable': "The manifest couldn't be read.",
+  'batch.manifestEmpty': "The manifest is empty.",
+  'batch.manifestNoFileColumn': "The manifest needs a {file} column naming each audio file.",
+  'batch.manifestNoDomains': "The manifest has no domain columns. Name them by domain id, e.g. {label} or {score}.",
+  'batch.manifestNoRows': "The manifest lists no files.",
+  'batch.ignoredColumn': "Ignored column \"{column}\": not a domain id.",
+  'batch.noFileName': "Line {line}: no file name, skipped.",
+  'batch.duplicateFile': "Line {line}: \"{file}\" is listed twice, only the first row is used.",
+  'batch.invalidLabel': "Line {line}: \"{value}\" is not a label for {domain}, left blank.",
+  'batch.invalidScore': "Line {line}: \"{value}\" is not a number for {column}, left blank.",
+  'batch.missingFiles': "Manifest files not found in the folder: {count}",
+  'batch.warnings': "Manifest warnings",
+  'batch.warningCount': "Warnings: {count}",
+  'batch.missing': "Missing: {file}",
+  'batch.parallel': "Parallel requests",
+  'batch.startOver': "Start Over",
+  'batch.resume': "Resume ({count} left)",
+  'batch.run': "Run All Files ({count})",
+  'batch.stop': "Stop",
+  'batch.stopping': "Stopping…",
+  'batch.progress': "Analysed: {done} · Failed: {failed} (retried on resume)",
+  'batch.fileTotal': "Files: {count}",
+  'batch.accuracy': "Per-Domain Accuracy",
+  'batch.csv': "CSV",
+  'batch.report': "Report",
+  'batch.domain': "Domain",
+  'batch.matrixHint': "True positive / false positive / false negative / true negative",
+  'batch.sensitivity': "Sensitivity",
+  'batch.specificity': "Specificity",
+  'batch.correlation': "Correlation",
+  'batch.pointBiserialHint': "Point-biserial r against labels; negative means lower scores for positive cases",
+  'batch.pearsonHint': "Pearson r against reference scores",
+  'batch.vsLabel': "vs label",
+  'batch.vsReference': "vs ref",
+  'batch.footnote': "Sensitivity and specificity use files with a label for that domain.",
+};
+
+export type Messages = typeof en;
+
+export default en;
@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const esES: Messages = {
+  // --- Common ---
+  'common.cancel': "Cancelar",
+  'common.backHome': "Volver al inicio",
+  'common.microphoneRequired': "Se necesita acceso al micrófono.",
+
+  // --- Recording checks ---
+  'audio.empty': "La grabación ha fallado (archivo vacío).",
+  'audio.tooShort': "Grabación demasiado corta. Se necesitan al menos {seconds} segundos para un análisis fiable.",
+  'audio.tooQuiet': "Grabación demasiado baja. Hable más alto o acérquese al micrófono.",
+  'audio.noSpeech': "No se ha detectado voz. Hable con claridad.",
+  'audio.unreadable': "No se ha podido validar el archivo de audio.",
+  'audio.failed': "La grabación ha fallado.",
+  'quality.title': "Comprobaciones de la grabación",
+  'quality.decodable': "Archivo de audio",
+  'quality.duration': "Duración",
+  'quality.speech': "Habla",
+  'quality.level': "Nivel de voz",
+  'quality.snr': "Ruido de fondo",
+  'quality.clipping': "Distorsión",
+  'quality.dc_offset': "Desviación del micrófono",
+  'quality.dropouts': "Cortes",
+  'quality.speechShort': "Solo se detectaron {seconds} s de habla; se necesitan al menos {minimum} s. Sigue hablando hasta que termine el temporizador.",
+  'quality.noisy': "El ruido de fondo está demasiado cerca de tu voz (solo {value} dB por debajo). Aléjate de ventiladores, tráfico u otras voces.",
+  'quality.clipped': "La grabación está distorsionada porque la entrada es demasiado fuerte. Aléjate un poco del micrófono.",
+  'quality.dcOffset': "La señal del micrófono está descentrada, lo que puede indicar un micrófono defectuoso. Prueba con otro si sigue ocurriendo.",
+  'quality.dropout': "El audio se cortó durante {seconds} s. Revisa las conexiones Bluetooth o USB y vuelve a grabar.",
+
+  // --- Modals ---
+  'limit.title': "Límite diario alcanzado",
+  'limit.body': "Para garantizar la disponibilidad del servicio y controlar los costes de investigación, limitamos el uso a {quota} por dispositivo.",
+  'limit.quota': "{limit} evaluaciones al día",
+  'limit.resetsAt': "Podrá hacer más evaluaciones a partir de {time}.",
+  'limit.sampleNote': "Puede seguir viendo la demostración interactiva con los datos de ejemplo, que no cuentan para su límite.",
+  'limit.ok': "Entendido",
+  'account.title': "Token de cuenta",
+  'account.hint': "¿Tienes un token de cuenta de tu estudio u organización? Introdúcelo para usar sus límites en lugar de los de este dispositivo.",
+  'account.placeholder': "Pega tu token",
+  'account.save': "Usar token",
+  'account.checking': "Comprobando…",
+  'account.rejected': "Este token no se ha aceptado.",
+  'account.active': "Usando un token de cuenta (nivel {tier})",
+  'account.remove': "Quitar",
+  'usage.title': "Uso y coste",
+  'usage.screening': "Esta evaluación",
+  'usage.today': "Hoy en este dispositivo",
+  'usage.recentDays': "Últimos días",
+  'usage.empty': "No se han registrado llamadas al modelo para esta evaluación.",
+  'usage.call': "Llamada",
+  'usage.calls': "Llamadas al modelo",
+  'usage.callCount': "{count} llamadas",
+  'usage.promptTokens': "Tokens de entrada",
+  'usage.outputTokens': "Tokens de salida",
+  'usage.totalTokens': "Tokens totales",
+  'usage.audioTokens': "Tokens de audio",
+  'usage.imageTokens': "Tokens de imagen",
+  'usage.estimatedCost': "Coste estimado",
+  'usage.kind.analysis': "Análisis",
+  'usage.kind.chat': "Respuesta del chat",
+  'usage.kind.transcription': "Transcripción",
+  'usage.unpriced': "{count} llamadas usaron un modelo que no está en la tabla de precios y no se han calculado.",
+  'usage.disclaimer': "Los costes son estimaciones a partir de precios de lista por millón de tokens, no una factura. No se incluyen las llamadas hechas en otros dispositivos ni antes del seguimiento de uso.",
+
+  'tech.title': "Arquitectura técnica",
+  'tech.models': "Modelos de IA utilizados",
+  'tech.flashDescription': "Análisis multimodal de baja latencia de audio (PCM) y fotogramas de vídeo.",
+  'tech.proDescription': "Razonamiento complejo para la correlación clínica y el análisis de tendencias.",
+  'tech.pipeline': "Flujo de datos",
+  'tech.pipelineCapture': "Captura de audio sin procesar (WebM/PCM)",
+  'tech.pipelineEncoding': "Codificación Base64 en el cliente",
+  'tech.pipelineRequest': "Solicitud multimodal a la API de Gemini",
+  'tech.pipelineResponse': "Respuesta JSON estructurada",
+  'tech.sampleRequest': "Ejemplo de solicitud a la API",
+  'tech.footer': "Basado en artículos de investigación sobre el análisis acústico de biomarcadores vocales en neurología.",
+
+  // --- Intro ---
+  'intro.badge': "Preparado para validez clínica",
+  'intro.tagline': "Cribado de salud avanzado con tecnología de {model}.",
+  'intro.selectedLanguage': "Idioma seleccionado:",
+  'intro.watchDemo': "Ver demostración",
+  'intro.start': "Iniciar evaluación",
+  'intro.sample': "Probar con datos de ejemplo (al instante)",
+  'intro.addProfile': "Añadir perfil",
+  'intro.editProfile': "Editar perfil",
+  'intro.trustedResearch': "Investigación de confianza",
+  'intro.privacyFirst': "Privacidad ante todo",
+  'intro.secureProcessing': "Procesamiento seguro",
+  'intro.viewArchitecture': "Ver arquitectura",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Tarea {step} de {total} · {task}",
+  'recording.getReady': "Prepárese",
+  'recording.listening': "Escuchando...",
+  'recording.goodVolume': "Volumen perfecto",
+  'coach.tooLoud': "Aleje un poco el micrófono",
+  'coach.noisy': "Demasiado ruido de fondo",
+  'coach.tooFar': "Acérquese al micrófono",
+  'coach.silence': "Empiece a hablar cuando esté listo",
+  'recording.usableSpeech': "{seconds} de {target} s de voz útil",
+  'recording.stopEarly': "Detener antes",
+  'recording.start': "Empezar a grabar",
+  'recording.skipTask': "Omitir esta tarea",
+
+  'task.sustained_vowel.label': "Vocal sostenida",
+  'task.sustained_vowel.instruction': "Respire hondo y diga «aaah» con un tono y volumen cómodos durante todo el tiempo que pueda.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Repita «pa-ta-ka» lo más rápido y claro que pueda hasta que termine el temporizador.",
+  'task.reading.label': "Lectura de texto",
+  'task.reading.instruction': "Lea este texto en voz alta a su ritmo habitual:",
+  'task.free_speech.label': "Habla libre",
+  'task.free_speech.instruction': "Responda con sus propias palabras:",
+  'task.vowelNoVoice': "No se ha detectado una voz estable. Mantenga un único sonido «aaah» sin susurrar.",
+  'task.vowelInterrupted': "El sonido se ha interrumpido. Inspire primero y mantenga «aaah» en una sola respiración.",
+  'task.ddkTooFew': "Se han detectado muy pocas sílabas. Repita «pa-ta-ka» sin pausas y lo más rápido que pueda.",
+  'task.readingSilent': "Se ha detectado sobre todo silencio. Lea todo el texto en voz alta desde el principio.",
+
+  // --- Face capture ---
+  'face.title': "¿Añadir análisis visual?",
+  'face.body': "VitalVoice puede analizar biomarcadores faciales (palidez, signos de hidratación, simetría) para mejorar la precisión hasta en un 15 %.",
+  'face.enableCamera': "Activar cámara",
+  'face.skip': "Omitir por ahora",
+  'face.centerHint': "Centre la cara con buena iluminación",
+  'face.noFace': "Mire directamente a la cámara",
+  'face.moreLight': "Más luz en la cara",
+  'face.lessLight': "Demasiado brillo: apártese de la luz directa",
+  'face.evenLight': "Evite la luz por detrás o las sombras duras",
+  'face.moveCloser': "Acérquese",
+  'face.moveBack': "Aléjese un poco",
+  'face.centre': "Centre la cara en el encuadre",
+  'face.holdStill': "No se mueva",
+  'face.neutralLight': "Use luz blanca neutra",
+  'face.ready': "Todo bien: haga la foto",
+  'face.rejected': "Esta foto no se puede usar. {reason}",
+  'face.cameraNotReady': "La cámara todavía se está iniciando. Inténtalo de nuevo en un momento.",
+  'face.captureFailed': "No se ha podido comprobar la foto. Inténtalo de nuevo u omite este paso.",
+
+  // --- Upload ---
+  'upload.title': "Subir datos",
+  'upload.voiceLabel': "Muestra de voz (obligatoria)",
+  'upload.tapToChange': "Toque para cambiar",
+  'upload.selectAudio': "Seleccionar archivo de audio",
+  'upload.audioFormats': "Admite MP3, WAV y M4A",
+  'upload.imageLabel': "Imagen facial (opcional)",
+  'upload.preview': "Vista previa",
+  'upload.imageSelected': "Imagen seleccionada",
+  'upload.selectImage': "Seleccionar imagen",
+  'upload.imageFormats': "Admite JPG y PNG",
+  'upload.analyze': "Analizar datos",
+  'upload.batch': "Validar un conjunto de datos (lote)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Procesando datos de salud",
+  'analyzing.step1': "Extrayendo biomarcadores de voz...",
+  'analyzing.step2': "Analizando patrones del habla...",
+  'analyzing.step3': "Evaluando características vocales...",
+  'analyzing.step4': "Correlacionando con datos multimodales...",
+  'analyzing.step5': "Generando recomendaciones personalizadas...",
+  'analyzing.retrying': "Problema de conexión, reintentando (intento {attempt})...",
+  'analyzing.footer': "Procesamiento en entorno seguro",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Servicio saturado",
+  'error.safety.title': "Análisis bloqueado",
+  'error.network.title': "Problema de conexión",
+  'error.invalid_input.title': "No se ha podido leer la grabación",
+  'error.malformed_output.title': "Análisis incompleto",
+  'error.quota': "El servicio de análisis está al máximo de su capacidad. Espere unos minutos y vuelva a intentarlo.",
+  'error.safety': "Los filtros de seguridad de contenido han bloqueado el análisis. Vuelva a grabar sin música de fondo ni otras voces.",
+  'error.network': "No hemos podido conectar con el servicio de análisis. Compruebe su conexión y vuelva a intentarlo.",
+  'error.invalidInput': "No se ha podido procesar la grabación. Vuelva a grabar o elija otro archivo.",
+  'error.malformedOutput': "El análisis ha llegado incompleto. Vuelva a intentarlo.",
+  'error.cancelled': "Análisis cancelado.",
+  'error.unknown': "Algo ha fallado durante el análisis. Vuelva a intentarlo.",
+  'error.retry': "Reintentar",
+  'error.recordAgain': "Volver a grabar",
+  'error.chooseFile': "Elegir otro archivo",
+  'error.viewSample': "Ver resultados de ejemplo",
+  'error.keptRecording': "Su grabación se conserva, así que no hace falta volver a grabar.",
+  'error.keptFile': "Su archivo se conserva, así que no hace falta volver a subirlo.",
+
+  // --- Results ---
+  'results.newScan': "Nueva evaluación",
+  'results.history': "Historial",
+  'results.usage': "Uso",
+  'results.exportPdf': "Exportar PDF",
+  'results.exportFhir': "Exportar FHIR",
+  'results.exportFhirFailed': "No se pudo crear la exportación FHIR. Inténtalo de nuevo o exporta un PDF.",
+  'results.exportJson': "Exportar JSON",
+  'results.includeMedia': "Incluir grabación y foto",
+  'results.includeMediaHint': "El archivo contendrá tu voz y tu rostro. Compártelo solo con personas de confianza.",
+  'results.download': "Descargar",
+  'results.overallScore': "Puntuación global de bienestar",
+  'results.confidence': "Confianza: {level}",
+  'results.summary': "Resumen",
+  'results.recommendations': "Recomendaciones",
+  'results.trends': "Tendencias",
+  'results.improving': "Mejorando",
+  'results.stable': "Estable",
+  'results.needsAttention': "Requiere atención",
+  'results.firstScreening': "Esta es su primera evaluación guardada. Las tendencias aparecerán cuando vuelva a evaluarse.",
+  'results.profileNoChange': "Se ha tenido en cuenta su perfil, pero no ha cambiado la interpretación de estos resultados.",
+  'results.voiceTasks': "Tareas de voz",
+  'results.disclaimer': "Esta es una herramienta de cribado, no un diagnóstico médico. Consulta a un profesional sanitario sobre cualquier duda.",
+
+  'report.title': "Informe de cribado clínico",
+  'report.scoreOverview': "Resumen de puntuaciones",
+  'report.concernLevel': "Nivel de preocupación",
+  'report.capturedImage': "Imagen capturada",
+  'report.domainAnalysis': "Análisis por áreas",
+  'report.comparedWith': "Percentiles comparados con: {cohort}",
+  'report.scoreTrends': "Tendencias de puntuación",
+  'report.keyObservations': "Observaciones clave",
+  'report.significance': "Importancia:",
+  'report.reason': "Motivo:",
+  'report.disclaimer': "AVISO LEGAL:",
+  'report.page': "Página {page} de {count}",
+  'report.generatedBy': "Generado por VitalVoice AI con tecnología de Gemini",
+
+  'confidence.low': "Baja",
+  'confidence.medium': "Media",
+  'confidence.high': "Alta",
+  'concern.low': "Bajo",
+  'concern.moderate': "Moderado",
+  'concern.elevated': "Elevado",
+  'concern.high': "Alto",
+  'urgency.routine': "Rutinaria",
+  'urgency.soon': "Pronto",
+  'urgency.prompt': "Urgente",
+
+  'domain.neurological': "Neurológico",
+  'domain.mental_health': "Salud mental",
+  'domain.respiratory': "Respiratorio",
+  'domain.cardiovascular': "Cardiovascular",
+  'domain.metabolic': "Metabólico",
+  'domain.hydration': "Hidratación",
+  'domain.sleep_fatigue': "Sueño y fatiga",
+  'domain.cognitive_load': "Carga cognitiva",
+
+  'card.median': "Mediana: {value}",
+  'card.percentile': "Percentil {value}",
+  'card.noNorms': "Sin normas de referencia",
+  'card.fromTask': "De la tarea {task}",
+
+  'cohort.women': "Mujeres {band}",
+  'cohort.men': "Hombres {band}",
+  'cohort.adults': "Adultos {band}",
+  'cohort.allWomen': "Todas las mujeres",
+  'cohort.allMen': "Todos los hombres",
+  'cohort.allAdults': "Todos los adultos",
+
+  'biomarkers.title': "Biomarcadores medidos",
+  'biomarkers.computed': "Calculados en este dispositivo a partir de {seconds} s de audio.",
+  'biomarkers.f0Mean': "Tono medio (F0)",
+  'biomarkers.pitchRange': "Rango tonal",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Relación armónicos-ruido",
+  'biomarkers.pauseRatio': "Proporción de pausas",
+  'biomarkers.syllableRate': "Velocidad silábica",
+
+  // --- Chat ---
+  'chat.title': "Asistente VitalVoice",
+  'chat.limitReached': "Límite de la sesión alcanzado",
+  'chat.remaining': "Mensajes restantes: {count}",
+  'chat.clear': "Borrar chat",
+  'chat.empty': "¡Pídame que le explique cualquier término médico o que le dé más consejos de bienestar!",
+  'chat.transcribing': "Transcribiendo…",
+  'chat.noTranscript': "Sin transcripción, así que las siguientes respuestas no verán este mensaje",
+  'chat.interrupted': "Respuesta interrumpida",
+  'chat.locked': "Se ha alcanzado el límite de chat de esta sesión. Reinicie el análisis para seguir conversando.",
+  'chat.placeholder': "Escriba un mensaje...",
+  'chat.stop': "Detener la generación",
+  'chat.stopped': "*Respuesta detenida.*",
+  'chat.noResponse': "No he podido procesar esa respuesta.",
+  'chat.connectionError': "Ahora mismo tengo problemas para conectar con los servidores de VitalVoice. Inténtalo de nuevo.",
+
+  // --- History ---
+  'history.title': "Historial de evaluaciones",
+  'history.empty': "Aún no hay evaluaciones guardadas. Las evaluaciones completadas se guardan en este dispositivo.",
+  'history.delete': "Eliminar evaluación",
+  'history.import': "Importar",
+  'history.exportCsv': "Exportar CSV",
+  'history.importFailed': "No se pudo importar este archivo. Elige un archivo JSON exportado desde VitalVoice.",
+  'history.notAnExport': "Este archivo no es una exportación de cribado de VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "Su perfil",
+  'profile.intro': "Todos los campos son opcionales. Sus respuestas ayudan a interpretar su voz (por ejemplo, qué tono es habitual a su edad) y a elegir con quién se comparan sus puntuaciones. Solo se guardan en este dispositivo.",
+  'profile.age': "Edad",
+  'profile.agePlaceholder': "p. ej., 52",
+  'profile.ageInvalid': "Introduzca una edad entre 18 y 120.",
+  'profile.sexAtBirth': "Sexo al nacer",
+  'profile.notSpecified': "Sin especificar",
+  'profile.female': "Femenino",
+  'profile.male': "Masculino",
+  'profile.smoking': "Tabaco",
+  'profile.never': "Nunca",
+  'profile.former': "Exfumador",
+  'profile.current': "Actual",
+  'profile.respiratory': "Enfermedades respiratorias conocidas",
+  'profile.respiratoryPlaceholder': "p. ej., asma, EPOC",
+  'profile.neurological': "Enfermedades neurológicas conocidas",
+  'profile.neurologicalPlaceholder': "p. ej., migraña, enfermedad de Parkinson",
+  'profile.medications': "Medicación actual",
+  'profile.medicationsPlaceholder': "Separe con comas",
+  'profile.clear': "Borrar perfil",
+  'profile.save': "Guardar",
+
+  'profileField.age': "Edad",
+  'profileField.sexAtBirth': "Sexo al nacer",
+  'profileField.smoker': "Tabaco",
+  'profileField.respiratoryConditions': "Enfermedades respiratorias",
+  'profileField.neurologicalConditions': "Enfermedades neurológicas",
+  'profileField.medications': "Medicación",
+
+  // --- Batch validation ---
+  'batch.title': "Validación por lotes",
+  'batch.intro': "Analice una carpeta de grabaciones frente a un manifiesto CSV con etiquetas de referencia. El manifiesto necesita una columna {file} y una columna por id de dominio (1 = afección presente, 0 = ausente), además de puntuaciones de referencia opcionales {score}. El progreso se guarda, así que una ejecución interrumpida continúa donde se detuvo.",
+  'batch.selectFolder': "Seleccionar carpeta de audio",
+  'batch.audioFiles': "Archivos de audio: {count}",
+  'batch.selectManifest': "Seleccionar manifiesto CSV",
+  'batch.manifestSummary': "Filas: {rows} · Dominios: {domains}",
+  'batch.manifestUnreadable': "No se ha podido leer el manifiesto.",
+  'batch.manifestEmpty': "El manifiesto está vacío.",
+  'batch.manifestNoFileColumn': "El manifiesto necesita una columna {file} con el nombre de cada archivo de audio.",
+  'batch.manifestNoDomains': "El manifiesto no tiene columnas de áreas. Nómbralas con el id del área, p. ej. {label} o {score}.",
+  'batch.manifestNoRows': "El manifiesto no incluye archivos.",
+  'batch.ignoredColumn': "Columna «{column}» ignorada: no es un id de área.",
+  'batch.noFileName': "Línea {line}: sin nombre de archivo, omitida.",
+  'batch.duplicateFile': "Línea {line}: «{file}» aparece dos veces, solo se usa la primera fila.",
+  'batch.invalidLabel': "Línea {line}: «{value}» no es una etiqueta para {domain}, se deja en blanco.",
+  'batch.invalidScore': "Línea {line}: «{value}» no es un número para {column}, se deja en blanco.",
+  'batch.missingFiles': "Archivos del manifiesto que no están en la carpeta: {count}",
+  'batch.warnings': "Advertencias del manifiesto",
+  'batch.warningCount': "Advertencias: {count}",
+  'batch.missing': "Falta: {file}",
+  'batch.parallel': "Solicitudes en paralelo",
+  'batch.startOver': "Empezar de nuevo",
+  'batch.resume': "Reanudar (quedan {count})",
+  'batch.run': "Procesar todos los archivos ({count})",
+  'batch.stop': "Detener",
+  'batch.stopping': "Deteniendo…",
+  'batch.progress': "Analizados: {done} · Fallidos: {failed} (se reintentan al reanudar)",
+  'batch.fileTotal': "Archivos: {count}",
+  'batch.accuracy': "Precisión por dominio",
+  'batch.csv': "CSV",
+  'batch.report': "Informe",
+  'batch.domain': "Dominio",
+  'batch.matrixHint': "Verdaderos positivos / falsos positivos / falsos negativos / verdaderos negativos",
+  'batch.sensitivity': "Sensibilidad",
+  'batch.specificity': "Especificidad",
+  'batch.correlation': "Correlación",
+  'batch.pointBiserialHint': "r biserial puntual frente a las etiquetas; un valor negativo indica puntuaciones más bajas en los casos positivos",
+  'batch.pearsonHint': "r de Pearson frente a las puntuaciones de referencia",
+  'batch.vsLabel': "vs. etiqueta",
+  'batch.vsReference': "vs. ref.",
+  'batch.footnote': "La sensibilidad y la especificidad usan los archivos con etiqueta para ese dominio.",
+};
+
+export default esES;
@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const filPH: Messages = {
+  // --- Common ---
+  'common.cancel': "Kanselahin",
+  'common.backHome': "Bumalik sa Home",
+  'common.microphoneRequired': "Kailangan ang access sa mikropono.",
+
+  // --- Recording checks ---
+  'audio.empty': "Nabigo ang pag-record (walang laman ang file).",
+  'audio.tooShort': "Masyadong maikli ang recording. Kailangan ng hindi bababa sa {seconds} segundo para sa tumpak na pagsusuri.",
+  'audio.tooQuiet': "Masyadong mahina ang recording. Magsalita nang mas malakas o lumapit sa mikropono.",
+  'audio.noSpeech': "Walang natukoy na pananalita. Magsalita nang malinaw.",
+  'audio.unreadable': "Hindi ma-verify ang audio file.",
+  'audio.failed': "Nabigo ang pag-record.",
+  'quality.title': "Mga pagsusuri sa recording",
+  'quality.decodable': "Audio file",
+  'quality.duration': "Haba",
+  'quality.speech': "Pananalita",
+  'quality.level': "Lakas ng boses",
+  'quality.snr': "Ingay sa paligid",
+  'quality.clipping': "Distortion",
+  'quality.dc_offset': "Offset ng mikropono",
+  'quality.dropouts': "Pagkaputol",
+  'quality.speechShort': "{seconds} segundo lang ng pananalita ang natukoy; kailangan ng hindi bababa sa {minimum} segundo. Patuloy na magsalita hanggang matapos ang timer.",
+  'quality.noisy': "Masyadong malapit ang ingay sa paligid sa iyong boses ({value} dB lang ang pagitan). Lumayo sa bentilador, trapiko o ibang boses.",
+  'quality.clipped': "Distorted ang recording dahil masyadong malakas ang input. Lumayo nang kaunti sa mikropono.",
+  'quality.dcOffset': "Wala sa gitna ang signal ng mikropono, na maaaring senyales ng sirang mikropono. Sumubok ng ibang mikropono kung paulit-ulit ito.",
+  'quality.dropout': "Naputol ang audio nang {seconds} segundo. Suriin ang Bluetooth o USB na koneksyon at mag-record muli.",
+
+  // --- Modals ---
+  'limit.title': "Naabot na ang Pang-araw-araw na Limit",
+  'limit.body': "Para manatiling available ang serbisyo at makontrol ang gastos sa pananaliksik, nililimitahan namin ang paggamit sa {quota} bawat device.",
+  'limit.quota': "{limit} screening bawat araw",
+  'limit.resetsAt': "Magkakaroon muli ng mga screening simula {time}.",
+  'limit.sampleNote': "Maaari mo pa ring subukan ang interactive na demo gamit ang sample data, at hindi ito bibilangin sa iyong limit.",
+  'limit.ok': "Naiintindihan ko",
+  'account.title': "Token ng account",
+  'account.hint': "May account token ka ba mula sa iyong pag-aaral o organisasyon? Ilagay ito para gamitin ang mga limitasyon nito sa halip na sa device na ito.",
+  'account.placeholder': "I-paste ang iyong token",
+  'account.save': "Gamitin ang Token",
+  'account.checking': "Sinusuri…",
+  'account.rejected': "Hindi tinanggap ang token na ito.",
+  'account.active': "Gumagamit ng account token (tier na {tier})",
+  'account.remove': "Alisin",
+  'usage.title': "Paggamit at gastos",
+  'usage.screening': "Ang screening na ito",
+  'usage.today': "Ngayon sa device na ito",
+  'usage.recentDays': "Mga nakaraang araw",
+  'usage.empty': "Walang naitalang tawag sa model para sa screening na ito.",
+  'usage.call': "Tawag",
+  'usage.calls': "Mga tawag sa model",
+  'usage.callCount': "{count} tawag",
+  'usage.promptTokens': "Input token",
+  'usage.outputTokens': "Output token",
+  'usage.totalTokens': "Kabuuang token",
+  'usage.audioTokens': "Audio token",
+  'usage.imageTokens': "Image token",
+  'usage.estimatedCost': "Tinatayang gastos",
+  'usage.kind.analysis': "Pagsusuri",
+  'usage.kind.chat': "Sagot sa chat",
+  'usage.kind.transcription': "Transkripsyon",
+  'usage.unpriced': "{count} tawag ang gumamit ng model na wala sa talaan ng presyo kaya hindi nabilang ang gastos.",
+  'usage.disclaimer': "Ang gastos ay tantiya mula sa listahan ng presyo kada milyong token, hindi bill. Hindi kasama ang mga tawag sa ibang device o bago nagsimula ang pagsubaybay sa paggamit.",
+
+  'tech.title': "Teknikal na Arkitektura",
+  'tech.models': "Mga AI Model na Ginamit",
+  'tech.flashDescription': "Mabilis na multimodal na pagsusuri ng audio (PCM) at mga video frame.",
+  'tech.proDescription': "Masalimuot na pangangatwiran para sa clinical correlation at pagsusuri ng trend.",
+  'tech.pipeline': "Daloy ng Data",
+  'tech.pipelineCapture': "Pagkuha ng raw audio (WebM/PCM)",
+  'tech.pipelineEncoding': "Base64 encoding sa client",
+  'tech.pipelineRequest': "Multimodal na request sa Gemini API",
+  'tech.pipelineResponse': "Structured na JSON na tugon",
+  'tech.sampleRequest': "Halimbawang API Request",
+  'tech.footer': "Batay sa mga research paper tungkol sa acoustic analysis ng mga voice biomarker sa neurolohiya.",
+
+  // --- Intro ---
+  'intro.badge': "Handa para sa Clinical Validation",
+  'intro.tagline': "Advanced na health screening na pinapagana ng {model}.",
+  'intro.selectedLanguage': "Napiling wika:",
+  'intro.watchDemo': "Panoorin ang Demo",
+  'intro.start': "Simulan ang Screening",
+  'intro.sample': "Subukan gamit ang Sample Data (Agad)",
+  'intro.addProfile': "Magdagdag ng profile",
+  'intro.editProfile': "I-edit ang profile",
+  'intro.trustedResearch': "Mapagkakatiwalaang Pananaliksik",
+  'intro.privacyFirst': "Privacy Muna",
+  'intro.secureProcessing': "Ligtas na Pagproseso",
+  'intro.viewArchitecture': "Tingnan ang Arkitektura",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Gawain {step} ng {total} · {task}",
+  'recording.getReady': "Maghanda",
+  'recording.listening': "Nakikinig...",
+  'recording.goodVolume': "Perpekto ang volume",
+  'coach.tooLoud': "Ilayo nang kaunti ang mikropono",
+  'coach.noisy': "Masyadong maingay ang paligid",
+  'coach.tooFar': "Lumapit sa mikropono",
+  'coach.silence': "Magsimulang magsalita kapag handa ka na",
+  'recording.usableSpeech': "{seconds} sa {target} s na magagamit na pananalita",
+  'recording.stopEarly': "Ihinto nang Maaga",
+  'recording.start': "Simulan ang Pag-record",
+  'recording.skipTask': "Laktawan ang gawaing ito",
+
+  'task.sustained_vowel.label': "Mahabang Patinig",
+  'task.sustained_vowel.instruction': "Huminga nang malalim, pagkatapos ay sabihin ang \"aaah\" nang pinakamatagal hangga't kaya sa komportableng tono at lakas.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Ulitin ang \"pa-ta-ka\" nang pinakamabilis at pinakamalinaw hangga't kaya hanggang matapos ang timer.",
+  'task.reading.label': "Pagbasa ng Talata",
+  'task.reading.instruction': "Basahin nang malakas ang talatang ito sa karaniwan mong bilis:",
+  'task.free_speech.label': "Malayang Pananalita",
+  'task.free_speech.instruction': "Sumagot sa sarili mong mga salita:",
+  'task.vowelNoVoice': "Walang natukoy na tuloy-tuloy na boses. Panatilihin ang iisang tunog na \"aaah\" nang hindi bumubulong.",
+  'task.vowelInterrupted': "Naputol ang tunog. Huminga muna, pagkatapos ay panatilihin ang \"aaah\" sa isang hininga.",
+  'task.ddkTooFew': "Masyadong kaunti ang natukoy na pantig. Ulitin ang \"pa-ta-ka\" nang walang tigil at pinakamabilis hangga't kaya.",
+  'task.readingSilent': "Halos katahimikan lang ang natukoy. Basahin nang malakas ang buong talata mula sa simula.",
+
+  // --- Face capture ---
+  'face.title': "Idagdag ang Pagsusuri ng Mukha?",
+  'face.body': "Kayang suriin ng VitalVoice ang mga biomarker sa mukha (pamumutla, senyales ng dehydration, simetriya) para mapataas ang katumpakan nang hanggang 15%.",
+  'face.enableCamera': "I-on ang Camera",
+  'face.skip': "Laktawan muna",
+  'face.centerHint': "Ilagay ang mukha sa gitna at sa maliwanag na lugar",
+  'face.noFace': "Tumingin nang diretso sa camera",
+  'face.moreLight': "Dagdagan ang ilaw sa mukha",
+  'face.lessLight': "Masyadong maliwanag: umalis sa direktang ilaw",
+  'face.evenLight': "Iwasan ang ilaw sa likod mo o matitinding anino",
+  'face.moveCloser': "Lumapit pa",
+  'face.moveBack': "Umatras nang kaunti",
+  'face.centre': "Igitna ang mukha sa frame",
+  'face.holdStill': "Huwag gumalaw",
+  'face.neutralLight': "Gumamit ng neutral na puting ilaw",
+  'face.ready': "Maayos na: kunan ang larawan",
+  'face.rejected': "Hindi magagamit ang larawang ito. {reason}",
+  'face.cameraNotReady': "Nagsisimula pa ang camera. Subukang muli maya-maya.",
+  'face.captureFailed': "Hindi nasuri ang larawan. Subukang muli, o laktawan ang hakbang na ito.",
+
+  // --- Upload ---
+  'upload.title': "Mag-upload ng Data",
+  'upload.voiceLabel': "Sample ng Boses (Kailangan)",
+  'upload.tapToChange': "I-tap para palitan",
+  'upload.selectAudio': "Pumili ng Audio File",
+  'upload.audioFormats': "Sinusuportahan ang MP3, WAV, M4A",
+  'upload.imageLabel': "Larawan ng Mukha (Opsyonal)",
+  'upload.preview': "Preview",
+  'upload.imageSelected': "Napili ang Larawan",
+  'upload.selectImage': "Pumili ng Larawan",
+  'upload.imageFormats': "Sinusuportahan ang JPG, PNG",
+  'upload.analyze': "Suriin ang Data",
+  'upload.batch': "I-validate ang dataset (batch)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Pinoproseso ang Data ng Kalusugan",
+  'analyzing.step1': "Kinukuha ang mga voice biomarker...",
+  'analyzing.step2': "Sinusuri ang mga pattern ng pananalita...",
+  'analyzing.step3': "Tinatasa ang mga katangian ng boses...",
+  'analyzing.step4': "Inihahambing sa multimodal na data...",
+  'analyzing.step5': "Binubuo ang mga personal na rekomendasyon...",
+  'analyzing.retrying': "May problema sa koneksyon, sinusubukang muli (subok {attempt})...",
+  'analyzing.footer': "Pinoproseso sa ligtas na kapaligiran",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Abala ang serbisyo",
+  'error.safety.title': "Na-block ang pagsusuri",
+  'error.network.title': "Problema sa koneksyon",
+  'error.invalid_input.title': "Hindi mabasa ang recording",
+  'error.malformed_output.title': "Hindi kumpletong pagsusuri",
+  'error.quota': "Puno ngayon ang serbisyo ng pagsusuri. Maghintay ng ilang minuto at subukang muli.",
+  'error.safety': "Na-block ng mga content safety filter ang pagsusuri. Mag-record muli nang walang media sa background o ibang boses.",
+  'error.network': "Hindi maabot ang serbisyo ng pagsusuri. Suriin ang iyong koneksyon at subukang muli.",
+  'error.invalidInput': "Hindi maproseso ang recording. Mag-record muli o pumili ng ibang file.",
+  'error.malformedOutput': "Hindi kumpleto ang bumalik na pagsusuri. Pakisubukang muli.",
+  'error.cancelled': "Kinansela ang pagsusuri.",
+  'error.unknown': "May nangyaring mali habang sinusuri. Pakisubukang muli.",
+  'error.retry': "Subukang muli",
+  'error.recordAgain': "Mag-record muli",
+  'error.chooseFile': "Pumili ng ibang file",
+  'error.viewSample': "Tingnan ang sample na resulta",
+  'error.keptRecording': "Naitabi ang iyong recording, kaya hindi mo na kailangang mag-record muli.",
+  'error.keptFile': "Naitabi ang iyong file, kaya hindi mo na kailangang mag-upload muli.",
+
+  // --- Results ---
+  'results.newScan': "Bagong Screening",
+  'results.history': "Kasaysayan",
+  'results.usage': "Paggamit",
+  'results.exportPdf': "I-export ang PDF",
+  'results.exportFhir': "I-export ang FHIR",
+  'results.exportFhirFailed': "Hindi magawa ang FHIR export. Subukang muli o mag-export na lang ng PDF.",
+  'results.exportJson': "I-export ang JSON",
+  'results.includeMedia': "Isama ang recording at larawan",
+  'results.includeMediaHint': "Maglalaman ang file ng iyong boses at mukha. Ibahagi lang ito sa mga taong pinagkakatiwalaan mo.",
+  'results.download': "I-download",
+  'results.overallScore': "Kabuuang Wellness Score",
+  'results.confidence': "Kumpiyansa: {level}",
+  'results.summary': "Buod",
+  'results.recommendations': "Mga Rekomendasyon",
+  'results.trends': "Mga Trend",
+  'results.improving': "Bumubuti",
+  'results.stable': "Matatag",
+  'results.needsAttention': "Kailangang bantayan",
+  'results.firstScreening': "Ito ang una mong naka-save na screening. Mag-screening muli sa ibang pagkakataon para makita ang mga trend.",
+  'results.profileNoChange': "Isinaalang-alang ang iyong profile, pero hindi nito binago ang interpretasyon ng mga resultang ito.",
+  'results.voiceTasks': "Mga Gawain sa Boses",
+  'results.disclaimer': "Ito ay isang screening tool, hindi isang medikal na diyagnosis. Kumonsulta sa isang propesyonal sa kalusugan tungkol sa anumang alalahanin.",
+
+  'report.title': "Ulat ng Klinikal na Screening",
+  'report.scoreOverview': "Buod ng mga Iskor",
+  'report.concernLevel': "Antas ng alalahanin",
+  'report.capturedImage': "Nakuhang larawan",
+  'report.domainAnalysis': "Pagsusuri ayon sa Larangan",
+  'report.comparedWith': "Mga percentile kumpara sa: {cohort}",
+  'report.scoreTrends': "Takbo ng mga Iskor",
+  'report.keyObservations': "Mahahalagang Obserbasyon",
+  'report.significance': "Kahalagahan:",
+  'report.reason': "Dahilan:",
+  'report.disclaimer': "PAALALA:",
+  'report.page': "Pahina {page} ng {count}",
+  'report.generatedBy': "Ginawa ng VitalVoice AI na pinapagana ng Gemini",
+
+  'confidence.low': "Mababa",
+  'confidence.medium': "Katamtaman",
+  'confidence.high': "Mataas",
+  'concern.low': "Mababa",
+  'concern.moderate': "Katamtaman",
+  'concern.elevated': "Tumaas",
+  'concern.high': "Mataas",
+  'urgency.routine': "Karaniwan",
+  'urgency.soon': "Sa lalong madaling panahon",
+  'urgency.prompt': "Agaran",
+
+  'domain.neurological': "Neurolohikal",
+  'domain.mental_health': "Kalusugang Pangkaisipan",
+  'domain.respiratory': "Paghinga",
+  'domain.cardiovascular': "Puso at mga Ugat",
+  'domain.metabolic': "Metabolismo",
+  'domain.hydration': "Hydration",
+  'domain.sleep_fatigue': "Tulog at Pagod",
+  'domain.cognitive_load': "Cognitive Load",
+
+  'card.median': "Median: {value}",
+  'card.percentile': "Ika-{value} na percentile",
+  'card.noNorms': "Walang reference norms",
+  'card.fromTask': "Mula sa gawaing {task}",
+
+  'cohort.women': "Kababaihan {band}",
+  'cohort.men': "Kalalakihan {band}",
+  'cohort.adults': "Mga nasa hustong gulang {band}",
+  'cohort.allWomen': "Lahat ng kababaihan",
+  'cohort.allMen': "Lahat ng kalalakihan",
+  'cohort.allAdults': "Lahat ng nasa hustong gulang",
+
+  'biomarkers.title': "Mga Nasukat na Biomarker",
+  'biomarkers.computed': "Kinalkula sa device na ito mula sa {seconds} segundo ng audio.",
+  'biomarkers.f0Mean': "Karaniwang tono (F0)",
+  'biomarkers.pitchRange': "Saklaw ng tono",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Harmonics-to-noise ratio",
+  'biomarkers.pauseRatio': "Ratio ng paghinto",
+  'biomarkers.syllableRate': "Bilis ng pantig",
+
+  // --- Chat ---
+  'chat.title': "VitalVoice Assistant",
+  'chat.limitReached': "Naabot na ang limit ng session",
+  'chat.remaining': "Natitirang mensahe: {count}",
+  'chat.clear': "I-clear ang chat",
+  'chat.empty': "Hilingin sa akin na ipaliwanag ang anumang terminong medikal o magbigay ng iba pang wellness tips!",
+  'chat.transcribing': "Tina-transcribe…",
+  'chat.noTranscript': "Walang transcript, kaya hindi makikita ng mga susunod na sagot ang mensaheng ito",
+  'chat.interrupted': "Naputol ang sagot",
+  'chat.locked': "Naabot na ang limit ng chat para sa session na ito. I-restart ang pagsusuri para magpatuloy.",
+  'chat.placeholder': "Mag-type ng mensahe...",
+  'chat.stop': "Ihinto ang pagbuo ng sagot",
+  'chat.stopped': "*Itinigil ang sagot.*",
+  'chat.noResponse': "Hindi ko maproseso ang sagot na iyon.",
+  'chat.connectionError': "Nagkakaproblema ako sa pagkonekta sa mga server ng VitalVoice ngayon. Pakisubukang muli.",
+
+  // --- History ---
+  'history.title': "Kasaysayan ng Screening",
+  'history.empty': "Wala pang naka-save na screening. Sine-save sa device na ito ang mga natapos na screening.",
+  'history.delete': "Burahin ang screening",
+  'history.import': "I-import",
+  'history.exportCsv': "I-export ang CSV",
+  'history.importFailed': "Hindi ma-import ang file na ito. Pumili ng JSON file na na-export mula sa VitalVoice.",
+  'history.notAnExport': "Ang file na ito ay hindi export ng screening mula sa VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "Ang Iyong Profile",
+  'profile.intro': "Opsyonal ang lahat ng field. Nakakatulong ang iyong mga sagot sa pagbibigay-kahulugan sa iyong boses, gaya ng karaniwang tono para sa iyong edad, at nagpapasya kung kanino ihahambing ang iyong mga score. Sa device na ito lang sila naka-save.",
+  'profile.age': "Edad",
+  'profile.agePlaceholder': "hal. 52",
+  'profile.ageInvalid': "Maglagay ng edad mula 18 hanggang 120.",
+  'profile.sexAtBirth': "Kasarian sa kapanganakan",
+  'profile.notSpecified': "Hindi tinukoy",
+  'profile.female': "Babae",
+  'profile.male': "Lalaki",
+  'profile.smoking': "Paninigarilyo",
+  'profile.never': "Hindi kailanman",
+  'profile.former': "Dati",
+  'profile.current': "Kasalukuyan",
+  'profile.respiratory': "Kilalang sakit sa paghinga",
+  'profile.respiratoryPlaceholder': "hal. hika, COPD",
+  'profile.neurological': "Kilalang sakit sa nerbiyos",
+  'profile.neurologicalPlaceholder': "hal. migraine, Parkinson's disease",
+  'profile.medications': "Kasalukuyang gamot",
+  'profile.medicationsPlaceholder': "Paghiwalayin gamit ang kuwit",
+  'profile.clear': "I-clear ang profile",
+  'profile.save': "I-save",
+
+  'profileField.age': "Edad",
+  'profileField.sexAtBirth': "Kasarian sa kapanganakan",
+  'profileField.smoker': "Paninigarilyo",
+  'profileField.respiratoryConditions': "Mga sakit sa paghinga",
+  'profileField.neurologicalConditions': "Mga sakit sa nerbiyos",
+  'profileField.medications': "Mga gamot",
+
+  // --- Batch validation ---
+  'batch.title': "Batch Validation",
+  'batch.intro': "Suriin ang isang folder ng mga recording batay sa isang CSV manifest na may mga ground-truth label. Kailangan ng manifest ang column na {file} at isang column para sa bawat domain id (1 = may kondisyon, 0 = wala), pati na ang opsyonal na {score} reference score. Sine-save ang progreso, kaya ang naputol na run ay magpapatuloy kung saan ito huminto.",
+  'batch.selectFolder': "Pumili ng audio folder",
+  'batch.audioFiles': "Mga audio file: {count}",
+  'batch.selectManifest': "Pumili ng CSV manifest",
+  'batch.manifestSummary': "Mga row: {rows} · Mga domain: {domains}",
+  'batch.manifestUnreadable': "Hindi mabasa ang manifest.",
+  'batch.manifestEmpty': "Walang laman ang manifest.",
+  'batch.manifestNoFileColumn': "Kailangan ng manifest ang column na {file} na nagpapangalan sa bawat audio file.",
+  'batch.manifestNoDomains': "Walang column ng larangan ang manifest. Pangalanan ang mga ito ayon sa id ng larangan, hal. {label} o {score}.",
+  'batch.manifestNoRows': "Walang nakalistang file ang manifest.",
+  'batch.ignoredColumn': "Hindi pinansin ang column na \"{column}\": hindi ito id ng larangan.",
+  'batch.noFileName': "Linya {line}: walang pangalan ng file, nilaktawan.",
+  'batch.duplicateFile': "Linya {line}: dalawang beses nakalista ang \"{file}\", ang unang row lang ang ginamit.",
+  'batch.invalidLabel': "Linya {line}: ang \"{value}\" ay hindi label para sa {domain}, iniwang blangko.",
+  'batch.invalidScore': "Linya {line}: ang \"{value}\" ay hindi numero para sa {column}, iniwang blangko.",
+  'batch.missingFiles': "Mga file sa manifest na wala sa folder: {count}",
+  'batch.warnings': "Mga babala sa manifest",
+  'batch.warningCount': "Mga babala: {count}",
+  'batch.missing': "Nawawala: {file}",
+  'batch.parallel': "Mga sabay-sabay na request",
+  'batch.startOver': "Magsimula muli",
+  'batch.resume': "Ituloy ({count} natitira)",
+  'batch.run': "Patakbuhin ang lahat ng file ({count})",
+  'batch.stop': "Ihinto",
+  'batch.stopping': "Inihihinto…",
+  'batch.progress': "Nasuri: {done} · Nabigo: {failed} (susubukang muli sa pagtuloy)",
+  'batch.fileTotal': "Mga file: {count}",
+  'batch.accuracy': "Katumpakan bawat domain",
+  'batch.csv': "CSV",
+  'batch.report': "Ulat",
+  'batch.domain': "Domain",
+  'batch.matrixHint': "totoong positibo / maling positibo / maling negatibo / totoong negatibo",
+  'batch.sensitivity': "Sensitivity",
+  'batch.specificity': "Specificity",
+  'batch.correlation': "Korelasyon",
+  'batch.pointBiserialHint': "Point-biserial r laban sa label; ang negatibong halaga ay nangangahulugang mas mababang score sa mga positibong kaso",
+  'batch.pearsonHint': "Pearson r laban sa reference score",
+  'batch.vsLabel': "vs label",
+  'batch.vsReference': "vs reference",
+  'batch.footnote': "Kinakalkula ang sensitivity at specificity mula sa mga file na may label para sa domain na iyon.",
+};
+
+export default filPH;
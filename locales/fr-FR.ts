@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const frFR: Messages = {
+  // --- Common ---
+  'common.cancel': "Annuler",
+  'common.backHome': "Retour à l'accueil",
+  'common.microphoneRequired': "L'accès au microphone est nécessaire.",
+
+  // --- Recording checks ---
+  'audio.empty': "L'enregistrement a échoué (fichier vide).",
+  'audio.tooShort': "Enregistrement trop court. Au moins {seconds} secondes sont nécessaires pour une analyse fiable.",
+  'audio.tooQuiet': "Enregistrement trop faible. Parlez plus fort ou rapprochez-vous du microphone.",
+  'audio.noSpeech': "Aucune voix détectée. Parlez distinctement.",
+  'audio.unreadable': "Impossible de valider le fichier audio.",
+  'audio.failed': "L'enregistrement a échoué.",
+  'quality.title': "Vérifications de l'enregistrement",
+  'quality.decodable': "Fichier audio",
+  'quality.duration': "Durée",
+  'quality.speech': "Parole",
+  'quality.level': "Niveau de la voix",
+  'quality.snr': "Bruit de fond",
+  'quality.clipping': "Distorsion",
+  'quality.dc_offset': "Décalage du micro",
+  'quality.dropouts': "Coupures",
+  'quality.speechShort': "Seulement {seconds} s de parole détectées ; il en faut au moins {minimum} s. Continuez à parler jusqu'à la fin du minuteur.",
+  'quality.noisy': "Le bruit de fond est trop proche de votre voix (seulement {value} dB en dessous). Éloignez-vous des ventilateurs, de la circulation ou d'autres voix.",
+  'quality.clipped': "L'enregistrement est saturé car l'entrée est trop forte. Éloignez-vous un peu du micro.",
+  'quality.dcOffset': "Le signal du micro est décentré, ce qui peut indiquer un micro défectueux. Essayez-en un autre si cela se reproduit.",
+  'quality.dropout': "L'audio a été coupé pendant {seconds} s. Vérifiez les connexions Bluetooth ou USB et recommencez l'enregistrement.",
+
+  // --- Modals ---
+  'limit.title': "Quota journalier atteint",
+  'limit.body': "Pour garantir la disponibilité du service et maîtriser les coûts de recherche, l'utilisation est limitée à {quota} par appareil.",
+  'limit.quota': "{limit} dépistages par jour",
+  'limit.resetsAt': "D'autres dépistages seront disponibles à partir du {time}.",
+  'limit.sampleNote': "Vous pouvez toujours consulter la démonstration interactive avec les données d'exemple, qui ne sont pas décomptées de votre quota.",
+  'limit.ok': "Compris",
+  'account.title': "Jeton de compte",
+  'account.hint': "Vous avez un jeton de compte fourni par votre étude ou organisation ? Saisissez-le pour utiliser ses limites au lieu de celles de cet appareil.",
+  'account.placeholder': "Collez votre jeton",
+  'account.save': "Utiliser le jeton",
+  'account.checking': "Vérification…",
+  'account.rejected': "Ce jeton n'a pas été accepté.",
+  'account.active': "Jeton de compte utilisé (niveau {tier})",
+  'account.remove': "Retirer",
+  'usage.title': "Utilisation et coût",
+  'usage.screening': "Ce dépistage",
+  'usage.today': "Aujourd'hui sur cet appareil",
+  'usage.recentDays': "Derniers jours",
+  'usage.empty': "Aucun appel au modèle n'a été enregistré pour ce dépistage.",
+  'usage.call': "Appel",
+  'usage.calls': "Appels au modèle",
+  'usage.callCount': "{count} appels",
+  'usage.promptTokens': "Tokens d'entrée",
+  'usage.outputTokens': "Tokens de sortie",
+  'usage.totalTokens': "Tokens au total",
+  'usage.audioTokens': "Tokens audio",
+  'usage.imageTokens': "Tokens image",
+  'usage.estimatedCost': "Coût estimé",
+  'usage.kind.analysis': "Analyse",
+  'usage.kind.chat': "Réponse du chat",
+  'usage.kind.transcription': "Transcription",
+  'usage.unpriced': "{count} appels ont utilisé un modèle absent de la grille tarifaire et ne sont pas chiffrés.",
+  'usage.disclaimer': "Les coûts sont des estimations basées sur les tarifs publics par million de tokens, pas une facture. Les appels effectués sur d'autres appareils ou avant le suivi de l'utilisation ne sont pas inclus.",
+
+  'tech.title': "Architecture technique",
+  'tech.models': "Modèles d'IA utilisés",
+  'tech.flashDescription': "Analyse multimodale à faible latence de l'audio (PCM) et des images vidéo.",
+  'tech.proDescription': "Raisonnement complexe pour la corrélation clinique et l'analyse des tendances.",
+  'tech.pipeline': "Chaîne de traitement",
+  'tech.pipelineCapture': "Capture audio brute (WebM/PCM)",
+  'tech.pipelineEncoding': "Encodage Base64 côté client",
+  'tech.pipelineRequest': "Requête multimodale à l'API Gemini",
+  'tech.pipelineResponse': "Réponse JSON structurée",
+  'tech.sampleRequest': "Exemple de requête API",
+  'tech.footer': "Fondé sur des travaux de recherche portant sur l'analyse acoustique des biomarqueurs vocaux en neurologie.",
+
+  // --- Intro ---
+  'intro.badge': "Prêt pour la validation clinique",
+  'intro.tagline': "Dépistage de santé avancé propulsé par {model}.",
+  'intro.selectedLanguage': "Langue sélectionnée :",
+  'intro.watchDemo': "Voir la démo",
+  'intro.start': "Commencer le dépistage",
+  'intro.sample': "Essayer avec des données d'exemple (instantané)",
+  'intro.addProfile': "Ajouter un profil",
+  'intro.editProfile': "Modifier le profil",
+  'intro.trustedResearch': "Recherche de confiance",
+  'intro.privacyFirst': "Confidentialité avant tout",
+  'intro.secureProcessing': "Traitement sécurisé",
+  'intro.viewArchitecture': "Voir l'architecture",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Tâche {step} sur {total} · {task}",
+  'recording.getReady': "Préparez-vous",
+  'recording.listening': "Écoute...",
+  'recording.goodVolume': "Volume parfait",
+  'coach.tooLoud': "Éloignez un peu le micro",
+  'coach.noisy': "Trop de bruit de fond",
+  'coach.tooFar': "Rapprochez-vous du micro",
+  'coach.silence': "Commencez à parler quand vous êtes prêt",
+  'recording.usableSpeech': "{seconds} s de parole exploitable sur {target}",
+  'recording.stopEarly': "Arrêter maintenant",
+  'recording.start': "Démarrer l'enregistrement",
+  'recording.skipTask': "Passer cette tâche",
+
+  'task.sustained_vowel.label': "Voyelle tenue",
+  'task.sustained_vowel.instruction': "Inspirez profondément, puis dites « aaah » à une hauteur et un volume confortables aussi longtemps que possible.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Répétez « pa-ta-ka » aussi vite et distinctement que possible jusqu'à la fin du minuteur.",
+  'task.reading.label': "Lecture de texte",
+  'task.reading.instruction': "Lisez ce texte à voix haute à votre rythme habituel :",
+  'task.free_speech.label': "Parole libre",
+  'task.free_speech.instruction': "Répondez avec vos propres mots :",
+  'task.vowelNoVoice': "Aucune voix stable détectée. Tenez un seul son « aaah » sans chuchoter.",
+  'task.vowelInterrupted': "Le son a été interrompu. Inspirez d'abord, puis tenez « aaah » sur une seule respiration.",
+  'task.ddkTooFew': "Trop peu de syllabes détectées. Répétez « pa-ta-ka » sans interruption et aussi vite que possible.",
+  'task.readingSilent': "Principalement du silence détecté. Lisez tout le texte à voix haute depuis le début.",
+
+  // --- Face capture ---
+  'face.title': "Ajouter une analyse visuelle ?",
+  'face.body': "VitalVoice peut analyser des biomarqueurs faciaux (pâleur, signes d'hydratation, symétrie) pour améliorer la précision jusqu'à 15 %.",
+  'face.enableCamera': "Activer la caméra",
+  'face.skip': "Passer pour l'instant",
+  'face.centerHint': "Centrez votre visage sous un bon éclairage",
+  'face.noFace': "Regardez droit vers la caméra",
+  'face.moreLight': "Plus de lumière sur le visage",
+  'face.lessLight': "Trop lumineux : éloignez-vous de la lumière directe",
+  'face.evenLight': "Évitez le contre-jour et les ombres marquées",
+  'face.moveCloser': "Rapprochez-vous",
+  'face.moveBack': "Reculez un peu",
+  'face.centre': "Centrez votre visage dans le cadre",
+  'face.holdStill': "Ne bougez plus",
+  'face.neutralLight': "Utilisez une lumière blanche neutre",
+  'face.ready': "C'est bon : prenez la photo",
+  'face.rejected': "Cette photo ne peut pas être utilisée. {reason}",
+  'face.cameraNotReady': "La caméra démarre encore. Réessayez dans un instant.",
+  'face.captureFailed': "La photo n'a pas pu être vérifiée. Réessayez ou passez cette étape.",
+
+  // --- Upload ---
+  'upload.title': "Importer des données",
+  'upload.voiceLabel': "Échantillon vocal (obligatoire)",
+  'upload.tapToChange': "Appuyez pour changer",
+  'upload.selectAudio': "Choisir un fichier audio",
+  'upload.audioFormats': "MP3, WAV et M4A acceptés",
+  'upload.imageLabel': "Photo du visage (facultative)",
+  'upload.preview': "Aperçu",
+  'upload.imageSelected': "Image sélectionnée",
+  'upload.selectImage': "Choisir une image",
+  'upload.imageFormats': "JPG et PNG acceptés",
+  'upload.analyze': "Analyser les données",
+  'upload.batch': "Valider un jeu de données (lot)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Traitement des données de santé",
+  'analyzing.step1': "Extraction des biomarqueurs vocaux...",
+  'analyzing.step2': "Analyse des schémas de parole...",
+  'analyzing.step3': "Évaluation des caractéristiques vocales...",
+  'analyzing.step4': "Corrélation avec les données multimodales...",
+  'analyzing.step5': "Génération de conseils personnalisés...",
+  'analyzing.retrying': "Problème de connexion, nouvelle tentative (essai {attempt})...",
+  'analyzing.footer': "Traitement en enclave sécurisée",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Service surchargé",
+  'error.safety.title': "Analyse bloquée",
+  'error.network.title': "Problème de connexion",
+  'error.invalid_input.title': "Enregistrement illisible",
+  'error.malformed_output.title': "Analyse incomplète",
+  'error.quota': "Le service d'analyse est saturé pour le moment. Patientez quelques minutes et réessayez.",
+  'error.safety': "L'analyse a été bloquée par les filtres de sécurité du contenu. Réenregistrez sans musique de fond ni autres voix.",
+  'error.network': "Impossible de joindre le service d'analyse. Vérifiez votre connexion et réessayez.",
+  'error.invalidInput': "L'enregistrement n'a pas pu être traité. Réenregistrez ou choisissez un autre fichier.",
+  'error.malformedOutput': "L'analyse est revenue incomplète. Veuillez réessayer.",
+  'error.cancelled': "Analyse annulée.",
+  'error.unknown': "Un problème est survenu pendant l'analyse. Veuillez réessayer.",
+  'error.retry': "Réessayer",
+  'error.recordAgain': "Réenregistrer",
+  'error.chooseFile': "Choisir un autre fichier",
+  'error.viewSample': "Voir des résultats d'exemple",
+  'error.keptRecording': "Votre enregistrement est conservé, inutile de le refaire.",
+  'error.keptFile': "Votre fichier est conservé, inutile de l'importer à nouveau.",
+
+  // --- Results ---
+  'results.newScan': "Nouveau dépistage",
+  'results.history': "Historique",
+  'results.usage': "Utilisation",
+  'results.exportPdf': "Exporter en PDF",
+  'results.exportFhir': "Exporter en FHIR",
+  'results.exportFhirFailed': "Impossible de créer l'export FHIR. Réessayez ou exportez plutôt un PDF.",
+  'results.exportJson': "Exporter en JSON",
+  'results.includeMedia': "Inclure l'enregistrement et la photo",
+  'results.includeMediaHint': "Le fichier contiendra votre voix et votre visage. Ne le partagez qu'avec des personnes de confiance.",
+  'results.download': "Télécharger",
+  'results.overallScore': "Score global de bien-être",
+  'results.confidence': "Confiance : {level}",
+  'results.summary': "Résumé",
+  'results.recommendations': "Recommandations",
+  'results.trends': "Tendances",
+  'results.improving': "En amélioration",
+  'results.stable': "Stable",
+  'results.needsAttention': "À surveiller",
+  'results.firstScreening': "Il s'agit de votre premier dépistage enregistré. Les tendances apparaîtront après un nouveau dépistage.",
+  'results.profileNoChange': "Votre profil a été pris en compte mais n'a pas modifié l'interprétation de ces résultats.",
+  'results.voiceTasks': "Tâches vocales",
+  'results.disclaimer': "Ceci est un outil de dépistage, pas un diagnostic médical. Consultez un professionnel de santé en cas de doute.",
+
+  'report.title': "Rapport de dépistage clinique",
+  'report.scoreOverview': "Aperçu des scores",
+  'report.concernLevel': "Niveau de préoccupation",
+  'report.capturedImage': "Image capturée",
+  'report.domainAnalysis': "Analyse par domaine",
+  'report.comparedWith': "Percentiles comparés à : {cohort}",
+  'report.scoreTrends': "Évolution des scores",
+  'report.keyObservations': "Observations clés",
+  'report.significance': "Importance :",
+  'report.reason': "Raison :",
+  'report.disclaimer': "AVERTISSEMENT :",
+  'report.page': "Page {page} sur {count}",
+  'report.generatedBy': "Généré par VitalVoice AI avec Gemini",
+
+  'confidence.low': "Faible",
+  'confidence.medium': "Moyenne",
+  'confidence.high': "Élevée",
+  'concern.low': "Faible",
+  'concern.moderate': "Modéré",
+  'concern.elevated': "Élevé",
+  'concern.high': "Fort",
+  'urgency.routine': "Routine",
+  'urgency.soon': "Bientôt",
+  'urgency.prompt': "Rapidement",
+
+  'domain.neurological': "Neurologique",
+  'domain.mental_health': "Santé mentale",
+  'domain.respiratory': "Respiratoire",
+  'domain.cardiovascular': "Cardiovasculaire",
+  'domain.metabolic': "Métabolique",
+  'domain.hydration': "Hydratation",
+  'domain.sleep_fatigue': "Sommeil et fatigue",
+  'domain.cognitive_load': "Charge cognitive",
+
+  'card.median': "Médiane : {value}",
+  'card.percentile': "Percentile {value}",
+  'card.noNorms': "Aucune norme de référence",
+  'card.fromTask': "Issu de la tâche {task}",
+
+  'cohort.women': "Femmes {band}",
+  'cohort.men': "Hommes {band}",
+  'cohort.adults': "Adultes {band}",
+  'cohort.allWomen': "Toutes les femmes",
+  'cohort.allMen': "Tous les hommes",
+  'cohort.allAdults': "Tous les adultes",
+
+  'biomarkers.title': "Biomarqueurs mesurés",
+  'biomarkers.computed': "Calculés sur cet appareil à partir de {seconds} s d'audio.",
+  'biomarkers.f0Mean': "Hauteur moyenne (F0)",
+  'biomarkers.pitchRange': "Étendue de hauteur",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Rapport harmoniques/bruit",
+  'biomarkers.pauseRatio': "Taux de pauses",
+  'biomarkers.syllableRate': "Débit syllabique",
+
+  // --- Chat ---
+  'chat.title': "Assistant VitalVoice",
+  'chat.limitReached': "Limite de session atteinte",
+  'chat.remaining': "Messages restants : {count}",
+  'chat.clear': "Effacer la conversation",
+  'chat.empty': "Demandez-moi d'expliquer un terme médical ou de vous donner d'autres conseils de bien-être !",
+  'chat.transcribing': "Transcription…",
+  'chat.noTranscript': "Pas de transcription : les réponses suivantes ne verront pas ce message",
+  'chat.interrupted': "Réponse interrompue",
+  'chat.locked': "Limite de conversation atteinte pour cette session. Relancez une analyse pour continuer.",
+  'chat.placeholder': "Écrivez un message...",
+  'chat.stop': "Arrêter la génération",
+  'chat.stopped': "*Réponse interrompue.*",
+  'chat.noResponse': "Je n'ai pas pu traiter cette réponse.",
+  'chat.connectionError': "J'ai du mal à me connecter aux serveurs VitalVoice pour le moment. Veuillez réessayer.",
+
+  // --- History ---
+  'history.title': "Historique des dépistages",
+  'history.empty': "Aucun dépistage enregistré pour l'instant. Les dépistages terminés sont conservés sur cet appareil.",
+  'history.delete': "Supprimer le dépistage",
+  'history.import': "Importer",
+  'history.exportCsv': "Exporter en CSV",
+  'history.importFailed': "Impossible d'importer ce fichier. Choisissez un fichier JSON exporté depuis VitalVoice.",
+  'history.notAnExport': "Ce fichier n'est pas un export de dépistage VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "Votre profil",
+  'profile.intro': "Tous les champs sont facultatifs. Vos réponses aident à interpréter votre voix (par exemple la hauteur habituelle à votre âge) et à choisir le groupe auquel vos scores sont comparés. Elles ne sont conservées que sur cet appareil.",
+  'profile.age': "Âge",
+  'profile.agePlaceholder': "ex. 52",
+  'profile.ageInvalid': "Saisissez un âge entre 18 et 120 ans.",
+  'profile.sexAtBirth': "Sexe à la naissance",
+  'profile.notSpecified': "Non précisé",
+  'profile.female': "Féminin",
+  'profile.male': "Masculin",
+  'profile.smoking': "Tabac",
+  'profile.never': "Jamais",
+  'profile.former': "Ancien fumeur",
+  'profile.current': "Fumeur actuel",
+  'profile.respiratory': "Maladies respiratoires connues",
+  'profile.respiratoryPlaceholder': "ex. asthme, BPCO",
+  'profile.neurological': "Maladies neurologiques connues",
+  'profile.neurologicalPlaceholder': "ex. migraine, maladie de Parkinson",
+  'profile.medications': "Traitements en cours",
+  'profile.medicationsPlaceholder': "Séparez par des virgules",
+  'profile.clear': "Effacer le profil",
+  'profile.save': "Enregistrer",
+
+  'profileField.age': "Âge",
+  'profileField.sexAtBirth': "Sexe à la naissance",
+  'profileField.smoker': "Tabac",
+  'profileField.respiratoryConditions': "Maladies respiratoires",
+  'profileField.neurologicalConditions': "Maladies neurologiques",
+  'profileField.medications': "Traitements",
+
+  // --- Batch validation ---
+  'batch.title': "Validation par lot",
+  'batch.intro': "Analysez un dossier d'enregistrements à partir d'un manifeste CSV d'étiquettes de référence. Le manifeste doit comporter une colonne {file} et une colonne par identifiant de domaine (1 = affection présente, 0 = absente), ainsi que des scores de référence {score} facultatifs. La progression est enregistrée : une exécution interrompue reprend là où elle s'est arrêtée.",
+  'batch.selectFolder': "Choisir le dossier audio",
+  'batch.audioFiles': "Fichiers audio : {count}",
+  'batch.selectManifest': "Choisir le manifeste CSV",
+  'batch.manifestSummary': "Lignes : {rows} · Domaines : {domains}",
+  'batch.manifestUnreadable': "Impossible de lire le manifeste.",
+  'batch.manifestEmpty': "Le manifeste est vide.",
+  'batch.manifestNoFileColumn': "Le manifeste doit avoir une colonne {file} indiquant chaque fichier audio.",
+  'batch.manifestNoDomains': "Le manifeste n'a aucune colonne de domaine. Nommez-les par identifiant de domaine, par ex. {label} ou {score}.",
+  'batch.manifestNoRows': "Le manifeste ne liste aucun fichier.",
+  'batch.ignoredColumn': "Colonne « {column} » ignorée : ce n'est pas un identifiant de domaine.",
+  'batch.noFileName': "Ligne {line} : aucun nom de fichier, ignorée.",
+  'batch.duplicateFile': "Ligne {line} : « {file} » apparaît deux fois, seule la première ligne est utilisée.",
+  'batch.invalidLabel': "Ligne {line} : « {value} » n'est pas une étiquette pour {domain}, laissée vide.",
+  'batch.invalidScore': "Ligne {line} : « {value} » n'est pas un nombre pour {column}, laissée vide.",
+  'batch.missingFiles': "Fichiers du manifeste absents du dossier : {count}",
+  'batch.warnings': "Avertissements du manifeste",
+  'batch.warningCount': "Avertissements : {count}",
+  'batch.missing': "Manquant : {file}",
+  'batch.parallel': "Requêtes en parallèle",
+  'batch.startOver': "Recommencer",
+  'batch.resume': "Reprendre ({count} restants)",
+  'batch.run': "Traiter tous les fichiers ({count})",
+  'batch.stop': "Arrêter",
+  'batch.stopping': "Arrêt…",
+  'batch.progress': "Analysés : {done} · Échecs : {failed} (relancés à la reprise)",
+  'batch.fileTotal': "Fichiers : {count}",
+  'batch.accuracy': "Précision par domaine",
+  'batch.csv': "CSV",
+  'batch.report': "Rapport",
+  'batch.domain': "Domaine",
+  'batch.matrixHint': "Vrais positifs / faux positifs / faux négatifs / vrais négatifs",
+  'batch.sensitivity': "Sensibilité",
+  'batch.specificity': "Spécificité",
+  'batch.correlation': "Corrélation",
+  'batch.pointBiserialHint': "r point-bisérial par rapport aux étiquettes ; une valeur négative signifie des scores plus bas pour les cas positifs",
+  'batch.pearsonHint': "r de Pearson par rapport aux scores de référence",
+  'batch.vsLabel': "vs étiquette",
+  'batch.vsReference': "vs réf.",
+  'batch.footnote': "La sensibilité et la spécificité portent sur les fichiers étiquetés pour ce domaine.",
+};
+
+export default frFR;
@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const heIL: Messages = {
+  // --- Common ---
+  'common.cancel': "ביטול",
+  'common.backHome': "חזרה לדף הבית",
+  'common.microphoneRequired': "נדרשת גישה למיקרופון.",
+
+  // --- Recording checks ---
+  'audio.empty': "ההקלטה נכשלה (קובץ ריק).",
+  'audio.tooShort': "ההקלטה קצרה מדי. נדרשות לפחות {seconds} שניות לניתוח מדויק.",
+  'audio.tooQuiet': "ההקלטה שקטה מדי. דברו בקול רם יותר או קרוב יותר למיקרופון.",
+  'audio.noSpeech': "לא זוהה דיבור. נא לדבר בבירור.",
+  'audio.unreadable': "לא ניתן היה לאמת את קובץ השמע.",
+  'audio.failed': "ההקלטה נכשלה.",
+  'quality.title': "בדיקות ההקלטה",
+  'quality.decodable': "קובץ שמע",
+  'quality.duration': "אורך",
+  'quality.speech': "דיבור",
+  'quality.level': "עוצמת הדיבור",
+  'quality.snr': "רעש רקע",
+  'quality.clipping': "עיוות",
+  'quality.dc_offset': "היסט מיקרופון",
+  'quality.dropouts': "נפילות שמע",
+  'quality.speechShort': "זוהו רק {seconds} שניות של דיבור; נדרשות לפחות {minimum} שניות. המשיכו לדבר עד שהטיימר יסתיים.",
+  'quality.noisy': "רעש הרקע קרוב מדי לקול שלכם (שקט ממנו ב־{value} dB בלבד). התרחקו ממאווררים, תנועה או קולות אחרים.",
+  'quality.clipped': "ההקלטה מעוותת כי עוצמת הקלט גבוהה מדי. התרחקו מעט מהמיקרופון.",
+  'quality.dcOffset': "אות המיקרופון אינו ממורכז, מה שעשוי להעיד על מיקרופון תקול. נסו מיקרופון אחר אם זה חוזר.",
+  'quality.dropout': "השמע נותק למשך {seconds} שניות. בדקו את חיבורי ה־Bluetooth או ה־USB והקליטו שוב.",
+
+  // --- Modals ---
+  'limit.title': "הגעתם למגבלה היומית",
+  'limit.body': "כדי שהשירות יישאר זמין ועלויות המחקר יישארו בשליטה, אנו מגבילים את השימוש ל־{quota} לכל מכשיר.",
+  'limit.quota': "{limit} בדיקות ביום",
+  'limit.resetsAt': "בדיקות נוספות יהיו זמינות החל מ-{time}.",
+  'limit.sampleNote': "עדיין אפשר לעיין בהדגמה האינטראקטיבית עם נתוני דוגמה, והיא אינה נספרת במגבלה.",
+  'limit.ok': "הבנתי",
+  'account.title': "אסימון חשבון",
+  'account.hint': "יש לכם אסימון חשבון מהמחקר או מהארגון שלכם? הזינו אותו כדי להשתמש במגבלות שלו במקום במגבלות המכשיר.",
+  'account.placeholder': "הדביקו את האסימון",
+  'account.save': "שימוש באסימון",
+  'account.checking': "בודק…",
+  'account.rejected': "האסימון הזה לא התקבל.",
+  'account.active': "נעשה שימוש באסימון חשבון (רמה {tier})",
+  'account.remove': "הסרה",
+  'usage.title': "שימוש ועלות",
+  'usage.screening': "הבדיקה הזו",
+  'usage.today': "היום במכשיר הזה",
+  'usage.recentDays': "הימים האחרונים",
+  'usage.empty': "לא נרשמו קריאות למודל עבור הבדיקה הזו.",
+  'usage.call': "קריאה",
+  'usage.calls': "קריאות למודל",
+  'usage.callCount': "{count} קריאות",
+  'usage.promptTokens': "טוקנים של קלט",
+  'usage.outputTokens': "טוקנים של פלט",
+  'usage.totalTokens': "סך הטוקנים",
+  'usage.audioTokens': "טוקני שמע",
+  'usage.imageTokens': "טוקני תמונה",
+  'usage.estimatedCost': "עלות משוערת",
+  'usage.kind.analysis': "ניתוח",
+  'usage.kind.chat': "תשובת צ'אט",
+  'usage.kind.transcription': "תמלול",
+  'usage.unpriced': "{count} קריאות השתמשו במודל שאינו בטבלת המחירים ועלותן לא חושבה.",
+  'usage.disclaimer': "העלויות הן הערכות לפי מחירון לכל מיליון טוקנים, לא חשבונית. קריאות ממכשירים אחרים או מלפני תחילת המעקב אינן כלולות.",
+
+  'tech.title': "ארכיטקטורה טכנית",
+  'tech.models': "מודלי בינה מלאכותית בשימוש",
+  'tech.flashDescription': "ניתוח רב־אופני בהשהיה נמוכה של שמע (PCM) ופריימים של וידאו.",
+  'tech.proDescription': "הסקה מורכבת לצורך מתאם קליני וניתוח מגמות.",
+  'tech.pipeline': "צינור נתונים",
+  'tech.pipelineCapture': "לכידת שמע גולמי (WebM/PCM)",
+  'tech.pipelineEncoding': "קידוד Base64 בצד הלקוח",
+  'tech.pipelineRequest': "בקשה רב־אופנית ל־Gemini API",
+  'tech.pipelineResponse': "תגובת JSON מובנית",
+  'tech.sampleRequest': "דוגמה לבקשת API",
+  'tech.footer': "מבוסס על מאמרי מחקר בניתוח אקוסטי של סמנים ביולוגיים קוליים בנוירולוגיה.",
+
+  // --- Intro ---
+  'intro.badge': "מוכן לתיקוף קליני",
+  'intro.tagline': "בדיקת בריאות מתקדמת מבוססת {model}.",
+  'intro.selectedLanguage': "שפה נבחרת:",
+  'intro.watchDemo': "צפייה בהדגמה",
+  'intro.start': "התחלת בדיקה",
+  'intro.sample': "ניסיון עם נתוני דוגמה (מיידי)",
+  'intro.addProfile': "הוספת פרופיל",
+  'intro.editProfile': "עריכת פרופיל",
+  'intro.trustedResearch': "מחקר אמין",
+  'intro.privacyFirst': "פרטיות קודם כול",
+  'intro.secureProcessing': "עיבוד מאובטח",
+  'intro.viewArchitecture': "הצגת הארכיטקטורה",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "משימה {step} מתוך {total} · {task}",
+  'recording.getReady': "היכונו",
+  'recording.listening': "מאזין...",
+  'recording.goodVolume': "עוצמת הקול מושלמת",
+  'coach.tooLoud': "הרחיקו מעט את המיקרופון",
+  'coach.noisy': "יותר מדי רעש רקע",
+  'coach.tooFar': "התקרבו למיקרופון",
+  'coach.silence': "התחילו לדבר כשאתם מוכנים",
+  'recording.usableSpeech': "{seconds} מתוך {target} שנ׳ דיבור שמיש",
+  'recording.stopEarly': "עצירה מוקדמת",
+  'recording.start': "התחלת הקלטה",
+  'recording.skipTask': "דילוג על המשימה",
+
+  'task.sustained_vowel.label': "תנועה ממושכת",
+  'task.sustained_vowel.instruction': "קחו נשימה עמוקה, ואז אמרו \"אההה\" זמן רב ככל האפשר בגובה צליל ועוצמה נוחים.",
+  'task.ddk.label': "פה-טה-קה",
+  'task.ddk.instruction': "חזרו על \"פה-טה-קה\" מהר וברור ככל האפשר עד שהטיימר יסתיים.",
+  'task.reading.label': "קריאת קטע",
+  'task.reading.instruction': "קראו את הקטע הזה בקול בקצב הרגיל שלכם:",
+  'task.free_speech.label': "דיבור חופשי",
+  'task.free_speech.instruction': "ענו במילים שלכם:",
+  'task.vowelNoVoice': "לא זוהה קול יציב. החזיקו צליל \"אההה\" אחד בלי ללחוש.",
+  'task.vowelInterrupted': "הצליל נקטע. קחו נשימה קודם, ואז החזיקו \"אההה\" בנשימה אחת.",
+  'task.ddkTooFew': "זוהו מעט מדי הברות. חזרו על \"פה-טה-קה\" בלי הפסקות ומהר ככל האפשר.",
+  'task.readingSilent': "זוהתה בעיקר שתיקה. קראו בקול את כל הקטע מההתחלה.",
+
+  // --- Face capture ---
+  'face.title': "להוסיף ניתוח פנים?",
+  'face.body': "VitalVoice יכול לנתח סמנים ביולוגיים בפנים (חיוורון, סימני התייבשות, סימטריה) כדי לשפר את הדיוק בעד 15%.",
+  'face.enableCamera': "הפעלת מצלמה",
+  'face.skip': "דילוג כרגע",
+  'face.centerHint': "מרכזו את הפנים בתאורה טובה",
+  'face.noFace': "הביטו ישירות למצלמה",
+  'face.moreLight': "יותר אור על הפנים",
+  'face.lessLight': "בהיר מדי: התרחקו מאור ישיר",
+  'face.evenLight': "הימנעו מאור מאחוריכם או מצללים חדים",
+  'face.moveCloser': "התקרבו",
+  'face.moveBack': "התרחקו מעט",
+  'face.centre': "מרכזו את הפנים במסגרת",
+  'face.holdStill': "אל תזוזו",
+  'face.neutralLight': "השתמשו באור לבן ניטרלי",
+  'face.ready': "נראה טוב: צלמו",
+  'face.rejected': "לא ניתן להשתמש בתמונה זו. {reason}",
+  'face.cameraNotReady': "המצלמה עדיין מופעלת. נסו שוב בעוד רגע.",
+  'face.captureFailed': "לא ניתן היה לבדוק את התמונה. נסו שוב או דלגו על שלב זה.",
+
+  // --- Upload ---
+  'upload.title': "העלאת נתונים",
+  'upload.voiceLabel': "דגימת קול (חובה)",
+  'upload.tapToChange': "הקישו כדי להחליף",
+  'upload.selectAudio': "בחירת קובץ שמע",
+  'upload.audioFormats': "תומך ב־MP3,‏ WAV,‏ M4A",
+  'upload.imageLabel': "תמונת פנים (אופציונלי)",
+  'upload.preview': "תצוגה מקדימה",
+  'upload.imageSelected': "נבחרה תמונה",
+  'upload.selectImage': "בחירת תמונה",
+  'upload.imageFormats': "תומך ב־JPG,‏ PNG",
+  'upload.analyze': "ניתוח הנתונים",
+  'upload.batch': "תיקוף מערך נתונים (אצווה)",
+
+  // --- Analyzing ---
+  'analyzing.title': "מעבד נתוני בריאות",
+  'analyzing.step1': "מחלץ סמנים ביולוגיים קוליים...",
+  'analyzing.step2': "מנתח דפוסי דיבור...",
+  'analyzing.step3': "מעריך מאפייני קול...",
+  'analyzing.step4': "מצליב עם נתונים רב־אופניים...",
+  'analyzing.step5': "מכין המלצות מותאמות אישית...",
+  'analyzing.retrying': "בעיית חיבור, מנסה שוב (ניסיון {attempt})...",
+  'analyzing.footer': "עיבוד בסביבה מאובטחת",
+
+  // --- Analysis errors ---
+  'error.quota.title': "השירות עמוס",
+  'error.safety.title': "הניתוח נחסם",
+  'error.network.title': "בעיית חיבור",
+  'error.invalid_input.title': "לא ניתן היה לקרוא את ההקלטה",
+  'error.malformed_output.title': "ניתוח חלקי",
+  'error.quota': "שירות הניתוח פועל כעת בעומס מלא. המתינו כמה דקות ונסו שוב.",
+  'error.safety': "מסנני בטיחות התוכן חסמו את הניתוח. הקליטו שוב בלי מדיה ברקע או קולות אחרים.",
+  'error.network': "לא ניתן היה להתחבר לשירות הניתוח. בדקו את החיבור ונסו שוב.",
+  'error.invalidInput': "לא ניתן היה לעבד את ההקלטה. הקליטו שוב או בחרו קובץ אחר.",
+  'error.malformedOutput': "הניתוח חזר חלקי. נסו שוב.",
+  'error.cancelled': "הניתוח בוטל.",
+  'error.unknown': "משהו השתבש במהלך הניתוח. נסו שוב.",
+  'error.retry': "ניסיון חוזר",
+  'error.recordAgain': "הקלטה מחדש",
+  'error.chooseFile': "בחירת קובץ אחר",
+  'error.viewSample': "הצגת תוצאות לדוגמה",
+  'error.keptRecording': "ההקלטה שלכם נשמרה, כך שאין צורך להקליט מחדש.",
+  'error.keptFile': "הקובץ שלכם נשמר, כך שאין צורך להעלות אותו מחדש.",
+
+  // --- Results ---
+  'results.newScan': "בדיקה חדשה",
+  'results.history': "היסטוריה",
+  'results.usage': "שימוש",
+  'results.exportPdf': "ייצוא PDF",
+  'results.exportFhir': "ייצוא FHIR",
+  'results.exportFhirFailed': "לא ניתן היה ליצור את קובץ ה־FHIR. נסו שוב או ייצאו PDF במקום.",
+  'results.exportJson': "ייצוא JSON",
+  'results.includeMedia': "כולל ההקלטה והתמונה",
+  'results.includeMediaHint': "הקובץ יכיל את הקול והפנים שלכם. שתפו אותו רק עם אנשים שאתם סומכים עליהם.",
+  'results.download': "הורדה",
+  'results.overallScore': "ציון רווחה כולל",
+  'results.confidence': "רמת ודאות: {level}",
+  'results.summary': "סיכום",
+  'results.recommendations': "המלצות",
+  'results.trends': "מגמות",
+  'results.improving': "במגמת שיפור",
+  'results.stable': "יציב",
+  'results.needsAttention': "דורש תשומת לב",
+  'results.firstScreening': "זו הבדיקה השמורה הראשונה שלכם. בצעו בדיקה נוספת בהמשך כדי לראות מגמות.",
+  'results.profileNoChange': "הפרופיל שלכם נלקח בחשבון, אך לא שינה את פרשנות התוצאות האלה.",
+  'results.voiceTasks': "משימות קול",
+  'results.disclaimer': "זהו כלי סינון ולא אבחנה רפואית. התייעצו עם איש מקצוע בתחום הבריאות בכל חשש.",
+
+  'report.title': "דוח סינון קליני",
+  'report.scoreOverview': "סקירת ציונים",
+  'report.concernLevel': "רמת חשש",
+  'report.capturedImage': "תמונה שצולמה",
+  'report.domainAnalysis': "ניתוח לפי תחומים",
+  'report.comparedWith': "אחוזונים בהשוואה ל: {cohort}",
+  'report.scoreTrends': "מגמות ציונים",
+  'report.keyObservations': "תצפיות עיקריות",
+  'report.significance': "משמעות:",
+  'report.reason': "סיבה:",
+  'report.disclaimer': "כתב ויתור:",
+  'report.page': "עמוד {page} מתוך {count}",
+  'report.generatedBy': "נוצר על ידי VitalVoice AI מבוסס Gemini",
+
+  'confidence.low': "נמוכה",
+  'confidence.medium': "בינונית",
+  'confidence.high': "גבוהה",
+  'concern.low': "נמוך",
+  'concern.moderate': "בינוני",
+  'concern.elevated': "מוגבר",
+  'concern.high': "גבוה",
+  'urgency.routine': "שגרתי",
+  'urgency.soon': "בקרוב",
+  'urgency.prompt': "בהקדם",
+
+  'domain.neurological': "נוירולוגי",
+  'domain.mental_health': "בריאות הנפש",
+  'domain.respiratory': "נשימתי",
+  'domain.cardiovascular': "לב וכלי דם",
+  'domain.metabolic': "מטבולי",
+  'domain.hydration': "הידרציה",
+  'domain.sleep_fatigue': "שינה ועייפות",
+  'domain.cognitive_load': "עומס קוגניטיבי",
+
+  'card.median': "חציון: {value}",
+  'card.percentile': "אחוזון {value}",
+  'card.noNorms': "אין נורמות ייחוס",
+  'card.fromTask': "ממשימת {task}",
+
+  'cohort.women': "נשים {band}",
+  'cohort.men': "גברים {band}",
+  'cohort.adults': "מבוגרים {band}",
+  'cohort.allWomen': "כל הנשים",
+  'cohort.allMen': "כל הגברים",
+  'cohort.allAdults': "כל המבוגרים",
+
+  'biomarkers.title': "סמנים ביולוגיים שנמדדו",
+  'biomarkers.computed': "חושב במכשיר זה מתוך {seconds} שניות של שמע.",
+  'biomarkers.f0Mean': "גובה צליל ממוצע (F0)",
+  'biomarkers.pitchRange': "טווח גובה צליל",
+  'biomarkers.jitter': "ג'יטר",
+  'biomarkers.shimmer': "שימר",
+  'biomarkers.hnr': "יחס הרמוניות לרעש",
+  'biomarkers.pauseRatio': "יחס הפסקות",
+  'biomarkers.syllableRate': "קצב הברות",
+
+  // --- Chat ---
+  'chat.title': "העוזר של VitalVoice",
+  'chat.limitReached': "הגעתם למגבלת השיחה",
+  'chat.remaining': "הודעות שנותרו: {count}",
+  'chat.clear': "ניקוי השיחה",
+  'chat.empty': "בקשו ממני להסביר כל מונח רפואי או לתת עוד טיפים לרווחה!",
+  'chat.transcribing': "מתמלל…",
+  'chat.noTranscript': "אין תמלול, ולכן תשובות הבאות לא יראו את ההודעה הזו",
+  'chat.interrupted': "התשובה נקטעה",
+  'chat.locked': "הגעתם למגבלת הצ'אט בשיחה זו. הפעילו מחדש את הניתוח כדי להמשיך לשוחח.",
+  'chat.placeholder': "הקלידו הודעה...",
+  'chat.stop': "עצירת יצירת התשובה",
+  'chat.stopped': "*התגובה הופסקה.*",
+  'chat.noResponse': "לא הצלחתי לעבד את התגובה הזו.",
+  'chat.connectionError': "יש לי בעיה להתחבר לשרתי VitalVoice כרגע. נסו שוב.",
+
+  // --- History ---
+  'history.title': "היסטוריית בדיקות",
+  'history.empty': "אין עדיין בדיקות שמורות. בדיקות שהושלמו נשמרות במכשיר זה.",
+  'history.delete': "מחיקת בדיקה",
+  'history.import': "ייבוא",
+  'history.exportCsv': "ייצוא CSV",
+  'history.importFailed': "לא ניתן היה לייבא את הקובץ. בחרו קובץ JSON שיוצא מ־VitalVoice.",
+  'history.notAnExport': "קובץ זה אינו ייצוא סינון של VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "הפרופיל שלכם",
+  'profile.intro': "כל השדות אופציונליים. התשובות עוזרות לפרש את הקול שלכם, למשל איזה גובה צליל אופייני לגילכם, וקובעות למי משווים את הציונים שלכם. הן נשמרות במכשיר זה בלבד.",
+  'profile.age': "גיל",
+  'profile.agePlaceholder': "למשל 52",
+  'profile.ageInvalid': "הזינו גיל בין 18 ל־120.",
+  'profile.sexAtBirth': "מין בלידה",
+  'profile.notSpecified': "לא צוין",
+  'profile.female': "נקבה",
+  'profile.male': "זכר",
+  'profile.smoking': "עישון",
+  'profile.never': "אף פעם",
+  'profile.former': "בעבר",
+  'profile.current': "כיום",
+  'profile.respiratory': "מחלות נשימה ידועות",
+  'profile.respiratoryPlaceholder': "למשל אסתמה, COPD",
+  'profile.neurological': "מחלות נוירולוגיות ידועות",
+  'profile.neurologicalPlaceholder': "למשל מיגרנה, מחלת פרקינסון",
+  'profile.medications': "תרופות נוכחיות",
+  'profile.medicationsPlaceholder': "מופרדות בפסיקים",
+  'profile.clear': "ניקוי פרופיל",
+  'profile.save': "שמירה",
+
+  'profileField.age': "גיל",
+  'profileField.sexAtBirth': "מין בלידה",
+  'profileField.smoker': "עישון",
+  'profileField.respiratoryConditions': "מחלות נשימה",
+  'profileField.neurologicalConditions': "מחלות נוירולוגיות",
+  'profileField.medications': "תרופות",
+
+  // --- Batch validation ---
+  'batch.title': "תיקוף באצווה",
+  'batch.intro': "נתחו תיקיית הקלטות מול קובץ CSV מסכם עם תוויות אמת. הקובץ צריך עמודת {file} ועמודה לכל מזהה תחום (1 = המצב קיים, 0 = לא קיים), ואפשר להוסיף ציוני ייחוס {score}. ההתקדמות נשמרת, כך שהרצה שנקטעה ממשיכה מהמקום שבו נעצרה.",
+  'batch.selectFolder': "בחירת תיקיית שמע",
+  'batch.audioFiles': "קובצי שמע: {count}",
+  'batch.selectManifest': "בחירת קובץ CSV מסכם",
+  'batch.manifestSummary': "שורות: {rows} · תחומים: {domains}",
+  'batch.manifestUnreadable': "לא ניתן היה לקרוא את הקובץ המסכם.",
+  'batch.manifestEmpty': "קובץ המניפסט ריק.",
+  'batch.manifestNoFileColumn': "המניפסט צריך עמודת {file} עם שם כל קובץ שמע.",
+  'batch.manifestNoDomains': "למניפסט אין עמודות תחום. תנו להן שם לפי מזהה התחום, למשל {label} או {score}.",
+  'batch.manifestNoRows': "המניפסט אינו מפרט קבצים.",
+  'batch.ignoredColumn': "המערכת התעלמה מהעמודה \"{column}\": אינה מזהה תחום.",
+  'batch.noFileName': "שורה {line}: אין שם קובץ, דולגה.",
+  'batch.duplicateFile': "שורה {line}: \"{file}\" מופיע פעמיים, רק השורה הראשונה בשימוש.",
+  'batch.invalidLabel': "שורה {line}: \"{value}\" אינו תווית עבור {domain}, נשאר ריק.",
+  'batch.invalidScore': "שורה {line}: \"{value}\" אינו מספר עבור {column}, נשאר ריק.",
+  'batch.missingFiles': "קבצים מהקובץ המסכם שחסרים בתיקייה: {count}",
+  'batch.warnings': "אזהרות בקובץ המסכם",
+  'batch.warningCount': "אזהרות: {count}",
+  'batch.missing': "חסר: {file}",
+  'batch.parallel': "בקשות מקבילות",
+  'batch.startOver': "התחלה מחדש",
+  'batch.resume': "המשך (נותרו {count})",
+  'batch.run': "הרצת כל הקבצים ({count})",
+  'batch.stop': "עצירה",
+  'batch.stopping': "עוצר…",
+  'batch.progress': "נותחו: {done} · נכשלו: {failed} (ינוסו שוב בהמשך)",
+  'batch.fileTotal': "קבצים: {count}",
+  'batch.accuracy': "דיוק לפי תחום",
+  'batch.csv': "CSV",
+  'batch.report': "דוח",
+  'batch.domain': "תחום",
+  'batch.matrixHint': "חיובי אמיתי / חיובי שגוי / שלילי שגוי / שלילי אמיתי",
+  'batch.sensitivity': "רגישות",
+  'batch.specificity': "סגוליות",
+  'batch.correlation': "מתאם",
+  'batch.pointBiserialHint': "r נקודתי־דו־סדרתי מול התווית; ערך שלילי פירושו ציונים נמוכים יותר במקרים חיוביים",
+  'batch.pearsonHint': "r של פירסון מול ציון הייחוס",
+  'batch.vsLabel': "מול תווית",
+  'batch.vsReference': "מול ייחוס",
+  'batch.footnote': "הרגישות והסגוליות מחושבות מקבצים שיש להם תווית לאותו תחום.",
+};
+
+export default heIL;
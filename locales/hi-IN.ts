@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const hiIN: Messages = {
+  // --- Common ---
+  'common.cancel': "रद्द करें",
+  'common.backHome': "होम पर लौटें",
+  'common.microphoneRequired': "माइक्रोफ़ोन की अनुमति ज़रूरी है।",
+
+  // --- Recording checks ---
+  'audio.empty': "रिकॉर्डिंग विफल रही (खाली फ़ाइल)।",
+  'audio.tooShort': "रिकॉर्डिंग बहुत छोटी है। सटीक विश्लेषण के लिए कम से कम {seconds} सेकंड चाहिए।",
+  'audio.tooQuiet': "रिकॉर्डिंग बहुत धीमी है। कृपया ज़ोर से बोलें या माइक्रोफ़ोन के पास आएँ।",
+  'audio.noSpeech': "कोई आवाज़ नहीं मिली। कृपया साफ़ बोलें।",
+  'audio.unreadable': "ऑडियो फ़ाइल की जाँच नहीं हो सकी।",
+  'audio.failed': "रिकॉर्डिंग विफल रही।",
+  'quality.title': "रिकॉर्डिंग जाँच",
+  'quality.decodable': "ऑडियो फ़ाइल",
+  'quality.duration': "अवधि",
+  'quality.speech': "बोली",
+  'quality.level': "आवाज़ का स्तर",
+  'quality.snr': "पृष्ठभूमि शोर",
+  'quality.clipping': "विकृति",
+  'quality.dc_offset': "माइक्रोफ़ोन ऑफ़सेट",
+  'quality.dropouts': "रुकावटें",
+  'quality.speechShort': "केवल {seconds} सेकंड की बोली मिली; कम से कम {minimum} सेकंड चाहिए। टाइमर खत्म होने तक बोलते रहें।",
+  'quality.noisy': "पृष्ठभूमि शोर आपकी आवाज़ के बहुत करीब है (केवल {value} dB कम)। पंखे, ट्रैफ़िक या दूसरी आवाज़ों से दूर जाएँ।",
+  'quality.clipped': "इनपुट बहुत तेज़ होने से रिकॉर्डिंग विकृत हो गई है। माइक्रोफ़ोन से थोड़ा दूर हो जाएँ।",
+  'quality.dcOffset': "माइक्रोफ़ोन का सिग्नल केंद्र से हटा हुआ है, जो खराब माइक्रोफ़ोन का संकेत हो सकता है। बार-बार हो तो दूसरा माइक्रोफ़ोन आज़माएँ।",
+  'quality.dropout': "ऑडियो {seconds} सेकंड के लिए कट गया। ब्लूटूथ या USB कनेक्शन जाँचें और फिर से रिकॉर्ड करें।",
+
+  // --- Modals ---
+  'limit.title': "दैनिक सीमा पूरी हुई",
+  'limit.body': "सेवा उपलब्ध रखने और शोध की लागत संभालने के लिए हम हर डिवाइस पर उपयोग {quota} तक सीमित रखते हैं।",
+  'limit.quota': "प्रतिदिन {limit} स्क्रीनिंग",
+  'limit.resetsAt': "{time} से और स्क्रीनिंग उपलब्ध होंगी।",
+  'limit.sampleNote': "आप सैंपल डेटा के साथ इंटरैक्टिव डेमो अब भी देख सकते हैं, यह आपकी सीमा में नहीं गिना जाता।",
+  'limit.ok': "समझ गया",
+  'account.title': "खाता टोकन",
+  'account.hint': "क्या आपके पास अपने अध्ययन या संगठन से खाता टोकन है? इस डिवाइस की बजाय उसकी सीमाएँ उपयोग करने के लिए उसे दर्ज करें।",
+  'account.placeholder': "अपना टोकन चिपकाएँ",
+  'account.save': "टोकन उपयोग करें",
+  'account.checking': "जाँच हो रही है…",
+  'account.rejected': "यह टोकन स्वीकार नहीं हुआ।",
+  'account.active': "खाता टोकन उपयोग में है ({tier} स्तर)",
+  'account.remove': "हटाएँ",
+  'usage.title': "उपयोग और लागत",
+  'usage.screening': "यह स्क्रीनिंग",
+  'usage.today': "आज इस डिवाइस पर",
+  'usage.recentDays': "पिछले दिन",
+  'usage.empty': "इस स्क्रीनिंग के लिए कोई मॉडल कॉल दर्ज नहीं है।",
+  'usage.call': "कॉल",
+  'usage.calls': "मॉडल कॉल",
+  'usage.callCount': "{count} कॉल",
+  'usage.promptTokens': "इनपुट टोकन",
+  'usage.outputTokens': "आउटपुट टोकन",
+  'usage.totalTokens': "कुल टोकन",
+  'usage.audioTokens': "ऑडियो टोकन",
+  'usage.imageTokens': "इमेज टोकन",
+  'usage.estimatedCost': "अनुमानित लागत",
+  'usage.kind.analysis': "विश्लेषण",
+  'usage.kind.chat': "चैट उत्तर",
+  'usage.kind.transcription': "ट्रांसक्रिप्शन",
+  'usage.unpriced': "{count} कॉल में ऐसा मॉडल इस्तेमाल हुआ जो मूल्य तालिका में नहीं है, इसलिए उनकी लागत नहीं जोड़ी गई।",
+  'usage.disclaimer': "लागत प्रति दस लाख टोकन की सूची कीमतों से किया गया अनुमान है, बिल नहीं। दूसरे डिवाइस पर या उपयोग ट्रैकिंग से पहले की कॉल शामिल नहीं हैं।",
+
+  'tech.title': "तकनीकी संरचना",
+  'tech.models': "इस्तेमाल किए गए AI मॉडल",
+  'tech.flashDescription': "ऑडियो (PCM) और वीडियो फ़्रेम का कम विलंब वाला मल्टीमॉडल विश्लेषण।",
+  'tech.proDescription': "क्लिनिकल सहसंबंध और रुझान विश्लेषण के लिए जटिल तर्क।",
+  'tech.pipeline': "डेटा पाइपलाइन",
+  'tech.pipelineCapture': "रॉ ऑडियो (WebM/PCM) कैप्चर",
+  'tech.pipelineEncoding': "क्लाइंट पर Base64 एन्कोडिंग",
+  'tech.pipelineRequest': "Gemini API मल्टीमॉडल अनुरोध",
+  'tech.pipelineResponse': "संरचित JSON प्रतिक्रिया",
+  'tech.sampleRequest': "API अनुरोध का उदाहरण",
+  'tech.footer': "न्यूरोलॉजी में आवाज़ के बायोमार्करों के ध्वनिक विश्लेषण पर हुए शोध-पत्रों पर आधारित।",
+
+  // --- Intro ---
+  'intro.badge': "क्लिनिकल वैधता के लिए तैयार",
+  'intro.tagline': "{model} द्वारा संचालित उन्नत स्वास्थ्य स्क्रीनिंग।",
+  'intro.selectedLanguage': "चुनी गई भाषा:",
+  'intro.watchDemo': "डेमो देखें",
+  'intro.start': "स्क्रीनिंग शुरू करें",
+  'intro.sample': "सैंपल डेटा से आज़माएँ (तुरंत)",
+  'intro.addProfile': "प्रोफ़ाइल जोड़ें",
+  'intro.editProfile': "प्रोफ़ाइल बदलें",
+  'intro.trustedResearch': "भरोसेमंद शोध",
+  'intro.privacyFirst': "निजता सबसे पहले",
+  'intro.secureProcessing': "सुरक्षित प्रोसेसिंग",
+  'intro.viewArchitecture': "संरचना देखें",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "कार्य {step} / {total} · {task}",
+  'recording.getReady': "तैयार हो जाएँ",
+  'recording.listening': "सुन रहा है...",
+  'recording.goodVolume': "आवाज़ बिल्कुल ठीक है",
+  'coach.tooLoud': "माइक्रोफ़ोन को थोड़ा दूर रखें",
+  'coach.noisy': "पृष्ठभूमि में बहुत शोर है",
+  'coach.tooFar': "माइक्रोफ़ोन के पास आएँ",
+  'coach.silence': "तैयार होने पर बोलना शुरू करें",
+  'recording.usableSpeech': "{target} में से {seconds} सेकंड उपयोगी आवाज़",
+  'recording.stopEarly': "पहले रोकें",
+  'recording.start': "रिकॉर्डिंग शुरू करें",
+  'recording.skipTask': "यह कार्य छोड़ें",
+
+  'task.sustained_vowel.label': "लंबा स्वर",
+  'task.sustained_vowel.instruction': "गहरी साँस लें, फिर आरामदायक सुर और आवाज़ में जितनी देर हो सके \"आ...\" बोलें।",
+  'task.ddk.label': "पा-टा-का",
+  'task.ddk.instruction': "टाइमर खत्म होने तक \"पा-टा-का\" जितना तेज़ और साफ़ हो सके दोहराएँ।",
+  'task.reading.label': "अनुच्छेद पढ़ना",
+  'task.reading.instruction': "यह अनुच्छेद अपनी सामान्य गति से ज़ोर से पढ़ें:",
+  'task.free_speech.label': "स्वतंत्र बातचीत",
+  'task.free_speech.instruction': "अपने शब्दों में जवाब दें:",
+  'task.vowelNoVoice': "स्थिर आवाज़ नहीं मिली। बिना फुसफुसाए एक ही \"आ...\" ध्वनि बनाए रखें।",
+  'task.vowelInterrupted': "ध्वनि टूट गई। पहले साँस लें, फिर एक ही साँस में \"आ...\" बनाए रखें।",
+  'task.ddkTooFew': "बहुत कम अक्षर मिले। \"पा-टा-का\" बिना रुके और जितना तेज़ हो सके दोहराएँ।",
+  'task.readingSilent': "ज़्यादातर चुप्पी मिली। पूरा अनुच्छेद शुरू से ज़ोर से पढ़ें।",
+
+  // --- Face capture ---
+  'face.title': "चेहरे का विश्लेषण जोड़ें?",
+  'face.body': "VitalVoice चेहरे के बायोमार्कर (पीलापन, पानी की कमी के संकेत, समरूपता) का विश्लेषण करके सटीकता 15% तक बढ़ा सकता है।",
+  'face.enableCamera': "कैमरा चालू करें",
+  'face.skip': "अभी छोड़ें",
+  'face.centerHint': "अच्छी रोशनी में अपना चेहरा बीच में रखें",
+  'face.noFace': "सीधे कैमरे की ओर देखें",
+  'face.moreLight': "चेहरे पर और रोशनी डालें",
+  'face.lessLight': "बहुत तेज़ रोशनी: सीधी रोशनी से हटें",
+  'face.evenLight': "पीछे की रोशनी या गहरी छाया से बचें",
+  'face.moveCloser': "पास आएँ",
+  'face.moveBack': "थोड़ा पीछे हटें",
+  'face.centre': "चेहरा फ़्रेम के बीच में रखें",
+  'face.holdStill': "स्थिर रहें",
+  'face.neutralLight': "सामान्य सफ़ेद रोशनी का उपयोग करें",
+  'face.ready': "ठीक है: फ़ोटो लें",
+  'face.rejected': "यह फ़ोटो उपयोग नहीं की जा सकती। {reason}",
+  'face.cameraNotReady': "कैमरा अभी शुरू हो रहा है। थोड़ी देर में फिर से प्रयास करें।",
+  'face.captureFailed': "फ़ोटो की जाँच नहीं हो सकी। फिर से प्रयास करें, या यह चरण छोड़ दें।",
+
+  // --- Upload ---
+  'upload.title': "डेटा अपलोड करें",
+  'upload.voiceLabel': "आवाज़ का नमूना (ज़रूरी)",
+  'upload.tapToChange': "बदलने के लिए टैप करें",
+  'upload.selectAudio': "ऑडियो फ़ाइल चुनें",
+  'upload.audioFormats': "MP3, WAV, M4A समर्थित",
+  'upload.imageLabel': "चेहरे की तस्वीर (वैकल्पिक)",
+  'upload.preview': "पूर्वावलोकन",
+  'upload.imageSelected': "तस्वीर चुनी गई",
+  'upload.selectImage': "तस्वीर चुनें",
+  'upload.imageFormats': "JPG, PNG समर्थित",
+  'upload.analyze': "डेटा का विश्लेषण करें",
+  'upload.batch': "डेटासेट सत्यापित करें (बैच)",
+
+  // --- Analyzing ---
+  'analyzing.title': "स्वास्थ्य डेटा प्रोसेस हो रहा है",
+  'analyzing.step1': "आवाज़ के बायोमार्कर निकाले जा रहे हैं...",
+  'analyzing.step2': "बोलने के पैटर्न का विश्लेषण हो रहा है...",
+  'analyzing.step3': "आवाज़ की विशेषताओं का आकलन हो रहा है...",
+  'analyzing.step4': "मल्टीमॉडल डेटा से मिलान हो रहा है...",
+  'analyzing.step5': "आपके लिए निजी सुझाव बनाए जा रहे हैं...",
+  'analyzing.retrying': "कनेक्शन में समस्या, फिर से कोशिश हो रही है (प्रयास {attempt})...",
+  'analyzing.footer': "सुरक्षित वातावरण में प्रोसेसिंग",
+
+  // --- Analysis errors ---
+  'error.quota.title': "सेवा व्यस्त है",
+  'error.safety.title': "विश्लेषण रोका गया",
+  'error.network.title': "कनेक्शन में समस्या",
+  'error.invalid_input.title': "रिकॉर्डिंग पढ़ी नहीं जा सकी",
+  'error.malformed_output.title': "अधूरा विश्लेषण",
+  'error.quota': "विश्लेषण सेवा अभी पूरी क्षमता पर है। कृपया कुछ मिनट रुककर फिर कोशिश करें।",
+  'error.safety': "सामग्री सुरक्षा फ़िल्टर ने विश्लेषण रोक दिया। पीछे चल रहे मीडिया या दूसरी आवाज़ों के बिना फिर से रिकॉर्ड करें।",
+  'error.network': "विश्लेषण सेवा तक नहीं पहुँच सके। अपना कनेक्शन जाँचें और फिर कोशिश करें।",
+  'error.invalidInput': "रिकॉर्डिंग प्रोसेस नहीं हो सकी। फिर से रिकॉर्ड करें या दूसरी फ़ाइल चुनें।",
+  'error.malformedOutput': "विश्लेषण अधूरा लौटा। कृपया फिर कोशिश करें।",
+  'error.cancelled': "विश्लेषण रद्द किया गया।",
+  'error.unknown': "विश्लेषण के दौरान कुछ गलत हो गया। कृपया फिर कोशिश करें।",
+  'error.retry': "फिर कोशिश करें",
+  'error.recordAgain': "फिर से रिकॉर्ड करें",
+  'error.chooseFile': "दूसरी फ़ाइल चुनें",
+  'error.viewSample': "सैंपल परिणाम देखें",
+  'error.keptRecording': "आपकी रिकॉर्डिंग सुरक्षित है, इसलिए फिर से रिकॉर्ड करने की ज़रूरत नहीं।",
+  'error.keptFile': "आपकी फ़ाइल सुरक्षित है, इसलिए फिर से अपलोड करने की ज़रूरत नहीं।",
+
+  // --- Results ---
+  'results.newScan': "नई स्क्रीनिंग",
+  'results.history': "इतिहास",
+  'results.usage': "उपयोग",
+  'results.exportPdf': "PDF निर्यात करें",
+  'results.exportFhir': "FHIR निर्यात करें",
+  'results.exportFhirFailed': "FHIR निर्यात नहीं बन सका। फिर कोशिश करें या इसकी जगह PDF निर्यात करें।",
+  'results.exportJson': "JSON निर्यात करें",
+  'results.includeMedia': "रिकॉर्डिंग और फ़ोटो शामिल करें",
+  'results.includeMediaHint': "फ़ाइल में आपकी आवाज़ और चेहरा होगा। इसे केवल भरोसेमंद लोगों के साथ साझा करें।",
+  'results.download': "डाउनलोड करें",
+  'results.overallScore': "कुल वेलनेस स्कोर",
+  'results.confidence': "भरोसा: {level}",
+  'results.summary': "सारांश",
+  'results.recommendations': "सुझाव",
+  'results.trends': "रुझान",
+  'results.improving': "सुधार हो रहा है",
+  'results.stable': "स्थिर",
+  'results.needsAttention': "ध्यान देने की ज़रूरत",
+  'results.firstScreening': "यह आपकी पहली सहेजी गई स्क्रीनिंग है। दोबारा स्क्रीनिंग करने पर रुझान दिखेंगे।",
+  'results.profileNoChange': "आपकी प्रोफ़ाइल पर विचार किया गया, लेकिन इससे इन परिणामों की व्याख्या नहीं बदली।",
+  'results.voiceTasks': "आवाज़ के कार्य",
+  'results.disclaimer': "यह एक स्क्रीनिंग टूल है, चिकित्सा निदान नहीं। किसी भी चिंता के लिए किसी स्वास्थ्य पेशेवर से परामर्श करें।",
+
+  'report.title': "क्लिनिकल स्क्रीनिंग रिपोर्ट",
+  'report.scoreOverview': "स्कोर का सारांश",
+  'report.concernLevel': "चिंता का स्तर",
+  'report.capturedImage': "ली गई तस्वीर",
+  'report.domainAnalysis': "क्षेत्रवार विश्लेषण",
+  'report.comparedWith': "पर्सेंटाइल की तुलना: {cohort}",
+  'report.scoreTrends': "स्कोर के रुझान",
+  'report.keyObservations': "मुख्य अवलोकन",
+  'report.significance': "महत्व:",
+  'report.reason': "कारण:",
+  'report.disclaimer': "अस्वीकरण:",
+  'report.page': "पृष्ठ {page} / {count}",
+  'report.generatedBy': "Gemini द्वारा संचालित VitalVoice AI से बनाया गया",
+
+  'confidence.low': "कम",
+  'confidence.medium': "मध्यम",
+  'confidence.high': "उच्च",
+  'concern.low': "कम",
+  'concern.moderate': "मध्यम",
+  'concern.elevated': "बढ़ा हुआ",
+  'concern.high': "उच्च",
+  'urgency.routine': "सामान्य",
+  'urgency.soon': "जल्द",
+  'urgency.prompt': "तुरंत",
+
+  'domain.neurological': "तंत्रिका तंत्र",
+  'domain.mental_health': "मानसिक स्वास्थ्य",
+  'domain.respiratory': "श्वसन",
+  'domain.cardiovascular': "हृदय-संवहनी",
+  'domain.metabolic': "चयापचय",
+  'domain.hydration': "जलयोजन",
+  'domain.sleep_fatigue': "नींद और थकान",
+  'domain.cognitive_load': "संज्ञानात्मक भार",
+
+  'card.median': "माध्यिका: {value}",
+  'card.percentile': "{value}वाँ पर्सेंटाइल",
+  'card.noNorms': "कोई संदर्भ मानक नहीं",
+  'card.fromTask': "{task} कार्य से",
+
+  'cohort.women': "महिलाएँ {band}",
+  'cohort.men': "पुरुष {band}",
+  'cohort.adults': "वयस्क {band}",
+  'cohort.allWomen': "सभी महिलाएँ",
+  'cohort.allMen': "सभी पुरुष",
+  'cohort.allAdults': "सभी वयस्क",
+
+  'biomarkers.title': "मापे गए बायोमार्कर",
+  'biomarkers.computed': "इसी डिवाइस पर {seconds} सेकंड के ऑडियो से गणना की गई।",
+  'biomarkers.f0Mean': "औसत पिच (F0)",
+  'biomarkers.pitchRange': "पिच सीमा",
+  'biomarkers.jitter': "जिटर",
+  'biomarkers.shimmer': "शिमर",
+  'biomarkers.hnr': "हार्मोनिक-से-शोर अनुपात",
+  'biomarkers.pauseRatio': "ठहराव अनुपात",
+  'biomarkers.syllableRate': "अक्षर दर",
+
+  // --- Chat ---
+  'chat.title': "VitalVoice सहायक",
+  'chat.limitReached': "सत्र की सीमा पूरी हुई",
+  'chat.remaining': "बचे संदेश: {count}",
+  'chat.clear': "चैट साफ़ करें",
+  'chat.empty': "मुझसे कोई भी मेडिकल शब्द समझाने या और वेलनेस सुझाव देने को कहें!",
+  'chat.transcribing': "लिप्यंतरण हो रहा है…",
+  'chat.noTranscript': "लिप्यंतरण नहीं है, इसलिए आगे के जवाब यह संदेश नहीं देख पाएँगे",
+  'chat.interrupted': "जवाब बीच में रुक गया",
+  'chat.locked': "इस सत्र की चैट सीमा पूरी हो गई। और बात करने के लिए विश्लेषण फिर से शुरू करें।",
+  'chat.placeholder': "संदेश लिखें...",
+  'chat.stop': "जवाब बनाना रोकें",
+  'chat.stopped': "*जवाब रोका गया।*",
+  'chat.noResponse': "मैं उस जवाब को संसाधित नहीं कर सका।",
+  'chat.connectionError': "अभी VitalVoice सर्वर से जुड़ने में समस्या हो रही है। कृपया फिर से प्रयास करें।",
+
+  // --- History ---
+  'history.title': "स्क्रीनिंग इतिहास",
+  'history.empty': "अभी कोई स्क्रीनिंग सहेजी नहीं गई है। पूरी हुई स्क्रीनिंग इसी डिवाइस पर सहेजी जाती हैं।",
+  'history.delete': "स्क्रीनिंग हटाएँ",
+  'history.import': "आयात करें",
+  'history.exportCsv': "CSV निर्यात करें",
+  'history.importFailed': "यह फ़ाइल आयात नहीं की जा सकी। VitalVoice से निर्यात की गई JSON फ़ाइल चुनें।",
+  'history.notAnExport': "यह फ़ाइल VitalVoice स्क्रीनिंग एक्सपोर्ट नहीं है।",
+
+  // --- Profile ---
+  'profile.title': "आपकी प्रोफ़ाइल",
+  'profile.intro': "हर फ़ील्ड वैकल्पिक है। आपके जवाब आपकी आवाज़ समझने में मदद करते हैं, जैसे आपकी उम्र में सामान्य पिच क्या है, और यह तय करते हैं कि आपके स्कोर की तुलना किनसे हो। ये केवल इसी डिवाइस पर सहेजे जाते हैं।",
+  'profile.age': "उम्र",
+  'profile.agePlaceholder': "जैसे 52",
+  'profile.ageInvalid': "18 से 120 के बीच उम्र डालें।",
+  'profile.sexAtBirth': "जन्म के समय लिंग",
+  'profile.notSpecified': "नहीं बताया",
+  'profile.female': "महिला",
+  'profile.male': "पुरुष",
+  'profile.smoking': "धूम्रपान",
+  'profile.never': "कभी नहीं",
+  'profile.former': "पहले करते थे",
+  'profile.current': "अभी करते हैं",
+  'profile.respiratory': "ज्ञात श्वसन रोग",
+  'profile.respiratoryPlaceholder': "जैसे अस्थमा, COPD",
+  'profile.neurological': "ज्ञात तंत्रिका रोग",
+  'profile.neurologicalPlaceholder': "जैसे माइग्रेन, पार्किंसंस रोग",
+  'profile.medications': "मौजूदा दवाएँ",
+  'profile.medicationsPlaceholder': "कॉमा से अलग करें",
+  'profile.clear': "प्रोफ़ाइल साफ़ करें",
+  'profile.save': "सहेजें",
+
+  'profileField.age': "उम्र",
+  'profileField.sexAtBirth': "जन्म के समय लिंग",
+  'profileField.smoker': "धूम्रपान",
+  'profileField.respiratoryConditions': "श्वसन रोग",
+  'profileField.neurologicalConditions': "तंत्रिका रोग",
+  'profileField.medications': "दवाएँ",
+
+  // --- Batch validation ---
+  'batch.title': "बैच सत्यापन",
+  'batch.intro': "सही लेबल वाली CSV मैनिफ़ेस्ट के आधार पर रिकॉर्डिंग के फ़ोल्डर का विश्लेषण करें। मैनिफ़ेस्ट में {file} कॉलम और हर डोमेन id के लिए एक कॉलम (1 = स्थिति मौजूद, 0 = मौजूद नहीं) चाहिए, साथ में वैकल्पिक {score} संदर्भ स्कोर भी हो सकते हैं। प्रगति सहेजी जाती है, इसलिए रुका हुआ रन वहीं से आगे बढ़ता है जहाँ रुका था।",
+  'batch.selectFolder': "ऑडियो फ़ोल्डर चुनें",
+  'batch.audioFiles': "ऑडियो फ़ाइलें: {count}",
+  'batch.selectManifest': "CSV मैनिफ़ेस्ट चुनें",
+  'batch.manifestSummary': "पंक्तियाँ: {rows} · डोमेन: {domains}",
+  'batch.manifestUnreadable': "मैनिफ़ेस्ट पढ़ी नहीं जा सकी।",
+  'batch.manifestEmpty': "मैनिफ़ेस्ट खाली है।",
+  'batch.manifestNoFileColumn': "मैनिफ़ेस्ट में हर ऑडियो फ़ाइल के नाम वाला {file} कॉलम होना चाहिए।",
+  'batch.manifestNoDomains': "मैनिफ़ेस्ट में कोई क्षेत्र कॉलम नहीं है। उन्हें क्षेत्र आईडी से नाम दें, जैसे {label} या {score}।",
+  'batch.manifestNoRows': "मैनिफ़ेस्ट में कोई फ़ाइल नहीं है।",
+  'batch.ignoredColumn': "कॉलम \"{column}\" अनदेखा किया गया: यह क्षेत्र आईडी नहीं है।",
+  'batch.noFileName': "पंक्ति {line}: फ़ाइल का नाम नहीं, छोड़ दी गई।",
+  'batch.duplicateFile': "पंक्ति {line}: \"{file}\" दो बार सूचीबद्ध है, केवल पहली पंक्ति उपयोग की गई।",
+  'batch.invalidLabel': "पंक्ति {line}: \"{value}\" {domain} के लिए लेबल नहीं है, खाली छोड़ा गया।",
+  'batch.invalidScore': "पंक्ति {line}: \"{value}\" {column} के लिए संख्या नहीं है, खाली छोड़ा गया।",
+  'batch.missingFiles': "फ़ोल्डर में न मिली मैनिफ़ेस्ट फ़ाइलें: {count}",
+  'batch.warnings': "मैनिफ़ेस्ट चेतावनियाँ",
+  'batch.warningCount': "चेतावनियाँ: {count}",
+  'batch.missing': "नहीं मिली: {file}",
+  'batch.parallel': "समानांतर अनुरोध",
+  'batch.startOver': "फिर से शुरू करें",
+  'batch.resume': "जारी रखें ({count} बाकी)",
+  'batch.run': "सभी फ़ाइलें चलाएँ ({count})",
+  'batch.stop': "रोकें",
+  'batch.stopping': "रोका जा रहा है…",
+  'batch.progress': "विश्लेषित: {done} · विफल: {failed} (जारी रखने पर फिर कोशिश)",
+  'batch.fileTotal': "फ़ाइलें: {count}",
+  'batch.accuracy': "हर डोमेन की सटीकता",
+  'batch.csv': "CSV",
+  'batch.report': "रिपोर्ट",
+  'batch.domain': "डोमेन",
+  'batch.matrixHint': "सही पॉज़िटिव / गलत पॉज़िटिव / गलत नेगेटिव / सही नेगेटिव",
+  'batch.sensitivity': "संवेदनशीलता",
+  'batch.specificity': "विशिष्टता",
+  'batch.correlation': "सहसंबंध",
+  'batch.pointBiserialHint': "लेबल के सापेक्ष पॉइंट-बाइसीरियल r; ऋणात्मक मान का अर्थ है पॉज़िटिव मामलों में कम स्कोर",
+  'batch.pearsonHint': "संदर्भ स्कोर के सापेक्ष पियर्सन r",
+  'batch.vsLabel': "बनाम लेबल",
+  'batch.vsReference': "बनाम संदर्भ",
+  'batch.footnote': "संवेदनशीलता और विशिष्टता उसी डोमेन के लेबल वाली फ़ाइलों से निकाली जाती हैं।",
+};
+
+export default hiIN;
@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const idID: Messages = {
+  // --- Common ---
+  'common.cancel': "Batal",
+  'common.backHome': "Kembali ke beranda",
+  'common.microphoneRequired': "Akses mikrofon diperlukan.",
+
+  // --- Recording checks ---
+  'audio.empty': "Perekaman gagal (file kosong).",
+  'audio.tooShort': "Rekaman terlalu pendek. Diperlukan minimal {seconds} detik untuk analisis yang akurat.",
+  'audio.tooQuiet': "Rekaman terlalu pelan. Bicaralah lebih keras atau lebih dekat ke mikrofon.",
+  'audio.noSpeech': "Tidak ada suara bicara terdeteksi. Bicaralah dengan jelas.",
+  'audio.unreadable': "File audio tidak dapat diverifikasi.",
+  'audio.failed': "Perekaman gagal.",
+  'quality.title': "Pemeriksaan rekaman",
+  'quality.decodable': "File audio",
+  'quality.duration': "Durasi",
+  'quality.speech': "Ucapan",
+  'quality.level': "Tingkat suara",
+  'quality.snr': "Kebisingan latar",
+  'quality.clipping': "Distorsi",
+  'quality.dc_offset': "Offset mikrofon",
+  'quality.dropouts': "Putus-putus",
+  'quality.speechShort': "Hanya {seconds} dtk ucapan yang terdeteksi; perlu minimal {minimum} dtk. Terus berbicara sampai timer habis.",
+  'quality.noisy': "Kebisingan latar terlalu dekat dengan suara Anda (hanya {value} dB lebih pelan). Jauhi kipas, lalu lintas, atau suara lain.",
+  'quality.clipped': "Rekaman terdistorsi karena input terlalu keras. Menjauhlah sedikit dari mikrofon.",
+  'quality.dcOffset': "Sinyal mikrofon tidak di tengah, yang bisa menandakan mikrofon rusak. Coba mikrofon lain jika terus terjadi.",
+  'quality.dropout': "Audio terputus selama {seconds} dtk. Periksa koneksi Bluetooth atau USB, lalu rekam ulang.",
+
+  // --- Modals ---
+  'limit.title': "Batas harian tercapai",
+  'limit.body': "Agar layanan tetap tersedia dan biaya riset terkendali, kami membatasi penggunaan hingga {quota} per perangkat.",
+  'limit.quota': "{limit} skrining per hari",
+  'limit.resetsAt': "Skrining berikutnya tersedia mulai {time}.",
+  'limit.sampleNote': "Anda tetap dapat menjelajahi demo interaktif dengan data contoh, dan itu tidak dihitung dalam batas Anda.",
+  'limit.ok': "Mengerti",
+  'account.title': "Token akun",
+  'account.hint': "Punya token akun dari studi atau organisasi Anda? Masukkan untuk memakai batasnya, bukan batas perangkat ini.",
+  'account.placeholder': "Tempel token Anda",
+  'account.save': "Gunakan Token",
+  'account.checking': "Memeriksa…",
+  'account.rejected': "Token ini tidak diterima.",
+  'account.active': "Menggunakan token akun (tingkat {tier})",
+  'account.remove': "Hapus",
+  'usage.title': "Penggunaan dan biaya",
+  'usage.screening': "Skrining ini",
+  'usage.today': "Hari ini di perangkat ini",
+  'usage.recentDays': "Beberapa hari terakhir",
+  'usage.empty': "Belum ada panggilan model yang tercatat untuk skrining ini.",
+  'usage.call': "Panggilan",
+  'usage.calls': "Panggilan model",
+  'usage.callCount': "{count} panggilan",
+  'usage.promptTokens': "Token masukan",
+  'usage.outputTokens': "Token keluaran",
+  'usage.totalTokens': "Total token",
+  'usage.audioTokens': "Token audio",
+  'usage.imageTokens': "Token gambar",
+  'usage.estimatedCost': "Perkiraan biaya",
+  'usage.kind.analysis': "Analisis",
+  'usage.kind.chat': "Balasan obrolan",
+  'usage.kind.transcription': "Transkripsi",
+  'usage.unpriced': "{count} panggilan memakai model yang tidak ada di tabel harga dan tidak dihitung biayanya.",
+  'usage.disclaimer': "Biaya adalah perkiraan dari harga daftar per sejuta token, bukan tagihan. Panggilan di perangkat lain atau sebelum pelacakan penggunaan tidak termasuk.",
+
+  'tech.title': "Arsitektur teknis",
+  'tech.models': "Model AI yang digunakan",
+  'tech.flashDescription': "Analisis multimodal berlatensi rendah untuk audio (PCM) dan bingkai video.",
+  'tech.proDescription': "Penalaran kompleks untuk korelasi klinis dan analisis tren.",
+  'tech.pipeline': "Alur data",
+  'tech.pipelineCapture': "Perekaman audio mentah (WebM/PCM)",
+  'tech.pipelineEncoding': "Pengodean Base64 di sisi klien",
+  'tech.pipelineRequest': "Permintaan multimodal ke Gemini API",
+  'tech.pipelineResponse': "Respons JSON terstruktur",
+  'tech.sampleRequest': "Contoh permintaan API",
+  'tech.footer': "Berdasarkan makalah riset tentang analisis akustik biomarker suara dalam neurologi.",
+
+  // --- Intro ---
+  'intro.badge': "Siap untuk validasi klinis",
+  'intro.tagline': "Skrining kesehatan canggih yang didukung {model}.",
+  'intro.selectedLanguage': "Bahasa terpilih:",
+  'intro.watchDemo': "Tonton demo",
+  'intro.start': "Mulai skrining",
+  'intro.sample': "Coba dengan data contoh (instan)",
+  'intro.addProfile': "Tambah profil",
+  'intro.editProfile': "Ubah profil",
+  'intro.trustedResearch': "Riset tepercaya",
+  'intro.privacyFirst': "Privasi utama",
+  'intro.secureProcessing': "Pemrosesan aman",
+  'intro.viewArchitecture': "Lihat arsitektur",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Tugas {step} dari {total} · {task}",
+  'recording.getReady': "Bersiaplah",
+  'recording.listening': "Mendengarkan...",
+  'recording.goodVolume': "Volume sempurna",
+  'coach.tooLoud': "Jauhkan mikrofon sedikit",
+  'coach.noisy': "Terlalu banyak kebisingan latar",
+  'coach.tooFar': "Dekatkan diri ke mikrofon",
+  'coach.silence': "Mulailah berbicara saat Anda siap",
+  'recording.usableSpeech': "{seconds} dari {target} dtk ucapan yang dapat dipakai",
+  'recording.stopEarly': "Berhenti lebih awal",
+  'recording.start': "Mulai merekam",
+  'recording.skipTask': "Lewati tugas ini",
+
+  'task.sustained_vowel.label': "Vokal panjang",
+  'task.sustained_vowel.instruction': "Tarik napas dalam, lalu ucapkan \"aaah\" selama mungkin dengan nada dan volume yang nyaman.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Ulangi \"pa-ta-ka\" secepat dan sejelas mungkin hingga waktu habis.",
+  'task.reading.label': "Membaca paragraf",
+  'task.reading.instruction': "Bacakan paragraf ini dengan kecepatan biasa Anda:",
+  'task.free_speech.label': "Bicara bebas",
+  'task.free_speech.instruction': "Jawab dengan kata-kata Anda sendiri:",
+  'task.vowelNoVoice': "Tidak ada suara stabil terdeteksi. Pertahankan satu bunyi \"aaah\" tanpa berbisik.",
+  'task.vowelInterrupted': "Bunyi terputus. Tarik napas dulu, lalu pertahankan \"aaah\" dalam satu napas.",
+  'task.ddkTooFew': "Terlalu sedikit suku kata terdeteksi. Ulangi \"pa-ta-ka\" tanpa jeda dan secepat mungkin.",
+  'task.readingSilent': "Sebagian besar hanya hening. Bacakan seluruh paragraf dari awal.",
+
+  // --- Face capture ---
+  'face.title': "Tambahkan analisis wajah?",
+  'face.body': "VitalVoice dapat menganalisis biomarker wajah (pucat, tanda dehidrasi, simetri) untuk meningkatkan akurasi hingga 15%.",
+  'face.enableCamera': "Aktifkan kamera",
+  'face.skip': "Lewati dulu",
+  'face.centerHint': "Posisikan wajah di tengah dengan pencahayaan yang baik",
+  'face.noFace': "Lihat lurus ke kamera",
+  'face.moreLight': "Tambah cahaya di wajah",
+  'face.lessLight': "Terlalu terang: menjauh dari cahaya langsung",
+  'face.evenLight': "Hindari cahaya dari belakang atau bayangan tajam",
+  'face.moveCloser': "Mendekat",
+  'face.moveBack': "Mundur sedikit",
+  'face.centre': "Posisikan wajah di tengah bingkai",
+  'face.holdStill': "Jangan bergerak",
+  'face.neutralLight': "Gunakan cahaya putih netral",
+  'face.ready': "Sudah bagus: ambil foto",
+  'face.rejected': "Foto ini tidak dapat digunakan. {reason}",
+  'face.cameraNotReady': "Kamera masih dinyalakan. Coba lagi sebentar lagi.",
+  'face.captureFailed': "Foto tidak dapat diperiksa. Coba lagi, atau lewati langkah ini.",
+
+  // --- Upload ---
+  'upload.title': "Unggah data",
+  'upload.voiceLabel': "Sampel suara (wajib)",
+  'upload.tapToChange': "Ketuk untuk mengganti",
+  'upload.selectAudio': "Pilih file audio",
+  'upload.audioFormats': "Mendukung MP3, WAV, M4A",
+  'upload.imageLabel': "Foto wajah (opsional)",
+  'upload.preview': "Pratinjau",
+  'upload.imageSelected': "Gambar dipilih",
+  'upload.selectImage': "Pilih gambar",
+  'upload.imageFormats': "Mendukung JPG, PNG",
+  'upload.analyze': "Analisis data",
+  'upload.batch': "Validasi dataset (batch)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Memproses data kesehatan",
+  'analyzing.step1': "Mengekstrak biomarker suara...",
+  'analyzing.step2': "Menganalisis pola bicara...",
+  'analyzing.step3': "Menilai karakteristik suara...",
+  'analyzing.step4': "Mencocokkan dengan data multimodal...",
+  'analyzing.step5': "Menyusun rekomendasi pribadi...",
+  'analyzing.retrying': "Masalah koneksi, mencoba lagi (percobaan {attempt})...",
+  'analyzing.footer': "Diproses di lingkungan yang aman",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Layanan sedang sibuk",
+  'error.safety.title': "Analisis diblokir",
+  'error.network.title': "Masalah koneksi",
+  'error.invalid_input.title': "Rekaman tidak dapat dibaca",
+  'error.malformed_output.title': "Analisis tidak lengkap",
+  'error.quota': "Layanan analisis sedang penuh. Tunggu beberapa menit lalu coba lagi.",
+  'error.safety': "Filter keamanan konten memblokir analisis. Rekam ulang tanpa media latar atau suara lain.",
+  'error.network': "Tidak dapat menjangkau layanan analisis. Periksa koneksi Anda lalu coba lagi.",
+  'error.invalidInput': "Rekaman tidak dapat diproses. Rekam ulang atau pilih file lain.",
+  'error.malformedOutput': "Hasil analisis tidak lengkap. Silakan coba lagi.",
+  'error.cancelled': "Analisis dibatalkan.",
+  'error.unknown': "Terjadi kesalahan saat analisis. Silakan coba lagi.",
+  'error.retry': "Coba lagi",
+  'error.recordAgain': "Rekam ulang",
+  'error.chooseFile': "Pilih file lain",
+  'error.viewSample': "Lihat hasil contoh",
+  'error.keptRecording': "Rekaman Anda tetap disimpan, jadi tidak perlu merekam ulang.",
+  'error.keptFile': "File Anda tetap disimpan, jadi tidak perlu mengunggah ulang.",
+
+  // --- Results ---
+  'results.newScan': "Skrining baru",
+  'results.history': "Riwayat",
+  'results.usage': "Penggunaan",
+  'results.exportPdf': "Ekspor PDF",
+  'results.exportFhir': "Ekspor FHIR",
+  'results.exportFhirFailed': "Ekspor FHIR tidak dapat dibuat. Coba lagi atau ekspor PDF sebagai gantinya.",
+  'results.exportJson': "Ekspor JSON",
+  'results.includeMedia': "Sertakan rekaman dan foto",
+  'results.includeMediaHint': "File akan berisi suara dan wajah Anda. Bagikan hanya kepada orang yang Anda percayai.",
+  'results.download': "Unduh",
+  'results.overallScore': "Skor kesejahteraan keseluruhan",
+  'results.confidence': "Keyakinan: {level}",
+  'results.summary': "Ringkasan",
+  'results.recommendations': "Rekomendasi",
+  'results.trends': "Tren",
+  'results.improving': "Membaik",
+  'results.stable': "Stabil",
+  'results.needsAttention': "Perlu perhatian",
+  'results.firstScreening': "Ini skrining pertama Anda yang tersimpan. Lakukan skrining lagi nanti untuk melihat tren.",
+  'results.profileNoChange': "Profil Anda sudah dipertimbangkan, tetapi tidak mengubah interpretasi hasil ini.",
+  'results.voiceTasks': "Tugas suara",
+  'results.disclaimer': "Ini adalah alat skrining, bukan diagnosis medis. Konsultasikan kekhawatiran apa pun dengan tenaga kesehatan profesional.",
+
+  'report.title': "Laporan Skrining Klinis",
+  'report.scoreOverview': "Ringkasan Skor",
+  'report.concernLevel': "Tingkat kekhawatiran",
+  'report.capturedImage': "Gambar yang diambil",
+  'report.domainAnalysis': "Analisis per Bidang",
+  'report.comparedWith': "Persentil dibandingkan dengan: {cohort}",
+  'report.scoreTrends': "Tren Skor",
+  'report.keyObservations': "Pengamatan Utama",
+  'report.significance': "Signifikansi:",
+  'report.reason': "Alasan:",
+  'report.disclaimer': "PENAFIAN:",
+  'report.page': "Halaman {page} dari {count}",
+  'report.generatedBy': "Dibuat oleh VitalVoice AI dengan teknologi Gemini",
+
+  'confidence.low': "Rendah",
+  'confidence.medium': "Sedang",
+  'confidence.high': "Tinggi",
+  'concern.low': "Rendah",
+  'concern.moderate': "Sedang",
+  'concern.elevated': "Meningkat",
+  'concern.high': "Tinggi",
+  'urgency.routine': "Rutin",
+  'urgency.soon': "Segera",
+  'urgency.prompt': "Mendesak",
+
+  'domain.neurological': "Neurologis",
+  'domain.mental_health': "Kesehatan mental",
+  'domain.respiratory': "Pernapasan",
+  'domain.cardiovascular': "Kardiovaskular",
+  'domain.metabolic': "Metabolik",
+  'domain.hydration': "Hidrasi",
+  'domain.sleep_fatigue': "Tidur & kelelahan",
+  'domain.cognitive_load': "Beban kognitif",
+
+  'card.median': "Median: {value}",
+  'card.percentile': "Persentil ke-{value}",
+  'card.noNorms': "Tidak ada norma acuan",
+  'card.fromTask': "Dari tugas {task}",
+
+  'cohort.women': "Perempuan {band}",
+  'cohort.men': "Laki-laki {band}",
+  'cohort.adults': "Dewasa {band}",
+  'cohort.allWomen': "Semua perempuan",
+  'cohort.allMen': "Semua laki-laki",
+  'cohort.allAdults': "Semua orang dewasa",
+
+  'biomarkers.title': "Biomarker terukur",
+  'biomarkers.computed': "Dihitung di perangkat ini dari {seconds} detik audio.",
+  'biomarkers.f0Mean': "Nada rata-rata (F0)",
+  'biomarkers.pitchRange': "Rentang nada",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Rasio harmonik terhadap derau",
+  'biomarkers.pauseRatio': "Rasio jeda",
+  'biomarkers.syllableRate': "Laju suku kata",
+
+  // --- Chat ---
+  'chat.title': "Asisten VitalVoice",
+  'chat.limitReached': "Batas sesi tercapai",
+  'chat.remaining': "Sisa pesan: {count}",
+  'chat.clear': "Hapus obrolan",
+  'chat.empty': "Minta saya menjelaskan istilah medis apa pun atau memberi tips kesehatan lainnya!",
+  'chat.transcribing': "Mentranskripsi…",
+  'chat.noTranscript': "Tidak ada transkrip, jadi balasan berikutnya tidak akan melihat pesan ini",
+  'chat.interrupted': "Balasan terputus",
+  'chat.locked': "Batas obrolan untuk sesi ini tercapai. Mulai ulang analisis untuk melanjutkan.",
+  'chat.placeholder': "Ketik pesan...",
+  'chat.stop': "Hentikan pembuatan balasan",
+  'chat.stopped': "*Respons dihentikan.*",
+  'chat.noResponse': "Saya tidak dapat memproses respons itu.",
+  'chat.connectionError': "Saat ini saya kesulitan terhubung ke server VitalVoice. Silakan coba lagi.",
+
+  // --- History ---
+  'history.title': "Riwayat skrining",
+  'history.empty': "Belum ada skrining tersimpan. Skrining yang selesai disimpan di perangkat ini.",
+  'history.delete': "Hapus skrining",
+  'history.import': "Impor",
+  'history.exportCsv': "Ekspor CSV",
+  'history.importFailed': "File ini tidak dapat diimpor. Pilih file JSON yang diekspor dari VitalVoice.",
+  'history.notAnExport': "File ini bukan ekspor skrining VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "Profil Anda",
+  'profile.intro': "Semua kolom bersifat opsional. Jawaban Anda membantu menafsirkan suara Anda, misalnya nada yang wajar untuk usia Anda, dan menentukan dengan siapa skor Anda dibandingkan. Data hanya disimpan di perangkat ini.",
+  'profile.age': "Usia",
+  'profile.agePlaceholder': "mis. 52",
+  'profile.ageInvalid': "Masukkan usia antara 18 dan 120.",
+  'profile.sexAtBirth': "Jenis kelamin saat lahir",
+  'profile.notSpecified': "Tidak disebutkan",
+  'profile.female': "Perempuan",
+  'profile.male': "Laki-laki",
+  'profile.smoking': "Merokok",
+  'profile.never': "Tidak pernah",
+  'profile.former': "Dulu",
+  'profile.current': "Saat ini",
+  'profile.respiratory': "Penyakit pernapasan yang diketahui",
+  'profile.respiratoryPlaceholder': "mis. asma, PPOK",
+  'profile.neurological': "Penyakit neurologis yang diketahui",
+  'profile.neurologicalPlaceholder': "mis. migrain, penyakit Parkinson",
+  'profile.medications': "Obat saat ini",
+  'profile.medicationsPlaceholder': "Pisahkan dengan koma",
+  'profile.clear': "Hapus profil",
+  'profile.save': "Simpan",
+
+  'profileField.age': "Usia",
+  'profileField.sexAtBirth': "Jenis kelamin saat lahir",
+  'profileField.smoker': "Merokok",
+  'profileField.respiratoryConditions': "Penyakit pernapasan",
+  'profileField.neurologicalConditions': "Penyakit neurologis",
+  'profileField.medications': "Obat",
+
+  // --- Batch validation ---
+  'batch.title': "Validasi batch",
+  'batch.intro': "Analisis folder rekaman berdasarkan manifest CSV berisi label acuan. Manifest memerlukan kolom {file} dan satu kolom per id domain (1 = kondisi ada, 0 = tidak ada), ditambah skor acuan {score} opsional. Kemajuan disimpan, sehingga proses yang terhenti berlanjut dari titik terakhir.",
+  'batch.selectFolder': "Pilih folder audio",
+  'batch.audioFiles': "File audio: {count}",
+  'batch.selectManifest': "Pilih manifest CSV",
+  'batch.manifestSummary': "Baris: {rows} · Domain: {domains}",
+  'batch.manifestUnreadable': "Manifest tidak dapat dibaca.",
+  'batch.manifestEmpty': "Manifes kosong.",
+  'batch.manifestNoFileColumn': "Manifes memerlukan kolom {file} yang menyebutkan setiap file audio.",
+  'batch.manifestNoDomains': "Manifes tidak memiliki kolom bidang. Beri nama dengan id bidang, mis. {label} atau {score}.",
+  'batch.manifestNoRows': "Manifes tidak mencantumkan file apa pun.",
+  'batch.ignoredColumn': "Kolom \"{column}\" diabaikan: bukan id bidang.",
+  'batch.noFileName': "Baris {line}: tidak ada nama file, dilewati.",
+  'batch.duplicateFile': "Baris {line}: \"{file}\" tercantum dua kali, hanya baris pertama yang digunakan.",
+  'batch.invalidLabel': "Baris {line}: \"{value}\" bukan label untuk {domain}, dibiarkan kosong.",
+  'batch.invalidScore': "Baris {line}: \"{value}\" bukan angka untuk {column}, dibiarkan kosong.",
+  'batch.missingFiles': "File manifest yang tidak ada di folder: {count}",
+  'batch.warnings': "Peringatan manifest",
+  'batch.warningCount': "Peringatan: {count}",
+  'batch.missing': "Tidak ada: {file}",
+  'batch.parallel': "Permintaan paralel",
+  'batch.startOver': "Mulai dari awal",
+  'batch.resume': "Lanjutkan (sisa {count})",
+  'batch.run': "Jalankan semua file ({count})",
+  'batch.stop': "Hentikan",
+  'batch.stopping': "Menghentikan…",
+  'batch.progress': "Dianalisis: {done} · Gagal: {failed} (dicoba lagi saat dilanjutkan)",
+  'batch.fileTotal': "File: {count}",
+  'batch.accuracy': "Akurasi per domain",
+  'batch.csv': "CSV",
+  'batch.report': "Laporan",
+  'batch.domain': "Domain",
+  'batch.matrixHint': "positif benar / positif palsu / negatif palsu / negatif benar",
+  'batch.sensitivity': "Sensitivitas",
+  'batch.specificity': "Spesifisitas",
+  'batch.correlation': "Korelasi",
+  'batch.pointBiserialHint': "r point-biserial terhadap label; nilai negatif berarti skor lebih rendah pada kasus positif",
+  'batch.pearsonHint': "r Pearson terhadap skor acuan",
+  'batch.vsLabel': "vs label",
+  'batch.vsReference': "vs acuan",
+  'batch.footnote': "Sensitivitas dan spesifisitas dihitung dari file yang memiliki label untuk domain tersebut.",
+};
+
+export default idID;
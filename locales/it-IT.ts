@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const itIT: Messages = {
+  // --- Common ---
+  'common.cancel': "Annulla",
+  'common.backHome': "Torna alla home",
+  'common.microphoneRequired': "È necessario l'accesso al microfono.",
+
+  // --- Recording checks ---
+  'audio.empty': "Registrazione non riuscita (file vuoto).",
+  'audio.tooShort': "Registrazione troppo breve. Servono almeno {seconds} secondi per un'analisi accurata.",
+  'audio.tooQuiet': "Registrazione troppo bassa. Parla più forte o avvicinati al microfono.",
+  'audio.noSpeech': "Nessuna voce rilevata. Parla in modo chiaro.",
+  'audio.unreadable': "Impossibile verificare il file audio.",
+  'audio.failed': "Registrazione non riuscita.",
+  'quality.title': "Controlli della registrazione",
+  'quality.decodable': "File audio",
+  'quality.duration': "Durata",
+  'quality.speech': "Parlato",
+  'quality.level': "Livello della voce",
+  'quality.snr': "Rumore di fondo",
+  'quality.clipping': "Distorsione",
+  'quality.dc_offset': "Offset del microfono",
+  'quality.dropouts': "Interruzioni",
+  'quality.speechShort': "Rilevati solo {seconds} s di parlato; ne servono almeno {minimum} s. Continua a parlare fino alla fine del timer.",
+  'quality.noisy': "Il rumore di fondo è troppo vicino alla tua voce (solo {value} dB in meno). Allontanati da ventilatori, traffico o altre voci.",
+  'quality.clipped': "La registrazione è distorta perché l'ingresso è troppo forte. Allontanati un po' dal microfono.",
+  'quality.dcOffset': "Il segnale del microfono è decentrato, il che può indicare un microfono difettoso. Provane un altro se succede ancora.",
+  'quality.dropout': "L'audio si è interrotto per {seconds} s. Controlla le connessioni Bluetooth o USB e registra di nuovo.",
+
+  // --- Modals ---
+  'limit.title': "Limite giornaliero raggiunto",
+  'limit.body': "Per mantenere il servizio disponibile e gestire i costi della ricerca, limitiamo l'uso a {quota} per dispositivo.",
+  'limit.quota': "{limit} screening al giorno",
+  'limit.resetsAt': "Altri screening saranno disponibili da {time}.",
+  'limit.sampleNote': "Puoi comunque esplorare la demo interattiva con i dati di esempio, che non conta ai fini del limite.",
+  'limit.ok': "Ho capito",
+  'account.title': "Token dell'account",
+  'account.hint': "Hai un token dell'account fornito dal tuo studio o dalla tua organizzazione? Inseriscilo per usare i suoi limiti invece di quelli di questo dispositivo.",
+  'account.placeholder': "Incolla il token",
+  'account.save': "Usa token",
+  'account.checking': "Verifica…",
+  'account.rejected': "Questo token non è stato accettato.",
+  'account.active': "Token dell'account in uso (livello {tier})",
+  'account.remove': "Rimuovi",
+  'usage.title': "Utilizzo e costi",
+  'usage.screening': "Questo screening",
+  'usage.today': "Oggi su questo dispositivo",
+  'usage.recentDays': "Ultimi giorni",
+  'usage.empty': "Nessuna chiamata al modello registrata per questo screening.",
+  'usage.call': "Chiamata",
+  'usage.calls': "Chiamate al modello",
+  'usage.callCount': "{count} chiamate",
+  'usage.promptTokens': "Token di input",
+  'usage.outputTokens': "Token di output",
+  'usage.totalTokens': "Token totali",
+  'usage.audioTokens': "Token audio",
+  'usage.imageTokens': "Token immagine",
+  'usage.estimatedCost': "Costo stimato",
+  'usage.kind.analysis': "Analisi",
+  'usage.kind.chat': "Risposta della chat",
+  'usage.kind.transcription': "Trascrizione",
+  'usage.unpriced': "{count} chiamate hanno usato un modello assente dal listino e non sono conteggiate.",
+  'usage.disclaimer': "I costi sono stime basate sui prezzi di listino per milione di token, non una fattura. Le chiamate fatte su altri dispositivi o prima del monitoraggio non sono incluse.",
+
+  'tech.title': "Architettura tecnica",
+  'tech.models': "Modelli di IA utilizzati",
+  'tech.flashDescription': "Analisi multimodale a bassa latenza di audio (PCM) e fotogrammi video.",
+  'tech.proDescription': "Ragionamento complesso per correlazione clinica e analisi delle tendenze.",
+  'tech.pipeline': "Pipeline dei dati",
+  'tech.pipelineCapture': "Acquisizione audio grezzo (WebM/PCM)",
+  'tech.pipelineEncoding': "Codifica Base64 lato client",
+  'tech.pipelineRequest': "Richiesta multimodale a Gemini API",
+  'tech.pipelineResponse': "Risposta JSON strutturata",
+  'tech.sampleRequest': "Esempio di richiesta API",
+  'tech.footer': "Basato su articoli di ricerca sull'analisi acustica dei biomarcatori vocali in neurologia.",
+
+  // --- Intro ---
+  'intro.badge': "Pronto per la validazione clinica",
+  'intro.tagline': "Screening avanzato della salute basato su {model}.",
+  'intro.selectedLanguage': "Lingua selezionata:",
+  'intro.watchDemo': "Guarda la demo",
+  'intro.start': "Inizia lo screening",
+  'intro.sample': "Prova con dati di esempio (immediato)",
+  'intro.addProfile': "Aggiungi profilo",
+  'intro.editProfile': "Modifica profilo",
+  'intro.trustedResearch': "Ricerca affidabile",
+  'intro.privacyFirst': "Privacy al primo posto",
+  'intro.secureProcessing': "Elaborazione sicura",
+  'intro.viewArchitecture': "Vedi architettura",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Attività {step} di {total} · {task}",
+  'recording.getReady': "Preparati",
+  'recording.listening': "In ascolto...",
+  'recording.goodVolume': "Volume ottimo",
+  'coach.tooLoud': "Allontana un po' il microfono",
+  'coach.noisy': "Troppo rumore di fondo",
+  'coach.tooFar': "Avvicinati al microfono",
+  'coach.silence': "Inizia a parlare quando sei pronto",
+  'recording.usableSpeech': "{seconds} di {target} s di parlato utilizzabile",
+  'recording.stopEarly': "Interrompi prima",
+  'recording.start': "Avvia registrazione",
+  'recording.skipTask': "Salta questa attività",
+
+  'task.sustained_vowel.label': "Vocale sostenuta",
+  'task.sustained_vowel.instruction': "Fai un respiro profondo, poi di' \"aaah\" il più a lungo possibile con tono e volume comodi.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Ripeti \"pa-ta-ka\" il più velocemente e chiaramente possibile fino alla fine del timer.",
+  'task.reading.label': "Lettura di un brano",
+  'task.reading.instruction': "Leggi ad alta voce questo brano al tuo ritmo normale:",
+  'task.free_speech.label': "Parlato libero",
+  'task.free_speech.instruction': "Rispondi con parole tue:",
+  'task.vowelNoVoice': "Nessuna voce stabile rilevata. Mantieni un unico suono \"aaah\" senza sussurrare.",
+  'task.vowelInterrupted': "Il suono si è interrotto. Prendi fiato prima, poi sostieni \"aaah\" in un solo respiro.",
+  'task.ddkTooFew': "Rilevate troppo poche sillabe. Ripeti \"pa-ta-ka\" senza pause e il più velocemente possibile.",
+  'task.readingSilent': "Rilevato soprattutto silenzio. Leggi ad alta voce l'intero brano dall'inizio.",
+
+  // --- Face capture ---
+  'face.title': "Aggiungere l'analisi del volto?",
+  'face.body': "VitalVoice può analizzare i biomarcatori del volto (pallore, segni di disidratazione, simmetria) per aumentare l'accuratezza fino al 15%.",
+  'face.enableCamera': "Attiva fotocamera",
+  'face.skip': "Salta per ora",
+  'face.centerHint': "Centra il volto con una buona illuminazione",
+  'face.noFace': "Guarda dritto verso la fotocamera",
+  'face.moreLight': "Più luce sul viso",
+  'face.lessLight': "Troppo luminoso: allontanati dalla luce diretta",
+  'face.evenLight': "Evita il controluce e le ombre nette",
+  'face.moveCloser': "Avvicinati",
+  'face.moveBack': "Allontanati un po'",
+  'face.centre': "Centra il viso nell'inquadratura",
+  'face.holdStill': "Resta fermo",
+  'face.neutralLight': "Usa una luce bianca neutra",
+  'face.ready': "Va bene: scatta la foto",
+  'face.rejected': "Questa foto non può essere usata. {reason}",
+  'face.cameraNotReady': "La fotocamera si sta ancora avviando. Riprova tra un attimo.",
+  'face.captureFailed': "Non è stato possibile controllare la foto. Riprova o salta questo passaggio.",
+
+  // --- Upload ---
+  'upload.title': "Carica dati",
+  'upload.voiceLabel': "Campione vocale (obbligatorio)",
+  'upload.tapToChange': "Tocca per cambiare",
+  'upload.selectAudio': "Seleziona file audio",
+  'upload.audioFormats': "Supporta MP3, WAV, M4A",
+  'upload.imageLabel': "Foto del volto (facoltativa)",
+  'upload.preview': "Anteprima",
+  'upload.imageSelected': "Immagine selezionata",
+  'upload.selectImage': "Seleziona immagine",
+  'upload.imageFormats': "Supporta JPG, PNG",
+  'upload.analyze': "Analizza dati",
+  'upload.batch': "Valida un dataset (batch)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Elaborazione dei dati sanitari",
+  'analyzing.step1': "Estrazione dei biomarcatori vocali...",
+  'analyzing.step2': "Analisi dei modelli del parlato...",
+  'analyzing.step3': "Valutazione delle caratteristiche vocali...",
+  'analyzing.step4': "Confronto con i dati multimodali...",
+  'analyzing.step5': "Generazione di consigli personalizzati...",
+  'analyzing.retrying': "Problema di connessione, nuovo tentativo (tentativo {attempt})...",
+  'analyzing.footer': "Elaborazione in ambiente sicuro",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Servizio occupato",
+  'error.safety.title': "Analisi bloccata",
+  'error.network.title': "Problema di connessione",
+  'error.invalid_input.title': "Impossibile leggere la registrazione",
+  'error.malformed_output.title': "Analisi incompleta",
+  'error.quota': "Il servizio di analisi è al momento al massimo della capacità. Attendi qualche minuto e riprova.",
+  'error.safety': "I filtri di sicurezza dei contenuti hanno bloccato l'analisi. Registra di nuovo senza contenuti multimediali in sottofondo o altre voci.",
+  'error.network': "Impossibile raggiungere il servizio di analisi. Controlla la connessione e riprova.",
+  'error.invalidInput': "Impossibile elaborare la registrazione. Registra di nuovo o scegli un altro file.",
+  'error.malformedOutput': "L'analisi è tornata incompleta. Riprova.",
+  'error.cancelled': "Analisi annullata.",
+  'error.unknown': "Qualcosa è andato storto durante l'analisi. Riprova.",
+  'error.retry': "Riprova",
+  'error.recordAgain': "Registra di nuovo",
+  'error.chooseFile': "Scegli un altro file",
+  'error.viewSample': "Vedi risultati di esempio",
+  'error.keptRecording': "La tua registrazione è stata conservata, non serve registrare di nuovo.",
+  'error.keptFile': "Il tuo file è stato conservato, non serve caricarlo di nuovo.",
+
+  // --- Results ---
+  'results.newScan': "Nuovo screening",
+  'results.history': "Cronologia",
+  'results.usage': "Utilizzo",
+  'results.exportPdf': "Esporta PDF",
+  'results.exportFhir': "Esporta FHIR",
+  'results.exportFhirFailed': "Impossibile creare l'esportazione FHIR. Riprova oppure esporta un PDF.",
+  'results.exportJson': "Esporta JSON",
+  'results.includeMedia': "Includi registrazione e foto",
+  'results.includeMediaHint': "Il file conterrà la tua voce e il tuo volto. Condividilo solo con persone di fiducia.",
+  'results.download': "Scarica",
+  'results.overallScore': "Punteggio di benessere complessivo",
+  'results.confidence': "Affidabilità: {level}",
+  'results.summary': "Riepilogo",
+  'results.recommendations': "Consigli",
+  'results.trends': "Tendenze",
+  'results.improving': "In miglioramento",
+  'results.stable': "Stabile",
+  'results.needsAttention': "Richiede attenzione",
+  'results.firstScreening': "Questo è il tuo primo screening salvato. Ripetilo più avanti per vedere le tendenze.",
+  'results.profileNoChange': "Il tuo profilo è stato considerato, ma non ha cambiato l'interpretazione di questi risultati.",
+  'results.voiceTasks': "Attività vocali",
+  'results.disclaimer': "Questo è uno strumento di screening, non una diagnosi medica. Per qualsiasi dubbio rivolgiti a un professionista sanitario.",
+
+  'report.title': "Referto di screening clinico",
+  'report.scoreOverview': "Panoramica dei punteggi",
+  'report.concernLevel': "Livello di attenzione",
+  'report.capturedImage': "Immagine acquisita",
+  'report.domainAnalysis': "Analisi per area",
+  'report.comparedWith': "Percentili confrontati con: {cohort}",
+  'report.scoreTrends': "Andamento dei punteggi",
+  'report.keyObservations': "Osservazioni principali",
+  'report.significance': "Rilevanza:",
+  'report.reason': "Motivo:",
+  'report.disclaimer': "ESCLUSIONE DI RESPONSABILITÀ:",
+  'report.page': "Pagina {page} di {count}",
+  'report.generatedBy': "Generato da VitalVoice AI con tecnologia Gemini",
+
+  'confidence.low': "Bassa",
+  'confidence.medium': "Media",
+  'confidence.high': "Alta",
+  'concern.low': "Basso",
+  'concern.moderate': "Moderato",
+  'concern.elevated': "Elevato",
+  'concern.high': "Alto",
+  'urgency.routine': "Di routine",
+  'urgency.soon': "A breve",
+  'urgency.prompt': "Tempestiva",
+
+  'domain.neurological': "Neurologico",
+  'domain.mental_health': "Salute mentale",
+  'domain.respiratory': "Respiratorio",
+  'domain.cardiovascular': "Cardiovascolare",
+  'domain.metabolic': "Metabolico",
+  'domain.hydration': "Idratazione",
+  'domain.sleep_fatigue': "Sonno e affaticamento",
+  'domain.cognitive_load': "Carico cognitivo",
+
+  'card.median': "Mediana: {value}",
+  'card.percentile': "{value}° percentile",
+  'card.noNorms': "Nessuna norma di riferimento",
+  'card.fromTask': "Dall'attività {task}",
+
+  'cohort.women': "Donne {band}",
+  'cohort.men': "Uomini {band}",
+  'cohort.adults': "Adulti {band}",
+  'cohort.allWomen': "Tutte le donne",
+  'cohort.allMen': "Tutti gli uomini",
+  'cohort.allAdults': "Tutti gli adulti",
+
+  'biomarkers.title': "Biomarcatori misurati",
+  'biomarkers.computed': "Calcolati su questo dispositivo da {seconds} s di audio.",
+  'biomarkers.f0Mean': "Tono medio (F0)",
+  'biomarkers.pitchRange': "Estensione del tono",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Rapporto armoniche/rumore",
+  'biomarkers.pauseRatio': "Rapporto di pause",
+  'biomarkers.syllableRate': "Velocità sillabica",
+
+  // --- Chat ---
+  'chat.title': "Assistente VitalVoice",
+  'chat.limitReached': "Limite della sessione raggiunto",
+  'chat.remaining': "Messaggi rimanenti: {count}",
+  'chat.clear': "Cancella chat",
+  'chat.empty': "Chiedimi di spiegare qualsiasi termine medico o di darti altri consigli per il benessere!",
+  'chat.transcribing': "Trascrizione…",
+  'chat.noTranscript': "Nessuna trascrizione, quindi le risposte successive non vedranno questo messaggio",
+  'chat.interrupted': "Risposta interrotta",
+  'chat.locked': "Limite della chat raggiunto per questa sessione. Riavvia l'analisi per continuare a parlare.",
+  'chat.placeholder': "Scrivi un messaggio...",
+  'chat.stop': "Interrompi generazione",
+  'chat.stopped': "*Risposta interrotta.*",
+  'chat.noResponse': "Non sono riuscito a elaborare quella risposta.",
+  'chat.connectionError': "Al momento ho problemi a connettermi ai server di VitalVoice. Riprova.",
+
+  // --- History ---
+  'history.title': "Cronologia screening",
+  'history.empty': "Nessuno screening salvato. Gli screening completati vengono salvati su questo dispositivo.",
+  'history.delete': "Elimina screening",
+  'history.import': "Importa",
+  'history.exportCsv': "Esporta CSV",
+  'history.importFailed': "Impossibile importare questo file. Scegli un file JSON esportato da VitalVoice.",
+  'history.notAnExport': "Questo file non è un'esportazione di screening VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "Il tuo profilo",
+  'profile.intro': "Tutti i campi sono facoltativi. Le risposte aiutano a interpretare la tua voce, ad esempio quale tono è tipico per la tua età, e decidono con chi vengono confrontati i tuoi punteggi. Sono salvate solo su questo dispositivo.",
+  'profile.age': "Età",
+  'profile.agePlaceholder': "es. 52",
+  'profile.ageInvalid': "Inserisci un'età tra 18 e 120.",
+  'profile.sexAtBirth': "Sesso alla nascita",
+  'profile.notSpecified': "Non specificato",
+  'profile.female': "Femmina",
+  'profile.male': "Maschio",
+  'profile.smoking': "Fumo",
+  'profile.never': "Mai",
+  'profile.former': "Ex fumatore",
+  'profile.current': "Attuale",
+  'profile.respiratory': "Patologie respiratorie note",
+  'profile.respiratoryPlaceholder': "es. asma, BPCO",
+  'profile.neurological': "Patologie neurologiche note",
+  'profile.neurologicalPlaceholder': "es. emicrania, morbo di Parkinson",
+  'profile.medications': "Farmaci attuali",
+  'profile.medicationsPlaceholder': "Separati da virgole",
+  'profile.clear': "Cancella profilo",
+  'profile.save': "Salva",
+
+  'profileField.age': "Età",
+  'profileField.sexAtBirth': "Sesso alla nascita",
+  'profileField.smoker': "Fumo",
+  'profileField.respiratoryConditions': "Patologie respiratorie",
+  'profileField.neurologicalConditions': "Patologie neurologiche",
+  'profileField.medications': "Farmaci",
+
+  // --- Batch validation ---
+  'batch.title': "Validazione batch",
+  'batch.intro': "Analizza una cartella di registrazioni rispetto a un manifest CSV con le etichette di riferimento. Il manifest richiede una colonna {file} e una colonna per ogni id di dominio (1 = condizione presente, 0 = assente), più eventuali punteggi di riferimento {score}. I progressi vengono salvati, quindi un'esecuzione interrotta riprende da dove si era fermata.",
+  'batch.selectFolder': "Seleziona cartella audio",
+  'batch.audioFiles': "File audio: {count}",
+  'batch.selectManifest': "Seleziona manifest CSV",
+  'batch.manifestSummary': "Righe: {rows} · Domini: {domains}",
+  'batch.manifestUnreadable': "Impossibile leggere il manifest.",
+  'batch.manifestEmpty': "Il manifest è vuoto.",
+  'batch.manifestNoFileColumn': "Il manifest richiede una colonna {file} con il nome di ogni file audio.",
+  'batch.manifestNoDomains': "Il manifest non ha colonne di area. Assegna loro l'id dell'area, ad es. {label} o {score}.",
+  'batch.manifestNoRows': "Il manifest non elenca alcun file.",
+  'batch.ignoredColumn': "Colonna \"{column}\" ignorata: non è un id di area.",
+  'batch.noFileName': "Riga {line}: nessun nome file, saltata.",
+  'batch.duplicateFile': "Riga {line}: \"{file}\" è elencato due volte, viene usata solo la prima riga.",
+  'batch.invalidLabel': "Riga {line}: \"{value}\" non è un'etichetta per {domain}, lasciata vuota.",
+  'batch.invalidScore': "Riga {line}: \"{value}\" non è un numero per {column}, lasciata vuota.",
+  'batch.missingFiles': "File del manifest non trovati nella cartella: {count}",
+  'batch.warnings': "Avvisi del manifest",
+  'batch.warningCount': "Avvisi: {count}",
+  'batch.missing': "Mancante: {file}",
+  'batch.parallel': "Richieste parallele",
+  'batch.startOver': "Ricomincia",
+  'batch.resume': "Riprendi ({count} rimanenti)",
+  'batch.run': "Esegui tutti i file ({count})",
+  'batch.stop': "Interrompi",
+  'batch.stopping': "Interruzione…",
+  'batch.progress': "Analizzati: {done} · Non riusciti: {failed} (ritentati alla ripresa)",
+  'batch.fileTotal': "File: {count}",
+  'batch.accuracy': "Accuratezza per dominio",
+  'batch.csv': "CSV",
+  'batch.report': "Report",
+  'batch.domain': "Dominio",
+  'batch.matrixHint': "veri positivi / falsi positivi / falsi negativi / veri negativi",
+  'batch.sensitivity': "Sensibilità",
+  'batch.specificity': "Specificità",
+  'batch.correlation': "Correlazione",
+  'batch.pointBiserialHint': "r punto-biseriale rispetto all'etichetta; un valore negativo indica punteggi più bassi nei casi positivi",
+  'batch.pearsonHint': "r di Pearson rispetto al punteggio di riferimento",
+  'batch.vsLabel': "vs etichetta",
+  'batch.vsReference': "vs riferimento",
+  'batch.footnote': "Sensibilità e specificità sono calcolate sui file con un'etichetta per quel dominio.",
+};
+
+export default itIT;
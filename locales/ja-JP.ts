@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const jaJP: Messages = {
+  // --- Common ---
+  'common.cancel': "キャンセル",
+  'common.backHome': "ホームに戻る",
+  'common.microphoneRequired': "マイクへのアクセスが必要です。",
+
+  // --- Recording checks ---
+  'audio.empty': "録音に失敗しました（空のファイル）。",
+  'audio.tooShort': "録音が短すぎます。正確な分析には {seconds} 秒以上必要です。",
+  'audio.tooQuiet': "録音の音量が小さすぎます。もう少し大きな声で話すか、マイクに近づいてください。",
+  'audio.noSpeech': "音声が検出されませんでした。はっきりと話してください。",
+  'audio.unreadable': "音声ファイルを検証できませんでした。",
+  'audio.failed': "録音に失敗しました。",
+  'quality.title': "録音チェック",
+  'quality.decodable': "音声ファイル",
+  'quality.duration': "長さ",
+  'quality.speech': "発話",
+  'quality.level': "声の大きさ",
+  'quality.snr': "背景ノイズ",
+  'quality.clipping': "音割れ",
+  'quality.dc_offset': "マイクのオフセット",
+  'quality.dropouts': "途切れ",
+  'quality.speechShort': "検出された発話は {seconds} 秒だけでした。少なくとも {minimum} 秒必要です。タイマーが終わるまで話し続けてください。",
+  'quality.noisy': "背景ノイズが声に近すぎます（{value} dB しか差がありません）。扇風機や車の音、他の人の声から離れてください。",
+  'quality.clipped': "入力が大きすぎて録音が音割れしています。マイクから少し離れてください。",
+  'quality.dcOffset': "マイクの信号が中心からずれており、マイクの不具合の可能性があります。繰り返し起きる場合は別のマイクをお試しください。",
+  'quality.dropout': "音声が {seconds} 秒途切れました。Bluetooth や USB の接続を確認して、もう一度録音してください。",
+
+  // --- Modals ---
+  'limit.title': "1日の上限に達しました",
+  'limit.body': "サービスの安定提供と研究コスト管理のため、ご利用は1台の端末につき {quota} までとなっています。",
+  'limit.quota': "1日 {limit} 回のスクリーニング",
+  'limit.resetsAt': "{time} 以降に再びスクリーニングできます。",
+  'limit.sampleNote': "サンプルデータを使ったインタラクティブなデモは引き続きご覧いただけます。上限には含まれません。",
+  'limit.ok': "了解しました",
+  'account.title': "アカウントトークン",
+  'account.hint': "研究や組織から発行されたアカウントトークンがある場合は、入力するとこの端末ではなくそのトークンの上限が適用されます。",
+  'account.placeholder': "トークンを貼り付け",
+  'account.save': "トークンを使用",
+  'account.checking': "確認中…",
+  'account.rejected': "このトークンは受け付けられませんでした。",
+  'account.active': "アカウントトークンを使用中（{tier} ティア）",
+  'account.remove': "削除",
+  'usage.title': "使用量とコスト",
+  'usage.screening': "このスクリーニング",
+  'usage.today': "このデバイスの今日",
+  'usage.recentDays': "最近の日別",
+  'usage.empty': "このスクリーニングのモデル呼び出しは記録されていません。",
+  'usage.call': "呼び出し",
+  'usage.calls': "モデル呼び出し",
+  'usage.callCount': "{count} 回",
+  'usage.promptTokens': "入力トークン",
+  'usage.outputTokens': "出力トークン",
+  'usage.totalTokens': "合計トークン",
+  'usage.audioTokens': "音声トークン",
+  'usage.imageTokens': "画像トークン",
+  'usage.estimatedCost': "推定コスト",
+  'usage.kind.analysis': "分析",
+  'usage.kind.chat': "チャットの返答",
+  'usage.kind.transcription': "文字起こし",
+  'usage.unpriced': "{count} 回の呼び出しは料金表にないモデルを使用したため、コストに含まれていません。",
+  'usage.disclaimer': "コストは100万トークンあたりの公表価格に基づく推定であり、請求額ではありません。他のデバイスでの呼び出しや記録開始前の呼び出しは含まれません。",
+
+  'tech.title': "技術アーキテクチャ",
+  'tech.models': "使用している AI モデル",
+  'tech.flashDescription': "音声（PCM）と映像フレームの低遅延マルチモーダル分析。",
+  'tech.proDescription': "臨床的な関連付けと傾向分析のための高度な推論。",
+  'tech.pipeline': "データパイプライン",
+  'tech.pipelineCapture': "生音声（WebM/PCM）の取得",
+  'tech.pipelineEncoding': "クライアント側での Base64 エンコード",
+  'tech.pipelineRequest': "Gemini API へのマルチモーダルリクエスト",
+  'tech.pipelineResponse': "構造化された JSON レスポンス",
+  'tech.sampleRequest': "API リクエストの例",
+  'tech.footer': "神経学における音声バイオマーカーの音響分析に関する研究論文に基づいています。",
+
+  // --- Intro ---
+  'intro.badge': "臨床的妥当性に対応",
+  'intro.tagline': "{model} による高度なヘルススクリーニング。",
+  'intro.selectedLanguage': "選択中の言語：",
+  'intro.watchDemo': "デモを見る",
+  'intro.start': "スクリーニングを開始",
+  'intro.sample': "サンプルデータで試す（すぐに表示）",
+  'intro.addProfile': "プロフィールを追加",
+  'intro.editProfile': "プロフィールを編集",
+  'intro.trustedResearch': "信頼できる研究",
+  'intro.privacyFirst': "プライバシー重視",
+  'intro.secureProcessing': "安全な処理",
+  'intro.viewArchitecture': "アーキテクチャを見る",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "タスク {step}/{total} · {task}",
+  'recording.getReady': "準備してください",
+  'recording.listening': "聞き取り中...",
+  'recording.goodVolume': "ちょうどよい音量です",
+  'coach.tooLoud': "マイクを少し離してください",
+  'coach.noisy': "周囲の雑音が大きすぎます",
+  'coach.tooFar': "マイクに近づいてください",
+  'coach.silence': "準備ができたら話し始めてください",
+  'recording.usableSpeech': "使用可能な音声 {seconds} / {target} 秒",
+  'recording.stopEarly': "早めに終了",
+  'recording.start': "録音を開始",
+  'recording.skipTask': "このタスクをスキップ",
+
+  'task.sustained_vowel.label': "持続母音",
+  'task.sustained_vowel.instruction': "深く息を吸ってから、楽な高さと大きさで「あー」とできるだけ長く発声してください。",
+  'task.ddk.label': "パタカ",
+  'task.ddk.instruction': "タイマーが終わるまで「パ・タ・カ」をできるだけ速く、はっきりと繰り返してください。",
+  'task.reading.label': "音読",
+  'task.reading.instruction': "次の文章をふだんの速さで声に出して読んでください：",
+  'task.free_speech.label': "自由発話",
+  'task.free_speech.instruction': "ご自身の言葉で答えてください：",
+  'task.vowelNoVoice': "安定した発声が検出されませんでした。ささやかずに「あー」を一続きで伸ばしてください。",
+  'task.vowelInterrupted': "音が途切れました。先に息を吸い、ひと息で「あー」を伸ばしてください。",
+  'task.ddkTooFew': "検出された音節が少なすぎます。「パ・タ・カ」を途切れずにできるだけ速く繰り返してください。",
+  'task.readingSilent': "ほとんど無音でした。文章全体を最初から声に出して読んでください。",
+
+  // --- Face capture ---
+  'face.title': "顔の分析を追加しますか？",
+  'face.body': "VitalVoice は顔のバイオマーカー（顔色の青白さ、水分状態のサイン、左右対称性）を分析し、精度を最大 15% 向上させることができます。",
+  'face.enableCamera': "カメラを有効にする",
+  'face.skip': "今はスキップ",
+  'face.centerHint': "明るい場所で顔を中央に合わせてください",
+  'face.noFace': "カメラをまっすぐ見てください",
+  'face.moreLight': "顔をもっと明るくしてください",
+  'face.lessLight': "明るすぎます：直射光を避けてください",
+  'face.evenLight': "逆光や強い影を避けてください",
+  'face.moveCloser': "もう少し近づいてください",
+  'face.moveBack': "少し離れてください",
+  'face.centre': "顔を枠の中央に合わせてください",
+  'face.holdStill': "動かないでください",
+  'face.neutralLight': "自然な白い光を使ってください",
+  'face.ready': "OKです：撮影してください",
+  'face.rejected': "この写真は使用できません。{reason}",
+  'face.cameraNotReady': "カメラを起動中です。少し待ってからもう一度お試しください。",
+  'face.captureFailed': "写真を確認できませんでした。もう一度試すか、この手順をスキップしてください。",
+
+  // --- Upload ---
+  'upload.title': "データをアップロード",
+  'upload.voiceLabel': "音声サンプル（必須）",
+  'upload.tapToChange': "タップして変更",
+  'upload.selectAudio': "音声ファイルを選択",
+  'upload.audioFormats': "MP3、WAV、M4A に対応",
+  'upload.imageLabel': "顔画像（任意）",
+  'upload.preview': "プレビュー",
+  'upload.imageSelected': "画像を選択済み",
+  'upload.selectImage': "画像を選択",
+  'upload.imageFormats': "JPG、PNG に対応",
+  'upload.analyze': "データを分析",
+  'upload.batch': "データセットを検証（一括）",
+
+  // --- Analyzing ---
+  'analyzing.title': "健康データを処理中",
+  'analyzing.step1': "音声バイオマーカーを抽出中...",
+  'analyzing.step2': "話し方のパターンを分析中...",
+  'analyzing.step3': "声の特徴を評価中...",
+  'analyzing.step4': "マルチモーダルデータと照合中...",
+  'analyzing.step5': "あなたに合わせた所見を作成中...",
+  'analyzing.retrying': "接続に問題があります。再試行しています（{attempt} 回目）...",
+  'analyzing.footer': "安全な環境で処理",
+
+  // --- Analysis errors ---
+  'error.quota.title': "サービスが混雑しています",
+  'error.safety.title': "分析がブロックされました",
+  'error.network.title': "接続の問題",
+  'error.invalid_input.title': "録音を読み取れませんでした",
+  'error.malformed_output.title': "分析が不完全です",
+  'error.quota': "分析サービスが現在混み合っています。数分待ってからもう一度お試しください。",
+  'error.safety': "コンテンツの安全フィルターにより分析がブロックされました。背景の音声や他の人の声が入らない状態で録音し直してください。",
+  'error.network': "分析サービスに接続できませんでした。接続を確認してもう一度お試しください。",
+  'error.invalidInput': "録音を処理できませんでした。録音し直すか、別のファイルを選んでください。",
+  'error.malformedOutput': "分析結果が不完全でした。もう一度お試しください。",
+  'error.cancelled': "分析をキャンセルしました。",
+  'error.unknown': "分析中に問題が発生しました。もう一度お試しください。",
+  'error.retry': "再試行",
+  'error.recordAgain': "録音し直す",
+  'error.chooseFile': "別のファイルを選ぶ",
+  'error.viewSample': "サンプル結果を見る",
+  'error.keptRecording': "録音は保持されているため、録り直す必要はありません。",
+  'error.keptFile': "ファイルは保持されているため、アップロードし直す必要はありません。",
+
+  // --- Results ---
+  'results.newScan': "新しいスキャン",
+  'results.history': "履歴",
+  'results.usage': "使用量",
+  'results.exportPdf': "PDF を書き出す",
+  'results.exportFhir': "FHIR を書き出す",
+  'results.exportFhirFailed': "FHIR エクスポートを作成できませんでした。もう一度試すか、PDF を書き出してください。",
+  'results.exportJson': "JSON を書き出す",
+  'results.includeMedia': "録音と写真を含める",
+  'results.includeMediaHint': "ファイルにはあなたの声と顔が含まれます。信頼できる相手とだけ共有してください。",
+  'results.download': "ダウンロード",
+  'results.overallScore': "総合ウェルネススコア",
+  'results.confidence': "信頼度：{level}",
+  'results.summary': "概要",
+  'results.recommendations': "推奨事項",
+  'results.trends': "傾向",
+  'results.improving': "改善",
+  'results.stable': "安定",
+  'results.needsAttention': "要注意",
+  'results.firstScreening': "これは最初に保存されたスクリーニングです。もう一度スクリーニングすると傾向が表示されます。",
+  'results.profileNoChange': "プロフィールは考慮されましたが、今回の結果の解釈は変わりませんでした。",
+  'results.voiceTasks': "音声タスク",
+  'results.disclaimer': "これはスクリーニングツールであり、医学的な診断ではありません。気になる点は医療専門家にご相談ください。",
+
+  'report.title': "臨床スクリーニングレポート",
+  'report.scoreOverview': "スコアの概要",
+  'report.concernLevel': "懸念レベル",
+  'report.capturedImage': "撮影した画像",
+  'report.domainAnalysis': "領域別の分析",
+  'report.comparedWith': "パーセンタイルの比較対象: {cohort}",
+  'report.scoreTrends': "スコアの推移",
+  'report.keyObservations': "主な所見",
+  'report.significance': "意義:",
+  'report.reason': "理由:",
+  'report.disclaimer': "免責事項:",
+  'report.page': "{page} / {count} ページ",
+  'report.generatedBy': "Gemini を活用した VitalVoice AI により作成",
+
+  'confidence.low': "低",
+  'confidence.medium': "中",
+  'confidence.high': "高",
+  'concern.low': "低",
+  'concern.moderate': "中程度",
+  'concern.elevated': "やや高い",
+  'concern.high': "高",
+  'urgency.routine': "通常",
+  'urgency.soon': "近日中",
+  'urgency.prompt': "早急",
+
+  'domain.neurological': "神経系",
+  'domain.mental_health': "メンタルヘルス",
+  'domain.respiratory': "呼吸器",
+  'domain.cardiovascular': "心血管",
+  'domain.metabolic': "代謝",
+  'domain.hydration': "水分状態",
+  'domain.sleep_fatigue': "睡眠と疲労",
+  'domain.cognitive_load': "認知負荷",
+
+  'card.median': "中央値：{value}",
+  'card.percentile': "{value} パーセンタイル",
+  'card.noNorms': "基準値なし",
+  'card.fromTask': "「{task}」タスクより",
+
+  'cohort.women': "女性 {band}",
+  'cohort.men': "男性 {band}",
+  'cohort.adults': "成人 {band}",
+  'cohort.allWomen': "すべての女性",
+  'cohort.allMen': "すべての男性",
+  'cohort.allAdults': "すべての成人",
+
+  'biomarkers.title': "測定されたバイオマーカー",
+  'biomarkers.computed': "この端末で {seconds} 秒の音声から算出しました。",
+  'biomarkers.f0Mean': "平均ピッチ（F0）",
+  'biomarkers.pitchRange': "ピッチ範囲",
+  'biomarkers.jitter': "ジッター",
+  'biomarkers.shimmer': "シマー",
+  'biomarkers.hnr': "調波対雑音比",
+  'biomarkers.pauseRatio': "ポーズ比率",
+  'biomarkers.syllableRate': "音節速度",
+
+  // --- Chat ---
+  'chat.title': "VitalVoice アシスタント",
+  'chat.limitReached': "セッションの上限に達しました",
+  'chat.remaining': "残りメッセージ数：{count}",
+  'chat.clear': "チャットを消去",
+  'chat.empty': "医学用語の説明や、ほかのウェルネスのヒントをお気軽にどうぞ！",
+  'chat.transcribing': "文字起こし中…",
+  'chat.noTranscript': "文字起こしがないため、この後の返答ではこのメッセージが参照されません",
+  'chat.interrupted': "応答が中断されました",
+  'chat.locked': "このセッションのチャット上限に達しました。続けるには分析をやり直してください。",
+  'chat.placeholder': "メッセージを入力...",
+  'chat.stop': "生成を停止",
+  'chat.stopped': "*応答を停止しました。*",
+  'chat.noResponse': "その応答を処理できませんでした。",
+  'chat.connectionError': "現在 VitalVoice サーバーに接続できません。もう一度お試しください。",
+
+  // --- History ---
+  'history.title': "スクリーニング履歴",
+  'history.empty': "保存されたスクリーニングはまだありません。完了したスクリーニングはこの端末に保存されます。",
+  'history.delete': "スクリーニングを削除",
+  'history.import': "読み込む",
+  'history.exportCsv': "CSV を書き出す",
+  'history.importFailed': "このファイルは読み込めませんでした。VitalVoice から書き出した JSON ファイルを選んでください。",
+  'history.notAnExport': "このファイルは VitalVoice のスクリーニングエクスポートではありません。",
+
+  // --- Profile ---
+  'profile.title': "プロフィール",
+  'profile.intro': "すべての項目は任意です。回答は声の解釈（年齢に応じた典型的な高さなど）や、スコアの比較対象の選択に使われます。情報はこの端末にのみ保存されます。",
+  'profile.age': "年齢",
+  'profile.agePlaceholder': "例：52",
+  'profile.ageInvalid': "18〜120 の年齢を入力してください。",
+  'profile.sexAtBirth': "出生時の性別",
+  'profile.notSpecified': "指定しない",
+  'profile.female': "女性",
+  'profile.male': "男性",
+  'profile.smoking': "喫煙",
+  'profile.never': "なし",
+  'profile.former': "過去に喫煙",
+  'profile.current': "現在喫煙",
+  'profile.respiratory': "既知の呼吸器疾患",
+  'profile.respiratoryPlaceholder': "例：喘息、COPD",
+  'profile.neurological': "既知の神経疾患",
+  'profile.neurologicalPlaceholder': "例：片頭痛、パーキンソン病",
+  'profile.medications': "服用中の薬",
+  'profile.medicationsPlaceholder': "カンマで区切って入力",
+  'profile.clear': "プロフィールを消去",
+  'profile.save': "保存",
+
+  'profileField.age': "年齢",
+  'profileField.sexAtBirth': "出生時の性別",
+  'profileField.smoker': "喫煙",
+  'profileField.respiratoryConditions': "呼吸器疾患",
+  'profileField.neurologicalConditions': "神経疾患",
+  'profileField.medications': "服用中の薬",
+
+  // --- Batch validation ---
+  'batch.title': "一括検証",
+  'batch.intro': "正解ラベル付きの CSV マニフェストに照らして、録音フォルダーを分析します。マニフェストには {file} 列と、領域 id ごとの列（1 = 該当あり、0 = なし）が必要で、任意で {score} 参照スコアも含められます。進行状況は保存されるため、中断した実行は止まったところから再開します。",
+  'batch.selectFolder': "音声フォルダーを選択",
+  'batch.audioFiles': "音声ファイル：{count}",
+  'batch.selectManifest': "CSV マニフェストを選択",
+  'batch.manifestSummary': "行数：{rows} · 領域：{domains}",
+  'batch.manifestUnreadable': "マニフェストを読み取れませんでした。",
+  'batch.manifestEmpty': "マニフェストが空です。",
+  'batch.manifestNoFileColumn': "マニフェストには各音声ファイル名を示す {file} 列が必要です。",
+  'batch.manifestNoDomains': "マニフェストに領域の列がありません。{label} や {score} のように領域 ID で名前を付けてください。",
+  'batch.manifestNoRows': "マニフェストにファイルがありません。",
+  'batch.ignoredColumn': "列「{column}」を無視しました: 領域 ID ではありません。",
+  'batch.noFileName': "{line} 行目: ファイル名がないためスキップしました。",
+  'batch.duplicateFile': "{line} 行目: 「{file}」が重複しています。最初の行のみ使用します。",
+  'batch.invalidLabel': "{line} 行目: 「{value}」は {domain} のラベルではないため空欄にしました。",
+  'batch.invalidScore': "{line} 行目: 「{value}」は {column} の数値ではないため空欄にしました。",
+  'batch.missingFiles': "フォルダーに見つからないマニフェストのファイル：{count}",
+  'batch.warnings': "マニフェストの警告",
+  'batch.warningCount': "警告：{count}",
+  'batch.missing': "見つかりません：{file}",
+  'batch.parallel': "並列リクエスト数",
+  'batch.startOver': "最初からやり直す",
+  'batch.resume': "再開（残り {count}）",
+  'batch.run': "すべてのファイルを処理（{count}）",
+  'batch.stop': "停止",
+  'batch.stopping': "停止中…",
+  'batch.progress': "分析済み：{done} · 失敗：{failed}（再開時に再試行）",
+  'batch.fileTotal': "ファイル：{count}",
+  'batch.accuracy': "領域ごとの精度",
+  'batch.csv': "CSV",
+  'batch.report': "レポート",
+  'batch.domain': "領域",
+  'batch.matrixHint': "真陽性 / 偽陽性 / 偽陰性 / 真陰性",
+  'batch.sensitivity': "感度",
+  'batch.specificity': "特異度",
+  'batch.correlation': "相関",
+  'batch.pointBiserialHint': "ラベルに対する点双列相関 r。負の値は陽性例でスコアが低いことを示します",
+  'batch.pearsonHint': "参照スコアに対するピアソンの r",
+  'batch.vsLabel': "対ラベル",
+  'batch.vsReference': "対参照",
+  'batch.footnote': "感度と特異度は、その領域のラベルがあるファイルで計算しています。",
+};
+
+export default jaJP;
@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const koKR: Messages = {
+  // --- Common ---
+  'common.cancel': "취소",
+  'common.backHome': "홈으로 돌아가기",
+  'common.microphoneRequired': "마이크 접근 권한이 필요합니다.",
+
+  // --- Recording checks ---
+  'audio.empty': "녹음에 실패했습니다(빈 파일).",
+  'audio.tooShort': "녹음이 너무 짧습니다. 정확한 분석을 위해 최소 {seconds}초가 필요합니다.",
+  'audio.tooQuiet': "녹음 소리가 너무 작습니다. 더 크게 말하거나 마이크에 가까이 가 주세요.",
+  'audio.noSpeech': "음성이 감지되지 않았습니다. 또렷하게 말해 주세요.",
+  'audio.unreadable': "오디오 파일을 확인할 수 없습니다.",
+  'audio.failed': "녹음에 실패했습니다.",
+  'quality.title': "녹음 점검",
+  'quality.decodable': "오디오 파일",
+  'quality.duration': "길이",
+  'quality.speech': "음성",
+  'quality.level': "음성 크기",
+  'quality.snr': "배경 소음",
+  'quality.clipping': "왜곡",
+  'quality.dc_offset': "마이크 오프셋",
+  'quality.dropouts': "끊김",
+  'quality.speechShort': "감지된 음성이 {seconds}초뿐입니다. 최소 {minimum}초가 필요합니다. 타이머가 끝날 때까지 계속 말해 주세요.",
+  'quality.noisy': "배경 소음이 목소리와 너무 가깝습니다(차이 {value} dB). 선풍기, 차량 소음, 다른 사람 목소리에서 떨어지세요.",
+  'quality.clipped': "입력이 너무 커서 녹음이 왜곡되었습니다. 마이크에서 조금 떨어지세요.",
+  'quality.dcOffset': "마이크 신호가 중심에서 벗어나 있어 마이크 고장일 수 있습니다. 계속 발생하면 다른 마이크를 사용해 보세요.",
+  'quality.dropout': "오디오가 {seconds}초 동안 끊겼습니다. 블루투스 또는 USB 연결을 확인하고 다시 녹음하세요.",
+
+  // --- Modals ---
+  'limit.title': "일일 한도 도달",
+  'limit.body': "서비스 안정성과 연구 비용 관리를 위해 기기당 사용량을 {quota}로 제한하고 있습니다.",
+  'limit.quota': "하루 {limit}회 검사",
+  'limit.resetsAt': "{time}부터 추가 검사를 이용할 수 있습니다.",
+  'limit.sampleNote': "샘플 데이터로 인터랙티브 데모는 계속 볼 수 있으며, 한도에 포함되지 않습니다.",
+  'limit.ok': "확인",
+  'account.title': "계정 토큰",
+  'account.hint': "연구나 기관에서 받은 계정 토큰이 있나요? 입력하면 이 기기 대신 해당 토큰의 한도가 적용됩니다.",
+  'account.placeholder': "토큰 붙여넣기",
+  'account.save': "토큰 사용",
+  'account.checking': "확인 중…",
+  'account.rejected': "이 토큰은 승인되지 않았습니다.",
+  'account.active': "계정 토큰 사용 중({tier} 등급)",
+  'account.remove': "삭제",
+  'usage.title': "사용량 및 비용",
+  'usage.screening': "이 검사",
+  'usage.today': "오늘 이 기기",
+  'usage.recentDays': "최근 며칠",
+  'usage.empty': "이 검사에 대해 기록된 모델 호출이 없습니다.",
+  'usage.call': "호출",
+  'usage.calls': "모델 호출",
+  'usage.callCount': "{count}회",
+  'usage.promptTokens': "입력 토큰",
+  'usage.outputTokens': "출력 토큰",
+  'usage.totalTokens': "총 토큰",
+  'usage.audioTokens': "오디오 토큰",
+  'usage.imageTokens': "이미지 토큰",
+  'usage.estimatedCost': "예상 비용",
+  'usage.kind.analysis': "분석",
+  'usage.kind.chat': "채팅 답변",
+  'usage.kind.transcription': "전사",
+  'usage.unpriced': "{count}회의 호출은 가격표에 없는 모델을 사용하여 비용이 계산되지 않았습니다.",
+  'usage.disclaimer': "비용은 100만 토큰당 정가를 기준으로 한 추정치이며 청구서가 아닙니다. 다른 기기나 사용량 기록 이전의 호출은 포함되지 않습니다.",
+
+  'tech.title': "기술 아키텍처",
+  'tech.models': "사용된 AI 모델",
+  'tech.flashDescription': "오디오(PCM)와 비디오 프레임의 저지연 멀티모달 분석.",
+  'tech.proDescription': "임상적 상관관계와 추세 분석을 위한 복합 추론.",
+  'tech.pipeline': "데이터 파이프라인",
+  'tech.pipelineCapture': "원시 오디오(WebM/PCM) 캡처",
+  'tech.pipelineEncoding': "클라이언트 측 Base64 인코딩",
+  'tech.pipelineRequest': "Gemini API 멀티모달 요청",
+  'tech.pipelineResponse': "구조화된 JSON 응답",
+  'tech.sampleRequest': "API 요청 예시",
+  'tech.footer': "신경학 분야의 음성 바이오마커 음향 분석에 관한 연구 논문을 바탕으로 합니다.",
+
+  // --- Intro ---
+  'intro.badge': "임상 타당성 준비 완료",
+  'intro.tagline': "{model} 기반의 고급 건강 검사.",
+  'intro.selectedLanguage': "선택한 언어:",
+  'intro.watchDemo': "데모 보기",
+  'intro.start': "검사 시작",
+  'intro.sample': "샘플 데이터로 체험하기(즉시)",
+  'intro.addProfile': "프로필 추가",
+  'intro.editProfile': "프로필 수정",
+  'intro.trustedResearch': "신뢰할 수 있는 연구",
+  'intro.privacyFirst': "개인정보 보호 우선",
+  'intro.secureProcessing': "안전한 처리",
+  'intro.viewArchitecture': "아키텍처 보기",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "과제 {step}/{total} · {task}",
+  'recording.getReady': "준비하세요",
+  'recording.listening': "듣는 중...",
+  'recording.goodVolume': "적절한 음량입니다",
+  'coach.tooLoud': "마이크를 조금 더 멀리 두세요",
+  'coach.noisy': "배경 소음이 너무 큽니다",
+  'coach.tooFar': "마이크에 더 가까이 오세요",
+  'coach.silence': "준비되면 말하기 시작하세요",
+  'recording.usableSpeech': "사용 가능한 음성 {seconds} / {target}초",
+  'recording.stopEarly': "일찍 종료",
+  'recording.start': "녹음 시작",
+  'recording.skipTask': "이 과제 건너뛰기",
+
+  'task.sustained_vowel.label': "지속 모음",
+  'task.sustained_vowel.instruction': "숨을 깊이 들이쉰 다음 편안한 높이와 크기로 '아—' 소리를 최대한 길게 내 주세요.",
+  'task.ddk.label': "퍼터커",
+  'task.ddk.instruction': "타이머가 끝날 때까지 '퍼-터-커'를 최대한 빠르고 또렷하게 반복해 주세요.",
+  'task.reading.label': "문단 읽기",
+  'task.reading.instruction': "평소 속도로 이 글을 소리 내어 읽어 주세요:",
+  'task.free_speech.label': "자유 발화",
+  'task.free_speech.instruction': "자유롭게 답해 주세요:",
+  'task.vowelNoVoice': "안정적인 목소리가 감지되지 않았습니다. 속삭이지 말고 '아—' 소리 하나를 유지해 주세요.",
+  'task.vowelInterrupted': "소리가 끊겼습니다. 먼저 숨을 들이쉰 뒤 한 호흡에 '아—'를 유지해 주세요.",
+  'task.ddkTooFew': "감지된 음절이 너무 적습니다. '퍼-터-커'를 쉬지 않고 최대한 빠르게 반복해 주세요.",
+  'task.readingSilent': "대부분 무음으로 감지되었습니다. 처음부터 글 전체를 소리 내어 읽어 주세요.",
+
+  // --- Face capture ---
+  'face.title': "얼굴 분석을 추가할까요?",
+  'face.body': "VitalVoice는 얼굴 바이오마커(창백함, 수분 상태 징후, 대칭성)를 분석해 정확도를 최대 15%까지 높일 수 있습니다.",
+  'face.enableCamera': "카메라 켜기",
+  'face.skip': "지금은 건너뛰기",
+  'face.centerHint': "밝은 곳에서 얼굴을 가운데에 맞춰 주세요",
+  'face.noFace': "카메라를 정면으로 바라보세요",
+  'face.moreLight': "얼굴에 빛을 더 비춰 주세요",
+  'face.lessLight': "너무 밝습니다: 직사광을 피하세요",
+  'face.evenLight': "역광이나 강한 그림자를 피하세요",
+  'face.moveCloser': "더 가까이 오세요",
+  'face.moveBack': "조금 뒤로 물러나세요",
+  'face.centre': "얼굴을 화면 가운데에 맞추세요",
+  'face.holdStill': "움직이지 마세요",
+  'face.neutralLight': "자연스러운 흰색 조명을 사용하세요",
+  'face.ready': "좋습니다: 사진을 찍으세요",
+  'face.rejected': "이 사진은 사용할 수 없습니다. {reason}",
+  'face.cameraNotReady': "카메라를 아직 시작하는 중입니다. 잠시 후 다시 시도하세요.",
+  'face.captureFailed': "사진을 확인할 수 없습니다. 다시 시도하거나 이 단계를 건너뛰세요.",
+
+  // --- Upload ---
+  'upload.title': "데이터 업로드",
+  'upload.voiceLabel': "음성 샘플(필수)",
+  'upload.tapToChange': "탭하여 변경",
+  'upload.selectAudio': "오디오 파일 선택",
+  'upload.audioFormats': "MP3, WAV, M4A 지원",
+  'upload.imageLabel': "얼굴 이미지(선택)",
+  'upload.preview': "미리보기",
+  'upload.imageSelected': "이미지 선택됨",
+  'upload.selectImage': "이미지 선택",
+  'upload.imageFormats': "JPG, PNG 지원",
+  'upload.analyze': "데이터 분석",
+  'upload.batch': "데이터셋 검증(일괄)",
+
+  // --- Analyzing ---
+  'analyzing.title': "건강 데이터 처리 중",
+  'analyzing.step1': "음성 바이오마커 추출 중...",
+  'analyzing.step2': "말하기 패턴 분석 중...",
+  'analyzing.step3': "음성 특성 평가 중...",
+  'analyzing.step4': "멀티모달 데이터와 대조 중...",
+  'analyzing.step5': "맞춤형 인사이트 생성 중...",
+  'analyzing.retrying': "연결 문제로 다시 시도하는 중(시도 {attempt})...",
+  'analyzing.footer': "보안 환경에서 처리",
+
+  // --- Analysis errors ---
+  'error.quota.title': "서비스 혼잡",
+  'error.safety.title': "분석 차단됨",
+  'error.network.title': "연결 문제",
+  'error.invalid_input.title': "녹음을 읽을 수 없음",
+  'error.malformed_output.title': "불완전한 분석",
+  'error.quota': "현재 분석 서비스 사용량이 최대입니다. 몇 분 후 다시 시도해 주세요.",
+  'error.safety': "콘텐츠 안전 필터가 분석을 차단했습니다. 배경 소리나 다른 사람의 목소리 없이 다시 녹음해 주세요.",
+  'error.network': "분석 서비스에 연결할 수 없습니다. 연결 상태를 확인한 후 다시 시도해 주세요.",
+  'error.invalidInput': "녹음을 처리할 수 없습니다. 다시 녹음하거나 다른 파일을 선택해 주세요.",
+  'error.malformedOutput': "분석 결과가 불완전합니다. 다시 시도해 주세요.",
+  'error.cancelled': "분석이 취소되었습니다.",
+  'error.unknown': "분석 중 문제가 발생했습니다. 다시 시도해 주세요.",
+  'error.retry': "다시 시도",
+  'error.recordAgain': "다시 녹음",
+  'error.chooseFile': "다른 파일 선택",
+  'error.viewSample': "샘플 결과 보기",
+  'error.keptRecording': "녹음이 보존되어 있으니 다시 녹음할 필요가 없습니다.",
+  'error.keptFile': "파일이 보존되어 있으니 다시 업로드할 필요가 없습니다.",
+
+  // --- Results ---
+  'results.newScan': "새 검사",
+  'results.history': "기록",
+  'results.usage': "사용량",
+  'results.exportPdf': "PDF 내보내기",
+  'results.exportFhir': "FHIR 내보내기",
+  'results.exportFhirFailed': "FHIR 내보내기를 만들 수 없습니다. 다시 시도하거나 PDF로 내보내세요.",
+  'results.exportJson': "JSON 내보내기",
+  'results.includeMedia': "녹음과 사진 포함",
+  'results.includeMediaHint': "파일에 목소리와 얼굴이 포함됩니다. 신뢰할 수 있는 사람과만 공유하세요.",
+  'results.download': "다운로드",
+  'results.overallScore': "종합 웰니스 점수",
+  'results.confidence': "신뢰도: {level}",
+  'results.summary': "요약",
+  'results.recommendations': "권장 사항",
+  'results.trends': "추세",
+  'results.improving': "개선 중",
+  'results.stable': "안정",
+  'results.needsAttention': "주의 필요",
+  'results.firstScreening': "처음 저장된 검사입니다. 다시 검사하면 추세가 표시됩니다.",
+  'results.profileNoChange': "프로필을 반영했지만 이번 결과의 해석은 달라지지 않았습니다.",
+  'results.voiceTasks': "음성 과제",
+  'results.disclaimer': "이 도구는 선별 검사 도구이며 의학적 진단이 아닙니다. 우려되는 점은 의료 전문가와 상담하세요.",
+
+  'report.title': "임상 선별 검사 보고서",
+  'report.scoreOverview': "점수 개요",
+  'report.concernLevel': "우려 수준",
+  'report.capturedImage': "촬영한 이미지",
+  'report.domainAnalysis': "영역별 분석",
+  'report.comparedWith': "백분위 비교 대상: {cohort}",
+  'report.scoreTrends': "점수 추이",
+  'report.keyObservations': "주요 관찰 사항",
+  'report.significance': "의미:",
+  'report.reason': "이유:",
+  'report.disclaimer': "면책 조항:",
+  'report.page': "{count}페이지 중 {page}페이지",
+  'report.generatedBy': "Gemini 기반 VitalVoice AI로 생성됨",
+
+  'confidence.low': "낮음",
+  'confidence.medium': "보통",
+  'confidence.high': "높음",
+  'concern.low': "낮음",
+  'concern.moderate': "보통",
+  'concern.elevated': "다소 높음",
+  'concern.high': "높음",
+  'urgency.routine': "일상",
+  'urgency.soon': "곧",
+  'urgency.prompt': "신속",
+
+  'domain.neurological': "신경계",
+  'domain.mental_health': "정신 건강",
+  'domain.respiratory': "호흡기",
+  'domain.cardiovascular': "심혈관",
+  'domain.metabolic': "대사",
+  'domain.hydration': "수분 상태",
+  'domain.sleep_fatigue': "수면 및 피로",
+  'domain.cognitive_load': "인지 부하",
+
+  'card.median': "중앙값: {value}",
+  'card.percentile': "{value}백분위",
+  'card.noNorms': "기준치 없음",
+  'card.fromTask': "'{task}' 과제에서",
+
+  'cohort.women': "여성 {band}",
+  'cohort.men': "남성 {band}",
+  'cohort.adults': "성인 {band}",
+  'cohort.allWomen': "전체 여성",
+  'cohort.allMen': "전체 남성",
+  'cohort.allAdults': "전체 성인",
+
+  'biomarkers.title': "측정된 바이오마커",
+  'biomarkers.computed': "이 기기에서 {seconds}초 분량의 오디오로 계산했습니다.",
+  'biomarkers.f0Mean': "평균 음높이(F0)",
+  'biomarkers.pitchRange': "음높이 범위",
+  'biomarkers.jitter': "지터",
+  'biomarkers.shimmer': "시머",
+  'biomarkers.hnr': "배음 대 잡음비",
+  'biomarkers.pauseRatio': "휴지 비율",
+  'biomarkers.syllableRate': "음절 속도",
+
+  // --- Chat ---
+  'chat.title': "VitalVoice 어시스턴트",
+  'chat.limitReached': "세션 한도 도달",
+  'chat.remaining': "남은 메시지: {count}",
+  'chat.clear': "채팅 지우기",
+  'chat.empty': "의학 용어 설명이나 더 많은 웰니스 팁을 물어보세요!",
+  'chat.transcribing': "받아쓰는 중…",
+  'chat.noTranscript': "받아쓰기가 없어 이후 답변에서는 이 메시지를 볼 수 없습니다",
+  'chat.interrupted': "응답이 중단되었습니다",
+  'chat.locked': "이번 세션의 채팅 한도에 도달했습니다. 더 대화하려면 분석을 다시 시작하세요.",
+  'chat.placeholder': "메시지 입력...",
+  'chat.stop': "생성 중지",
+  'chat.stopped': "*응답이 중지되었습니다.*",
+  'chat.noResponse': "해당 응답을 처리할 수 없습니다.",
+  'chat.connectionError': "지금 VitalVoice 서버에 연결하는 데 문제가 있습니다. 다시 시도해 주세요.",
+
+  // --- History ---
+  'history.title': "검사 기록",
+  'history.empty': "저장된 검사가 아직 없습니다. 완료된 검사는 이 기기에 저장됩니다.",
+  'history.delete': "검사 삭제",
+  'history.import': "가져오기",
+  'history.exportCsv': "CSV 내보내기",
+  'history.importFailed': "이 파일을 가져올 수 없습니다. VitalVoice에서 내보낸 JSON 파일을 선택하세요.",
+  'history.notAnExport': "이 파일은 VitalVoice 선별 검사 내보내기 파일이 아닙니다.",
+
+  // --- Profile ---
+  'profile.title': "내 프로필",
+  'profile.intro': "모든 항목은 선택 사항입니다. 입력한 내용은 목소리 해석(예: 내 나이에 일반적인 음높이)과 점수 비교 대상을 정하는 데 쓰이며, 이 기기에만 저장됩니다.",
+  'profile.age': "나이",
+  'profile.agePlaceholder': "예: 52",
+  'profile.ageInvalid': "18세에서 120세 사이의 나이를 입력하세요.",
+  'profile.sexAtBirth': "출생 시 성별",
+  'profile.notSpecified': "선택 안 함",
+  'profile.female': "여성",
+  'profile.male': "남성",
+  'profile.smoking': "흡연",
+  'profile.never': "비흡연",
+  'profile.former': "과거 흡연",
+  'profile.current': "현재 흡연",
+  'profile.respiratory': "알려진 호흡기 질환",
+  'profile.respiratoryPlaceholder': "예: 천식, COPD",
+  'profile.neurological': "알려진 신경계 질환",
+  'profile.neurologicalPlaceholder': "예: 편두통, 파킨슨병",
+  'profile.medications': "복용 중인 약",
+  'profile.medicationsPlaceholder': "쉼표로 구분",
+  'profile.clear': "프로필 지우기",
+  'profile.save': "저장",
+
+  'profileField.age': "나이",
+  'profileField.sexAtBirth': "출생 시 성별",
+  'profileField.smoker': "흡연",
+  'profileField.respiratoryConditions': "호흡기 질환",
+  'profileField.neurologicalConditions': "신경계 질환",
+  'profileField.medications': "복용 약",
+
+  // --- Batch validation ---
+  'batch.title': "일괄 검증",
+  'batch.intro': "정답 라벨이 담긴 CSV 매니페스트를 기준으로 녹음 폴더를 분석합니다. 매니페스트에는 {file} 열과 영역 id별 열(1 = 해당, 0 = 해당 없음)이 필요하며, 선택적으로 {score} 참조 점수를 넣을 수 있습니다. 진행 상황이 저장되므로 중단된 실행은 멈춘 곳부터 다시 시작합니다.",
+  'batch.selectFolder': "오디오 폴더 선택",
+  'batch.audioFiles': "오디오 파일: {count}",
+  'batch.selectManifest': "CSV 매니페스트 선택",
+  'batch.manifestSummary': "행: {rows} · 영역: {domains}",
+  'batch.manifestUnreadable': "매니페스트를 읽을 수 없습니다.",
+  'batch.manifestEmpty': "매니페스트가 비어 있습니다.",
+  'batch.manifestNoFileColumn': "매니페스트에는 각 오디오 파일 이름을 담은 {file} 열이 필요합니다.",
+  'batch.manifestNoDomains': "매니페스트에 영역 열이 없습니다. {label} 또는 {score}처럼 영역 ID로 이름을 지정하세요.",
+  'batch.manifestNoRows': "매니페스트에 파일이 없습니다.",
+  'batch.ignoredColumn': "\"{column}\" 열을 무시했습니다: 영역 ID가 아닙니다.",
+  'batch.noFileName': "{line}행: 파일 이름이 없어 건너뛰었습니다.",
+  'batch.duplicateFile': "{line}행: \"{file}\"이(가) 두 번 나와 첫 번째 행만 사용합니다.",
+  'batch.invalidLabel': "{line}행: \"{value}\"은(는) {domain}의 레이블이 아니어서 비워 두었습니다.",
+  'batch.invalidScore': "{line}행: \"{value}\"은(는) {column}의 숫자가 아니어서 비워 두었습니다.",
+  'batch.missingFiles': "폴더에 없는 매니페스트 파일: {count}",
+  'batch.warnings': "매니페스트 경고",
+  'batch.warningCount': "경고: {count}",
+  'batch.missing': "없음: {file}",
+  'batch.parallel': "병렬 요청 수",
+  'batch.startOver': "처음부터 다시",
+  'batch.resume': "이어서 하기({count}개 남음)",
+  'batch.run': "모든 파일 처리({count})",
+  'batch.stop': "중지",
+  'batch.stopping': "중지하는 중…",
+  'batch.progress': "분석됨: {done} · 실패: {failed}(이어서 할 때 재시도)",
+  'batch.fileTotal': "파일: {count}",
+  'batch.accuracy': "영역별 정확도",
+  'batch.csv': "CSV",
+  'batch.report': "보고서",
+  'batch.domain': "영역",
+  'batch.matrixHint': "참양성 / 위양성 / 위음성 / 참음성",
+  'batch.sensitivity': "민감도",
+  'batch.specificity': "특이도",
+  'batch.correlation': "상관",
+  'batch.pointBiserialHint': "라벨에 대한 점이연 상관 r. 음수는 양성 사례의 점수가 더 낮다는 뜻입니다",
+  'batch.pearsonHint': "참조 점수에 대한 피어슨 r",
+  'batch.vsLabel': "라벨 대비",
+  'batch.vsReference': "참조 대비",
+  'batch.footnote': "민감도와 특이도는 해당 영역에 라벨이 있는 파일로 계산합니다.",
+};
+
+export default koKR;
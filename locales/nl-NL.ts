@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const nlNL: Messages = {
+  // --- Common ---
+  'common.cancel': "Annuleren",
+  'common.backHome': "Terug naar start",
+  'common.microphoneRequired': "Toegang tot de microfoon is vereist.",
+
+  // --- Recording checks ---
+  'audio.empty': "Opname mislukt (leeg bestand).",
+  'audio.tooShort': "Opname te kort. Voor een nauwkeurige analyse is minimaal {seconds} seconden nodig.",
+  'audio.tooQuiet': "Opname te zacht. Spreek luider of dichter bij de microfoon.",
+  'audio.noSpeech': "Geen spraak gedetecteerd. Spreek duidelijk.",
+  'audio.unreadable': "Het audiobestand kon niet worden gecontroleerd.",
+  'audio.failed': "Opname mislukt.",
+  'quality.title': "Opnamecontroles",
+  'quality.decodable': "Audiobestand",
+  'quality.duration': "Lengte",
+  'quality.speech': "Spraak",
+  'quality.level': "Stemniveau",
+  'quality.snr': "Achtergrondgeluid",
+  'quality.clipping': "Vervorming",
+  'quality.dc_offset': "Microfoonafwijking",
+  'quality.dropouts': "Onderbrekingen",
+  'quality.speechShort': "Er is maar {seconds} s spraak gedetecteerd; er is minstens {minimum} s nodig. Blijf praten tot de timer afloopt.",
+  'quality.noisy': "Het achtergrondgeluid ligt te dicht bij je stem (maar {value} dB zachter). Ga weg van ventilatoren, verkeer of andere stemmen.",
+  'quality.clipped': "De opname is vervormd omdat het ingangssignaal te luid is. Ga iets verder van de microfoon af.",
+  'quality.dcOffset': "Het microfoonsignaal ligt niet in het midden, wat op een defecte microfoon kan wijzen. Probeer een andere als dit blijft gebeuren.",
+  'quality.dropout': "Het geluid viel {seconds} s weg. Controleer de bluetooth- of USB-verbinding en neem opnieuw op.",
+
+  // --- Modals ---
+  'limit.title': "Daglimiet bereikt",
+  'limit.body': "Om de dienst beschikbaar te houden en onderzoekskosten te beheersen, beperken we het gebruik tot {quota} per apparaat.",
+  'limit.quota': "{limit} screenings per dag",
+  'limit.resetsAt': "Vanaf {time} zijn er weer screenings beschikbaar.",
+  'limit.sampleNote': "Je kunt nog steeds de interactieve demo met voorbeeldgegevens bekijken; die telt niet mee voor je limiet.",
+  'limit.ok': "Begrepen",
+  'account.title': "Accounttoken",
+  'account.hint': "Heb je een accounttoken van je onderzoek of organisatie? Voer het in om de limieten daarvan te gebruiken in plaats van die van dit apparaat.",
+  'account.placeholder': "Plak je token",
+  'account.save': "Token gebruiken",
+  'account.checking': "Controleren…",
+  'account.rejected': "Dit token is niet geaccepteerd.",
+  'account.active': "Accounttoken in gebruik (niveau {tier})",
+  'account.remove': "Verwijderen",
+  'usage.title': "Gebruik en kosten",
+  'usage.screening': "Deze screening",
+  'usage.today': "Vandaag op dit apparaat",
+  'usage.recentDays': "Afgelopen dagen",
+  'usage.empty': "Voor deze screening zijn geen modelaanroepen vastgelegd.",
+  'usage.call': "Aanroep",
+  'usage.calls': "Modelaanroepen",
+  'usage.callCount': "{count} aanroepen",
+  'usage.promptTokens': "Invoertokens",
+  'usage.outputTokens': "Uitvoertokens",
+  'usage.totalTokens': "Totaal tokens",
+  'usage.audioTokens': "Audiotokens",
+  'usage.imageTokens': "Afbeeldingstokens",
+  'usage.estimatedCost': "Geschatte kosten",
+  'usage.kind.analysis': "Analyse",
+  'usage.kind.chat': "Chatantwoord",
+  'usage.kind.transcription': "Transcriptie",
+  'usage.unpriced': "{count} aanroepen gebruikten een model dat niet in de prijstabel staat en zijn niet meegerekend.",
+  'usage.disclaimer': "Kosten zijn schattingen op basis van catalogusprijzen per miljoen tokens, geen factuur. Aanroepen op andere apparaten of van vóór het bijhouden van gebruik zijn niet meegeteld.",
+
+  'tech.title': "Technische architectuur",
+  'tech.models': "Gebruikte AI-modellen",
+  'tech.flashDescription': "Multimodale analyse met lage latentie van audio (PCM) en videoframes.",
+  'tech.proDescription': "Complex redeneren voor klinische correlatie en trendanalyse.",
+  'tech.pipeline': "Datapijplijn",
+  'tech.pipelineCapture': "Ruwe audio-opname (WebM/PCM)",
+  'tech.pipelineEncoding': "Base64-codering aan clientzijde",
+  'tech.pipelineRequest': "Multimodaal verzoek aan Gemini API",
+  'tech.pipelineResponse': "Gestructureerd JSON-antwoord",
+  'tech.sampleRequest': "Voorbeeld van een API-verzoek",
+  'tech.footer': "Gebaseerd op onderzoeksartikelen over akoestische analyse van stembiomarkers in de neurologie.",
+
+  // --- Intro ---
+  'intro.badge': "Klaar voor klinische validatie",
+  'intro.tagline': "Geavanceerde gezondheidsscreening, aangedreven door {model}.",
+  'intro.selectedLanguage': "Gekozen taal:",
+  'intro.watchDemo': "Bekijk demo",
+  'intro.start': "Start screening",
+  'intro.sample': "Probeer met voorbeeldgegevens (direct)",
+  'intro.addProfile': "Profiel toevoegen",
+  'intro.editProfile': "Profiel bewerken",
+  'intro.trustedResearch': "Betrouwbaar onderzoek",
+  'intro.privacyFirst': "Privacy voorop",
+  'intro.secureProcessing': "Veilige verwerking",
+  'intro.viewArchitecture': "Architectuur bekijken",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Taak {step} van {total} · {task}",
+  'recording.getReady': "Maak je klaar",
+  'recording.listening': "Luisteren...",
+  'recording.goodVolume': "Volume is perfect",
+  'coach.tooLoud': "Houd de microfoon iets verder weg",
+  'coach.noisy': "Te veel achtergrondgeluid",
+  'coach.tooFar': "Kom dichter bij de microfoon",
+  'coach.silence': "Begin met spreken wanneer u klaar bent",
+  'recording.usableSpeech': "{seconds} van {target} s bruikbare spraak",
+  'recording.stopEarly': "Eerder stoppen",
+  'recording.start': "Opname starten",
+  'recording.skipTask': "Deze taak overslaan",
+
+  'task.sustained_vowel.label': "Aangehouden klinker",
+  'task.sustained_vowel.instruction': "Adem diep in en zeg dan zo lang mogelijk \"aaah\" op een comfortabele toonhoogte en luidheid.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Herhaal \"pa-ta-ka\" zo snel en duidelijk mogelijk tot de timer afloopt.",
+  'task.reading.label': "Tekst voorlezen",
+  'task.reading.instruction': "Lees deze tekst hardop voor in je normale tempo:",
+  'task.free_speech.label': "Vrij spreken",
+  'task.free_speech.instruction': "Antwoord in je eigen woorden:",
+  'task.vowelNoVoice': "Geen stabiele stem gedetecteerd. Houd één \"aaah\"-klank aan zonder te fluisteren.",
+  'task.vowelInterrupted': "De klank werd onderbroken. Adem eerst in en houd \"aaah\" dan in één adem aan.",
+  'task.ddkTooFew': "Te weinig lettergrepen gedetecteerd. Herhaal \"pa-ta-ka\" zonder pauzes en zo snel mogelijk.",
+  'task.readingSilent': "Vooral stilte gedetecteerd. Lees de hele tekst vanaf het begin hardop voor.",
+
+  // --- Face capture ---
+  'face.title': "Gezichtsanalyse toevoegen?",
+  'face.body': "VitalVoice kan gezichtsbiomarkers analyseren (bleekheid, tekenen van uitdroging, symmetrie) om de nauwkeurigheid met tot 15% te verhogen.",
+  'face.enableCamera': "Camera inschakelen",
+  'face.skip': "Nu overslaan",
+  'face.centerHint': "Centreer je gezicht bij goed licht",
+  'face.noFace': "Kijk recht in de camera",
+  'face.moreLight': "Meer licht op uw gezicht",
+  'face.lessLight': "Te fel: ga uit het directe licht",
+  'face.evenLight': "Vermijd tegenlicht en harde schaduwen",
+  'face.moveCloser': "Kom dichterbij",
+  'face.moveBack': "Ga iets naar achteren",
+  'face.centre': "Plaats uw gezicht in het midden",
+  'face.holdStill': "Blijf stil",
+  'face.neutralLight': "Gebruik neutraal wit licht",
+  'face.ready': "Ziet er goed uit: maak de foto",
+  'face.rejected': "Deze foto kan niet worden gebruikt. {reason}",
+  'face.cameraNotReady': "De camera start nog op. Probeer het zo opnieuw.",
+  'face.captureFailed': "De foto kon niet worden gecontroleerd. Probeer het opnieuw of sla deze stap over.",
+
+  // --- Upload ---
+  'upload.title': "Gegevens uploaden",
+  'upload.voiceLabel': "Stemopname (verplicht)",
+  'upload.tapToChange': "Tik om te wijzigen",
+  'upload.selectAudio': "Audiobestand kiezen",
+  'upload.audioFormats': "Ondersteunt MP3, WAV, M4A",
+  'upload.imageLabel': "Gezichtsfoto (optioneel)",
+  'upload.preview': "Voorbeeld",
+  'upload.imageSelected': "Afbeelding gekozen",
+  'upload.selectImage': "Afbeelding kiezen",
+  'upload.imageFormats': "Ondersteunt JPG, PNG",
+  'upload.analyze': "Gegevens analyseren",
+  'upload.batch': "Dataset valideren (batch)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Gezondheidsgegevens verwerken",
+  'analyzing.step1': "Stembiomarkers extraheren...",
+  'analyzing.step2': "Spraakpatronen analyseren...",
+  'analyzing.step3': "Stemkenmerken beoordelen...",
+  'analyzing.step4': "Vergelijken met multimodale gegevens...",
+  'analyzing.step5': "Persoonlijke aanbevelingen opstellen...",
+  'analyzing.retrying': "Verbindingsprobleem, opnieuw proberen (poging {attempt})...",
+  'analyzing.footer': "Verwerking in een beveiligde omgeving",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Dienst is bezet",
+  'error.safety.title': "Analyse geblokkeerd",
+  'error.network.title': "Verbindingsprobleem",
+  'error.invalid_input.title': "Opname kon niet worden gelezen",
+  'error.malformed_output.title': "Onvolledige analyse",
+  'error.quota': "De analysedienst zit momenteel aan zijn capaciteit. Wacht een paar minuten en probeer het opnieuw.",
+  'error.safety': "De veiligheidsfilters voor inhoud hebben de analyse geblokkeerd. Neem opnieuw op zonder media op de achtergrond of andere stemmen.",
+  'error.network': "De analysedienst is niet bereikbaar. Controleer je verbinding en probeer het opnieuw.",
+  'error.invalidInput': "De opname kon niet worden verwerkt. Neem opnieuw op of kies een ander bestand.",
+  'error.malformedOutput': "De analyse kwam onvolledig terug. Probeer het opnieuw.",
+  'error.cancelled': "Analyse geannuleerd.",
+  'error.unknown': "Er ging iets mis tijdens de analyse. Probeer het opnieuw.",
+  'error.retry': "Opnieuw proberen",
+  'error.recordAgain': "Opnieuw opnemen",
+  'error.chooseFile': "Ander bestand kiezen",
+  'error.viewSample': "Voorbeeldresultaten bekijken",
+  'error.keptRecording': "Je opname is bewaard, dus je hoeft niet opnieuw op te nemen.",
+  'error.keptFile': "Je bestand is bewaard, dus je hoeft het niet opnieuw te uploaden.",
+
+  // --- Results ---
+  'results.newScan': "Nieuwe screening",
+  'results.history': "Geschiedenis",
+  'results.usage': "Gebruik",
+  'results.exportPdf': "PDF exporteren",
+  'results.exportFhir': "FHIR exporteren",
+  'results.exportFhirFailed': "De FHIR-export kon niet worden gemaakt. Probeer het opnieuw of exporteer een PDF.",
+  'results.exportJson': "JSON exporteren",
+  'results.includeMedia': "Opname en foto meenemen",
+  'results.includeMediaHint': "Het bestand bevat je stem en gezicht. Deel het alleen met mensen die je vertrouwt.",
+  'results.download': "Downloaden",
+  'results.overallScore': "Algemene welzijnsscore",
+  'results.confidence': "Betrouwbaarheid: {level}",
+  'results.summary': "Samenvatting",
+  'results.recommendations': "Aanbevelingen",
+  'results.trends': "Trends",
+  'results.improving': "Verbetert",
+  'results.stable': "Stabiel",
+  'results.needsAttention': "Vraagt aandacht",
+  'results.firstScreening': "Dit is je eerste opgeslagen screening. Doe later nog een screening om trends te zien.",
+  'results.profileNoChange': "Je profiel is meegewogen, maar veranderde de interpretatie van deze resultaten niet.",
+  'results.voiceTasks': "Stemtaken",
+  'results.disclaimer': "Dit is een screeningshulpmiddel, geen medische diagnose. Raadpleeg bij zorgen een zorgverlener.",
+
+  'report.title': "Klinisch screeningsrapport",
+  'report.scoreOverview': "Scoreoverzicht",
+  'report.concernLevel': "Zorgniveau",
+  'report.capturedImage': "Vastgelegde afbeelding",
+  'report.domainAnalysis': "Analyse per domein",
+  'report.comparedWith': "Percentielen vergeleken met: {cohort}",
+  'report.scoreTrends': "Scoreverloop",
+  'report.keyObservations': "Belangrijkste observaties",
+  'report.significance': "Betekenis:",
+  'report.reason': "Reden:",
+  'report.disclaimer': "DISCLAIMER:",
+  'report.page': "Pagina {page} van {count}",
+  'report.generatedBy': "Gemaakt door VitalVoice AI, mogelijk gemaakt door Gemini",
+
+  'confidence.low': "Laag",
+  'confidence.medium': "Gemiddeld",
+  'confidence.high': "Hoog",
+  'concern.low': "Laag",
+  'concern.moderate': "Matig",
+  'concern.elevated': "Verhoogd",
+  'concern.high': "Hoog",
+  'urgency.routine': "Routine",
+  'urgency.soon': "Binnenkort",
+  'urgency.prompt': "Spoedig",
+
+  'domain.neurological': "Neurologisch",
+  'domain.mental_health': "Mentale gezondheid",
+  'domain.respiratory': "Ademhaling",
+  'domain.cardiovascular': "Hart en vaten",
+  'domain.metabolic': "Stofwisseling",
+  'domain.hydration': "Hydratatie",
+  'domain.sleep_fatigue': "Slaap en vermoeidheid",
+  'domain.cognitive_load': "Cognitieve belasting",
+
+  'card.median': "Mediaan: {value}",
+  'card.percentile': "{value}e percentiel",
+  'card.noNorms': "Geen referentienormen",
+  'card.fromTask': "Uit de taak {task}",
+
+  'cohort.women': "Vrouwen {band}",
+  'cohort.men': "Mannen {band}",
+  'cohort.adults': "Volwassenen {band}",
+  'cohort.allWomen': "Alle vrouwen",
+  'cohort.allMen': "Alle mannen",
+  'cohort.allAdults': "Alle volwassenen",
+
+  'biomarkers.title': "Gemeten biomarkers",
+  'biomarkers.computed': "Op dit apparaat berekend uit {seconds} s audio.",
+  'biomarkers.f0Mean': "Gemiddelde toonhoogte (F0)",
+  'biomarkers.pitchRange': "Toonhoogtebereik",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Harmonische-ruisverhouding",
+  'biomarkers.pauseRatio': "Pauzeverhouding",
+  'biomarkers.syllableRate': "Lettergreeptempo",
+
+  // --- Chat ---
+  'chat.title': "VitalVoice-assistent",
+  'chat.limitReached': "Sessielimiet bereikt",
+  'chat.remaining': "Resterende berichten: {count}",
+  'chat.clear': "Chat wissen",
+  'chat.empty': "Vraag me om een medische term uit te leggen of om meer welzijnstips!",
+  'chat.transcribing': "Transcriberen…",
+  'chat.noTranscript': "Geen transcript, dus latere antwoorden zien dit bericht niet",
+  'chat.interrupted': "Antwoord onderbroken",
+  'chat.locked': "De chatlimiet voor deze sessie is bereikt. Start de analyse opnieuw om verder te praten.",
+  'chat.placeholder': "Typ een bericht...",
+  'chat.stop': "Genereren stoppen",
+  'chat.stopped': "*Antwoord gestopt.*",
+  'chat.noResponse': "Ik kon dat antwoord niet verwerken.",
+  'chat.connectionError': "Ik heb momenteel problemen met de verbinding met de VitalVoice-servers. Probeer het opnieuw.",
+
+  // --- History ---
+  'history.title': "Screeninggeschiedenis",
+  'history.empty': "Nog geen opgeslagen screenings. Voltooide screenings worden op dit apparaat opgeslagen.",
+  'history.delete': "Screening verwijderen",
+  'history.import': "Importeren",
+  'history.exportCsv': "CSV exporteren",
+  'history.importFailed': "Dit bestand kon niet worden geïmporteerd. Kies een JSON-bestand dat uit VitalVoice is geëxporteerd.",
+  'history.notAnExport': "Dit bestand is geen VitalVoice-screeningexport.",
+
+  // --- Profile ---
+  'profile.title': "Je profiel",
+  'profile.intro': "Alle velden zijn optioneel. Je antwoorden helpen je stem te interpreteren, bijvoorbeeld welke toonhoogte gebruikelijk is voor je leeftijd, en bepalen met wie je scores worden vergeleken. Ze worden alleen op dit apparaat opgeslagen.",
+  'profile.age': "Leeftijd",
+  'profile.agePlaceholder': "bijv. 52",
+  'profile.ageInvalid': "Voer een leeftijd tussen 18 en 120 in.",
+  'profile.sexAtBirth': "Geslacht bij geboorte",
+  'profile.notSpecified': "Niet opgegeven",
+  'profile.female': "Vrouw",
+  'profile.male': "Man",
+  'profile.smoking': "Roken",
+  'profile.never': "Nooit",
+  'profile.former': "Vroeger",
+  'profile.current': "Momenteel",
+  'profile.respiratory': "Bekende ademhalingsaandoeningen",
+  'profile.respiratoryPlaceholder': "bijv. astma, COPD",
+  'profile.neurological': "Bekende neurologische aandoeningen",
+  'profile.neurologicalPlaceholder': "bijv. migraine, ziekte van Parkinson",
+  'profile.medications': "Huidige medicatie",
+  'profile.medicationsPlaceholder': "Gescheiden door komma's",
+  'profile.clear': "Profiel wissen",
+  'profile.save': "Opslaan",
+
+  'profileField.age': "Leeftijd",
+  'profileField.sexAtBirth': "Geslacht bij geboorte",
+  'profileField.smoker': "Roken",
+  'profileField.respiratoryConditions': "Ademhalingsaandoeningen",
+  'profileField.neurologicalConditions': "Neurologische aandoeningen",
+  'profileField.medications': "Medicatie",
+
+  // --- Batch validation ---
+  'batch.title': "Batchvalidatie",
+  'batch.intro': "Analyseer een map met opnamen aan de hand van een CSV-manifest met referentielabels. Het manifest heeft een kolom {file} nodig en een kolom per domein-id (1 = aandoening aanwezig, 0 = afwezig), plus optionele referentiescores {score}. De voortgang wordt opgeslagen, zodat een onderbroken run verdergaat waar hij stopte.",
+  'batch.selectFolder': "Audiomap kiezen",
+  'batch.audioFiles': "Audiobestanden: {count}",
+  'batch.selectManifest': "CSV-manifest kiezen",
+  'batch.manifestSummary': "Rijen: {rows} · Domeinen: {domains}",
+  'batch.manifestUnreadable': "Het manifest kon niet worden gelezen.",
+  'batch.manifestEmpty': "Het manifest is leeg.",
+  'batch.manifestNoFileColumn': "Het manifest heeft een kolom {file} nodig met de naam van elk audiobestand.",
+  'batch.manifestNoDomains': "Het manifest heeft geen domeinkolommen. Geef ze de domein-id als naam, bijv. {label} of {score}.",
+  'batch.manifestNoRows': "Het manifest bevat geen bestanden.",
+  'batch.ignoredColumn': "Kolom \"{column}\" genegeerd: geen domein-id.",
+  'batch.noFileName': "Regel {line}: geen bestandsnaam, overgeslagen.",
+  'batch.duplicateFile': "Regel {line}: \"{file}\" staat er twee keer in, alleen de eerste rij wordt gebruikt.",
+  'batch.invalidLabel': "Regel {line}: \"{value}\" is geen label voor {domain}, leeg gelaten.",
+  'batch.invalidScore': "Regel {line}: \"{value}\" is geen getal voor {column}, leeg gelaten.",
+  'batch.missingFiles': "Manifestbestanden die niet in de map staan: {count}",
+  'batch.warnings': "Manifestwaarschuwingen",
+  'batch.warningCount': "Waarschuwingen: {count}",
+  'batch.missing': "Ontbreekt: {file}",
+  'batch.parallel': "Parallelle verzoeken",
+  'batch.startOver': "Opnieuw beginnen",
+  'batch.resume': "Hervatten ({count} resterend)",
+  'batch.run': "Alle bestanden uitvoeren ({count})",
+  'batch.stop': "Stoppen",
+  'batch.stopping': "Stoppen…",
+  'batch.progress': "Geanalyseerd: {done} · Mislukt: {failed} (opnieuw geprobeerd bij hervatten)",
+  'batch.fileTotal': "Bestanden: {count}",
+  'batch.accuracy': "Nauwkeurigheid per domein",
+  'batch.csv': "CSV",
+  'batch.report': "Rapport",
+  'batch.domain': "Domein",
+  'batch.matrixHint': "terecht positief / fout-positief / fout-negatief / terecht negatief",
+  'batch.sensitivity': "Sensitiviteit",
+  'batch.specificity': "Specificiteit",
+  'batch.correlation': "Correlatie",
+  'batch.pointBiserialHint': "Punt-biseriële r ten opzichte van het label; een negatieve waarde betekent lagere scores bij positieve gevallen",
+  'batch.pearsonHint': "Pearson r ten opzichte van de referentiescore",
+  'batch.vsLabel': "vs label",
+  'batch.vsReference': "vs referentie",
+  'batch.footnote': "Sensitiviteit en specificiteit worden berekend uit bestanden met een label voor dat domein.",
+};
+
+export default nlNL;
@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const plPL: Messages = {
+  // --- Common ---
+  'common.cancel': "Anuluj",
+  'common.backHome': "Wróć do strony głównej",
+  'common.microphoneRequired': "Wymagany jest dostęp do mikrofonu.",
+
+  // --- Recording checks ---
+  'audio.empty': "Nagrywanie nie powiodło się (pusty plik).",
+  'audio.tooShort': "Nagranie jest za krótkie. Do dokładnej analizy potrzeba co najmniej {seconds} s.",
+  'audio.tooQuiet': "Nagranie jest za ciche. Mów głośniej lub bliżej mikrofonu.",
+  'audio.noSpeech': "Nie wykryto mowy. Mów wyraźnie.",
+  'audio.unreadable': "Nie udało się sprawdzić pliku audio.",
+  'audio.failed': "Nagrywanie nie powiodło się.",
+  'quality.title': "Kontrola nagrania",
+  'quality.decodable': "Plik audio",
+  'quality.duration': "Długość",
+  'quality.speech': "Mowa",
+  'quality.level': "Poziom głosu",
+  'quality.snr': "Szum tła",
+  'quality.clipping': "Zniekształcenia",
+  'quality.dc_offset': "Przesunięcie mikrofonu",
+  'quality.dropouts': "Zaniki",
+  'quality.speechShort': "Wykryto tylko {seconds} s mowy; potrzeba co najmniej {minimum} s. Mów, dopóki nie skończy się czas.",
+  'quality.noisy': "Szum tła jest zbyt bliski głosowi (tylko o {value} dB cichszy). Odsuń się od wentylatorów, ruchu ulicznego lub innych głosów.",
+  'quality.clipped': "Nagranie jest zniekształcone, bo sygnał wejściowy jest za głośny. Odsuń się nieco od mikrofonu.",
+  'quality.dcOffset': "Sygnał mikrofonu jest przesunięty, co może oznaczać uszkodzony mikrofon. Jeśli to się powtarza, spróbuj innego.",
+  'quality.dropout': "Dźwięk zanikł na {seconds} s. Sprawdź połączenie Bluetooth lub USB i nagraj ponownie.",
+
+  // --- Modals ---
+  'limit.title': "Osiągnięto dzienny limit",
+  'limit.body': "Aby usługa pozostała dostępna, a koszty badań pod kontrolą, ograniczamy użycie do {quota} na urządzenie.",
+  'limit.quota': "{limit} badań dziennie",
+  'limit.resetsAt': "Kolejne badania będą dostępne od {time}.",
+  'limit.sampleNote': "Nadal możesz obejrzeć interaktywne demo na przykładowych danych — nie wlicza się ono do limitu.",
+  'limit.ok': "Rozumiem",
+  'account.title': "Token konta",
+  'account.hint': "Masz token konta od swojego badania lub organizacji? Wpisz go, aby korzystać z jego limitów zamiast limitów tego urządzenia.",
+  'account.placeholder': "Wklej token",
+  'account.save': "Użyj tokenu",
+  'account.checking': "Sprawdzanie…",
+  'account.rejected': "Ten token nie został zaakceptowany.",
+  'account.active': "Używany jest token konta (poziom {tier})",
+  'account.remove': "Usuń",
+  'usage.title': "Użycie i koszt",
+  'usage.screening': "To badanie",
+  'usage.today': "Dzisiaj na tym urządzeniu",
+  'usage.recentDays': "Ostatnie dni",
+  'usage.empty': "Dla tego badania nie zarejestrowano wywołań modelu.",
+  'usage.call': "Wywołanie",
+  'usage.calls': "Wywołania modelu",
+  'usage.callCount': "Wywołania: {count}",
+  'usage.promptTokens': "Tokeny wejściowe",
+  'usage.outputTokens': "Tokeny wyjściowe",
+  'usage.totalTokens': "Tokeny łącznie",
+  'usage.audioTokens': "Tokeny audio",
+  'usage.imageTokens': "Tokeny obrazu",
+  'usage.estimatedCost': "Szacowany koszt",
+  'usage.kind.analysis': "Analiza",
+  'usage.kind.chat': "Odpowiedź czatu",
+  'usage.kind.transcription': "Transkrypcja",
+  'usage.unpriced': "Wywołania ({count}) użyły modelu spoza cennika i nie zostały wycenione.",
+  'usage.disclaimer': "Koszty to szacunki oparte na cenach katalogowych za milion tokenów, a nie rachunek. Wywołania z innych urządzeń lub sprzed rozpoczęcia śledzenia nie są uwzględnione.",
+
+  'tech.title': "Architektura techniczna",
+  'tech.models': "Używane modele AI",
+  'tech.flashDescription': "Multimodalna analiza dźwięku (PCM) i klatek wideo z niskim opóźnieniem.",
+  'tech.proDescription': "Złożone wnioskowanie do korelacji klinicznej i analizy trendów.",
+  'tech.pipeline': "Potok danych",
+  'tech.pipelineCapture': "Przechwytywanie surowego dźwięku (WebM/PCM)",
+  'tech.pipelineEncoding': "Kodowanie Base64 po stronie klienta",
+  'tech.pipelineRequest': "Multimodalne żądanie do Gemini API",
+  'tech.pipelineResponse': "Ustrukturyzowana odpowiedź JSON",
+  'tech.sampleRequest': "Przykładowe żądanie API",
+  'tech.footer': "Na podstawie prac badawczych nad akustyczną analizą biomarkerów głosu w neurologii.",
+
+  // --- Intro ---
+  'intro.badge': "Gotowe do walidacji klinicznej",
+  'intro.tagline': "Zaawansowane badanie przesiewowe zdrowia oparte na {model}.",
+  'intro.selectedLanguage': "Wybrany język:",
+  'intro.watchDemo': "Obejrzyj demo",
+  'intro.start': "Rozpocznij badanie",
+  'intro.sample': "Wypróbuj na przykładowych danych (od razu)",
+  'intro.addProfile': "Dodaj profil",
+  'intro.editProfile': "Edytuj profil",
+  'intro.trustedResearch': "Rzetelne badania",
+  'intro.privacyFirst': "Prywatność przede wszystkim",
+  'intro.secureProcessing': "Bezpieczne przetwarzanie",
+  'intro.viewArchitecture': "Zobacz architekturę",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Zadanie {step} z {total} · {task}",
+  'recording.getReady': "Przygotuj się",
+  'recording.listening': "Słucham...",
+  'recording.goodVolume': "Idealna głośność",
+  'coach.tooLoud': "Odsuń mikrofon nieco dalej",
+  'coach.noisy': "Za dużo hałasu w tle",
+  'coach.tooFar': "Przysuń się bliżej mikrofonu",
+  'coach.silence': "Zacznij mówić, gdy będziesz gotowy",
+  'recording.usableSpeech': "{seconds} z {target} s użytecznej mowy",
+  'recording.stopEarly': "Zakończ wcześniej",
+  'recording.start': "Rozpocznij nagrywanie",
+  'recording.skipTask': "Pomiń to zadanie",
+
+  'task.sustained_vowel.label': "Przedłużona samogłoska",
+  'task.sustained_vowel.instruction': "Weź głęboki wdech, a następnie mów \"aaa\" jak najdłużej, w wygodnej wysokości i głośności.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Powtarzaj \"pa-ta-ka\" jak najszybciej i najwyraźniej, aż skończy się czas.",
+  'task.reading.label': "Czytanie fragmentu",
+  'task.reading.instruction': "Przeczytaj na głos ten fragment w swoim zwykłym tempie:",
+  'task.free_speech.label': "Swobodna wypowiedź",
+  'task.free_speech.instruction': "Odpowiedz własnymi słowami:",
+  'task.vowelNoVoice': "Nie wykryto stabilnego głosu. Utrzymuj jeden dźwięk \"aaa\" bez szeptania.",
+  'task.vowelInterrupted': "Dźwięk się urywał. Najpierw weź wdech, potem utrzymaj \"aaa\" na jednym oddechu.",
+  'task.ddkTooFew': "Wykryto za mało sylab. Powtarzaj \"pa-ta-ka\" bez przerw i jak najszybciej.",
+  'task.readingSilent': "Wykryto głównie ciszę. Przeczytaj na głos cały fragment od początku.",
+
+  // --- Face capture ---
+  'face.title': "Dodać analizę twarzy?",
+  'face.body': "VitalVoice może analizować biomarkery twarzy (bladość, oznaki odwodnienia, symetrię), zwiększając dokładność nawet o 15%.",
+  'face.enableCamera': "Włącz kamerę",
+  'face.skip': "Pomiń na razie",
+  'face.centerHint': "Ustaw twarz na środku przy dobrym oświetleniu",
+  'face.noFace': "Patrz prosto w kamerę",
+  'face.moreLight': "Więcej światła na twarzy",
+  'face.lessLight': "Za jasno: odsuń się od bezpośredniego światła",
+  'face.evenLight': "Unikaj światła z tyłu i ostrych cieni",
+  'face.moveCloser': "Przysuń się bliżej",
+  'face.moveBack': "Odsuń się trochę",
+  'face.centre': "Umieść twarz na środku kadru",
+  'face.holdStill': "Nie ruszaj się",
+  'face.neutralLight': "Użyj neutralnego białego światła",
+  'face.ready': "Wygląda dobrze: zrób zdjęcie",
+  'face.rejected': "Tego zdjęcia nie można użyć. {reason}",
+  'face.cameraNotReady': "Kamera wciąż się uruchamia. Spróbuj ponownie za chwilę.",
+  'face.captureFailed': "Nie udało się sprawdzić zdjęcia. Spróbuj ponownie lub pomiń ten krok.",
+
+  // --- Upload ---
+  'upload.title': "Prześlij dane",
+  'upload.voiceLabel': "Próbka głosu (wymagana)",
+  'upload.tapToChange': "Dotknij, aby zmienić",
+  'upload.selectAudio': "Wybierz plik audio",
+  'upload.audioFormats': "Obsługuje MP3, WAV, M4A",
+  'upload.imageLabel': "Zdjęcie twarzy (opcjonalne)",
+  'upload.preview': "Podgląd",
+  'upload.imageSelected': "Wybrano obraz",
+  'upload.selectImage': "Wybierz obraz",
+  'upload.imageFormats': "Obsługuje JPG, PNG",
+  'upload.analyze': "Analizuj dane",
+  'upload.batch': "Zweryfikuj zbiór danych (wsadowo)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Przetwarzanie danych zdrowotnych",
+  'analyzing.step1': "Wyodrębnianie biomarkerów głosu...",
+  'analyzing.step2': "Analiza wzorców mowy...",
+  'analyzing.step3': "Ocena cech głosu...",
+  'analyzing.step4': "Porównywanie z danymi multimodalnymi...",
+  'analyzing.step5': "Tworzenie spersonalizowanych zaleceń...",
+  'analyzing.retrying': "Problem z połączeniem, ponawianie (próba {attempt})...",
+  'analyzing.footer': "Przetwarzanie w bezpiecznym środowisku",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Usługa jest zajęta",
+  'error.safety.title': "Analiza zablokowana",
+  'error.network.title': "Problem z połączeniem",
+  'error.invalid_input.title': "Nie udało się odczytać nagrania",
+  'error.malformed_output.title': "Niepełna analiza",
+  'error.quota': "Usługa analizy działa obecnie na granicy możliwości. Odczekaj kilka minut i spróbuj ponownie.",
+  'error.safety': "Filtry bezpieczeństwa treści zablokowały analizę. Nagraj ponownie bez mediów w tle i innych głosów.",
+  'error.network': "Nie udało się połączyć z usługą analizy. Sprawdź połączenie i spróbuj ponownie.",
+  'error.invalidInput': "Nie udało się przetworzyć nagrania. Nagraj ponownie lub wybierz inny plik.",
+  'error.malformedOutput': "Analiza wróciła niepełna. Spróbuj ponownie.",
+  'error.cancelled': "Analiza anulowana.",
+  'error.unknown': "Podczas analizy coś poszło nie tak. Spróbuj ponownie.",
+  'error.retry': "Spróbuj ponownie",
+  'error.recordAgain': "Nagraj ponownie",
+  'error.chooseFile': "Wybierz inny plik",
+  'error.viewSample': "Zobacz przykładowe wyniki",
+  'error.keptRecording': "Twoje nagranie zostało zachowane, nie musisz nagrywać ponownie.",
+  'error.keptFile': "Twój plik został zachowany, nie musisz przesyłać go ponownie.",
+
+  // --- Results ---
+  'results.newScan': "Nowe badanie",
+  'results.history': "Historia",
+  'results.usage': "Użycie",
+  'results.exportPdf': "Eksportuj PDF",
+  'results.exportFhir': "Eksportuj FHIR",
+  'results.exportFhirFailed': "Nie udało się utworzyć eksportu FHIR. Spróbuj ponownie lub wyeksportuj PDF.",
+  'results.exportJson': "Eksportuj JSON",
+  'results.includeMedia': "Dołącz nagranie i zdjęcie",
+  'results.includeMediaHint': "Plik będzie zawierał Twój głos i twarz. Udostępniaj go tylko zaufanym osobom.",
+  'results.download': "Pobierz",
+  'results.overallScore': "Ogólny wskaźnik samopoczucia",
+  'results.confidence': "Pewność: {level}",
+  'results.summary': "Podsumowanie",
+  'results.recommendations': "Zalecenia",
+  'results.trends': "Trendy",
+  'results.improving': "Poprawa",
+  'results.stable': "Stabilnie",
+  'results.needsAttention': "Wymaga uwagi",
+  'results.firstScreening': "To Twoje pierwsze zapisane badanie. Wykonaj kolejne później, aby zobaczyć trendy.",
+  'results.profileNoChange': "Twój profil został uwzględniony, ale nie zmienił interpretacji tych wyników.",
+  'results.voiceTasks': "Zadania głosowe",
+  'results.disclaimer': "To narzędzie przesiewowe, a nie diagnoza medyczna. W razie wątpliwości skonsultuj się z pracownikiem ochrony zdrowia.",
+
+  'report.title': "Raport z badania przesiewowego",
+  'report.scoreOverview': "Przegląd wyników",
+  'report.concernLevel': "Poziom niepokoju",
+  'report.capturedImage': "Zrobione zdjęcie",
+  'report.domainAnalysis': "Analiza według obszarów",
+  'report.comparedWith': "Centyle w porównaniu z: {cohort}",
+  'report.scoreTrends': "Trendy wyników",
+  'report.keyObservations': "Najważniejsze obserwacje",
+  'report.significance': "Znaczenie:",
+  'report.reason': "Powód:",
+  'report.disclaimer': "ZASTRZEŻENIE:",
+  'report.page': "Strona {page} z {count}",
+  'report.generatedBy': "Wygenerowano przez VitalVoice AI z technologią Gemini",
+
+  'confidence.low': "Niska",
+  'confidence.medium': "Średnia",
+  'confidence.high': "Wysoka",
+  'concern.low': "Niski",
+  'concern.moderate': "Umiarkowany",
+  'concern.elevated': "Podwyższony",
+  'concern.high': "Wysoki",
+  'urgency.routine': "Rutynowo",
+  'urgency.soon': "Wkrótce",
+  'urgency.prompt': "Pilnie",
+
+  'domain.neurological': "Neurologia",
+  'domain.mental_health': "Zdrowie psychiczne",
+  'domain.respiratory': "Układ oddechowy",
+  'domain.cardiovascular': "Układ sercowo-naczyniowy",
+  'domain.metabolic': "Metabolizm",
+  'domain.hydration': "Nawodnienie",
+  'domain.sleep_fatigue': "Sen i zmęczenie",
+  'domain.cognitive_load': "Obciążenie poznawcze",
+
+  'card.median': "Mediana: {value}",
+  'card.percentile': "{value}. percentyl",
+  'card.noNorms': "Brak norm referencyjnych",
+  'card.fromTask': "Z zadania {task}",
+
+  'cohort.women': "Kobiety {band}",
+  'cohort.men': "Mężczyźni {band}",
+  'cohort.adults': "Dorośli {band}",
+  'cohort.allWomen': "Wszystkie kobiety",
+  'cohort.allMen': "Wszyscy mężczyźni",
+  'cohort.allAdults': "Wszyscy dorośli",
+
+  'biomarkers.title': "Zmierzone biomarkery",
+  'biomarkers.computed': "Obliczone na tym urządzeniu z {seconds} s nagrania.",
+  'biomarkers.f0Mean': "Średnia wysokość głosu (F0)",
+  'biomarkers.pitchRange': "Zakres wysokości głosu",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Stosunek harmonicznych do szumu",
+  'biomarkers.pauseRatio': "Udział pauz",
+  'biomarkers.syllableRate': "Tempo sylab",
+
+  // --- Chat ---
+  'chat.title': "Asystent VitalVoice",
+  'chat.limitReached': "Osiągnięto limit sesji",
+  'chat.remaining': "Pozostałe wiadomości: {count}",
+  'chat.clear': "Wyczyść czat",
+  'chat.empty': "Poproś mnie o wyjaśnienie dowolnego terminu medycznego lub o więcej porad dotyczących samopoczucia!",
+  'chat.transcribing': "Transkrypcja…",
+  'chat.noTranscript': "Brak transkrypcji, więc kolejne odpowiedzi nie zobaczą tej wiadomości",
+  'chat.interrupted': "Odpowiedź przerwana",
+  'chat.locked': "Osiągnięto limit czatu dla tej sesji. Uruchom analizę ponownie, aby kontynuować rozmowę.",
+  'chat.placeholder': "Wpisz wiadomość...",
+  'chat.stop': "Zatrzymaj generowanie",
+  'chat.stopped': "*Odpowiedź zatrzymana.*",
+  'chat.noResponse': "Nie udało się przetworzyć tej odpowiedzi.",
+  'chat.connectionError': "Mam teraz problem z połączeniem z serwerami VitalVoice. Spróbuj ponownie.",
+
+  // --- History ---
+  'history.title': "Historia badań",
+  'history.empty': "Brak zapisanych badań. Ukończone badania są zapisywane na tym urządzeniu.",
+  'history.delete': "Usuń badanie",
+  'history.import': "Importuj",
+  'history.exportCsv': "Eksportuj CSV",
+  'history.importFailed': "Nie udało się zaimportować pliku. Wybierz plik JSON wyeksportowany z VitalVoice.",
+  'history.notAnExport': "Ten plik nie jest eksportem badania z VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "Twój profil",
+  'profile.intro': "Wszystkie pola są opcjonalne. Twoje odpowiedzi pomagają interpretować głos — na przykład jaka wysokość głosu jest typowa dla Twojego wieku — i decydują, z kim porównywane są Twoje wyniki. Są zapisywane tylko na tym urządzeniu.",
+  'profile.age': "Wiek",
+  'profile.agePlaceholder': "np. 52",
+  'profile.ageInvalid': "Podaj wiek od 18 do 120.",
+  'profile.sexAtBirth': "Płeć przy urodzeniu",
+  'profile.notSpecified': "Nie podano",
+  'profile.female': "Kobieta",
+  'profile.male': "Mężczyzna",
+  'profile.smoking': "Palenie",
+  'profile.never': "Nigdy",
+  'profile.former': "W przeszłości",
+  'profile.current': "Obecnie",
+  'profile.respiratory': "Znane choroby układu oddechowego",
+  'profile.respiratoryPlaceholder': "np. astma, POChP",
+  'profile.neurological': "Znane choroby neurologiczne",
+  'profile.neurologicalPlaceholder': "np. migrena, choroba Parkinsona",
+  'profile.medications': "Obecnie przyjmowane leki",
+  'profile.medicationsPlaceholder': "Oddzielone przecinkami",
+  'profile.clear': "Wyczyść profil",
+  'profile.save': "Zapisz",
+
+  'profileField.age': "Wiek",
+  'profileField.sexAtBirth': "Płeć przy urodzeniu",
+  'profileField.smoker': "Palenie",
+  'profileField.respiratoryConditions': "Choroby układu oddechowego",
+  'profileField.neurologicalConditions': "Choroby neurologiczne",
+  'profileField.medications': "Leki",
+
+  // --- Batch validation ---
+  'batch.title': "Walidacja wsadowa",
+  'batch.intro': "Przeanalizuj folder nagrań względem manifestu CSV z etykietami referencyjnymi. Manifest wymaga kolumny {file} i kolumny dla każdego id obszaru (1 = stan obecny, 0 = nieobecny) oraz opcjonalnych wyników referencyjnych {score}. Postęp jest zapisywany, więc przerwane uruchomienie wznawia się od miejsca zatrzymania.",
+  'batch.selectFolder': "Wybierz folder audio",
+  'batch.audioFiles': "Pliki audio: {count}",
+  'batch.selectManifest': "Wybierz manifest CSV",
+  'batch.manifestSummary': "Wiersze: {rows} · Obszary: {domains}",
+  'batch.manifestUnreadable': "Nie udało się odczytać manifestu.",
+  'batch.manifestEmpty': "Manifest jest pusty.",
+  'batch.manifestNoFileColumn': "Manifest musi mieć kolumnę {file} z nazwą każdego pliku audio.",
+  'batch.manifestNoDomains': "Manifest nie ma kolumn obszarów. Nazwij je identyfikatorem obszaru, np. {label} lub {score}.",
+  'batch.manifestNoRows': "Manifest nie zawiera plików.",
+  'batch.ignoredColumn': "Pominięto kolumnę „{column}”: to nie jest identyfikator obszaru.",
+  'batch.noFileName': "Wiersz {line}: brak nazwy pliku, pominięto.",
+  'batch.duplicateFile': "Wiersz {line}: „{file}” występuje dwa razy, użyto tylko pierwszego wiersza.",
+  'batch.invalidLabel': "Wiersz {line}: „{value}” nie jest etykietą dla {domain}, pozostawiono puste.",
+  'batch.invalidScore': "Wiersz {line}: „{value}” nie jest liczbą dla {column}, pozostawiono puste.",
+  'batch.missingFiles': "Pliki z manifestu nieobecne w folderze: {count}",
+  'batch.warnings': "Ostrzeżenia manifestu",
+  'batch.warningCount': "Ostrzeżenia: {count}",
+  'batch.missing': "Brak: {file}",
+  'batch.parallel': "Żądania równoległe",
+  'batch.startOver': "Zacznij od nowa",
+  'batch.resume': "Wznów (pozostało {count})",
+  'batch.run': "Uruchom wszystkie pliki ({count})",
+  'batch.stop': "Zatrzymaj",
+  'batch.stopping': "Zatrzymywanie…",
+  'batch.progress': "Przeanalizowano: {done} · Błędy: {failed} (ponowione przy wznowieniu)",
+  'batch.fileTotal': "Pliki: {count}",
+  'batch.accuracy': "Dokładność według obszaru",
+  'batch.csv': "CSV",
+  'batch.report': "Raport",
+  'batch.domain': "Obszar",
+  'batch.matrixHint': "prawdziwie dodatnie / fałszywie dodatnie / fałszywie ujemne / prawdziwie ujemne",
+  'batch.sensitivity': "Czułość",
+  'batch.specificity': "Swoistość",
+  'batch.correlation': "Korelacja",
+  'batch.pointBiserialHint': "r punktowo-dwuseryjny względem etykiety; wartość ujemna oznacza niższe wyniki w przypadkach dodatnich",
+  'batch.pearsonHint': "r Pearsona względem wyniku referencyjnego",
+  'batch.vsLabel': "wzgl. etykiety",
+  'batch.vsReference': "wzgl. referencji",
+  'batch.footnote': "Czułość i swoistość obliczane są na podstawie plików z etykietą dla danego obszaru.",
+};
+
+export default plPL;
@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const ptBR: Messages = {
+  // --- Common ---
+  'common.cancel': "Cancelar",
+  'common.backHome': "Voltar ao início",
+  'common.microphoneRequired': "É necessário acesso ao microfone.",
+
+  // --- Recording checks ---
+  'audio.empty': "A gravação falhou (arquivo vazio).",
+  'audio.tooShort': "Gravação curta demais. São necessários pelo menos {seconds} segundos para uma análise precisa.",
+  'audio.tooQuiet': "Gravação baixa demais. Fale mais alto ou aproxime-se do microfone.",
+  'audio.noSpeech': "Nenhuma fala detectada. Fale com clareza.",
+  'audio.unreadable': "Não foi possível validar o arquivo de áudio.",
+  'audio.failed': "A gravação falhou.",
+  'quality.title': "Verificações da gravação",
+  'quality.decodable': "Arquivo de áudio",
+  'quality.duration': "Duração",
+  'quality.speech': "Fala",
+  'quality.level': "Nível da voz",
+  'quality.snr': "Ruído de fundo",
+  'quality.clipping': "Distorção",
+  'quality.dc_offset': "Desvio do microfone",
+  'quality.dropouts': "Falhas",
+  'quality.speechShort': "Apenas {seconds} s de fala foram detectados; são necessários pelo menos {minimum} s. Continue falando até o temporizador acabar.",
+  'quality.noisy': "O ruído de fundo está muito próximo da sua voz (apenas {value} dB abaixo). Afaste-se de ventiladores, trânsito ou outras vozes.",
+  'quality.clipped': "A gravação está distorcida porque a entrada está alta demais. Afaste-se um pouco do microfone.",
+  'quality.dcOffset': "O sinal do microfone está descentralizado, o que pode indicar um microfone com defeito. Tente outro se isso continuar.",
+  'quality.dropout': "O áudio falhou por {seconds} s. Verifique as conexões Bluetooth ou USB e grave novamente.",
+
+  // --- Modals ---
+  'limit.title': "Limite diário atingido",
+  'limit.body': "Para garantir a disponibilidade do serviço e controlar os custos da pesquisa, limitamos o uso a {quota} por dispositivo.",
+  'limit.quota': "{limit} triagens por dia",
+  'limit.resetsAt': "Novas triagens estarão disponíveis a partir de {time}.",
+  'limit.sampleNote': "Você ainda pode ver a demonstração interativa com os dados de exemplo, que não contam para o seu limite.",
+  'limit.ok': "Entendi",
+  'account.title': "Token da conta",
+  'account.hint': "Tem um token de conta do seu estudo ou organização? Insira-o para usar os limites dele em vez dos deste dispositivo.",
+  'account.placeholder': "Cole seu token",
+  'account.save': "Usar token",
+  'account.checking': "Verificando…",
+  'account.rejected': "Este token não foi aceito.",
+  'account.active': "Usando um token de conta (nível {tier})",
+  'account.remove': "Remover",
+  'usage.title': "Uso e custo",
+  'usage.screening': "Esta triagem",
+  'usage.today': "Hoje neste dispositivo",
+  'usage.recentDays': "Últimos dias",
+  'usage.empty': "Nenhuma chamada ao modelo foi registrada para esta triagem.",
+  'usage.call': "Chamada",
+  'usage.calls': "Chamadas ao modelo",
+  'usage.callCount': "{count} chamadas",
+  'usage.promptTokens': "Tokens de entrada",
+  'usage.outputTokens': "Tokens de saída",
+  'usage.totalTokens': "Total de tokens",
+  'usage.audioTokens': "Tokens de áudio",
+  'usage.imageTokens': "Tokens de imagem",
+  'usage.estimatedCost': "Custo estimado",
+  'usage.kind.analysis': "Análise",
+  'usage.kind.chat': "Resposta do chat",
+  'usage.kind.transcription': "Transcrição",
+  'usage.unpriced': "{count} chamadas usaram um modelo fora da tabela de preços e não foram calculadas.",
+  'usage.disclaimer': "Os custos são estimativas com base em preços de tabela por milhão de tokens, não uma fatura. Chamadas feitas em outros dispositivos ou antes do registro de uso não estão incluídas.",
+
+  'tech.title': "Arquitetura técnica",
+  'tech.models': "Modelos de IA utilizados",
+  'tech.flashDescription': "Análise multimodal de baixa latência de áudio (PCM) e quadros de vídeo.",
+  'tech.proDescription': "Raciocínio complexo para correlação clínica e análise de tendências.",
+  'tech.pipeline': "Fluxo de dados",
+  'tech.pipelineCapture': "Captura de áudio bruto (WebM/PCM)",
+  'tech.pipelineEncoding': "Codificação Base64 no cliente",
+  'tech.pipelineRequest': "Requisição multimodal à API do Gemini",
+  'tech.pipelineResponse': "Resposta JSON estruturada",
+  'tech.sampleRequest': "Exemplo de requisição à API",
+  'tech.footer': "Baseado em artigos científicos sobre a análise acústica de biomarcadores vocais em neurologia.",
+
+  // --- Intro ---
+  'intro.badge': "Pronto para validação clínica",
+  'intro.tagline': "Triagem de saúde avançada com tecnologia {model}.",
+  'intro.selectedLanguage': "Idioma selecionado:",
+  'intro.watchDemo': "Ver demonstração",
+  'intro.start': "Iniciar triagem",
+  'intro.sample': "Testar com dados de exemplo (instantâneo)",
+  'intro.addProfile': "Adicionar perfil",
+  'intro.editProfile': "Editar perfil",
+  'intro.trustedResearch': "Pesquisa confiável",
+  'intro.privacyFirst': "Privacidade em primeiro lugar",
+  'intro.secureProcessing': "Processamento seguro",
+  'intro.viewArchitecture': "Ver arquitetura",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Tarefa {step} de {total} · {task}",
+  'recording.getReady': "Prepare-se",
+  'recording.listening': "Ouvindo...",
+  'recording.goodVolume': "Volume perfeito",
+  'coach.tooLoud': "Afaste um pouco o microfone",
+  'coach.noisy': "Muito ruído de fundo",
+  'coach.tooFar': "Aproxime-se do microfone",
+  'coach.silence': "Comece a falar quando estiver pronto",
+  'recording.usableSpeech': "{seconds} de {target} s de fala aproveitável",
+  'recording.stopEarly': "Parar antes",
+  'recording.start': "Começar a gravar",
+  'recording.skipTask': "Pular esta tarefa",
+
+  'task.sustained_vowel.label': "Vogal sustentada",
+  'task.sustained_vowel.instruction': "Respire fundo e diga “aaah” em tom e volume confortáveis pelo máximo de tempo que conseguir.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Repita “pa-ta-ka” o mais rápido e claramente possível até o cronômetro terminar.",
+  'task.reading.label': "Leitura de texto",
+  'task.reading.instruction': "Leia este texto em voz alta no seu ritmo normal:",
+  'task.free_speech.label': "Fala livre",
+  'task.free_speech.instruction': "Responda com suas próprias palavras:",
+  'task.vowelNoVoice': "Nenhuma voz estável detectada. Sustente um único som “aaah” sem sussurrar.",
+  'task.vowelInterrupted': "O som foi interrompido. Inspire primeiro e sustente “aaah” em uma única respiração.",
+  'task.ddkTooFew': "Poucas sílabas detectadas. Repita “pa-ta-ka” sem parar e o mais rápido que puder.",
+  'task.readingSilent': "Detectamos principalmente silêncio. Leia todo o texto em voz alta desde o início.",
+
+  // --- Face capture ---
+  'face.title': "Adicionar análise visual?",
+  'face.body': "O VitalVoice pode analisar biomarcadores faciais (palidez, sinais de hidratação, simetria) para melhorar a precisão em até 15%.",
+  'face.enableCamera': "Ativar câmera",
+  'face.skip': "Pular por enquanto",
+  'face.centerHint': "Centralize o rosto em um local bem iluminado",
+  'face.noFace': "Olhe diretamente para a câmera",
+  'face.moreLight': "Mais luz no rosto",
+  'face.lessLight': "Claro demais: saia da luz direta",
+  'face.evenLight': "Evite luz por trás ou sombras fortes",
+  'face.moveCloser': "Aproxime-se",
+  'face.moveBack': "Afaste-se um pouco",
+  'face.centre': "Centralize o rosto no quadro",
+  'face.holdStill': "Fique parado",
+  'face.neutralLight': "Use luz branca neutra",
+  'face.ready': "Tudo certo: tire a foto",
+  'face.rejected': "Esta foto não pode ser usada. {reason}",
+  'face.cameraNotReady': "A câmera ainda está iniciando. Tente novamente em instantes.",
+  'face.captureFailed': "Não foi possível verificar a foto. Tente novamente ou pule esta etapa.",
+
+  // --- Upload ---
+  'upload.title': "Enviar dados",
+  'upload.voiceLabel': "Amostra de voz (obrigatória)",
+  'upload.tapToChange': "Toque para trocar",
+  'upload.selectAudio': "Selecionar arquivo de áudio",
+  'upload.audioFormats': "Aceita MP3, WAV e M4A",
+  'upload.imageLabel': "Imagem do rosto (opcional)",
+  'upload.preview': "Pré-visualização",
+  'upload.imageSelected': "Imagem selecionada",
+  'upload.selectImage': "Selecionar imagem",
+  'upload.imageFormats': "Aceita JPG e PNG",
+  'upload.analyze': "Analisar dados",
+  'upload.batch': "Validar um conjunto de dados (lote)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Processando dados de saúde",
+  'analyzing.step1': "Extraindo biomarcadores de voz...",
+  'analyzing.step2': "Analisando padrões de fala...",
+  'analyzing.step3': "Avaliando características vocais...",
+  'analyzing.step4': "Correlacionando com dados multimodais...",
+  'analyzing.step5': "Gerando orientações personalizadas...",
+  'analyzing.retrying': "Problema de conexão, tentando novamente (tentativa {attempt})...",
+  'analyzing.footer': "Processamento em ambiente seguro",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Serviço ocupado",
+  'error.safety.title': "Análise bloqueada",
+  'error.network.title': "Problema de conexão",
+  'error.invalid_input.title': "Não foi possível ler a gravação",
+  'error.malformed_output.title': "Análise incompleta",
+  'error.quota': "O serviço de análise está no limite da capacidade. Aguarde alguns minutos e tente novamente.",
+  'error.safety': "A análise foi bloqueada pelos filtros de segurança de conteúdo. Grave novamente sem mídia de fundo ou outras vozes.",
+  'error.network': "Não conseguimos acessar o serviço de análise. Verifique sua conexão e tente novamente.",
+  'error.invalidInput': "Não foi possível processar a gravação. Grave novamente ou escolha outro arquivo.",
+  'error.malformedOutput': "A análise voltou incompleta. Tente novamente.",
+  'error.cancelled': "Análise cancelada.",
+  'error.unknown': "Algo deu errado durante a análise. Tente novamente.",
+  'error.retry': "Tentar novamente",
+  'error.recordAgain': "Gravar novamente",
+  'error.chooseFile': "Escolher outro arquivo",
+  'error.viewSample': "Ver resultados de exemplo",
+  'error.keptRecording': "Sua gravação foi mantida, então não é preciso gravar de novo.",
+  'error.keptFile': "Seu arquivo foi mantido, então não é preciso enviá-lo de novo.",
+
+  // --- Results ---
+  'results.newScan': "Nova triagem",
+  'results.history': "Histórico",
+  'results.usage': "Uso",
+  'results.exportPdf': "Exportar PDF",
+  'results.exportFhir': "Exportar FHIR",
+  'results.exportFhirFailed': "Não foi possível criar a exportação FHIR. Tente novamente ou exporte um PDF.",
+  'results.exportJson': "Exportar JSON",
+  'results.includeMedia': "Incluir gravação e foto",
+  'results.includeMediaHint': "O arquivo conterá sua voz e seu rosto. Compartilhe apenas com pessoas de confiança.",
+  'results.download': "Baixar",
+  'results.overallScore': "Pontuação geral de bem-estar",
+  'results.confidence': "Confiança: {level}",
+  'results.summary': "Resumo",
+  'results.recommendations': "Recomendações",
+  'results.trends': "Tendências",
+  'results.improving': "Melhorando",
+  'results.stable': "Estável",
+  'results.needsAttention': "Requer atenção",
+  'results.firstScreening': "Esta é sua primeira triagem salva. As tendências aparecem depois de uma nova triagem.",
+  'results.profileNoChange': "Seu perfil foi considerado, mas não mudou a interpretação destes resultados.",
+  'results.voiceTasks': "Tarefas de voz",
+  'results.disclaimer': "Esta é uma ferramenta de triagem, não um diagnóstico médico. Consulte um profissional de saúde sobre qualquer preocupação.",
+
+  'report.title': "Relatório de triagem clínica",
+  'report.scoreOverview': "Visão geral das pontuações",
+  'report.concernLevel': "Nível de preocupação",
+  'report.capturedImage': "Imagem capturada",
+  'report.domainAnalysis': "Análise por área",
+  'report.comparedWith': "Percentis comparados com: {cohort}",
+  'report.scoreTrends': "Tendências das pontuações",
+  'report.keyObservations': "Principais observações",
+  'report.significance': "Importância:",
+  'report.reason': "Motivo:",
+  'report.disclaimer': "AVISO:",
+  'report.page': "Página {page} de {count}",
+  'report.generatedBy': "Gerado pelo VitalVoice AI com tecnologia Gemini",
+
+  'confidence.low': "Baixa",
+  'confidence.medium': "Média",
+  'confidence.high': "Alta",
+  'concern.low': "Baixo",
+  'concern.moderate': "Moderado",
+  'concern.elevated': "Elevado",
+  'concern.high': "Alto",
+  'urgency.routine': "Rotina",
+  'urgency.soon': "Em breve",
+  'urgency.prompt': "Imediato",
+
+  'domain.neurological': "Neurológico",
+  'domain.mental_health': "Saúde mental",
+  'domain.respiratory': "Respiratório",
+  'domain.cardiovascular': "Cardiovascular",
+  'domain.metabolic': "Metabólico",
+  'domain.hydration': "Hidratação",
+  'domain.sleep_fatigue': "Sono e fadiga",
+  'domain.cognitive_load': "Carga cognitiva",
+
+  'card.median': "Mediana: {value}",
+  'card.percentile': "Percentil {value}",
+  'card.noNorms': "Sem normas de referência",
+  'card.fromTask': "Da tarefa {task}",
+
+  'cohort.women': "Mulheres {band}",
+  'cohort.men': "Homens {band}",
+  'cohort.adults': "Adultos {band}",
+  'cohort.allWomen': "Todas as mulheres",
+  'cohort.allMen': "Todos os homens",
+  'cohort.allAdults': "Todos os adultos",
+
+  'biomarkers.title': "Biomarcadores medidos",
+  'biomarkers.computed': "Calculados neste dispositivo a partir de {seconds} s de áudio.",
+  'biomarkers.f0Mean': "Tom médio (F0)",
+  'biomarkers.pitchRange': "Faixa tonal",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Relação harmônico-ruído",
+  'biomarkers.pauseRatio': "Proporção de pausas",
+  'biomarkers.syllableRate': "Taxa silábica",
+
+  // --- Chat ---
+  'chat.title': "Assistente VitalVoice",
+  'chat.limitReached': "Limite da sessão atingido",
+  'chat.remaining': "Mensagens restantes: {count}",
+  'chat.clear': "Limpar chat",
+  'chat.empty': "Peça para eu explicar qualquer termo médico ou dar mais dicas de bem-estar!",
+  'chat.transcribing': "Transcrevendo…",
+  'chat.noTranscript': "Sem transcrição, então as próximas respostas não verão esta mensagem",
+  'chat.interrupted': "Resposta interrompida",
+  'chat.locked': "Limite de chat desta sessão atingido. Reinicie a análise para continuar conversando.",
+  'chat.placeholder': "Digite uma mensagem...",
+  'chat.stop': "Parar geração",
+  'chat.stopped': "*Resposta interrompida.*",
+  'chat.noResponse': "Não consegui processar essa resposta.",
+  'chat.connectionError': "Estou com problemas para me conectar aos servidores do VitalVoice agora. Tente novamente.",
+
+  // --- History ---
+  'history.title': "Histórico de triagens",
+  'history.empty': "Nenhuma triagem salva ainda. As triagens concluídas ficam guardadas neste dispositivo.",
+  'history.delete': "Excluir triagem",
+  'history.import': "Importar",
+  'history.exportCsv': "Exportar CSV",
+  'history.importFailed': "Não foi possível importar este arquivo. Escolha um arquivo JSON exportado do VitalVoice.",
+  'history.notAnExport': "Este arquivo não é uma exportação de triagem do VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "Seu perfil",
+  'profile.intro': "Todos os campos são opcionais. Suas respostas ajudam a interpretar sua voz (por exemplo, qual tom é típico para sua idade) e a escolher com quem suas pontuações são comparadas. Elas ficam guardadas apenas neste dispositivo.",
+  'profile.age': "Idade",
+  'profile.agePlaceholder': "ex.: 52",
+  'profile.ageInvalid': "Informe uma idade entre 18 e 120.",
+  'profile.sexAtBirth': "Sexo ao nascer",
+  'profile.notSpecified': "Não informado",
+  'profile.female': "Feminino",
+  'profile.male': "Masculino",
+  'profile.smoking': "Tabagismo",
+  'profile.never': "Nunca",
+  'profile.former': "Ex-fumante",
+  'profile.current': "Atual",
+  'profile.respiratory': "Doenças respiratórias conhecidas",
+  'profile.respiratoryPlaceholder': "ex.: asma, DPOC",
+  'profile.neurological': "Doenças neurológicas conhecidas",
+  'profile.neurologicalPlaceholder': "ex.: enxaqueca, doença de Parkinson",
+  'profile.medications': "Medicamentos em uso",
+  'profile.medicationsPlaceholder': "Separe por vírgulas",
+  'profile.clear': "Limpar perfil",
+  'profile.save': "Salvar",
+
+  'profileField.age': "Idade",
+  'profileField.sexAtBirth': "Sexo ao nascer",
+  'profileField.smoker': "Tabagismo",
+  'profileField.respiratoryConditions': "Doenças respiratórias",
+  'profileField.neurologicalConditions': "Doenças neurológicas",
+  'profileField.medications': "Medicamentos",
+
+  // --- Batch validation ---
+  'batch.title': "Validação em lote",
+  'batch.intro': "Analise uma pasta de gravações com base em um manifesto CSV de rótulos de referência. O manifesto precisa de uma coluna {file} e uma coluna por id de domínio (1 = condição presente, 0 = ausente), além de pontuações de referência {score} opcionais. O progresso é salvo, então uma execução interrompida continua de onde parou.",
+  'batch.selectFolder': "Selecionar pasta de áudio",
+  'batch.audioFiles': "Arquivos de áudio: {count}",
+  'batch.selectManifest': "Selecionar manifesto CSV",
+  'batch.manifestSummary': "Linhas: {rows} · Domínios: {domains}",
+  'batch.manifestUnreadable': "Não foi possível ler o manifesto.",
+  'batch.manifestEmpty': "O manifesto está vazio.",
+  'batch.manifestNoFileColumn': "O manifesto precisa de uma coluna {file} com o nome de cada arquivo de áudio.",
+  'batch.manifestNoDomains': "O manifesto não tem colunas de área. Nomeie-as pelo id da área, por ex. {label} ou {score}.",
+  'batch.manifestNoRows': "O manifesto não lista nenhum arquivo.",
+  'batch.ignoredColumn': "Coluna \"{column}\" ignorada: não é um id de área.",
+  'batch.noFileName': "Linha {line}: sem nome de arquivo, ignorada.",
+  'batch.duplicateFile': "Linha {line}: \"{file}\" aparece duas vezes, apenas a primeira linha é usada.",
+  'batch.invalidLabel': "Linha {line}: \"{value}\" não é um rótulo para {domain}, deixado em branco.",
+  'batch.invalidScore': "Linha {line}: \"{value}\" não é um número para {column}, deixado em branco.",
+  'batch.missingFiles': "Arquivos do manifesto ausentes na pasta: {count}",
+  'batch.warnings': "Avisos do manifesto",
+  'batch.warningCount': "Avisos: {count}",
+  'batch.missing': "Ausente: {file}",
+  'batch.parallel': "Requisições em paralelo",
+  'batch.startOver': "Recomeçar",
+  'batch.resume': "Retomar (faltam {count})",
+  'batch.run': "Processar todos os arquivos ({count})",
+  'batch.stop': "Parar",
+  'batch.stopping': "Parando…",
+  'batch.progress': "Analisados: {done} · Com falha: {failed} (repetidos ao retomar)",
+  'batch.fileTotal': "Arquivos: {count}",
+  'batch.accuracy': "Precisão por domínio",
+  'batch.csv': "CSV",
+  'batch.report': "Relatório",
+  'batch.domain': "Domínio",
+  'batch.matrixHint': "Verdadeiros positivos / falsos positivos / falsos negativos / verdadeiros negativos",
+  'batch.sensitivity': "Sensibilidade",
+  'batch.specificity': "Especificidade",
+  'batch.correlation': "Correlação",
+  'batch.pointBiserialHint': "r ponto-bisserial em relação aos rótulos; valores negativos indicam pontuações menores nos casos positivos",
+  'batch.pearsonHint': "r de Pearson em relação às pontuações de referência",
+  'batch.vsLabel': "vs. rótulo",
+  'batch.vsReference': "vs. ref.",
+  'batch.footnote': "Sensibilidade e especificidade usam os arquivos com rótulo para esse domínio.",
+};
+
+export default ptBR;
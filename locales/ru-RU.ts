@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const ruRU: Messages = {
+  // --- Common ---
+  'common.cancel': "Отмена",
+  'common.backHome': "На главную",
+  'common.microphoneRequired': "Требуется доступ к микрофону.",
+
+  // --- Recording checks ---
+  'audio.empty': "Не удалось записать (пустой файл).",
+  'audio.tooShort': "Запись слишком короткая. Для точного анализа нужно не менее {seconds} с.",
+  'audio.tooQuiet': "Запись слишком тихая. Говорите громче или ближе к микрофону.",
+  'audio.noSpeech': "Речь не обнаружена. Пожалуйста, говорите чётко.",
+  'audio.unreadable': "Не удалось проверить аудиофайл.",
+  'audio.failed': "Не удалось записать.",
+  'quality.title': "Проверка записи",
+  'quality.decodable': "Аудиофайл",
+  'quality.duration': "Длительность",
+  'quality.speech': "Речь",
+  'quality.level': "Уровень голоса",
+  'quality.snr': "Фоновый шум",
+  'quality.clipping': "Искажения",
+  'quality.dc_offset': "Смещение микрофона",
+  'quality.dropouts': "Пропадания звука",
+  'quality.speechShort': "Обнаружено всего {seconds} с речи, нужно не менее {minimum} с. Говорите, пока не закончится таймер.",
+  'quality.noisy': "Фоновый шум слишком близок к уровню голоса (тише всего на {value} дБ). Отойдите от вентиляторов, дороги или других голосов.",
+  'quality.clipped': "Запись искажена из-за слишком громкого сигнала. Отодвиньтесь немного от микрофона.",
+  'quality.dcOffset': "Сигнал микрофона смещён, что может указывать на неисправность микрофона. Если это повторяется, попробуйте другой.",
+  'quality.dropout': "Звук пропадал на {seconds} с. Проверьте подключение Bluetooth или USB и запишите снова.",
+
+  // --- Modals ---
+  'limit.title': "Дневной лимит исчерпан",
+  'limit.body': "Чтобы сервис оставался доступным, а затраты на исследование — управляемыми, мы ограничиваем использование до {quota} на устройство.",
+  'limit.quota': "{limit} обследований в день",
+  'limit.resetsAt': "Новые проверки станут доступны с {time}.",
+  'limit.sampleNote': "Вы по-прежнему можете открыть интерактивную демонстрацию на примере данных — она не учитывается в лимите.",
+  'limit.ok': "Понятно",
+  'account.title': "Токен учётной записи",
+  'account.hint': "Есть токен учётной записи от вашего исследования или организации? Введите его, чтобы использовать его лимиты вместо лимитов этого устройства.",
+  'account.placeholder': "Вставьте токен",
+  'account.save': "Использовать токен",
+  'account.checking': "Проверка…",
+  'account.rejected': "Этот токен не принят.",
+  'account.active': "Используется токен учётной записи (уровень {tier})",
+  'account.remove': "Удалить",
+  'usage.title': "Использование и стоимость",
+  'usage.screening': "Этот скрининг",
+  'usage.today': "Сегодня на этом устройстве",
+  'usage.recentDays': "Последние дни",
+  'usage.empty': "Для этого скрининга не записано ни одного вызова модели.",
+  'usage.call': "Вызов",
+  'usage.calls': "Вызовы модели",
+  'usage.callCount': "Вызовов: {count}",
+  'usage.promptTokens': "Входные токены",
+  'usage.outputTokens': "Выходные токены",
+  'usage.totalTokens': "Всего токенов",
+  'usage.audioTokens': "Аудиотокены",
+  'usage.imageTokens': "Токены изображений",
+  'usage.estimatedCost': "Оценочная стоимость",
+  'usage.kind.analysis': "Анализ",
+  'usage.kind.chat': "Ответ в чате",
+  'usage.kind.transcription': "Расшифровка",
+  'usage.unpriced': "Вызовов с моделью вне таблицы цен: {count}; их стоимость не учтена.",
+  'usage.disclaimer': "Стоимость оценивается по прейскурантным ценам за миллион токенов и не является счётом. Вызовы с других устройств и до начала учёта не включены.",
+
+  'tech.title': "Техническая архитектура",
+  'tech.models': "Используемые модели ИИ",
+  'tech.flashDescription': "Мультимодальный анализ аудио (PCM) и видеокадров с низкой задержкой.",
+  'tech.proDescription': "Сложные рассуждения для клинической корреляции и анализа тенденций.",
+  'tech.pipeline': "Конвейер данных",
+  'tech.pipelineCapture': "Захват исходного аудио (WebM/PCM)",
+  'tech.pipelineEncoding': "Кодирование Base64 на клиенте",
+  'tech.pipelineRequest': "Мультимодальный запрос к Gemini API",
+  'tech.pipelineResponse': "Структурированный ответ JSON",
+  'tech.sampleRequest': "Пример запроса API",
+  'tech.footer': "Основано на научных работах по акустическому анализу голосовых биомаркеров в неврологии.",
+
+  // --- Intro ---
+  'intro.badge': "Готово к клинической валидации",
+  'intro.tagline': "Продвинутое обследование здоровья на базе {model}.",
+  'intro.selectedLanguage': "Выбранный язык:",
+  'intro.watchDemo': "Смотреть демо",
+  'intro.start': "Начать обследование",
+  'intro.sample': "Попробовать на примере (мгновенно)",
+  'intro.addProfile': "Добавить профиль",
+  'intro.editProfile': "Изменить профиль",
+  'intro.trustedResearch': "Надёжные исследования",
+  'intro.privacyFirst': "Приватность прежде всего",
+  'intro.secureProcessing': "Безопасная обработка",
+  'intro.viewArchitecture': "Архитектура",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Задание {step} из {total} · {task}",
+  'recording.getReady': "Приготовьтесь",
+  'recording.listening': "Слушаю...",
+  'recording.goodVolume': "Отличная громкость",
+  'coach.tooLoud': "Отодвиньте микрофон чуть дальше",
+  'coach.noisy': "Слишком много фонового шума",
+  'coach.tooFar': "Подвиньтесь ближе к микрофону",
+  'coach.silence': "Начните говорить, когда будете готовы",
+  'recording.usableSpeech': "{seconds} из {target} с пригодной речи",
+  'recording.stopEarly': "Остановить раньше",
+  'recording.start': "Начать запись",
+  'recording.skipTask': "Пропустить задание",
+
+  'task.sustained_vowel.label': "Протяжный гласный",
+  'task.sustained_vowel.instruction': "Глубоко вдохните и тяните \"а-а-а\" как можно дольше в удобной высоте и громкости.",
+  'task.ddk.label': "Па-та-ка",
+  'task.ddk.instruction': "Повторяйте \"па-та-ка\" как можно быстрее и чётче, пока не закончится таймер.",
+  'task.reading.label': "Чтение текста",
+  'task.reading.instruction': "Прочитайте этот текст вслух в обычном темпе:",
+  'task.free_speech.label': "Свободная речь",
+  'task.free_speech.instruction': "Ответьте своими словами:",
+  'task.vowelNoVoice': "Устойчивый голос не обнаружен. Тяните один звук \"а-а-а\", не переходя на шёпот.",
+  'task.vowelInterrupted': "Звук прерывался. Сначала вдохните, затем тяните \"а-а-а\" на одном дыхании.",
+  'task.ddkTooFew': "Обнаружено слишком мало слогов. Повторяйте \"па-та-ка\" без пауз и как можно быстрее.",
+  'task.readingSilent': "Обнаружена в основном тишина. Прочитайте весь текст вслух с начала.",
+
+  // --- Face capture ---
+  'face.title': "Добавить анализ лица?",
+  'face.body': "VitalVoice может анализировать биомаркеры лица (бледность, признаки обезвоживания, симметрию), повышая точность до 15%.",
+  'face.enableCamera': "Включить камеру",
+  'face.skip': "Пропустить",
+  'face.centerHint': "Расположите лицо по центру при хорошем освещении",
+  'face.noFace': "Смотрите прямо в камеру",
+  'face.moreLight': "Больше света на лицо",
+  'face.lessLight': "Слишком ярко: уйдите от прямого света",
+  'face.evenLight': "Избегайте света сзади и резких теней",
+  'face.moveCloser': "Подвиньтесь ближе",
+  'face.moveBack': "Отодвиньтесь немного",
+  'face.centre': "Расположите лицо по центру кадра",
+  'face.holdStill': "Не двигайтесь",
+  'face.neutralLight': "Используйте нейтральный белый свет",
+  'face.ready': "Всё хорошо: сделайте снимок",
+  'face.rejected': "Это фото нельзя использовать. {reason}",
+  'face.cameraNotReady': "Камера ещё запускается. Попробуйте снова через мгновение.",
+  'face.captureFailed': "Не удалось проверить фото. Попробуйте ещё раз или пропустите этот шаг.",
+
+  // --- Upload ---
+  'upload.title': "Загрузка данных",
+  'upload.voiceLabel': "Образец голоса (обязательно)",
+  'upload.tapToChange': "Нажмите, чтобы заменить",
+  'upload.selectAudio': "Выбрать аудиофайл",
+  'upload.audioFormats': "Поддерживаются MP3, WAV, M4A",
+  'upload.imageLabel': "Фото лица (необязательно)",
+  'upload.preview': "Предпросмотр",
+  'upload.imageSelected': "Изображение выбрано",
+  'upload.selectImage': "Выбрать изображение",
+  'upload.imageFormats': "Поддерживаются JPG, PNG",
+  'upload.analyze': "Анализировать данные",
+  'upload.batch': "Проверить набор данных (пакетно)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Обработка данных о здоровье",
+  'analyzing.step1': "Извлечение голосовых биомаркеров...",
+  'analyzing.step2': "Анализ речевых паттернов...",
+  'analyzing.step3': "Оценка характеристик голоса...",
+  'analyzing.step4': "Сопоставление мультимодальных данных...",
+  'analyzing.step5': "Подготовка персональных рекомендаций...",
+  'analyzing.retrying': "Проблема с соединением, повторная попытка ({attempt})...",
+  'analyzing.footer': "Обработка в защищённой среде",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Сервис перегружен",
+  'error.safety.title': "Анализ заблокирован",
+  'error.network.title': "Проблема с соединением",
+  'error.invalid_input.title': "Не удалось прочитать запись",
+  'error.malformed_output.title': "Неполный анализ",
+  'error.quota': "Сервис анализа сейчас работает на пределе. Подождите несколько минут и повторите попытку.",
+  'error.safety': "Фильтры безопасности контента заблокировали анализ. Перезапишите без фоновых медиа и других голосов.",
+  'error.network': "Не удалось связаться с сервисом анализа. Проверьте подключение и повторите попытку.",
+  'error.invalidInput': "Не удалось обработать запись. Запишите заново или выберите другой файл.",
+  'error.malformedOutput': "Анализ вернулся неполным. Повторите попытку.",
+  'error.cancelled': "Анализ отменён.",
+  'error.unknown': "Во время анализа что-то пошло не так. Повторите попытку.",
+  'error.retry': "Повторить",
+  'error.recordAgain': "Записать заново",
+  'error.chooseFile': "Выбрать другой файл",
+  'error.viewSample': "Посмотреть пример результатов",
+  'error.keptRecording': "Ваша запись сохранена, перезаписывать не нужно.",
+  'error.keptFile': "Ваш файл сохранён, загружать заново не нужно.",
+
+  // --- Results ---
+  'results.newScan': "Новое обследование",
+  'results.history': "История",
+  'results.usage': "Использование",
+  'results.exportPdf': "Экспорт PDF",
+  'results.exportFhir': "Экспорт FHIR",
+  'results.exportFhirFailed': "Не удалось создать экспорт FHIR. Повторите попытку или экспортируйте PDF.",
+  'results.exportJson': "Экспорт JSON",
+  'results.includeMedia': "Включить запись и фото",
+  'results.includeMediaHint': "Файл будет содержать ваш голос и лицо. Делитесь им только с теми, кому доверяете.",
+  'results.download': "Скачать",
+  'results.overallScore': "Общий индекс благополучия",
+  'results.confidence': "Достоверность: {level}",
+  'results.summary': "Итоги",
+  'results.recommendations': "Рекомендации",
+  'results.trends': "Тенденции",
+  'results.improving': "Улучшается",
+  'results.stable': "Стабильно",
+  'results.needsAttention': "Требует внимания",
+  'results.firstScreening': "Это ваше первое сохранённое обследование. Пройдите ещё одно позже, чтобы увидеть тенденции.",
+  'results.profileNoChange': "Ваш профиль был учтён, но не изменил интерпретацию этих результатов.",
+  'results.voiceTasks': "Голосовые задания",
+  'results.disclaimer': "Это инструмент скрининга, а не медицинский диагноз. При любых опасениях обратитесь к медицинскому специалисту.",
+
+  'report.title': "Отчёт клинического скрининга",
+  'report.scoreOverview': "Обзор оценок",
+  'report.concernLevel': "Уровень беспокойства",
+  'report.capturedImage': "Снимок",
+  'report.domainAnalysis': "Анализ по областям",
+  'report.comparedWith': "Перцентили в сравнении с: {cohort}",
+  'report.scoreTrends': "Динамика оценок",
+  'report.keyObservations': "Ключевые наблюдения",
+  'report.significance': "Значение:",
+  'report.reason': "Причина:",
+  'report.disclaimer': "ОТКАЗ ОТ ОТВЕТСТВЕННОСТИ:",
+  'report.page': "Страница {page} из {count}",
+  'report.generatedBy': "Создано VitalVoice AI на основе Gemini",
+
+  'confidence.low': "Низкая",
+  'confidence.medium': "Средняя",
+  'confidence.high': "Высокая",
+  'concern.low': "Низкий",
+  'concern.moderate': "Умеренный",
+  'concern.elevated': "Повышенный",
+  'concern.high': "Высокий",
+  'urgency.routine': "Планово",
+  'urgency.soon': "Скоро",
+  'urgency.prompt': "Срочно",
+
+  'domain.neurological': "Неврология",
+  'domain.mental_health': "Психическое здоровье",
+  'domain.respiratory': "Дыхательная система",
+  'domain.cardiovascular': "Сердечно-сосудистая система",
+  'domain.metabolic': "Обмен веществ",
+  'domain.hydration': "Гидратация",
+  'domain.sleep_fatigue': "Сон и усталость",
+  'domain.cognitive_load': "Когнитивная нагрузка",
+
+  'card.median': "Медиана: {value}",
+  'card.percentile': "{value}-й перцентиль",
+  'card.noNorms': "Нет референсных норм",
+  'card.fromTask': "Из задания «{task}»",
+
+  'cohort.women': "Женщины {band}",
+  'cohort.men': "Мужчины {band}",
+  'cohort.adults': "Взрослые {band}",
+  'cohort.allWomen': "Все женщины",
+  'cohort.allMen': "Все мужчины",
+  'cohort.allAdults': "Все взрослые",
+
+  'biomarkers.title': "Измеренные биомаркеры",
+  'biomarkers.computed': "Рассчитано на этом устройстве по {seconds} с аудио.",
+  'biomarkers.f0Mean': "Средняя высота тона (F0)",
+  'biomarkers.pitchRange': "Диапазон высоты тона",
+  'biomarkers.jitter': "Джиттер",
+  'biomarkers.shimmer': "Шиммер",
+  'biomarkers.hnr': "Отношение гармоник к шуму",
+  'biomarkers.pauseRatio': "Доля пауз",
+  'biomarkers.syllableRate': "Темп слогов",
+
+  // --- Chat ---
+  'chat.title': "Помощник VitalVoice",
+  'chat.limitReached': "Лимит сессии исчерпан",
+  'chat.remaining': "Осталось сообщений: {count}",
+  'chat.clear': "Очистить чат",
+  'chat.empty': "Попросите меня объяснить любой медицинский термин или дать советы по самочувствию!",
+  'chat.transcribing': "Расшифровка…",
+  'chat.noTranscript': "Нет расшифровки, поэтому последующие ответы не увидят это сообщение",
+  'chat.interrupted': "Ответ прерван",
+  'chat.locked': "Лимит чата для этой сессии исчерпан. Перезапустите анализ, чтобы продолжить разговор.",
+  'chat.placeholder': "Введите сообщение...",
+  'chat.stop': "Остановить генерацию",
+  'chat.stopped': "*Ответ остановлен.*",
+  'chat.noResponse': "Не удалось обработать этот ответ.",
+  'chat.connectionError': "Сейчас не удаётся подключиться к серверам VitalVoice. Попробуйте ещё раз.",
+
+  // --- History ---
+  'history.title': "История обследований",
+  'history.empty': "Сохранённых обследований пока нет. Завершённые обследования сохраняются на этом устройстве.",
+  'history.delete': "Удалить обследование",
+  'history.import': "Импорт",
+  'history.exportCsv': "Экспорт CSV",
+  'history.importFailed': "Не удалось импортировать файл. Выберите JSON-файл, экспортированный из VitalVoice.",
+  'history.notAnExport': "Этот файл не является экспортом скрининга VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "Ваш профиль",
+  'profile.intro': "Все поля необязательны. Ваши ответы помогают интерпретировать голос — например, какая высота тона типична для вашего возраста — и определяют, с кем сравниваются ваши показатели. Данные хранятся только на этом устройстве.",
+  'profile.age': "Возраст",
+  'profile.agePlaceholder': "например, 52",
+  'profile.ageInvalid': "Введите возраст от 18 до 120.",
+  'profile.sexAtBirth': "Пол при рождении",
+  'profile.notSpecified': "Не указан",
+  'profile.female': "Женский",
+  'profile.male': "Мужской",
+  'profile.smoking': "Курение",
+  'profile.never': "Никогда",
+  'profile.former': "Бросил(а)",
+  'profile.current': "Курю",
+  'profile.respiratory': "Известные заболевания дыхательной системы",
+  'profile.respiratoryPlaceholder': "например, астма, ХОБЛ",
+  'profile.neurological': "Известные неврологические заболевания",
+  'profile.neurologicalPlaceholder': "например, мигрень, болезнь Паркинсона",
+  'profile.medications': "Текущие лекарства",
+  'profile.medicationsPlaceholder': "Через запятую",
+  'profile.clear': "Очистить профиль",
+  'profile.save': "Сохранить",
+
+  'profileField.age': "Возраст",
+  'profileField.sexAtBirth': "Пол при рождении",
+  'profileField.smoker': "Курение",
+  'profileField.respiratoryConditions': "Заболевания дыхательной системы",
+  'profileField.neurologicalConditions': "Неврологические заболевания",
+  'profileField.medications': "Лекарства",
+
+  // --- Batch validation ---
+  'batch.title': "Пакетная проверка",
+  'batch.intro': "Проанализируйте папку записей по CSV-манифесту с эталонными метками. Манифесту нужен столбец {file} и по столбцу на каждый id области (1 = состояние есть, 0 = нет), а также необязательные эталонные оценки {score}. Прогресс сохраняется, поэтому прерванный запуск продолжается с того же места.",
+  'batch.selectFolder': "Выбрать папку с аудио",
+  'batch.audioFiles': "Аудиофайлов: {count}",
+  'batch.selectManifest': "Выбрать CSV-манифест",
+  'batch.manifestSummary': "Строк: {rows} · Областей: {domains}",
+  'batch.manifestUnreadable': "Не удалось прочитать манифест.",
+  'batch.manifestEmpty': "Манифест пуст.",
+  'batch.manifestNoFileColumn': "В манифесте нужен столбец {file} с именем каждого аудиофайла.",
+  'batch.manifestNoDomains': "В манифесте нет столбцов областей. Назовите их по идентификатору области, например {label} или {score}.",
+  'batch.manifestNoRows': "В манифесте нет файлов.",
+  'batch.ignoredColumn': "Столбец «{column}» пропущен: это не идентификатор области.",
+  'batch.noFileName': "Строка {line}: нет имени файла, пропущена.",
+  'batch.duplicateFile': "Строка {line}: «{file}» указан дважды, используется только первая строка.",
+  'batch.invalidLabel': "Строка {line}: «{value}» не является меткой для {domain}, оставлено пустым.",
+  'batch.invalidScore': "Строка {line}: «{value}» не является числом для {column}, оставлено пустым.",
+  'batch.missingFiles': "Файлы манифеста, отсутствующие в папке: {count}",
+  'batch.warnings': "Предупреждения манифеста",
+  'batch.warningCount': "Предупреждений: {count}",
+  'batch.missing': "Отсутствует: {file}",
+  'batch.parallel': "Параллельные запросы",
+  'batch.startOver': "Начать заново",
+  'batch.resume': "Продолжить (осталось {count})",
+  'batch.run': "Обработать все файлы ({count})",
+  'batch.stop': "Остановить",
+  'batch.stopping': "Остановка…",
+  'batch.progress': "Проанализировано: {done} · Ошибок: {failed} (повтор при продолжении)",
+  'batch.fileTotal': "Файлов: {count}",
+  'batch.accuracy': "Точность по областям",
+  'batch.csv': "CSV",
+  'batch.report': "Отчёт",
+  'batch.domain': "Область",
+  'batch.matrixHint': "истинно положительные / ложноположительные / ложноотрицательные / истинно отрицательные",
+  'batch.sensitivity': "Чувствительность",
+  'batch.specificity': "Специфичность",
+  'batch.correlation': "Корреляция",
+  'batch.pointBiserialHint': "Точечно-бисериальный r относительно метки; отрицательное значение означает более низкие оценки у положительных случаев",
+  'batch.pearsonHint': "r Пирсона относительно эталонной оценки",
+  'batch.vsLabel': "к метке",
+  'batch.vsReference': "к эталону",
+  'batch.footnote': "Чувствительность и специфичность рассчитываются по файлам с меткой для данной области.",
+};
+
+export default ruRU;
@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const svSE: Messages = {
+  // --- Common ---
+  'common.cancel': "Avbryt",
+  'common.backHome': "Tillbaka till start",
+  'common.microphoneRequired': "Åtkomst till mikrofonen krävs.",
+
+  // --- Recording checks ---
+  'audio.empty': "Inspelningen misslyckades (tom fil).",
+  'audio.tooShort': "Inspelningen är för kort. Minst {seconds} sekunder behövs för en korrekt analys.",
+  'audio.tooQuiet': "Inspelningen är för tyst. Tala högre eller närmare mikrofonen.",
+  'audio.noSpeech': "Inget tal upptäcktes. Tala tydligt.",
+  'audio.unreadable': "Ljudfilen kunde inte kontrolleras.",
+  'audio.failed': "Inspelningen misslyckades.",
+  'quality.title': "Inspelningskontroller",
+  'quality.decodable': "Ljudfil",
+  'quality.duration': "Längd",
+  'quality.speech': "Tal",
+  'quality.level': "Talnivå",
+  'quality.snr': "Bakgrundsljud",
+  'quality.clipping': "Distorsion",
+  'quality.dc_offset': "Mikrofonförskjutning",
+  'quality.dropouts': "Avbrott",
+  'quality.speechShort': "Bara {seconds} s tal upptäcktes; minst {minimum} s behövs. Fortsätt prata tills timern är slut.",
+  'quality.noisy': "Bakgrundsljudet ligger för nära din röst (bara {value} dB svagare). Flytta dig från fläktar, trafik eller andra röster.",
+  'quality.clipped': "Inspelningen är förvrängd eftersom insignalen är för stark. Flytta dig lite längre från mikrofonen.",
+  'quality.dcOffset': "Mikrofonsignalen är förskjuten, vilket kan tyda på en trasig mikrofon. Prova en annan om det fortsätter.",
+  'quality.dropout': "Ljudet försvann i {seconds} s. Kontrollera Bluetooth- eller USB-anslutningen och spela in igen.",
+
+  // --- Modals ---
+  'limit.title': "Dagsgränsen är nådd",
+  'limit.body': "För att hålla tjänsten tillgänglig och hantera forskningskostnaderna begränsar vi användningen till {quota} per enhet.",
+  'limit.quota': "{limit} screeningar per dag",
+  'limit.resetsAt': "Fler screeningar blir tillgängliga från {time}.",
+  'limit.sampleNote': "Du kan fortfarande utforska den interaktiva demon med exempeldata, den räknas inte mot din gräns.",
+  'limit.ok': "Jag förstår",
+  'account.title': "Kontotoken",
+  'account.hint': "Har du en kontotoken från din studie eller organisation? Ange den för att använda dess gränser i stället för den här enhetens.",
+  'account.placeholder': "Klistra in din token",
+  'account.save': "Använd token",
+  'account.checking': "Kontrollerar…",
+  'account.rejected': "Den här token godtogs inte.",
+  'account.active': "Använder en kontotoken (nivå {tier})",
+  'account.remove': "Ta bort",
+  'usage.title': "Användning och kostnad",
+  'usage.screening': "Den här screeningen",
+  'usage.today': "I dag på den här enheten",
+  'usage.recentDays': "Senaste dagarna",
+  'usage.empty': "Inga modellanrop har registrerats för den här screeningen.",
+  'usage.call': "Anrop",
+  'usage.calls': "Modellanrop",
+  'usage.callCount': "{count} anrop",
+  'usage.promptTokens': "Indatatokens",
+  'usage.outputTokens': "Utdatatokens",
+  'usage.totalTokens': "Totalt antal tokens",
+  'usage.audioTokens': "Ljudtokens",
+  'usage.imageTokens': "Bildtokens",
+  'usage.estimatedCost': "Uppskattad kostnad",
+  'usage.kind.analysis': "Analys",
+  'usage.kind.chat': "Chattsvar",
+  'usage.kind.transcription': "Transkribering",
+  'usage.unpriced': "{count} anrop använde en modell som saknas i pristabellen och har inte räknats med.",
+  'usage.disclaimer': "Kostnaderna är uppskattningar utifrån listpriser per miljon tokens, inte en faktura. Anrop från andra enheter eller innan användningen började registreras ingår inte.",
+
+  'tech.title': "Teknisk arkitektur",
+  'tech.models': "AI-modeller som används",
+  'tech.flashDescription': "Multimodal analys med låg latens av ljud (PCM) och videobildrutor.",
+  'tech.proDescription': "Komplext resonerande för klinisk korrelation och trendanalys.",
+  'tech.pipeline': "Datapipeline",
+  'tech.pipelineCapture': "Inspelning av råljud (WebM/PCM)",
+  'tech.pipelineEncoding': "Base64-kodning på klientsidan",
+  'tech.pipelineRequest': "Multimodal förfrågan till Gemini API",
+  'tech.pipelineResponse': "Strukturerat JSON-svar",
+  'tech.sampleRequest': "Exempel på API-förfrågan",
+  'tech.footer': "Bygger på forskningsartiklar om akustisk analys av röstbiomarkörer inom neurologi.",
+
+  // --- Intro ---
+  'intro.badge': "Redo för klinisk validering",
+  'intro.tagline': "Avancerad hälsoscreening som drivs av {model}.",
+  'intro.selectedLanguage': "Valt språk:",
+  'intro.watchDemo': "Se demo",
+  'intro.start': "Starta screening",
+  'intro.sample': "Prova med exempeldata (direkt)",
+  'intro.addProfile': "Lägg till profil",
+  'intro.editProfile': "Redigera profil",
+  'intro.trustedResearch': "Pålitlig forskning",
+  'intro.privacyFirst': "Integritet först",
+  'intro.secureProcessing': "Säker bearbetning",
+  'intro.viewArchitecture': "Visa arkitektur",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Uppgift {step} av {total} · {task}",
+  'recording.getReady': "Gör dig redo",
+  'recording.listening': "Lyssnar...",
+  'recording.goodVolume': "Volymen är perfekt",
+  'coach.tooLoud': "Håll mikrofonen lite längre bort",
+  'coach.noisy': "För mycket bakgrundsljud",
+  'coach.tooFar': "Kom närmare mikrofonen",
+  'coach.silence': "Börja tala när du är redo",
+  'recording.usableSpeech': "{seconds} av {target} s användbart tal",
+  'recording.stopEarly': "Avsluta tidigt",
+  'recording.start': "Starta inspelning",
+  'recording.skipTask': "Hoppa över uppgiften",
+
+  'task.sustained_vowel.label': "Utdragen vokal",
+  'task.sustained_vowel.instruction': "Andas in djupt och säg sedan \"aaah\" så länge du kan med bekväm tonhöjd och volym.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Upprepa \"pa-ta-ka\" så snabbt och tydligt du kan tills tiden är slut.",
+  'task.reading.label': "Högläsning",
+  'task.reading.instruction': "Läs detta stycke högt i din vanliga takt:",
+  'task.free_speech.label': "Fritt tal",
+  'task.free_speech.instruction': "Svara med egna ord:",
+  'task.vowelNoVoice': "Ingen stadig röst upptäcktes. Håll ett enda \"aaah\"-ljud utan att viska.",
+  'task.vowelInterrupted': "Ljudet bröts. Andas in först och håll sedan \"aaah\" på ett andetag.",
+  'task.ddkTooFew': "För få stavelser upptäcktes. Upprepa \"pa-ta-ka\" utan pauser och så snabbt du kan.",
+  'task.readingSilent': "Mest tystnad upptäcktes. Läs hela stycket högt från början.",
+
+  // --- Face capture ---
+  'face.title': "Lägga till ansiktsanalys?",
+  'face.body': "VitalVoice kan analysera ansiktsbiomarkörer (blekhet, tecken på uttorkning, symmetri) för att öka träffsäkerheten med upp till 15 %.",
+  'face.enableCamera': "Aktivera kamera",
+  'face.skip': "Hoppa över nu",
+  'face.centerHint': "Centrera ansiktet i bra ljus",
+  'face.noFace': "Titta rakt in i kameran",
+  'face.moreLight': "Mer ljus på ansiktet",
+  'face.lessLight': "För ljust: flytta dig från direkt ljus",
+  'face.evenLight': "Undvik motljus och hårda skuggor",
+  'face.moveCloser': "Kom närmare",
+  'face.moveBack': "Flytta dig lite bakåt",
+  'face.centre': "Centrera ansiktet i bilden",
+  'face.holdStill': "Håll dig stilla",
+  'face.neutralLight': "Använd neutralt vitt ljus",
+  'face.ready': "Ser bra ut: ta bilden",
+  'face.rejected': "Det här fotot kan inte användas. {reason}",
+  'face.cameraNotReady': "Kameran startar fortfarande. Försök igen om en stund.",
+  'face.captureFailed': "Fotot kunde inte kontrolleras. Försök igen eller hoppa över det här steget.",
+
+  // --- Upload ---
+  'upload.title': "Ladda upp data",
+  'upload.voiceLabel': "Röstprov (obligatoriskt)",
+  'upload.tapToChange': "Tryck för att byta",
+  'upload.selectAudio': "Välj ljudfil",
+  'upload.audioFormats': "Stöder MP3, WAV, M4A",
+  'upload.imageLabel': "Ansiktsfoto (valfritt)",
+  'upload.preview': "Förhandsvisning",
+  'upload.imageSelected': "Bild vald",
+  'upload.selectImage': "Välj bild",
+  'upload.imageFormats': "Stöder JPG, PNG",
+  'upload.analyze': "Analysera data",
+  'upload.batch': "Validera dataset (batch)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Bearbetar hälsodata",
+  'analyzing.step1': "Extraherar röstbiomarkörer...",
+  'analyzing.step2': "Analyserar talmönster...",
+  'analyzing.step3': "Bedömer röstegenskaper...",
+  'analyzing.step4': "Jämför med multimodala data...",
+  'analyzing.step5': "Tar fram personliga rekommendationer...",
+  'analyzing.retrying': "Anslutningsproblem, försöker igen (försök {attempt})...",
+  'analyzing.footer': "Bearbetas i en säker miljö",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Tjänsten är upptagen",
+  'error.safety.title': "Analysen blockerades",
+  'error.network.title': "Anslutningsproblem",
+  'error.invalid_input.title': "Inspelningen kunde inte läsas",
+  'error.malformed_output.title': "Ofullständig analys",
+  'error.quota': "Analystjänsten är fullbelastad just nu. Vänta några minuter och försök igen.",
+  'error.safety': "Innehållsfiltren blockerade analysen. Spela in igen utan media i bakgrunden eller andra röster.",
+  'error.network': "Det gick inte att nå analystjänsten. Kontrollera anslutningen och försök igen.",
+  'error.invalidInput': "Inspelningen kunde inte bearbetas. Spela in igen eller välj en annan fil.",
+  'error.malformedOutput': "Analysen kom tillbaka ofullständig. Försök igen.",
+  'error.cancelled': "Analysen avbröts.",
+  'error.unknown': "Något gick fel under analysen. Försök igen.",
+  'error.retry': "Försök igen",
+  'error.recordAgain': "Spela in igen",
+  'error.chooseFile': "Välj en annan fil",
+  'error.viewSample': "Visa exempelresultat",
+  'error.keptRecording': "Din inspelning har sparats, så du behöver inte spela in igen.",
+  'error.keptFile': "Din fil har sparats, så du behöver inte ladda upp den igen.",
+
+  // --- Results ---
+  'results.newScan': "Ny screening",
+  'results.history': "Historik",
+  'results.usage': "Användning",
+  'results.exportPdf': "Exportera PDF",
+  'results.exportFhir': "Exportera FHIR",
+  'results.exportFhirFailed': "FHIR-exporten kunde inte skapas. Försök igen eller exportera en PDF i stället.",
+  'results.exportJson': "Exportera JSON",
+  'results.includeMedia': "Inkludera inspelning och foto",
+  'results.includeMediaHint': "Filen kommer att innehålla din röst och ditt ansikte. Dela den bara med personer du litar på.",
+  'results.download': "Ladda ned",
+  'results.overallScore': "Övergripande välmåendepoäng",
+  'results.confidence': "Tillförlitlighet: {level}",
+  'results.summary': "Sammanfattning",
+  'results.recommendations': "Rekommendationer",
+  'results.trends': "Trender",
+  'results.improving': "Förbättras",
+  'results.stable': "Stabil",
+  'results.needsAttention': "Behöver uppmärksamhet",
+  'results.firstScreening': "Det här är din första sparade screening. Gör en till senare för att se trender.",
+  'results.profileNoChange': "Din profil togs i beaktande men ändrade inte tolkningen av de här resultaten.",
+  'results.voiceTasks': "Röstuppgifter",
+  'results.disclaimer': "Det här är ett screeningverktyg, inte en medicinsk diagnos. Kontakta vårdpersonal om du är orolig.",
+
+  'report.title': "Klinisk screeningrapport",
+  'report.scoreOverview': "Poängöversikt",
+  'report.concernLevel': "Oroande nivå",
+  'report.capturedImage': "Taget foto",
+  'report.domainAnalysis': "Analys per område",
+  'report.comparedWith': "Percentiler jämförda med: {cohort}",
+  'report.scoreTrends': "Poängtrender",
+  'report.keyObservations': "Viktiga observationer",
+  'report.significance': "Betydelse:",
+  'report.reason': "Anledning:",
+  'report.disclaimer': "ANSVARSFRISKRIVNING:",
+  'report.page': "Sida {page} av {count}",
+  'report.generatedBy': "Skapad av VitalVoice AI med Gemini",
+
+  'confidence.low': "Låg",
+  'confidence.medium': "Medel",
+  'confidence.high': "Hög",
+  'concern.low': "Låg",
+  'concern.moderate': "Måttlig",
+  'concern.elevated': "Förhöjd",
+  'concern.high': "Hög",
+  'urgency.routine': "Rutin",
+  'urgency.soon': "Snart",
+  'urgency.prompt': "Skyndsamt",
+
+  'domain.neurological': "Neurologiskt",
+  'domain.mental_health': "Psykisk hälsa",
+  'domain.respiratory': "Andning",
+  'domain.cardiovascular': "Hjärta och kärl",
+  'domain.metabolic': "Ämnesomsättning",
+  'domain.hydration': "Vätskebalans",
+  'domain.sleep_fatigue': "Sömn och trötthet",
+  'domain.cognitive_load': "Kognitiv belastning",
+
+  'card.median': "Median: {value}",
+  'card.percentile': "{value}:e percentilen",
+  'card.noNorms': "Inga referensnormer",
+  'card.fromTask': "Från uppgiften {task}",
+
+  'cohort.women': "Kvinnor {band}",
+  'cohort.men': "Män {band}",
+  'cohort.adults': "Vuxna {band}",
+  'cohort.allWomen': "Alla kvinnor",
+  'cohort.allMen': "Alla män",
+  'cohort.allAdults': "Alla vuxna",
+
+  'biomarkers.title': "Uppmätta biomarkörer",
+  'biomarkers.computed': "Beräknat på den här enheten från {seconds} s ljud.",
+  'biomarkers.f0Mean': "Genomsnittlig tonhöjd (F0)",
+  'biomarkers.pitchRange': "Tonhöjdsomfång",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Förhållande mellan övertoner och brus",
+  'biomarkers.pauseRatio': "Pausandel",
+  'biomarkers.syllableRate': "Stavelsetakt",
+
+  // --- Chat ---
+  'chat.title': "VitalVoice-assistent",
+  'chat.limitReached': "Sessionsgränsen är nådd",
+  'chat.remaining': "Återstående meddelanden: {count}",
+  'chat.clear': "Rensa chatten",
+  'chat.empty': "Be mig förklara en medicinsk term eller ge fler tips för välmående!",
+  'chat.transcribing': "Transkriberar…",
+  'chat.noTranscript': "Ingen transkription, så senare svar ser inte det här meddelandet",
+  'chat.interrupted': "Svaret avbröts",
+  'chat.locked': "Chattgränsen för den här sessionen är nådd. Starta om analysen för att fortsätta samtala.",
+  'chat.placeholder': "Skriv ett meddelande...",
+  'chat.stop': "Sluta generera",
+  'chat.stopped': "*Svaret stoppades.*",
+  'chat.noResponse': "Jag kunde inte behandla det svaret.",
+  'chat.connectionError': "Jag har problem med att ansluta till VitalVoice-servrarna just nu. Försök igen.",
+
+  // --- History ---
+  'history.title': "Screeninghistorik",
+  'history.empty': "Inga sparade screeningar än. Slutförda screeningar sparas på den här enheten.",
+  'history.delete': "Ta bort screening",
+  'history.import': "Importera",
+  'history.exportCsv': "Exportera CSV",
+  'history.importFailed': "Filen kunde inte importeras. Välj en JSON-fil som exporterats från VitalVoice.",
+  'history.notAnExport': "Den här filen är inte en screeningexport från VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "Din profil",
+  'profile.intro': "Alla fält är valfria. Dina svar hjälper till att tolka din röst, till exempel vilken tonhöjd som är typisk för din ålder, och avgör vilka dina poäng jämförs med. De sparas bara på den här enheten.",
+  'profile.age': "Ålder",
+  'profile.agePlaceholder': "t.ex. 52",
+  'profile.ageInvalid': "Ange en ålder mellan 18 och 120.",
+  'profile.sexAtBirth': "Kön vid födseln",
+  'profile.notSpecified': "Ej angivet",
+  'profile.female': "Kvinna",
+  'profile.male': "Man",
+  'profile.smoking': "Rökning",
+  'profile.never': "Aldrig",
+  'profile.former': "Tidigare",
+  'profile.current': "Nuvarande",
+  'profile.respiratory': "Kända andningssjukdomar",
+  'profile.respiratoryPlaceholder': "t.ex. astma, KOL",
+  'profile.neurological': "Kända neurologiska sjukdomar",
+  'profile.neurologicalPlaceholder': "t.ex. migrän, Parkinsons sjukdom",
+  'profile.medications': "Nuvarande läkemedel",
+  'profile.medicationsPlaceholder': "Separera med kommatecken",
+  'profile.clear': "Rensa profil",
+  'profile.save': "Spara",
+
+  'profileField.age': "Ålder",
+  'profileField.sexAtBirth': "Kön vid födseln",
+  'profileField.smoker': "Rökning",
+  'profileField.respiratoryConditions': "Andningssjukdomar",
+  'profileField.neurologicalConditions': "Neurologiska sjukdomar",
+  'profileField.medications': "Läkemedel",
+
+  // --- Batch validation ---
+  'batch.title': "Batchvalidering",
+  'batch.intro': "Analysera en mapp med inspelningar mot ett CSV-manifest med facitetiketter. Manifestet behöver en {file}-kolumn och en kolumn per domän-id (1 = tillstånd finns, 0 = saknas), plus valfria referenspoäng {score}. Framstegen sparas, så en avbruten körning fortsätter där den slutade.",
+  'batch.selectFolder': "Välj ljudmapp",
+  'batch.audioFiles': "Ljudfiler: {count}",
+  'batch.selectManifest': "Välj CSV-manifest",
+  'batch.manifestSummary': "Rader: {rows} · Domäner: {domains}",
+  'batch.manifestUnreadable': "Manifestet kunde inte läsas.",
+  'batch.manifestEmpty': "Manifestet är tomt.",
+  'batch.manifestNoFileColumn': "Manifestet behöver en kolumn {file} med namnet på varje ljudfil.",
+  'batch.manifestNoDomains': "Manifestet har inga områdeskolumner. Namnge dem med områdets id, t.ex. {label} eller {score}.",
+  'batch.manifestNoRows': "Manifestet listar inga filer.",
+  'batch.ignoredColumn': "Kolumnen \"{column}\" ignorerades: inte ett områdes-id.",
+  'batch.noFileName': "Rad {line}: inget filnamn, hoppades över.",
+  'batch.duplicateFile': "Rad {line}: \"{file}\" finns två gånger, bara den första raden används.",
+  'batch.invalidLabel': "Rad {line}: \"{value}\" är ingen etikett för {domain}, lämnades tom.",
+  'batch.invalidScore': "Rad {line}: \"{value}\" är inget tal för {column}, lämnades tom.",
+  'batch.missingFiles': "Manifestfiler som saknas i mappen: {count}",
+  'batch.warnings': "Manifestvarningar",
+  'batch.warningCount': "Varningar: {count}",
+  'batch.missing': "Saknas: {file}",
+  'batch.parallel': "Parallella förfrågningar",
+  'batch.startOver': "Börja om",
+  'batch.resume': "Fortsätt ({count} kvar)",
+  'batch.run': "Kör alla filer ({count})",
+  'batch.stop': "Stoppa",
+  'batch.stopping': "Stoppar…",
+  'batch.progress': "Analyserade: {done} · Misslyckade: {failed} (försöks igen vid fortsättning)",
+  'batch.fileTotal': "Filer: {count}",
+  'batch.accuracy': "Träffsäkerhet per domän",
+  'batch.csv': "CSV",
+  'batch.report': "Rapport",
+  'batch.domain': "Domän",
+  'batch.matrixHint': "sant positiva / falskt positiva / falskt negativa / sant negativa",
+  'batch.sensitivity': "Sensitivitet",
+  'batch.specificity': "Specificitet",
+  'batch.correlation': "Korrelation",
+  'batch.pointBiserialHint': "Punktbiseriell r mot etiketten; ett negativt värde betyder lägre poäng för positiva fall",
+  'batch.pearsonHint': "Pearsons r mot referenspoängen",
+  'batch.vsLabel': "mot etikett",
+  'batch.vsReference': "mot referens",
+  'batch.footnote': "Sensitivitet och specificitet beräknas från filer som har en etikett för den domänen.",
+};
+
+export default svSE;
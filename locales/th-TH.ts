@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const thTH: Messages = {
+  // --- Common ---
+  'common.cancel': "ยกเลิก",
+  'common.backHome': "กลับหน้าหลัก",
+  'common.microphoneRequired': "ต้องอนุญาตการเข้าถึงไมโครโฟน",
+
+  // --- Recording checks ---
+  'audio.empty': "บันทึกเสียงไม่สำเร็จ (ไฟล์ว่าง)",
+  'audio.tooShort': "การบันทึกสั้นเกินไป ต้องมีอย่างน้อย {seconds} วินาทีเพื่อการวิเคราะห์ที่แม่นยำ",
+  'audio.tooQuiet': "เสียงเบาเกินไป โปรดพูดให้ดังขึ้นหรือเข้าใกล้ไมโครโฟน",
+  'audio.noSpeech': "ไม่พบเสียงพูด โปรดพูดให้ชัดเจน",
+  'audio.unreadable': "ไม่สามารถตรวจสอบไฟล์เสียงได้",
+  'audio.failed': "บันทึกเสียงไม่สำเร็จ",
+  'quality.title': "การตรวจสอบไฟล์บันทึก",
+  'quality.decodable': "ไฟล์เสียง",
+  'quality.duration': "ความยาว",
+  'quality.speech': "เสียงพูด",
+  'quality.level': "ระดับเสียงพูด",
+  'quality.snr': "เสียงรบกวนพื้นหลัง",
+  'quality.clipping': "เสียงแตก",
+  'quality.dc_offset': "ไมโครโฟนเยื้อง",
+  'quality.dropouts': "เสียงขาดหาย",
+  'quality.speechShort': "ตรวจพบเสียงพูดเพียง {seconds} วินาที ต้องมีอย่างน้อย {minimum} วินาที โปรดพูดต่อไปจนหมดเวลา",
+  'quality.noisy': "เสียงรบกวนพื้นหลังใกล้เคียงกับเสียงของคุณมากเกินไป (เบากว่าเพียง {value} dB) โปรดย้ายออกห่างจากพัดลม การจราจร หรือเสียงคนอื่น",
+  'quality.clipped': "เสียงที่บันทึกแตกเพราะสัญญาณเข้าดังเกินไป โปรดถอยห่างจากไมโครโฟนเล็กน้อย",
+  'quality.dcOffset': "สัญญาณไมโครโฟนเยื้องจากศูนย์กลาง ซึ่งอาจเกิดจากไมโครโฟนชำรุด หากเกิดซ้ำโปรดลองใช้ไมโครโฟนอื่น",
+  'quality.dropout': "เสียงขาดหายไป {seconds} วินาที โปรดตรวจสอบการเชื่อมต่อบลูทูธหรือ USB แล้วบันทึกใหม่",
+
+  // --- Modals ---
+  'limit.title': "ครบขีดจำกัดรายวันแล้ว",
+  'limit.body': "เพื่อให้บริการใช้งานได้ต่อเนื่องและควบคุมค่าใช้จ่ายการวิจัย เราจำกัดการใช้งานไว้ที่ {quota} ต่ออุปกรณ์",
+  'limit.quota': "{limit} ครั้งต่อวัน",
+  'limit.resetsAt': "จะตรวจคัดกรองได้อีกครั้งตั้งแต่ {time}",
+  'limit.sampleNote': "คุณยังสำรวจเดโมแบบโต้ตอบด้วยข้อมูลตัวอย่างได้ และจะไม่นับรวมในขีดจำกัด",
+  'limit.ok': "เข้าใจแล้ว",
+  'account.title': "โทเค็นบัญชี",
+  'account.hint': "มีโทเค็นบัญชีจากการศึกษาหรือองค์กรของคุณไหม ป้อนเพื่อใช้ขีดจำกัดของโทเค็นแทนขีดจำกัดของอุปกรณ์นี้",
+  'account.placeholder': "วางโทเค็นของคุณ",
+  'account.save': "ใช้โทเค็น",
+  'account.checking': "กำลังตรวจสอบ…",
+  'account.rejected': "ไม่ยอมรับโทเค็นนี้",
+  'account.active': "กำลังใช้โทเค็นบัญชี (ระดับ {tier})",
+  'account.remove': "นำออก",
+  'usage.title': "การใช้งานและค่าใช้จ่าย",
+  'usage.screening': "การคัดกรองนี้",
+  'usage.today': "วันนี้บนอุปกรณ์นี้",
+  'usage.recentDays': "วันที่ผ่านมา",
+  'usage.empty': "ไม่มีการบันทึกการเรียกใช้โมเดลสำหรับการคัดกรองนี้",
+  'usage.call': "การเรียกใช้",
+  'usage.calls': "การเรียกใช้โมเดล",
+  'usage.callCount': "{count} ครั้ง",
+  'usage.promptTokens': "โทเค็นขาเข้า",
+  'usage.outputTokens': "โทเค็นขาออก",
+  'usage.totalTokens': "โทเค็นทั้งหมด",
+  'usage.audioTokens': "โทเค็นเสียง",
+  'usage.imageTokens': "โทเค็นรูปภาพ",
+  'usage.estimatedCost': "ค่าใช้จ่ายโดยประมาณ",
+  'usage.kind.analysis': "การวิเคราะห์",
+  'usage.kind.chat': "คำตอบแชต",
+  'usage.kind.transcription': "การถอดเสียง",
+  'usage.unpriced': "การเรียกใช้ {count} ครั้งใช้โมเดลที่ไม่มีในตารางราคาและไม่ได้คิดค่าใช้จ่าย",
+  'usage.disclaimer': "ค่าใช้จ่ายเป็นการประมาณจากราคาต่อหนึ่งล้านโทเค็น ไม่ใช่ใบแจ้งหนี้ ไม่รวมการเรียกใช้จากอุปกรณ์อื่นหรือก่อนเริ่มติดตามการใช้งาน",
+
+  'tech.title': "สถาปัตยกรรมทางเทคนิค",
+  'tech.models': "โมเดล AI ที่ใช้",
+  'tech.flashDescription': "การวิเคราะห์หลายรูปแบบที่มีความหน่วงต่ำสำหรับเสียง (PCM) และเฟรมวิดีโอ",
+  'tech.proDescription': "การให้เหตุผลที่ซับซ้อนสำหรับความสัมพันธ์ทางคลินิกและการวิเคราะห์แนวโน้ม",
+  'tech.pipeline': "ไปป์ไลน์ข้อมูล",
+  'tech.pipelineCapture': "เก็บเสียงดิบ (WebM/PCM)",
+  'tech.pipelineEncoding': "เข้ารหัส Base64 ฝั่งไคลเอนต์",
+  'tech.pipelineRequest': "คำขอหลายรูปแบบไปยัง Gemini API",
+  'tech.pipelineResponse': "การตอบกลับ JSON แบบมีโครงสร้าง",
+  'tech.sampleRequest': "ตัวอย่างคำขอ API",
+  'tech.footer': "อ้างอิงจากงานวิจัยด้านการวิเคราะห์เชิงเสียงของตัวบ่งชี้ทางชีวภาพจากเสียงในประสาทวิทยา",
+
+  // --- Intro ---
+  'intro.badge': "พร้อมสำหรับการตรวจสอบทางคลินิก",
+  'intro.tagline': "การคัดกรองสุขภาพขั้นสูงขับเคลื่อนโดย {model}",
+  'intro.selectedLanguage': "ภาษาที่เลือก:",
+  'intro.watchDemo': "ดูเดโม",
+  'intro.start': "เริ่มการคัดกรอง",
+  'intro.sample': "ลองด้วยข้อมูลตัวอย่าง (ทันที)",
+  'intro.addProfile': "เพิ่มโปรไฟล์",
+  'intro.editProfile': "แก้ไขโปรไฟล์",
+  'intro.trustedResearch': "งานวิจัยที่เชื่อถือได้",
+  'intro.privacyFirst': "ความเป็นส่วนตัวมาก่อน",
+  'intro.secureProcessing': "ประมวลผลอย่างปลอดภัย",
+  'intro.viewArchitecture': "ดูสถาปัตยกรรม",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "งานที่ {step} จาก {total} · {task}",
+  'recording.getReady': "เตรียมตัว",
+  'recording.listening': "กำลังฟัง...",
+  'recording.goodVolume': "ระดับเสียงดีมาก",
+  'coach.tooLoud': "ขยับไมโครโฟนออกไปอีกเล็กน้อย",
+  'coach.noisy': "เสียงรบกวนรอบข้างมากเกินไป",
+  'coach.tooFar': "ขยับเข้าใกล้ไมโครโฟน",
+  'coach.silence': "เริ่มพูดเมื่อคุณพร้อม",
+  'recording.usableSpeech': "เสียงพูดที่ใช้ได้ {seconds} จาก {target} วินาที",
+  'recording.stopEarly': "หยุดก่อนเวลา",
+  'recording.start': "เริ่มบันทึก",
+  'recording.skipTask': "ข้ามงานนี้",
+
+  'task.sustained_vowel.label': "สระเสียงยาว",
+  'task.sustained_vowel.instruction': "หายใจเข้าลึก ๆ แล้วออกเสียง \"อาาา\" ให้นานที่สุดด้วยระดับเสียงและความดังที่สบาย",
+  'task.ddk.label': "พา-ทา-คา",
+  'task.ddk.instruction': "พูด \"พา-ทา-คา\" ซ้ำให้เร็วและชัดที่สุดจนกว่าจะหมดเวลา",
+  'task.reading.label': "อ่านย่อหน้า",
+  'task.reading.instruction': "อ่านย่อหน้านี้ออกเสียงด้วยความเร็วปกติของคุณ:",
+  'task.free_speech.label': "พูดอิสระ",
+  'task.free_speech.instruction': "ตอบด้วยคำพูดของคุณเอง:",
+  'task.vowelNoVoice': "ไม่พบเสียงที่คงที่ ให้ลากเสียง \"อาาา\" เสียงเดียวโดยไม่กระซิบ",
+  'task.vowelInterrupted': "เสียงขาดเป็นช่วง ๆ หายใจเข้าก่อน แล้วลากเสียง \"อาาา\" ในลมหายใจเดียว",
+  'task.ddkTooFew': "พบพยางค์น้อยเกินไป พูด \"พา-ทา-คา\" ซ้ำโดยไม่หยุดและเร็วที่สุด",
+  'task.readingSilent': "ส่วนใหญ่เป็นความเงียบ อ่านย่อหน้าทั้งหมดออกเสียงตั้งแต่ต้น",
+
+  // --- Face capture ---
+  'face.title': "เพิ่มการวิเคราะห์ใบหน้าไหม?",
+  'face.body': "VitalVoice สามารถวิเคราะห์ตัวบ่งชี้ทางชีวภาพจากใบหน้า (ความซีด สัญญาณการขาดน้ำ ความสมมาตร) เพื่อเพิ่มความแม่นยำได้ถึง 15%",
+  'face.enableCamera': "เปิดกล้อง",
+  'face.skip': "ข้ามไปก่อน",
+  'face.centerHint': "จัดใบหน้าให้อยู่กลางในที่ที่มีแสงดี",
+  'face.noFace': "มองตรงไปที่กล้อง",
+  'face.moreLight': "เพิ่มแสงที่ใบหน้า",
+  'face.lessLight': "สว่างเกินไป: หลบแสงที่ส่องตรง",
+  'face.evenLight': "หลีกเลี่ยงแสงจากด้านหลังหรือเงาเข้ม",
+  'face.moveCloser': "ขยับเข้ามาใกล้",
+  'face.moveBack': "ถอยออกไปเล็กน้อย",
+  'face.centre': "จัดใบหน้าให้อยู่กลางกรอบ",
+  'face.holdStill': "อยู่นิ่ง ๆ",
+  'face.neutralLight': "ใช้แสงสีขาวธรรมชาติ",
+  'face.ready': "ดีแล้ว: ถ่ายภาพได้",
+  'face.rejected': "ไม่สามารถใช้ภาพนี้ได้ {reason}",
+  'face.cameraNotReady': "กล้องกำลังเริ่มทำงาน โปรดลองอีกครั้งในอีกสักครู่",
+  'face.captureFailed': "ไม่สามารถตรวจสอบรูปภาพได้ โปรดลองอีกครั้งหรือข้ามขั้นตอนนี้",
+
+  // --- Upload ---
+  'upload.title': "อัปโหลดข้อมูล",
+  'upload.voiceLabel': "ตัวอย่างเสียง (จำเป็น)",
+  'upload.tapToChange': "แตะเพื่อเปลี่ยน",
+  'upload.selectAudio': "เลือกไฟล์เสียง",
+  'upload.audioFormats': "รองรับ MP3, WAV, M4A",
+  'upload.imageLabel': "รูปใบหน้า (ไม่บังคับ)",
+  'upload.preview': "ตัวอย่าง",
+  'upload.imageSelected': "เลือกรูปแล้ว",
+  'upload.selectImage': "เลือกรูป",
+  'upload.imageFormats': "รองรับ JPG, PNG",
+  'upload.analyze': "วิเคราะห์ข้อมูล",
+  'upload.batch': "ตรวจสอบชุดข้อมูล (แบบกลุ่ม)",
+
+  // --- Analyzing ---
+  'analyzing.title': "กำลังประมวลผลข้อมูลสุขภาพ",
+  'analyzing.step1': "กำลังดึงตัวบ่งชี้ทางชีวภาพจากเสียง...",
+  'analyzing.step2': "กำลังวิเคราะห์รูปแบบการพูด...",
+  'analyzing.step3': "กำลังประเมินลักษณะเสียง...",
+  'analyzing.step4': "กำลังเทียบกับข้อมูลหลายรูปแบบ...",
+  'analyzing.step5': "กำลังสร้างคำแนะนำเฉพาะบุคคล...",
+  'analyzing.retrying': "การเชื่อมต่อมีปัญหา กำลังลองใหม่ (ครั้งที่ {attempt})...",
+  'analyzing.footer': "ประมวลผลในสภาพแวดล้อมที่ปลอดภัย",
+
+  // --- Analysis errors ---
+  'error.quota.title': "บริการไม่ว่าง",
+  'error.safety.title': "การวิเคราะห์ถูกบล็อก",
+  'error.network.title': "ปัญหาการเชื่อมต่อ",
+  'error.invalid_input.title': "อ่านการบันทึกไม่ได้",
+  'error.malformed_output.title': "การวิเคราะห์ไม่สมบูรณ์",
+  'error.quota': "บริการวิเคราะห์เต็มความจุในขณะนี้ โปรดรอสักครู่แล้วลองอีกครั้ง",
+  'error.safety': "ตัวกรองความปลอดภัยของเนื้อหาบล็อกการวิเคราะห์ โปรดบันทึกใหม่โดยไม่มีสื่อหรือเสียงอื่นเป็นพื้นหลัง",
+  'error.network': "ไม่สามารถเข้าถึงบริการวิเคราะห์ได้ ตรวจสอบการเชื่อมต่อแล้วลองอีกครั้ง",
+  'error.invalidInput': "ไม่สามารถประมวลผลการบันทึกได้ โปรดบันทึกใหม่หรือเลือกไฟล์อื่น",
+  'error.malformedOutput': "ผลการวิเคราะห์ไม่สมบูรณ์ โปรดลองอีกครั้ง",
+  'error.cancelled': "ยกเลิกการวิเคราะห์แล้ว",
+  'error.unknown': "เกิดข้อผิดพลาดระหว่างการวิเคราะห์ โปรดลองอีกครั้ง",
+  'error.retry': "ลองอีกครั้ง",
+  'error.recordAgain': "บันทึกใหม่",
+  'error.chooseFile': "เลือกไฟล์อื่น",
+  'error.viewSample': "ดูผลลัพธ์ตัวอย่าง",
+  'error.keptRecording': "เก็บการบันทึกของคุณไว้แล้ว ไม่ต้องบันทึกใหม่",
+  'error.keptFile': "เก็บไฟล์ของคุณไว้แล้ว ไม่ต้องอัปโหลดใหม่",
+
+  // --- Results ---
+  'results.newScan': "คัดกรองใหม่",
+  'results.history': "ประวัติ",
+  'results.usage': "การใช้งาน",
+  'results.exportPdf': "ส่งออก PDF",
+  'results.exportFhir': "ส่งออก FHIR",
+  'results.exportFhirFailed': "ไม่สามารถสร้างไฟล์ FHIR ได้ โปรดลองอีกครั้งหรือส่งออกเป็น PDF แทน",
+  'results.exportJson': "ส่งออก JSON",
+  'results.includeMedia': "รวมไฟล์บันทึกเสียงและรูปภาพ",
+  'results.includeMediaHint': "ไฟล์จะมีเสียงและใบหน้าของคุณ แชร์เฉพาะกับคนที่คุณไว้ใจเท่านั้น",
+  'results.download': "ดาวน์โหลด",
+  'results.overallScore': "คะแนนสุขภาวะโดยรวม",
+  'results.confidence': "ความเชื่อมั่น: {level}",
+  'results.summary': "สรุป",
+  'results.recommendations': "คำแนะนำ",
+  'results.trends': "แนวโน้ม",
+  'results.improving': "ดีขึ้น",
+  'results.stable': "คงที่",
+  'results.needsAttention': "ควรใส่ใจ",
+  'results.firstScreening': "นี่คือการคัดกรองครั้งแรกที่บันทึกไว้ คัดกรองอีกครั้งภายหลังเพื่อดูแนวโน้ม",
+  'results.profileNoChange': "ได้พิจารณาโปรไฟล์ของคุณแล้ว แต่ไม่ได้เปลี่ยนการตีความผลลัพธ์นี้",
+  'results.voiceTasks': "งานด้านเสียง",
+  'results.disclaimer': "นี่คือเครื่องมือคัดกรอง ไม่ใช่การวินิจฉัยทางการแพทย์ โปรดปรึกษาบุคลากรทางการแพทย์หากมีข้อกังวล",
+
+  'report.title': "รายงานการคัดกรองทางคลินิก",
+  'report.scoreOverview': "ภาพรวมคะแนน",
+  'report.concernLevel': "ระดับความกังวล",
+  'report.capturedImage': "ภาพที่ถ่าย",
+  'report.domainAnalysis': "การวิเคราะห์รายด้าน",
+  'report.comparedWith': "เปอร์เซ็นไทล์เทียบกับ: {cohort}",
+  'report.scoreTrends': "แนวโน้มคะแนน",
+  'report.keyObservations': "ข้อสังเกตสำคัญ",
+  'report.significance': "ความสำคัญ:",
+  'report.reason': "เหตุผล:",
+  'report.disclaimer': "ข้อจำกัดความรับผิดชอบ:",
+  'report.page': "หน้า {page} จาก {count}",
+  'report.generatedBy': "สร้างโดย VitalVoice AI ขับเคลื่อนโดย Gemini",
+
+  'confidence.low': "ต่ำ",
+  'confidence.medium': "ปานกลาง",
+  'confidence.high': "สูง",
+  'concern.low': "ต่ำ",
+  'concern.moderate': "ปานกลาง",
+  'concern.elevated': "ค่อนข้างสูง",
+  'concern.high': "สูง",
+  'urgency.routine': "ตามปกติ",
+  'urgency.soon': "เร็ว ๆ นี้",
+  'urgency.prompt': "โดยเร็ว",
+
+  'domain.neurological': "ระบบประสาท",
+  'domain.mental_health': "สุขภาพจิต",
+  'domain.respiratory': "ระบบทางเดินหายใจ",
+  'domain.cardiovascular': "หัวใจและหลอดเลือด",
+  'domain.metabolic': "เมแทบอลิซึม",
+  'domain.hydration': "ภาวะน้ำในร่างกาย",
+  'domain.sleep_fatigue': "การนอนและความเหนื่อยล้า",
+  'domain.cognitive_load': "ภาระทางความคิด",
+
+  'card.median': "มัธยฐาน: {value}",
+  'card.percentile': "เปอร์เซ็นไทล์ที่ {value}",
+  'card.noNorms': "ไม่มีเกณฑ์อ้างอิง",
+  'card.fromTask': "จากงาน {task}",
+
+  'cohort.women': "ผู้หญิง {band}",
+  'cohort.men': "ผู้ชาย {band}",
+  'cohort.adults': "ผู้ใหญ่ {band}",
+  'cohort.allWomen': "ผู้หญิงทั้งหมด",
+  'cohort.allMen': "ผู้ชายทั้งหมด",
+  'cohort.allAdults': "ผู้ใหญ่ทั้งหมด",
+
+  'biomarkers.title': "ตัวบ่งชี้ทางชีวภาพที่วัดได้",
+  'biomarkers.computed': "คำนวณบนอุปกรณ์นี้จากเสียง {seconds} วินาที",
+  'biomarkers.f0Mean': "ระดับเสียงเฉลี่ย (F0)",
+  'biomarkers.pitchRange': "ช่วงระดับเสียง",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "อัตราส่วนฮาร์มอนิกต่อสัญญาณรบกวน",
+  'biomarkers.pauseRatio': "สัดส่วนการหยุด",
+  'biomarkers.syllableRate': "อัตราพยางค์",
+
+  // --- Chat ---
+  'chat.title': "ผู้ช่วย VitalVoice",
+  'chat.limitReached': "ครบขีดจำกัดของเซสชันแล้ว",
+  'chat.remaining': "ข้อความที่เหลือ: {count}",
+  'chat.clear': "ล้างแชต",
+  'chat.empty': "ขอให้ฉันอธิบายศัพท์ทางการแพทย์หรือให้เคล็ดลับสุขภาพเพิ่มเติมได้เลย!",
+  'chat.transcribing': "กำลังถอดความ…",
+  'chat.noTranscript': "ไม่มีข้อความถอดความ คำตอบถัดไปจึงจะไม่เห็นข้อความนี้",
+  'chat.interrupted': "คำตอบถูกขัดจังหวะ",
+  'chat.locked': "ครบขีดจำกัดแชตของเซสชันนี้แล้ว เริ่มการวิเคราะห์ใหม่เพื่อคุยต่อ",
+  'chat.placeholder': "พิมพ์ข้อความ...",
+  'chat.stop': "หยุดสร้างคำตอบ",
+  'chat.stopped': "*หยุดการตอบแล้ว*",
+  'chat.noResponse': "ไม่สามารถประมวลผลคำตอบนั้นได้",
+  'chat.connectionError': "ขณะนี้มีปัญหาในการเชื่อมต่อกับเซิร์ฟเวอร์ VitalVoice โปรดลองอีกครั้ง",
+
+  // --- History ---
+  'history.title': "ประวัติการคัดกรอง",
+  'history.empty': "ยังไม่มีการคัดกรองที่บันทึกไว้ การคัดกรองที่เสร็จแล้วจะบันทึกบนอุปกรณ์นี้",
+  'history.delete': "ลบการคัดกรอง",
+  'history.import': "นำเข้า",
+  'history.exportCsv': "ส่งออก CSV",
+  'history.importFailed': "ไม่สามารถนำเข้าไฟล์นี้ได้ โปรดเลือกไฟล์ JSON ที่ส่งออกจาก VitalVoice",
+  'history.notAnExport': "ไฟล์นี้ไม่ใช่ไฟล์ส่งออกผลการคัดกรองของ VitalVoice",
+
+  // --- Profile ---
+  'profile.title': "โปรไฟล์ของคุณ",
+  'profile.intro': "ทุกช่องไม่บังคับ คำตอบของคุณช่วยในการตีความเสียง เช่น ระดับเสียงที่ปกติสำหรับอายุของคุณ และกำหนดว่าคะแนนของคุณจะถูกเปรียบเทียบกับใคร ข้อมูลจะบันทึกไว้บนอุปกรณ์นี้เท่านั้น",
+  'profile.age': "อายุ",
+  'profile.agePlaceholder': "เช่น 52",
+  'profile.ageInvalid': "กรอกอายุระหว่าง 18 ถึง 120",
+  'profile.sexAtBirth': "เพศกำเนิด",
+  'profile.notSpecified': "ไม่ระบุ",
+  'profile.female': "หญิง",
+  'profile.male': "ชาย",
+  'profile.smoking': "การสูบบุหรี่",
+  'profile.never': "ไม่เคย",
+  'profile.former': "เคยสูบ",
+  'profile.current': "สูบอยู่",
+  'profile.respiratory': "โรคทางเดินหายใจที่ทราบ",
+  'profile.respiratoryPlaceholder': "เช่น หอบหืด, COPD",
+  'profile.neurological': "โรคทางระบบประสาทที่ทราบ",
+  'profile.neurologicalPlaceholder': "เช่น ไมเกรน, โรคพาร์กินสัน",
+  'profile.medications': "ยาที่ใช้อยู่",
+  'profile.medicationsPlaceholder': "คั่นด้วยจุลภาค",
+  'profile.clear': "ล้างโปรไฟล์",
+  'profile.save': "บันทึก",
+
+  'profileField.age': "อายุ",
+  'profileField.sexAtBirth': "เพศกำเนิด",
+  'profileField.smoker': "การสูบบุหรี่",
+  'profileField.respiratoryConditions': "โรคทางเดินหายใจ",
+  'profileField.neurologicalConditions': "โรคทางระบบประสาท",
+  'profileField.medications': "ยา",
+
+  // --- Batch validation ---
+  'batch.title': "การตรวจสอบแบบกลุ่ม",
+  'batch.intro': "วิเคราะห์โฟลเดอร์การบันทึกเทียบกับไฟล์ CSV manifest ที่มีป้ายกำกับจริง manifest ต้องมีคอลัมน์ {file} และคอลัมน์สำหรับ id ของแต่ละด้าน (1 = มีภาวะ, 0 = ไม่มี) และอาจมีคะแนนอ้างอิง {score} ด้วย ความคืบหน้าจะถูกบันทึก การรันที่หยุดไปจึงทำต่อจากจุดเดิมได้",
+  'batch.selectFolder': "เลือกโฟลเดอร์เสียง",
+  'batch.audioFiles': "ไฟล์เสียง: {count}",
+  'batch.selectManifest': "เลือก CSV manifest",
+  'batch.manifestSummary': "แถว: {rows} · ด้าน: {domains}",
+  'batch.manifestUnreadable': "อ่าน manifest ไม่ได้",
+  'batch.manifestEmpty': "ไฟล์รายการว่างเปล่า",
+  'batch.manifestNoFileColumn': "ไฟล์รายการต้องมีคอลัมน์ {file} ที่ระบุชื่อไฟล์เสียงแต่ละไฟล์",
+  'batch.manifestNoDomains': "ไฟล์รายการไม่มีคอลัมน์ด้านสุขภาพ ตั้งชื่อตามรหัสด้าน เช่น {label} หรือ {score}",
+  'batch.manifestNoRows': "ไฟล์รายการไม่มีไฟล์ใดเลย",
+  'batch.ignoredColumn': "ข้ามคอลัมน์ \"{column}\": ไม่ใช่รหัสด้าน",
+  'batch.noFileName': "บรรทัด {line}: ไม่มีชื่อไฟล์ จึงข้ามไป",
+  'batch.duplicateFile': "บรรทัด {line}: \"{file}\" ซ้ำสองครั้ง ใช้เฉพาะแถวแรก",
+  'batch.invalidLabel': "บรรทัด {line}: \"{value}\" ไม่ใช่ป้ายกำกับของ {domain} จึงเว้นว่างไว้",
+  'batch.invalidScore': "บรรทัด {line}: \"{value}\" ไม่ใช่ตัวเลขสำหรับ {column} จึงเว้นว่างไว้",
+  'batch.missingFiles': "ไฟล์ใน manifest ที่ไม่พบในโฟลเดอร์: {count}",
+  'batch.warnings': "คำเตือนของ manifest",
+  'batch.warningCount': "คำเตือน: {count}",
+  'batch.missing': "ไม่พบ: {file}",
+  'batch.parallel': "คำขอแบบขนาน",
+  'batch.startOver': "เริ่มใหม่",
+  'batch.resume': "ทำต่อ (เหลือ {count})",
+  'batch.run': "รันทุกไฟล์ ({count})",
+  'batch.stop': "หยุด",
+  'batch.stopping': "กำลังหยุด…",
+  'batch.progress': "วิเคราะห์แล้ว: {done} · ล้มเหลว: {failed} (ลองใหม่เมื่อทำต่อ)",
+  'batch.fileTotal': "ไฟล์: {count}",
+  'batch.accuracy': "ความแม่นยำรายด้าน",
+  'batch.csv': "CSV",
+  'batch.report': "รายงาน",
+  'batch.domain': "ด้าน",
+  'batch.matrixHint': "บวกจริง / บวกลวง / ลบลวง / ลบจริง",
+  'batch.sensitivity': "ความไว",
+  'batch.specificity': "ความจำเพาะ",
+  'batch.correlation': "สหสัมพันธ์",
+  'batch.pointBiserialHint': "r แบบพอยต์ไบซีเรียลเทียบกับป้ายกำกับ ค่าลบหมายถึงคะแนนต่ำกว่าในกรณีที่เป็นบวก",
+  'batch.pearsonHint': "r ของเพียร์สันเทียบกับคะแนนอ้างอิง",
+  'batch.vsLabel': "เทียบป้ายกำกับ",
+  'batch.vsReference': "เทียบค่าอ้างอิง",
+  'batch.footnote': "ความไวและความจำเพาะคำนวณจากไฟล์ที่มีป้ายกำกับของด้านนั้น",
+};
+
+export default thTH;
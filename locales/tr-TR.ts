@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const trTR: Messages = {
+  // --- Common ---
+  'common.cancel': "İptal",
+  'common.backHome': "Ana sayfaya dön",
+  'common.microphoneRequired': "Mikrofon erişimi gerekli.",
+
+  // --- Recording checks ---
+  'audio.empty': "Kayıt başarısız (boş dosya).",
+  'audio.tooShort': "Kayıt çok kısa. Doğru analiz için en az {seconds} saniye gerekir.",
+  'audio.tooQuiet': "Kayıt çok sessiz. Daha yüksek sesle ya da mikrofona daha yakın konuşun.",
+  'audio.noSpeech': "Konuşma algılanmadı. Lütfen net konuşun.",
+  'audio.unreadable': "Ses dosyası doğrulanamadı.",
+  'audio.failed': "Kayıt başarısız.",
+  'quality.title': "Kayıt kontrolleri",
+  'quality.decodable': "Ses dosyası",
+  'quality.duration': "Süre",
+  'quality.speech': "Konuşma",
+  'quality.level': "Ses seviyesi",
+  'quality.snr': "Arka plan gürültüsü",
+  'quality.clipping': "Bozulma",
+  'quality.dc_offset': "Mikrofon kayması",
+  'quality.dropouts': "Kesintiler",
+  'quality.speechShort': "Yalnızca {seconds} sn konuşma algılandı; en az {minimum} sn gerekiyor. Süre dolana kadar konuşmaya devam edin.",
+  'quality.noisy': "Arka plan gürültüsü sesinize çok yakın (yalnızca {value} dB daha düşük). Vantilatör, trafik veya başka seslerden uzaklaşın.",
+  'quality.clipped': "Giriş çok yüksek olduğu için kayıt bozuldu. Mikrofondan biraz uzaklaşın.",
+  'quality.dcOffset': "Mikrofon sinyali merkezden kaymış; bu, arızalı bir mikrofona işaret edebilir. Tekrarlarsa başka bir mikrofon deneyin.",
+  'quality.dropout': "Ses {seconds} sn boyunca kesildi. Bluetooth veya USB bağlantılarını kontrol edip yeniden kaydedin.",
+
+  // --- Modals ---
+  'limit.title': "Günlük sınıra ulaşıldı",
+  'limit.body': "Hizmetin erişilebilir kalması ve araştırma maliyetlerinin yönetilmesi için kullanımı cihaz başına {quota} ile sınırlıyoruz.",
+  'limit.quota': "günde {limit} tarama",
+  'limit.resetsAt': "{time} itibarıyla yeni taramalar yapılabilir.",
+  'limit.sampleNote': "Örnek verilerle etkileşimli demoyu yine de keşfedebilirsiniz; bu sınırınıza sayılmaz.",
+  'limit.ok': "Anladım",
+  'account.title': "Hesap belirteci",
+  'account.hint': "Çalışmanızdan veya kuruluşunuzdan aldığınız bir hesap belirteci var mı? Bu cihazın yerine onun sınırlarını kullanmak için girin.",
+  'account.placeholder': "Belirtecinizi yapıştırın",
+  'account.save': "Belirteci Kullan",
+  'account.checking': "Kontrol ediliyor…",
+  'account.rejected': "Bu belirteç kabul edilmedi.",
+  'account.active': "Hesap belirteci kullanılıyor ({tier} katmanı)",
+  'account.remove': "Kaldır",
+  'usage.title': "Kullanım ve maliyet",
+  'usage.screening': "Bu tarama",
+  'usage.today': "Bugün bu cihazda",
+  'usage.recentDays': "Son günler",
+  'usage.empty': "Bu tarama için kayıtlı model çağrısı yok.",
+  'usage.call': "Çağrı",
+  'usage.calls': "Model çağrıları",
+  'usage.callCount': "{count} çağrı",
+  'usage.promptTokens': "Girdi tokenları",
+  'usage.outputTokens': "Çıktı tokenları",
+  'usage.totalTokens': "Toplam token",
+  'usage.audioTokens': "Ses tokenları",
+  'usage.imageTokens': "Görüntü tokenları",
+  'usage.estimatedCost': "Tahmini maliyet",
+  'usage.kind.analysis': "Analiz",
+  'usage.kind.chat': "Sohbet yanıtı",
+  'usage.kind.transcription': "Transkripsiyon",
+  'usage.unpriced': "{count} çağrı fiyat tablosunda olmayan bir model kullandı ve maliyeti hesaplanmadı.",
+  'usage.disclaimer': "Maliyetler milyon token başına liste fiyatlarından yapılan tahminlerdir, fatura değildir. Diğer cihazlarda veya kullanım takibinden önce yapılan çağrılar dahil değildir.",
+
+  'tech.title': "Teknik mimari",
+  'tech.models': "Kullanılan yapay zekâ modelleri",
+  'tech.flashDescription': "Ses (PCM) ve video karelerinin düşük gecikmeli çok modlu analizi.",
+  'tech.proDescription': "Klinik korelasyon ve eğilim analizi için karmaşık akıl yürütme.",
+  'tech.pipeline': "Veri hattı",
+  'tech.pipelineCapture': "Ham ses yakalama (WebM/PCM)",
+  'tech.pipelineEncoding': "İstemci tarafında Base64 kodlama",
+  'tech.pipelineRequest': "Gemini API çok modlu istek",
+  'tech.pipelineResponse': "Yapılandırılmış JSON yanıtı",
+  'tech.sampleRequest': "Örnek API isteği",
+  'tech.footer': "Nörolojide ses biyobelirteçlerinin akustik analizine ilişkin araştırma makalelerine dayanır.",
+
+  // --- Intro ---
+  'intro.badge': "Klinik doğrulamaya hazır",
+  'intro.tagline': "{model} destekli gelişmiş sağlık taraması.",
+  'intro.selectedLanguage': "Seçilen dil:",
+  'intro.watchDemo': "Demoyu izle",
+  'intro.start': "Taramayı başlat",
+  'intro.sample': "Örnek verilerle dene (anında)",
+  'intro.addProfile': "Profil ekle",
+  'intro.editProfile': "Profili düzenle",
+  'intro.trustedResearch': "Güvenilir araştırma",
+  'intro.privacyFirst': "Önce gizlilik",
+  'intro.secureProcessing': "Güvenli işleme",
+  'intro.viewArchitecture': "Mimariyi görüntüle",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Görev {step}/{total} · {task}",
+  'recording.getReady': "Hazırlanın",
+  'recording.listening': "Dinleniyor...",
+  'recording.goodVolume': "Ses seviyesi mükemmel",
+  'coach.tooLoud': "Mikrofonu biraz uzaklaştırın",
+  'coach.noisy': "Arka plan gürültüsü çok fazla",
+  'coach.tooFar': "Mikrofona yaklaşın",
+  'coach.silence': "Hazır olduğunuzda konuşmaya başlayın",
+  'recording.usableSpeech': "{target} sn'nin {seconds} sn'si kullanılabilir konuşma",
+  'recording.stopEarly': "Erken durdur",
+  'recording.start': "Kaydı başlat",
+  'recording.skipTask': "Bu görevi atla",
+
+  'task.sustained_vowel.label': "Uzatılmış ünlü",
+  'task.sustained_vowel.instruction': "Derin bir nefes alın, ardından rahat bir perde ve ses düzeyinde olabildiğince uzun \"aaa\" deyin.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Süre bitene kadar \"pa-ta-ka\" hecelerini olabildiğince hızlı ve net tekrarlayın.",
+  'task.reading.label': "Paragraf okuma",
+  'task.reading.instruction': "Bu paragrafı normal hızınızda yüksek sesle okuyun:",
+  'task.free_speech.label': "Serbest konuşma",
+  'task.free_speech.instruction': "Kendi sözlerinizle yanıtlayın:",
+  'task.vowelNoVoice': "Sabit bir ses algılanmadı. Fısıldamadan tek bir \"aaa\" sesini sürdürün.",
+  'task.vowelInterrupted': "Ses kesildi. Önce nefes alın, sonra \"aaa\" sesini tek nefeste sürdürün.",
+  'task.ddkTooFew': "Çok az hece algılandı. \"pa-ta-ka\" hecelerini durmadan ve olabildiğince hızlı tekrarlayın.",
+  'task.readingSilent': "Çoğunlukla sessizlik algılandı. Paragrafın tamamını baştan yüksek sesle okuyun.",
+
+  // --- Face capture ---
+  'face.title': "Yüz analizi eklensin mi?",
+  'face.body': "VitalVoice, doğruluğu %15'e kadar artırmak için yüz biyobelirteçlerini (solgunluk, dehidrasyon belirtileri, simetri) analiz edebilir.",
+  'face.enableCamera': "Kamerayı aç",
+  'face.skip': "Şimdilik atla",
+  'face.centerHint': "Yüzünüzü iyi ışıkta ortalayın",
+  'face.noFace': "Doğrudan kameraya bakın",
+  'face.moreLight': "Yüzünüze daha fazla ışık gelsin",
+  'face.lessLight': "Çok parlak: doğrudan ışıktan uzaklaşın",
+  'face.evenLight': "Arkanızdaki ışıktan ve sert gölgelerden kaçının",
+  'face.moveCloser': "Yaklaşın",
+  'face.moveBack': "Biraz geri çekilin",
+  'face.centre': "Yüzünüzü çerçevenin ortasına alın",
+  'face.holdStill': "Kıpırdamayın",
+  'face.neutralLight': "Nötr beyaz ışık kullanın",
+  'face.ready': "İyi görünüyor: fotoğrafı çekin",
+  'face.rejected': "Bu fotoğraf kullanılamaz. {reason}",
+  'face.cameraNotReady': "Kamera hâlâ açılıyor. Birazdan tekrar deneyin.",
+  'face.captureFailed': "Fotoğraf kontrol edilemedi. Tekrar deneyin veya bu adımı atlayın.",
+
+  // --- Upload ---
+  'upload.title': "Veri yükle",
+  'upload.voiceLabel': "Ses örneği (zorunlu)",
+  'upload.tapToChange': "Değiştirmek için dokunun",
+  'upload.selectAudio': "Ses dosyası seç",
+  'upload.audioFormats': "MP3, WAV, M4A desteklenir",
+  'upload.imageLabel': "Yüz fotoğrafı (isteğe bağlı)",
+  'upload.preview': "Önizleme",
+  'upload.imageSelected': "Görsel seçildi",
+  'upload.selectImage': "Görsel seç",
+  'upload.imageFormats': "JPG, PNG desteklenir",
+  'upload.analyze': "Verileri analiz et",
+  'upload.batch': "Veri kümesini doğrula (toplu)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Sağlık verileri işleniyor",
+  'analyzing.step1': "Ses biyobelirteçleri çıkarılıyor...",
+  'analyzing.step2': "Konuşma örüntüleri analiz ediliyor...",
+  'analyzing.step3': "Ses özellikleri değerlendiriliyor...",
+  'analyzing.step4': "Çok modlu verilerle eşleştiriliyor...",
+  'analyzing.step5': "Kişisel öneriler hazırlanıyor...",
+  'analyzing.retrying': "Bağlantı sorunu, yeniden deneniyor (deneme {attempt})...",
+  'analyzing.footer': "Güvenli ortamda işleniyor",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Hizmet yoğun",
+  'error.safety.title': "Analiz engellendi",
+  'error.network.title': "Bağlantı sorunu",
+  'error.invalid_input.title': "Kayıt okunamadı",
+  'error.malformed_output.title': "Eksik analiz",
+  'error.quota': "Analiz hizmeti şu anda tam kapasitede. Birkaç dakika bekleyip tekrar deneyin.",
+  'error.safety': "İçerik güvenlik filtreleri analizi engelledi. Arka planda medya ya da başka sesler olmadan yeniden kaydedin.",
+  'error.network': "Analiz hizmetine ulaşılamadı. Bağlantınızı kontrol edip tekrar deneyin.",
+  'error.invalidInput': "Kayıt işlenemedi. Yeniden kaydedin veya başka bir dosya seçin.",
+  'error.malformedOutput': "Analiz eksik döndü. Lütfen tekrar deneyin.",
+  'error.cancelled': "Analiz iptal edildi.",
+  'error.unknown': "Analiz sırasında bir sorun oluştu. Lütfen tekrar deneyin.",
+  'error.retry': "Tekrar dene",
+  'error.recordAgain': "Yeniden kaydet",
+  'error.chooseFile': "Başka dosya seç",
+  'error.viewSample': "Örnek sonuçları gör",
+  'error.keptRecording': "Kaydınız saklandı, yeniden kaydetmenize gerek yok.",
+  'error.keptFile': "Dosyanız saklandı, yeniden yüklemenize gerek yok.",
+
+  // --- Results ---
+  'results.newScan': "Yeni tarama",
+  'results.history': "Geçmiş",
+  'results.usage': "Kullanım",
+  'results.exportPdf': "PDF dışa aktar",
+  'results.exportFhir': "FHIR dışa aktar",
+  'results.exportFhirFailed': "FHIR dışa aktarımı oluşturulamadı. Tekrar deneyin veya bunun yerine PDF dışa aktarın.",
+  'results.exportJson': "JSON dışa aktar",
+  'results.includeMedia': "Kaydı ve fotoğrafı dahil et",
+  'results.includeMediaHint': "Dosya sesinizi ve yüzünüzü içerecek. Yalnızca güvendiğiniz kişilerle paylaşın.",
+  'results.download': "İndir",
+  'results.overallScore': "Genel sağlıklı yaşam puanı",
+  'results.confidence': "Güven: {level}",
+  'results.summary': "Özet",
+  'results.recommendations': "Öneriler",
+  'results.trends': "Eğilimler",
+  'results.improving': "İyileşiyor",
+  'results.stable': "Sabit",
+  'results.needsAttention': "Dikkat gerektiriyor",
+  'results.firstScreening': "Bu, kaydedilmiş ilk taramanız. Eğilimleri görmek için daha sonra yeniden tarama yapın.",
+  'results.profileNoChange': "Profiliniz dikkate alındı ancak bu sonuçların yorumunu değiştirmedi.",
+  'results.voiceTasks': "Ses görevleri",
+  'results.disclaimer': "Bu bir tarama aracıdır, tıbbi tanı değildir. Endişeleriniz için bir sağlık uzmanına danışın.",
+
+  'report.title': "Klinik Tarama Raporu",
+  'report.scoreOverview': "Puan Özeti",
+  'report.concernLevel': "Endişe düzeyi",
+  'report.capturedImage': "Çekilen görüntü",
+  'report.domainAnalysis': "Alan Analizi",
+  'report.comparedWith': "Yüzdelikler şununla karşılaştırıldı: {cohort}",
+  'report.scoreTrends': "Puan Eğilimleri",
+  'report.keyObservations': "Önemli Gözlemler",
+  'report.significance': "Önemi:",
+  'report.reason': "Neden:",
+  'report.disclaimer': "SORUMLULUK REDDİ:",
+  'report.page': "Sayfa {page} / {count}",
+  'report.generatedBy': "Gemini destekli VitalVoice AI tarafından oluşturuldu",
+
+  'confidence.low': "Düşük",
+  'confidence.medium': "Orta",
+  'confidence.high': "Yüksek",
+  'concern.low': "Düşük",
+  'concern.moderate': "Orta",
+  'concern.elevated': "Artmış",
+  'concern.high': "Yüksek",
+  'urgency.routine': "Rutin",
+  'urgency.soon': "Yakında",
+  'urgency.prompt': "Acil",
+
+  'domain.neurological': "Nörolojik",
+  'domain.mental_health': "Ruh sağlığı",
+  'domain.respiratory': "Solunum",
+  'domain.cardiovascular': "Kardiyovasküler",
+  'domain.metabolic': "Metabolik",
+  'domain.hydration': "Hidrasyon",
+  'domain.sleep_fatigue': "Uyku ve yorgunluk",
+  'domain.cognitive_load': "Bilişsel yük",
+
+  'card.median': "Medyan: {value}",
+  'card.percentile': "{value}. yüzdelik",
+  'card.noNorms': "Referans norm yok",
+  'card.fromTask': "{task} görevinden",
+
+  'cohort.women': "Kadınlar {band}",
+  'cohort.men': "Erkekler {band}",
+  'cohort.adults': "Yetişkinler {band}",
+  'cohort.allWomen': "Tüm kadınlar",
+  'cohort.allMen': "Tüm erkekler",
+  'cohort.allAdults': "Tüm yetişkinler",
+
+  'biomarkers.title': "Ölçülen biyobelirteçler",
+  'biomarkers.computed': "Bu cihazda {seconds} saniyelik sesten hesaplandı.",
+  'biomarkers.f0Mean': "Ortalama perde (F0)",
+  'biomarkers.pitchRange': "Perde aralığı",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Harmonik-gürültü oranı",
+  'biomarkers.pauseRatio': "Duraklama oranı",
+  'biomarkers.syllableRate': "Hece hızı",
+
+  // --- Chat ---
+  'chat.title': "VitalVoice Asistanı",
+  'chat.limitReached': "Oturum sınırına ulaşıldı",
+  'chat.remaining': "Kalan mesaj: {count}",
+  'chat.clear': "Sohbeti temizle",
+  'chat.empty': "Herhangi bir tıbbi terimi açıklamamı ya da daha fazla sağlıklı yaşam önerisi vermemi isteyin!",
+  'chat.transcribing': "Yazıya dökülüyor…",
+  'chat.noTranscript': "Döküm yok, bu yüzden sonraki yanıtlar bu mesajı görmeyecek",
+  'chat.interrupted': "Yanıt kesildi",
+  'chat.locked': "Bu oturumun sohbet sınırına ulaşıldı. Konuşmaya devam etmek için analizi yeniden başlatın.",
+  'chat.placeholder': "Bir mesaj yazın...",
+  'chat.stop': "Yanıt üretmeyi durdur",
+  'chat.stopped': "*Yanıt durduruldu.*",
+  'chat.noResponse': "Bu yanıt işlenemedi.",
+  'chat.connectionError': "Şu anda VitalVoice sunucularına bağlanmakta sorun yaşıyorum. Lütfen tekrar deneyin.",
+
+  // --- History ---
+  'history.title': "Tarama geçmişi",
+  'history.empty': "Henüz kaydedilmiş tarama yok. Tamamlanan taramalar bu cihazda saklanır.",
+  'history.delete': "Taramayı sil",
+  'history.import': "İçe aktar",
+  'history.exportCsv': "CSV dışa aktar",
+  'history.importFailed': "Bu dosya içe aktarılamadı. VitalVoice'tan dışa aktarılmış bir JSON dosyası seçin.",
+  'history.notAnExport': "Bu dosya bir VitalVoice tarama dışa aktarımı değil.",
+
+  // --- Profile ---
+  'profile.title': "Profiliniz",
+  'profile.intro': "Tüm alanlar isteğe bağlıdır. Yanıtlarınız sesinizi yorumlamaya, örneğin yaşınız için hangi perdenin olağan olduğunu anlamaya yardımcı olur ve puanlarınızın kimlerle karşılaştırılacağını belirler. Yalnızca bu cihazda saklanır.",
+  'profile.age': "Yaş",
+  'profile.agePlaceholder': "ör. 52",
+  'profile.ageInvalid': "18 ile 120 arasında bir yaş girin.",
+  'profile.sexAtBirth': "Doğumda atanan cinsiyet",
+  'profile.notSpecified': "Belirtilmedi",
+  'profile.female': "Kadın",
+  'profile.male': "Erkek",
+  'profile.smoking': "Sigara",
+  'profile.never': "Hiç",
+  'profile.former': "Bırakmış",
+  'profile.current': "Halen",
+  'profile.respiratory': "Bilinen solunum hastalıkları",
+  'profile.respiratoryPlaceholder': "ör. astım, KOAH",
+  'profile.neurological': "Bilinen nörolojik hastalıklar",
+  'profile.neurologicalPlaceholder': "ör. migren, Parkinson hastalığı",
+  'profile.medications': "Kullanılan ilaçlar",
+  'profile.medicationsPlaceholder': "Virgülle ayırın",
+  'profile.clear': "Profili temizle",
+  'profile.save': "Kaydet",
+
+  'profileField.age': "Yaş",
+  'profileField.sexAtBirth': "Doğumda atanan cinsiyet",
+  'profileField.smoker': "Sigara",
+  'profileField.respiratoryConditions': "Solunum hastalıkları",
+  'profileField.neurologicalConditions': "Nörolojik hastalıklar",
+  'profileField.medications': "İlaçlar",
+
+  // --- Batch validation ---
+  'batch.title': "Toplu doğrulama",
+  'batch.intro': "Bir kayıt klasörünü, doğru etiketleri içeren bir CSV manifestine göre analiz edin. Manifestte bir {file} sütunu ve her alan kimliği için bir sütun (1 = durum var, 0 = yok) gerekir; isteğe bağlı {score} referans puanları da eklenebilir. İlerleme kaydedilir, böylece kesilen bir çalıştırma kaldığı yerden devam eder.",
+  'batch.selectFolder': "Ses klasörü seç",
+  'batch.audioFiles': "Ses dosyası: {count}",
+  'batch.selectManifest': "CSV manifesti seç",
+  'batch.manifestSummary': "Satır: {rows} · Alan: {domains}",
+  'batch.manifestUnreadable': "Manifest okunamadı.",
+  'batch.manifestEmpty': "Manifest boş.",
+  'batch.manifestNoFileColumn': "Manifest, her ses dosyasının adını içeren bir {file} sütunu gerektirir.",
+  'batch.manifestNoDomains': "Manifestte alan sütunu yok. Sütunlara alan kimliğiyle ad verin, ör. {label} veya {score}.",
+  'batch.manifestNoRows': "Manifestte hiç dosya yok.",
+  'batch.ignoredColumn': "\"{column}\" sütunu yok sayıldı: alan kimliği değil.",
+  'batch.noFileName': "Satır {line}: dosya adı yok, atlandı.",
+  'batch.duplicateFile': "Satır {line}: \"{file}\" iki kez listelenmiş, yalnızca ilk satır kullanılıyor.",
+  'batch.invalidLabel': "Satır {line}: \"{value}\", {domain} için bir etiket değil, boş bırakıldı.",
+  'batch.invalidScore': "Satır {line}: \"{value}\", {column} için bir sayı değil, boş bırakıldı.",
+  'batch.missingFiles': "Klasörde bulunmayan manifest dosyaları: {count}",
+  'batch.warnings': "Manifest uyarıları",
+  'batch.warningCount': "Uyarı: {count}",
+  'batch.missing': "Eksik: {file}",
+  'batch.parallel': "Paralel istekler",
+  'batch.startOver': "Baştan başla",
+  'batch.resume': "Devam et ({count} kaldı)",
+  'batch.run': "Tüm dosyaları çalıştır ({count})",
+  'batch.stop': "Durdur",
+  'batch.stopping': "Durduruluyor…",
+  'batch.progress': "Analiz edilen: {done} · Başarısız: {failed} (devam edildiğinde yeniden denenir)",
+  'batch.fileTotal': "Dosya: {count}",
+  'batch.accuracy': "Alan bazında doğruluk",
+  'batch.csv': "CSV",
+  'batch.report': "Rapor",
+  'batch.domain': "Alan",
+  'batch.matrixHint': "gerçek pozitif / yanlış pozitif / yanlış negatif / gerçek negatif",
+  'batch.sensitivity': "Duyarlılık",
+  'batch.specificity': "Özgüllük",
+  'batch.correlation': "Korelasyon",
+  'batch.pointBiserialHint': "Etikete karşı nokta-çift serili r; negatif değer pozitif vakalarda daha düşük puan demektir",
+  'batch.pearsonHint': "Referans puana karşı Pearson r",
+  'batch.vsLabel': "etikete karşı",
+  'batch.vsReference': "referansa karşı",
+  'batch.footnote': "Duyarlılık ve özgüllük, o alan için etiketi olan dosyalardan hesaplanır.",
+};
+
+export default trTR;
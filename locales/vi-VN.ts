@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const viVN: Messages = {
+  // --- Common ---
+  'common.cancel': "Hủy",
+  'common.backHome': "Về trang chủ",
+  'common.microphoneRequired': "Cần quyền truy cập micrô.",
+
+  // --- Recording checks ---
+  'audio.empty': "Ghi âm thất bại (tệp trống).",
+  'audio.tooShort': "Bản ghi quá ngắn. Cần ít nhất {seconds} giây để phân tích chính xác.",
+  'audio.tooQuiet': "Bản ghi quá nhỏ. Hãy nói to hơn hoặc lại gần micrô.",
+  'audio.noSpeech': "Không phát hiện giọng nói. Vui lòng nói rõ ràng.",
+  'audio.unreadable': "Không thể kiểm tra tệp âm thanh.",
+  'audio.failed': "Ghi âm thất bại.",
+  'quality.title': "Kiểm tra bản ghi",
+  'quality.decodable': "Tệp âm thanh",
+  'quality.duration': "Độ dài",
+  'quality.speech': "Lời nói",
+  'quality.level': "Mức âm giọng",
+  'quality.snr': "Tiếng ồn nền",
+  'quality.clipping': "Méo tiếng",
+  'quality.dc_offset': "Lệch micrô",
+  'quality.dropouts': "Mất tiếng",
+  'quality.speechShort': "Chỉ phát hiện {seconds} giây lời nói; cần ít nhất {minimum} giây. Hãy tiếp tục nói cho đến khi hết giờ.",
+  'quality.noisy': "Tiếng ồn nền quá gần giọng của bạn (chỉ nhỏ hơn {value} dB). Hãy tránh xa quạt, xe cộ hoặc giọng nói khác.",
+  'quality.clipped': "Bản ghi bị méo vì âm đầu vào quá lớn. Hãy lùi xa micrô một chút.",
+  'quality.dcOffset': "Tín hiệu micrô bị lệch tâm, có thể do micrô bị lỗi. Hãy thử micrô khác nếu tình trạng này lặp lại.",
+  'quality.dropout': "Âm thanh bị mất trong {seconds} giây. Hãy kiểm tra kết nối Bluetooth hoặc USB rồi ghi lại.",
+
+  // --- Modals ---
+  'limit.title': "Đã đạt giới hạn hằng ngày",
+  'limit.body': "Để duy trì dịch vụ và kiểm soát chi phí nghiên cứu, chúng tôi giới hạn mức sử dụng ở {quota} cho mỗi thiết bị.",
+  'limit.quota': "{limit} lần sàng lọc mỗi ngày",
+  'limit.resetsAt': "Bạn có thể sàng lọc tiếp từ {time}.",
+  'limit.sampleNote': "Bạn vẫn có thể khám phá bản demo tương tác với dữ liệu mẫu, không tính vào giới hạn.",
+  'limit.ok': "Đã hiểu",
+  'account.title': "Mã tài khoản",
+  'account.hint': "Bạn có mã tài khoản từ nghiên cứu hoặc tổ chức của mình? Nhập mã để dùng giới hạn của nó thay cho giới hạn của thiết bị này.",
+  'account.placeholder': "Dán mã của bạn",
+  'account.save': "Dùng mã",
+  'account.checking': "Đang kiểm tra…",
+  'account.rejected': "Mã này không được chấp nhận.",
+  'account.active': "Đang dùng mã tài khoản (cấp {tier})",
+  'account.remove': "Xóa",
+  'usage.title': "Mức sử dụng và chi phí",
+  'usage.screening': "Lần sàng lọc này",
+  'usage.today': "Hôm nay trên thiết bị này",
+  'usage.recentDays': "Những ngày gần đây",
+  'usage.empty': "Chưa ghi nhận lệnh gọi mô hình nào cho lần sàng lọc này.",
+  'usage.call': "Lệnh gọi",
+  'usage.calls': "Lệnh gọi mô hình",
+  'usage.callCount': "{count} lệnh gọi",
+  'usage.promptTokens': "Token đầu vào",
+  'usage.outputTokens': "Token đầu ra",
+  'usage.totalTokens': "Tổng số token",
+  'usage.audioTokens': "Token âm thanh",
+  'usage.imageTokens': "Token hình ảnh",
+  'usage.estimatedCost': "Chi phí ước tính",
+  'usage.kind.analysis': "Phân tích",
+  'usage.kind.chat': "Trả lời trò chuyện",
+  'usage.kind.transcription': "Chép lời",
+  'usage.unpriced': "{count} lệnh gọi dùng mô hình không có trong bảng giá nên chưa được tính chi phí.",
+  'usage.disclaimer': "Chi phí là ước tính theo giá niêm yết trên mỗi triệu token, không phải hóa đơn. Không bao gồm lệnh gọi trên thiết bị khác hoặc trước khi bắt đầu theo dõi.",
+
+  'tech.title': "Kiến trúc kỹ thuật",
+  'tech.models': "Các mô hình AI được dùng",
+  'tech.flashDescription': "Phân tích đa phương thức độ trễ thấp cho âm thanh (PCM) và khung hình video.",
+  'tech.proDescription': "Suy luận phức tạp cho tương quan lâm sàng và phân tích xu hướng.",
+  'tech.pipeline': "Luồng dữ liệu",
+  'tech.pipelineCapture': "Thu âm thanh thô (WebM/PCM)",
+  'tech.pipelineEncoding': "Mã hóa Base64 phía máy khách",
+  'tech.pipelineRequest': "Yêu cầu đa phương thức tới Gemini API",
+  'tech.pipelineResponse': "Phản hồi JSON có cấu trúc",
+  'tech.sampleRequest': "Ví dụ yêu cầu API",
+  'tech.footer': "Dựa trên các bài báo nghiên cứu về phân tích âm học các dấu ấn sinh học giọng nói trong thần kinh học.",
+
+  // --- Intro ---
+  'intro.badge': "Sẵn sàng cho thẩm định lâm sàng",
+  'intro.tagline': "Sàng lọc sức khỏe nâng cao, vận hành bởi {model}.",
+  'intro.selectedLanguage': "Ngôn ngữ đã chọn:",
+  'intro.watchDemo': "Xem demo",
+  'intro.start': "Bắt đầu sàng lọc",
+  'intro.sample': "Thử với dữ liệu mẫu (tức thì)",
+  'intro.addProfile': "Thêm hồ sơ",
+  'intro.editProfile': "Sửa hồ sơ",
+  'intro.trustedResearch': "Nghiên cứu đáng tin cậy",
+  'intro.privacyFirst': "Quyền riêng tư là trên hết",
+  'intro.secureProcessing': "Xử lý an toàn",
+  'intro.viewArchitecture': "Xem kiến trúc",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "Bài {step}/{total} · {task}",
+  'recording.getReady': "Chuẩn bị",
+  'recording.listening': "Đang nghe...",
+  'recording.goodVolume': "Âm lượng rất tốt",
+  'coach.tooLoud': "Đưa micrô ra xa hơn một chút",
+  'coach.noisy': "Tiếng ồn xung quanh quá lớn",
+  'coach.tooFar': "Hãy lại gần micrô hơn",
+  'coach.silence': "Hãy bắt đầu nói khi bạn sẵn sàng",
+  'recording.usableSpeech': "{seconds}/{target} giây giọng nói dùng được",
+  'recording.stopEarly': "Dừng sớm",
+  'recording.start': "Bắt đầu ghi âm",
+  'recording.skipTask': "Bỏ qua bài này",
+
+  'task.sustained_vowel.label': "Nguyên âm kéo dài",
+  'task.sustained_vowel.instruction': "Hít sâu, rồi nói \"aaa\" càng lâu càng tốt với cao độ và âm lượng thoải mái.",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "Lặp lại \"pa-ta-ka\" càng nhanh và rõ càng tốt cho đến khi hết giờ.",
+  'task.reading.label': "Đọc đoạn văn",
+  'task.reading.instruction': "Đọc to đoạn văn này với tốc độ bình thường của bạn:",
+  'task.free_speech.label': "Nói tự do",
+  'task.free_speech.instruction': "Trả lời bằng lời của bạn:",
+  'task.vowelNoVoice': "Không phát hiện giọng ổn định. Giữ một âm \"aaa\" liên tục, không nói thì thầm.",
+  'task.vowelInterrupted': "Âm bị ngắt quãng. Hãy hít thở trước, rồi giữ \"aaa\" trong một hơi.",
+  'task.ddkTooFew': "Phát hiện quá ít âm tiết. Lặp lại \"pa-ta-ka\" liên tục và nhanh nhất có thể.",
+  'task.readingSilent': "Phần lớn là im lặng. Hãy đọc to toàn bộ đoạn văn từ đầu.",
+
+  // --- Face capture ---
+  'face.title': "Thêm phân tích khuôn mặt?",
+  'face.body': "VitalVoice có thể phân tích dấu ấn sinh học khuôn mặt (nhợt nhạt, dấu hiệu mất nước, độ cân đối) để tăng độ chính xác tới 15%.",
+  'face.enableCamera': "Bật camera",
+  'face.skip': "Bỏ qua lúc này",
+  'face.centerHint': "Đặt khuôn mặt ở giữa, đủ ánh sáng",
+  'face.noFace': "Nhìn thẳng vào camera",
+  'face.moreLight': "Thêm ánh sáng lên khuôn mặt",
+  'face.lessLight': "Quá sáng: tránh ánh sáng chiếu trực tiếp",
+  'face.evenLight': "Tránh ánh sáng sau lưng hoặc bóng đổ gắt",
+  'face.moveCloser': "Lại gần hơn",
+  'face.moveBack': "Lùi lại một chút",
+  'face.centre': "Đặt khuôn mặt vào giữa khung hình",
+  'face.holdStill': "Giữ yên",
+  'face.neutralLight': "Dùng ánh sáng trắng trung tính",
+  'face.ready': "Đã ổn: hãy chụp ảnh",
+  'face.rejected': "Không thể dùng ảnh này. {reason}",
+  'face.cameraNotReady': "Camera vẫn đang khởi động. Hãy thử lại sau giây lát.",
+  'face.captureFailed': "Không thể kiểm tra ảnh. Hãy thử lại hoặc bỏ qua bước này.",
+
+  // --- Upload ---
+  'upload.title': "Tải dữ liệu lên",
+  'upload.voiceLabel': "Mẫu giọng nói (bắt buộc)",
+  'upload.tapToChange': "Chạm để thay đổi",
+  'upload.selectAudio': "Chọn tệp âm thanh",
+  'upload.audioFormats': "Hỗ trợ MP3, WAV, M4A",
+  'upload.imageLabel': "Ảnh khuôn mặt (tùy chọn)",
+  'upload.preview': "Xem trước",
+  'upload.imageSelected': "Đã chọn ảnh",
+  'upload.selectImage': "Chọn ảnh",
+  'upload.imageFormats': "Hỗ trợ JPG, PNG",
+  'upload.analyze': "Phân tích dữ liệu",
+  'upload.batch': "Thẩm định bộ dữ liệu (hàng loạt)",
+
+  // --- Analyzing ---
+  'analyzing.title': "Đang xử lý dữ liệu sức khỏe",
+  'analyzing.step1': "Đang trích xuất dấu ấn sinh học giọng nói...",
+  'analyzing.step2': "Đang phân tích mẫu lời nói...",
+  'analyzing.step3': "Đang đánh giá đặc điểm giọng...",
+  'analyzing.step4': "Đang đối chiếu dữ liệu đa phương thức...",
+  'analyzing.step5': "Đang tạo khuyến nghị cá nhân...",
+  'analyzing.retrying': "Sự cố kết nối, đang thử lại (lần {attempt})...",
+  'analyzing.footer': "Xử lý trong môi trường an toàn",
+
+  // --- Analysis errors ---
+  'error.quota.title': "Dịch vụ đang bận",
+  'error.safety.title': "Phân tích bị chặn",
+  'error.network.title': "Sự cố kết nối",
+  'error.invalid_input.title': "Không đọc được bản ghi",
+  'error.malformed_output.title': "Phân tích chưa đầy đủ",
+  'error.quota': "Dịch vụ phân tích đang quá tải. Hãy chờ vài phút rồi thử lại.",
+  'error.safety': "Bộ lọc an toàn nội dung đã chặn phân tích. Hãy ghi lại mà không có âm thanh nền hay giọng người khác.",
+  'error.network': "Không kết nối được dịch vụ phân tích. Kiểm tra kết nối rồi thử lại.",
+  'error.invalidInput': "Không thể xử lý bản ghi. Hãy ghi lại hoặc chọn tệp khác.",
+  'error.malformedOutput': "Kết quả phân tích không đầy đủ. Vui lòng thử lại.",
+  'error.cancelled': "Đã hủy phân tích.",
+  'error.unknown': "Đã xảy ra lỗi trong quá trình phân tích. Vui lòng thử lại.",
+  'error.retry': "Thử lại",
+  'error.recordAgain': "Ghi lại",
+  'error.chooseFile': "Chọn tệp khác",
+  'error.viewSample': "Xem kết quả mẫu",
+  'error.keptRecording': "Bản ghi của bạn vẫn được giữ, không cần ghi lại.",
+  'error.keptFile': "Tệp của bạn vẫn được giữ, không cần tải lên lại.",
+
+  // --- Results ---
+  'results.newScan': "Sàng lọc mới",
+  'results.history': "Lịch sử",
+  'results.usage': "Mức sử dụng",
+  'results.exportPdf': "Xuất PDF",
+  'results.exportFhir': "Xuất FHIR",
+  'results.exportFhirFailed': "Không thể tạo tệp FHIR. Hãy thử lại hoặc xuất PDF thay thế.",
+  'results.exportJson': "Xuất JSON",
+  'results.includeMedia': "Bao gồm bản ghi âm và ảnh",
+  'results.includeMediaHint': "Tệp sẽ chứa giọng nói và khuôn mặt của bạn. Chỉ chia sẻ với người bạn tin tưởng.",
+  'results.download': "Tải xuống",
+  'results.overallScore': "Điểm sức khỏe tổng thể",
+  'results.confidence': "Độ tin cậy: {level}",
+  'results.summary': "Tóm tắt",
+  'results.recommendations': "Khuyến nghị",
+  'results.trends': "Xu hướng",
+  'results.improving': "Đang cải thiện",
+  'results.stable': "Ổn định",
+  'results.needsAttention': "Cần chú ý",
+  'results.firstScreening': "Đây là lần sàng lọc đầu tiên được lưu. Hãy sàng lọc lại sau để xem xu hướng.",
+  'results.profileNoChange': "Hồ sơ của bạn đã được xem xét nhưng không làm thay đổi cách diễn giải kết quả này.",
+  'results.voiceTasks': "Bài giọng nói",
+  'results.disclaimer': "Đây là công cụ sàng lọc, không phải chẩn đoán y khoa. Hãy hỏi ý kiến chuyên gia y tế về bất kỳ lo ngại nào.",
+
+  'report.title': "Báo cáo sàng lọc lâm sàng",
+  'report.scoreOverview': "Tổng quan điểm số",
+  'report.concernLevel': "Mức độ lo ngại",
+  'report.capturedImage': "Ảnh đã chụp",
+  'report.domainAnalysis': "Phân tích theo lĩnh vực",
+  'report.comparedWith': "Bách phân vị so với: {cohort}",
+  'report.scoreTrends': "Xu hướng điểm số",
+  'report.keyObservations': "Nhận xét chính",
+  'report.significance': "Ý nghĩa:",
+  'report.reason': "Lý do:",
+  'report.disclaimer': "TUYÊN BỐ MIỄN TRỪ:",
+  'report.page': "Trang {page}/{count}",
+  'report.generatedBy': "Tạo bởi VitalVoice AI sử dụng Gemini",
+
+  'confidence.low': "Thấp",
+  'confidence.medium': "Trung bình",
+  'confidence.high': "Cao",
+  'concern.low': "Thấp",
+  'concern.moderate': "Vừa phải",
+  'concern.elevated': "Tăng cao",
+  'concern.high': "Cao",
+  'urgency.routine': "Định kỳ",
+  'urgency.soon': "Sớm",
+  'urgency.prompt': "Khẩn",
+
+  'domain.neurological': "Thần kinh",
+  'domain.mental_health': "Sức khỏe tâm thần",
+  'domain.respiratory': "Hô hấp",
+  'domain.cardiovascular': "Tim mạch",
+  'domain.metabolic': "Chuyển hóa",
+  'domain.hydration': "Cấp nước",
+  'domain.sleep_fatigue': "Giấc ngủ & mệt mỏi",
+  'domain.cognitive_load': "Tải nhận thức",
+
+  'card.median': "Trung vị: {value}",
+  'card.percentile': "Bách phân vị thứ {value}",
+  'card.noNorms': "Không có chuẩn tham chiếu",
+  'card.fromTask': "Từ bài {task}",
+
+  'cohort.women': "Nữ {band}",
+  'cohort.men': "Nam {band}",
+  'cohort.adults': "Người lớn {band}",
+  'cohort.allWomen': "Tất cả nữ",
+  'cohort.allMen': "Tất cả nam",
+  'cohort.allAdults': "Tất cả người lớn",
+
+  'biomarkers.title': "Dấu ấn sinh học đo được",
+  'biomarkers.computed': "Tính trên thiết bị này từ {seconds} giây âm thanh.",
+  'biomarkers.f0Mean': "Cao độ trung bình (F0)",
+  'biomarkers.pitchRange': "Dải cao độ",
+  'biomarkers.jitter': "Jitter",
+  'biomarkers.shimmer': "Shimmer",
+  'biomarkers.hnr': "Tỷ lệ hài âm trên nhiễu",
+  'biomarkers.pauseRatio': "Tỷ lệ ngắt nghỉ",
+  'biomarkers.syllableRate': "Tốc độ âm tiết",
+
+  // --- Chat ---
+  'chat.title': "Trợ lý VitalVoice",
+  'chat.limitReached': "Đã đạt giới hạn phiên",
+  'chat.remaining': "Tin nhắn còn lại: {count}",
+  'chat.clear': "Xóa cuộc trò chuyện",
+  'chat.empty': "Hãy nhờ tôi giải thích bất kỳ thuật ngữ y khoa nào hoặc gợi ý thêm mẹo chăm sóc sức khỏe!",
+  'chat.transcribing': "Đang chép lời…",
+  'chat.noTranscript': "Không có bản chép lời nên các câu trả lời sau sẽ không thấy tin nhắn này",
+  'chat.interrupted': "Câu trả lời bị gián đoạn",
+  'chat.locked': "Đã đạt giới hạn trò chuyện của phiên này. Hãy bắt đầu lại phân tích để tiếp tục.",
+  'chat.placeholder': "Nhập tin nhắn...",
+  'chat.stop': "Dừng tạo câu trả lời",
+  'chat.stopped': "*Đã dừng phản hồi.*",
+  'chat.noResponse': "Tôi không thể xử lý phản hồi đó.",
+  'chat.connectionError': "Hiện tôi đang gặp sự cố khi kết nối tới máy chủ VitalVoice. Vui lòng thử lại.",
+
+  // --- History ---
+  'history.title': "Lịch sử sàng lọc",
+  'history.empty': "Chưa có lần sàng lọc nào được lưu. Các lần sàng lọc hoàn tất sẽ được lưu trên thiết bị này.",
+  'history.delete': "Xóa lần sàng lọc",
+  'history.import': "Nhập",
+  'history.exportCsv': "Xuất CSV",
+  'history.importFailed': "Không thể nhập tệp này. Hãy chọn tệp JSON được xuất từ VitalVoice.",
+  'history.notAnExport': "Tệp này không phải là bản xuất sàng lọc của VitalVoice.",
+
+  // --- Profile ---
+  'profile.title': "Hồ sơ của bạn",
+  'profile.intro': "Mọi trường đều không bắt buộc. Câu trả lời giúp diễn giải giọng nói của bạn, chẳng hạn cao độ thông thường ở độ tuổi của bạn, và quyết định nhóm người được dùng để so sánh điểm số. Dữ liệu chỉ được lưu trên thiết bị này.",
+  'profile.age': "Tuổi",
+  'profile.agePlaceholder': "vd. 52",
+  'profile.ageInvalid': "Nhập tuổi từ 18 đến 120.",
+  'profile.sexAtBirth': "Giới tính khi sinh",
+  'profile.notSpecified': "Không nêu",
+  'profile.female': "Nữ",
+  'profile.male': "Nam",
+  'profile.smoking': "Hút thuốc",
+  'profile.never': "Chưa bao giờ",
+  'profile.former': "Đã bỏ",
+  'profile.current': "Hiện tại",
+  'profile.respiratory': "Bệnh hô hấp đã biết",
+  'profile.respiratoryPlaceholder': "vd. hen suyễn, COPD",
+  'profile.neurological': "Bệnh thần kinh đã biết",
+  'profile.neurologicalPlaceholder': "vd. đau nửa đầu, bệnh Parkinson",
+  'profile.medications': "Thuốc đang dùng",
+  'profile.medicationsPlaceholder': "Phân tách bằng dấu phẩy",
+  'profile.clear': "Xóa hồ sơ",
+  'profile.save': "Lưu",
+
+  'profileField.age': "Tuổi",
+  'profileField.sexAtBirth': "Giới tính khi sinh",
+  'profileField.smoker': "Hút thuốc",
+  'profileField.respiratoryConditions': "Bệnh hô hấp",
+  'profileField.neurologicalConditions': "Bệnh thần kinh",
+  'profileField.medications': "Thuốc",
+
+  // --- Batch validation ---
+  'batch.title': "Thẩm định hàng loạt",
+  'batch.intro': "Phân tích một thư mục bản ghi dựa trên tệp kê khai CSV chứa nhãn chuẩn. Tệp kê khai cần cột {file} và một cột cho mỗi id lĩnh vực (1 = có tình trạng, 0 = không), cùng điểm tham chiếu {score} tùy chọn. Tiến độ được lưu nên lần chạy bị gián đoạn sẽ tiếp tục từ chỗ đã dừng.",
+  'batch.selectFolder': "Chọn thư mục âm thanh",
+  'batch.audioFiles': "Tệp âm thanh: {count}",
+  'batch.selectManifest': "Chọn tệp kê khai CSV",
+  'batch.manifestSummary': "Hàng: {rows} · Lĩnh vực: {domains}",
+  'batch.manifestUnreadable': "Không đọc được tệp kê khai.",
+  'batch.manifestEmpty': "Tệp kê khai trống.",
+  'batch.manifestNoFileColumn': "Tệp kê khai cần có cột {file} ghi tên từng tệp âm thanh.",
+  'batch.manifestNoDomains': "Tệp kê khai không có cột lĩnh vực. Đặt tên cột theo mã lĩnh vực, ví dụ {label} hoặc {score}.",
+  'batch.manifestNoRows': "Tệp kê khai không liệt kê tệp nào.",
+  'batch.ignoredColumn': "Đã bỏ qua cột \"{column}\": không phải mã lĩnh vực.",
+  'batch.noFileName': "Dòng {line}: không có tên tệp, đã bỏ qua.",
+  'batch.duplicateFile': "Dòng {line}: \"{file}\" xuất hiện hai lần, chỉ dùng hàng đầu tiên.",
+  'batch.invalidLabel': "Dòng {line}: \"{value}\" không phải nhãn cho {domain}, để trống.",
+  'batch.invalidScore': "Dòng {line}: \"{value}\" không phải số cho {column}, để trống.",
+  'batch.missingFiles': "Tệp trong kê khai không có trong thư mục: {count}",
+  'batch.warnings': "Cảnh báo tệp kê khai",
+  'batch.warningCount': "Cảnh báo: {count}",
+  'batch.missing': "Thiếu: {file}",
+  'batch.parallel': "Yêu cầu song song",
+  'batch.startOver': "Bắt đầu lại",
+  'batch.resume': "Tiếp tục (còn {count})",
+  'batch.run': "Chạy tất cả tệp ({count})",
+  'batch.stop': "Dừng",
+  'batch.stopping': "Đang dừng…",
+  'batch.progress': "Đã phân tích: {done} · Thất bại: {failed} (thử lại khi tiếp tục)",
+  'batch.fileTotal': "Tệp: {count}",
+  'batch.accuracy': "Độ chính xác theo lĩnh vực",
+  'batch.csv': "CSV",
+  'batch.report': "Báo cáo",
+  'batch.domain': "Lĩnh vực",
+  'batch.matrixHint': "dương tính thật / dương tính giả / âm tính giả / âm tính thật",
+  'batch.sensitivity': "Độ nhạy",
+  'batch.specificity': "Độ đặc hiệu",
+  'batch.correlation': "Tương quan",
+  'batch.pointBiserialHint': "r điểm-lưỡng chuỗi so với nhãn; giá trị âm nghĩa là điểm thấp hơn ở ca dương tính",
+  'batch.pearsonHint': "r Pearson so với điểm tham chiếu",
+  'batch.vsLabel': "so với nhãn",
+  'batch.vsReference': "so với tham chiếu",
+  'batch.footnote': "Độ nhạy và độ đặc hiệu được tính từ các tệp có nhãn cho lĩnh vực đó.",
+};
+
+export default viVN;
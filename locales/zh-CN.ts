@@ -0,0 +1,362 @@
+import { Messages } from "./en-US";
+
+const zhCN: Messages = {
+  // --- Common ---
+  'common.cancel': "取消",
+  'common.backHome': "返回首页",
+  'common.microphoneRequired': "需要麦克风权限。",
+
+  // --- Recording checks ---
+  'audio.empty': "录音失败（文件为空）。",
+  'audio.tooShort': "录音太短。准确分析至少需要 {seconds} 秒。",
+  'audio.tooQuiet': "录音音量太低。请大声一点或靠近麦克风。",
+  'audio.noSpeech': "未检测到语音。请清晰地说话。",
+  'audio.unreadable': "无法校验音频文件。",
+  'audio.failed': "录音失败。",
+  'quality.title': "录音检查",
+  'quality.decodable': "音频文件",
+  'quality.duration': "时长",
+  'quality.speech': "语音",
+  'quality.level': "语音音量",
+  'quality.snr': "背景噪声",
+  'quality.clipping': "失真",
+  'quality.dc_offset': "麦克风偏移",
+  'quality.dropouts': "中断",
+  'quality.speechShort': "只检测到 {seconds} 秒语音，至少需要 {minimum} 秒。请一直说到计时结束。",
+  'quality.noisy': "背景噪声与你的声音太接近（仅低 {value} dB）。请远离风扇、车流或其他人声。",
+  'quality.clipped': "输入音量过大，录音出现失真。请离麦克风稍远一些。",
+  'quality.dcOffset': "麦克风信号偏离中心，可能是麦克风故障。如果反复出现，请换一个麦克风。",
+  'quality.dropout': "音频中断了 {seconds} 秒。请检查蓝牙或 USB 连接后重新录音。",
+
+  // --- Modals ---
+  'limit.title': "已达到每日限额",
+  'limit.body': "为保证服务可用并控制研究成本，每台设备的使用上限为 {quota}。",
+  'limit.quota': "每天 {limit} 次筛查",
+  'limit.resetsAt': "{time} 起可以再次进行筛查。",
+  'limit.sampleNote': "您仍可使用示例数据查看互动演示，这不计入您的限额。",
+  'limit.ok': "知道了",
+  'account.title': "账户令牌",
+  'account.hint': "有研究或机构提供的账户令牌吗？输入后将使用该令牌的限额，而不是本设备的限额。",
+  'account.placeholder': "粘贴令牌",
+  'account.save': "使用令牌",
+  'account.checking': "正在检查…",
+  'account.rejected': "此令牌未被接受。",
+  'account.active': "正在使用账户令牌（{tier} 等级）",
+  'account.remove': "移除",
+  'usage.title': "用量与费用",
+  'usage.screening': "本次筛查",
+  'usage.today': "今天（本设备）",
+  'usage.recentDays': "最近几天",
+  'usage.empty': "本次筛查没有记录模型调用。",
+  'usage.call': "调用",
+  'usage.calls': "模型调用",
+  'usage.callCount': "{count} 次调用",
+  'usage.promptTokens': "输入 token",
+  'usage.outputTokens': "输出 token",
+  'usage.totalTokens': "token 总数",
+  'usage.audioTokens': "音频 token",
+  'usage.imageTokens': "图像 token",
+  'usage.estimatedCost': "预估费用",
+  'usage.kind.analysis': "分析",
+  'usage.kind.chat': "聊天回复",
+  'usage.kind.transcription': "转写",
+  'usage.unpriced': "{count} 次调用使用了价格表中没有的模型，未计入费用。",
+  'usage.disclaimer': "费用是按每百万 token 的标价估算的，并非账单。不包括其他设备上或开始记录用量之前的调用。",
+
+  'tech.title': "技术架构",
+  'tech.models': "使用的 AI 模型",
+  'tech.flashDescription': "对音频（PCM）和视频帧进行低延迟多模态分析。",
+  'tech.proDescription': "用于临床关联和趋势分析的复杂推理。",
+  'tech.pipeline': "数据流程",
+  'tech.pipelineCapture': "原始音频（WebM/PCM）采集",
+  'tech.pipelineEncoding': "客户端 Base64 编码",
+  'tech.pipelineRequest': "Gemini API 多模态请求",
+  'tech.pipelineResponse': "结构化 JSON 响应",
+  'tech.sampleRequest': "API 请求示例",
+  'tech.footer': "基于神经病学领域声音生物标志物声学分析的研究论文。",
+
+  // --- Intro ---
+  'intro.badge': "具备临床有效性",
+  'intro.tagline': "由 {model} 驱动的先进健康筛查。",
+  'intro.selectedLanguage': "所选语言：",
+  'intro.watchDemo': "观看演示",
+  'intro.start': "开始筛查",
+  'intro.sample': "使用示例数据试用（即时）",
+  'intro.addProfile': "添加个人资料",
+  'intro.editProfile': "编辑个人资料",
+  'intro.trustedResearch': "可信研究",
+  'intro.privacyFirst': "隐私优先",
+  'intro.secureProcessing': "安全处理",
+  'intro.viewArchitecture': "查看架构",
+
+  // --- Guided recording ---
+  'recording.taskProgress': "任务 {step}/{total} · {task}",
+  'recording.getReady': "准备好",
+  'recording.listening': "正在聆听...",
+  'recording.goodVolume': "音量正好",
+  'coach.tooLoud': "请把麦克风稍微拿远一点",
+  'coach.noisy': "背景噪音太大",
+  'coach.tooFar': "请靠近麦克风",
+  'coach.silence': "准备好后请开始说话",
+  'recording.usableSpeech': "有效语音 {seconds}/{target} 秒",
+  'recording.stopEarly': "提前结束",
+  'recording.start': "开始录音",
+  'recording.skipTask': "跳过此任务",
+
+  'task.sustained_vowel.label': "持续元音",
+  'task.sustained_vowel.instruction': "深吸一口气，然后用舒适的音高和音量尽可能长时间地发“啊”音。",
+  'task.ddk.label': "Pa-ta-ka",
+  'task.ddk.instruction': "尽可能快速、清晰地重复“pa-ta-ka”，直到计时结束。",
+  'task.reading.label': "朗读短文",
+  'task.reading.instruction': "请以平常的语速朗读这段文字：",
+  'task.free_speech.label': "自由讲述",
+  'task.free_speech.instruction': "请用自己的话回答：",
+  'task.vowelNoVoice': "未检测到稳定的发声。请持续发一个“啊”音，不要耳语。",
+  'task.vowelInterrupted': "声音中断了。请先吸气，然后一口气持续发“啊”音。",
+  'task.ddkTooFew': "检测到的音节太少。请不间断地尽快重复“pa-ta-ka”。",
+  'task.readingSilent': "检测到的大多是静音。请从头开始大声朗读整段文字。",
+
+  // --- Face capture ---
+  'face.title': "添加面部分析？",
+  'face.body': "VitalVoice 可以分析面部生物标志物（面色苍白、水分状况、对称性），将准确度最多提高 15%。",
+  'face.enableCamera': "开启摄像头",
+  'face.skip': "暂时跳过",
+  'face.centerHint': "请在光线充足处将脸部置于画面中央",
+  'face.noFace': "请直视摄像头",
+  'face.moreLight': "请让脸部光线更充足",
+  'face.lessLight': "太亮了：请避开直射光",
+  'face.evenLight': "请避免背光或强烈阴影",
+  'face.moveCloser': "请靠近一些",
+  'face.moveBack': "请稍微后退",
+  'face.centre': "请将脸部置于画面中央",
+  'face.holdStill': "请保持不动",
+  'face.neutralLight': "请使用中性白光",
+  'face.ready': "很好：请拍照",
+  'face.rejected': "这张照片无法使用。{reason}",
+  'face.cameraNotReady': "摄像头仍在启动，请稍后再试。",
+  'face.captureFailed': "无法检查照片。请重试，或跳过此步骤。",
+
+  // --- Upload ---
+  'upload.title': "上传数据",
+  'upload.voiceLabel': "语音样本（必填）",
+  'upload.tapToChange': "点按以更换",
+  'upload.selectAudio': "选择音频文件",
+  'upload.audioFormats': "支持 MP3、WAV、M4A",
+  'upload.imageLabel': "面部照片（可选）",
+  'upload.preview': "预览",
+  'upload.imageSelected': "已选择图片",
+  'upload.selectImage': "选择图片",
+  'upload.imageFormats': "支持 JPG、PNG",
+  'upload.analyze': "分析数据",
+  'upload.batch': "验证数据集（批量）",
+
+  // --- Analyzing ---
+  'analyzing.title': "正在处理健康数据",
+  'analyzing.step1': "正在提取语音生物标志物...",
+  'analyzing.step2': "正在分析言语模式...",
+  'analyzing.step3': "正在评估声音特征...",
+  'analyzing.step4': "正在与多模态数据关联...",
+  'analyzing.step5': "正在生成个性化建议...",
+  'analyzing.retrying': "连接出现问题，正在重试（第 {attempt} 次）...",
+  'analyzing.footer': "安全环境处理",
+
+  // --- Analysis errors ---
+  'error.quota.title': "服务繁忙",
+  'error.safety.title': "分析被拦截",
+  'error.network.title': "连接问题",
+  'error.invalid_input.title': "无法读取录音",
+  'error.malformed_output.title': "分析不完整",
+  'error.quota': "分析服务当前已满负荷。请稍等几分钟后重试。",
+  'error.safety': "分析被内容安全过滤器拦截。请在没有背景媒体或其他人声的环境中重新录音。",
+  'error.network': "无法连接到分析服务。请检查网络连接后重试。",
+  'error.invalidInput': "无法处理该录音。请重新录音或选择其他文件。",
+  'error.malformedOutput': "返回的分析结果不完整。请重试。",
+  'error.cancelled': "分析已取消。",
+  'error.unknown': "分析时出现问题。请重试。",
+  'error.retry': "重试",
+  'error.recordAgain': "重新录音",
+  'error.chooseFile': "选择其他文件",
+  'error.viewSample': "查看示例结果",
+  'error.keptRecording': "您的录音已保留，无需重新录制。",
+  'error.keptFile': "您的文件已保留，无需重新上传。",
+
+  // --- Results ---
+  'results.newScan': "新的筛查",
+  'results.history': "历史记录",
+  'results.usage': "用量",
+  'results.exportPdf': "导出 PDF",
+  'results.exportFhir': "导出 FHIR",
+  'results.exportFhirFailed': "无法生成 FHIR 导出文件。请重试，或改为导出 PDF。",
+  'results.exportJson': "导出 JSON",
+  'results.includeMedia': "包含录音和照片",
+  'results.includeMediaHint': "该文件将包含你的声音和面部图像。请只与你信任的人分享。",
+  'results.download': "下载",
+  'results.overallScore': "整体健康评分",
+  'results.confidence': "置信度：{level}",
+  'results.summary': "摘要",
+  'results.recommendations': "建议",
+  'results.trends': "趋势",
+  'results.improving': "好转",
+  'results.stable': "稳定",
+  'results.needsAttention': "需要关注",
+  'results.firstScreening': "这是您第一次保存的筛查。再次筛查后将显示趋势。",
+  'results.profileNoChange': "已参考您的个人资料，但它没有改变对这些结果的解读。",
+  'results.voiceTasks': "语音任务",
+  'results.disclaimer': "这是一个筛查工具，并非医学诊断。如有任何疑虑，请咨询医疗专业人员。",
+
+  'report.title': "临床筛查报告",
+  'report.scoreOverview': "分数概览",
+  'report.concernLevel': "关注等级",
+  'report.capturedImage': "拍摄的图像",
+  'report.domainAnalysis': "各领域分析",
+  'report.comparedWith': "百分位比较对象：{cohort}",
+  'report.scoreTrends': "分数趋势",
+  'report.keyObservations': "主要观察",
+  'report.significance': "意义：",
+  'report.reason': "原因：",
+  'report.disclaimer': "免责声明：",
+  'report.page': "第 {page} 页，共 {count} 页",
+  'report.generatedBy': "由 Gemini 驱动的 VitalVoice AI 生成",
+
+  'confidence.low': "低",
+  'confidence.medium': "中",
+  'confidence.high': "高",
+  'concern.low': "低",
+  'concern.moderate': "中等",
+  'concern.elevated': "偏高",
+  'concern.high': "高",
+  'urgency.routine': "常规",
+  'urgency.soon': "尽快",
+  'urgency.prompt': "及时",
+
+  'domain.neurological': "神经系统",
+  'domain.mental_health': "心理健康",
+  'domain.respiratory': "呼吸系统",
+  'domain.cardiovascular': "心血管",
+  'domain.metabolic': "代谢",
+  'domain.hydration': "水分",
+  'domain.sleep_fatigue': "睡眠与疲劳",
+  'domain.cognitive_load': "认知负荷",
+
+  'card.median': "中位数：{value}",
+  'card.percentile': "第 {value} 百分位",
+  'card.noNorms': "无参考常模",
+  'card.fromTask': "来自“{task}”任务",
+
+  'cohort.women': "女性 {band}",
+  'cohort.men': "男性 {band}",
+  'cohort.adults': "成人 {band}",
+  'cohort.allWomen': "所有女性",
+  'cohort.allMen': "所有男性",
+  'cohort.allAdults': "所有成人",
+
+  'biomarkers.title': "测得的生物标志物",
+  'biomarkers.computed': "在本设备上根据 {seconds} 秒音频计算。",
+  'biomarkers.f0Mean': "平均音高（F0）",
+  'biomarkers.pitchRange': "音高范围",
+  'biomarkers.jitter': "频率微扰",
+  'biomarkers.shimmer': "振幅微扰",
+  'biomarkers.hnr': "谐噪比",
+  'biomarkers.pauseRatio': "停顿比例",
+  'biomarkers.syllableRate': "音节速率",
+
+  // --- Chat ---
+  'chat.title': "VitalVoice 助手",
+  'chat.limitReached': "已达到会话上限",
+  'chat.remaining': "剩余消息：{count}",
+  'chat.clear': "清空聊天",
+  'chat.empty': "可以让我解释任何医学术语，或提供更多健康建议！",
+  'chat.transcribing': "正在转写…",
+  'chat.noTranscript': "没有转写文本，之后的回复将看不到这条消息",
+  'chat.interrupted': "回复已中断",
+  'chat.locked': "本次会话的聊天次数已用完。请重新开始分析以继续聊天。",
+  'chat.placeholder': "输入消息...",
+  'chat.stop': "停止生成",
+  'chat.stopped': "*已停止回复。*",
+  'chat.noResponse': "无法处理该回复。",
+  'chat.connectionError': "目前无法连接到 VitalVoice 服务器，请重试。",
+
+  // --- History ---
+  'history.title': "筛查历史",
+  'history.empty': "还没有保存的筛查。完成的筛查会保存在本设备上。",
+  'history.delete': "删除筛查",
+  'history.import': "导入",
+  'history.exportCsv': "导出 CSV",
+  'history.importFailed': "无法导入此文件。请选择从 VitalVoice 导出的 JSON 文件。",
+  'history.notAnExport': "此文件不是 VitalVoice 筛查导出文件。",
+
+  // --- Profile ---
+  'profile.title': "个人资料",
+  'profile.intro': "所有字段均为选填。您的回答有助于解读您的声音（例如您这个年龄常见的音高），并决定您的分数与哪类人群比较。这些信息只保存在本设备上。",
+  'profile.age': "年龄",
+  'profile.agePlaceholder': "例如 52",
+  'profile.ageInvalid': "请输入 18 到 120 之间的年龄。",
+  'profile.sexAtBirth': "出生性别",
+  'profile.notSpecified': "未指定",
+  'profile.female': "女",
+  'profile.male': "男",
+  'profile.smoking': "吸烟",
+  'profile.never': "从不",
+  'profile.former': "已戒烟",
+  'profile.current': "目前吸烟",
+  'profile.respiratory': "已知呼吸系统疾病",
+  'profile.respiratoryPlaceholder': "例如哮喘、慢阻肺",
+  'profile.neurological': "已知神经系统疾病",
+  'profile.neurologicalPlaceholder': "例如偏头痛、帕金森病",
+  'profile.medications': "当前用药",
+  'profile.medicationsPlaceholder': "用逗号分隔",
+  'profile.clear': "清除个人资料",
+  'profile.save': "保存",
+
+  'profileField.age': "年龄",
+  'profileField.sexAtBirth': "出生性别",
+  'profileField.smoker': "吸烟",
+  'profileField.respiratoryConditions': "呼吸系统疾病",
+  'profileField.neurologicalConditions': "神经系统疾病",
+  'profileField.medications': "用药",
+
+  // --- Batch validation ---
+  'batch.title': "批量验证",
+  'batch.intro': "根据带有真实标签的 CSV 清单分析一个录音文件夹。清单需要一个 {file} 列，并为每个领域 id 各设一列（1 = 存在该状况，0 = 不存在），还可包含可选的 {score} 参考分数。进度会自动保存，中断的运行会从停止处继续。",
+  'batch.selectFolder': "选择音频文件夹",
+  'batch.audioFiles': "音频文件：{count}",
+  'batch.selectManifest': "选择 CSV 清单",
+  'batch.manifestSummary': "行数：{rows} · 领域：{domains}",
+  'batch.manifestUnreadable': "无法读取清单。",
+  'batch.manifestEmpty': "清单为空。",
+  'batch.manifestNoFileColumn': "清单需要一个 {file} 列来列出每个音频文件名。",
+  'batch.manifestNoDomains': "清单中没有领域列。请以领域 ID 命名，例如 {label} 或 {score}。",
+  'batch.manifestNoRows': "清单中没有列出任何文件。",
+  'batch.ignoredColumn': "已忽略列“{column}”：不是领域 ID。",
+  'batch.noFileName': "第 {line} 行：没有文件名，已跳过。",
+  'batch.duplicateFile': "第 {line} 行：“{file}”出现了两次，仅使用第一行。",
+  'batch.invalidLabel': "第 {line} 行：“{value}”不是 {domain} 的标签，已留空。",
+  'batch.invalidScore': "第 {line} 行：“{value}”不是 {column} 的数字，已留空。",
+  'batch.missingFiles': "文件夹中缺少的清单文件：{count}",
+  'batch.warnings': "清单警告",
+  'batch.warningCount': "警告：{count}",
+  'batch.missing': "缺失：{file}",
+  'batch.parallel': "并行请求数",
+  'batch.startOver': "重新开始",
+  'batch.resume': "继续（剩余 {count}）",
+  'batch.run': "处理全部文件（{count}）",
+  'batch.stop': "停止",
+  'batch.stopping': "正在停止…",
+  'batch.progress': "已分析：{done} · 失败：{failed}（继续时重试）",
+  'batch.fileTotal': "文件：{count}",
+  'batch.accuracy': "各领域准确度",
+  'batch.csv': "CSV",
+  'batch.report': "报告",
+  'batch.domain': "领域",
+  'batch.matrixHint': "真阳性 / 假阳性 / 假阴性 / 真阴性",
+  'batch.sensitivity': "灵敏度",
+  'batch.specificity': "特异度",
+  'batch.correlation': "相关性",
+  'batch.pointBiserialHint': "与标签的点二列相关 r；负值表示阳性样本得分较低",
+  'batch.pearsonHint': "与参考分数的皮尔逊相关 r",
+  'batch.vsLabel': "对比标签",
+  'batch.vsReference': "对比参考",
+  'batch.footnote': "灵敏度和特异度仅使用该领域有标签的文件计算。",
+};
+
+export default zhCN;
@@ -0,0 +1,34 @@
+// Copies the PDF report's Noto fonts from their npm packages into
+// public/fonts/, where services/pdfFonts.ts fetches them. Runs before
+// `dev` and `build`; existing files are left alone.
+import { copyFileSync, existsSync, mkdirSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const require = createRequire(import.meta.url);
+const target = join(dirname(fileURLToPath(import.meta.url)), "..", "public", "fonts");
+
+// File name pdfFonts.ts asks for -> package and file it comes from.
+const FONTS = {
+  "NotoSans-Regular.ttf": ["noto-sans", "NotoSans_400Regular.ttf"],
+  "NotoSansArabic-Regular.ttf": ["noto-sans-arabic", "NotoSansArabic_400Regular.ttf"],
+  "NotoSansHebrew-Regular.ttf": ["noto-sans-hebrew", "NotoSansHebrew_400Regular.ttf"],
+  "NotoSansDevanagari-Regular.ttf": ["noto-sans-devanagari", "NotoSansDevanagari_400Regular.ttf"],
+  "NotoSansBengali-Regular.ttf": ["noto-sans-bengali", "NotoSansBengali_400Regular.ttf"],
+  "NotoSansThai-Regular.ttf": ["noto-sans-thai", "NotoSansThai_400Regular.ttf"],
+  "NotoSansSC-Regular.ttf": ["noto-sans-sc", "NotoSansSC_400Regular.ttf"],
+  "NotoSansJP-Regular.ttf": ["noto-sans-jp", "NotoSansJP_400Regular.ttf"],
+  "NotoSansKR-Regular.ttf": ["noto-sans-kr", "NotoSansKR_400Regular.ttf"],
+};
+
+mkdirSync(target, { recursive: true });
+let copied = 0;
+for (const [name, [pkg, file]] of Object.entries(FONTS)) {
+  const destination = join(target, name);
+  if (existsSync(destination)) continue;
+  const packageDir = dirname(require.resolve(`@expo-google-fonts/${pkg}/package.json`));
+  copyFileSync(join(packageDir, "400Regular", file), destination);
+  copied++;
+}
+if (copied > 0) console.log(`Copied ${copied} PDF font(s) to public/fonts/`);
@@ -0,0 +1,82 @@
+import { randomBytes } from "node:crypto";
+import { AnalysisProviderKind } from "../../services/analysisProvider";
+import { DEFAULT_TIERS, QuotaTier } from "./quota";
+
+export interface ServerConfig {
+  port: number;
+  // Where requests are forwarded: the model itself, another server with the
+  // same contract (e.g. a local stand-in), or recorded fixtures.
+  upstream: AnalysisProviderKind;
+  apiKey?: string;
+  standInUrl: string;
+  // Origins allowed to call from another host; same-origin deployments need none.
+  allowedOrigins: string[];
+  maxBodyBytes: number;
+  maxAudioBytes: number;
+  maxImageBytes: number;
+  maxChatChars: number;
+  maxChatHistory: number;
+  // Signs device tokens. Without a fixed secret, tokens stop verifying on restart
+  // and clients register again, which also resets their quota.
+  quotaSecret: string;
+  tiers: Record<string, QuotaTier>;
+  // Account token -> tier name.
+  accounts: Record<string, string>;
+  deviceTokensPerAddress: number;
+  quotaFile?: string;
+  trustProxy: boolean;
+}
+
+const number = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const MB = 1024 * 1024;
+
+const parseTiers = (json: string | undefined): Record<string, QuotaTier> => {
+  if (!json) return DEFAULT_TIERS;
+  const overrides = JSON.parse(json) as Record<string, Partial<QuotaTier>>;
+  const tiers = { ...DEFAULT_TIERS };
+  for (const [name, limits] of Object.entries(overrides)) {
+    tiers[name] = { ...(tiers[name] ?? DEFAULT_TIERS.anonymous), ...limits };
+  }
+  return tiers;
+};
+
+// "token:tier,token:tier"
+const parseAccounts = (value: string | undefined): Record<string, string> =>
+  Object.fromEntries((value || '').split(',').map(pair => pair.trim().split(':')).filter(([token, tier]) => token && tier));
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const upstream = (env.UPSTREAM || 'gemini') as AnalysisProviderKind;
+  if (!['gemini', 'http', 'fixture'].includes(upstream)) {
+    throw new Error(`UPSTREAM must be gemini, http or fixture (got "${upstream}")`);
+  }
+  if (upstream === 'gemini' && !env.GEMINI_API_KEY) {
+    throw new Error("GEMINI_API_KEY is required when UPSTREAM=gemini");
+  }
+  if (upstream === 'http' && !env.STANDIN_URL) {
+    throw new Error("STANDIN_URL is required when UPSTREAM=http");
+  }
+
+  return {
+    port: number(env.PORT, 8787),
+    upstream,
+    apiKey: env.GEMINI_API_KEY,
+    standInUrl: env.STANDIN_URL || '',
+    allowedOrigins: (env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean),
+    // Five protocol recordings plus a photo, base64-encoded, fit well inside this.
+    maxBodyBytes: number(env.MAX_BODY_BYTES, 40 * MB),
+    maxAudioBytes: number(env.MAX_AUDIO_BYTES, 10 * MB),
+    maxImageBytes: number(env.MAX_IMAGE_BYTES, 5 * MB),
+    maxChatChars: number(env.MAX_CHAT_CHARS, 2000),
+    maxChatHistory: number(env.MAX_CHAT_HISTORY, 40),
+    quotaSecret: env.QUOTA_SECRET || randomBytes(32).toString('hex'),
+    tiers: parseTiers(env.QUOTA_TIERS),
+    accounts: parseAccounts(env.ACCOUNT_TOKENS),
+    deviceTokensPerAddress: number(env.DEVICE_TOKENS_PER_ADDRESS, 5),
+    quotaFile: env.QUOTA_FILE || undefined,
+    trustProxy: env.TRUST_PROXY === 'true'
+  };
+};
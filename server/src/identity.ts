@@ -0,0 +1,53 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { IncomingMessage } from "node:http";
+
+export interface Subject {
+  // Stable key for quota accounting; never the raw token.
+  id: string;
+  tier: string;
+}
+
+// Device tokens are `d.<uuid>.<signature>`, so the server can verify them
+// without keeping a list of issued devices.
+const DEVICE_PREFIX = 'd.';
+
+const sign = (secret: string, deviceId: string) =>
+  createHmac('sha256', secret).update(deviceId).digest('base64url');
+
+export const issueDeviceToken = (secret: string): string => {
+  const deviceId = randomUUID();
+  return `${DEVICE_PREFIX}${deviceId}.${sign(secret, deviceId)}`;
+};
+
+const verifyDeviceToken = (secret: string, token: string): string | null => {
+  const [deviceId, signature] = token.slice(DEVICE_PREFIX.length).split('.');
+  if (!deviceId || !signature) return null;
+  const expected = Buffer.from(sign(secret, deviceId));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given) ? deviceId : null;
+};
+
+/**
+ * Who a request is from: a signed device token (anonymous tier) or an account
+ * token from ACCOUNT_TOKENS (its configured tier). Null when neither is valid.
+ */
+export const resolveSubject = (req: IncomingMessage, secret: string, accounts: Record<string, string>): Subject | null => {
+  const match = /^Bearer\s+(\S+)$/.exec(req.headers.authorization || '');
+  if (!match) return null;
+  const token = match[1];
+
+  if (token.startsWith(DEVICE_PREFIX)) {
+    const deviceId = verifyDeviceToken(secret, token);
+    return deviceId ? { id: `device:${deviceId}`, tier: 'anonymous' } : null;
+  }
+  const tier = accounts[token];
+  return tier ? { id: `account:${createHash('sha256').update(token).digest('hex').slice(0, 16)}`, tier } : null;
+};
+
+// Behind a reverse proxy every request comes from the proxy, so the client
+// address has to be taken from X-Forwarded-For, which is only safe to trust there.
+export const clientAddress = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
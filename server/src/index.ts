@@ -0,0 +1,263 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { AnalysisProvider } from "../../services/analysisProvider";
+import { AnalysisError, classifyError } from "../../services/analysisErrors";
+import { createGeminiProvider } from "../../services/geminiService";
+import { USAGE_HEADER, createHttpProvider } from "../../services/httpProvider";
+import { ModelUsage } from "../../types";
+import { createFixtureProvider } from "../../services/fixtureProvider";
+import { ServerConfig, loadConfig } from "./config";
+import { RequestValidationError, validateAnalysisRequest, validateChatRequest, validateTranscriptionRequest } from "./validation";
+import { QuotaAction, createQuotaStore } from "./quota";
+import { Subject, clientAddress, issueDeviceToken, resolveSubject } from "./identity";
+
+const config = loadConfig();
+if (!process.env.QUOTA_SECRET) console.warn("QUOTA_SECRET is not set; device tokens will not survive a restart");
+
+const quotas = createQuotaStore({ tiers: config.tiers, deviceTokensPerAddress: config.deviceTokensPerAddress, filePath: config.quotaFile });
+
+const createUpstream = ({ upstream, apiKey, standInUrl }: ServerConfig): AnalysisProvider => {
+  switch (upstream) {
+    case 'http': return createHttpProvider(standInUrl);
+    case 'fixture': return createFixtureProvider();
+    case 'gemini': return createGeminiProvider(apiKey);
+  }
+};
+
+const provider = createUpstream(config);
+
+// Statuses the client's classifyError turns back into the same AnalysisError kind.
+const STATUS_BY_KIND: Record<AnalysisError['kind'], number> = {
+  quota: 429,
+  invalid_input: 400,
+  safety: 422,
+  malformed_output: 502,
+  network: 503,
+  cancelled: 499
+};
+
+class PayloadTooLargeError extends RequestValidationError {
+  constructor(limit: number) {
+    super([`Body is larger than ${limit} bytes`], 413);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+const readJsonBody = async (req: IncomingMessage, limit: number): Promise<unknown> => {
+  const type = req.headers['content-type'] || '';
+  if (!type.includes('application/json')) throw new RequestValidationError(["Content-Type must be application/json"], 415);
+  if (Number(req.headers['content-length'] || 0) > limit) throw new PayloadTooLargeError(limit);
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    // Stop reading rather than buffer an oversized body that lied about its length.
+    if (size > limit) throw new PayloadTooLargeError(limit);
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new RequestValidationError(["Body is not valid JSON"]);
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof RequestValidationError) {
+    sendJson(res, error.status, { kind: 'invalid_request', issues: error.issues });
+    return;
+  }
+  if (error instanceof QuotaExhaustedError) {
+    sendJson(res, 429, { kind: 'quota' });
+    return;
+  }
+  const classified = classifyError(error);
+  if (classified.kind !== 'cancelled') console.error(`Upstream ${provider.name} failed:`, error);
+  // Upstream detail stays in the log; the body names only the kind.
+  sendJson(res, STATUS_BY_KIND[classified.kind], { kind: classified.kind });
+};
+
+const applyCors = (req: IncomingMessage, res: ServerResponse) => {
+  const origin = req.headers.origin;
+  if (origin && config.allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Expose-Headers', USAGE_HEADER);
+    res.setHeader('Vary', 'Origin');
+  }
+};
+
+// Aborts the upstream call when the browser goes away, so a cancelled
+// analysis stops costing tokens.
+const abortOnDisconnect = (res: ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+};
+
+class QuotaExhaustedError extends Error {
+  constructor(action: QuotaAction) {
+    super(`${action} quota exhausted`);
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+/**
+ * Takes one use of `action` for the duration of `operation` and gives it back
+ * if the operation fails, so a failed upstream call costs the user nothing.
+ */
+const withQuota = async <T>(subject: Subject, action: QuotaAction, operation: () => Promise<T>, sessionId?: string): Promise<T> => {
+  const at = quotas.consume(subject.id, subject.tier, action, sessionId);
+  if (at === null) throw new QuotaExhaustedError(action);
+  try {
+    return await operation();
+  } catch (error) {
+    quotas.refund(subject.id, action, at, sessionId);
+    throw error;
+  }
+};
+
+type Handler = (req: IncomingMessage, res: ServerResponse, subject: Subject) => Promise<void>;
+
+/**
+ * Reads and validates a request body. A body shaped in a way the validator
+ * did not foresee is still the client's error: it answers 400, not the 503 an
+ * unclassified exception would become.
+ */
+const readRequest = async <T>(req: IncomingMessage, validate: (body: unknown, config: ServerConfig) => T): Promise<T> => {
+  const body = await readJsonBody(req, config.maxBodyBytes);
+  try {
+    return validate(body, config);
+  } catch (error) {
+    if (error instanceof RequestValidationError) throw error;
+    console.warn("Request body could not be validated:", error);
+    throw new RequestValidationError(["Body could not be read"]);
+  }
+};
+
+// Usage goes back to the client so it can attach token counts to the screening.
+const sendJsonWithUsage = (res: ServerResponse, body: unknown, usage: ModelUsage[]) => {
+  if (usage.length > 0) res.setHeader(USAGE_HEADER, JSON.stringify(usage));
+  sendJson(res, 200, body);
+};
+
+const handleAnalyze: Handler = async (req, res, subject) => {
+  const request = await readRequest(req, validateAnalysisRequest);
+  const usage: ModelUsage[] = [];
+  const analysis = await withQuota(subject, 'analysis', () =>
+    provider.analyzeHealth({ ...request, signal: abortOnDisconnect(res), onUsage: u => usage.push(u) }));
+  sendJsonWithUsage(res, analysis, usage);
+};
+
+// Streams the reply as NDJSON: `{ text }` lines, then a `{ usage }` line once
+// the model reports it. createHttpProvider reads this form.
+const handleChat: Handler = async (req, res, subject) => {
+  const request = await readRequest(req, validateChatRequest);
+  const signal = abortOnDisconnect(res);
+  const usage: ModelUsage[] = [];
+  const chunks = provider.chat({ ...request, signal, onUsage: u => usage.push(u) })[Symbol.asyncIterator]();
+
+  // Wait for the first chunk so a failure before any text can still get an error
+  // status; once text has been sent the turn counts even if the stream breaks.
+  const first = await withQuota(subject, 'chat', () => chunks.next(), request.sessionId);
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+  try {
+    for (let next = first; !next.done; next = await chunks.next()) {
+      res.write(`${JSON.stringify({ text: next.value })}\n`);
+    }
+    usage.forEach(u => res.write(`${JSON.stringify({ usage: u })}\n`));
+  } catch (error) {
+    // Headers are gone; ending early is how the client learns the reply was cut short.
+    if (!signal.aborted) console.error(`Upstream ${provider.name} chat stream failed:`, error);
+  }
+  res.end();
+};
+
+const handleTranscribe: Handler = async (req, res, subject) => {
+  const request = await readRequest(req, validateTranscriptionRequest);
+  const usage: ModelUsage[] = [];
+  const text = await withQuota(subject, 'transcription', () =>
+    provider.transcribe({ ...request, signal: abortOnDisconnect(res), onUsage: u => usage.push(u) }));
+  sendJsonWithUsage(res, { text }, usage);
+};
+
+const handleQuota: Handler = async (_req, res, subject) => {
+  sendJson(res, 200, quotas.status(subject.id, subject.tier));
+};
+
+// Registration is limited per network address, so clearing site data does
+// not hand out a fresh quota every time.
+const handleDeviceRegistration = async (req: IncomingMessage, res: ServerResponse) => {
+  const address = `address:${clientAddress(req, config.trustProxy)}`;
+  if (quotas.consume(address, 'anonymous', 'device') === null) {
+    sendJson(res, 429, { kind: 'quota' });
+    return;
+  }
+  sendJson(res, 200, { token: issueDeviceToken(config.quotaSecret) });
+};
+
+const ROUTES: Record<string, { method: 'GET' | 'POST'; handler: Handler }> = {
+  '/analyze': { method: 'POST', handler: handleAnalyze },
+  '/chat': { method: 'POST', handler: handleChat },
+  '/transcribe': { method: 'POST', handler: handleTranscribe },
+  '/quota': { method: 'GET', handler: handleQuota }
+};
+
+const server = createServer(async (req, res) => {
+  applyCors(req, res);
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  if (req.method === 'GET' && path === '/health') {
+    sendJson(res, 200, { status: 'ok', upstream: provider.name });
+    return;
+  }
+  if (req.method === 'POST' && path === '/quota/device') {
+    await handleDeviceRegistration(req, res);
+    return;
+  }
+
+  const route = ROUTES[path];
+  if (!route) {
+    sendJson(res, 404, { kind: 'not_found' });
+    return;
+  }
+  if (req.method !== route.method) {
+    res.setHeader('Allow', route.method);
+    sendJson(res, 405, { kind: 'method_not_allowed' });
+    return;
+  }
+  const subject = resolveSubject(req, config.quotaSecret, config.accounts);
+  if (!subject) {
+    sendJson(res, 401, { kind: 'unauthorized' });
+    return;
+  }
+
+  try {
+    await route.handler(req, res, subject);
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    // The rest of an oversized body is not worth reading.
+    if (error instanceof PayloadTooLargeError) res.setHeader('Connection', 'close');
+    sendError(res, error);
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`VitalVoice proxy listening on :${config.port}, forwarding to ${provider.name}`);
+});
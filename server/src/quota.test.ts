@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { writeFile } from "node:fs/promises";
+import { DEFAULT_TIERS, QUOTA_WINDOW_MS, createQuotaStore } from "./quota";
+
+vi.mock("node:fs/promises", () => ({ writeFile: vi.fn(() => Promise.resolve()) }));
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 0, 1);
+
+const newStore = (filePath?: string) => createQuotaStore({ tiers: DEFAULT_TIERS, deviceTokensPerAddress: 2, filePath });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(T0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createQuotaStore", () => {
+  it("limits uses over a rolling 24 hours", () => {
+    const store = newStore();
+    for (let i = 0; i < 5; i++) {
+      expect(store.consume('device-1', 'anonymous', 'analysis')).toBe(Date.now());
+      vi.advanceTimersByTime(HOUR);
+    }
+    expect(store.consume('device-1', 'anonymous', 'analysis')).toBeNull();
+    expect(store.status('device-1', 'anonymous').analyses).toEqual({ limit: 5, used: 5, remaining: 0, resetsAt: T0 + QUOTA_WINDOW_MS });
+
+    // The oldest use leaves the window first, freeing one use.
+    vi.setSystemTime(T0 + QUOTA_WINDOW_MS + 1);
+    expect(store.consume('device-1', 'anonymous', 'analysis')).not.toBeNull();
+    expect(store.consume('device-1', 'anonymous', 'analysis')).toBeNull();
+  });
+
+  it("applies the tier's limits, and the anonymous ones to unknown tiers", () => {
+    const store = newStore();
+    expect(store.status('account-1', 'research').analyses.limit).toBe(50);
+    expect(store.status('account-2', 'no-such-tier')).toMatchObject({ tier: 'anonymous', analyses: { limit: 5 }, chatTurnsPerSession: 5 });
+  });
+
+  it("caps chat turns per session as well as per day", () => {
+    const store = newStore();
+    for (let i = 0; i < 5; i++) expect(store.consume('device-1', 'anonymous', 'chat', 'session-1')).not.toBeNull();
+    expect(store.consume('device-1', 'anonymous', 'chat', 'session-1')).toBeNull();
+    expect(store.consume('device-1', 'anonymous', 'chat', 'session-2')).not.toBeNull();
+    expect(store.status('device-1', 'anonymous').chatTurns.used).toBe(6);
+  });
+
+  it("gives back a refunded use and its session turn", () => {
+    const store = newStore();
+    let at: number | null = null;
+    for (let i = 0; i < 5; i++) at = store.consume('device-1', 'anonymous', 'chat', 'session-1');
+    store.refund('device-1', 'chat', at!, 'session-1');
+    expect(store.status('device-1', 'anonymous').chatTurns.used).toBe(4);
+    expect(store.consume('device-1', 'anonymous', 'chat', 'session-1')).not.toBeNull();
+    expect(store.consume('device-1', 'anonymous', 'chat', 'session-1')).toBeNull();
+  });
+
+  it("keeps subjects apart", () => {
+    const store = newStore();
+    expect(store.consume('10.0.0.1', 'anonymous', 'device')).not.toBeNull();
+    expect(store.consume('10.0.0.1', 'anonymous', 'device')).not.toBeNull();
+    expect(store.consume('10.0.0.1', 'anonymous', 'device')).toBeNull();
+    expect(store.consume('10.0.0.2', 'anonymous', 'device')).not.toBeNull();
+  });
+
+  it("sweeps out subjects whose uses have all expired", () => {
+    const store = newStore('/quota.json');
+    store.consume('device-1', 'anonymous', 'analysis');
+    vi.advanceTimersByTime(23 * HOUR);
+    store.consume('device-2', 'anonymous', 'analysis');
+    vi.advanceTimersByTime(1000);
+    expect(Object.keys(JSON.parse(vi.mocked(writeFile).mock.lastCall![1] as string))).toEqual(['device-1', 'device-2']);
+
+    // The hourly sweep after the first use expires drops device-1, then saves.
+    vi.advanceTimersByTime(2 * HOUR);
+    expect(Object.keys(JSON.parse(vi.mocked(writeFile).mock.lastCall![1] as string))).toEqual(['device-2']);
+  });
+});
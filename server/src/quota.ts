@@ -0,0 +1,163 @@
+import { readFileSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { QuotaStatus, QuotaUsage } from "../../services/quotaService";
+
+export interface QuotaTier {
+  analysesPerDay: number;
+  chatTurnsPerDay: number;
+  chatTurnsPerSession: number;
+}
+
+// 'anonymous' applies to device tokens; account tokens name their own tier.
+export const DEFAULT_TIERS: Record<string, QuotaTier> = {
+  anonymous: { analysesPerDay: 5, chatTurnsPerDay: 25, chatTurnsPerSession: 5 },
+  research: { analysesPerDay: 50, chatTurnsPerDay: 500, chatTurnsPerSession: 20 }
+};
+
+// Limits are over a rolling window, as the client-side log was.
+export const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// How often subjects with nothing left in the window are dropped.
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// 'transcription' is capped at the chat limit so /transcribe cannot be used as a free model call.
+// 'device' counts token registrations per network address.
+export type QuotaAction = 'analysis' | 'chat' | 'transcription' | 'device';
+
+interface SubjectUsage {
+  // Timestamps of uses inside the window, oldest first.
+  uses: Partial<Record<QuotaAction, number[]>>;
+  sessions: Record<string, { turns: number; lastAt: number }>;
+}
+
+export interface QuotaStore {
+  status(subject: string, tier: string): QuotaStatus;
+  // Records a use and returns its timestamp, or null when the limit is reached.
+  consume(subject: string, tier: string, action: QuotaAction, sessionId?: string): number | null;
+  // Gives back a use whose request failed, identified by consume's timestamp.
+  refund(subject: string, action: QuotaAction, at: number, sessionId?: string): void;
+}
+
+export interface QuotaStoreOptions {
+  tiers: Record<string, QuotaTier>;
+  deviceTokensPerAddress: number;
+  // Usage is kept in memory and, when set, mirrored to this JSON file so a restart does not reset it.
+  filePath?: string;
+}
+
+/**
+ * Per-subject usage counters. A subject is a device or account (or, for
+ * 'device', a network address). Unknown tiers get the anonymous limits.
+ */
+export const createQuotaStore = ({ tiers, deviceTokensPerAddress, filePath }: QuotaStoreOptions): QuotaStore => {
+  const usage = new Map<string, SubjectUsage>();
+  let saveTimer: NodeJS.Timeout | null = null;
+
+  if (filePath) {
+    try {
+      const saved = JSON.parse(readFileSync(filePath, 'utf8')) as Record<string, SubjectUsage>;
+      Object.entries(saved).forEach(([subject, entry]) => usage.set(subject, entry));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') console.error(`Quota file ${filePath} could not be read`, e);
+    }
+  }
+
+  // Writes are batched; losing the last second of usage on a crash is acceptable.
+  const scheduleSave = () => {
+    if (!filePath || saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      writeFile(filePath, JSON.stringify(Object.fromEntries(usage))).catch(e => console.error("Quota file could not be written", e));
+    }, 1000);
+  };
+
+  const tierLimits = (tier: string): QuotaTier => tiers[tier] ?? tiers.anonymous ?? DEFAULT_TIERS.anonymous;
+
+  const limitFor = (tier: string, action: QuotaAction): number => {
+    const limits = tierLimits(tier);
+    switch (action) {
+      case 'analysis': return limits.analysesPerDay;
+      case 'chat':
+      case 'transcription': return limits.chatTurnsPerDay;
+      case 'device': return deviceTokensPerAddress;
+    }
+  };
+
+  // Drops uses and sessions that have left the window; false when nothing is left.
+  const prune = (entry: SubjectUsage, since: number): boolean => {
+    for (const action of Object.keys(entry.uses) as QuotaAction[]) {
+      const uses = entry.uses[action]!.filter(at => at > since);
+      if (uses.length > 0) entry.uses[action] = uses;
+      else delete entry.uses[action];
+    }
+    for (const [id, session] of Object.entries(entry.sessions)) {
+      if (session.lastAt <= since) delete entry.sessions[id];
+    }
+    return Object.keys(entry.uses).length > 0 || Object.keys(entry.sessions).length > 0;
+  };
+
+  // The subject's usage inside the window. Only subjects with some are kept,
+  // so every device that ever registered does not stay in memory.
+  const current = (subject: string, now: number): SubjectUsage => {
+    const entry = usage.get(subject);
+    if (entry && prune(entry, now - QUOTA_WINDOW_MS)) return entry;
+    usage.delete(subject);
+    return { uses: {}, sessions: {} };
+  };
+
+  // Subjects that stop sending requests are only reached by a sweep.
+  setInterval(() => {
+    const since = Date.now() - QUOTA_WINDOW_MS;
+    const before = usage.size;
+    usage.forEach((entry, subject) => {
+      if (!prune(entry, since)) usage.delete(subject);
+    });
+    if (usage.size !== before) scheduleSave();
+  }, SWEEP_INTERVAL_MS).unref();
+
+  const describe = (uses: number[], limit: number): QuotaUsage => ({
+    limit,
+    used: uses.length,
+    remaining: Math.max(0, limit - uses.length),
+    resetsAt: uses.length > 0 ? uses[0] + QUOTA_WINDOW_MS : null
+  });
+
+  return {
+    status(subject, tier) {
+      const entry = current(subject, Date.now());
+      return {
+        tier: tiers[tier] ? tier : 'anonymous',
+        analyses: describe(entry.uses.analysis ?? [], limitFor(tier, 'analysis')),
+        chatTurns: describe(entry.uses.chat ?? [], limitFor(tier, 'chat')),
+        chatTurnsPerSession: tierLimits(tier).chatTurnsPerSession
+      };
+    },
+
+    consume(subject, tier, action, sessionId) {
+      const now = Date.now();
+      const entry = current(subject, now);
+      const uses = entry.uses[action] ?? [];
+      if (uses.length >= limitFor(tier, action)) return null;
+      if (action === 'chat' && sessionId) {
+        const session = entry.sessions[sessionId] ?? { turns: 0, lastAt: now };
+        if (session.turns >= tierLimits(tier).chatTurnsPerSession) return null;
+        entry.sessions[sessionId] = { turns: session.turns + 1, lastAt: now };
+      }
+      entry.uses[action] = [...uses, now];
+      usage.set(subject, entry);
+      scheduleSave();
+      return now;
+    },
+
+    refund(subject, action, at, sessionId) {
+      const entry = usage.get(subject);
+      const uses = entry?.uses[action];
+      if (!entry || !uses) return;
+      const index = uses.lastIndexOf(at);
+      if (index >= 0) uses.splice(index, 1);
+      const session = sessionId ? entry.sessions[sessionId] : undefined;
+      if (action === 'chat' && session) session.turns = Math.max(0, session.turns - 1);
+      scheduleSave();
+    }
+  };
+};
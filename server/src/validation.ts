@@ -0,0 +1,234 @@
+import { AcousticFeatures, ChatMessage, HealthAnalysis, UserProfile, VoiceTaskId } from "../../types";
+import { AnalysisRequest, ChatRequest, TranscriptionRequest, VoiceTaskSegment } from "../../services/analysisProvider";
+import { AnalysisValidationError, validateHealthAnalysis } from "../../services/analysisValidator";
+import { normaliseAcousticFeatures } from "../../services/acousticService";
+import { normaliseProfile } from "../../services/profileService";
+import { VOICE_TASK_IDS } from "../../services/voiceProtocol";
+import { ServerConfig } from "./config";
+
+// What the model accepts inline; anything else is refused before it costs a call.
+export const AUDIO_MIME_TYPES = [
+  'audio/webm', 'audio/ogg', 'audio/wav', 'audio/x-wav', 'audio/wave',
+  'audio/mpeg', 'audio/mp3', 'audio/mp4', 'audio/aac', 'audio/flac', 'audio/x-flac'
+];
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// The language name goes into the prompt verbatim; real names are far shorter.
+const MAX_LANGUAGE_CHARS = 64;
+
+/**
+ * A request body the server will not forward. `status` is the HTTP status to
+ * answer with (400, 413 or 415); `issues` says what was wrong, field by field.
+ * The response's kind is `invalid_request`.
+ */
+export class RequestValidationError extends Error {
+  status: number;
+  issues: string[];
+
+  constructor(issues: string[], status = 400) {
+    super(`Invalid request: ${issues.join("; ")}`);
+    this.name = 'RequestValidationError';
+    this.status = status;
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+// Collects issues across a body so one response lists everything to fix.
+// Size and type problems outrank plain 400s in the status they produce.
+const createIssues = () => {
+  const issues: string[] = [];
+  let status = 400;
+  return {
+    add(issue: string, issueStatus = 400) {
+      issues.push(issue);
+      if (issueStatus > status) status = issueStatus;
+    },
+    throwIfAny() {
+      if (issues.length > 0) throw new RequestValidationError(issues, status);
+    }
+  };
+};
+type Issues = ReturnType<typeof createIssues>;
+
+const readString = (body: Record<string, unknown>, field: string, issues: Issues, required = true): string | undefined => {
+  const value = body[field];
+  if (value === undefined && !required) return undefined;
+  if (typeof value !== 'string' || value === '') {
+    issues.add(`${field} must be a non-empty string`);
+    return undefined;
+  }
+  return value;
+};
+
+const readLanguage = (body: Record<string, unknown>, issues: Issues): string | undefined => {
+  const language = readString(body, 'language', issues);
+  if (language !== undefined && language.length > MAX_LANGUAGE_CHARS) {
+    issues.add(`language is longer than ${MAX_LANGUAGE_CHARS} characters`);
+    return undefined;
+  }
+  return language;
+};
+
+const checkMedia = (
+  base64: string | undefined,
+  mimeType: string | undefined,
+  allowed: string[],
+  maxBytes: number,
+  path: string,
+  issues: Issues
+) => {
+  if (mimeType !== undefined) {
+    // Codec parameters ("audio/webm;codecs=opus") do not change the container.
+    const base = mimeType.split(';')[0].trim().toLowerCase();
+    if (!allowed.includes(base)) issues.add(`${path} type ${mimeType} is not accepted`, 415);
+  }
+  if (base64 === undefined) return;
+  if (!BASE64.test(base64)) {
+    issues.add(`${path} must be base64 encoded`);
+    return;
+  }
+  const bytes = Math.floor((base64.length * 3) / 4);
+  if (bytes > maxBytes) issues.add(`${path} is ${bytes} bytes; the limit is ${maxBytes}`, 413);
+};
+
+// Fields a profile cannot have are dropped, as the client does with a stored profile.
+const readProfile = (body: Record<string, unknown>, issues: Issues): UserProfile | undefined => {
+  if (body.profile === undefined) return undefined;
+  if (!isObject(body.profile)) {
+    issues.add("profile must be an object");
+    return undefined;
+  }
+  return normaliseProfile(body.profile) ?? undefined;
+};
+
+const readAcousticFeatures = (value: unknown, path: string, issues: Issues): AcousticFeatures | undefined => {
+  if (value === undefined) return undefined;
+  const features = normaliseAcousticFeatures(value);
+  if (!features) issues.add(`${path} must hold a finite number for each feature`);
+  return features ?? undefined;
+};
+
+export const validateAnalysisRequest = (body: unknown, config: ServerConfig): AnalysisRequest => {
+  const issues = createIssues();
+  if (!isObject(body)) throw new RequestValidationError(["Body must be a JSON object"]);
+
+  const audioBase64 = readString(body, 'audioBase64', issues);
+  const audioMimeType = readString(body, 'audioMimeType', issues);
+  const imageBase64 = readString(body, 'imageBase64', issues, false);
+  const imageMimeType = readString(body, 'imageMimeType', issues, imageBase64 !== undefined);
+  const language = readLanguage(body, issues);
+  checkMedia(audioBase64, audioMimeType, AUDIO_MIME_TYPES, config.maxAudioBytes, 'audio', issues);
+  checkMedia(imageBase64, imageMimeType, IMAGE_MIME_TYPES, config.maxImageBytes, 'image', issues);
+
+  const acousticFeatures = readAcousticFeatures(body.acousticFeatures, 'acousticFeatures', issues);
+
+  let segments: VoiceTaskSegment[] | undefined;
+  if (body.segments !== undefined) {
+    if (!Array.isArray(body.segments) || body.segments.length > VOICE_TASK_IDS.length) {
+      issues.add(`segments must be an array of at most ${VOICE_TASK_IDS.length} recordings`);
+    } else {
+      segments = [];
+      body.segments.forEach((segment: unknown, i: number) => {
+        if (!isObject(segment)) {
+          issues.add(`segments[${i}] must be an object`);
+          return;
+        }
+        const task = segment.task as VoiceTaskId;
+        if (!VOICE_TASK_IDS.includes(task)) issues.add(`segments[${i}].task must be one of ${VOICE_TASK_IDS.join(", ")}`);
+        const segmentAudio = readString(segment, 'audioBase64', issues);
+        const segmentMime = readString(segment, 'audioMimeType', issues);
+        checkMedia(segmentAudio, segmentMime, AUDIO_MIME_TYPES, config.maxAudioBytes, `segments[${i}].audio`, issues);
+        segments!.push({
+          task,
+          audioBase64: segmentAudio!,
+          audioMimeType: segmentMime!,
+          acousticFeatures: readAcousticFeatures(segment.acousticFeatures, `segments[${i}].acousticFeatures`, issues)
+        });
+      });
+    }
+  }
+
+  const profile = readProfile(body, issues);
+  issues.throwIfAny();
+
+  return {
+    audioBase64: audioBase64!,
+    audioMimeType: audioMimeType!,
+    imageBase64,
+    imageMimeType,
+    language: language!,
+    acousticFeatures,
+    profile,
+    segments
+  };
+};
+
+export const validateChatRequest = (body: unknown, config: ServerConfig): ChatRequest => {
+  const issues = createIssues();
+  if (!isObject(body)) throw new RequestValidationError(["Body must be a JSON object"]);
+
+  const language = readLanguage(body, issues);
+  const message = typeof body.message === 'string' ? body.message : undefined;
+  if (message === undefined) issues.add("message must be a string");
+  else if (message.length > config.maxChatChars) issues.add(`message is longer than ${config.maxChatChars} characters`, 413);
+
+  const audioBase64 = readString(body, 'audioBase64', issues, false);
+  checkMedia(audioBase64, undefined, AUDIO_MIME_TYPES, config.maxAudioBytes, 'audio', issues);
+  if (!message && !audioBase64) issues.add("message or audioBase64 is required");
+  const sessionId = readString(body, 'sessionId', issues, false);
+  if (sessionId && sessionId.length > 100) issues.add("sessionId is longer than 100 characters");
+
+  const history: ChatMessage[] = [];
+  if (!Array.isArray(body.history)) {
+    issues.add("history must be an array");
+  } else if (body.history.length > config.maxChatHistory) {
+    issues.add(`history has more than ${config.maxChatHistory} messages`, 413);
+  } else {
+    body.history.forEach((entry: unknown, i: number) => {
+      if (!isObject(entry) || (entry.role !== 'user' && entry.role !== 'model') || typeof entry.text !== 'string') {
+        issues.add(`history[${i}] must have a role and text`);
+        return;
+      }
+      if (entry.text.length > config.maxChatChars * 4) issues.add(`history[${i}] is too long`, 413);
+      // Only what the model reads is forwarded; blob URLs and UI flags stay behind.
+      history.push({
+        role: entry.role,
+        text: entry.text,
+        isAudio: entry.isAudio === true || undefined,
+        transcript: typeof entry.transcript === 'string' ? entry.transcript : undefined
+      });
+    });
+  }
+
+  let analysisContext: HealthAnalysis | undefined;
+  try {
+    // A result the client already holds, which may include optional domains this server does not enable.
+    analysisContext = validateHealthAnalysis(body.analysisContext, { saved: true }).analysis;
+  } catch (e) {
+    if (!(e instanceof AnalysisValidationError)) throw e;
+    e.issues.forEach(issue => issues.add(`analysisContext: ${issue}`));
+  }
+
+  const profile = readProfile(body, issues);
+  issues.throwIfAny();
+
+  return { history, message: message!, analysisContext: analysisContext!, language: language!, audioBase64, profile, sessionId };
+};
+
+export const validateTranscriptionRequest = (body: unknown, config: ServerConfig): TranscriptionRequest => {
+  const issues = createIssues();
+  if (!isObject(body)) throw new RequestValidationError(["Body must be a JSON object"]);
+
+  const audioBase64 = readString(body, 'audioBase64', issues);
+  const audioMimeType = readString(body, 'audioMimeType', issues);
+  const language = readLanguage(body, issues);
+  checkMedia(audioBase64, audioMimeType, AUDIO_MIME_TYPES, config.maxAudioBytes, 'audio', issues);
+  issues.throwIfAny();
+
+  return { audioBase64: audioBase64!, audioMimeType: audioMimeType!, language: language! };
+};
@@ -0,0 +1,284 @@
+import { AcousticFeatures } from "../types";
+
+// Everything is measured on a mono 16 kHz copy of the signal: enough bandwidth
+// for F0 and energy work, and it keeps the autocorrelation loop cheap.
+const ANALYSIS_RATE = 16000;
+const FRAME_MS = 40;
+const HOP_MS = 10;
+
+// Adult speaking F0 range; anything outside is treated as unvoiced.
+const MIN_F0_HZ = 75;
+const MAX_F0_HZ = 500;
+// Normalised autocorrelation peak required to call a frame voiced.
+const VOICING_THRESHOLD = 0.45;
+
+const MIN_PAUSE_MS = 250;
+// Syllable nuclei must be at least this far apart.
+const MIN_SYLLABLE_GAP_MS = 100;
+// Below this many voiced frames pitch statistics are not reported.
+const MIN_VOICED_FRAMES = 10;
+
+interface FrameAnalysis {
+  rms: number;
+  peak: number;
+  f0: number | null;
+  periodicity: number;
+}
+
+const round = (value: number, digits: number) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))));
+  return sorted[index];
+};
+
+const mean = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+
+export const toMono = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+// Box-filter decimation. Crude as an anti-alias filter, but adequate for
+// pitch and envelope measurements below 4 kHz.
+export const downsample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate <= toRate) return samples;
+
+  const factor = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < output.length; i++) {
+    const start = Math.floor(i * factor);
+    const end = Math.min(samples.length, Math.floor((i + 1) * factor));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += samples[j];
+    output[i] = sum / Math.max(1, end - start);
+  }
+  return output;
+};
+
+const removeDcOffset = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i];
+  const offset = samples.length > 0 ? sum / samples.length : 0;
+  for (let i = 0; i < samples.length; i++) samples[i] -= offset;
+};
+
+/**
+ * Normalised autocorrelation pitch estimate for one frame. Returns the best
+ * lag's correlation as `periodicity`, which doubles as the HNR input.
+ */
+const estimatePitch = (frame: Float32Array, sampleRate: number): { f0: number | null; periodicity: number } => {
+  const minLag = Math.floor(sampleRate / MAX_F0_HZ);
+  const maxLag = Math.min(frame.length - 1, Math.ceil(sampleRate / MIN_F0_HZ));
+
+  const correlations = new Float32Array(maxLag + 2);
+  let bestLag = -1;
+  let best = 0;
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let cross = 0, energyA = 0, energyB = 0;
+    for (let i = 0; i + lag < frame.length; i++) {
+      cross += frame[i] * frame[i + lag];
+      energyA += frame[i] * frame[i];
+      energyB += frame[i + lag] * frame[i + lag];
+    }
+    const r = energyA > 0 && energyB > 0 ? cross / Math.sqrt(energyA * energyB) : 0;
+    correlations[lag] = r;
+    if (r > best) {
+      best = r;
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag < 0 || best < VOICING_THRESHOLD) return { f0: null, periodicity: best };
+
+  // Parabolic interpolation around the peak for sub-sample lag precision.
+  let refinedLag = bestLag;
+  if (bestLag > minLag && bestLag < maxLag) {
+    const a = correlations[bestLag - 1], b = correlations[bestLag], c = correlations[bestLag + 1];
+    const denominator = a - 2 * b + c;
+    if (denominator !== 0) refinedLag = bestLag + 0.5 * (a - c) / denominator;
+  }
+
+  return { f0: sampleRate / refinedLag, periodicity: best };
+};
+
+const analyzeFrames = (samples: Float32Array, sampleRate: number, speechThreshold: (rms: number[]) => number) => {
+  const frameSize = Math.round((FRAME_MS / 1000) * sampleRate);
+  const hopSize = Math.round((HOP_MS / 1000) * sampleRate);
+  const frames: FrameAnalysis[] = [];
+
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    const frame = samples.subarray(start, start + frameSize);
+    let sumSquares = 0, peak = 0;
+    for (let i = 0; i < frame.length; i++) {
+      sumSquares += frame[i] * frame[i];
+      peak = Math.max(peak, Math.abs(frame[i]));
+    }
+    frames.push({ rms: Math.sqrt(sumSquares / frame.length), peak, f0: null, periodicity: 0 });
+  }
+
+  const threshold = speechThreshold(frames.map(f => f.rms));
+  frames.forEach((f, index) => {
+    if (f.rms < threshold) return;
+    const start = index * hopSize;
+    const pitch = estimatePitch(samples.subarray(start, start + frameSize), sampleRate);
+    f.f0 = pitch.f0;
+    f.periodicity = pitch.periodicity;
+  });
+
+  return { frames, threshold };
+};
+
+/**
+ * Computes reproducible voice biomarkers from a decoded recording.
+ *
+ * Jitter and shimmer are frame-level approximations (period and peak
+ * amplitude variation between consecutive 10 ms voiced frames) rather than
+ * true cycle-to-cycle measures, so compare them against this extractor's own
+ * history, not against clinical reference values.
+ */
+export const extractAcousticFeatures = (buffer: AudioBuffer): AcousticFeatures => {
+  const samples = downsample(toMono(buffer), buffer.sampleRate, ANALYSIS_RATE);
+  const sampleRate = Math.min(buffer.sampleRate, ANALYSIS_RATE);
+  // Never mutate the AudioBuffer's own channel data.
+  const signal = samples === buffer.getChannelData(0) ? samples.slice() : samples;
+  removeDcOffset(signal);
+
+  // Speech is anything within 25 dB of the loud end of the recording, and
+  // clearly above its noise floor.
+  const { frames, threshold } = analyzeFrames(signal, sampleRate, rms =>
+    Math.max(percentile(rms, 95) * 0.056, percentile(rms, 10) * 2, 1e-4)
+  );
+
+  const isSpeech = frames.map(f => f.rms >= threshold);
+  const firstSpeech = isSpeech.indexOf(true);
+  const lastSpeech = isSpeech.lastIndexOf(true);
+
+  // --- Pitch, jitter, shimmer, HNR ---
+  const voiced = frames.filter(f => f.f0 !== null);
+  const f0Values = voiced.map(f => f.f0 as number);
+
+  const periodDiffs: number[] = [];
+  const amplitudeDiffs: number[] = [];
+  for (let i = 1; i < frames.length; i++) {
+    const prev = frames[i - 1], curr = frames[i];
+    if (prev.f0 === null || curr.f0 === null) continue;
+    periodDiffs.push(Math.abs(1 / curr.f0 - 1 / prev.f0));
+    amplitudeDiffs.push(Math.abs(curr.peak - prev.peak));
+  }
+
+  const hasPitch = voiced.length >= MIN_VOICED_FRAMES && periodDiffs.length > 0;
+  const meanPeriod = mean(f0Values.map(f0 => 1 / f0));
+  const meanPeak = mean(voiced.map(f => f.peak));
+  const hnrValues = voiced.map(f => {
+    const r = Math.min(0.999, f.periodicity);
+    return 10 * Math.log10(r / (1 - r));
+  });
+
+  // --- Pauses ---
+  const minPauseFrames = Math.ceil(MIN_PAUSE_MS / HOP_MS);
+  let pauseFrames = 0;
+  let run = 0;
+  if (firstSpeech >= 0) {
+    for (let i = firstSpeech; i <= lastSpeech + 1; i++) {
+      if (i <= lastSpeech && !isSpeech[i]) {
+        run++;
+      } else {
+        if (run >= minPauseFrames) pauseFrames += run;
+        run = 0;
+      }
+    }
+  }
+  const spanFrames = firstSpeech >= 0 ? lastSpeech - firstSpeech + 1 : 0;
+
+  // --- Syllable rate: peaks in the smoothed energy envelope of voiced frames ---
+  const smoothed = frames.map((_, i) => {
+    const window = frames.slice(Math.max(0, i - 2), i + 3);
+    return mean(window.map(f => f.rms));
+  });
+  const gap = Math.ceil(MIN_SYLLABLE_GAP_MS / HOP_MS);
+  let nuclei = 0;
+  let lastNucleus = -Infinity;
+  for (let i = 1; i < frames.length - 1; i++) {
+    if (frames[i].f0 === null || smoothed[i] < threshold * 2) continue;
+    if (smoothed[i] < smoothed[i - 1] || smoothed[i] < smoothed[i + 1]) continue;
+    if (i - lastNucleus < gap) continue;
+    nuclei++;
+    lastNucleus = i;
+  }
+  const speakingSeconds = ((spanFrames - pauseFrames) * HOP_MS) / 1000;
+
+  return {
+    durationSeconds: round(buffer.duration, 2),
+    f0MeanHz: hasPitch ? round(mean(f0Values), 1) : null,
+    f0MinHz: hasPitch ? round(percentile(f0Values, 5), 1) : null,
+    f0MaxHz: hasPitch ? round(percentile(f0Values, 95), 1) : null,
+    jitterPercent: hasPitch ? round((mean(periodDiffs) / meanPeriod) * 100, 2) : null,
+    shimmerPercent: hasPitch && meanPeak > 0 ? round((mean(amplitudeDiffs) / meanPeak) * 100, 2) : null,
+    hnrDb: hasPitch ? round(mean(hnrValues), 1) : null,
+    pauseRatio: spanFrames > 0 ? round(pauseFrames / spanFrames, 3) : 0,
+    syllableRate: speakingSeconds > 0 ? round(nuclei / speakingSeconds, 2) : 0,
+  };
+};
+
+export const decodeAudioBlob = async (audioBlob: Blob): Promise<AudioBuffer> => {
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    return await audioContext.decodeAudioData(await audioBlob.arrayBuffer());
+  } finally {
+    audioContext.close();
+  }
+};
+
+/**
+ * Plain-text rendering of the features for the analysis prompt.
+ */
+export const describeAcousticFeatures = (features: AcousticFeatures): string => {
+  const value = (v: number | null, unit: string) => (v === null ? "not measurable" : `${v} ${unit}`);
+  const range = features.f0MinHz !== null && features.f0MaxHz !== null
+    ? `${features.f0MinHz}–${features.f0MaxHz} Hz`
+    : "not measurable";
+
+  return [
+    `- Duration: ${features.durationSeconds} s`,
+    `- Mean F0: ${value(features.f0MeanHz, "Hz")}`,
+    `- F0 range (5th–95th percentile): ${range}`,
+    `- Jitter: ${value(features.jitterPercent, "%")}`,
+    `- Shimmer: ${value(features.shimmerPercent, "%")}`,
+    `- HNR: ${value(features.hnrDb, "dB")}`,
+    `- Pause ratio: ${Math.round(features.pauseRatio * 100)}% of speaking time`,
+    `- Syllable rate: ${features.syllableRate} syllables/s`,
+  ].join("\n");
+};
+
+// Null when the signal was too unvoiced to measure them.
+const NULLABLE_FEATURES: (keyof AcousticFeatures)[] = ['f0MeanHz', 'f0MinHz', 'f0MaxHz', 'jitterPercent', 'shimmerPercent', 'hnrDb'];
+const REQUIRED_FEATURES: (keyof AcousticFeatures)[] = ['durationSeconds', 'pauseRatio', 'syllableRate'];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Checks features that come from outside this module (an imported file, a
+ * request to the proxy) before they reach the prompt: every field must be a
+ * finite number, or null where extraction can fail. Returns null otherwise.
+ */
+export const normaliseAcousticFeatures = (raw: unknown): AcousticFeatures | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const value = raw as Record<string, unknown>;
+  if (!REQUIRED_FEATURES.every(field => isFiniteNumber(value[field]))) return null;
+  if (!NULLABLE_FEATURES.every(field => value[field] === null || isFiniteNumber(value[field]))) return null;
+  return Object.fromEntries([...REQUIRED_FEATURES, ...NULLABLE_FEATURES].map(field => [field, value[field]])) as unknown as AcousticFeatures;
+};
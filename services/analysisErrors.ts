@@ -0,0 +1,148 @@
+import { ApiError } from "@google/genai";
+import { t } from "./i18n";
+
+export type AnalysisErrorKind =
+  | 'quota'
+  | 'safety'
+  | 'network'
+  | 'invalid_input'
+  | 'malformed_output'
+  | 'cancelled';
+
+/**
+ * Base class for every failure the analysis flow can surface. `message` is
+ * written for the user, in the UI language; `kind` selects the recovery UI
+ * and `retryable` tells the retry loop whether trying again could help.
+ */
+export class AnalysisError extends Error {
+  kind: AnalysisErrorKind;
+  retryable: boolean;
+
+  constructor(kind: AnalysisErrorKind, message: string, retryable = false) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+export class QuotaExceededError extends AnalysisError {
+  constructor() {
+    super('quota', t('error.quota'));
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class SafetyBlockError extends AnalysisError {
+  reason?: string;
+
+  constructor(reason?: string) {
+    super('safety', t('error.safety'));
+    this.name = 'SafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+export class NetworkError extends AnalysisError {
+  constructor(detail?: string) {
+    super('network', t('error.network'), true);
+    this.name = 'NetworkError';
+    if (detail) this.cause = detail;
+  }
+}
+
+export class InvalidInputError extends AnalysisError {
+  constructor(message = t('error.invalidInput')) {
+    super('invalid_input', message);
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class MalformedOutputError extends AnalysisError {
+  constructor(message = t('error.malformedOutput')) {
+    // Providers already retry with a corrective prompt where they can, so the
+    // outer retry loop leaves this to the user.
+    super('malformed_output', message);
+    this.name = 'MalformedOutputError';
+  }
+}
+
+export class AnalysisCancelledError extends AnalysisError {
+  constructor() {
+    super('cancelled', t('error.cancelled'));
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError' ||
+  (error instanceof Error && error.name === 'AbortError');
+
+/**
+ * Maps whatever a provider threw (SDK errors, fetch failures, HTTP status
+ * errors) onto the AnalysisError hierarchy.
+ */
+export const classifyError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+  if (isAbortError(error)) return new AnalysisCancelledError();
+
+  const status = error instanceof ApiError
+    ? error.status
+    : (error as { status?: unknown })?.status;
+
+  if (typeof status === 'number') {
+    if (status === 429) return new QuotaExceededError();
+    if (status === 400 || status === 413 || status === 415 || status === 422) return new InvalidInputError();
+    if (status === 408 || status >= 500) return new NetworkError(`HTTP ${status}`);
+  }
+
+  // fetch() rejects with a TypeError when the request never got a response.
+  if (error instanceof TypeError) return new NetworkError(error.message);
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return new NetworkError("offline");
+
+  return new AnalysisError('network', t('error.unknown'), true);
+};
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  onRetry?: (attempt: number, error: AnalysisError) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new AnalysisCancelledError());
+  const timeout = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timeout);
+    reject(new AnalysisCancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `operation`, retrying retryable failures with exponential backoff and
+ * jitter (base, 2x base, 4x base...). Everything thrown is an AnalysisError.
+ */
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  { signal, maxAttempts = 3, baseDelayMs = 1000, onRetry }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw new AnalysisCancelledError();
+
+    try {
+      return await operation();
+    } catch (raw) {
+      const error = signal?.aborted ? new AnalysisCancelledError() : classifyError(raw);
+      if (!error.retryable || attempt >= maxAttempts) throw error;
+
+      onRetry?.(attempt, error);
+      const backoff = baseDelayMs * Math.pow(2, attempt - 1);
+      await sleep(backoff + Math.random() * backoff * 0.25, signal);
+    }
+  }
+};
@@ -0,0 +1,106 @@
+import { HealthAnalysis, ChatMessage, AcousticFeatures, ModelUsage, UserProfile, VoiceTaskId } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createHttpProvider } from "./httpProvider";
+import { createFixtureProvider } from "./fixtureProvider";
+import { QuotaStatus, forgetQuotaToken, quotaHeaders } from "./quotaService";
+
+// One recording from the guided voice protocol, labelled by task.
+export interface VoiceTaskSegment {
+  task: VoiceTaskId;
+  audioBase64: string;
+  audioMimeType: string;
+  acousticFeatures?: AcousticFeatures;
+}
+
+export interface AnalysisRequest {
+  audioBase64: string;
+  audioMimeType: string;
+  imageBase64?: string;
+  imageMimeType?: string;
+  language: string;
+  acousticFeatures?: AcousticFeatures;
+  profile?: UserProfile;
+  // The other protocol tasks. When present, the main audio is the free-speech task.
+  segments?: VoiceTaskSegment[];
+  signal?: AbortSignal;
+  // Called once per model call with its token counts. Like `signal`, never serialised.
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+export interface ChatRequest {
+  history: ChatMessage[];
+  message: string;
+  analysisContext: HealthAnalysis;
+  language: string;
+  audioBase64?: string;
+  profile?: UserProfile;
+  // Groups the turns of one conversation for per-session quotas.
+  sessionId?: string;
+  signal?: AbortSignal;
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+export interface TranscriptionRequest {
+  audioBase64: string;
+  audioMimeType: string;
+  language: string;
+  signal?: AbortSignal;
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+/**
+ * Everything the app needs from a model backend. Implementations throw on
+ * failure (ideally an AnalysisError, otherwise whatever the transport threw);
+ * the service layer classifies, retries and decides what the user sees.
+ */
+export interface AnalysisProvider {
+  readonly name: string;
+  analyzeHealth(request: AnalysisRequest): Promise<HealthAnalysis>;
+  // Yields the reply in pieces as they are generated.
+  chat(request: ChatRequest): AsyncIterable<string>;
+  // Verbatim transcript of a recorded chat message.
+  transcribe(request: TranscriptionRequest): Promise<string>;
+  // Remaining usage, for backends that enforce quotas.
+  quota?(): Promise<QuotaStatus>;
+}
+
+export type AnalysisProviderKind = 'gemini' | 'http' | 'fixture';
+
+// The proxy in server/, mounted on the app's own origin (vite proxies it in development).
+const DEFAULT_HTTP_BASE_URL = "/api";
+
+// Requests to the proxy carry the device's quota token.
+const createProxyProvider = (): AnalysisProvider => {
+  const baseUrl = (process.env.ANALYSIS_BASE_URL || DEFAULT_HTTP_BASE_URL).replace(/\/+$/, "");
+  return createHttpProvider(baseUrl, { getHeaders: () => quotaHeaders(baseUrl), onUnauthorized: forgetQuotaToken });
+};
+
+const createConfiguredProvider = (): AnalysisProvider => {
+  const kind = (process.env.ANALYSIS_PROVIDER || 'http') as AnalysisProviderKind;
+
+  switch (kind) {
+    case 'http': return createProxyProvider();
+    case 'fixture': return createFixtureProvider();
+    case 'gemini': return createGeminiProvider(process.env.API_KEY);
+    default:
+      console.warn(`Unknown ANALYSIS_PROVIDER "${kind}", falling back to the proxy`);
+      return createProxyProvider();
+  }
+};
+
+let activeProvider: AnalysisProvider | null = null;
+
+/**
+ * Returns the provider selected by ANALYSIS_PROVIDER, created on first use so
+ * that no client is built (and no key is needed) for providers that are never
+ * selected.
+ */
+export const getAnalysisProvider = (): AnalysisProvider => {
+  if (!activeProvider) activeProvider = createConfiguredProvider();
+  return activeProvider;
+};
+
+// Swaps the provider at runtime, e.g. to run the flow offline from fixtures.
+export const setAnalysisProvider = (provider: AnalysisProvider) => {
+  activeProvider = provider;
+};
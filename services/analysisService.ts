@@ -0,0 +1,137 @@
+import { HealthAnalysis, ChatMessage, AcousticFeatures, ModelUsage, UserProfile } from "../types";
+import { getAnalysisProvider, VoiceTaskSegment } from "./analysisProvider";
+import { withRetry, RetryOptions, classifyError } from "./analysisErrors";
+import { QuotaStatus } from "./quotaService";
+import { t } from "./i18n";
+
+export interface AnalysisOptions extends RetryOptions {
+  // Called for every model call, retries and repair attempts included.
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+export const analyzeHealth = async (
+  audioBase64: string,
+  audioMimeType: string = "audio/webm",
+  imageBase64?: string,
+  imageMimeType: string = "image/jpeg",
+  language: string = "English (US)",
+  acousticFeatures?: AcousticFeatures,
+  profile?: UserProfile,
+  segments?: VoiceTaskSegment[],
+  options: AnalysisOptions = {}
+): Promise<HealthAnalysis> => {
+  try {
+    // Transient failures are retried with backoff; anything thrown is an AnalysisError.
+    return await withRetry(() => getAnalysisProvider().analyzeHealth({
+      audioBase64,
+      audioMimeType,
+      imageBase64,
+      imageMimeType,
+      language,
+      acousticFeatures,
+      profile,
+      segments,
+      signal: options.signal,
+      onUsage: options.onUsage
+    }), options);
+  } catch (error) {
+    console.error("Analysis failed:", error);
+    throw error;
+  }
+};
+
+export interface ChatOptions {
+  signal?: AbortSignal;
+  // Identifies the conversation for per-session quotas.
+  sessionId?: string;
+  // Called with the full reply so far each time a chunk arrives.
+  onText?: (textSoFar: string) => void;
+  onUsage?: (usage: ModelUsage) => void;
+}
+
+export interface ChatReply {
+  text: string;
+  // True when the reply was stopped or failed part-way; `text` holds what arrived.
+  interrupted: boolean;
+}
+
+/**
+ * Replays voice turns as text: an audio message becomes its transcript, and
+ * one that was never transcribed is left out rather than sent as a placeholder.
+ */
+const toTextHistory = (history: ChatMessage[]): ChatMessage[] =>
+  history
+    .filter(m => !m.isAudio || m.transcript)
+    .map(m => m.isAudio ? { role: m.role, text: `[Voice message] ${m.transcript}` } : { role: m.role, text: m.text });
+
+export const chatWithHealthAssistant = async (
+  history: ChatMessage[],
+  newMessage: string,
+  analysisContext: HealthAnalysis,
+  language: string = "English (US)",
+  audioBase64?: string,
+  profile?: UserProfile,
+  options: ChatOptions = {}
+): Promise<ChatReply> => {
+  let text = "";
+  try {
+    const stream = getAnalysisProvider().chat({
+      history: toTextHistory(history),
+      message: newMessage,
+      analysisContext,
+      language,
+      audioBase64,
+      profile,
+      sessionId: options.sessionId,
+      signal: options.signal,
+      onUsage: options.onUsage
+    });
+    for await (const chunk of stream) {
+      if (options.signal?.aborted) break;
+      text += chunk;
+      options.onText?.(text);
+    }
+    if (options.signal?.aborted) return { text: text || t('chat.stopped'), interrupted: true };
+    return { text: text || t('chat.noResponse'), interrupted: false };
+  } catch (error) {
+    const stopped = options.signal?.aborted;
+    if (!stopped) console.error("Chat error:", error);
+    // Keep whatever was generated before the stream broke off.
+    if (text) return { text, interrupted: true };
+    if (stopped) return { text: t('chat.stopped'), interrupted: true };
+    if (classifyError(error).kind === 'quota') return { text: t('chat.limitReached'), interrupted: false };
+    return { text: t('chat.connectionError'), interrupted: false };
+  }
+};
+
+// Returns null when transcription fails; the voice message is still sent.
+export const transcribeAudioMessage = async (
+  audioBase64: string,
+  language: string = "English (US)",
+  audioMimeType: string = "audio/webm",
+  signal?: AbortSignal,
+  onUsage?: (usage: ModelUsage) => void
+): Promise<string | null> => {
+  try {
+    const transcript = await getAnalysisProvider().transcribe({ audioBase64, audioMimeType, language, signal, onUsage });
+    return transcript || null;
+  } catch (error) {
+    console.error("Transcription error:", error);
+    return null;
+  }
+};
+
+/**
+ * Remaining usage from the backend, or null when it does not enforce quotas
+ * (direct and fixture providers) or cannot be reached.
+ */
+export const fetchQuota = async (): Promise<QuotaStatus | null> => {
+  const provider = getAnalysisProvider();
+  if (!provider.quota) return null;
+  try {
+    return await provider.quota();
+  } catch (error) {
+    console.error("Quota check failed:", error);
+    return null;
+  }
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { AnalysisValidationError, parseHealthAnalysis, validateHealthAnalysis } from "./analysisValidator";
+
+const CORE_DOMAINS = ['neurological', 'mental_health', 'respiratory', 'cardiovascular', 'metabolic', 'hydration'];
+
+const domainsScored = (scores: number[]) => Object.fromEntries(
+  CORE_DOMAINS.map((id, i) => [id, { score: scores[i], concern_level: 'moderate', indicators: ['Steady pitch'], explanation: 'Within range.' }])
+);
+
+const rawAnalysis = (overrides: Record<string, unknown> = {}) => ({
+  overall_wellness_score: 70,
+  confidence_level: 'high',
+  domain_scores: domainsScored([70, 70, 70, 70, 70, 70]),
+  key_observations: [],
+  recommendations: [],
+  summary: 'Summary.',
+  disclaimer: 'Not a diagnosis.',
+  ...overrides
+});
+
+const issuesOf = (raw: unknown): string[] => {
+  try {
+    validateHealthAnalysis(raw);
+  } catch (e) {
+    if (e instanceof AnalysisValidationError) return e.issues;
+    throw e;
+  }
+  return [];
+};
+
+describe("validateHealthAnalysis", () => {
+  it("accepts a well-formed analysis without repairs", () => {
+    const { analysis, repairs } = validateHealthAnalysis(rawAnalysis());
+    expect(repairs).toEqual([]);
+    expect(analysis.overall_wellness_score).toBe(70);
+    expect(analysis.domain_scores.neurological).toEqual({ score: 70, concern_level: 'moderate', indicators: ['Steady pitch'], explanation: 'Within range.' });
+  });
+
+  it("clamps and rounds scores, reading numeric strings", () => {
+    const domain_scores = { ...domainsScored([70, 70, 70, 70, 70, 70]), neurological: { score: 140 }, respiratory: { score: '-5' }, metabolic: { score: '72.4' } };
+    const { analysis, repairs } = validateHealthAnalysis(rawAnalysis({ domain_scores, overall_wellness_score: 101 }));
+    expect(analysis.domain_scores.neurological.score).toBe(100);
+    expect(analysis.domain_scores.respiratory.score).toBe(0);
+    expect(analysis.domain_scores.metabolic.score).toBe(72);
+    expect(analysis.overall_wellness_score).toBe(100);
+    expect(repairs).toEqual(expect.arrayContaining([
+      'domain_scores.neurological.score 140 -> 100',
+      'domain_scores.respiratory.score -5 -> 0',
+      'domain_scores.metabolic.score 72.4 -> 72',
+      'overall_wellness_score 101 -> 100'
+    ]));
+  });
+
+  it("maps enum synonyms to the schema's values", () => {
+    const domain_scores = {
+      ...domainsScored([70, 70, 70, 70, 70, 70]),
+      neurological: { score: 20, concern_level: 'Severe' },
+      hydration: { score: 65, concern_level: ' mild ' }
+    };
+    const { analysis } = validateHealthAnalysis(rawAnalysis({
+      domain_scores,
+      confidence_level: 'Moderate',
+      key_observations: [{ finding: 'Breathy voice', significance: 'Air leak', confidence: 'mid' }],
+      recommendations: [
+        { action: 'See a doctor', urgency: 'urgent', reason: 'Hoarseness' },
+        { action: 'Drink water', urgency: 'low' }
+      ]
+    }));
+    expect(analysis.domain_scores.neurological.concern_level).toBe('high');
+    expect(analysis.domain_scores.hydration.concern_level).toBe('moderate');
+    expect(analysis.confidence_level).toBe('medium');
+    expect(analysis.key_observations[0].confidence).toBe('medium');
+    expect(analysis.recommendations.map(r => r.urgency)).toEqual(['prompt', 'routine']);
+  });
+
+  it("falls back when an enum cannot be read", () => {
+    const domain_scores = { ...domainsScored([70, 70, 70, 70, 70, 70]), respiratory: { score: 95, concern_level: 'great' }, cardiovascular: { score: 5 } };
+    const { analysis, repairs } = validateHealthAnalysis(rawAnalysis({
+      domain_scores,
+      confidence_level: 'sure',
+      key_observations: [{ finding: 'Pauses', confidence: 'unsure' }],
+      recommendations: [{ action: 'Rest', urgency: 'whenever' }]
+    }));
+    // The concern follows the score; an unreadable urgency is not played down.
+    expect(analysis.domain_scores.respiratory.concern_level).toBe('low');
+    expect(analysis.domain_scores.cardiovascular.concern_level).toBe('high');
+    expect(analysis.confidence_level).toBe('low');
+    expect(analysis.key_observations[0].confidence).toBe('low');
+    expect(analysis.recommendations[0].urgency).toBe('soon');
+    expect(repairs).toEqual(expect.arrayContaining([
+      'domain_scores.respiratory.concern_level "great" -> low',
+      'confidence_level "sure" -> low'
+    ]));
+  });
+
+  it("derives a missing overall score from the domain mean", () => {
+    const { analysis, repairs } = validateHealthAnalysis(rawAnalysis({
+      overall_wellness_score: undefined,
+      domain_scores: domainsScored([60, 70, 80, 90, 71, 52])
+    }));
+    // (60 + 70 + 80 + 90 + 71 + 52) / 6 = 70.5
+    expect(analysis.overall_wellness_score).toBe(71);
+    expect(repairs).toEqual(['overall_wellness_score derived from domain mean', 'overall_wellness_score 70.5 -> 71']);
+  });
+
+  it("rejects missing domains and unreadable scores instead of inventing them", () => {
+    const domain_scores: Record<string, unknown> = { ...domainsScored([70, 70, 70, 70, 70, 70]), cardiovascular: { score: 'high' } };
+    delete domain_scores.hydration;
+    expect(issuesOf(rawAnalysis({ domain_scores, overall_wellness_score: undefined }))).toEqual([
+      'domain_scores.cardiovascular.score must be a number between 0 and 100',
+      'domain_scores.hydration is missing'
+    ]);
+    expect(issuesOf([])).toEqual(['Response is not a JSON object']);
+  });
+
+  it("drops observations without a finding and recommendations without an action", () => {
+    const { analysis } = validateHealthAnalysis(rawAnalysis({
+      key_observations: [{ finding: '  ', significance: 'Nothing' }, 'Hoarse', { finding: 'Hoarse', significance: 'Strain', confidence: 'high' }],
+      recommendations: [{ urgency: 'soon' }, { action: 'Rest your voice', urgency: 'routine' }]
+    }));
+    expect(analysis.key_observations).toEqual([{ finding: 'Hoarse', significance: 'Strain', confidence: 'high' }]);
+    expect(analysis.recommendations).toEqual([{ action: 'Rest your voice', urgency: 'routine', reason: '' }]);
+  });
+});
+
+describe("parseHealthAnalysis", () => {
+  it("reports JSON syntax errors as validation issues", () => {
+    expect(() => parseHealthAnalysis('{"overall_wellness_score": ')).toThrow(AnalysisValidationError);
+  });
+});
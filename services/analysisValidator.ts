@@ -0,0 +1,223 @@
+import { HealthAnalysis, HealthDomain, KeyObservation, Recommendation, HealthTrends, DomainId, DomainScores, ProfileConsideration, ProfileField, TaskEvidence, VoiceTaskId } from "../types";
+import { concernForScore, getAllDomains, getEnabledDomains } from "./domainRegistry";
+import { PROFILE_FIELDS } from "./profileService";
+import { VOICE_TASK_IDS } from "./voiceProtocol";
+import { MalformedOutputError } from "./analysisErrors";
+
+const CONCERN_LEVELS: HealthDomain["concern_level"][] = ['low', 'moderate', 'elevated', 'high'];
+const CONFIDENCE_LEVELS: KeyObservation["confidence"][] = ['low', 'medium', 'high'];
+const URGENCIES: Recommendation["urgency"][] = ['routine', 'soon', 'prompt'];
+
+// Values models commonly return instead of the schema's enum members.
+const CONCERN_SYNONYMS: Record<string, HealthDomain["concern_level"]> = {
+  minimal: 'low', none: 'low', normal: 'low',
+  medium: 'moderate', mild: 'moderate',
+  raised: 'elevated', increased: 'elevated',
+  severe: 'high', critical: 'high'
+};
+const CONFIDENCE_SYNONYMS: Record<string, KeyObservation["confidence"]> = {
+  moderate: 'medium', mid: 'medium'
+};
+const URGENCY_SYNONYMS: Record<string, Recommendation["urgency"]> = {
+  low: 'routine', normal: 'routine',
+  medium: 'soon', moderate: 'soon',
+  high: 'prompt', urgent: 'prompt', immediate: 'prompt'
+};
+
+/**
+ * Thrown when model output cannot be repaired into a HealthAnalysis.
+ * `message` is safe to show to the user; `issues` is for logs and the
+ * corrective retry prompt.
+ */
+export class AnalysisValidationError extends MalformedOutputError {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super();
+    this.name = 'AnalysisValidationError';
+    this.issues = issues;
+  }
+}
+
+export interface ValidationOptions {
+  // The result was saved earlier (an imported file, the chat's context)
+  // rather than just returned by the model. It is checked against every
+  // registered domain, and only core domains are required.
+  saved?: boolean;
+}
+
+export interface ValidationResult {
+  analysis: HealthAnalysis;
+  // Fixes applied to make the output conform, e.g. clamped scores.
+  repairs: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+};
+
+const toText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+
+const normaliseEnum = <T extends string>(
+  value: unknown,
+  allowed: T[],
+  synonyms: Record<string, T>
+): T | null => {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase();
+  if ((allowed as string[]).includes(key)) return key as T;
+  return synonyms[key] || null;
+};
+
+/**
+ * Checks parsed model output against the HealthAnalysis contract, clamping
+ * and normalising whatever can be fixed. Throws AnalysisValidationError when
+ * a required field is missing outright.
+ */
+export const validateHealthAnalysis = (raw: unknown, { saved = false }: ValidationOptions = {}): ValidationResult => {
+  const issues: string[] = [];
+  const repairs: string[] = [];
+
+  if (!isObject(raw)) throw new AnalysisValidationError(["Response is not a JSON object"]);
+
+  const clampScore = (value: unknown, path: string): number | null => {
+    const n = toNumber(value);
+    if (n === null) {
+      issues.push(`${path} must be a number between 0 and 100`);
+      return null;
+    }
+    const clamped = Math.round(Math.min(100, Math.max(0, n)));
+    if (clamped !== n) repairs.push(`${path} ${n} -> ${clamped}`);
+    return clamped;
+  };
+
+  // --- Domains ---
+  const rawDomains = isObject(raw.domain_scores) ? raw.domain_scores : {};
+  const domainScores: Partial<Record<DomainId, HealthDomain>> = {};
+  const expectedDomains = saved ? getAllDomains() : getEnabledDomains();
+
+  expectedDomains.forEach(definition => {
+    const path = `domain_scores.${definition.id}`;
+    const domain = rawDomains[definition.id];
+    if (domain === undefined && saved && definition.optional) return;
+    if (!isObject(domain)) {
+      issues.push(`${path} is missing`);
+      return;
+    }
+
+    const score = clampScore(domain.score, `${path}.score`);
+    if (score === null) return;
+
+    let concern = normaliseEnum(domain.concern_level, CONCERN_LEVELS, CONCERN_SYNONYMS);
+    if (!concern) {
+      concern = concernForScore(definition, score);
+      repairs.push(`${path}.concern_level "${String(domain.concern_level)}" -> ${concern}`);
+    }
+
+    domainScores[definition.id] = {
+      score,
+      concern_level: concern,
+      indicators: toStringList(domain.indicators),
+      explanation: toText(domain.explanation)
+    };
+  });
+
+  // --- Overall score: fall back to the domain mean ---
+  let overall = toNumber(raw.overall_wellness_score);
+  if (overall === null && issues.length === 0) {
+    const scores = Object.values(domainScores).map(domain => domain.score);
+    overall = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    repairs.push(`overall_wellness_score derived from domain mean`);
+  }
+  const overallScore = overall === null ? null : clampScore(overall, 'overall_wellness_score');
+
+  if (issues.length > 0 || overallScore === null) throw new AnalysisValidationError(issues);
+
+  // --- Everything else is optional enough to repair ---
+  let confidence = normaliseEnum(raw.confidence_level, CONFIDENCE_LEVELS, CONFIDENCE_SYNONYMS);
+  if (!confidence) {
+    confidence = 'low';
+    repairs.push(`confidence_level "${String(raw.confidence_level)}" -> low`);
+  }
+
+  const keyObservations: KeyObservation[] = (Array.isArray(raw.key_observations) ? raw.key_observations : [])
+    .filter(isObject)
+    .filter(o => toText(o.finding) !== '')
+    .map(o => ({
+      finding: toText(o.finding),
+      significance: toText(o.significance),
+      confidence: normaliseEnum(o.confidence, CONFIDENCE_LEVELS, CONFIDENCE_SYNONYMS) || 'low'
+    }));
+
+  const recommendations: Recommendation[] = (Array.isArray(raw.recommendations) ? raw.recommendations : [])
+    .filter(isObject)
+    .filter(r => toText(r.action) !== '')
+    .map(r => ({
+      action: toText(r.action),
+      // An unreadable urgency is shown as "soon" rather than played down.
+      urgency: normaliseEnum(r.urgency, URGENCIES, URGENCY_SYNONYMS) || 'soon',
+      reason: toText(r.reason)
+    }));
+
+  // Trends are computed from stored history (see historyService), so an
+  // absent block is expected rather than repaired.
+  const rawTrends = isObject(raw.trends) ? raw.trends : {};
+  const trends: HealthTrends = {
+    improving: toStringList(rawTrends.improving),
+    stable: toStringList(rawTrends.stable),
+    needs_attention: toStringList(rawTrends.needs_attention)
+  };
+
+  const profileConsiderations: ProfileConsideration[] = (Array.isArray(raw.profile_considerations) ? raw.profile_considerations : [])
+    .filter(isObject)
+    .filter(c => PROFILE_FIELDS.includes(c.field as ProfileField) && toText(c.note) !== '')
+    .map(c => ({ field: c.field as ProfileField, note: toText(c.note) }));
+
+  // Evidence is only kept for tasks we know and domains that were scored.
+  const taskEvidence: TaskEvidence[] = (Array.isArray(raw.task_evidence) ? raw.task_evidence : [])
+    .filter(isObject)
+    .filter(e => VOICE_TASK_IDS.includes(e.task as VoiceTaskId) && domainScores[e.domain as DomainId] !== undefined && toText(e.indicator) !== '')
+    .map(e => ({ task: e.task as VoiceTaskId, domain: e.domain as DomainId, indicator: toText(e.indicator) }));
+
+  // A missing disclaimer stays empty: the validator does not know the
+  // report's language, so the catalogue's is shown instead (disclaimerText).
+  const disclaimer = toText(raw.disclaimer);
+
+  return {
+    analysis: {
+      overall_wellness_score: overallScore,
+      confidence_level: confidence,
+      domain_scores: domainScores as DomainScores,
+      key_observations: keyObservations,
+      recommendations,
+      trends,
+      profile_considerations: profileConsiderations,
+      task_evidence: taskEvidence,
+      summary: toText(raw.summary),
+      disclaimer
+    },
+    repairs
+  };
+};
+
+/**
+ * Parses and validates a raw model response in one step. JSON syntax errors
+ * are reported as validation issues so they go through the same retry path.
+ */
+export const parseHealthAnalysis = (text: string): ValidationResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new AnalysisValidationError([`Response is not valid JSON: ${(e as Error).message}`]);
+  }
+  return validateHealthAnalysis(raw);
+};
@@ -0,0 +1,344 @@
+import { AudioPreprocessingStats } from "../types";
+import { decodeAudioBlob } from "./acousticService";
+
+// Every upload is reduced to the same shape: mono 16 kHz, silence trimmed,
+// loudness normalised, then encoded. 16 kHz keeps everything speech models use.
+const TARGET_RATE = 16000;
+const FRAME_MS = 20;
+
+// Noise floor is the 10th percentile of frame levels; frames this far above it count as sound.
+const NOISE_FLOOR_PERCENTILE = 0.1;
+const TRIM_MARGIN_DB = 10;
+// Silence kept either side of the sound so onsets and decays are not clipped.
+const TRIM_PADDING_MS = 200;
+const GATE_MARGIN_DB = 6;
+const GATE_ATTENUATION_DB = -30;
+
+const TARGET_RMS_DB = -20;
+const PEAK_CEILING_DB = -1;
+// Caps the gain on very quiet recordings, which would otherwise mostly amplify noise.
+const MAX_GAIN_DB = 30;
+const SILENCE_DB = -120;
+
+const OPUS_BITRATE = 24000;
+// Encoder lookahead in 48 kHz samples (libopus default); players drop this many at the start.
+const OPUS_PRE_SKIP = 312;
+
+export type AudioOutputFormat = 'wav' | 'opus';
+
+export interface PreprocessingOptions {
+  // Opus falls back to WAV where the browser has no WebCodecs Opus encoder.
+  format?: AudioOutputFormat;
+  noiseGate?: boolean;
+}
+
+export interface PreprocessedAudio {
+  blob: Blob;
+  mimeType: string;
+  stats: AudioPreprocessingStats;
+}
+
+const DEFAULT_OPTIONS: Required<PreprocessingOptions> = {
+  format: (process.env.AUDIO_FORMAT || 'opus') as AudioOutputFormat,
+  noiseGate: process.env.AUDIO_NOISE_GATE === 'true'
+};
+
+const round = (value: number, digits = 2) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+const toDb = (amplitude: number) => amplitude > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(amplitude)) : SILENCE_DB;
+const fromDb = (db: number) => Math.pow(10, db / 20);
+
+const frameSize = () => Math.round((FRAME_MS / 1000) * TARGET_RATE);
+
+// RMS level of each frame in dBFS.
+const frameLevels = (samples: Float32Array): number[] => {
+  const size = frameSize();
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += size) {
+    const end = Math.min(samples.length, start + size);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(toDb(Math.sqrt(sum / (end - start))));
+  }
+  return levels;
+};
+
+const noiseFloor = (levels: number[]): number => {
+  if (levels.length === 0) return SILENCE_DB;
+  const sorted = [...levels].sort((a, b) => a - b);
+  return sorted[Math.floor(NOISE_FLOOR_PERCENTILE * (sorted.length - 1))];
+};
+
+// The browser's resampler is band-limited, and a one-channel destination down-mixes by averaging.
+const resampleToMono = async (buffer: AudioBuffer): Promise<Float32Array> => {
+  const context = new OfflineAudioContext(1, Math.max(1, Math.ceil(buffer.duration * TARGET_RATE)), TARGET_RATE);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  return (await context.startRendering()).getChannelData(0);
+};
+
+/**
+ * Cuts leading and trailing frames that stay near the noise floor. A
+ * recording with no frame above it is returned whole; the quality checks
+ * reject it later with a better message than an empty file would get.
+ */
+const trimSilence = (samples: Float32Array, levels: number[], floorDb: number) => {
+  const threshold = floorDb + TRIM_MARGIN_DB;
+  const first = levels.findIndex(level => level >= threshold);
+  if (first < 0) return { samples, leadingSeconds: 0, trailingSeconds: 0 };
+
+  let last = levels.length - 1;
+  while (levels[last] < threshold) last--;
+
+  const size = frameSize();
+  const padding = Math.round((TRIM_PADDING_MS / 1000) * TARGET_RATE);
+  const start = Math.max(0, first * size - padding);
+  const end = Math.min(samples.length, (last + 1) * size + padding);
+  return {
+    samples: samples.slice(start, end),
+    leadingSeconds: start / TARGET_RATE,
+    trailingSeconds: (samples.length - end) / TARGET_RATE
+  };
+};
+
+/**
+ * Attenuates frames close to the noise floor. Gain is ramped across each
+ * frame so gated sections do not click at their edges.
+ */
+const applyNoiseGate = (samples: Float32Array, floorDb: number) => {
+  const threshold = floorDb + GATE_MARGIN_DB;
+  const attenuation = fromDb(GATE_ATTENUATION_DB);
+  const levels = frameLevels(samples);
+  const size = frameSize();
+  let previousGain = 1;
+  let gatedFrames = 0;
+
+  levels.forEach((level, frame) => {
+    const gain = level < threshold ? attenuation : 1;
+    if (gain < 1) gatedFrames++;
+    const start = frame * size;
+    const end = Math.min(samples.length, start + size);
+    for (let i = start; i < end; i++) {
+      samples[i] *= previousGain + (gain - previousGain) * ((i - start + 1) / (end - start));
+    }
+    previousGain = gain;
+  });
+
+  return { thresholdDb: threshold, gatedSeconds: (gatedFrames * FRAME_MS) / 1000 };
+};
+
+/**
+ * Brings the sounding part of the recording to TARGET_RMS_DB without letting
+ * the peak pass PEAK_CEILING_DB.
+ */
+const normaliseLoudness = (samples: Float32Array, floorDb: number) => {
+  const size = frameSize();
+  const threshold = floorDb + TRIM_MARGIN_DB;
+  let sum = 0, count = 0, peak = 0;
+  frameLevels(samples).forEach((level, frame) => {
+    const start = frame * size;
+    const end = Math.min(samples.length, start + size);
+    for (let i = start; i < end; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+      if (level >= threshold) {
+        sum += samples[i] * samples[i];
+        count++;
+      }
+    }
+  });
+  if (count === 0) {
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    count = samples.length;
+  }
+
+  const rmsDb = toDb(Math.sqrt(sum / Math.max(1, count)));
+  const gainDb = Math.min(TARGET_RMS_DB - rmsDb, PEAK_CEILING_DB - toDb(peak), MAX_GAIN_DB);
+  const gain = fromDb(gainDb);
+  for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+
+  return { gainDb, peakDb: toDb(peak * gain), rmsDb: rmsDb + gainDb };
+};
+
+// --- Encoders ---
+
+const encodeWav = (samples: Float32Array): Blob => {
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, TARGET_RATE, true);
+  view.setUint32(28, TARGET_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+};
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let j = 0; j < 8; j++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+// One packet per page: simple, and Opus packets are far below a page's 64 KB limit.
+const oggPage = (packet: Uint8Array, granule: number, sequence: number, serial: number, flags: number): Uint8Array => {
+  const lacing: number[] = [];
+  let remaining = packet.length;
+  while (remaining >= 255) {
+    lacing.push(255);
+    remaining -= 255;
+  }
+  lacing.push(remaining);
+
+  const page = new Uint8Array(27 + lacing.length + packet.length);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53], 0); // "OggS"
+  page[5] = flags;
+  view.setBigUint64(6, BigInt(granule), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  page.set(packet, 27 + lacing.length);
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const opusHeaders = (): Uint8Array[] => {
+  const head = new Uint8Array(19);
+  const headView = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'), 0);
+  head[8] = 1; // version
+  head[9] = 1; // channels
+  headView.setUint16(10, OPUS_PRE_SKIP, true);
+  headView.setUint32(12, TARGET_RATE, true);
+
+  const vendor = new TextEncoder().encode('VitalVoice');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  tags.set(new TextEncoder().encode('OpusTags'), 0);
+  new DataView(tags.buffer).setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  return [head, tags];
+};
+
+/**
+ * Encodes with WebCodecs and wraps the packets in an Ogg container. Returns
+ * null when the browser cannot encode Opus, so the caller can fall back to WAV.
+ */
+const encodeOpus = async (samples: Float32Array): Promise<Blob | null> => {
+  if (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined') return null;
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate: TARGET_RATE, numberOfChannels: 1, bitrate: OPUS_BITRATE };
+  if (!(await AudioEncoder.isConfigSupported(config)).supported) return null;
+
+  const packets: { data: Uint8Array; endUs: number }[] = [];
+  let failure: DOMException | null = null;
+  const encoder = new AudioEncoder({
+    output: chunk => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, endUs: chunk.timestamp + (chunk.duration ?? 0) });
+    },
+    error: e => { failure = e; }
+  });
+  encoder.configure(config);
+
+  for (let offset = 0; offset < samples.length; offset += TARGET_RATE) {
+    const frames = samples.slice(offset, offset + TARGET_RATE);
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: TARGET_RATE,
+      numberOfChannels: 1,
+      numberOfFrames: frames.length,
+      timestamp: Math.round((offset / TARGET_RATE) * 1e6),
+      data: frames
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure || packets.length === 0) return null;
+
+  // Granule positions count 48 kHz samples whatever the input rate.
+  const totalGranule = OPUS_PRE_SKIP + Math.round(samples.length * (48000 / TARGET_RATE));
+  const serial = crypto.getRandomValues(new Uint32Array(1))[0];
+  const [head, tags] = opusHeaders();
+  const pages = [oggPage(head, 0, 0, serial, 0x02), oggPage(tags, 0, 1, serial, 0)];
+  packets.forEach((packet, i) => {
+    const isLast = i === packets.length - 1;
+    const granule = isLast ? totalGranule : Math.min(totalGranule, OPUS_PRE_SKIP + Math.round(packet.endUs * 0.048));
+    pages.push(oggPage(packet.data, granule, i + 2, serial, isLast ? 0x04 : 0));
+  });
+  return new Blob(pages, { type: 'audio/ogg' });
+};
+
+/**
+ * Decodes a recording, reduces it to mono 16 kHz, trims silence, optionally
+ * gates noise, normalises loudness and re-encodes it. Throws whatever decoding
+ * threw; callers fall back to sending the original.
+ */
+export const preprocessAudio = async (input: Blob, options: PreprocessingOptions = {}): Promise<PreprocessedAudio> => {
+  const { format, noiseGate } = { ...DEFAULT_OPTIONS, ...options };
+  const buffer = await decodeAudioBlob(input);
+  const resampled = await resampleToMono(buffer);
+
+  const levels = frameLevels(resampled);
+  const floorDb = noiseFloor(levels);
+  const trimmed = trimSilence(resampled, levels, floorDb);
+  const samples = trimmed.samples;
+  const gate = noiseGate ? applyNoiseGate(samples, floorDb) : null;
+  const loudness = normaliseLoudness(samples, floorDb);
+
+  const blob = (format === 'opus' && await encodeOpus(samples)) || encodeWav(samples);
+
+  return {
+    blob,
+    mimeType: blob.type,
+    stats: {
+      input: {
+        mimeType: input.type,
+        bytes: input.size,
+        sampleRate: buffer.sampleRate,
+        channels: buffer.numberOfChannels,
+        durationSeconds: round(buffer.duration)
+      },
+      trim: { leadingSeconds: round(trimmed.leadingSeconds), trailingSeconds: round(trimmed.trailingSeconds) },
+      noiseGate: gate && { noiseFloorDb: round(floorDb, 1), thresholdDb: round(gate.thresholdDb, 1), gatedSeconds: round(gate.gatedSeconds) },
+      normalisation: { gainDb: round(loudness.gainDb, 1), peakDb: round(loudness.peakDb, 1), rmsDb: round(loudness.rmsDb, 1) },
+      output: {
+        mimeType: blob.type,
+        bytes: blob.size,
+        sampleRate: TARGET_RATE,
+        durationSeconds: round(samples.length / TARGET_RATE)
+      }
+    }
+  };
+};
@@ -0,0 +1,378 @@
+import { decodeAudioBlob, downsample, toMono } from "./acousticService";
+import { t } from "./i18n";
+
+// Voice activity detection and signal checks run on a mono 16 kHz copy;
+// clipping, DC offset and dropouts are measured on the decoded samples as recorded.
+const VAD_RATE = 16000;
+const FFT_SIZE = 512; // 32 ms at 16 kHz
+const HOP_MS = 10;
+
+// A frame is speech when it is loud enough in absolute terms, has most of its
+// energy in the voice band (hiss spreads evenly up to 8 kHz), and either
+// stands clear of the noise floor or is strongly harmonic (a held vowel never
+// drops back to the floor).
+const MIN_SPEECH_DB = -60;
+const ENERGY_MARGIN_DB = 9;
+const SPEECH_BAND_HZ: [number, number] = [80, 4000];
+const MIN_SPEECH_BAND_RATIO = 0.7;
+const TONAL_FLATNESS = 0.1;
+const NOISE_FLOOR_PERCENTILE = 0.1;
+// Gaps shorter than this are bridged; segments shorter than the minimum are dropped.
+const MERGE_GAP_MS = 200;
+const MIN_SEGMENT_MS = 100;
+// SNR needs some non-speech to measure the noise against; a recording that is speech throughout has none.
+const MIN_NOISE_FRAMES = 20;
+
+// Full-scale runs this long count as clipping; single full-scale samples happen in clean audio.
+export const CLIP_LEVEL = 0.999;
+export const MIN_CLIP_RUN = 3;
+// Digital silence (as opposed to a quiet room) inside a recording is a transport dropout.
+const DROPOUT_LEVEL = 1e-5;
+
+export const QUALITY_THRESHOLDS = {
+  speechShare: 0.5, // of minSeconds
+  levelFailDb: -45,
+  levelWarnDb: -35,
+  snrFailDb: 10,
+  snrWarnDb: 15,
+  clippingFailPercent: 1,
+  clippingWarnPercent: 0.1,
+  dcOffsetWarn: 0.05,
+  dropoutFailSeconds: 0.5,
+  dropoutWarnSeconds: 0.1
+};
+
+export type QualityCheckId = 'decodable' | 'duration' | 'speech' | 'level' | 'snr' | 'clipping' | 'dc_offset' | 'dropouts';
+export type QualityStatus = 'pass' | 'warn' | 'fail';
+
+export interface QualityCheck {
+  id: QualityCheckId;
+  status: QualityStatus;
+  // The measurement and the limit it was held to, in the check's own unit.
+  value: number | null;
+  limit: number | null;
+}
+
+export interface SpeechSegment {
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface AudioQualityReport {
+  isValid: boolean;
+  durationSeconds: number;
+  speechSeconds: number;
+  segments: SpeechSegment[];
+  speechLevelDb: number | null;
+  snrDb: number | null;
+  clippingPercent: number;
+  dcOffset: number;
+  longestDropoutSeconds: number;
+  // Every check that ran, in the order above; failures first in the UI.
+  checks: QualityCheck[];
+}
+
+const round = (value: number, digits = 2) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+const toDb = (power: number) => power > 0 ? 10 * Math.log10(power) : -120;
+
+// --- Spectrum ---
+
+const HANN = Float32Array.from({ length: FFT_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1)));
+
+// In-place iterative radix-2 FFT.
+const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k), sin = Math.sin(angle * k);
+        const a = start + k, b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+};
+
+export interface FrameFeatures {
+  energyDb: number;
+  // Geometric over arithmetic mean of the power spectrum: near 0 for harmonic sounds, near 1 for noise.
+  flatness: number;
+  bandRatio: number;
+}
+
+/**
+ * Flatness and voice-band share of a power spectrum (index = bin, DC at 0).
+ * Shared with the live recording coach, which gets its spectrum from an AnalyserNode.
+ */
+export const spectrumFeatures = (power: ArrayLike<number>, binHz: number): Omit<FrameFeatures, 'energyDb'> => {
+  const [bandLow, bandHigh] = SPEECH_BAND_HZ.map(hz => Math.round(hz / binHz));
+  const lowestBin = Math.max(1, Math.round(100 / binHz));
+  const highestBin = Math.min(power.length - 1, Math.round(4000 / binHz));
+
+  let total = 0, band = 0, logSum = 0, linearSum = 0;
+  for (let k = 1; k < power.length; k++) {
+    total += power[k];
+    if (k >= bandLow && k <= bandHigh) band += power[k];
+    if (k >= lowestBin && k <= highestBin) {
+      logSum += Math.log(power[k] + 1e-12);
+      linearSum += power[k];
+    }
+  }
+  const bins = highestBin - lowestBin + 1;
+  return {
+    flatness: linearSum > 0 ? Math.exp(logSum / bins) / (linearSum / bins) : 1,
+    bandRatio: total > 0 ? band / total : 0
+  };
+};
+
+// The per-frame speech decision, before gap bridging.
+export const isSpeechFrame = (frame: FrameFeatures, floorDb: number): boolean =>
+  frame.energyDb >= MIN_SPEECH_DB &&
+  frame.bandRatio >= MIN_SPEECH_BAND_RATIO &&
+  (frame.energyDb >= floorDb + ENERGY_MARGIN_DB || frame.flatness <= TONAL_FLATNESS);
+
+const analyseFrames = (samples: Float32Array, sampleRate: number): FrameFeatures[] => {
+  const hop = Math.round((HOP_MS / 1000) * sampleRate);
+  const binHz = sampleRate / FFT_SIZE;
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  const power = new Float32Array(FFT_SIZE / 2 + 1);
+  const frames: FrameFeatures[] = [];
+
+  for (let start = 0; start + FFT_SIZE <= samples.length; start += hop) {
+    let energy = 0;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      const sample = samples[start + i];
+      energy += sample * sample;
+      re[i] = sample * HANN[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    for (let k = 0; k < power.length; k++) power[k] = re[k] * re[k] + im[k] * im[k];
+    frames.push({ energyDb: toDb(energy / FFT_SIZE), ...spectrumFeatures(power, binHz) });
+  }
+  return frames;
+};
+
+// --- Voice activity ---
+
+/**
+ * Marks speech frames, bridges short gaps and drops blips. Returns the
+ * segments plus the per-frame decision, which the SNR estimate reuses.
+ */
+const detectSpeech = (frames: FrameFeatures[]) => {
+  const sortedEnergy = frames.map(f => f.energyDb).sort((a, b) => a - b);
+  const floorDb = sortedEnergy.length > 0 ? sortedEnergy[Math.floor(NOISE_FLOOR_PERCENTILE * (sortedEnergy.length - 1))] : -120;
+
+  const isSpeech = frames.map(f => isSpeechFrame(f, floorDb));
+
+  const mergeGap = Math.round(MERGE_GAP_MS / HOP_MS);
+  const minLength = Math.round(MIN_SEGMENT_MS / HOP_MS);
+  const ranges: [number, number][] = [];
+  isSpeech.forEach((speech, i) => {
+    if (!speech) return;
+    const last = ranges[ranges.length - 1];
+    if (last && i - last[1] <= mergeGap) last[1] = i;
+    else ranges.push([i, i]);
+  });
+
+  const kept = ranges.filter(([start, end]) => end - start + 1 >= minLength);
+  const smoothed = frames.map(() => false);
+  kept.forEach(([start, end]) => { for (let i = start; i <= end; i++) smoothed[i] = true; });
+
+  const frameSeconds = HOP_MS / 1000;
+  return {
+    isSpeech: smoothed,
+    segments: kept.map(([start, end]) => ({
+      startSeconds: round(start * frameSeconds),
+      endSeconds: round((end * HOP_MS + (FFT_SIZE / VAD_RATE) * 1000) / 1000)
+    }))
+  };
+};
+
+const meanPowerDb = (frames: FrameFeatures[]) =>
+  frames.length === 0 ? null : toDb(frames.reduce((sum, f) => sum + Math.pow(10, f.energyDb / 10), 0) / frames.length);
+
+// --- Signal integrity ---
+
+const measureSignal = (buffer: AudioBuffer) => {
+  let clipped = 0, total = 0, sum = 0;
+  let longestDropout = 0;
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    let clipRun = 0, silentRun = 0;
+    // Digital silence at the very start or end is encoder padding, not a dropout.
+    const first = data.findIndex(sample => Math.abs(sample) > DROPOUT_LEVEL);
+    let last = data.length - 1;
+    while (last > first && Math.abs(data[last]) <= DROPOUT_LEVEL) last--;
+
+    for (let i = 0; i < data.length; i++) {
+      const sample = data[i];
+      sum += sample;
+      if (Math.abs(sample) >= CLIP_LEVEL) {
+        clipRun++;
+      } else {
+        if (clipRun >= MIN_CLIP_RUN) clipped += clipRun;
+        clipRun = 0;
+      }
+      if (first >= 0 && i > first && i < last && Math.abs(sample) <= DROPOUT_LEVEL) {
+        silentRun++;
+        longestDropout = Math.max(longestDropout, silentRun);
+      } else {
+        silentRun = 0;
+      }
+    }
+    if (clipRun >= MIN_CLIP_RUN) clipped += clipRun;
+    total += data.length;
+  }
+
+  return {
+    clippingPercent: total > 0 ? (clipped / total) * 100 : 0,
+    dcOffset: total > 0 ? Math.abs(sum / total) : 0,
+    longestDropoutSeconds: longestDropout / buffer.sampleRate
+  };
+};
+
+// --- Report ---
+
+const check = (id: QualityCheckId, value: number | null, limit: number | null, status: QualityStatus): QualityCheck => ({
+  id,
+  status,
+  value: value === null ? null : round(value),
+  limit
+});
+
+// Lower values are worse: fail below `failAt`, warn below `warnAt`.
+const atLeast = (value: number, failAt: number, warnAt: number): QualityStatus =>
+  value < failAt ? 'fail' : value < warnAt ? 'warn' : 'pass';
+
+// Higher values are worse.
+const atMost = (value: number, failAt: number, warnAt: number): QualityStatus =>
+  value > failAt ? 'fail' : value > warnAt ? 'warn' : 'pass';
+
+const failedReport = (value: number): AudioQualityReport => ({
+  isValid: false,
+  durationSeconds: 0,
+  speechSeconds: 0,
+  segments: [],
+  speechLevelDb: null,
+  snrDb: null,
+  clippingPercent: 0,
+  dcOffset: 0,
+  longestDropoutSeconds: 0,
+  checks: [check('decodable', value, null, 'fail')]
+});
+
+/**
+ * Measures a decoded recording: speech segments from the VAD, speech level
+ * and SNR, clipping, DC offset and dropouts. Each measurement becomes a
+ * check; the recording is valid when none fails. Warnings are kept in the
+ * report but do not block it.
+ */
+export const assessAudioQuality = (buffer: AudioBuffer, minSeconds: number): AudioQualityReport => {
+  const samples = downsample(toMono(buffer), buffer.sampleRate, VAD_RATE);
+  const frames = analyseFrames(samples, Math.min(buffer.sampleRate, VAD_RATE));
+  const { isSpeech, segments } = detectSpeech(frames);
+
+  const speechFrames = frames.filter((_, i) => isSpeech[i]);
+  const noiseFrames = frames.filter((_, i) => !isSpeech[i]);
+  const speechLevelDb = meanPowerDb(speechFrames);
+  const noiseDb = noiseFrames.length >= MIN_NOISE_FRAMES ? meanPowerDb(noiseFrames) : null;
+  const snrDb = speechLevelDb === null || noiseDb === null ? null : speechLevelDb - noiseDb;
+  const speechSeconds = segments.reduce((sum, s) => sum + (s.endSeconds - s.startSeconds), 0);
+  const signal = measureSignal(buffer);
+  const minSpeechSeconds = round(minSeconds * QUALITY_THRESHOLDS.speechShare, 1);
+
+  const checks: QualityCheck[] = [
+    check('duration', buffer.duration, minSeconds, buffer.duration < minSeconds ? 'fail' : 'pass'),
+    check('speech', speechSeconds, minSpeechSeconds, speechSeconds < minSpeechSeconds ? 'fail' : 'pass')
+  ];
+  if (speechLevelDb !== null) {
+    checks.push(check('level', speechLevelDb, QUALITY_THRESHOLDS.levelFailDb, atLeast(speechLevelDb, QUALITY_THRESHOLDS.levelFailDb, QUALITY_THRESHOLDS.levelWarnDb)));
+  }
+  if (snrDb !== null) {
+    checks.push(check('snr', snrDb, QUALITY_THRESHOLDS.snrFailDb, atLeast(snrDb, QUALITY_THRESHOLDS.snrFailDb, QUALITY_THRESHOLDS.snrWarnDb)));
+  }
+  checks.push(
+    check('clipping', signal.clippingPercent, QUALITY_THRESHOLDS.clippingFailPercent, atMost(signal.clippingPercent, QUALITY_THRESHOLDS.clippingFailPercent, QUALITY_THRESHOLDS.clippingWarnPercent)),
+    // An offset is removed before analysis, so it only ever warns about the microphone.
+    check('dc_offset', signal.dcOffset, QUALITY_THRESHOLDS.dcOffsetWarn, signal.dcOffset > QUALITY_THRESHOLDS.dcOffsetWarn ? 'warn' : 'pass'),
+    check('dropouts', signal.longestDropoutSeconds, QUALITY_THRESHOLDS.dropoutFailSeconds, atMost(signal.longestDropoutSeconds, QUALITY_THRESHOLDS.dropoutFailSeconds, QUALITY_THRESHOLDS.dropoutWarnSeconds))
+  );
+
+  return {
+    isValid: checks.every(c => c.status !== 'fail'),
+    durationSeconds: round(buffer.duration),
+    speechSeconds: round(speechSeconds),
+    segments,
+    speechLevelDb: speechLevelDb === null ? null : round(speechLevelDb, 1),
+    snrDb: snrDb === null ? null : round(snrDb, 1),
+    clippingPercent: round(signal.clippingPercent, 3),
+    dcOffset: round(signal.dcOffset, 4),
+    longestDropoutSeconds: round(signal.longestDropoutSeconds),
+    checks
+  };
+};
+
+/**
+ * Decodes and assesses a recording. Empty or undecodable files come back as
+ * a report with a failed `decodable` check (value = size in bytes), so callers
+ * always get a report to show.
+ */
+export const validateAudioBlob = async (audioBlob: Blob, minSeconds = 3): Promise<{ report: AudioQualityReport; audioBuffer?: AudioBuffer }> => {
+  if (audioBlob.size === 0) return { report: failedReport(0) };
+
+  let audioBuffer: AudioBuffer;
+  try {
+    audioBuffer = await decodeAudioBlob(audioBlob);
+  } catch (e) {
+    console.error("Audio validation error:", e);
+    return { report: failedReport(audioBlob.size) };
+  }
+
+  const report = assessAudioQuality(audioBuffer, minSeconds);
+  return { report, audioBuffer };
+};
+
+// --- Presentation ---
+
+export const qualityCheckLabel = (id: QualityCheckId): string => t(`quality.${id}`);
+
+/**
+ * What went wrong and what to do about it, in the UI language. Passed checks
+ * have nothing to explain.
+ */
+export const explainQualityCheck = ({ id, status, value, limit }: QualityCheck): string | null => {
+  if (status === 'pass') return null;
+  switch (id) {
+    case 'decodable': return value === 0 ? t('audio.empty') : t('audio.unreadable');
+    case 'duration': return t('audio.tooShort', { seconds: limit ?? 0 });
+    case 'speech': return value ? t('quality.speechShort', { seconds: value, minimum: limit ?? 0 }) : t('audio.noSpeech');
+    case 'level': return t('audio.tooQuiet');
+    case 'snr': return t('quality.noisy', { value: Math.round(value ?? 0) });
+    case 'clipping': return t('quality.clipped');
+    case 'dc_offset': return t('quality.dcOffset');
+    case 'dropouts': return t('quality.dropout', { seconds: value ?? 0 });
+  }
+};
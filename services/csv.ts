@@ -0,0 +1,43 @@
+/**
+ * Minimal RFC 4180 parser: quoted fields, doubled quotes, commas and newlines
+ * inside quotes, CRLF or LF line endings. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(cell => cell.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') inQuotes = true;
+    else if (char === ',') { row.push(field); field = ''; }
+    else if (char === '\n') endRow();
+    else if (char !== '\r') field += char;
+  }
+  endRow();
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports.
+  if (rows.length > 0) rows[0][0] = rows[0][0].replace(/^\uFEFF/, '');
+  return rows;
+};
+
+const escapeCell = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number | null | undefined)[][]): string =>
+  rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,79 @@
+const DB_NAME = "vitalvoice";
+const DB_VERSION = 2;
+
+export const STORE_SCREENINGS = "screenings";
+export const STORE_VALIDATION_RESULTS = "validationResults";
+
+export class DatabaseBlockedError extends Error {
+  constructor() {
+    super("The local database is open in another tab with an older version of the app. Close other tabs and reload.");
+    this.name = 'DatabaseBlockedError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    // Each store is created only if missing, so upgrading from any earlier version works.
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_SCREENINGS)) {
+        const store = db.createObjectStore(STORE_SCREENINGS, { keyPath: "id" });
+        store.createIndex("createdAt", "createdAt");
+      }
+      if (!db.objectStoreNames.contains(STORE_VALIDATION_RESULTS)) {
+        const store = db.createObjectStore(STORE_VALIDATION_RESULTS, { keyPath: "key" });
+        store.createIndex("runId", "runId");
+      }
+    };
+
+    let blocked = false;
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // The upgrade was given up on; the caller has already seen the error.
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // Another tab is upgrading: close so it is not left waiting on this one.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    // An older version is still open in another tab, which would hold the upgrade forever.
+    request.onblocked = () => {
+      blocked = true;
+      dbPromise = null;
+      reject(new DatabaseBlockedError());
+    };
+  });
+
+  return dbPromise;
+};
+
+export const runTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = operation(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,123 @@
+import { DomainId, DomainScores, HealthDomain, OptionalDomainId } from "../types";
+
+export interface DomainDefinition {
+  id: DomainId;
+  label: string;
+  icon: string; // Material Symbols name
+  // What the model should listen (and look) for when scoring this domain.
+  promptGuidance: string;
+  // Minimum score for each band; anything below `elevated` is 'high' concern.
+  thresholds: { low: number; moderate: number; elevated: number };
+  // Core domains are always scored; optional ones need EXTRA_DOMAINS.
+  optional?: boolean;
+}
+
+const DEFAULT_THRESHOLDS = { low: 80, moderate: 60, elevated: 40 };
+
+const DOMAINS: DomainDefinition[] = [
+  {
+    id: 'neurological',
+    label: 'Neurological',
+    icon: 'psychology',
+    promptGuidance: 'Vocal tremor, pitch stability, articulation precision and speech motor control.',
+    thresholds: DEFAULT_THRESHOLDS
+  },
+  {
+    id: 'mental_health',
+    label: 'Mental Health',
+    icon: 'mood',
+    promptGuidance: 'Prosody, energy, engagement, speech latency and markers of stress or low mood.',
+    thresholds: DEFAULT_THRESHOLDS
+  },
+  {
+    id: 'respiratory',
+    label: 'Respiratory',
+    icon: 'air',
+    promptGuidance: 'Breath support, phrase length, audible breathing, breathiness and coughing.',
+    thresholds: DEFAULT_THRESHOLDS
+  },
+  {
+    id: 'cardiovascular',
+    label: 'Cardiovascular',
+    icon: 'monitor_heart',
+    promptGuidance: 'Breathing rhythm between phrases, breathlessness and, if a face image is present, pallor.',
+    thresholds: DEFAULT_THRESHOLDS
+  },
+  {
+    id: 'metabolic',
+    label: 'Metabolic',
+    icon: 'bolt',
+    promptGuidance: 'Vocal fatigue, low energy and reduced loudness over the recording.',
+    thresholds: DEFAULT_THRESHOLDS
+  },
+  {
+    id: 'hydration',
+    label: 'Hydration',
+    icon: 'water_drop',
+    promptGuidance: 'Voice clarity, roughness, jitter and shimmer; sunken eyes or dry skin if a face image is present.',
+    thresholds: DEFAULT_THRESHOLDS
+  },
+  {
+    id: 'sleep_fatigue',
+    label: 'Sleep & Fatigue',
+    icon: 'bedtime',
+    promptGuidance: 'Slowed speech rate, monotone prosody, long pauses and yawning; drooping eyelids if a face image is present.',
+    thresholds: DEFAULT_THRESHOLDS,
+    optional: true
+  },
+  {
+    id: 'cognitive_load',
+    label: 'Cognitive Load',
+    icon: 'neurology',
+    promptGuidance: 'Filled pauses, restarts, word-finding difficulty and loss of narrative thread.',
+    thresholds: DEFAULT_THRESHOLDS,
+    optional: true
+  },
+];
+
+const DOMAINS_BY_ID = new Map(DOMAINS.map(d => [d.id, d]));
+
+// Comma-separated optional domain ids, e.g. EXTRA_DOMAINS=sleep_fatigue,cognitive_load
+const enabledOptionalIds = new Set(
+  (process.env.EXTRA_DOMAINS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter((id): id is OptionalDomainId => DOMAINS_BY_ID.get(id as DomainId)?.optional === true)
+);
+
+/**
+ * Every registered domain, enabled or not. A saved screening may have been
+ * scored with other optional domains enabled than the current ones.
+ */
+export const getAllDomains = (): DomainDefinition[] => [...DOMAINS];
+
+/**
+ * Domains that new screenings are scored on, in display order.
+ */
+export const getEnabledDomains = (): DomainDefinition[] =>
+  DOMAINS.filter(d => !d.optional || enabledOptionalIds.has(d.id as OptionalDomainId));
+
+export const getDomain = (id: string): DomainDefinition | undefined => DOMAINS_BY_ID.get(id as DomainId);
+
+// Finds a domain by its English label, as older saved trends name them.
+export const getDomainByLabel = (label: string): DomainDefinition | undefined => DOMAINS.find(d => d.label === label);
+
+export const getDomainLabel = (id: string): string =>
+  getDomain(id)?.label ?? id.charAt(0).toUpperCase() + id.slice(1).replace(/_/g, ' ');
+
+/**
+ * The domains actually present in a result, in registry order. Older saved
+ * screenings, or ones made with a different configuration, may have fewer or
+ * more domains than are enabled now.
+ */
+export const getScoredDomains = (scores: DomainScores): [DomainDefinition, HealthDomain][] =>
+  DOMAINS
+    .filter(d => (scores as Partial<Record<DomainId, HealthDomain>>)[d.id] !== undefined)
+    .map(d => [d, (scores as Partial<Record<DomainId, HealthDomain>>)[d.id] as HealthDomain]);
+
+export const concernForScore = (domain: DomainDefinition, score: number): HealthDomain["concern_level"] => {
+  if (score >= domain.thresholds.low) return 'low';
+  if (score >= domain.thresholds.moderate) return 'moderate';
+  if (score >= domain.thresholds.elevated) return 'elevated';
+  return 'high';
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { buildFhirBundle, exportFhirBundle, FhirResource, validateFhirBundle } from "./fhirService";
+import { validateHealthAnalysis } from "./analysisValidator";
+import { SAMPLE_ANALYSIS_RESULT } from "./fixtureProvider";
+
+// The least a model can return and still pass validation: scores only.
+const sparseAnalysis = () => validateHealthAnalysis({
+  domain_scores: Object.fromEntries(
+    Object.entries(SAMPLE_ANALYSIS_RESULT.domain_scores).map(([id, domain]) => [id, { score: domain?.score }])
+  )
+}).analysis;
+
+const resourcesOf = (analysis = SAMPLE_ANALYSIS_RESULT, type?: string): FhirResource[] =>
+  buildFhirBundle(analysis).entry.map(e => e.resource).filter(r => !type || r.resourceType === type);
+
+describe("buildFhirBundle", () => {
+  it("builds a valid bundle from the sample analysis", () => {
+    const bundle = buildFhirBundle(SAMPLE_ANALYSIS_RESULT, { createdAt: 0, language: 'en-US' });
+    expect(validateFhirBundle(bundle)).toEqual([]);
+    expect(resourcesOf(SAMPLE_ANALYSIS_RESULT, 'DiagnosticReport')[0].conclusion).toBe(SAMPLE_ANALYSIS_RESULT.summary);
+  });
+
+  it("builds a valid bundle from an analysis with only scores", () => {
+    const analysis = sparseAnalysis();
+    expect(analysis.summary).toBe('');
+    expect(validateFhirBundle(buildFhirBundle(analysis))).toEqual([]);
+    expect(() => exportFhirBundle(analysis)).not.toThrow();
+  });
+
+  it("leaves out the conclusion, domain notes and care plan when there is nothing to say", () => {
+    const analysis = sparseAnalysis();
+    expect(resourcesOf(analysis, 'DiagnosticReport')[0]).not.toHaveProperty('conclusion');
+    const [, ...domains] = resourcesOf(analysis, 'Observation');
+    domains.forEach(observation => expect(observation).not.toHaveProperty('note'));
+    expect(resourcesOf(analysis, 'CarePlan')).toEqual([]);
+  });
+
+  it("leaves out the reason of a recommendation without one", () => {
+    const analysis = { ...SAMPLE_ANALYSIS_RESULT, recommendations: [{ action: 'Rest your voice', urgency: 'routine' as const, reason: '' }] };
+    const bundle = buildFhirBundle(analysis);
+    expect(validateFhirBundle(bundle)).toEqual([]);
+    const [carePlan] = resourcesOf(analysis, 'CarePlan');
+    expect(JSON.stringify(carePlan)).not.toContain('reasonCode');
+  });
+
+  it("links every result to a resource in the bundle", () => {
+    const bundle = buildFhirBundle(SAMPLE_ANALYSIS_RESULT);
+    const urls = bundle.entry.map(e => e.fullUrl);
+    const report = bundle.entry[0].resource;
+    (report.result as { reference: string }[]).forEach(({ reference }) => expect(urls).toContain(reference));
+  });
+});
+
+describe("validateFhirBundle", () => {
+  it("reports empty strings and references that do not resolve", () => {
+    const bundle = buildFhirBundle(SAMPLE_ANALYSIS_RESULT);
+    bundle.entry[0].resource.conclusion = ' ';
+    bundle.entry[0].resource.subject = { reference: 'urn:uuid:nobody' };
+    expect(validateFhirBundle(bundle)).toEqual(expect.arrayContaining([
+      'Bundle.entry[0].resource.conclusion is an empty string',
+      'Bundle.entry[0].resource.subject.reference urn:uuid:nobody does not resolve within the bundle'
+    ]));
+  });
+
+  it("reports statuses that are not in the value set", () => {
+    const bundle = buildFhirBundle(SAMPLE_ANALYSIS_RESULT);
+    bundle.entry[0].resource.status = 'done';
+    expect(validateFhirBundle(bundle)).toEqual(['Bundle.entry[0].resource.status "done" is not a DiagnosticReport status']);
+  });
+
+  it("rejects anything that is not a bundle", () => {
+    expect(validateFhirBundle({ resourceType: 'Patient' })).toEqual(['Bundle.resourceType must be "Bundle"']);
+  });
+});
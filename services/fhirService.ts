@@ -0,0 +1,340 @@
+import { HealthAnalysis, HealthDomain, Recommendation } from "../types";
+import { getScoredDomains } from "./domainRegistry";
+import { disclaimerText, inLanguage } from "./i18n";
+
+// HL7 FHIR R4 export. Resources are plain JSON typed just far enough to build
+// them; validateFhirBundle checks the structure partners' servers will reject.
+
+// App-defined codes; receiving systems map them to their own terminology.
+const DOMAIN_SYSTEM = 'urn:vitalvoice:fhir:health-domain';
+const CONCERN_SYSTEM = 'urn:vitalvoice:fhir:concern-level';
+const INDICATOR_SYSTEM = 'urn:vitalvoice:fhir:indicator';
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const INTERPRETATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+const UCUM = 'http://unitsofmeasure.org';
+
+const OVERALL_CODE = 'overall_wellness';
+
+const INTERPRETATIONS: Record<HealthDomain["concern_level"], { code: string; display: string }> = {
+  low: { code: 'N', display: 'Normal' },
+  moderate: { code: 'A', display: 'Abnormal' },
+  elevated: { code: 'A', display: 'Abnormal' },
+  high: { code: 'AA', display: 'Critical abnormal' }
+};
+
+// CarePlan activities have no priority; urgency is carried as the schedule.
+const URGENCY_SCHEDULES: Record<Recommendation["urgency"], string> = {
+  routine: 'At the next routine visit',
+  soon: 'Within the next few weeks',
+  prompt: 'As soon as possible'
+};
+
+type FhirJson = Record<string, unknown>;
+
+export interface FhirResource extends FhirJson {
+  resourceType: string;
+  id: string;
+}
+
+export interface FhirBundle extends FhirJson {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+export interface FhirExportOptions {
+  // When the screening was made; defaults to now.
+  createdAt?: number;
+  // BCP 47 code of the language the model wrote the text in.
+  language?: string;
+}
+
+/**
+ * Thrown when a built bundle fails the structural check. `issues` lists each
+ * problem with its JSON path, for logs.
+ */
+export class FhirValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`FHIR bundle failed validation: ${issues.join('; ')}`);
+    this.name = 'FhirValidationError';
+    this.issues = issues;
+  }
+}
+
+const urn = (id: string) => `urn:uuid:${id}`;
+
+const score = (value: number) => ({ value, unit: 'score', system: UCUM, code: '{score}' });
+
+const category = (code: string, display: string) => [{
+  coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code, display }]
+}];
+
+// --- Building ---
+
+/**
+ * Turns a HealthAnalysis into a FHIR R4 collection Bundle: a DiagnosticReport
+ * whose results are an overall-wellness Observation and one Observation per
+ * scored domain, plus a CarePlan for the recommendations. The Patient is an
+ * anonymous placeholder for the receiving system to link to its own record.
+ */
+export const buildFhirBundle = (analysis: HealthAnalysis, options: FhirExportOptions = {}): FhirBundle => {
+  const effective = new Date(options.createdAt ?? Date.now()).toISOString();
+  const language = options.language ? { language: options.language } : {};
+
+  const patient: FhirResource = { resourceType: 'Patient', id: crypto.randomUUID() };
+  const subject = { reference: urn(patient.id) };
+
+  // R4 DiagnosticReport has no notes, so key observations and the disclaimer
+  // are annotations on the overall score instead.
+  const overall: FhirResource = {
+    resourceType: 'Observation',
+    id: crypto.randomUUID(),
+    ...language,
+    status: 'final',
+    category: category('survey', 'Survey'),
+    code: {
+      coding: [{ system: DOMAIN_SYSTEM, code: OVERALL_CODE, display: 'Overall wellness score' }],
+      text: 'Overall wellness score'
+    },
+    subject,
+    effectiveDateTime: effective,
+    valueQuantity: score(analysis.overall_wellness_score),
+    note: [
+      ...analysis.key_observations.map(o => ({
+        text: `${o.finding} — ${o.significance} (confidence: ${o.confidence})`
+      })),
+      { text: options.language ? inLanguage(options.language, () => disclaimerText(analysis)) : disclaimerText(analysis) }
+    ]
+  };
+
+  const domains: FhirResource[] = getScoredDomains(analysis.domain_scores).map(([domain, data]) => {
+    const interpretation = INTERPRETATIONS[data.concern_level];
+    return {
+      resourceType: 'Observation',
+      id: crypto.randomUUID(),
+      ...language,
+      status: 'final',
+      category: category('survey', 'Survey'),
+      code: {
+        coding: [{ system: DOMAIN_SYSTEM, code: domain.id, display: domain.label }],
+        text: domain.label
+      },
+      subject,
+      effectiveDateTime: effective,
+      valueQuantity: score(data.score),
+      interpretation: [{
+        coding: [
+          { system: CONCERN_SYSTEM, code: data.concern_level },
+          { system: INTERPRETATION_SYSTEM, code: interpretation.code, display: interpretation.display }
+        ],
+        text: data.concern_level
+      }],
+      ...(data.explanation ? { note: [{ text: data.explanation }] } : {}),
+      ...(data.indicators.length > 0 ? {
+        component: data.indicators.map(indicator => ({
+          code: { coding: [{ system: INDICATOR_SYSTEM, code: 'indicator', display: 'Indicator' }] },
+          valueString: indicator
+        }))
+      } : {})
+    };
+  });
+
+  const report: FhirResource = {
+    resourceType: 'DiagnosticReport',
+    id: crypto.randomUUID(),
+    ...language,
+    status: 'final',
+    code: { text: 'VitalVoice voice health screening' },
+    subject,
+    effectiveDateTime: effective,
+    issued: new Date().toISOString(),
+    result: [overall, ...domains].map(o => ({ reference: urn(o.id) })),
+    ...(analysis.summary ? { conclusion: analysis.summary } : {})
+  };
+
+  const resources = [report, patient, overall, ...domains];
+
+  if (analysis.recommendations.length > 0) {
+    resources.push({
+      resourceType: 'CarePlan',
+      id: crypto.randomUUID(),
+      ...language,
+      status: 'active',
+      intent: 'proposal',
+      title: 'VitalVoice screening recommendations',
+      subject,
+      created: effective,
+      supportingInfo: [{ reference: urn(report.id) }],
+      activity: analysis.recommendations.map(r => ({
+        detail: {
+          status: 'not-started',
+          description: r.action,
+          ...(r.reason ? { reasonCode: [{ text: r.reason }] } : {}),
+          scheduledString: URGENCY_SCHEDULES[r.urgency]
+        }
+      }))
+    });
+  }
+
+  return {
+    resourceType: 'Bundle',
+    id: crypto.randomUUID(),
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: resources.map(resource => ({ fullUrl: urn(resource.id), resource }))
+  };
+};
+
+// --- Validation ---
+
+const ID_PATTERN = /^[A-Za-z0-9\-.]{1,64}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Required elements and allowed status codes, from the R4 resource definitions.
+const RESOURCE_RULES: Record<string, { required: string[]; status?: string[]; intent?: string[] }> = {
+  Patient: { required: [] },
+  Observation: {
+    required: ['status', 'code'],
+    status: ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown']
+  },
+  DiagnosticReport: {
+    required: ['status', 'code'],
+    status: ['registered', 'partial', 'preliminary', 'final', 'amended', 'corrected', 'appended', 'cancelled', 'entered-in-error', 'unknown']
+  },
+  CarePlan: {
+    required: ['status', 'intent', 'subject'],
+    status: ['draft', 'active', 'on-hold', 'revoked', 'completed', 'entered-in-error', 'unknown'],
+    intent: ['proposal', 'plan', 'order', 'option']
+  }
+};
+
+const ACTIVITY_STATUSES = ['not-started', 'scheduled', 'in-progress', 'on-hold', 'completed', 'cancelled', 'stopped', 'unknown', 'entered-in-error'];
+
+const isObject = (value: unknown): value is FhirJson =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// FHIR JSON forbids nulls and empty strings, arrays and objects anywhere.
+const checkValues = (value: unknown, path: string, issues: string[]) => {
+  if (value === null || value === undefined) issues.push(`${path} is null`);
+  else if (typeof value === 'string') { if (value.trim() === '') issues.push(`${path} is an empty string`); }
+  else if (typeof value === 'number') { if (!Number.isFinite(value)) issues.push(`${path} is not a finite number`); }
+  else if (Array.isArray(value)) {
+    if (value.length === 0) issues.push(`${path} is an empty array`);
+    value.forEach((item, i) => checkValues(item, `${path}[${i}]`, issues));
+  } else if (isObject(value)) {
+    const keys = Object.keys(value);
+    if (keys.length === 0) issues.push(`${path} is an empty object`);
+    keys.forEach(key => checkValues(value[key], `${path}.${key}`, issues));
+  }
+};
+
+// CodeableConcepts need at least a coding or text; codings need a system and code.
+const checkCodeableConcept = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) { issues.push(`${path} is not a CodeableConcept`); return; }
+  const coding = value.coding;
+  if (coding === undefined && typeof value.text !== 'string') issues.push(`${path} has neither coding nor text`);
+  if (coding !== undefined) {
+    if (!Array.isArray(coding)) { issues.push(`${path}.coding is not an array`); return; }
+    coding.forEach((c, i) => {
+      if (!isObject(c) || typeof c.system !== 'string' || typeof c.code !== 'string') {
+        issues.push(`${path}.coding[${i}] needs a system and code`);
+      }
+    });
+  }
+};
+
+const collectReferences = (value: unknown, path: string, found: [string, string][]) => {
+  if (Array.isArray(value)) value.forEach((item, i) => collectReferences(item, `${path}[${i}]`, found));
+  else if (isObject(value)) {
+    Object.entries(value).forEach(([key, child]) => {
+      if (key === 'reference' && typeof child === 'string') found.push([`${path}.reference`, child]);
+      else collectReferences(child, `${path}.${key}`, found);
+    });
+  }
+};
+
+const checkResource = (resource: FhirJson, path: string, issues: string[]) => {
+  const type = resource.resourceType;
+  const rules = typeof type === 'string' ? RESOURCE_RULES[type] : undefined;
+  if (!rules) { issues.push(`${path}.resourceType "${String(type)}" is not exported`); return; }
+  if (typeof resource.id !== 'string' || !ID_PATTERN.test(resource.id)) issues.push(`${path}.id is not a valid FHIR id`);
+
+  rules.required.forEach(field => {
+    if (resource[field] === undefined) issues.push(`${path}.${field} is required for ${type}`);
+  });
+  if (rules.status && !rules.status.includes(resource.status as string)) issues.push(`${path}.status "${String(resource.status)}" is not a ${type} status`);
+  if (rules.intent && !rules.intent.includes(resource.intent as string)) issues.push(`${path}.intent "${String(resource.intent)}" is not a ${type} intent`);
+
+  if (resource.code !== undefined) checkCodeableConcept(resource.code, `${path}.code`, issues);
+  (['effectiveDateTime', 'issued', 'created'] as const).forEach(field => {
+    const value = resource[field];
+    if (value !== undefined && (typeof value !== 'string' || !DATE_TIME_PATTERN.test(value))) issues.push(`${path}.${field} is not a FHIR dateTime`);
+  });
+
+  if (type === 'Observation') {
+    const quantity = resource.valueQuantity;
+    if (quantity !== undefined && !(isObject(quantity) && typeof quantity.value === 'number')) issues.push(`${path}.valueQuantity.value must be a number`);
+    (Array.isArray(resource.interpretation) ? resource.interpretation : []).forEach((c, i) => checkCodeableConcept(c, `${path}.interpretation[${i}]`, issues));
+    (Array.isArray(resource.component) ? resource.component : []).forEach((c, i) => {
+      if (!isObject(c)) { issues.push(`${path}.component[${i}] is not an object`); return; }
+      checkCodeableConcept(c.code, `${path}.component[${i}].code`, issues);
+    });
+  }
+
+  if (type === 'CarePlan') {
+    (Array.isArray(resource.activity) ? resource.activity : []).forEach((a, i) => {
+      const detail = isObject(a) ? a.detail : undefined;
+      if (!isObject(detail)) { issues.push(`${path}.activity[${i}].detail is required`); return; }
+      if (!ACTIVITY_STATUSES.includes(detail.status as string)) issues.push(`${path}.activity[${i}].detail.status "${String(detail.status)}" is not an activity status`);
+    });
+  }
+};
+
+/**
+ * Structural check against the FHIR R4 JSON rules that matter for this
+ * export: value rules, required elements, status codes, ids, dateTimes and
+ * that every reference resolves inside the bundle. Returns the issues found;
+ * it is not a full profile validator.
+ */
+export const validateFhirBundle = (bundle: unknown): string[] => {
+  const issues: string[] = [];
+  if (!isObject(bundle) || bundle.resourceType !== 'Bundle') return ['Bundle.resourceType must be "Bundle"'];
+
+  checkValues(bundle, 'Bundle', issues);
+  if (bundle.type !== 'collection') issues.push('Bundle.type must be "collection"');
+  if (typeof bundle.timestamp !== 'string' || !DATE_TIME_PATTERN.test(bundle.timestamp)) issues.push('Bundle.timestamp is not a FHIR instant');
+  if (!Array.isArray(bundle.entry)) return [...issues, 'Bundle.entry must be an array'];
+
+  const fullUrls = new Set<string>();
+  bundle.entry.forEach((entry, i) => {
+    const path = `Bundle.entry[${i}]`;
+    if (!isObject(entry) || !isObject(entry.resource)) { issues.push(`${path}.resource is required`); return; }
+    if (typeof entry.fullUrl !== 'string') issues.push(`${path}.fullUrl is required`);
+    else if (fullUrls.has(entry.fullUrl)) issues.push(`${path}.fullUrl ${entry.fullUrl} is duplicated`);
+    else fullUrls.add(entry.fullUrl);
+    checkResource(entry.resource, `${path}.resource`, issues);
+  });
+
+  const references: [string, string][] = [];
+  collectReferences(bundle.entry, 'Bundle.entry', references);
+  references.forEach(([path, reference]) => {
+    if (!fullUrls.has(reference)) issues.push(`${path} ${reference} does not resolve within the bundle`);
+  });
+
+  return issues;
+};
+
+/**
+ * Builds and validates the bundle, returning it as formatted JSON. Throws
+ * FhirValidationError rather than hand partners a bundle they would reject.
+ */
+export const exportFhirBundle = (analysis: HealthAnalysis, options: FhirExportOptions = {}): string => {
+  const bundle = buildFhirBundle(analysis, options);
+  const issues = validateFhirBundle(bundle);
+  if (issues.length > 0) throw new FhirValidationError(issues);
+  return JSON.stringify(bundle, null, 2);
+};
@@ -0,0 +1,21 @@
+import { InvalidInputError } from "./analysisErrors";
+
+export const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(new InvalidInputError());
+  reader.readAsDataURL(blob);
+});
+
+// Saves generated content (reports, exports) through a temporary link.
+export const downloadFile = (filename: string, content: string | Blob, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
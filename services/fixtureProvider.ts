@@ -0,0 +1,93 @@
+import { HealthAnalysis } from "../types";
+import { AnalysisProvider, AnalysisRequest, ChatRequest, TranscriptionRequest } from "./analysisProvider";
+import { AnalysisCancelledError } from "./analysisErrors";
+
+// Recorded screening result replayed for offline runs; also used by the
+// "Try with Sample Data" demo on the intro screen.
+export const SAMPLE_ANALYSIS_RESULT: HealthAnalysis = {
+  overall_wellness_score: 82,
+  confidence_level: 'high',
+  summary: "The analysis indicates a robust vocal profile with strong respiratory support and clear articulation. Neurological markers are stable with no signs of tremors or dysarthria. Mental health indicators suggest a positive and engaged emotional state.",
+  disclaimer: "This is a demonstration result based on clinical sample data. Not a medical diagnosis.",
+  domain_scores: {
+    neurological: { score: 88, concern_level: 'low', indicators: ['Stable pitch', 'No micro-tremors', 'Regular rate'], explanation: 'High vocal stability suggests excellent neuromotor control.' },
+    mental_health: { score: 78, concern_level: 'low', indicators: ['High energy', 'Varied intonation'], explanation: 'Speech patterns indicate positive emotional engagement and low stress.' },
+    respiratory: { score: 92, concern_level: 'low', indicators: ['Sustained phonation', 'Clear breath'], explanation: 'Excellent respiratory capacity detected with no audible gasping.' },
+    cardiovascular: { score: 81, concern_level: 'low', indicators: ['Regular rhythm'], explanation: 'No arrhythmic patterns observed in speech breathing cycles.' },
+    metabolic: { score: 72, concern_level: 'moderate', indicators: ['Slight fatigue markers'], explanation: 'Minor signs of vocal fatigue detected, possibly hydration-related.' },
+    hydration: { score: 85, concern_level: 'low', indicators: ['Clear tone', 'Low jitter'], explanation: 'Vocal folds appear well-hydrated based on acoustic clarity.' },
+  },
+  key_observations: [
+    { finding: "High vocal stability (Jitter < 0.5%)", significance: "Indicates healthy neuromotor function", confidence: "high" },
+    { finding: "Consistent speech rate (140 wpm)", significance: "Normal cognitive processing speed", confidence: "high" },
+    { finding: "Harmonic-to-Noise Ratio > 20dB", significance: "Clear, efficient phonation", confidence: "high" }
+  ],
+  recommendations: [
+    { action: "Maintain current hydration", urgency: "routine", reason: "Supports optimal vocal fold mucosal wave" },
+    { action: "Monitor fatigue levels", urgency: "soon", reason: "Slight metabolic strain detected in lower registers" }
+  ],
+  trends: {
+    improving: ["respiratory"],
+    stable: ["neurological", "cardiovascular"],
+    needs_attention: []
+  }
+};
+
+const SAMPLE_CHAT_REPLIES = [
+  "Your **respiratory score (92)** is your strongest result 🫁. Sustained phonation and clear breath support suggest good lung function during speech.",
+  "The **metabolic** domain shows *slight fatigue markers* ⚡. This is a screening indicator, not a diagnosis. Regular sleep and hydration often help.",
+  "Low **jitter** means your pitch stays steady from cycle to cycle 🧠, which is one of the biomarkers associated with healthy neuromotor control.",
+];
+
+export interface FixtureSet {
+  analysis: HealthAnalysis;
+  chatReplies: string[];
+  transcript: string;
+}
+
+const DEFAULT_FIXTURES: FixtureSet = {
+  analysis: SAMPLE_ANALYSIS_RESULT,
+  chatReplies: SAMPLE_CHAT_REPLIES,
+  transcript: "What does my metabolic score mean?"
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timeout = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeout);
+    reject(new AnalysisCancelledError());
+  }, { once: true });
+});
+
+/**
+ * Replays recorded responses without touching the network, so the full flow
+ * can be demoed and exercised offline. Chat replies cycle in order.
+ */
+export const createFixtureProvider = (
+  fixtures: FixtureSet = DEFAULT_FIXTURES,
+  latencyMs: number = 800
+): AnalysisProvider => {
+  const analyzeHealth = async ({ signal }: AnalysisRequest): Promise<HealthAnalysis> => {
+    await delay(latencyMs, signal);
+    // Hand out a copy so callers can't mutate the recording.
+    return JSON.parse(JSON.stringify(fixtures.analysis)) as HealthAnalysis;
+  };
+
+  // Streams the recorded reply word by word so the chat UI behaves as it does live.
+  const chat = async function* ({ history, signal }: ChatRequest): AsyncGenerator<string> {
+    await delay(latencyMs, signal);
+    const turn = history.filter(m => m.role === 'user').length;
+    const reply = fixtures.chatReplies[turn % fixtures.chatReplies.length] || "I couldn't process that response.";
+    for (const word of reply.match(/\S+\s*/g) || []) {
+      yield word;
+      await delay(40, signal);
+    }
+  };
+
+  const transcribe = async ({ signal }: TranscriptionRequest): Promise<string> => {
+    await delay(latencyMs, signal);
+    return fixtures.transcript;
+  };
+
+  return { name: 'fixture', analyzeHealth, chat, transcribe };
+};
@@ -1,14 +1,32 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { HealthAnalysis, ChatMessage } from "../types";
-
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { GoogleGenAI, Type, GenerateContentResponse, GenerateContentResponseUsageMetadata, MediaModality } from "@google/genai";
+import { HealthAnalysis, InputModality, ModelCallKind, ModelUsage, UserProfile } from "../types";
+import { describeAcousticFeatures } from "./acousticService";
+import { AnalysisProvider, AnalysisRequest, ChatRequest, TranscriptionRequest } from "./analysisProvider";
+import { AnalysisValidationError, parseHealthAnalysis } from "./analysisValidator";
+import { getEnabledDomains } from "./domainRegistry";
+import { MalformedOutputError, SafetyBlockError } from "./analysisErrors";
+import { PROFILE_FIELDS, describeProfile } from "./profileService";
+import { VOICE_TASK_IDS, getVoiceTask } from "./voiceProtocol";
 
 const ANALYSIS_MODEL = "gemini-2.5-flash";
+// Extra attempts with a corrective prompt when the output fails validation.
+const MAX_REPAIR_ATTEMPTS = 1;
+
+const DOMAIN_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.NUMBER },
+    concern_level: { type: Type.STRING, enum: ["low", "moderate", "elevated", "high"] },
+    indicators: { type: Type.ARRAY, items: { type: Type.STRING } },
+    explanation: { type: Type.STRING }
+  }
+};
+
+const ENABLED_DOMAINS = getEnabledDomains();
 
 const SYSTEM_INSTRUCTION_ANALYSIS = `
 You are a health screening AI analyzing voice biomarkers. 
-Based on observations, assess risk levels for Neurological health, Mental health, Respiratory health, Cardiovascular, Metabolic, and Hydration.
+Based on observations, assess risk levels for ${ENABLED_DOMAINS.map(d => d.label).join(", ")}.
 Provide confidence levels. Be encouraging but honest. This is screening, not diagnosis.
 `;
 
@@ -19,62 +37,8 @@ const RESPONSE_SCHEMA = {
     confidence_level: { type: Type.STRING, enum: ["low", "medium", "high"] },
     domain_scores: {
       type: Type.OBJECT,
-      properties: {
-        neurological: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER },
-            concern_level: { type: Type.STRING, enum: ["low", "moderate", "elevated", "high"] },
-            indicators: { type: Type.ARRAY, items: { type: Type.STRING } },
-            explanation: { type: Type.STRING }
-          }
-        },
-        mental_health: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER },
-            concern_level: { type: Type.STRING, enum: ["low", "moderate", "elevated", "high"] },
-            indicators: { type: Type.ARRAY, items: { type: Type.STRING } },
-            explanation: { type: Type.STRING }
-          }
-        },
-        respiratory: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER },
-            concern_level: { type: Type.STRING, enum: ["low", "moderate", "elevated", "high"] },
-            indicators: { type: Type.ARRAY, items: { type: Type.STRING } },
-            explanation: { type: Type.STRING }
-          }
-        },
-        cardiovascular: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER },
-            concern_level: { type: Type.STRING, enum: ["low", "moderate", "elevated", "high"] },
-            indicators: { type: Type.ARRAY, items: { type: Type.STRING } },
-            explanation: { type: Type.STRING }
-          }
-        },
-        metabolic: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER },
-            concern_level: { type: Type.STRING, enum: ["low", "moderate", "elevated", "high"] },
-            indicators: { type: Type.ARRAY, items: { type: Type.STRING } },
-            explanation: { type: Type.STRING }
-          }
-        },
-        hydration: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.NUMBER },
-            concern_level: { type: Type.STRING, enum: ["low", "moderate", "elevated", "high"] },
-            indicators: { type: Type.ARRAY, items: { type: Type.STRING } },
-            explanation: { type: Type.STRING }
-          }
-        },
-      }
+      properties: Object.fromEntries(ENABLED_DOMAINS.map(d => [d.id, DOMAIN_SCHEMA])),
+      required: ENABLED_DOMAINS.map(d => d.id)
     },
     key_observations: {
       type: Type.ARRAY,
@@ -98,12 +62,25 @@ const RESPONSE_SCHEMA = {
         }
       }
     },
-    trends: {
-      type: Type.OBJECT,
-      properties: {
-        improving: { type: Type.ARRAY, items: { type: Type.STRING } },
-        stable: { type: Type.ARRAY, items: { type: Type.STRING } },
-        needs_attention: { type: Type.ARRAY, items: { type: Type.STRING } }
+    profile_considerations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          field: { type: Type.STRING, enum: PROFILE_FIELDS },
+          note: { type: Type.STRING }
+        }
+      }
+    },
+    task_evidence: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          task: { type: Type.STRING, enum: VOICE_TASK_IDS },
+          domain: { type: Type.STRING, enum: ENABLED_DOMAINS.map(d => d.id) },
+          indicator: { type: Type.STRING }
+        }
       }
     },
     summary: { type: Type.STRING },
@@ -111,23 +88,35 @@ const RESPONSE_SCHEMA = {
   }
 };
 
-export const analyzeHealth = async (
-  audioBase64: string,
-  audioMimeType: string = "audio/webm",
-  imageBase64?: string,
-  imageMimeType: string = "image/jpeg",
-  language: string = "English (US)"
-): Promise<HealthAnalysis> => {
-  try {
-    const parts: any[] = [
-      {
-        text: `Analyze the provided audio ${imageBase64 ? "and facial image" : ""} to screen for health biomarkers.
+const buildAnalysisPrompt = ({ imageBase64, language, acousticFeatures, profile, segments }: AnalysisRequest) =>
+  `Analyze the provided audio ${imageBase64 ? "and facial image" : ""} to screen for health biomarkers.
         If this is an uploaded dataset file, treat it as a clinical sample for validation.
 
         CRITICAL INSTRUCTION: The user is speaking in ${language}. 
         You MUST perform the analysis understanding this language.
         All textual output in the JSON (summaries, explanations, findings, recommendations, disclaimers) MUST be translated into and written in ${language}.
         
+        ${segments?.length ? `GUIDED VOICE PROTOCOL: the user recorded several standard tasks. Each recording follows
+        a "RECORDING: <task id>" label; the last one is the free_speech task.
+        ${[...segments.map(s => s.task), 'free_speech' as const].map(id => `- ${id}: ${getVoiceTask(id).promptGuidance}`).join("\n        ")}
+        Judge each indicator from the task best suited to it. In "task_evidence", list every indicator
+        you report with the task id that supports it, the domain id, and the indicator text exactly as
+        written in that domain's indicators.
+        ` : `There is a single recording; return "task_evidence" as an empty array.
+        `}
+        ${acousticFeatures ? `MEASURED ACOUSTIC FEATURES (computed on-device from ${segments?.length ? "the free_speech recording" : "this recording"}):
+        ${describeAcousticFeatures(acousticFeatures)}
+        Treat these measurements as ground truth for pitch, voice quality, pauses and speech rate.
+        Do not contradict them with your own estimates; interpret them.
+        ` : ""}
+        ${profile ? `USER PROFILE (self-reported):
+        ${describeProfile(profile)}
+        Interpret the recording relative to this profile, e.g. expected age and sex differences in pitch,
+        smoking effects on voice quality, or symptoms already explained by a known condition or medication.
+        In "profile_considerations", list each profile field (by its id) that changed your interpretation,
+        with one sentence on how. Leave out fields that made no difference.
+        ` : `No user profile was provided; return "profile_considerations" as an empty array.
+        `}
         1. VOCAL CHARACTERISTICS:
         - Pitch, Volume, Tremor, Breathiness
         
@@ -137,6 +126,9 @@ export const analyzeHealth = async (
         3. EMOTIONAL INDICATORS:
         - Energy, Engagement, Stress
 
+        DOMAIN GUIDANCE (score every domain below):
+        ${ENABLED_DOMAINS.map(d => `- ${d.id} (${d.label}): ${d.promptGuidance}`).join("\n        ")}
+
         ${imageBase64 ? `
         4. FACE ANALYSIS (if provided):
         - Skin color/tone (pallor, yellowing)
@@ -146,60 +138,18 @@ export const analyzeHealth = async (
         
         CORRELATE findings across both modalities.` : ""}
 
-        Output strict JSON based on the schema.`
-      },
-      {
-        inlineData: {
-          mimeType: audioMimeType,
-          data: audioBase64
-        }
-      }
-    ];
-
-    if (imageBase64) {
-      parts.push({
-        inlineData: {
-          mimeType: imageMimeType,
-          data: imageBase64
-        }
-      });
-    }
-
-    const response = await ai.models.generateContent({
-      model: ANALYSIS_MODEL,
-      contents: { parts },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION_ANALYSIS,
-        responseMimeType: "application/json",
-        responseSchema: RESPONSE_SCHEMA
-      }
-    });
-
-    if (!response.text) throw new Error("No response from AI");
-    
-    return JSON.parse(response.text) as HealthAnalysis;
-
-  } catch (error) {
-    console.error("Analysis failed:", error);
-    throw error;
-  }
-};
+        Output strict JSON based on the schema.`;
 
-export const chatWithHealthAssistant = async (
-  history: ChatMessage[],
-  newMessage: string,
-  analysisContext: HealthAnalysis,
-  language: string = "English (US)",
-  audioBase64?: string
-): Promise<string> => {
-  try {
-    const contextString = JSON.stringify(analysisContext);
-    // GUARDRAILS INJECTED INTO SYSTEM PROMPT
-    const systemPrompt = `You are VitalVoice AI, a specific-purpose health screening assistant.
+// GUARDRAILS INJECTED INTO SYSTEM PROMPT
+const buildChatSystemPrompt = (analysisContext: HealthAnalysis, language: string, profile?: UserProfile) => {
+  const contextString = JSON.stringify(analysisContext);
+  const profileString = profile ? `\n    The user's self-reported profile:\n${describeProfile(profile)}\n` : "";
+  return `You are VitalVoice AI, a specific-purpose health screening assistant.
     You are NOT a general purpose AI. You can ONLY discuss the user's specific health screening results.
     
     CONTEXT:
     The user completed a screening with these results: ${contextString}.
+    ${profileString}
 
     STRICT RULES:
     1. SCOPE: If the user asks about coding, creative writing, history, or anything unrelated to THEIR health results, politely REFUSE. Say: "I can only answer questions about your screening results."
@@ -208,9 +158,148 @@ export const chatWithHealthAssistant = async (
     4. FORMAT: Use Markdown (bold, bullets) and Emojis (🍎, 🧠) for readability.
     5. SAFETY: Never provide a medical diagnosis. Frame everything as "screening indicators" or "biomarkers".
     `;
+};
+
+// --- Usage ---
+
+const MODALITIES: Partial<Record<MediaModality, InputModality>> = {
+  [MediaModality.TEXT]: 'text',
+  [MediaModality.AUDIO]: 'audio',
+  [MediaModality.IMAGE]: 'image'
+};
+
+// What a request sends, for attributing cost to audio versus face scans.
+const measureParts = (parts: any[], extraText = ""): ModelUsage['inputSizes'] => {
+  const sizes = { textChars: extraText.length, audioBytes: 0, imageBytes: 0 };
+  parts.forEach(part => {
+    if (typeof part === 'string') sizes.textChars += part.length;
+    else if (part.text) sizes.textChars += part.text.length;
+    else if (part.inlineData) {
+      const bytes = Math.floor((part.inlineData.data.length * 3) / 4);
+      if (part.inlineData.mimeType.startsWith('image/')) sizes.imageBytes += bytes;
+      else sizes.audioBytes += bytes;
+    }
+  });
+  return sizes;
+};
+
+const reportUsage = (
+  onUsage: ((usage: ModelUsage) => void) | undefined,
+  kind: ModelCallKind,
+  metadata: GenerateContentResponseUsageMetadata | undefined,
+  inputSizes: ModelUsage['inputSizes']
+) => {
+  if (!onUsage || !metadata) return;
+  const promptTokensByModality: ModelUsage['promptTokensByModality'] = {};
+  metadata.promptTokensDetails?.forEach(({ modality, tokenCount }) => {
+    const key = modality && MODALITIES[modality];
+    if (key && tokenCount) promptTokensByModality[key] = (promptTokensByModality[key] ?? 0) + tokenCount;
+  });
+  const promptTokens = metadata.promptTokenCount ?? 0;
+  const outputTokens = (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0);
+  onUsage({
+    kind,
+    model: ANALYSIS_MODEL,
+    at: Date.now(),
+    promptTokens,
+    outputTokens,
+    totalTokens: metadata.totalTokenCount ?? promptTokens + outputTokens,
+    promptTokensByModality: Object.keys(promptTokensByModality).length > 0 ? promptTokensByModality : undefined,
+    inputSizes
+  });
+};
+
+const SAFETY_FINISH_REASONS = ["SAFETY", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII", "IMAGE_SAFETY"];
+
+// Blocked prompts come back as a normal response with no text, so check
+// before treating an empty body as malformed output.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockError(blockReason);
+
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockError(finishReason);
+};
+
+export const createGeminiProvider = (apiKey?: string): AnalysisProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const analyzeHealth = async (request: AnalysisRequest): Promise<HealthAnalysis> => {
+    const parts: any[] = [{ text: buildAnalysisPrompt(request) }];
+
+    request.segments?.forEach(segment => {
+      parts.push(
+        {
+          text: `RECORDING: ${segment.task}` + (segment.acousticFeatures
+            ? `\nMeasured on-device:\n${describeAcousticFeatures(segment.acousticFeatures)}`
+            : "")
+        },
+        { inlineData: { mimeType: segment.audioMimeType, data: segment.audioBase64 } }
+      );
+    });
+
+    if (request.segments?.length) parts.push({ text: "RECORDING: free_speech" });
+    parts.push({
+      inlineData: {
+        mimeType: request.audioMimeType,
+        data: request.audioBase64
+      }
+    });
+
+    if (request.imageBase64) {
+      parts.push({
+        inlineData: {
+          mimeType: request.imageMimeType || "image/jpeg",
+          data: request.imageBase64
+        }
+      });
+    }
+
+    const contents: any[] = [{ role: 'user', parts }];
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await ai.models.generateContent({
+        model: ANALYSIS_MODEL,
+        contents,
+        config: {
+          systemInstruction: SYSTEM_INSTRUCTION_ANALYSIS,
+          responseMimeType: "application/json",
+          responseSchema: RESPONSE_SCHEMA,
+          abortSignal: request.signal
+        }
+      });
+      // Repair attempts resend everything, so each is reported as its own call.
+      reportUsage(request.onUsage, 'analysis', response.usageMetadata, measureParts(contents.flatMap(c => c.parts), SYSTEM_INSTRUCTION_ANALYSIS));
+
+      assertNotBlocked(response);
+      if (!response.text) throw new MalformedOutputError();
+
+      try {
+        const { analysis, repairs } = parseHealthAnalysis(response.text);
+        if (repairs.length > 0) console.warn("Repaired analysis output:", repairs);
+        return analysis;
+      } catch (error) {
+        if (!(error instanceof AnalysisValidationError) || attempt >= MAX_REPAIR_ATTEMPTS) throw error;
+
+        console.warn("Analysis output failed validation, retrying:", error.issues);
+        contents.push(
+          { role: 'model', parts: [{ text: response.text }] },
+          {
+            role: 'user',
+            parts: [{
+              text: `Your previous response did not match the required schema:
+              ${error.issues.map(issue => `- ${issue}`).join("\n")}
+              Return the complete corrected JSON object. Every domain must be present with a numeric score from 0 to 100.`
+            }]
+          }
+        );
+      }
+    }
+  };
 
-    // Filter history to text-only for now to avoid token overhead/complexity with re-sending audio blobs
-    // In a production app, we would cache content or use session ID.
+  const chat = async function* ({ history, message, analysisContext, language, audioBase64, profile, signal, onUsage }: ChatRequest): AsyncGenerator<string> {
+    // Audio turns arrive already replaced by their transcripts (see analysisService),
+    // so audio blobs are never re-sent; anything still flagged as audio is dropped.
     const textHistory = history
       .filter(h => !h.isAudio) 
       .map(h => ({
@@ -218,12 +307,14 @@ export const chatWithHealthAssistant = async (
         parts: [{ text: h.text }]
       }));
 
-    const chat = ai.chats.create({
+    const systemInstruction = buildChatSystemPrompt(analysisContext, language, profile);
+    const session = ai.chats.create({
         model: ANALYSIS_MODEL,
         config: {
-            systemInstruction: systemPrompt,
+            systemInstruction,
             maxOutputTokens: 350, // COST CONTROL: Limit response size
             temperature: 0.7,
+            abortSignal: signal,
         },
         history: textHistory
     });
@@ -231,17 +322,49 @@ export const chatWithHealthAssistant = async (
     let messageContent: any;
     if (audioBase64) {
         messageContent = [
-            { text: newMessage || "Please analyze this audio message." },
+            { text: message || "Please analyze this audio message." },
             { inlineData: { mimeType: 'audio/webm', data: audioBase64 } }
         ];
     } else {
-        messageContent = newMessage;
+        messageContent = message;
     }
 
-    const result = await chat.sendMessage({ message: messageContent });
-    return result.text || "I couldn't process that response.";
-  } catch (error) {
-    console.error("Chat error:", error);
-    return "I'm having trouble connecting to the VitalVoice servers right now. Please try again.";
-  }
+    const stream = await session.sendMessageStream({ message: messageContent });
+    // Usage is cumulative; the last chunk that carries it has the totals. A
+    // reply that is stopped or fails part-way is still billed for what was
+    // generated, so whatever arrived is reported.
+    let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+    try {
+      for await (const chunk of stream) {
+        assertNotBlocked(chunk);
+        if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+        if (chunk.text) yield chunk.text;
+      }
+    } finally {
+      const sent = [...textHistory.flatMap(h => h.parts), ...(Array.isArray(messageContent) ? messageContent : [messageContent])];
+      reportUsage(onUsage, 'chat', usageMetadata, measureParts(sent, systemInstruction));
+    }
+  };
+
+  const transcribe = async ({ audioBase64, audioMimeType, language, signal, onUsage }: TranscriptionRequest): Promise<string> => {
+    const parts = [
+      { text: `Transcribe this voice message verbatim. The speaker uses ${language}. Output only the transcript, with no commentary or quotation marks.` },
+      { inlineData: { mimeType: audioMimeType, data: audioBase64 } }
+    ];
+    const response = await ai.models.generateContent({
+      model: ANALYSIS_MODEL,
+      contents: { parts },
+      config: {
+        temperature: 0,
+        maxOutputTokens: 300,
+        abortSignal: signal
+      }
+    });
+
+    reportUsage(onUsage, 'transcription', response.usageMetadata, measureParts(parts));
+    assertNotBlocked(response);
+    return (response.text || "").trim();
+  };
+
+  return { name: 'gemini', analyzeHealth, chat, transcribe };
 };
@@ -0,0 +1,30 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { ModelUsage } from "../types";
+import { addScreeningUsage, getScreening, saveScreening } from "./historyService";
+import { SAMPLE_ANALYSIS_RESULT } from "./fixtureProvider";
+
+const usageAt = (at: number, kind: ModelUsage['kind']): ModelUsage => ({
+  kind, model: 'gemini-2.5-flash', at, promptTokens: 10, outputTokens: 5, totalTokens: 15,
+  inputSizes: { textChars: 100, audioBytes: 0, imageBytes: 0 }
+});
+
+describe("addScreeningUsage", () => {
+  it("keeps both calls when two appends run at once", async () => {
+    const analysisCall = usageAt(1, 'analysis');
+    const { id } = await saveScreening(SAMPLE_ANALYSIS_RESULT, 'en-US', undefined, undefined, undefined, [analysisCall]);
+
+    await Promise.all([
+      addScreeningUsage(id, [usageAt(2, 'chat')]),
+      addScreeningUsage(id, [usageAt(3, 'transcription')])
+    ]);
+
+    const usage = (await getScreening(id))?.usage ?? [];
+    expect(usage.map(call => call.kind).sort()).toEqual(['analysis', 'chat', 'transcription']);
+  });
+
+  it("leaves a deleted screening alone", async () => {
+    await addScreeningUsage('missing', [usageAt(4, 'chat')]);
+    expect(await getScreening('missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,123 @@
+import { AcousticFeatures, AudioPreprocessingStats, HealthAnalysis, HealthTrends, ModelUsage, ScreeningRecord, UserProfile } from "../types";
+import { getScoredDomains } from "./domainRegistry";
+import { STORE_SCREENINGS, runTransaction as runDatabaseTransaction } from "./database";
+
+// How many previous screenings form the baseline, and how far (in score points)
+// the current result has to move away from it to count as a change.
+const TREND_BASELINE_SIZE = 4;
+const TREND_THRESHOLD = 5;
+
+const runTransaction = <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => runDatabaseTransaction(STORE_SCREENINGS, mode, operation);
+
+/**
+ * Compares each domain score against the average of the most recent previous
+ * screenings. With no history every list is empty: one recording on its own
+ * says nothing about direction.
+ */
+export const computeTrends = (
+  domainScores: HealthAnalysis["domain_scores"],
+  previous: ScreeningRecord[]
+): HealthTrends => {
+  const trends: HealthTrends = { improving: [], stable: [], needs_attention: [] };
+  const baseline = [...previous]
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, TREND_BASELINE_SIZE);
+
+  if (baseline.length === 0) return trends;
+
+  getScoredDomains(domainScores).forEach(([definition, domain]) => {
+    const pastScores = baseline
+      .map(record => getScoredDomains(record.analysis.domain_scores).find(([d]) => d.id === definition.id)?.[1].score)
+      .filter((score): score is number => typeof score === 'number');
+
+    if (pastScores.length === 0) return;
+
+    const average = pastScores.reduce((a, b) => a + b, 0) / pastScores.length;
+    const delta = domain.score - average;
+    if (delta >= TREND_THRESHOLD) trends.improving.push(definition.id);
+    else if (delta <= -TREND_THRESHOLD) trends.needs_attention.push(definition.id);
+    else trends.stable.push(definition.id);
+  });
+
+  return trends;
+};
+
+export const listScreenings = async (): Promise<ScreeningRecord[]> => {
+  const records = await runTransaction<ScreeningRecord[]>("readonly", store => store.getAll());
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getScreening = async (id: string): Promise<ScreeningRecord | undefined> => {
+  return runTransaction<ScreeningRecord | undefined>("readonly", store => store.get(id));
+};
+
+export const deleteScreening = async (id: string): Promise<void> => {
+  await runTransaction("readwrite", store => store.delete(id));
+};
+
+/**
+ * Replaces the model's trends with ones computed from stored history, then
+ * persists the screening. Returns the saved record.
+ */
+export const saveScreening = async (
+  analysis: HealthAnalysis,
+  language: string,
+  acousticFeatures?: AcousticFeatures,
+  profile?: UserProfile,
+  preprocessing?: AudioPreprocessingStats[],
+  usage?: ModelUsage[]
+): Promise<ScreeningRecord> => {
+  const previous = await listScreenings();
+  const record: ScreeningRecord = {
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    language,
+    analysis: {
+      ...analysis,
+      trends: computeTrends(analysis.domain_scores, previous)
+    },
+    acousticFeatures,
+    profile,
+    preprocessing,
+    usage
+  };
+
+  await runTransaction("readwrite", store => store.put(record));
+  return record;
+};
+
+/**
+ * Appends model calls made after the screening was saved (its chat turns and
+ * transcriptions). The read and the write share one transaction, so a chat
+ * reply and a transcription finishing together both keep their calls. A
+ * screening that has since been deleted is left alone.
+ */
+export const addScreeningUsage = async (id: string, usage: ModelUsage[]): Promise<void> => {
+  if (usage.length === 0) return;
+  await runTransaction<ScreeningRecord | undefined>("readwrite", store => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const record: ScreeningRecord | undefined = request.result;
+      if (record) store.put({ ...record, usage: [...(record.usage ?? []), ...usage] });
+    };
+    return request;
+  });
+};
+
+/**
+ * Stores a screening from an export file, keeping its date and trends, and
+ * returns the stored record. A screening already on this device (same id and
+ * date) is kept as it is rather than overwritten, since it may have chat
+ * usage added since the export. A different screening with the same id is
+ * stored under a new one.
+ */
+export const importScreening = async (record: ScreeningRecord): Promise<ScreeningRecord> => {
+  const existing = await getScreening(record.id);
+  if (existing && existing.createdAt === record.createdAt) return existing;
+  const stored = existing ? { ...record, id: crypto.randomUUID() } : record;
+  await runTransaction("readwrite", store => store.add(stored));
+  return stored;
+};
@@ -0,0 +1,156 @@
+import { HealthAnalysis, ModelUsage } from "../types";
+import { AnalysisProvider, AnalysisRequest, ChatRequest, TranscriptionRequest } from "./analysisProvider";
+import { QuotaStatus } from "./quotaService";
+import { validateHealthAnalysis } from "./analysisValidator";
+import { MalformedOutputError, SafetyBlockError } from "./analysisErrors";
+
+// Carries the status code so classifyError can tell quota from bad input.
+class HttpError extends Error {
+  status: number;
+
+  constructor(url: string, status: number, detail: string) {
+    super(`Request to ${url} failed with ${status}${detail ? `: ${detail}` : ""}`);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const errorKind = (detail: string): unknown => {
+  try {
+    return JSON.parse(detail)?.kind;
+  } catch {
+    return undefined;
+  }
+};
+
+// The proxy reports the model calls behind a JSON answer in this header.
+export const USAGE_HEADER = 'X-Model-Usage';
+
+const reportHeaderUsage = (response: Response, onUsage?: (usage: ModelUsage) => void) => {
+  const header = response.headers.get(USAGE_HEADER);
+  if (!onUsage || !header) return;
+  try {
+    (JSON.parse(header) as ModelUsage[]).forEach(onUsage);
+  } catch {
+    console.warn(`Ignoring unreadable ${USAGE_HEADER} header`);
+  }
+};
+
+export interface HttpProviderOptions {
+  // Extra headers for every request, e.g. the proxy's quota token.
+  getHeaders?: () => Promise<Record<string, string>>;
+  // Called on 401 before the error is thrown, so a retry can re-authenticate.
+  onUnauthorized?: () => void;
+}
+
+/**
+ * Talks to any server exposing `POST /analyze`, `POST /chat` and
+ * `POST /transcribe` with the AnalysisRequest / ChatRequest /
+ * TranscriptionRequest bodies: the proxy in server/, or a local stand-in
+ * during development. `GET /quota` is used when the server has it.
+ */
+export const createHttpProvider = (baseUrl: string, options: HttpProviderOptions = {}): AnalysisProvider => {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const send = async (url: string, init: RequestInit): Promise<Response> => {
+    const headers = { ...(init.headers as Record<string, string>), ...(await options.getHeaders?.()) };
+    const response = await fetch(url, { ...init, headers });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      if (response.status === 401) options.onUnauthorized?.();
+      // The proxy server names the failure kind; a status alone cannot tell these two apart.
+      const kind = errorKind(detail);
+      if (kind === 'safety') throw new SafetyBlockError();
+      if (kind === 'malformed_output') throw new MalformedOutputError();
+      throw new HttpError(url, response.status, detail);
+    }
+
+    return response;
+  };
+
+  const postRaw = (url: string, body: unknown, signal?: AbortSignal): Promise<Response> =>
+    send(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body), signal });
+
+  const postJson = async <T>(url: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+    const response = await postRaw(url, body, signal);
+    return response.json() as Promise<T>;
+  };
+
+  const analyzeHealth = async (request: AnalysisRequest): Promise<HealthAnalysis> => {
+    const { signal, onUsage, ...body } = request;
+    const response = await postRaw(`${root}/analyze`, body, signal);
+    reportHeaderUsage(response, onUsage);
+    const raw: unknown = await response.json();
+    // The server is not trusted to have validated; there is no corrective retry here.
+    const { analysis, repairs } = validateHealthAnalysis(raw);
+    if (repairs.length > 0) console.warn("Repaired analysis output:", repairs);
+    return analysis;
+  };
+
+  /**
+   * `/chat` may stream plain text chunks, stream NDJSON lines of `{ text }` and
+   * `{ usage }` (the proxy, which sends usage once the reply is complete), or
+   * answer with a single `{ text }` JSON body.
+   */
+  const chat = async function* ({ signal, onUsage, ...body }: ChatRequest): AsyncGenerator<string> {
+    const response = await postRaw(`${root}/chat`, body, signal);
+    const type = response.headers.get("Content-Type") || "";
+
+    if (type.includes("application/json") || !response.body) {
+      reportHeaderUsage(response, onUsage);
+      const { text } = await response.json() as { text: string };
+      if (text) yield text;
+      return;
+    }
+
+    const ndjson = type.includes("application/x-ndjson");
+    let pending = "";
+    const readLine = (line: string): string => {
+      if (!line.trim()) return "";
+      const { text, usage } = JSON.parse(line) as { text?: string; usage?: ModelUsage };
+      if (usage) onUsage?.(usage);
+      return text || "";
+    };
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const text = decoder.decode(value, { stream: true });
+        if (!ndjson) {
+          if (text) yield text;
+          continue;
+        }
+        // A line can be split across reads; hold back the unfinished end.
+        const lines = (pending + text).split("\n");
+        pending = lines.pop()!;
+        for (const line of lines) {
+          const chunk = readLine(line);
+          if (chunk) yield chunk;
+        }
+      }
+      const rest = pending + decoder.decode();
+      const chunk = ndjson ? readLine(rest) : rest;
+      if (chunk) yield chunk;
+    } finally {
+      reader.releaseLock();
+    }
+  };
+
+  const transcribe = async ({ signal, onUsage, ...body }: TranscriptionRequest): Promise<string> => {
+    const response = await postRaw(`${root}/transcribe`, body, signal);
+    reportHeaderUsage(response, onUsage);
+    const { text } = await response.json() as { text: string };
+    return (text || "").trim();
+  };
+
+  const quota = async (): Promise<QuotaStatus> => {
+    const response = await send(`${root}/quota`, { method: "GET" });
+    return response.json() as Promise<QuotaStatus>;
+  };
+
+  return { name: 'http', analyzeHealth, chat, transcribe, quota };
+};
@@ -0,0 +1,142 @@
+import en, { Messages } from "../locales/en-US";
+import enGB from "../locales/en-GB";
+import esES from "../locales/es-ES";
+import frFR from "../locales/fr-FR";
+import deDE from "../locales/de-DE";
+import ptBR from "../locales/pt-BR";
+import zhCN from "../locales/zh-CN";
+import jaJP from "../locales/ja-JP";
+import koKR from "../locales/ko-KR";
+import hiIN from "../locales/hi-IN";
+import bnIN from "../locales/bn-IN";
+import arSA from "../locales/ar-SA";
+import ruRU from "../locales/ru-RU";
+import itIT from "../locales/it-IT";
+import idID from "../locales/id-ID";
+import trTR from "../locales/tr-TR";
+import viVN from "../locales/vi-VN";
+import thTH from "../locales/th-TH";
+import plPL from "../locales/pl-PL";
+import nlNL from "../locales/nl-NL";
+import svSE from "../locales/sv-SE";
+import elGR from "../locales/el-GR";
+import heIL from "../locales/he-IL";
+import filPH from "../locales/fil-PH";
+import { HealthAnalysis, HealthDomain, Recommendation } from "../types";
+import { getDomainLabel } from "./domainRegistry";
+import { ReferenceCohort, formatPercentile } from "./referenceNorms";
+
+export type MessageKey = keyof Messages;
+export type MessageParams = Record<string, string | number>;
+
+// Keyed by the codes in SUPPORTED_LANGUAGES. Keys a catalogue leaves out fall back to English.
+const CATALOGUES: Record<string, Partial<Messages>> = {
+  'en-US': en,
+  'en-GB': enGB,
+  'es-ES': esES,
+  'fr-FR': frFR,
+  'de-DE': deDE,
+  'pt-BR': ptBR,
+  'zh-CN': zhCN,
+  'ja-JP': jaJP,
+  'ko-KR': koKR,
+  'hi-IN': hiIN,
+  'bn-IN': bnIN,
+  'ar-SA': arSA,
+  'ru-RU': ruRU,
+  'it-IT': itIT,
+  'id-ID': idID,
+  'tr-TR': trTR,
+  'vi-VN': viVN,
+  'th-TH': thTH,
+  'pl-PL': plPL,
+  'nl-NL': nlNL,
+  'sv-SE': svSE,
+  'el-GR': elGR,
+  'he-IL': heIL,
+  'fil-PH': filPH,
+};
+
+const RTL_LANGUAGES = ['ar-SA', 'he-IL'];
+
+let uiLanguage = 'en-US';
+
+/**
+ * Sets the language that t() and the formatters use. Unknown codes fall back
+ * to English, so a stale stored code can't leave the UI without text.
+ */
+export const setUiLanguage = (code: string) => {
+  uiLanguage = CATALOGUES[code] ? code : 'en-US';
+};
+
+export const getUiLanguage = () => uiLanguage;
+
+/**
+ * Runs `fn` with t() and the formatters in another language, e.g. for a
+ * report on a screening made in a language other than the UI's. `fn` must be
+ * synchronous: the UI sets its own language on every render.
+ */
+export const inLanguage = <T>(code: string, fn: () => T): T => {
+  const previous = uiLanguage;
+  setUiLanguage(code);
+  try {
+    return fn();
+  } finally {
+    uiLanguage = previous;
+  }
+};
+
+export const isRtlLanguage = (code: string = uiLanguage) => RTL_LANGUAGES.includes(code);
+
+// --- Formatting ---
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(uiLanguage, options).format(value);
+
+export const formatDateTime = (timestamp: number): string =>
+  new Intl.DateTimeFormat(uiLanguage, { dateStyle: 'medium', timeStyle: 'short' }).format(timestamp);
+
+export const formatDate = (timestamp: number): string =>
+  new Intl.DateTimeFormat(uiLanguage, { dateStyle: 'medium' }).format(timestamp);
+
+// --- Messages ---
+
+/**
+ * The message for `key` in the UI language. `{name}` placeholders are filled
+ * from `params`, numbers in the locale's format; placeholders without a value
+ * are left in place for callers that substitute markup (see RichMessage).
+ */
+export const t = (key: MessageKey, params?: MessageParams): string => {
+  const template = CATALOGUES[uiLanguage][key] ?? en[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+};
+
+const hasMessage = (key: string): key is MessageKey => key in en;
+
+// Domains saved by another configuration may have no translation; the registry label stands in.
+export const domainName = (id: string): string => {
+  const key = `domain.${id}`;
+  return hasMessage(key) ? t(key) : getDomainLabel(id);
+};
+
+export const concernName = (level: HealthDomain['concern_level']) => t(`concern.${level}`);
+export const confidenceName = (level: HealthAnalysis['confidence_level']) => t(`confidence.${level}`);
+export const urgencyName = (urgency: Recommendation['urgency']) => t(`urgency.${urgency}`);
+
+// The model's disclaimer, or the catalogue's when it left it out.
+export const disclaimerText = (analysis: HealthAnalysis): string => analysis.disclaimer || t('results.disclaimer');
+
+export const describeCohortLocalised = ({ ageBand, sex }: ReferenceCohort = {}): string => {
+  if (!ageBand) return t(sex === 'female' ? 'cohort.allWomen' : sex === 'male' ? 'cohort.allMen' : 'cohort.allAdults');
+  const band = ageBand.replace('-', '–');
+  return t(sex === 'female' ? 'cohort.women' : sex === 'male' ? 'cohort.men' : 'cohort.adults', { band });
+};
+
+// English uses an ordinal ("45th percentile"); other catalogues place the plain number.
+export const formatPercentileLabel = (percentile: number): string =>
+  t('card.percentile', { ordinal: formatPercentile(percentile), value: percentile });
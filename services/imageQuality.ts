@@ -0,0 +1,283 @@
+import { QualityStatus } from "./audioQuality";
+import { MessageKey, t } from "./i18n";
+
+// Frames are measured on a copy this wide; enough detail for the blur
+// measure, small enough to run several times a second on the live preview.
+const WORK_WIDTH = 320;
+// Pixels this close to black or white have lost the skin tone the analysis reads.
+const SHADOW_LUMA = 10;
+const HIGHLIGHT_LUMA = 245;
+// Colour cast is judged on the background; skin is warm under any light.
+// With less background than this the whole frame is used.
+const MIN_BACKGROUND_SHARE = 0.2;
+// Skin-colour blobs smaller than this share of the frame, or not roughly
+// face-shaped, are not taken for a face.
+const MIN_FACE_AREA = 0.02;
+const FACE_ASPECT_RANGE: [number, number] = [0.8, 2.5];
+const MIN_FACE_FILL = 0.4;
+
+export const IMAGE_THRESHOLDS = {
+  brightnessFail: [50, 220] as [number, number], // mean luma 0-255 over the face
+  brightnessWarn: [80, 190] as [number, number],
+  exposureFailShare: 0.25,
+  exposureWarnShare: 0.1,
+  sharpnessFail: 15, // variance of the Laplacian
+  sharpnessWarn: 40,
+  colorCastFail: 0.45, // channel spread relative to the mean
+  colorCastWarn: 0.25,
+  faceSizeFail: 0.15, // face width as a share of frame width
+  faceSizeWarn: 0.25,
+  faceSizeTooClose: 0.7,
+  centringFail: 0.25, // distance of the face centre from the frame centre, as a share of the frame
+  centringWarn: 0.12
+};
+
+export type ImageCheckId = 'face' | 'brightness' | 'exposure' | 'face_size' | 'centring' | 'sharpness' | 'color_cast';
+
+export interface ImageQualityCheck {
+  id: ImageCheckId;
+  status: QualityStatus;
+  value: number | null;
+  limit: number | null;
+}
+
+// Position and size as shares (0-1) of the frame.
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageQualityReport {
+  isValid: boolean;
+  face: FaceBox | null;
+  // 'native' is the browser's Shape Detection API; 'skin' the colour heuristic.
+  faceDetector: 'native' | 'skin';
+  brightness: number;
+  exposureShare: number;
+  sharpness: number;
+  colorCast: number;
+  checks: ImageQualityCheck[];
+}
+
+interface FaceDetectorLike {
+  detect(source: CanvasImageSource): Promise<{ boundingBox: DOMRectReadOnly }[]>;
+}
+
+// The Shape Detection API is not in TypeScript's DOM library; only Chromium has it.
+declare global {
+  interface Window {
+    FaceDetector?: new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+  }
+}
+
+let workCanvas: HTMLCanvasElement | null = null;
+// Created on first use; set to null for good if the browser's detector throws.
+let nativeDetector: FaceDetectorLike | null | undefined;
+
+const getNativeDetector = (): FaceDetectorLike | null => {
+  if (nativeDetector === undefined) {
+    const FaceDetector = window.FaceDetector;
+    nativeDetector = FaceDetector ? new FaceDetector({ fastMode: true, maxDetectedFaces: 1 }) : null;
+  }
+  return nativeDetector;
+};
+
+const check = (id: ImageCheckId, value: number | null, limit: number | null, status: QualityStatus): ImageQualityCheck =>
+  ({ id, status, value: value === null ? null : Math.round(value * 1000) / 1000, limit });
+
+const within = (value: number, [failLow, failHigh]: [number, number], [warnLow, warnHigh]: [number, number]): QualityStatus =>
+  value < failLow || value > failHigh ? 'fail' : value < warnLow || value > warnHigh ? 'warn' : 'pass';
+
+// Higher values are worse.
+const atMost = (value: number, failAt: number, warnAt: number): QualityStatus =>
+  value > failAt ? 'fail' : value > warnAt ? 'warn' : 'pass';
+
+// Chai & Ngan's YCbCr skin range, which holds across skin tones because it ignores luma.
+const isSkin = (r: number, g: number, b: number): boolean => {
+  const y = 0.299 * r + 0.587 * g + 0.114 * b;
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return y > 40 && cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+/**
+ * Fallback face finder: the largest connected patch of skin colour, if it is
+ * big and face-shaped enough. It cannot tell a face from a hand, but it does
+ * catch an empty frame, a face half out of shot or one too far away.
+ */
+const findSkinFace = (skin: Uint8Array, width: number, height: number): FaceBox | null => {
+  const seen = new Uint8Array(skin.length);
+  const stack: number[] = [];
+  let best: { area: number; minX: number; minY: number; maxX: number; maxY: number } | null = null;
+
+  for (let start = 0; start < skin.length; start++) {
+    if (!skin[start] || seen[start]) continue;
+    let area = 0, minX = width, minY = height, maxX = 0, maxY = 0;
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const x = i % width, y = (i - x) / width;
+      area++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+      for (const n of [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width]) {
+        if (n >= 0 && n < skin.length && skin[n] && !seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    if (!best || area > best.area) best = { area, minX, minY, maxX, maxY };
+  }
+
+  if (!best || best.area < MIN_FACE_AREA * skin.length) return null;
+  const boxWidth = best.maxX - best.minX + 1;
+  const boxHeight = best.maxY - best.minY + 1;
+  const aspect = boxHeight / boxWidth;
+  if (aspect < FACE_ASPECT_RANGE[0] || aspect > FACE_ASPECT_RANGE[1] || best.area / (boxWidth * boxHeight) < MIN_FACE_FILL) return null;
+  return { x: best.minX / width, y: best.minY / height, width: boxWidth / width, height: boxHeight / height };
+};
+
+const detectFace = async (source: CanvasImageSource, sourceWidth: number, sourceHeight: number): Promise<FaceBox | null | undefined> => {
+  const detector = getNativeDetector();
+  if (!detector) return undefined;
+  try {
+    const faces = await detector.detect(source);
+    if (faces.length === 0) return null;
+    const { x, y, width, height } = faces.reduce((a, b) =>
+      a.boundingBox.width * a.boundingBox.height >= b.boundingBox.width * b.boundingBox.height ? a : b).boundingBox;
+    return { x: x / sourceWidth, y: y / sourceHeight, width: width / sourceWidth, height: height / sourceHeight };
+  } catch (e) {
+    console.warn("Face detector unavailable, using skin-colour heuristic", e);
+    nativeDetector = null;
+    return undefined;
+  }
+};
+
+/**
+ * Measures a camera frame: lighting and clipped highlights or shadows over the
+ * face, blur as the variance of the Laplacian, colour cast from the background
+ * (grey-world), and whether a face is present, large enough and centred. Each
+ * measurement becomes a check; the frame is usable when none fails.
+ */
+export const assessImageQuality = async (source: CanvasImageSource, sourceWidth: number, sourceHeight: number): Promise<ImageQualityReport> => {
+  const width = Math.min(WORK_WIDTH, sourceWidth);
+  const height = Math.max(1, Math.round((sourceHeight * width) / sourceWidth));
+  workCanvas = workCanvas || document.createElement('canvas');
+  workCanvas.width = width;
+  workCanvas.height = height;
+  const context = workCanvas.getContext('2d', { willReadFrequently: true })!;
+  context.drawImage(source, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  const pixels = width * height;
+  const luma = new Float32Array(pixels);
+  const skin = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    luma[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    skin[i] = isSkin(r, g, b) ? 1 : 0;
+  }
+
+  const native = await detectFace(source, sourceWidth, sourceHeight);
+  const face = native === undefined ? findSkinFace(skin, width, height) : native;
+
+  // Lighting and sharpness matter on the face; without one the whole frame stands in.
+  const region = face
+    ? {
+        x0: Math.max(0, Math.floor(face.x * width)),
+        y0: Math.max(0, Math.floor(face.y * height)),
+        x1: Math.min(width, Math.ceil((face.x + face.width) * width)),
+        y1: Math.min(height, Math.ceil((face.y + face.height) * height))
+      }
+    : { x0: 0, y0: 0, x1: width, y1: height };
+
+  let lumaSum = 0, clipped = 0, count = 0;
+  let lapSum = 0, lapSumSq = 0, lapCount = 0;
+  for (let y = region.y0; y < region.y1; y++) {
+    for (let x = region.x0; x < region.x1; x++) {
+      const i = y * width + x;
+      lumaSum += luma[i];
+      if (luma[i] <= SHADOW_LUMA || luma[i] >= HIGHLIGHT_LUMA) clipped++;
+      count++;
+      if (x > 0 && y > 0 && x < width - 1 && y < height - 1) {
+        const lap = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+        lapSum += lap;
+        lapSumSq += lap * lap;
+        lapCount++;
+      }
+    }
+  }
+  const brightness = count > 0 ? lumaSum / count : 0;
+  const exposureShare = count > 0 ? clipped / count : 1;
+  const sharpness = lapCount > 0 ? lapSumSq / lapCount - (lapSum / lapCount) ** 2 : 0;
+
+  const background = skin.reduce((n, s) => n + (s ? 0 : 1), 0);
+  const useBackground = background >= MIN_BACKGROUND_SHARE * pixels;
+  const channelSums = [0, 0, 0];
+  for (let i = 0; i < pixels; i++) {
+    if (useBackground && skin[i]) continue;
+    channelSums[0] += data[i * 4];
+    channelSums[1] += data[i * 4 + 1];
+    channelSums[2] += data[i * 4 + 2];
+  }
+  const channelMean = (channelSums[0] + channelSums[1] + channelSums[2]) / 3;
+  const colorCast = channelMean > 0 ? (Math.max(...channelSums) - Math.min(...channelSums)) / channelMean : 0;
+
+  const checks: ImageQualityCheck[] = [check('face', face ? 1 : 0, 1, face ? 'pass' : 'fail')];
+  checks.push(
+    check('brightness', brightness, null, within(brightness, IMAGE_THRESHOLDS.brightnessFail, IMAGE_THRESHOLDS.brightnessWarn)),
+    check('exposure', exposureShare, IMAGE_THRESHOLDS.exposureFailShare, atMost(exposureShare, IMAGE_THRESHOLDS.exposureFailShare, IMAGE_THRESHOLDS.exposureWarnShare))
+  );
+  if (face) {
+    const size = face.width;
+    const sizeStatus: QualityStatus = size < IMAGE_THRESHOLDS.faceSizeFail ? 'fail'
+      : size < IMAGE_THRESHOLDS.faceSizeWarn || size > IMAGE_THRESHOLDS.faceSizeTooClose ? 'warn' : 'pass';
+    checks.push(check('face_size', size, size > IMAGE_THRESHOLDS.faceSizeTooClose ? IMAGE_THRESHOLDS.faceSizeTooClose : IMAGE_THRESHOLDS.faceSizeFail, sizeStatus));
+    const offset = Math.hypot(face.x + face.width / 2 - 0.5, face.y + face.height / 2 - 0.5);
+    checks.push(check('centring', offset, IMAGE_THRESHOLDS.centringFail, atMost(offset, IMAGE_THRESHOLDS.centringFail, IMAGE_THRESHOLDS.centringWarn)));
+  }
+  checks.push(
+    check('sharpness', sharpness, IMAGE_THRESHOLDS.sharpnessFail, sharpness < IMAGE_THRESHOLDS.sharpnessFail ? 'fail' : sharpness < IMAGE_THRESHOLDS.sharpnessWarn ? 'warn' : 'pass'),
+    check('color_cast', colorCast, IMAGE_THRESHOLDS.colorCastFail, atMost(colorCast, IMAGE_THRESHOLDS.colorCastFail, IMAGE_THRESHOLDS.colorCastWarn))
+  );
+
+  return {
+    isValid: checks.every(c => c.status !== 'fail'),
+    face,
+    faceDetector: native === undefined ? 'skin' : 'native',
+    brightness: Math.round(brightness),
+    exposureShare: Math.round(exposureShare * 1000) / 1000,
+    sharpness: Math.round(sharpness),
+    colorCast: Math.round(colorCast * 1000) / 1000,
+    checks
+  };
+};
+
+// --- Presentation ---
+
+const guidanceKey = ({ id, value, limit }: ImageQualityCheck): MessageKey => {
+  switch (id) {
+    case 'face': return 'face.noFace';
+    case 'brightness': return (value ?? 0) < 128 ? 'face.moreLight' : 'face.lessLight';
+    case 'exposure': return 'face.evenLight';
+    case 'face_size': return (value ?? 0) > (limit ?? 1) ? 'face.moveBack' : 'face.moveCloser';
+    case 'centring': return 'face.centre';
+    case 'sharpness': return 'face.holdStill';
+    case 'color_cast': return 'face.neutralLight';
+  }
+};
+
+/**
+ * The one thing to fix next, for the live prompt over the camera preview:
+ * failures before warnings, in check order. Null when the frame is good.
+ */
+export const faceGuidance = (report: ImageQualityReport): string | null => {
+  const problem = report.checks.find(c => c.status === 'fail') ?? report.checks.find(c => c.status === 'warn');
+  return problem ? t(guidanceKey(problem)) : null;
+};
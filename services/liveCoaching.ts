@@ -0,0 +1,108 @@
+import { CLIP_LEVEL, MIN_CLIP_RUN, QUALITY_THRESHOLDS, isSpeechFrame, spectrumFeatures } from "./audioQuality";
+
+// What the recording screen tells the speaker right now, in priority order:
+// a problem that spoils the recording outranks one that only weakens it.
+export type RecordingCondition = 'idle' | 'listening' | 'good' | 'too_loud' | 'noisy' | 'too_far' | 'silence';
+
+export interface CoachingState {
+  condition: RecordingCondition;
+  level: number; // 0-1, for the waveform bars
+  // Speech so far that was neither clipped nor buried in noise.
+  usableSpeechSeconds: number;
+}
+
+export interface LiveCoach {
+  // Call once per animation frame with the analyser's current buffers.
+  update(timeDomain: Float32Array, spectrumDb: Float32Array, now: number): CoachingState;
+}
+
+// A clip is remembered this long so a single loud syllable still gets a prompt.
+const CLIP_HOLD_MS = 1000;
+// No speech for this long counts as a long silence.
+const SILENCE_AFTER_MS = 3000;
+// Conditions must persist this long before the prompt changes, so it does not flicker between words.
+const MIN_CONDITION_MS = 400;
+// The noise floor drops to any quieter frame at once and rises at most this fast.
+const FLOOR_RISE_DB_PER_S = 3;
+// Smoothing for the speech level shown against the thresholds.
+const SPEECH_LEVEL_TIME_CONSTANT_MS = 500;
+// Background noise louder than this is a problem even before anyone speaks.
+const NOISY_FLOOR_DB = -45;
+const LEVEL_RANGE_DB: [number, number] = [-60, -10];
+
+const toDb = (power: number) => power > 0 ? 10 * Math.log10(power) : -120;
+
+/**
+ * Tracks one recording. The same speech test as the post-recording quality
+ * check (services/audioQuality.ts) decides what counts as speech, and its
+ * warning thresholds trigger the prompts, so following the prompts gives a
+ * recording that passes.
+ */
+export const createLiveCoach = (sampleRate: number): LiveCoach => {
+  let floorDb: number | null = null;
+  let speechLevelDb: number | null = null;
+  let lastFrameAt: number | null = null;
+  let startedAt: number | null = null;
+  let lastSpeechAt: number | null = null;
+  let lastClipAt = -Infinity;
+  let usableSpeechSeconds = 0;
+  let shown: RecordingCondition = 'listening';
+  let candidate: RecordingCondition = 'listening';
+  let candidateSince = 0;
+
+  return {
+    update(timeDomain, spectrumDb, now) {
+      const elapsedMs = lastFrameAt === null ? 0 : Math.min(100, now - lastFrameAt);
+      lastFrameAt = now;
+      if (startedAt === null) startedAt = now;
+
+      let energy = 0, clipRun = 0, clipped = false;
+      for (let i = 0; i < timeDomain.length; i++) {
+        const sample = timeDomain[i];
+        energy += sample * sample;
+        clipRun = Math.abs(sample) >= CLIP_LEVEL ? clipRun + 1 : 0;
+        if (clipRun >= MIN_CLIP_RUN) clipped = true;
+      }
+      const energyDb = toDb(energy / timeDomain.length);
+      if (clipped) lastClipAt = now;
+
+      floorDb = floorDb === null || energyDb < floorDb
+        ? energyDb
+        : floorDb + (FLOOR_RISE_DB_PER_S * elapsedMs) / 1000;
+
+      const power = Float32Array.from(spectrumDb, db => Math.pow(10, db / 10));
+      const frame = { energyDb, ...spectrumFeatures(power, sampleRate / (2 * spectrumDb.length)) };
+      const speaking = isSpeechFrame(frame, floorDb);
+
+      if (speaking) {
+        lastSpeechAt = now;
+        const alpha = 1 - Math.exp(-elapsedMs / SPEECH_LEVEL_TIME_CONSTANT_MS);
+        speechLevelDb = speechLevelDb === null ? energyDb : speechLevelDb + alpha * (energyDb - speechLevelDb);
+        if (!clipped && floorDb <= NOISY_FLOOR_DB) usableSpeechSeconds += elapsedMs / 1000;
+      }
+
+      const snrDb = speechLevelDb === null ? null : speechLevelDb - floorDb;
+      let condition: RecordingCondition;
+      if (now - lastClipAt < CLIP_HOLD_MS) condition = 'too_loud';
+      else if (floorDb > NOISY_FLOOR_DB || (speaking && snrDb !== null && snrDb < QUALITY_THRESHOLDS.snrWarnDb)) condition = 'noisy';
+      else if (now - (lastSpeechAt ?? startedAt) > SILENCE_AFTER_MS) condition = 'silence';
+      else if (speechLevelDb !== null && speechLevelDb < QUALITY_THRESHOLDS.levelWarnDb) condition = 'too_far';
+      else if (lastSpeechAt !== null) condition = 'good';
+      else condition = 'listening';
+
+      if (condition !== candidate) {
+        candidate = condition;
+        candidateSince = now;
+      }
+      // Clipping is shown at once; everything else has to settle first.
+      if (candidate === 'too_loud' || now - candidateSince >= MIN_CONDITION_MS) shown = candidate;
+
+      const [minDb, maxDb] = LEVEL_RANGE_DB;
+      return {
+        condition: shown,
+        level: Math.min(1, Math.max(0, (energyDb - minDb) / (maxDb - minDb))),
+        usableSpeechSeconds
+      };
+    }
+  };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { escapeHtml, formatInlineMarkdown } from "./markdown";
+import { SCREENING_EXPORT_FORMAT, SCREENING_EXPORT_VERSION, parseScreeningExport } from "./screeningExport";
+import { SAMPLE_ANALYSIS_RESULT } from "./fixtureProvider";
+
+const exportWithChat = (text: string) => JSON.stringify({
+  format: SCREENING_EXPORT_FORMAT,
+  version: SCREENING_EXPORT_VERSION,
+  exportedAt: new Date(0).toISOString(),
+  screening: { id: 'imported', createdAt: 0, language: 'en-US', analysis: SAMPLE_ANALYSIS_RESULT },
+  chat: [{ role: 'model', text }]
+});
+
+describe("formatInlineMarkdown", () => {
+  it("shows markup in an imported chat message as text", () => {
+    const { chat } = parseScreeningExport(exportWithChat('<img src=x onerror="alert(1)"> **Take care** & <script>alert(2)</script>'));
+    const html = formatInlineMarkdown(chat[0].text);
+
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<script');
+    expect(html).toContain('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+    expect(html).toContain('&amp; &lt;script&gt;');
+    expect(html).toContain('<strong class="text-white font-semibold">Take care</strong>');
+  });
+
+  it("keeps markup out of code and emphasis", () => {
+    expect(formatInlineMarkdown("`<b>` and *it's*")).toBe(
+      '<code class="bg-[#2E2F30] px-1 rounded text-sm font-mono text-[#E8DEF8]">&lt;b&gt;</code> and <em class="text-gray-300">it&#39;s</em>'
+    );
+  });
+});
+
+describe("escapeHtml", () => {
+  it("escapes every character that is special in HTML text and attributes", () => {
+    expect(escapeHtml(`&<>"'`)).toBe('&amp;&lt;&gt;&quot;&#39;');
+  });
+});
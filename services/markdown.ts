@@ -0,0 +1,13 @@
+// Inline Markdown in chat replies (**bold**, *italic*, `code`) as HTML.
+// Replies and imported chats are untrusted, so the text is escaped first and
+// any markup in it shows as text.
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export const escapeHtml = (text: string): string => text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+export const formatInlineMarkdown = (text: string): string =>
+  escapeHtml(text)
+    .replace(/\*\*(.*?)\*\*/g, '<strong class="text-white font-semibold">$1</strong>')
+    .replace(/\*(.*?)\*/g, '<em class="text-gray-300">$1</em>')
+    .replace(/`([^`]+)`/g, '<code class="bg-[#2E2F30] px-1 rounded text-sm font-mono text-[#E8DEF8]">$1</code>');
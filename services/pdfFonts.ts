@@ -0,0 +1,298 @@
+import { jsPDF } from "jspdf";
+
+/**
+ * Unicode fonts for the PDF report. jsPDF's built-in Helvetica only covers
+ * WinAnsi (Western European), so any text outside it is drawn with a Noto
+ * font for its script. jsPDF embeds only the glyphs a report uses.
+ *
+ * The TTF files are fetched from PDF_FONT_BASE_URL (default `/fonts/`, which
+ * scripts/copy-pdf-fonts.mjs fills from npm before `dev` and `build`). A font
+ * that cannot be loaded falls back to Helvetica with a console warning.
+ *
+ * jsPDF places glyphs one after another and cannot apply the OpenType
+ * shaping Devanagari and Bengali need (conjuncts, reordered vowel signs).
+ * Text in those scripts is laid out by the browser on a canvas and embedded
+ * as an image instead, so it reads correctly but cannot be selected.
+ */
+
+export interface ReportFont {
+  family: string;
+  file: string;
+  rtl: boolean;
+  // Written without spaces between words, so lines may break between any two words or characters.
+  unspaced: boolean;
+  // Also has Latin glyphs, so English labels can share a line with the text.
+  coversLatin: boolean;
+  // Needs shaping jsPDF cannot do; drawn through a canvas (drawShapedText).
+  shaped: boolean;
+}
+
+const font = (family: string, file: string, flags: Partial<Pick<ReportFont, 'rtl' | 'unspaced' | 'coversLatin' | 'shaped'>> = {}): ReportFont =>
+  ({ family, file, rtl: false, unspaced: false, coversLatin: false, shaped: false, ...flags });
+
+const FONTS = {
+  // Latin extended (Polish, Turkish, Vietnamese...), Greek and Cyrillic
+  general: font("NotoSans", "NotoSans-Regular.ttf", { coversLatin: true }),
+  arabic: font("NotoSansArabic", "NotoSansArabic-Regular.ttf", { rtl: true }),
+  hebrew: font("NotoSansHebrew", "NotoSansHebrew-Regular.ttf", { rtl: true }),
+  devanagari: font("NotoSansDevanagari", "NotoSansDevanagari-Regular.ttf", { shaped: true }),
+  bengali: font("NotoSansBengali", "NotoSansBengali-Regular.ttf", { shaped: true }),
+  thai: font("NotoSansThai", "NotoSansThai-Regular.ttf", { unspaced: true }),
+  simplifiedChinese: font("NotoSansSC", "NotoSansSC-Regular.ttf", { unspaced: true, coversLatin: true }),
+  japanese: font("NotoSansJP", "NotoSansJP-Regular.ttf", { unspaced: true, coversLatin: true }),
+  korean: font("NotoSansKR", "NotoSansKR-Regular.ttf", { coversLatin: true }),
+};
+
+type FontKey = keyof typeof FONTS;
+
+// Han characters are shared by Chinese and Japanese; the report language picks the font.
+const HAN_FONT_BY_LANGUAGE: Record<string, FontKey> = { ja: 'japanese', ko: 'korean', zh: 'simplifiedChinese' };
+
+const SCRIPT_RANGES: [RegExp, FontKey][] = [
+  [/[\u0600-\u06ff\u0750-\u077f\u08a0-\u08ff\ufb50-\ufdff\ufe70-\ufeff]/, 'arabic'],
+  [/[\u0590-\u05ff\ufb1d-\ufb4f]/, 'hebrew'],
+  [/[\u0900-\u097f]/, 'devanagari'],
+  [/[\u0980-\u09ff]/, 'bengali'],
+  [/[\u0e00-\u0e7f]/, 'thai'],
+  [/[\u3040-\u30ff]/, 'japanese'],
+  [/[\u1100-\u11ff\u3130-\u318f\uac00-\ud7af]/, 'korean'],
+];
+// CJK punctuation, ideographs and full-width forms
+const HAN = /[\u3000-\u303f\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/;
+
+// Characters Helvetica can draw: ASCII, Latin-1 and the extra WinAnsi punctuation.
+const WIN_ANSI = /^[\u0000-\u00ff\u0152\u0153\u0160\u0161\u0178\u017d\u017e\u0192\u02c6\u02dc\u2013\u2014\u2018-\u201a\u201c-\u201e\u2020-\u2022\u2026\u2030\u2039\u203a\u20ac\u2122]*$/;
+
+const fontKeyForText = (text: string, language: string): FontKey | null => {
+  if (WIN_ANSI.test(text)) return null;
+
+  // The script with the most characters in the text wins.
+  let best: FontKey = 'general';
+  let bestCount = 0;
+  const counts = new Map<FontKey, number>();
+  for (const char of text) {
+    let key = SCRIPT_RANGES.find(([range]) => range.test(char))?.[1];
+    if (!key && HAN.test(char)) key = HAN_FONT_BY_LANGUAGE[language.split('-')[0]] || 'simplifiedChinese';
+    if (!key) continue;
+    const count = (counts.get(key) || 0) + 1;
+    counts.set(key, count);
+    if (count > bestCount) {
+      best = key;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// --- Loading ---
+
+const FONT_BASE_URL = (process.env.PDF_FONT_BASE_URL || '/fonts/').replace(/\/?$/, '/');
+
+// File contents, shared across reports; null when the file could not be fetched.
+const fontCache = new Map<string, Promise<ArrayBuffer | null>>();
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked, as spreading a multi-megabyte CJK font into one call overflows the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fetchFont = (file: string): Promise<ArrayBuffer | null> => {
+  let pending = fontCache.get(file);
+  if (!pending) {
+    pending = fetch(`${FONT_BASE_URL}${file}`)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .catch(e => {
+        console.warn(`PDF font ${file} could not be loaded, falling back to Helvetica:`, e);
+        fontCache.delete(file); // try again on the next export
+        return null;
+      });
+    fontCache.set(file, pending);
+  }
+  return pending;
+};
+
+export interface ReportFonts {
+  language: string;
+  // The font to draw `text` with, or null for Helvetica.
+  fontFor: (text: string) => ReportFont | null;
+}
+
+/**
+ * Fetches and registers with `doc` the fonts needed for `texts`, the strings
+ * the report will contain. `language` is the report's BCP 47 code.
+ */
+export const loadReportFonts = async (doc: jsPDF, texts: string[], language: string): Promise<ReportFonts> => {
+  const needed = new Set<FontKey>();
+  texts.forEach(text => {
+    const key = fontKeyForText(text, language);
+    if (key) needed.add(key);
+  });
+
+  const loaded = new Set<FontKey>();
+  await Promise.all(Array.from(needed).map(async key => {
+    const { family, file, shaped } = FONTS[key];
+    const content = await fetchFont(file);
+    if (!content) return;
+    try {
+      if (shaped) {
+        // Registered with the page so a canvas can lay the text out.
+        const face = new FontFace(family, content);
+        document.fonts.add(await face.load());
+      } else {
+        doc.addFileToVFS(file, arrayBufferToBase64(content));
+        doc.addFont(file, family, "normal");
+      }
+      loaded.add(key);
+    } catch (e) {
+      console.warn(`PDF font ${file} could not be registered:`, e);
+    }
+  }));
+
+  return {
+    language,
+    fontFor: (text: string) => {
+      const key = fontKeyForText(text, language);
+      return key && loaded.has(key) ? FONTS[key] : null;
+    }
+  };
+};
+
+/**
+ * Collects every string in a value, for working out which fonts a report needs.
+ */
+export const collectStrings = (value: unknown, out: string[] = []): string[] => {
+  if (typeof value === 'string') out.push(value);
+  else if (Array.isArray(value)) value.forEach(v => collectStrings(v, out));
+  else if (value && typeof value === 'object') Object.values(value).forEach(v => collectStrings(v, out));
+  return out;
+};
+
+// --- Line breaking ---
+
+// Closing punctuation and small kana that must not start a line (kinsoku); they hang on the previous one.
+const NO_LINE_START = /^[\u3001\u3002\uff0c\uff0e\uff01\uff1f\uff09\uff1a\uff1b\u300d\u300f\u3011\u3015\u3009\u300b\u30fb\u30fc\u2026\u3041\u3043\u3045\u3047\u3049\u3063\u3083\u3085\u3087\u308e\u30a1\u30a3\u30a5\u30a7\u30a9\u30c3\u30e3\u30e5\u30e7\u30ee.,!?:;)\]]/;
+
+const segmentText = (text: string, language: string): string[] => {
+  if (typeof Intl.Segmenter === 'function') {
+    return Array.from(new Intl.Segmenter(language, { granularity: 'word' }).segment(text), s => s.segment);
+  }
+  // Without Intl.Segmenter (older Firefox), break between any two characters.
+  return Array.from(text);
+};
+
+/**
+ * Wraps text in a script written without spaces (Chinese, Japanese, Thai).
+ * jsPDF's splitTextToSize only breaks at spaces, so a whole paragraph would
+ * end up on one line. Measures with the font currently set on `doc`.
+ */
+export const wrapUnspacedText = (doc: jsPDF, text: string, maxWidth: number, language: string): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    segmentText(paragraph, language).forEach(segment => {
+      if (line && doc.getTextWidth(line + segment) > maxWidth && !NO_LINE_START.test(segment)) {
+        lines.push(line.trimEnd());
+        line = segment.trimStart();
+      } else {
+        line += segment;
+      }
+      // A single segment wider than the line, e.g. a long unsegmented run.
+      while (doc.getTextWidth(line) > maxWidth && Array.from(line).length > 1) {
+        const chars = Array.from(line);
+        let fit = chars.length - 1;
+        while (fit > 1 && doc.getTextWidth(chars.slice(0, fit).join('')) > maxWidth) fit--;
+        lines.push(chars.slice(0, fit).join(''));
+        line = chars.slice(fit).join('');
+      }
+    });
+    lines.push(line.trimEnd());
+  });
+  return lines;
+};
+
+// --- Shaped text ---
+
+// Canvas pixels per millimetre: about 300 dpi, sharp in print.
+const SHAPED_PX_PER_MM = 12;
+const PT_TO_MM = 25.4 / 72;
+
+const shapedContext = (doc: jsPDF, font: ReportFont): CanvasRenderingContext2D => {
+  const context = document.createElement('canvas').getContext('2d');
+  if (!context) throw new Error("Canvas 2D is not available");
+  context.font = `${doc.getFontSize() * PT_TO_MM * SHAPED_PX_PER_MM}px "${font.family}"`;
+  return context;
+};
+
+/**
+ * Wraps text in a shaped script at spaces, measured by the browser with the
+ * font size currently set on `doc`.
+ */
+export const wrapShapedText = (doc: jsPDF, text: string, maxWidth: number, font: ReportFont): string[] => {
+  const context = shapedContext(doc, font);
+  const widthOf = (line: string) => context.measureText(line).width / SHAPED_PX_PER_MM;
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(' ').forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && widthOf(candidate) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+export const measureShapedText = (doc: jsPDF, text: string, font: ReportFont): number =>
+  shapedContext(doc, font).measureText(text).width / SHAPED_PX_PER_MM;
+
+/**
+ * Draws lines of shaped text as images, with `y` the first baseline as for
+ * doc.text. Lines are spaced and coloured as doc.text would set them.
+ */
+export const drawShapedText = (
+  doc: jsPDF,
+  lines: string[],
+  x: number,
+  y: number,
+  font: ReportFont,
+  align: 'left' | 'right' | 'center' = 'left'
+) => {
+  const sizeMm = doc.getFontSize() * PT_TO_MM;
+  const lineHeight = sizeMm * doc.getLineHeightFactor();
+  // Room above the baseline for tall vowel signs, and below it for descenders.
+  const ascent = sizeMm * 1.1;
+  const height = sizeMm * 1.6;
+
+  lines.forEach((line, i) => {
+    if (!line) return;
+    const context = shapedContext(doc, font);
+    const fontSpec = context.font;
+    const width = context.measureText(line).width / SHAPED_PX_PER_MM;
+    const canvas = context.canvas;
+    canvas.width = Math.ceil(width * SHAPED_PX_PER_MM) + 2;
+    canvas.height = Math.ceil(height * SHAPED_PX_PER_MM);
+    // Resizing the canvas resets its state.
+    context.font = fontSpec;
+    context.fillStyle = doc.getTextColor();
+    context.fillText(line, 1, ascent * SHAPED_PX_PER_MM);
+
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    doc.addImage(canvas, 'PNG', left, y + i * lineHeight - ascent, canvas.width / SHAPED_PX_PER_MM, height);
+  });
+};
+
+// Options for doc.text that turn logical-order right-to-left text into the visual order the PDF needs.
+export const RTL_TEXT_OPTIONS = { isInputVisual: false, isOutputVisual: true, isInputRtl: true, isOutputRtl: false };
@@ -1,8 +1,250 @@
 import { jsPDF } from "jspdf";
-import { HealthAnalysis } from "../types";
+import { HealthAnalysis, HealthDomain, ScreeningRecord } from "../types";
+import { DomainDefinition, getEnabledDomains, getScoredDomains } from "./domainRegistry";
+import { ReferenceCohort, getDomainPercentile } from "./referenceNorms";
+import { REFERENCE_NORMS } from "./referenceNormsData";
+import { RTL_TEXT_OPTIONS, ReportFonts, collectStrings, drawShapedText, loadReportFonts, measureShapedText, wrapShapedText, wrapUnspacedText } from "./pdfFonts";
+import { concernName, describeCohortLocalised, disclaimerText, domainName, formatDate, formatDateTime, formatPercentileLabel, inLanguage, t, urgencyName } from "./i18n";
 
-export const generatePDF = (data: HealthAnalysis) => {
-  const doc = new jsPDF();
+type Rgb = [number, number, number];
+
+const CONCERN_COLORS: Record<HealthDomain["concern_level"], Rgb> = {
+  low: [34, 197, 94], // Green
+  moderate: [234, 179, 8], // Yellow/Gold
+  elevated: [249, 115, 22], // Orange
+  high: [239, 68, 68] // Red
+};
+
+// Largest size of the face thumbnail, in mm.
+const FACE_BOX = { width: 30, height: 40 };
+
+// Most recent screenings shown in each trend chart.
+const TREND_POINTS = 10;
+
+export interface ReportOptions {
+  cohort?: ReferenceCohort;
+  // Saved screenings up to and including this one; trend charts need at least two.
+  history?: ScreeningRecord[];
+  // Captured face image, shown as a thumbnail.
+  faceImage?: { base64: string; mimeType: string };
+  // BCP 47 code of the report's language; picks the labels, fonts and line breaking.
+  language?: string;
+}
+
+// --- Text ---
+
+type FontStyle = "normal" | "bold" | "italic";
+
+// Sets the font for `text`: Helvetica in the given style, or the script's
+// Unicode font, which has a single regular weight. Shaped fonts are drawn
+// outside jsPDF, so Helvetica stays set for them.
+const setTextFont = (doc: jsPDF, fonts: ReportFonts, text: string, style: FontStyle) => {
+  const font = fonts.fontFor(text);
+  if (font && !font.shaped) doc.setFont(font.family, "normal");
+  else doc.setFont("helvetica", style);
+  return font;
+};
+
+// Draws a single line of text, such as a label, in the font for its script.
+const drawText = (doc: jsPDF, fonts: ReportFonts, text: string, x: number, y: number, style: FontStyle, align: 'left' | 'right' | 'center' = 'left') => {
+  const font = setTextFont(doc, fonts, text, style);
+  if (font?.shaped) drawShapedText(doc, [text], x, y, font, align);
+  else if (font?.rtl) doc.text(text, x, y, { ...RTL_TEXT_OPTIONS, align });
+  else doc.text(text, x, y, { align });
+};
+
+const textWidth = (doc: jsPDF, fonts: ReportFonts, text: string, style: FontStyle): number => {
+  const font = setTextFont(doc, fonts, text, style);
+  return font?.shaped ? measureShapedText(doc, text, font) : doc.getTextWidth(text);
+};
+
+/**
+ * Wraps and draws a paragraph of model-written text, returning the number of
+ * lines used. A `label` ("Reason: ") runs inline when one font can draw it
+ * with the text; otherwise, e.g. a Hindi label before an English answer, it
+ * is set in its own font as a hanging indent.
+ */
+const drawParagraph = (doc: jsPDF, fonts: ReportFonts, text: string, x: number, y: number, width: number, style: FontStyle, label = ""): number => {
+  const labelFont = fonts.fontFor(label);
+  let font = fonts.fontFor(text);
+  const inline = labelFont === font
+    || (!labelFont && (font?.coversLatin || font?.shaped))
+    || (!font && labelFont?.coversLatin);
+  if (label && !inline) {
+    const labelWidth = textWidth(doc, fonts, label, style);
+    if (font?.rtl) {
+      drawText(doc, fonts, label.trim(), x + width, y, style, 'right');
+    } else {
+      drawText(doc, fonts, label, x, y, style);
+      x += labelWidth;
+    }
+    width -= labelWidth;
+    font = setTextFont(doc, fonts, text, style);
+  } else {
+    text = label + text;
+    font = setTextFont(doc, fonts, text, style);
+  }
+
+  const lines: string[] = font?.shaped
+    ? wrapShapedText(doc, text, width, font)
+    : font?.unspaced
+      ? wrapUnspacedText(doc, text, width, fonts.language)
+      : doc.splitTextToSize(text, width);
+  if (font?.shaped) drawShapedText(doc, lines, x, y, font);
+  else if (font?.rtl) doc.text(lines, x + width, y, { ...RTL_TEXT_OPTIONS, align: 'right' });
+  else doc.text(lines, x, y);
+  return lines.length;
+};
+
+// --- Charts ---
+
+const drawScoreChart = (doc: jsPDF, fonts: ReportFonts, domains: [DomainDefinition, HealthDomain][], x: number, y: number, width: number): number => {
+  const labelWidth = 38;
+  const barX = x + labelWidth;
+  const barWidth = width - labelWidth - 10;
+  const rowHeight = 8;
+  const height = domains.length * rowHeight;
+
+  // Gridlines at every 25 points
+  doc.setLineWidth(0.1);
+  doc.setDrawColor(220);
+  doc.setFontSize(7);
+  doc.setTextColor(150);
+  doc.setFont("helvetica", "normal");
+  [0, 25, 50, 75, 100].forEach(tick => {
+    const tickX = barX + (tick / 100) * barWidth;
+    doc.line(tickX, y - 2, tickX, y + height);
+    doc.text(tick.toString(), tickX, y + height + 4, { align: 'center' });
+  });
+
+  domains.forEach(([domain, value], i) => {
+    const rowY = y + i * rowHeight;
+    doc.setFontSize(9);
+    doc.setTextColor(60);
+    drawText(doc, fonts, domainName(domain.id), x, rowY + 3.5, "normal");
+
+    doc.setFillColor(235, 237, 240);
+    doc.rect(barX, rowY, barWidth, 4.5, 'F');
+    doc.setFillColor(...CONCERN_COLORS[value.concern_level]);
+    doc.rect(barX, rowY, (value.score / 100) * barWidth, 4.5, 'F');
+
+    doc.setFontSize(8);
+    doc.setTextColor(0);
+    doc.setFont("helvetica", "normal");
+    doc.text(value.score.toString(), barX + barWidth + 2, rowY + 3.5);
+  });
+
+  return height + 6;
+};
+
+const drawConcernLegend = (doc: jsPDF, fonts: ReportFonts, x: number, y: number) => {
+  // Ranges are only meaningful when every domain uses the same bands.
+  const [first, ...rest] = getEnabledDomains();
+  const uniform = rest.every(d => JSON.stringify(d.thresholds) === JSON.stringify(first.thresholds));
+  const { low, moderate, elevated } = first.thresholds;
+  const ranges: Record<HealthDomain["concern_level"], string> = {
+    low: `${low}-100`, moderate: `${moderate}-${low - 1}`, elevated: `${elevated}-${moderate - 1}`, high: `0-${elevated - 1}`
+  };
+
+  doc.setFontSize(8);
+  doc.setTextColor(80);
+  drawText(doc, fonts, t('report.concernLevel'), x, y, "bold");
+
+  (Object.keys(CONCERN_COLORS) as HealthDomain["concern_level"][]).forEach((level, i) => {
+    const rowY = y + 4 + i * 5;
+    doc.setFillColor(...CONCERN_COLORS[level]);
+    doc.rect(x, rowY - 2.5, 3, 3, 'F');
+    doc.setTextColor(80);
+    drawText(doc, fonts, `${concernName(level)}${uniform ? ` (${ranges[level]})` : ""}`, x + 5, rowY, "normal");
+  });
+};
+
+/**
+ * Small-multiple line charts, one per domain, of the most recent screenings.
+ * Returns the height used.
+ */
+const drawTrendCharts = (doc: jsPDF, fonts: ReportFonts, history: ScreeningRecord[], x: number, y: number, width: number): number => {
+  const recent = [...history].sort((a, b) => a.createdAt - b.createdAt).slice(-TREND_POINTS);
+  const latest = recent[recent.length - 1];
+  const latestScores = getScoredDomains(latest.analysis.domain_scores);
+
+  const columns = 3;
+  const gap = 6;
+  const chartWidth = (width - gap * (columns - 1)) / columns;
+  const chartHeight = 22;
+  const cellHeight = chartHeight + 12;
+
+  latestScores.forEach(([domain, current], i) => {
+    const cellX = x + (i % columns) * (chartWidth + gap);
+    const cellY = y + Math.floor(i / columns) * cellHeight;
+    const points = recent
+      .map((record, index) => ({ index, score: getScoredDomains(record.analysis.domain_scores).find(([d]) => d.id === domain.id)?.[1].score }))
+      .filter((p): p is { index: number; score: number } => typeof p.score === 'number');
+
+    doc.setFontSize(8);
+    doc.setTextColor(60);
+    drawText(doc, fonts, domainName(domain.id), cellX, cellY, "bold");
+
+    const plotY = cellY + 2;
+    doc.setDrawColor(220);
+    doc.setLineWidth(0.1);
+    doc.rect(cellX, plotY, chartWidth, chartHeight);
+    // Band boundaries, so the line reads against concern levels
+    doc.setLineDashPattern([1, 1], 0);
+    [domain.thresholds.low, domain.thresholds.moderate, domain.thresholds.elevated].forEach(threshold => {
+      const lineY = plotY + chartHeight * (1 - threshold / 100);
+      doc.line(cellX, lineY, cellX + chartWidth, lineY);
+    });
+    doc.setLineDashPattern([], 0);
+
+    const toX = (index: number) => cellX + 2 + (recent.length > 1 ? (index / (recent.length - 1)) * (chartWidth - 4) : (chartWidth - 4) / 2);
+    const toY = (score: number) => plotY + chartHeight * (1 - score / 100);
+
+    doc.setDrawColor(66, 133, 244);
+    doc.setLineWidth(0.5);
+    for (let p = 1; p < points.length; p++) {
+      doc.line(toX(points[p - 1].index), toY(points[p - 1].score), toX(points[p].index), toY(points[p].score));
+    }
+    points.forEach((p, n) => {
+      const isLatest = n === points.length - 1;
+      doc.setFillColor(...(isLatest ? CONCERN_COLORS[current.concern_level] : [66, 133, 244] as Rgb));
+      doc.circle(toX(p.index), toY(p.score), isLatest ? 1.2 : 0.7, 'F');
+    });
+
+    doc.setFontSize(7);
+    doc.setTextColor(150);
+    drawText(doc, fonts, formatDate(recent[0].createdAt), cellX, plotY + chartHeight + 4, "normal");
+    drawText(doc, fonts, formatDate(latest.createdAt), cellX + chartWidth, plotY + chartHeight + 4, "normal", 'right');
+  });
+
+  return Math.ceil(latestScores.length / columns) * cellHeight;
+};
+
+const sectionHeading = (doc: jsPDF, fonts: ReportFonts, title: string, x: number, y: number, width: number) => {
+  doc.setFontSize(14);
+  doc.setTextColor(66, 133, 244);
+  drawText(doc, fonts, title, x, y, "bold");
+  doc.setDrawColor(66, 133, 244);
+  doc.setLineWidth(0.5);
+  doc.line(x, y + 2, x + width, y + 2);
+};
+
+
+// Catalogue text the report may draw besides the analysis, for picking fonts.
+const labelStrings = (domains: DomainDefinition[], cohort: ReferenceCohort): string[] => [
+  t('report.title'), t('report.scoreOverview'), t('report.concernLevel'), t('report.capturedImage'),
+  t('report.domainAnalysis'), t('report.comparedWith', { cohort: describeCohortLocalised(cohort) }),
+  t('report.scoreTrends'), t('report.keyObservations'), t('report.significance'), t('report.reason'),
+  t('report.disclaimer'), t('report.page', { page: 1, count: 1 }), t('report.generatedBy'),
+  t('results.overallScore'), t('results.recommendations'), t('results.disclaimer'),
+  formatDateTime(Date.now()), formatPercentileLabel(50),
+  ...domains.map(domain => domainName(domain.id)),
+  ...(Object.keys(CONCERN_COLORS) as HealthDomain["concern_level"][]).map(concernName),
+  ...(['routine', 'soon', 'prompt'] as const).map(urgencyName)
+];
+
+// Draws every page. Runs inside inLanguage, so t() and the formatters use the report's language.
+const drawReport = (doc: jsPDF, fonts: ReportFonts, data: HealthAnalysis, { cohort = {}, history = [], faceImage }: ReportOptions) => {
   const pageWidth = doc.internal.pageSize.getWidth();
   const margin = 20;
   let yPos = 20;
@@ -15,10 +257,10 @@ export const generatePDF = (data: HealthAnalysis) => {
   
   doc.setFontSize(10);
   doc.setTextColor(100);
-  doc.setFont("helvetica", "normal");
-  doc.text("Clinical Screening Report", margin + 65, yPos);
+  drawText(doc, fonts, t('report.title'), margin + 65, yPos, "normal");
   
-  doc.text(new Date().toLocaleString(), pageWidth - margin, yPos, { align: 'right' });
+  // Some locales put a narrow no-break space before AM/PM, which Helvetica lacks.
+  drawText(doc, fonts, formatDateTime(Date.now()).replace(/[\u202f\u00a0]/g, ' '), pageWidth - margin, yPos, "normal", 'right');
   
   yPos += 15;
   
@@ -29,7 +271,7 @@ export const generatePDF = (data: HealthAnalysis) => {
   
   doc.setFontSize(12);
   doc.setTextColor(80);
-  doc.text("Overall Wellness Score", margin + 10, yPos + 12);
+  drawText(doc, fonts, t('results.overallScore'), margin + 10, yPos + 12, "normal");
   
   doc.setFontSize(24);
   doc.setTextColor(0);
@@ -38,87 +280,122 @@ export const generatePDF = (data: HealthAnalysis) => {
   
   // Summary in the box
   doc.setFontSize(10);
-  doc.setFont("helvetica", "normal");
   doc.setTextColor(60);
   
-  // Split summary text to fit next to score
+  // Wrap summary text to fit next to score
   const summaryX = margin + 70;
   const summaryWidth = pageWidth - margin - summaryX - 5;
-  const summaryLines = doc.splitTextToSize(data.summary, summaryWidth);
-  doc.text(summaryLines, summaryX, yPos + 10);
+  drawParagraph(doc, fonts, data.summary, summaryX, yPos + 10, summaryWidth, "normal");
   
   yPos += 50;
 
+  const domains = getScoredDomains(data.domain_scores);
+
+  // --- Score Overview: bar chart, legend and face thumbnail ---
+  sectionHeading(doc, fonts, t('report.scoreOverview'), margin, yPos, pageWidth - margin * 2);
+  yPos += 12;
+
+  const sideX = pageWidth - margin - 38;
+  const chartHeight = drawScoreChart(doc, fonts, domains, margin, yPos, sideX - margin - 6);
+  drawConcernLegend(doc, fonts, sideX, yPos);
+
+  let sideHeight = 26;
+  if (faceImage) {
+    try {
+      const format = faceImage.mimeType.includes('png') ? 'PNG' : 'JPEG';
+      const dataUrl = `data:${faceImage.mimeType};base64,${faceImage.base64}`;
+      // Fitted inside the thumbnail box at the photo's own proportions; a
+      // stretched face would misrepresent it.
+      const { width, height } = doc.getImageProperties(dataUrl);
+      const scale = Math.min(FACE_BOX.width / width, FACE_BOX.height / height);
+      const imageHeight = height * scale;
+      doc.addImage(dataUrl, format, sideX, yPos + 28, width * scale, imageHeight);
+      doc.setFontSize(7);
+      doc.setTextColor(150);
+      drawText(doc, fonts, t('report.capturedImage'), sideX, yPos + 32 + imageHeight, "normal");
+      sideHeight = 36 + imageHeight;
+    } catch (e) {
+      console.warn("Face image could not be added to the report:", e);
+    }
+  }
+
+  yPos += Math.max(chartHeight, sideHeight) + 10;
+  if (yPos > 240) {
+    doc.addPage();
+    yPos = 20;
+  }
+
   // --- Domain Scores Table ---
-  doc.setFontSize(14);
-  doc.setTextColor(66, 133, 244);
-  doc.setFont("helvetica", "bold");
-  doc.text("Domain Analysis", margin, yPos);
-  
-  doc.setDrawColor(66, 133, 244);
-  doc.setLineWidth(0.5);
-  doc.line(margin, yPos + 2, pageWidth - margin, yPos + 2);
+  sectionHeading(doc, fonts, t('report.domainAnalysis'), margin, yPos, pageWidth - margin * 2);
+
+  // Percentiles are only printed once the reference norms are fitted (see referenceNorms).
+  if (!REFERENCE_NORMS.provisional) {
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    drawText(doc, fonts, t('report.comparedWith', { cohort: describeCohortLocalised(cohort) }), margin, yPos + 7, "normal");
+  }
   
   yPos += 15;
-
-  const domains = Object.entries(data.domain_scores);
   
-  domains.forEach(([key, value]) => {
+  domains.forEach(([domain, value]) => {
     // Check page break
     if (yPos > 260) {
       doc.addPage();
       yPos = 20;
     }
 
-    const title = key.charAt(0).toUpperCase() + key.slice(1).replace('_', ' ');
-    
     // Domain Title
     doc.setFontSize(11);
     doc.setTextColor(0);
-    doc.setFont("helvetica", "bold");
-    doc.text(title, margin, yPos);
+    drawText(doc, fonts, domainName(domain.id), margin, yPos, "bold");
     
     // Score
     doc.setFont("helvetica", "normal");
     doc.text(value.score.toString(), margin + 50, yPos);
+
+    const norm = getDomainPercentile(domain.id, value.score, cohort);
+    if (norm) {
+      doc.setFontSize(8);
+      doc.setTextColor(120);
+      drawText(doc, fonts, formatPercentileLabel(norm.percentile), margin, yPos + 5, "normal");
+    }
     
     // Concern Level (Color Coded)
-    let concernR = 100, concernG = 100, concernB = 100;
-    if (value.concern_level === 'low') { concernR=34; concernG=197; concernB=94; } // Green
-    else if (value.concern_level === 'moderate') { concernR=234; concernG=179; concernB=8; } // Yellow/Gold
-    else if (value.concern_level === 'elevated') { concernR=249; concernG=115; concernB=22; } // Orange
-    else if (value.concern_level === 'high') { concernR=239; concernG=68; concernB=68; } // Red
-    
-    doc.setTextColor(concernR, concernG, concernB);
+    doc.setTextColor(...(CONCERN_COLORS[value.concern_level] || [100, 100, 100]));
     doc.setFontSize(9);
-    doc.setFont("helvetica", "bold");
-    doc.text(value.concern_level.toUpperCase(), margin + 70, yPos);
+    drawText(doc, fonts, concernName(value.concern_level).toLocaleUpperCase(fonts.language), margin + 70, yPos, "bold");
     
     // Explanation
-    doc.setFont("helvetica", "normal");
     doc.setTextColor(80);
     doc.setFontSize(10);
-    const explanationLines = doc.splitTextToSize(value.explanation, pageWidth - margin - 110);
-    doc.text(explanationLines, margin + 100, yPos);
+    const explanationLines = drawParagraph(doc, fonts, value.explanation, margin + 100, yPos, pageWidth - margin * 2 - 100, "normal");
     
     // Calculate height of this row based on explanation text
-    const rowHeight = Math.max(10, explanationLines.length * 5);
+    const rowHeight = Math.max(10, explanationLines * 5);
     yPos += rowHeight + 8;
   });
 
   yPos += 5;
 
+  // --- Trends (only with earlier screenings to compare against) ---
+  if (history.length >= 2) {
+    const trendHeight = Math.ceil(domains.length / 3) * 34 + 14;
+    if (yPos + trendHeight > 270) {
+      doc.addPage();
+      yPos = 20;
+    }
+    sectionHeading(doc, fonts, t('report.scoreTrends'), margin, yPos, pageWidth - margin * 2);
+    yPos += 12;
+    yPos += drawTrendCharts(doc, fonts, history, margin, yPos, pageWidth - margin * 2) + 5;
+  }
+
   // --- Observations ---
   if (yPos > 240) {
      doc.addPage();
      yPos = 20;
   }
   
-  doc.setFontSize(14);
-  doc.setTextColor(66, 133, 244);
-  doc.setFont("helvetica", "bold");
-  doc.text("Key Observations", margin, yPos);
-  doc.line(margin, yPos + 2, pageWidth - margin, yPos + 2);
+  sectionHeading(doc, fonts, t('report.keyObservations'), margin, yPos, pageWidth - margin * 2);
   yPos += 12;
   
   data.key_observations.forEach((obs) => {
@@ -126,18 +403,15 @@ export const generatePDF = (data: HealthAnalysis) => {
       
       doc.setTextColor(0);
       doc.setFontSize(10);
-      doc.setFont("helvetica", "bold");
-      doc.text("• " + obs.finding, margin, yPos);
+      const findingLines = drawParagraph(doc, fonts, obs.finding, margin, yPos, pageWidth - margin * 2, "bold", "• ");
       
-      const sigWidth = pageWidth - margin - 15;
-      const sigLines = doc.splitTextToSize("Significance: " + obs.significance, sigWidth);
+      const sigWidth = pageWidth - margin * 2 - 5;
       
-      yPos += 5;
-      doc.setFont("helvetica", "italic");
+      yPos += findingLines * 5;
       doc.setTextColor(100);
-      doc.text(sigLines, margin + 5, yPos);
+      const sigLines = drawParagraph(doc, fonts, obs.significance, margin + 5, yPos, sigWidth, "italic", `${t('report.significance')} `);
       
-      yPos += (sigLines.length * 5) + 6;
+      yPos += (sigLines * 5) + 6;
   });
 
   yPos += 5;
@@ -148,11 +422,7 @@ export const generatePDF = (data: HealthAnalysis) => {
      yPos = 20;
   }
   
-  doc.setFontSize(14);
-  doc.setTextColor(66, 133, 244);
-  doc.setFont("helvetica", "bold");
-  doc.text("Recommendations", margin, yPos);
-  doc.line(margin, yPos + 2, pageWidth - margin, yPos + 2);
+  sectionHeading(doc, fonts, t('results.recommendations'), margin, yPos, pageWidth - margin * 2);
   yPos += 12;
   
   data.recommendations.forEach((rec) => {
@@ -160,8 +430,9 @@ export const generatePDF = (data: HealthAnalysis) => {
       
       doc.setTextColor(0);
       doc.setFontSize(10);
-      doc.setFont("helvetica", "bold");
-      doc.text("• " + rec.action, margin, yPos);
+      // Leave room for the urgency tag at the end of the first line, which is the left for right-to-left text
+      const actionRtl = !!fonts.fontFor(rec.action)?.rtl;
+      const actionLines = drawParagraph(doc, fonts, rec.action, actionRtl ? margin + 22 : margin, yPos, pageWidth - margin * 2 - 22, "bold", "• ");
       
       // Urgency Tag
       let uColor = [100,100,100];
@@ -170,18 +441,16 @@ export const generatePDF = (data: HealthAnalysis) => {
       
       doc.setTextColor(uColor[0], uColor[1], uColor[2]);
       doc.setFontSize(8);
-      const textWidth = doc.getTextWidth("• " + rec.action);
-      doc.text(`[${rec.urgency.toUpperCase()}]`, margin + textWidth + 2, yPos);
+      const urgencyTag = `[${urgencyName(rec.urgency).toLocaleUpperCase(fonts.language)}]`;
+      if (actionRtl) drawText(doc, fonts, urgencyTag, margin, yPos, "bold");
+      else drawText(doc, fonts, urgencyTag, pageWidth - margin, yPos, "bold", 'right');
       
-      const reasonLines = doc.splitTextToSize("Reason: " + rec.reason, pageWidth - margin - 15);
-      
-      yPos += 5;
-      doc.setFont("helvetica", "normal");
+      yPos += actionLines * 5;
       doc.setFontSize(10);
       doc.setTextColor(80);
-      doc.text(reasonLines, margin + 5, yPos);
+      const reasonLines = drawParagraph(doc, fonts, rec.reason, margin + 5, yPos, pageWidth - margin * 2 - 5, "normal", `${t('report.reason')} `);
       
-      yPos += (reasonLines.length * 5) + 6;
+      yPos += (reasonLines * 5) + 6;
   });
 
   // --- Footer ---
@@ -198,14 +467,19 @@ export const generatePDF = (data: HealthAnalysis) => {
       doc.setTextColor(150);
       
       // Disclaimer
-      const disclaimer = "DISCLAIMER: " + data.disclaimer;
-      const splitDisclaimer = doc.splitTextToSize(disclaimer, pageWidth - (margin * 2));
-      doc.text(splitDisclaimer, margin, 282);
+      drawParagraph(doc, fonts, disclaimerText(data), margin, 282, pageWidth - (margin * 2), "normal", `${t('report.disclaimer')} `);
       
       // Page Number
-      doc.text(`Page ${i} of ${pageCount}`, pageWidth - margin, 290, { align: 'right' });
-      doc.text("Generated by VitalVoice AI powered by Gemini", margin, 290);
+      drawText(doc, fonts, t('report.page', { page: i, count: pageCount }), pageWidth - margin, 290, "normal", 'right');
+      drawText(doc, fonts, t('report.generatedBy'), margin, 290, "normal");
   }
+};
 
+export const generatePDF = async (data: HealthAnalysis, { cohort = {}, history = [], faceImage, language = "en-US" }: ReportOptions = {}) => {
+  const doc = new jsPDF();
+  // Labels, domain names and dates follow the report's language, which may not be the UI's.
+  const labels = inLanguage(language, () => labelStrings(getScoredDomains(data.domain_scores).map(([domain]) => domain), cohort));
+  const fonts = await loadReportFonts(doc, [...collectStrings(data), ...labels], language);
+  inLanguage(language, () => drawReport(doc, fonts, data, { cohort, history, faceImage }));
   doc.save("VitalVoice_Analysis_Report.pdf");
-};
\ No newline at end of file
+};
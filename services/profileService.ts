@@ -0,0 +1,90 @@
+import { ProfileField, SexAtBirth, SmokingStatus, UserProfile } from "../types";
+
+const STORAGE_KEY_PROFILE = "vitalvoice_user_profile";
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  age: "Age",
+  sexAtBirth: "Sex at birth",
+  smoker: "Smoking",
+  respiratoryConditions: "Respiratory conditions",
+  neurologicalConditions: "Neurological conditions",
+  medications: "Medications"
+};
+
+export const PROFILE_FIELDS = Object.keys(PROFILE_FIELD_LABELS) as ProfileField[];
+
+const SEXES: SexAtBirth[] = ['female', 'male'];
+const SMOKING_STATUSES: SmokingStatus[] = ['never', 'former', 'current'];
+
+const toList = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean);
+  return list.length > 0 ? list : undefined;
+};
+
+/**
+ * Keeps only well-formed fields, so a hand-edited or outdated stored profile
+ * can't put junk into the prompt. Returns null when nothing is left.
+ */
+export const normaliseProfile = (raw: unknown): UserProfile | null => {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const value = raw as Record<string, unknown>;
+
+  const age = typeof value.age === 'number' && Number.isFinite(value.age) && value.age >= 18 && value.age <= 120
+    ? Math.round(value.age)
+    : undefined;
+
+  const profile: UserProfile = {
+    age,
+    sexAtBirth: SEXES.includes(value.sexAtBirth as SexAtBirth) ? value.sexAtBirth as SexAtBirth : undefined,
+    smoker: SMOKING_STATUSES.includes(value.smoker as SmokingStatus) ? value.smoker as SmokingStatus : undefined,
+    respiratoryConditions: toList(value.respiratoryConditions),
+    neurologicalConditions: toList(value.neurologicalConditions),
+    medications: toList(value.medications)
+  };
+
+  return PROFILE_FIELDS.some(field => profile[field] !== undefined) ? profile : null;
+};
+
+export const loadProfile = (): UserProfile | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY_PROFILE);
+    return raw ? normaliseProfile(JSON.parse(raw)) : null;
+  } catch (e) {
+    console.error("Storage error", e);
+    return null;
+  }
+};
+
+// Saving an empty profile clears it.
+export const saveProfile = (profile: UserProfile | null): UserProfile | null => {
+  const normalised = normaliseProfile(profile);
+  try {
+    if (normalised) localStorage.setItem(STORAGE_KEY_PROFILE, JSON.stringify(normalised));
+    else localStorage.removeItem(STORAGE_KEY_PROFILE);
+  } catch (e) {
+    console.error("Storage error", e);
+  }
+  return normalised;
+};
+
+/**
+ * One "field: value" line per filled-in field, for prompts. Keys are the
+ * field ids so the model can name them back in profile_considerations.
+ */
+export const describeProfile = (profile: UserProfile): string => {
+  const smoking: Record<SmokingStatus, string> = { never: "never smoked", former: "former smoker", current: "current smoker" };
+  const lines: [ProfileField, string | undefined][] = [
+    ['age', profile.age !== undefined ? `${profile.age} years` : undefined],
+    ['sexAtBirth', profile.sexAtBirth],
+    ['smoker', profile.smoker ? smoking[profile.smoker] : undefined],
+    ['respiratoryConditions', profile.respiratoryConditions?.join(", ")],
+    ['neurologicalConditions', profile.neurologicalConditions?.join(", ")],
+    ['medications', profile.medications?.join(", ")]
+  ];
+
+  return lines
+    .filter(([, value]) => value)
+    .map(([field, value]) => `- ${field} (${PROFILE_FIELD_LABELS[field]}): ${value}`)
+    .join("\n");
+};
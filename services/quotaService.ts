@@ -0,0 +1,67 @@
+// Usage quotas are enforced by the proxy server (server/src/quota.ts); the
+// app only reads them to explain limits. Requests are identified by an
+// anonymous device token the server issues, or by an account token when one
+// has been stored.
+const STORAGE_KEY_DEVICE_TOKEN = 'vitalvoice_device_token';
+const STORAGE_KEY_ACCOUNT_TOKEN = 'vitalvoice_account_token';
+
+export interface QuotaUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+  // When the oldest use in the window expires and frees a slot; null when nothing is used.
+  resetsAt: number | null;
+}
+
+export interface QuotaStatus {
+  tier: string;
+  analyses: QuotaUsage;
+  chatTurns: QuotaUsage;
+  // Turns allowed in one results conversation, on top of the daily limit.
+  chatTurnsPerSession: number;
+}
+
+let pendingToken: Promise<string> | null = null;
+
+const requestDeviceToken = async (baseUrl: string): Promise<string> => {
+  const response = await fetch(`${baseUrl}/quota/device`, { method: "POST" });
+  if (!response.ok) throw new Error(`Device registration failed with ${response.status}`);
+  const { token } = await response.json() as { token: string };
+  localStorage.setItem(STORAGE_KEY_DEVICE_TOKEN, token);
+  return token;
+};
+
+/**
+ * The bearer token for quota accounting. A device registers once and keeps
+ * its token; concurrent callers share one registration.
+ */
+export const getQuotaToken = async (baseUrl: string): Promise<string> => {
+  const stored = localStorage.getItem(STORAGE_KEY_ACCOUNT_TOKEN) || localStorage.getItem(STORAGE_KEY_DEVICE_TOKEN);
+  if (stored) return stored;
+  if (!pendingToken) {
+    pendingToken = requestDeviceToken(baseUrl).finally(() => {
+      pendingToken = null;
+    });
+  }
+  return pendingToken;
+};
+
+export const getAccountToken = (): string | null => localStorage.getItem(STORAGE_KEY_ACCOUNT_TOKEN);
+
+// Stores the token requests are sent with instead of the device token; an empty one clears it.
+export const setAccountToken = (token: string | null) => {
+  const trimmed = token?.trim();
+  if (trimmed) localStorage.setItem(STORAGE_KEY_ACCOUNT_TOKEN, trimmed);
+  else localStorage.removeItem(STORAGE_KEY_ACCOUNT_TOKEN);
+};
+
+// Called when the server rejects the token that was sent. An account token
+// was mistyped or revoked, so it is dropped and the device token used again;
+// a device token (e.g. after the signing secret changed) registers again.
+export const forgetQuotaToken = () => {
+  if (getAccountToken()) localStorage.removeItem(STORAGE_KEY_ACCOUNT_TOKEN);
+  else localStorage.removeItem(STORAGE_KEY_DEVICE_TOKEN);
+};
+
+export const quotaHeaders = async (baseUrl: string): Promise<Record<string, string>> =>
+  ({ Authorization: `Bearer ${await getQuotaToken(baseUrl)}` });
@@ -0,0 +1,78 @@
+import { DomainId, UserProfile } from "../types";
+import { AgeBand, NormStratum, REFERENCE_NORMS, ReferenceSex } from "./referenceNormsData";
+
+export type { AgeBand, ReferenceSex } from "./referenceNormsData";
+
+// Who a score is compared against. Unknown fields widen the cohort, so an
+// empty cohort means all adults in the dataset.
+export interface ReferenceCohort {
+  ageBand?: AgeBand;
+  sex?: ReferenceSex;
+}
+
+export interface DomainPercentile {
+  percentile: number; // 1-99
+  cohortMedian: number;
+}
+
+export const ageBandForAge = (age: number): AgeBand =>
+  age < 40 ? '18-39' : age < 60 ? '40-59' : '60+';
+
+export const cohortForProfile = (profile?: UserProfile | null): ReferenceCohort => ({
+  ageBand: profile?.age !== undefined ? ageBandForAge(profile.age) : undefined,
+  sex: profile?.sexAtBirth
+});
+
+// Abramowitz & Stegun 7.1.26; accurate to about 1e-7, far below score resolution.
+const erf = (x: number): number => {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return sign * y;
+};
+
+const normalCdf = (x: number, mean: number, sd: number) => 0.5 * (1 + erf((x - mean) / (sd * Math.SQRT2)));
+
+const matchingStrata = ({ ageBand, sex }: ReferenceCohort): NormStratum[] =>
+  REFERENCE_NORMS.strata.filter(s => (!ageBand || s.ageBand === ageBand) && (!sex || s.sex === sex));
+
+/**
+ * Where `score` sits within the cohort's distribution for a domain. A cohort
+ * spanning several strata is treated as their mixture, weighted by sample
+ * size. Returns null when the dataset has no norms for the domain, and for
+ * every domain while the dataset is provisional: placeholder values are not
+ * shown to users as percentiles.
+ */
+export const getDomainPercentile = (domainId: DomainId, score: number, cohort: ReferenceCohort = {}): DomainPercentile | null => {
+  if (REFERENCE_NORMS.provisional) return null;
+  const norms = matchingStrata(cohort)
+    .map(s => s.domains[domainId])
+    .filter((n): n is NonNullable<typeof n> => n !== undefined);
+  if (norms.length === 0) return null;
+
+  const total = norms.reduce((sum, n) => sum + n.n, 0);
+  const cdf = (x: number) => norms.reduce((sum, n) => sum + (n.n / total) * normalCdf(x, n.mean, n.sd), 0);
+
+  // The mixture has no closed-form median, so bisect on its CDF.
+  let lo = 0, hi = 100;
+  for (let i = 0; i < 30; i++) {
+    const mid = (lo + hi) / 2;
+    if (cdf(mid) < 0.5) lo = mid; else hi = mid;
+  }
+
+  return {
+    percentile: Math.min(99, Math.max(1, Math.round(cdf(score) * 100))),
+    cohortMedian: Math.round((lo + hi) / 2)
+  };
+};
+
+export const formatPercentile = (percentile: number): string => {
+  const tens = percentile % 100;
+  if (tens >= 11 && tens <= 13) return `${percentile}th`;
+  switch (percentile % 10) {
+    case 1: return `${percentile}st`;
+    case 2: return `${percentile}nd`;
+    case 3: return `${percentile}rd`;
+    default: return `${percentile}th`;
+  }
+};
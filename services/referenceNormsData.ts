@@ -0,0 +1,121 @@
+import { DomainId } from "../types";
+
+export type AgeBand = '18-39' | '40-59' | '60+';
+export type ReferenceSex = 'female' | 'male';
+
+// Score distribution for one domain within one stratum.
+export interface DomainNorm {
+  mean: number;
+  sd: number;
+  // Sample size; weights the strata when a cohort spans several. The
+  // provisional values carry nominal sizes.
+  n: number;
+}
+
+export interface NormStratum {
+  ageBand: AgeBand;
+  sex: ReferenceSex;
+  domains: Partial<Record<DomainId, DomainNorm>>;
+}
+
+export interface ReferenceNormsDataset {
+  version: string;
+  source: string;
+  // True until the values come from a validated cohort; percentiles are hidden until then.
+  provisional: boolean;
+  strata: NormStratum[];
+}
+
+/**
+ * Bundled per-domain score distributions by age band and sex at birth.
+ *
+ * These values are provisional placeholders: they follow the expected direction
+ * of age effects (lower neurological and respiratory scores with age, little
+ * change in mental health) but are not fitted to any screened cohort. Replace
+ * them with the distributions from a validation run and set `provisional` to false.
+ */
+export const REFERENCE_NORMS: ReferenceNormsDataset = {
+  version: "2026.1-provisional",
+  source: "Provisional VitalVoice reference values, not yet fitted to a validation cohort",
+  provisional: true,
+  strata: [
+    {
+      ageBand: '18-39', sex: 'female',
+      domains: {
+        neurological: { mean: 84, sd: 8, n: 400 },
+        mental_health: { mean: 74, sd: 12, n: 400 },
+        respiratory: { mean: 83, sd: 9, n: 400 },
+        cardiovascular: { mean: 84, sd: 8, n: 400 },
+        metabolic: { mean: 80, sd: 10, n: 400 },
+        hydration: { mean: 78, sd: 11, n: 400 },
+        sleep_fatigue: { mean: 70, sd: 13, n: 400 },
+        cognitive_load: { mean: 76, sd: 11, n: 400 }
+      }
+    },
+    {
+      ageBand: '18-39', sex: 'male',
+      domains: {
+        neurological: { mean: 83, sd: 8, n: 400 },
+        mental_health: { mean: 76, sd: 11, n: 400 },
+        respiratory: { mean: 84, sd: 9, n: 400 },
+        cardiovascular: { mean: 83, sd: 9, n: 400 },
+        metabolic: { mean: 79, sd: 10, n: 400 },
+        hydration: { mean: 77, sd: 11, n: 400 },
+        sleep_fatigue: { mean: 71, sd: 13, n: 400 },
+        cognitive_load: { mean: 76, sd: 11, n: 400 }
+      }
+    },
+    {
+      ageBand: '40-59', sex: 'female',
+      domains: {
+        neurological: { mean: 80, sd: 9, n: 350 },
+        mental_health: { mean: 74, sd: 12, n: 350 },
+        respiratory: { mean: 79, sd: 10, n: 350 },
+        cardiovascular: { mean: 79, sd: 10, n: 350 },
+        metabolic: { mean: 76, sd: 11, n: 350 },
+        hydration: { mean: 76, sd: 11, n: 350 },
+        sleep_fatigue: { mean: 69, sd: 13, n: 350 },
+        cognitive_load: { mean: 75, sd: 11, n: 350 }
+      }
+    },
+    {
+      ageBand: '40-59', sex: 'male',
+      domains: {
+        neurological: { mean: 79, sd: 9, n: 350 },
+        mental_health: { mean: 75, sd: 12, n: 350 },
+        respiratory: { mean: 78, sd: 11, n: 350 },
+        cardiovascular: { mean: 76, sd: 11, n: 350 },
+        metabolic: { mean: 74, sd: 11, n: 350 },
+        hydration: { mean: 75, sd: 11, n: 350 },
+        sleep_fatigue: { mean: 70, sd: 13, n: 350 },
+        cognitive_load: { mean: 75, sd: 11, n: 350 }
+      }
+    },
+    {
+      ageBand: '60+', sex: 'female',
+      domains: {
+        neurological: { mean: 73, sd: 11, n: 250 },
+        mental_health: { mean: 75, sd: 12, n: 250 },
+        respiratory: { mean: 72, sd: 12, n: 250 },
+        cardiovascular: { mean: 72, sd: 12, n: 250 },
+        metabolic: { mean: 71, sd: 12, n: 250 },
+        hydration: { mean: 70, sd: 12, n: 250 },
+        sleep_fatigue: { mean: 67, sd: 14, n: 250 },
+        cognitive_load: { mean: 71, sd: 12, n: 250 }
+      }
+    },
+    {
+      ageBand: '60+', sex: 'male',
+      domains: {
+        neurological: { mean: 71, sd: 12, n: 250 },
+        mental_health: { mean: 75, sd: 12, n: 250 },
+        respiratory: { mean: 70, sd: 13, n: 250 },
+        cardiovascular: { mean: 69, sd: 13, n: 250 },
+        metabolic: { mean: 70, sd: 12, n: 250 },
+        hydration: { mean: 69, sd: 12, n: 250 },
+        sleep_fatigue: { mean: 68, sd: 14, n: 250 },
+        cognitive_load: { mean: 70, sd: 12, n: 250 }
+      }
+    }
+  ]
+};
@@ -0,0 +1,82 @@
+import { AppScreen } from "../types";
+
+// Each screen has a path so the browser's Back and Forward buttons move
+// through the flow, and a saved screening can be linked to as
+// /results/<id>. Navigation still goes through the `screen` state; the URL
+// follows it, and popstate maps the URL back.
+
+export interface Route {
+  screen: AppScreen;
+  // The saved screening on RESULTS and CHAT; absent for unsaved and sample results.
+  screeningId?: string;
+}
+
+const SCREEN_PATHS: Record<AppScreen, string> = {
+  [AppScreen.INTRO]: '/',
+  [AppScreen.RECORDING]: '/record',
+  [AppScreen.FACE_PROMPT]: '/face',
+  [AppScreen.FACE_CAPTURE]: '/face/capture',
+  [AppScreen.UPLOAD_CONFIG]: '/upload',
+  [AppScreen.BATCH_VALIDATION]: '/upload/batch',
+  [AppScreen.ANALYZING]: '/analyzing',
+  [AppScreen.ANALYSIS_ERROR]: '/analysis-error',
+  [AppScreen.RESULTS]: '/results',
+  [AppScreen.CHAT]: '/results/chat',
+  [AppScreen.HISTORY]: '/history'
+};
+
+// Screens that show work in progress. Whatever follows them replaces their
+// history entry, so Back never lands on an analysis that has finished.
+export const TRANSIENT_SCREENS: AppScreen[] = [AppScreen.ANALYZING, AppScreen.ANALYSIS_ERROR];
+
+export const routeToPath = ({ screen, screeningId }: Route): string => {
+  if (screeningId && screen === AppScreen.RESULTS) return `/results/${encodeURIComponent(screeningId)}`;
+  if (screeningId && screen === AppScreen.CHAT) return `/results/${encodeURIComponent(screeningId)}/chat`;
+  return SCREEN_PATHS[screen];
+};
+
+/** The route for a path. Unknown paths go to the intro screen. */
+export const parseRoute = (pathname: string): Route => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const screen = (Object.keys(SCREEN_PATHS) as AppScreen[]).find(s => SCREEN_PATHS[s] === path);
+  if (screen) return { screen };
+
+  const saved = /^\/results\/([^/]+)(\/chat)?$/.exec(path);
+  if (saved) {
+    return { screen: saved[2] ? AppScreen.CHAT : AppScreen.RESULTS, screeningId: decodeURIComponent(saved[1]) };
+  }
+  return { screen: AppScreen.INTRO };
+};
+
+// What the app has in memory, which decides whether a screen reached from
+// the URL can be shown.
+export interface RouteState {
+  hasResult: boolean;
+  hasRecordings: boolean;
+  hasAnalysisError: boolean;
+  isAnalyzing: boolean;
+}
+
+/**
+ * The screen to show for a route reached from the URL (a reload, a link, or
+ * Back and Forward). A screen whose data is not in memory falls back to the
+ * nearest one that can be shown. The camera is only started by the user, so
+ * FACE_CAPTURE always falls back to FACE_PROMPT. A saved screening in the
+ * route has to be loaded before this is called.
+ */
+export const guardRoute = ({ screen }: Route, state: RouteState): AppScreen => {
+  switch (screen) {
+    case AppScreen.RESULTS:
+    case AppScreen.CHAT:
+      return state.hasResult ? screen : AppScreen.INTRO;
+    case AppScreen.FACE_PROMPT:
+    case AppScreen.FACE_CAPTURE:
+      return state.hasRecordings ? AppScreen.FACE_PROMPT : AppScreen.RECORDING;
+    case AppScreen.ANALYZING:
+      return state.isAnalyzing ? screen : AppScreen.INTRO;
+    case AppScreen.ANALYSIS_ERROR:
+      return state.hasAnalysisError ? screen : AppScreen.INTRO;
+    default:
+      return screen;
+  }
+};
@@ -0,0 +1,305 @@
+import { AcousticFeatures, AudioPreprocessingStats, ChatMessage, HealthAnalysis, ModelCallKind, ModelUsage, ScreeningRecord, VoiceTaskId } from "../types";
+import { getScoredDomains } from "./domainRegistry";
+import { validateHealthAnalysis, AnalysisValidationError } from "./analysisValidator";
+import { normaliseAcousticFeatures } from "./acousticService";
+import { normaliseProfile } from "./profileService";
+import { VOICE_TASK_IDS } from "./voiceProtocol";
+import { blobToBase64 } from "./fileService";
+import { toCsv } from "./csv";
+import { t } from "./i18n";
+
+// Portable screening files. `version` is bumped whenever a field changes
+// meaning; parseScreeningExport rejects versions newer than it knows.
+export const SCREENING_EXPORT_FORMAT = 'vitalvoice-screening';
+export const SCREENING_EXPORT_VERSION = 1;
+
+export interface MediaAttachment {
+  mimeType: string;
+  base64: string;
+}
+
+// A chat message without the in-memory state (blob URLs, streaming flags).
+export interface ExportedChatMessage {
+  role: ChatMessage["role"];
+  text: string;
+  isAudio?: boolean;
+  transcript?: string;
+  interrupted?: boolean;
+  audio?: MediaAttachment;
+}
+
+export interface ScreeningExport {
+  format: typeof SCREENING_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  screening: ScreeningRecord;
+  chat: ExportedChatMessage[];
+  // Present only when the export was made with media included.
+  media?: {
+    audio?: MediaAttachment;
+    image?: MediaAttachment;
+  };
+}
+
+export interface ScreeningExportOptions {
+  chat?: ChatMessage[];
+  audio?: MediaAttachment | null;
+  image?: MediaAttachment | null;
+  // Off by default: recordings and photos make the file large and identifying.
+  includeMedia?: boolean;
+}
+
+// What an import gives back to the app, with chat audio turned into playable URLs.
+export interface ImportedScreening {
+  record: ScreeningRecord;
+  chat: ChatMessage[];
+  audio: MediaAttachment | null;
+  image: MediaAttachment | null;
+}
+
+/**
+ * Thrown when a file is not a screening export this version can read.
+ * `message` is safe to show to the user; `issues` is for logs.
+ */
+export class ScreeningImportError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(t('history.notAnExport'));
+    this.name = 'ScreeningImportError';
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readAudioUrl = async (url: string): Promise<MediaAttachment | undefined> => {
+  try {
+    const blob = await (await fetch(url)).blob();
+    return { mimeType: blob.type || 'audio/webm', base64: await blobToBase64(blob) };
+  } catch (e) {
+    console.error("Chat audio could not be read for export", e);
+    return undefined;
+  }
+};
+
+/**
+ * Serialises a screening, its chat and (optionally) the recording and photo
+ * it was made from. Messages still streaming are left out.
+ */
+export const exportScreeningJson = async (record: ScreeningRecord, options: ScreeningExportOptions = {}): Promise<string> => {
+  const { includeMedia = false } = options;
+
+  const chat: ExportedChatMessage[] = [];
+  for (const message of options.chat ?? []) {
+    if (message.isStreaming) continue;
+    const exported: ExportedChatMessage = { role: message.role, text: message.text };
+    if (message.isAudio) exported.isAudio = true;
+    if (message.transcript) exported.transcript = message.transcript;
+    if (message.interrupted) exported.interrupted = true;
+    if (includeMedia && message.audioUrl) exported.audio = await readAudioUrl(message.audioUrl);
+    chat.push(exported);
+  }
+
+  const data: ScreeningExport = {
+    format: SCREENING_EXPORT_FORMAT,
+    version: SCREENING_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    screening: record,
+    chat
+  };
+  if (includeMedia && (options.audio || options.image)) {
+    data.media = {
+      audio: options.audio || undefined,
+      image: options.image || undefined
+    };
+  }
+
+  return JSON.stringify(data, null, 2);
+};
+
+const parseAttachment = (value: unknown, path: string, issues: string[]): MediaAttachment | null => {
+  if (value === undefined) return null;
+  if (isObject(value) && typeof value.mimeType === 'string' && typeof value.base64 === 'string' && /^[A-Za-z0-9+/]+={0,2}$/.test(value.base64)) {
+    return { mimeType: value.mimeType, base64: value.base64 };
+  }
+  issues.push(`${path} must have a mimeType and base64 data`);
+  return null;
+};
+
+// An object whose `numbers` fields are finite numbers and `strings` fields are strings.
+const hasFields = (value: unknown, numbers: string[], strings: string[] = []): boolean =>
+  isObject(value)
+  && numbers.every(field => typeof value[field] === 'number' && Number.isFinite(value[field]))
+  && strings.every(field => typeof value[field] === 'string');
+
+const isPreprocessingStats = (value: unknown): value is AudioPreprocessingStats =>
+  isObject(value)
+  && (value.task === undefined || VOICE_TASK_IDS.includes(value.task as VoiceTaskId))
+  && hasFields(value.input, ['bytes', 'sampleRate', 'channels', 'durationSeconds'], ['mimeType'])
+  && hasFields(value.trim, ['leadingSeconds', 'trailingSeconds'])
+  && (value.noiseGate === null || hasFields(value.noiseGate, ['noiseFloorDb', 'thresholdDb', 'gatedSeconds']))
+  && hasFields(value.normalisation, ['gainDb', 'peakDb', 'rmsDb'])
+  && hasFields(value.output, ['bytes', 'sampleRate', 'durationSeconds'], ['mimeType']);
+
+const MODEL_CALL_KINDS: ModelCallKind[] = ['analysis', 'chat', 'transcription'];
+const INPUT_MODALITIES = ['text', 'audio', 'image'];
+
+const isModelUsage = (value: unknown): value is ModelUsage =>
+  isObject(value)
+  && MODEL_CALL_KINDS.includes(value.kind as ModelCallKind)
+  && hasFields(value, ['at', 'promptTokens', 'outputTokens', 'totalTokens'], ['model'])
+  && hasFields(value.inputSizes, ['textChars', 'audioBytes', 'imageBytes'])
+  && (value.promptTokensByModality === undefined || (isObject(value.promptTokensByModality)
+    && Object.keys(value.promptTokensByModality).every(modality => INPUT_MODALITIES.includes(modality))
+    && hasFields(value.promptTokensByModality, Object.keys(value.promptTokensByModality))));
+
+// An optional list whose every entry must pass `isEntry`.
+const parseList = <T>(value: unknown, isEntry: (entry: unknown) => entry is T, path: string, issues: string[]): T[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array`);
+    return undefined;
+  }
+  value.forEach((entry, i) => {
+    if (!isEntry(entry)) issues.push(`${path}[${i}] is not well formed`);
+  });
+  return value.filter(isEntry);
+};
+
+const attachmentToUrl = ({ mimeType, base64 }: MediaAttachment): string => {
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  return URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+};
+
+/**
+ * Reads a file written by exportScreeningJson. The analysis goes through the
+ * same validator as model output, and every other field is checked, so
+ * hand-edited files are repaired or rejected rather than breaking the results
+ * screen or reaching the chat prompt.
+ */
+export const parseScreeningExport = (text: string): ImportedScreening => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ScreeningImportError(["File is not valid JSON"]);
+  }
+
+  if (!isObject(raw) || raw.format !== SCREENING_EXPORT_FORMAT) {
+    throw new ScreeningImportError([`format must be "${SCREENING_EXPORT_FORMAT}"`]);
+  }
+  if (typeof raw.version !== 'number' || raw.version < 1 || raw.version > SCREENING_EXPORT_VERSION) {
+    throw new ScreeningImportError([`version ${String(raw.version)} is not supported (expected 1-${SCREENING_EXPORT_VERSION})`]);
+  }
+
+  const issues: string[] = [];
+  const screening = isObject(raw.screening) ? raw.screening : {};
+  if (typeof screening.id !== 'string' || screening.id === '') issues.push("screening.id is missing");
+  if (typeof screening.createdAt !== 'number' || !Number.isFinite(screening.createdAt)) issues.push("screening.createdAt must be a timestamp");
+  if (typeof screening.language !== 'string') issues.push("screening.language is missing");
+
+  let analysis: HealthAnalysis | undefined;
+  try {
+    // Checked against every domain, as the file may come from a setup with other EXTRA_DOMAINS.
+    analysis = validateHealthAnalysis(screening.analysis, { saved: true }).analysis;
+  } catch (e) {
+    if (!(e instanceof AnalysisValidationError)) throw e;
+    issues.push(...e.issues.map(issue => `screening.analysis: ${issue}`));
+  }
+
+  const chat: ChatMessage[] = [];
+  (Array.isArray(raw.chat) ? raw.chat : []).forEach((message: unknown, i: number) => {
+    if (!isObject(message) || (message.role !== 'user' && message.role !== 'model') || typeof message.text !== 'string') {
+      issues.push(`chat[${i}] must have a role and text`);
+      return;
+    }
+    const audio = parseAttachment(message.audio, `chat[${i}].audio`, issues);
+    chat.push({
+      role: message.role,
+      text: message.text,
+      isAudio: message.isAudio === true || undefined,
+      transcript: typeof message.transcript === 'string' ? message.transcript : undefined,
+      interrupted: message.interrupted === true || undefined,
+      audioUrl: audio ? attachmentToUrl(audio) : undefined
+    });
+  });
+
+  let acousticFeatures: AcousticFeatures | undefined;
+  if (screening.acousticFeatures !== undefined) {
+    acousticFeatures = normaliseAcousticFeatures(screening.acousticFeatures) ?? undefined;
+    if (!acousticFeatures) issues.push("screening.acousticFeatures must hold a finite number for each feature");
+  }
+  // Fields a profile cannot have are dropped, as when loading the stored profile.
+  const profile = screening.profile === undefined ? undefined : normaliseProfile(screening.profile) ?? undefined;
+  const preprocessing = parseList(screening.preprocessing, isPreprocessingStats, "screening.preprocessing", issues);
+  const usage = parseList(screening.usage, isModelUsage, "screening.usage", issues);
+
+  const media = isObject(raw.media) ? raw.media : {};
+  const audio = parseAttachment(media.audio, "media.audio", issues);
+  const image = parseAttachment(media.image, "media.image", issues);
+
+  if (issues.length > 0 || !analysis) {
+    chat.forEach(m => m.audioUrl && URL.revokeObjectURL(m.audioUrl));
+    throw new ScreeningImportError(issues);
+  }
+
+  return {
+    record: {
+      id: screening.id as string,
+      createdAt: screening.createdAt as number,
+      language: screening.language as string,
+      analysis,
+      acousticFeatures,
+      profile,
+      preprocessing,
+      usage
+    },
+    chat,
+    audio,
+    image
+  };
+};
+
+const ACOUSTIC_COLUMNS: (keyof AcousticFeatures)[] = [
+  'durationSeconds', 'f0MeanHz', 'f0MinHz', 'f0MaxHz', 'jitterPercent', 'shimmerPercent', 'hnrDb', 'pauseRatio', 'syllableRate'
+];
+
+/**
+ * One row per screening for spreadsheet analysis. Domain columns cover every
+ * domain scored in any of the screenings, so older records leave theirs blank.
+ */
+export const screeningsToCsv = (records: ScreeningRecord[]): string => {
+  const domainIds: string[] = [];
+  records.forEach(record => getScoredDomains(record.analysis.domain_scores).forEach(([definition]) => {
+    if (!domainIds.includes(definition.id)) domainIds.push(definition.id);
+  }));
+
+  const header = ['id', 'created_at', 'language', 'overall_score', 'confidence'];
+  domainIds.forEach(id => header.push(`${id}_score`, `${id}_concern`));
+  header.push('observation_count', 'recommendation_count', 'prompt_recommendations', ...ACOUSTIC_COLUMNS, 'summary');
+
+  const rows = records.map(record => {
+    const { analysis } = record;
+    const scored = new Map(getScoredDomains(analysis.domain_scores).map(([definition, domain]) => [definition.id as string, domain]));
+    const cells: (string | number | null | undefined)[] = [
+      record.id,
+      new Date(record.createdAt).toISOString(),
+      record.language,
+      analysis.overall_wellness_score,
+      analysis.confidence_level
+    ];
+    domainIds.forEach(id => cells.push(scored.get(id)?.score, scored.get(id)?.concern_level));
+    cells.push(
+      analysis.key_observations.length,
+      analysis.recommendations.length,
+      analysis.recommendations.filter(r => r.urgency === 'prompt').length,
+      ...ACOUSTIC_COLUMNS.map(column => record.acousticFeatures?.[column]),
+      analysis.summary
+    );
+    return cells;
+  });
+
+  return toCsv([header, ...rows]);
+};
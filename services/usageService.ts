@@ -0,0 +1,125 @@
+import { InputModality, ModelUsage } from "../types";
+
+// Token usage is logged per device so the usage panel can show today's and
+// recent days' totals across screenings. Costs are estimates from a price
+// table, not the provider's bill.
+const STORAGE_KEY_USAGE_LOG = 'vitalvoice_usage_log';
+const LOG_RETENTION_DAYS = 30;
+
+// US dollars per million tokens. Audio input is billed above text and images.
+export interface ModelPrice {
+  input: Partial<Record<InputModality, number>> & { text: number };
+  output: number;
+}
+
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: { text: 0.30, image: 0.30, audio: 1.00 }, output: 2.50 }
+};
+
+/**
+ * The default table with MODEL_PRICES (a JSON object of the same shape)
+ * merged over it, so prices can follow the provider's without a code change.
+ */
+const loadPrices = (): Record<string, ModelPrice> => {
+  if (!process.env.MODEL_PRICES) return DEFAULT_MODEL_PRICES;
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...JSON.parse(process.env.MODEL_PRICES) };
+  } catch {
+    console.warn("MODEL_PRICES is not valid JSON; using the default price table");
+    return DEFAULT_MODEL_PRICES;
+  }
+};
+
+const PRICES = loadPrices();
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  // In US dollars; calls to models missing from the price table add nothing.
+  estimatedCost: number;
+  // Calls whose model has no price, so the cost is known to be low.
+  unpricedCalls: number;
+}
+
+/**
+ * Estimated cost of one call in US dollars, or null when the model is not
+ * in the price table. Prompt tokens the model did not attribute to a
+ * modality are priced as text.
+ */
+export const estimateCost = (usage: ModelUsage): number | null => {
+  const price = PRICES[usage.model];
+  if (!price) return null;
+  const byModality = usage.promptTokensByModality ?? {};
+  let attributed = 0;
+  let input = 0;
+  (Object.keys(byModality) as InputModality[]).forEach(modality => {
+    const tokens = byModality[modality] ?? 0;
+    attributed += tokens;
+    input += tokens * (price.input[modality] ?? price.input.text);
+  });
+  input += Math.max(0, usage.promptTokens - attributed) * price.input.text;
+  return (input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+export const sumUsage = (usages: ModelUsage[]): UsageTotals =>
+  usages.reduce<UsageTotals>((totals, usage) => {
+    const cost = estimateCost(usage);
+    return {
+      calls: totals.calls + 1,
+      promptTokens: totals.promptTokens + usage.promptTokens,
+      outputTokens: totals.outputTokens + usage.outputTokens,
+      totalTokens: totals.totalTokens + usage.totalTokens,
+      estimatedCost: totals.estimatedCost + (cost ?? 0),
+      unpricedCalls: totals.unpricedCalls + (cost === null ? 1 : 0)
+    };
+  }, { calls: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, estimatedCost: 0, unpricedCalls: 0 });
+
+// Local calendar day, e.g. "2026-10-19".
+const dayKey = (at: number): string => {
+  const date = new Date(at);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const getUsageLog = (): ModelUsage[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_USAGE_LOG);
+    return stored ? JSON.parse(stored) as ModelUsage[] : [];
+  } catch {
+    return [];
+  }
+};
+
+// Appends a call to the device log, dropping entries past the retention window.
+export const recordUsage = (usage: ModelUsage) => {
+  const since = Date.now() - LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const log = [...getUsageLog().filter(entry => entry.at > since), usage];
+  try {
+    localStorage.setItem(STORAGE_KEY_USAGE_LOG, JSON.stringify(log));
+  } catch (e) {
+    console.warn("Usage log could not be saved", e);
+  }
+};
+
+export interface DailyUsage extends UsageTotals {
+  day: string;
+}
+
+// Totals per local day, most recent first, for the last `days` days with any usage.
+export const usageByDay = (log: ModelUsage[], days = 7): DailyUsage[] => {
+  const groups = new Map<string, ModelUsage[]>();
+  log.forEach(usage => {
+    const key = dayKey(usage.at);
+    groups.set(key, [...(groups.get(key) ?? []), usage]);
+  });
+  return [...groups.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .slice(0, days)
+    .map(([day, usages]) => ({ day, ...sumUsage(usages) }));
+};
+
+export const todayUsage = (log: ModelUsage[]): UsageTotals => {
+  const today = dayKey(Date.now());
+  return sumUsage(log.filter(usage => dayKey(usage.at) === today));
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { HealthDomain } from "../types";
+import { buildValidationReport } from "./validationReport";
+import { ManifestRow, ValidationManifest, ValidationResult } from "./validationService";
+
+const RUN = 'run-1';
+
+const row = (file: string, labels: ManifestRow['labels'], referenceScores: ManifestRow['referenceScores'] = {}): ManifestRow =>
+  ({ file, labels, referenceScores });
+
+const done = (file: string, score: number, concern_level: HealthDomain['concern_level']): ValidationResult =>
+  ({ key: `${RUN}:${file}`, runId: RUN, file, status: 'done', overallScore: score, scores: { respiratory: { score, concern_level } }, completedAt: 0 });
+
+const failed = (file: string): ValidationResult =>
+  ({ key: `${RUN}:${file}`, runId: RUN, file, status: 'failed', error: 'Network error', completedAt: 0 });
+
+const manifestOf = (rows: ManifestRow[]): ValidationManifest => ({ rows, domains: ['respiratory'], warnings: [] });
+
+describe("buildValidationReport", () => {
+  it("counts the confusion matrix with elevated and high as flagged", () => {
+    const manifest = manifestOf([
+      row('a.wav', { respiratory: true }), row('b.wav', { respiratory: true }),
+      row('c.wav', { respiratory: false }), row('d.wav', { respiratory: false }), row('e.wav', { respiratory: false })
+    ]);
+    const results = [done('a.wav', 30, 'high'), done('b.wav', 70, 'moderate'), done('c.wav', 45, 'elevated'), done('d.wav', 85, 'low'), done('e.wav', 90, 'low')];
+
+    const [metrics] = buildValidationReport(RUN, 'en-US', manifest, results, 5).domains;
+    expect(metrics.matrix).toEqual({ truePositive: 1, falsePositive: 1, falseNegative: 1, trueNegative: 2 });
+    expect(metrics.sensitivity).toBe(0.5);
+    expect(metrics.specificity).toBeCloseTo(2 / 3);
+  });
+
+  it("reports no sensitivity or specificity when their denominator is 0", () => {
+    const manifest = manifestOf([row('a.wav', { respiratory: false }), row('b.wav', { respiratory: false })]);
+    const [metrics] = buildValidationReport(RUN, 'en-US', manifest, [done('a.wav', 80, 'low'), done('b.wav', 40, 'elevated')], 2).domains;
+    expect(metrics.sensitivity).toBeNull();
+    expect(metrics.specificity).toBe(0.5);
+
+    const empty = buildValidationReport(RUN, 'en-US', manifestOf([row('a.wav', {})]), [done('a.wav', 80, 'low')], 1).domains[0];
+    expect(empty.sensitivity).toBeNull();
+    expect(empty.specificity).toBeNull();
+  });
+
+  it("correlates against reference scores when the manifest has them", () => {
+    const manifest = manifestOf([
+      row('a.wav', {}, { respiratory: 20 }), row('b.wav', {}, { respiratory: 40 }),
+      row('c.wav', {}, { respiratory: 60 }), row('d.wav', {}, { respiratory: 80 })
+    ]);
+    const results = [done('a.wav', 25, 'high'), done('b.wav', 45, 'elevated'), done('c.wav', 65, 'moderate'), done('d.wav', 85, 'low')];
+    const [metrics] = buildValidationReport(RUN, 'en-US', manifest, results, 4).domains;
+    expect(metrics.correlation.against).toBe('reference_score');
+    expect(metrics.correlation.n).toBe(4);
+    expect(metrics.correlation.r).toBeCloseTo(1);
+  });
+
+  it("falls back to the binary labels, where a good model correlates negatively", () => {
+    const manifest = manifestOf([
+      row('a.wav', { respiratory: true }), row('b.wav', { respiratory: true }),
+      row('c.wav', { respiratory: false }), row('d.wav', { respiratory: false })
+    ]);
+    const results = [done('a.wav', 30, 'high'), done('b.wav', 40, 'elevated'), done('c.wav', 80, 'low'), done('d.wav', 90, 'low')];
+    const [metrics] = buildValidationReport(RUN, 'en-US', manifest, results, 4).domains;
+    expect(metrics.correlation.against).toBe('label');
+    expect(metrics.correlation.r).toBeLessThan(-0.9);
+  });
+
+  it("gives no correlation for fewer than three pairs or constant scores", () => {
+    const twoPairs = manifestOf([row('a.wav', {}, { respiratory: 20 }), row('b.wav', {}, { respiratory: 80 })]);
+    expect(buildValidationReport(RUN, 'en-US', twoPairs, [done('a.wav', 20, 'high'), done('b.wav', 80, 'low')], 2).domains[0].correlation.r).toBeNull();
+
+    const constant = manifestOf([row('a.wav', {}, { respiratory: 20 }), row('b.wav', {}, { respiratory: 50 }), row('c.wav', {}, { respiratory: 80 })]);
+    const results = [done('a.wav', 60, 'moderate'), done('b.wav', 60, 'moderate'), done('c.wav', 60, 'moderate')];
+    expect(buildValidationReport(RUN, 'en-US', constant, results, 3).domains[0].correlation.r).toBeNull();
+  });
+
+  it("counts analysed, failed and pending files, leaving failed ones out of the metrics", () => {
+    const manifest = manifestOf([row('a.wav', { respiratory: true }), row('b.wav', { respiratory: true }), row('c.wav', { respiratory: false })]);
+    const report = buildValidationReport(RUN, 'en-US', manifest, [done('a.wav', 30, 'high'), failed('b.wav')], 3);
+    expect(report.files).toEqual({ total: 3, analysed: 1, failed: 1, pending: 1 });
+    expect(report.domains[0].matrix).toEqual({ truePositive: 1, falsePositive: 0, falseNegative: 0, trueNegative: 0 });
+  });
+});
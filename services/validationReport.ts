@@ -0,0 +1,145 @@
+import { DomainId, HealthDomain } from "../types";
+import { getDomainLabel } from "./domainRegistry";
+import { toCsv } from "./csv";
+import { ValidationManifest, ValidationResult } from "./validationService";
+
+// A domain counts as flagged (predicted positive) at these concern levels.
+const POSITIVE_CONCERNS: HealthDomain["concern_level"][] = ['elevated', 'high'];
+
+export interface ConfusionMatrix {
+  truePositive: number;
+  falsePositive: number;
+  falseNegative: number;
+  trueNegative: number;
+}
+
+export interface DomainValidationMetrics {
+  domain: DomainId;
+  label: string;
+  matrix: ConfusionMatrix;
+  // null when the matrix has no positives (sensitivity) or negatives (specificity).
+  sensitivity: number | null;
+  specificity: number | null;
+  correlation: {
+    r: number | null;
+    n: number;
+    // Reference scores when the manifest has them; otherwise the binary labels,
+    // where a good model gives a negative r (lower score, more concern).
+    against: 'reference_score' | 'label';
+  };
+}
+
+export interface ValidationReport {
+  runId: string;
+  generatedAt: string;
+  language: string;
+  positiveRule: string;
+  files: { total: number; analysed: number; failed: number; pending: number };
+  domains: DomainValidationMetrics[];
+  results: ValidationResult[];
+}
+
+const pearson = (pairs: [number, number][]): number | null => {
+  if (pairs.length < 3) return null;
+  const n = pairs.length;
+  const meanX = pairs.reduce((s, [x]) => s + x, 0) / n;
+  const meanY = pairs.reduce((s, [, y]) => s + y, 0) / n;
+  let cov = 0, varX = 0, varY = 0;
+  pairs.forEach(([x, y]) => {
+    cov += (x - meanX) * (y - meanY);
+    varX += (x - meanX) ** 2;
+    varY += (y - meanY) ** 2;
+  });
+  return varX === 0 || varY === 0 ? null : cov / Math.sqrt(varX * varY);
+};
+
+const ratio = (numerator: number, denominator: number) => denominator === 0 ? null : numerator / denominator;
+
+export const buildValidationReport = (
+  runId: string,
+  language: string,
+  manifest: ValidationManifest,
+  results: ValidationResult[],
+  fileCount: number
+): ValidationReport => {
+  const byFile = new Map(results.map(r => [r.file, r]));
+  const analysed = manifest.rows
+    .map(row => ({ row, result: byFile.get(row.file) }))
+    .filter(({ result }) => result?.status === 'done');
+
+  const domains = manifest.domains.map((domain): DomainValidationMetrics => {
+    const matrix: ConfusionMatrix = { truePositive: 0, falsePositive: 0, falseNegative: 0, trueNegative: 0 };
+    const labelPairs: [number, number][] = [];
+    const referencePairs: [number, number][] = [];
+
+    analysed.forEach(({ row, result }) => {
+      const predicted = result?.scores?.[domain];
+      if (!predicted) return;
+
+      const label = row.labels[domain];
+      if (label !== undefined) {
+        const flagged = POSITIVE_CONCERNS.includes(predicted.concern_level);
+        if (label && flagged) matrix.truePositive++;
+        else if (label) matrix.falseNegative++;
+        else if (flagged) matrix.falsePositive++;
+        else matrix.trueNegative++;
+        labelPairs.push([predicted.score, label ? 1 : 0]);
+      }
+
+      const reference = row.referenceScores[domain];
+      if (reference !== undefined) referencePairs.push([predicted.score, reference]);
+    });
+
+    const useReference = referencePairs.length > 0;
+    const pairs = useReference ? referencePairs : labelPairs;
+
+    return {
+      domain,
+      label: getDomainLabel(domain),
+      matrix,
+      sensitivity: ratio(matrix.truePositive, matrix.truePositive + matrix.falseNegative),
+      specificity: ratio(matrix.trueNegative, matrix.trueNegative + matrix.falsePositive),
+      correlation: { r: pearson(pairs), n: pairs.length, against: useReference ? 'reference_score' : 'label' }
+    };
+  });
+
+  const failed = results.filter(r => r.status === 'failed').length;
+
+  return {
+    runId,
+    generatedAt: new Date().toISOString(),
+    language,
+    positiveRule: `Flagged when concern_level is ${POSITIVE_CONCERNS.join(' or ')}`,
+    files: { total: fileCount, analysed: analysed.length, failed, pending: fileCount - analysed.length - failed },
+    domains,
+    results
+  };
+};
+
+/**
+ * One row per manifest file: ground truth, prediction and outcome per domain.
+ */
+export const validationResultsToCsv = (manifest: ValidationManifest, results: ValidationResult[]): string => {
+  const byFile = new Map(results.map(r => [r.file, r]));
+  const header = ['file', 'status', 'overall_score', 'error'];
+  manifest.domains.forEach(d => header.push(`${d}_label`, `${d}_reference_score`, `${d}_score`, `${d}_concern`, `${d}_flagged`));
+
+  const rows = manifest.rows.map(row => {
+    const result = byFile.get(row.file);
+    const cells: (string | number | undefined)[] = [row.file, result?.status ?? 'pending', result?.overallScore, result?.error];
+    manifest.domains.forEach(d => {
+      const label = row.labels[d];
+      const predicted = result?.scores?.[d];
+      cells.push(
+        label === undefined ? undefined : label ? 1 : 0,
+        row.referenceScores[d],
+        predicted?.score,
+        predicted?.concern_level,
+        predicted ? (POSITIVE_CONCERNS.includes(predicted.concern_level) ? 1 : 0) : undefined
+      );
+    });
+    return cells;
+  });
+
+  return toCsv([header, ...rows]);
+};
@@ -0,0 +1,260 @@
+import { DomainId, HealthDomain } from "../types";
+import { analyzeHealth } from "./analysisService";
+import { classifyError } from "./analysisErrors";
+import { decodeAudioBlob, extractAcousticFeatures } from "./acousticService";
+import { getDomain } from "./domainRegistry";
+import { parseCsv } from "./csv";
+import { blobToBase64 } from "./fileService";
+import { STORE_VALIDATION_RESULTS, runTransaction } from "./database";
+import { MessageKey, MessageParams, t } from "./i18n";
+import { recordUsage } from "./usageService";
+
+// --- Manifest ---
+
+export interface ManifestRow {
+  file: string;
+  // Ground truth per domain: true when the condition is present. Blank cells are left out.
+  labels: Partial<Record<DomainId, boolean>>;
+  // Optional clinician-rated scores on the same 0-100 scale, from `<domain>_score` columns.
+  referenceScores: Partial<Record<DomainId, number>>;
+}
+
+export interface ValidationManifest {
+  rows: ManifestRow[];
+  // Domains with at least one label or reference score column.
+  domains: DomainId[];
+  warnings: string[];
+}
+
+// The message is in the UI language, for showing beside the manifest picker.
+export class ManifestError extends Error {
+  constructor(key: MessageKey, params?: MessageParams) {
+    super(t(key, params));
+    this.name = 'ManifestError';
+  }
+}
+
+const FILE_COLUMNS = ['file', 'filename', 'path'];
+const POSITIVE_LABELS = ['1', 'true', 'yes', 'y', 'positive', 'pos'];
+const NEGATIVE_LABELS = ['0', 'false', 'no', 'n', 'negative', 'neg'];
+
+/**
+ * Reads a ground-truth manifest: one row per audio file, a `file` column,
+ * then a column per domain id (e.g. `respiratory`) holding a binary label
+ * and, optionally, a `<domain>_score` column with a reference score.
+ */
+export const parseManifest = (text: string): ValidationManifest => {
+  const [header, ...body] = parseCsv(text);
+  if (!header) throw new ManifestError('batch.manifestEmpty');
+
+  const columns = header.map(h => h.trim().toLowerCase());
+  const fileIndex = columns.findIndex(c => FILE_COLUMNS.includes(c));
+  if (fileIndex === -1) throw new ManifestError('batch.manifestNoFileColumn', { file: '"file"' });
+
+  const warnings: string[] = [];
+  const labelColumns: [number, DomainId][] = [];
+  const scoreColumns: [number, DomainId][] = [];
+
+  columns.forEach((column, index) => {
+    if (index === fileIndex) return;
+    const isScore = column.endsWith('_score');
+    const domain = getDomain(isScore ? column.slice(0, -'_score'.length) : column);
+    if (!domain) {
+      warnings.push(t('batch.ignoredColumn', { column: header[index] }));
+      return;
+    }
+    (isScore ? scoreColumns : labelColumns).push([index, domain.id]);
+  });
+
+  if (labelColumns.length === 0 && scoreColumns.length === 0) {
+    throw new ManifestError('batch.manifestNoDomains', { label: 'respiratory', score: 'respiratory_score' });
+  }
+
+  const seen = new Set<string>();
+  const rows: ManifestRow[] = [];
+
+  body.forEach((cells, i) => {
+    const line = i + 2;
+    const file = (cells[fileIndex] || '').trim();
+    if (!file) {
+      warnings.push(t('batch.noFileName', { line }));
+      return;
+    }
+    if (seen.has(file)) {
+      warnings.push(t('batch.duplicateFile', { line, file }));
+      return;
+    }
+    seen.add(file);
+
+    const row: ManifestRow = { file, labels: {}, referenceScores: {} };
+    labelColumns.forEach(([index, domain]) => {
+      const value = (cells[index] || '').trim().toLowerCase();
+      if (value === '') return;
+      if (POSITIVE_LABELS.includes(value)) row.labels[domain] = true;
+      else if (NEGATIVE_LABELS.includes(value)) row.labels[domain] = false;
+      else warnings.push(t('batch.invalidLabel', { line, value: cells[index], domain }));
+    });
+    scoreColumns.forEach(([index, domain]) => {
+      const value = (cells[index] || '').trim();
+      if (value === '') return;
+      const score = Number(value);
+      if (Number.isFinite(score)) row.referenceScores[domain] = score;
+      else warnings.push(t('batch.invalidScore', { line, value, column: `${domain}_score` }));
+    });
+    rows.push(row);
+  });
+
+  if (rows.length === 0) throw new ManifestError('batch.manifestNoRows');
+
+  const domains = Array.from(new Set([...labelColumns, ...scoreColumns].map(([, domain]) => domain)));
+  return { rows, domains, warnings };
+};
+
+// --- Matching files to the manifest ---
+
+export interface ValidationItem {
+  row: ManifestRow;
+  file: File;
+}
+
+const normalisePath = (path: string) => path.replace(/\\/g, '/').replace(/^\.?\//, '').toLowerCase();
+
+/**
+ * Pairs manifest rows with files from the selected folder. A row matches a
+ * file whose path within the folder ends with the manifest entry, so both
+ * bare names and relative paths work.
+ */
+export const matchManifestFiles = (manifest: ValidationManifest, files: File[]): { items: ValidationItem[]; missing: string[] } => {
+  const candidates = files.map(file => ({
+    file,
+    // webkitRelativePath includes the selected folder's own name first.
+    path: normalisePath((file.webkitRelativePath || file.name).split('/').slice(file.webkitRelativePath ? 1 : 0).join('/'))
+  }));
+
+  const items: ValidationItem[] = [];
+  const missing: string[] = [];
+
+  manifest.rows.forEach(row => {
+    const wanted = normalisePath(row.file);
+    const match = candidates.find(c => c.path === wanted) || candidates.find(c => c.path.endsWith(`/${wanted}`));
+    if (match) items.push({ row, file: match.file });
+    else missing.push(row.file);
+  });
+
+  return { items, missing };
+};
+
+// FNV-1a; only needs to tell runs apart, not resist tampering.
+const hashString = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Identifies a run by its manifest, files and language, so selecting the same
+ * folder and manifest again picks up where the last run stopped.
+ */
+export const computeRunId = (manifestText: string, items: ValidationItem[], language: string): string =>
+  hashString([
+    manifestText,
+    language,
+    ...items.map(({ row, file }) => `${row.file}:${file.size}:${file.lastModified}`)
+  ].join('\n'));
+
+// --- Results ---
+
+export interface ValidationResult {
+  key: string; // `${runId}:${file}`
+  runId: string;
+  file: string; // as written in the manifest
+  status: 'done' | 'failed';
+  overallScore?: number;
+  scores?: Partial<Record<DomainId, Pick<HealthDomain, 'score' | 'concern_level'>>>;
+  error?: string;
+  completedAt: number;
+}
+
+export const loadRunResults = (runId: string): Promise<ValidationResult[]> =>
+  runTransaction<ValidationResult[]>(STORE_VALIDATION_RESULTS, "readonly", store => store.index("runId").getAll(runId));
+
+export const clearRunResults = async (runId: string): Promise<void> => {
+  await runTransaction(STORE_VALIDATION_RESULTS, "readwrite", store =>
+    store.delete(IDBKeyRange.bound(`${runId}:`, `${runId}:\uffff`)));
+};
+
+const saveResult = async (result: ValidationResult): Promise<void> => {
+  await runTransaction(STORE_VALIDATION_RESULTS, "readwrite", store => store.put(result));
+};
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  wav: 'audio/wav', mp3: 'audio/mpeg', m4a: 'audio/mp4', mp4: 'audio/mp4',
+  webm: 'audio/webm', ogg: 'audio/ogg', flac: 'audio/flac', aac: 'audio/aac'
+};
+
+const audioMimeType = (file: File) =>
+  file.type || MIME_BY_EXTENSION[file.name.split('.').pop()?.toLowerCase() || ''] || 'audio/wav';
+
+const analyzeItem = async (runId: string, { row, file }: ValidationItem, language: string, signal: AbortSignal): Promise<ValidationResult> => {
+  const base = { key: `${runId}:${row.file}`, runId, file: row.file };
+
+  try {
+    let features;
+    try {
+      features = extractAcousticFeatures(await decodeAudioBlob(file));
+    } catch (e) {
+      console.warn(`Acoustic feature extraction failed for ${row.file}:`, e);
+    }
+
+    const analysis = await analyzeHealth(await blobToBase64(file), audioMimeType(file), undefined, undefined, language, features, undefined, undefined, { signal, onUsage: recordUsage });
+    const scores: ValidationResult['scores'] = {};
+    Object.entries(analysis.domain_scores).forEach(([id, domain]) => {
+      if (domain) scores[id as DomainId] = { score: domain.score, concern_level: domain.concern_level };
+    });
+
+    return { ...base, status: 'done', overallScore: analysis.overall_wellness_score, scores, completedAt: Date.now() };
+  } catch (e) {
+    const error = classifyError(e);
+    if (error.kind === 'cancelled') throw error;
+    return { ...base, status: 'failed', error: error.message, completedAt: Date.now() };
+  }
+};
+
+export interface BatchOptions {
+  runId: string;
+  items: ValidationItem[];
+  language: string;
+  concurrency: number;
+  signal: AbortSignal;
+  // Called as each file finishes, after its result is stored.
+  onResult: (result: ValidationResult) => void;
+}
+
+/**
+ * Analyses every item that has no successful stored result, at most
+ * `concurrency` at a time. Failed files are retried on the next run. Stops
+ * taking new files when `signal` aborts; in-flight ones are cancelled.
+ */
+export const runValidationBatch = async ({ runId, items, language, concurrency, signal, onResult }: BatchOptions): Promise<void> => {
+  const done = new Set((await loadRunResults(runId)).filter(r => r.status === 'done').map(r => r.file));
+  const queue = items.filter(item => !done.has(item.row.file));
+
+  const worker = async () => {
+    while (queue.length > 0 && !signal.aborted) {
+      const item = queue.shift() as ValidationItem;
+      let result: ValidationResult;
+      try {
+        result = await analyzeItem(runId, item, language, signal);
+      } catch {
+        return; // cancelled
+      }
+      await saveResult(result);
+      onResult(result);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker));
+};
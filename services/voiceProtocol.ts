@@ -0,0 +1,91 @@
+import { AcousticFeatures, VoiceTaskId } from "../types";
+import { t } from "./i18n";
+
+export interface VoiceTaskDefinition {
+  id: VoiceTaskId;
+  icon: string; // Material Symbols name
+  durationSeconds: number;
+  minSeconds: number;
+  // Usable speech the live coach counts towards; reaching it means the task can be stopped.
+  targetSpeechSeconds: number;
+  // Optional tasks can be skipped; the free-speech task is always recorded.
+  required: boolean;
+  // What the model should take from this recording.
+  promptGuidance: string;
+}
+
+/**
+ * The guided recording protocol, in the order the tasks are recorded.
+ */
+export const VOICE_PROTOCOL: VoiceTaskDefinition[] = [
+  {
+    id: 'sustained_vowel',
+    icon: 'graphic_eq',
+    durationSeconds: 10,
+    minSeconds: 3,
+    targetSpeechSeconds: 5,
+    required: false,
+    promptGuidance: 'Sustained /a/: phonation stability, jitter, shimmer, breathiness, tremor and maximum phonation time.'
+  },
+  {
+    id: 'ddk',
+    icon: 'speed',
+    durationSeconds: 10,
+    minSeconds: 3,
+    targetSpeechSeconds: 5,
+    required: false,
+    promptGuidance: 'Diadochokinetic "pa-ta-ka": syllable rate and regularity, articulatory precision and motor speech control.'
+  },
+  {
+    id: 'reading',
+    icon: 'menu_book',
+    durationSeconds: 20,
+    minSeconds: 4,
+    targetSpeechSeconds: 12,
+    required: false,
+    promptGuidance: 'Standard reading passage: fluency, pausing, breath groups and articulation on known text.'
+  },
+  {
+    id: 'free_speech',
+    icon: 'record_voice_over',
+    durationSeconds: 30,
+    minSeconds: 3,
+    targetSpeechSeconds: 15,
+    required: true,
+    promptGuidance: 'Spontaneous speech: prosody, energy, word finding, speech latency and emotional tone.'
+  },
+];
+
+export const getVoiceTask = (id: VoiceTaskId): VoiceTaskDefinition =>
+  VOICE_PROTOCOL.find(task => task.id === id) as VoiceTaskDefinition;
+
+export const VOICE_TASK_IDS = VOICE_PROTOCOL.map(task => task.id);
+
+export const taskLabel = (id: VoiceTaskId): string => t(`task.${id}.label`);
+
+// Shown above the timer. The reading passage and free-speech prompt come from the selected language.
+export const taskInstruction = (id: VoiceTaskId): string => t(`task.${id}.instruction`);
+
+/**
+ * Task-specific checks on top of the general recording validation. Returns a
+ * user-facing error in the UI language, or null when the recording is usable
+ * for its task. Recordings whose features could not be measured are let through.
+ */
+export const validateTaskRecording = (taskId: VoiceTaskId, features: AcousticFeatures | null): string | null => {
+  if (!features) return null;
+
+  switch (taskId) {
+    case 'sustained_vowel':
+      if (features.f0MeanHz === null) return t('task.vowelNoVoice');
+      if (features.pauseRatio > 0.4) return t('task.vowelInterrupted');
+      return null;
+    case 'ddk':
+      if (features.syllableRate < 2) return t('task.ddkTooFew');
+      return null;
+    case 'reading':
+      if (features.pauseRatio > 0.6) return t('task.readingSilent');
+      return null;
+    default:
+      return null;
+  }
+};
@@ -1,3 +1,8 @@
+// Domain metadata (labels, icons, prompt guidance) lives in services/domainRegistry.ts.
+export type CoreDomainId = 'neurological' | 'mental_health' | 'respiratory' | 'cardiovascular' | 'metabolic' | 'hydration';
+export type OptionalDomainId = 'sleep_fatigue' | 'cognitive_load';
+export type DomainId = CoreDomainId | OptionalDomainId;
+
 export interface HealthDomain {
   score: number;
   concern_level: 'low' | 'moderate' | 'elevated' | 'high';
@@ -5,6 +10,8 @@ export interface HealthDomain {
   explanation: string;
 }
 
+export type DomainScores = Record<CoreDomainId, HealthDomain> & Partial<Record<OptionalDomainId, HealthDomain>>;
+
 export interface KeyObservation {
   finding: string;
   significance: string;
@@ -17,6 +24,7 @@ export interface Recommendation {
   reason: string;
 }
 
+// Domain ids. Screenings saved before trends held ids have the English labels instead.
 export interface HealthTrends {
   improving: string[];
   stable: string[];
@@ -26,21 +34,69 @@ export interface HealthTrends {
 export interface HealthAnalysis {
   overall_wellness_score: number;
   confidence_level: 'low' | 'medium' | 'high';
-  domain_scores: {
-    neurological: HealthDomain;
-    mental_health: HealthDomain;
-    respiratory: HealthDomain;
-    cardiovascular: HealthDomain;
-    metabolic: HealthDomain;
-    hydration: HealthDomain;
-  };
+  domain_scores: DomainScores;
   key_observations: KeyObservation[];
   recommendations: Recommendation[];
   trends: HealthTrends;
+  // Profile fields that changed how the results were read; absent on screenings made without a profile.
+  profile_considerations?: ProfileConsideration[];
+  // Which guided-protocol recording supports each indicator; absent for single-clip screenings.
+  task_evidence?: TaskEvidence[];
   summary: string;
   disclaimer: string;
 }
 
+export type VoiceTaskId = 'sustained_vowel' | 'ddk' | 'reading' | 'free_speech';
+
+export interface TaskEvidence {
+  task: VoiceTaskId;
+  domain: DomainId;
+  indicator: string;
+}
+
+export type SexAtBirth = 'female' | 'male';
+export type SmokingStatus = 'never' | 'former' | 'current';
+
+// Optional, self-reported, and stored only on this device.
+export interface UserProfile {
+  age?: number;
+  sexAtBirth?: SexAtBirth;
+  smoker?: SmokingStatus;
+  respiratoryConditions?: string[];
+  neurologicalConditions?: string[];
+  medications?: string[];
+}
+
+export type ProfileField = keyof UserProfile;
+
+export interface ProfileConsideration {
+  field: ProfileField;
+  note: string;
+}
+
+export interface AcousticFeatures {
+  durationSeconds: number;
+  f0MeanHz: number | null;
+  f0MinHz: number | null;
+  f0MaxHz: number | null;
+  jitterPercent: number | null;
+  shimmerPercent: number | null;
+  hnrDb: number | null;
+  pauseRatio: number; // 0-1, share of speaking time spent in pauses
+  syllableRate: number; // syllables per second of speaking time
+}
+
+// What preprocessing did to one recording before upload; levels are in dBFS.
+export interface AudioPreprocessingStats {
+  // The protocol task the recording belongs to; absent for uploaded files.
+  task?: VoiceTaskId;
+  input: { mimeType: string; bytes: number; sampleRate: number; channels: number; durationSeconds: number };
+  trim: { leadingSeconds: number; trailingSeconds: number };
+  noiseGate: { noiseFloorDb: number; thresholdDb: number; gatedSeconds: number } | null;
+  normalisation: { gainDb: number; peakDb: number; rmsDb: number };
+  output: { mimeType: string; bytes: number; sampleRate: number; durationSeconds: number };
+}
+
 export enum AppScreen {
   INTRO = 'INTRO',
   RECORDING = 'RECORDING',
@@ -48,8 +104,44 @@ export enum AppScreen {
   FACE_CAPTURE = 'FACE_CAPTURE',
   UPLOAD_CONFIG = 'UPLOAD_CONFIG',
   ANALYZING = 'ANALYZING',
+  ANALYSIS_ERROR = 'ANALYSIS_ERROR',
   RESULTS = 'RESULTS',
-  CHAT = 'CHAT'
+  CHAT = 'CHAT',
+  HISTORY = 'HISTORY',
+  BATCH_VALIDATION = 'BATCH_VALIDATION'
+}
+
+export interface ScreeningRecord {
+  id: string;
+  createdAt: number;
+  language: string;
+  analysis: HealthAnalysis;
+  acousticFeatures?: AcousticFeatures;
+  // The profile the analysis was interpreted with, as it was at the time.
+  profile?: UserProfile;
+  // One entry per recording sent; absent when preprocessing was skipped or failed.
+  preprocessing?: AudioPreprocessingStats[];
+  // Every model call made for this screening: the analysis (with any repair
+  // attempts), then its chat turns and transcriptions.
+  usage?: ModelUsage[];
+}
+
+export type ModelCallKind = 'analysis' | 'chat' | 'transcription';
+export type InputModality = 'text' | 'audio' | 'image';
+
+// Token counts for one model call, as reported by the model's usageMetadata.
+export interface ModelUsage {
+  kind: ModelCallKind;
+  model: string;
+  at: number;
+  promptTokens: number;
+  // Includes thinking tokens, which are billed as output.
+  outputTokens: number;
+  totalTokens: number;
+  // Prompt tokens per modality when the model reports them.
+  promptTokensByModality?: Partial<Record<InputModality, number>>;
+  // Size of what was sent: bytes of inline audio and image, characters of text.
+  inputSizes: { textChars: number; audioBytes: number; imageBytes: number };
 }
 
 export interface ChatMessage {
@@ -57,4 +149,8 @@ export interface ChatMessage {
   text: string;
   isAudio?: boolean;
   audioUrl?: string;
+  transcript?: string; // what was heard in an audio message; replayed as text in later turns
+  isTranscribing?: boolean;
+  isStreaming?: boolean; // model reply still arriving
+  interrupted?: boolean; // model reply stopped or failed part-way
 }
\ No newline at end of file
@@ -1,15 +1,44 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig({
-  plugins: [react()],
-  server: {
-    host: '0.0.0.0',
-    port: 8080,
-  },
-  preview: {
-    host: '0.0.0.0',
-    port: 8080,
-    allowedHosts: true,
-  },
-});
\ No newline at end of file
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, '.', '');
+  // The proxy in server/; /api/* is forwarded to it by the dev and preview servers.
+  const proxy = {
+    '/api': {
+      target: env.PROXY_TARGET || 'http://localhost:8787',
+      rewrite: (path: string) => path.replace(/^\/api/, ''),
+    },
+  };
+  return {
+    plugins: [react()],
+    define: {
+      // Only inlined for direct browser-to-model calls, which are for local development:
+      // anything in this bundle is public.
+      'process.env.API_KEY': JSON.stringify(env.ANALYSIS_PROVIDER === 'gemini' ? env.GEMINI_API_KEY : undefined),
+      // 'http' (default, the proxy server), 'gemini' or 'fixture'
+      'process.env.ANALYSIS_PROVIDER': JSON.stringify(env.ANALYSIS_PROVIDER),
+      'process.env.ANALYSIS_BASE_URL': JSON.stringify(env.ANALYSIS_BASE_URL),
+      // Optional screening domains, e.g. 'sleep_fatigue,cognitive_load'
+      'process.env.EXTRA_DOMAINS': JSON.stringify(env.EXTRA_DOMAINS),
+      // Where the PDF report's Unicode fonts are served from; defaults to /fonts/
+      'process.env.PDF_FONT_BASE_URL': JSON.stringify(env.PDF_FONT_BASE_URL),
+      // Upload encoding: 'opus' (default, falls back to WAV) or 'wav'; AUDIO_NOISE_GATE=true gates background noise
+      'process.env.AUDIO_FORMAT': JSON.stringify(env.AUDIO_FORMAT),
+      'process.env.AUDIO_NOISE_GATE': JSON.stringify(env.AUDIO_NOISE_GATE),
+      // Price table for the usage panel's cost estimates, JSON merged over services/usageService.ts's defaults
+      'process.env.MODEL_PRICES': JSON.stringify(env.MODEL_PRICES),
+    },
+    server: {
+      host: '0.0.0.0',
+      port: 8080,
+      proxy,
+    },
+    preview: {
+      host: '0.0.0.0',
+      port: 8080,
+      allowedHosts: true,
+      proxy,
+    },
+  };
+});